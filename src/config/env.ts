@@ -60,7 +60,44 @@ export const env = {
   OTP_EXPIRY_MINUTES: parseInt(process.env.OTP_EXPIRY_MINUTES || '10', 10),
   OTP_LENGTH: parseInt(process.env.OTP_LENGTH || '6', 10),
   
+  // Login Brute-Force Protection
+  // Failed attempts (password, 2FA code or reset OTP) before a temporary lockout
+  LOGIN_MAX_ATTEMPTS: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '10', 10), // Per account
+  LOGIN_IP_MAX_ATTEMPTS: parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '50', 10), // Per client IP
+  LOGIN_LOCKOUT_DURATION: parseTimeToSeconds(process.env.LOGIN_LOCKOUT_DURATION, '15m'),
+  LOGIN_ATTEMPT_WINDOW: parseTimeToSeconds(process.env.LOGIN_ATTEMPT_WINDOW, '1h'), // Failures older than this are forgotten
+  LOGIN_BACKOFF_BASE_SECONDS: parseInt(process.env.LOGIN_BACKOFF_BASE_SECONDS || '2', 10), // Doubles with each further failure
+  OTP_MAX_ATTEMPTS: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10), // Wrong guesses before a reset OTP is invalidated
+  
+  // Two-Factor Authentication Settings
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Kabin247', // Shown in authenticator apps
+  // Key for encrypting stored TOTP secrets; falls back to the refresh token secret
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_REFRESH_SECRET || 'change-me-refresh-secret',
+  TWO_FACTOR_CHALLENGE_TTL: parseTimeToSeconds(process.env.TWO_FACTOR_CHALLENGE_TTL, '5m'), // Time to enter the code after the password
+  TWO_FACTOR_BACKUP_CODE_COUNT: parseInt(process.env.TWO_FACTOR_BACKUP_CODE_COUNT || '10', 10),
+  
   // Invite Settings
   INVITE_EXPIRY_DAYS: parseInt(process.env.INVITE_EXPIRY_DAYS || '14', 10),
+  
+  // Caterer Portal Settings (signed accept/decline links in caterer emails)
+  CATERER_LINK_EXPIRY_DAYS: parseInt(process.env.CATERER_LINK_EXPIRY_DAYS || '7', 10),
+  
+  // Quote Approval Settings (signed approve/pay links in client quote emails)
+  QUOTE_LINK_EXPIRY_DAYS: parseInt(process.env.QUOTE_LINK_EXPIRY_DAYS || '14', 10),
+  
+  // Order Scheduler Settings
+  SCHEDULER_INTERVAL_SECONDS: parseTimeToSeconds(process.env.SCHEDULER_INTERVAL, '15m'),
+  // Comma-separated fallback recipients for escalation rules without their own emails
+  SCHEDULER_OPS_EMAILS: (process.env.SCHEDULER_OPS_EMAILS || '')
+    .split(',')
+    .map(e => e.trim())
+    .filter(Boolean),
+  
+  // Image Upload Settings (menu items, add-on items, categories)
+  // Only 'local' (files under UPLOAD_DIR, served at UPLOAD_URL_PATH) is implemented
+  IMAGE_STORAGE: process.env.IMAGE_STORAGE || 'local',
+  UPLOAD_DIR: process.env.UPLOAD_DIR || 'uploads',
+  UPLOAD_URL_PATH: (process.env.UPLOAD_URL_PATH || '/uploads').replace(/\/+$/, ''),
+  IMAGE_MAX_UPLOAD_MB: parseInt(process.env.IMAGE_MAX_UPLOAD_MB || '10', 10),
 };
 
@@ -1,6 +1,8 @@
 import { DatabaseAdapter } from './adapter';
 import { PostgreSQLAdapter } from './postgresql';
 import { InMemoryAdapter } from './in-memory';
+import { zonedTimeToUtc } from '../utils/timezone';
+import { resolveDeliveryTimeZone } from '../utils/delivery-time';
 
 let dbAdapter: DatabaseAdapter | null = null;
 
@@ -43,6 +45,22 @@ export async function initializeDatabase(): Promise<void> {
     await createPasswordResetOtpsTable();
     await createPaymentTables();
     await createInvoicesTable();
+    await createOrderEventsTable();
+    await createSchedulerTables();
+    await createOrderResponseTokensTable();
+    await createOrderTemplateTables();
+    await createCatererPayablesTables();
+    await createCurrencyTables();
+    await createAircraftTables();
+    await createDietaryColumns();
+    await createImageColumns();
+    await createOrderAddonsTable();
+    await createInventoryConsumptionTables();
+    await createPurchasingTables();
+    await createInventoryLedgerTables();
+    await createRolesTable();
+    await createTwoFactorTables();
+    await createLoginSecurityTables();
   }
 }
 
@@ -53,10 +71,13 @@ async function createAirportsTable(): Promise<void> {
       airport_name VARCHAR(255) NOT NULL,
       airport_code_iata CHAR(3),
       airport_code_icao CHAR(4),
+      time_zone VARCHAR(64),
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW()
     );
     
+    ALTER TABLE airports ADD COLUMN IF NOT EXISTS time_zone VARCHAR(64);
+    
     CREATE INDEX IF NOT EXISTS idx_airports_iata ON airports(airport_code_iata);
     CREATE INDEX IF NOT EXISTS idx_airports_icao ON airports(airport_code_icao);
     CREATE INDEX IF NOT EXISTS idx_airports_name ON airports(airport_name);
@@ -91,10 +112,13 @@ async function createCaterersTable(): Promise<void> {
       airport_code_iata CHAR(3),
       airport_code_icao CHAR(4),
       time_zone VARCHAR(100),
+      default_currency VARCHAR(3),
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW()
     );
     
+    ALTER TABLE caterers ADD COLUMN IF NOT EXISTS default_currency VARCHAR(3);
+    
     CREATE INDEX IF NOT EXISTS idx_caterers_iata ON caterers(airport_code_iata);
     CREATE INDEX IF NOT EXISTS idx_caterers_icao ON caterers(airport_code_icao);
     CREATE INDEX IF NOT EXISTS idx_caterers_name ON caterers(caterer_name);
@@ -316,6 +340,26 @@ async function createOrdersTable(): Promise<void> {
     console.error('Error adding revision_count column:', error);
   }
 
+  // Add tax columns to orders for the pricing engine (per-line breakdown stored as JSONB)
+  try {
+    await dbAdapter!.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_total DECIMAL(10,2) NOT NULL DEFAULT 0.00;`);
+    await dbAdapter!.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_breakdown JSONB DEFAULT '[]'::jsonb;`);
+    console.log('tax_total and tax_breakdown columns added to orders');
+  } catch (error) {
+    console.error('Error adding tax columns to orders:', error);
+  }
+
+  // Delivery instant in UTC and the IANA zone the local delivery_date/delivery_time are in
+  try {
+    await dbAdapter!.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_at TIMESTAMPTZ;`);
+    await dbAdapter!.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_time_zone VARCHAR(64);`);
+    await dbAdapter!.query(`CREATE INDEX IF NOT EXISTS idx_orders_delivery_at ON orders(delivery_at);`);
+    console.log('delivery_at and delivery_time_zone columns added to orders');
+    await backfillDeliveryInstants();
+  } catch (error) {
+    console.error('Error adding delivery instant columns to orders:', error);
+  }
+
   // Add company_name column to clients for existing databases
   try {
     await dbAdapter!.query(`ALTER TABLE clients ADD COLUMN IF NOT EXISTS company_name VARCHAR(255);`);
@@ -350,6 +394,42 @@ async function createOrdersTable(): Promise<void> {
   }
 }
 
+/**
+ * Pin orders saved before delivery_at existed. Uses the same zone fallback and DST handling as
+ * getDeliveryInstant, so reports and the scheduler agree on every order.
+ */
+async function backfillDeliveryInstants(): Promise<void> {
+  const result = await dbAdapter!.query(`
+    SELECT o.id, to_char(o.delivery_date, 'YYYY-MM-DD') AS delivery_date, o.delivery_time,
+      a.time_zone AS airport_time_zone, c.time_zone AS caterer_time_zone
+    FROM orders o
+    LEFT JOIN airports a ON a.id = o.airport_id
+    LEFT JOIN caterers c ON c.id = o.caterer_id
+    WHERE o.delivery_at IS NULL AND o.delivery_date IS NOT NULL AND o.delivery_time IS NOT NULL
+  `);
+
+  let updated = 0;
+  for (const row of result.rows) {
+    const timeZone = resolveDeliveryTimeZone(
+      { time_zone: row.airport_time_zone || undefined },
+      { time_zone: row.caterer_time_zone || undefined }
+    );
+    const deliveryAt = zonedTimeToUtc(row.delivery_date, row.delivery_time, timeZone);
+    if (!deliveryAt) {
+      continue;
+    }
+    await dbAdapter!.query(
+      'UPDATE orders SET delivery_at = $1, delivery_time_zone = $2 WHERE id = $3',
+      [deliveryAt, timeZone, row.id]
+    );
+    updated++;
+  }
+
+  if (updated > 0) {
+    console.log(`delivery_at backfilled for ${updated} orders`);
+  }
+}
+
 async function createCategoriesTable(): Promise<void> {
   const createTableQuery = `
     CREATE TABLE IF NOT EXISTS categories (
@@ -650,7 +730,7 @@ async function createPaymentTables(): Promise<void> {
     CREATE TABLE IF NOT EXISTS payment_transactions (
       id SERIAL PRIMARY KEY,
       order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
-      square_payment_id VARCHAR(255) NOT NULL UNIQUE,
+      square_payment_id VARCHAR(255) NOT NULL,
       amount DECIMAL(10,2) NOT NULL,
       currency VARCHAR(3) NOT NULL DEFAULT 'USD',
       payment_method VARCHAR(50) NOT NULL CHECK (payment_method IN ('card', 'ACH', 'cash_app_pay', 'afterpay', 'other')),
@@ -680,14 +760,35 @@ async function createPaymentTables(): Promise<void> {
       UNIQUE(square_customer_id, square_card_id)
     );
     
+    CREATE TABLE IF NOT EXISTS payment_refunds (
+      id SERIAL PRIMARY KEY,
+      payment_transaction_id INTEGER NOT NULL REFERENCES payment_transactions(id) ON DELETE CASCADE,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      square_refund_id VARCHAR(255) NOT NULL UNIQUE,
+      amount DECIMAL(10,2) NOT NULL,
+      currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+      reason TEXT,
+      status VARCHAR(50) NOT NULL CHECK (status IN ('pending', 'completed', 'rejected', 'failed')),
+      error_message TEXT,
+      processed_by INTEGER REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    
     CREATE INDEX IF NOT EXISTS idx_payment_transactions_order_id ON payment_transactions(order_id);
     CREATE INDEX IF NOT EXISTS idx_payment_transactions_square_payment_id ON payment_transactions(square_payment_id);
+    -- A consolidated invoice payment is recorded once per linked order under the same Square payment
+    ALTER TABLE payment_transactions DROP CONSTRAINT IF EXISTS payment_transactions_square_payment_id_key;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_transactions_payment_order ON payment_transactions(square_payment_id, order_id);
     CREATE INDEX IF NOT EXISTS idx_payment_transactions_status ON payment_transactions(status);
     CREATE INDEX IF NOT EXISTS idx_payment_transactions_processed_by ON payment_transactions(processed_by);
     CREATE INDEX IF NOT EXISTS idx_payment_transactions_created_at ON payment_transactions(created_at);
     CREATE INDEX IF NOT EXISTS idx_stored_cards_client_id ON stored_cards(client_id);
     CREATE INDEX IF NOT EXISTS idx_stored_cards_square_customer_id ON stored_cards(square_customer_id);
     CREATE INDEX IF NOT EXISTS idx_stored_cards_is_default ON stored_cards(is_default);
+    CREATE INDEX IF NOT EXISTS idx_payment_refunds_transaction_id ON payment_refunds(payment_transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_payment_refunds_order_id ON payment_refunds(order_id);
+    CREATE INDEX IF NOT EXISTS idx_payment_refunds_square_refund_id ON payment_refunds(square_refund_id);
   `;
   
   try {
@@ -718,11 +819,24 @@ async function createInvoicesTable(): Promise<void> {
       paid_at TIMESTAMP
     );
     
+    -- Consolidated invoices cover several orders of one client; order_id holds the first order
+    ALTER TABLE invoices ADD COLUMN IF NOT EXISTS is_consolidated BOOLEAN NOT NULL DEFAULT FALSE;
+    
+    CREATE TABLE IF NOT EXISTS invoice_orders (
+      id SERIAL PRIMARY KEY,
+      invoice_id INTEGER NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      amount DECIMAL(10,2) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE(invoice_id, order_id)
+    );
+    
     CREATE INDEX IF NOT EXISTS idx_invoices_order_id ON invoices(order_id);
     CREATE INDEX IF NOT EXISTS idx_invoices_square_invoice_id ON invoices(square_invoice_id);
     CREATE INDEX IF NOT EXISTS idx_invoices_reference_id ON invoices(reference_id);
     CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
     CREATE INDEX IF NOT EXISTS idx_invoices_created_by ON invoices(created_by);
+    CREATE INDEX IF NOT EXISTS idx_invoice_orders_order_id ON invoice_orders(order_id);
   `;
   
   try {
@@ -733,6 +847,602 @@ async function createInvoicesTable(): Promise<void> {
   }
 }
 
+async function createOrderEventsTable(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS order_events (
+      id SERIAL PRIMARY KEY,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      event_type VARCHAR(50) NOT NULL,
+      actor_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      before JSONB,
+      after JSONB,
+      metadata JSONB,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_order_events_event_type ON order_events(event_type);
+    CREATE INDEX IF NOT EXISTS idx_order_events_actor_user_id ON order_events(actor_user_id);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Order events table created successfully');
+  } catch (error) {
+    console.error('Error creating order events table:', error);
+  }
+}
+
+async function createSchedulerTables(): Promise<void> {
+  const createRulesTableQuery = `
+    CREATE TABLE IF NOT EXISTS scheduler_rules (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      action VARCHAR(20) NOT NULL CHECK (action IN ('set_status', 'escalate')),
+      from_statuses JSONB NOT NULL DEFAULT '[]',
+      target_status VARCHAR(50),
+      hours_before_delivery DECIMAL(6,2) NOT NULL,
+      caterer_id INTEGER REFERENCES caterers(id) ON DELETE CASCADE,
+      order_type VARCHAR(50),
+      order_priority VARCHAR(20),
+      escalation_emails JSONB NOT NULL DEFAULT '[]',
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_scheduler_rules_active ON scheduler_rules(is_active);
+  `;
+
+  const createRunsTableQuery = `
+    CREATE TABLE IF NOT EXISTS scheduler_runs (
+      id SERIAL PRIMARY KEY,
+      trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('interval', 'manual')),
+      triggered_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+      orders_checked INTEGER NOT NULL DEFAULT 0,
+      actions_fired INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT,
+      started_at TIMESTAMP DEFAULT NOW(),
+      finished_at TIMESTAMP
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_scheduler_runs_started_at ON scheduler_runs(started_at);
+  `;
+
+  const createExecutionsTableQuery = `
+    CREATE TABLE IF NOT EXISTS scheduler_rule_executions (
+      id SERIAL PRIMARY KEY,
+      run_id INTEGER NOT NULL REFERENCES scheduler_runs(id) ON DELETE CASCADE,
+      rule_id INTEGER NOT NULL REFERENCES scheduler_rules(id) ON DELETE CASCADE,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      delivery_at TIMESTAMP NOT NULL,
+      action VARCHAR(20) NOT NULL,
+      details JSONB,
+      created_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE (rule_id, order_id, delivery_at)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_scheduler_rule_executions_order_id ON scheduler_rule_executions(order_id);
+  `;
+
+  // Records one-off seeds so the default rules are never recreated after an admin removes them.
+  // Deployments that already have rules count as seeded.
+  const createSeedsTableQuery = `
+    CREATE TABLE IF NOT EXISTS scheduler_seeds (
+      name VARCHAR(100) PRIMARY KEY,
+      seeded_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    INSERT INTO scheduler_seeds (name)
+    SELECT 'default_rules' WHERE EXISTS (SELECT 1 FROM scheduler_rules)
+    ON CONFLICT (name) DO NOTHING;
+  `;
+  
+  try {
+    await dbAdapter!.query(createRulesTableQuery);
+    await dbAdapter!.query(createRunsTableQuery);
+    await dbAdapter!.query(createExecutionsTableQuery);
+    await dbAdapter!.query(createSeedsTableQuery);
+    console.log('Scheduler tables created successfully');
+  } catch (error) {
+    console.error('Error creating scheduler tables:', error);
+  }
+}
+
+async function createOrderResponseTokensTable(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS order_response_tokens (
+      id SERIAL PRIMARY KEY,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      recipient_type VARCHAR(20) NOT NULL,
+      recipient_email VARCHAR(255) NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      revoked_at TIMESTAMP WITH TIME ZONE,
+      response VARCHAR(50),
+      comments TEXT,
+      created_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_order_response_tokens_order_id ON order_response_tokens(order_id, recipient_type);
+    CREATE INDEX IF NOT EXISTS idx_order_response_tokens_token_hash ON order_response_tokens(token_hash);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Order response tokens table created successfully');
+  } catch (error) {
+    console.error('Error creating order response tokens table:', error);
+  }
+}
+
+async function createOrderTemplateTables(): Promise<void> {
+  const createTemplatesTableQuery = `
+    CREATE TABLE IF NOT EXISTS order_templates (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      client_id INTEGER REFERENCES clients(id) ON DELETE CASCADE,
+      order_data JSONB NOT NULL,
+      recurrence JSONB,
+      generate_days_ahead INTEGER NOT NULL DEFAULT 7,
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_order_templates_client_id ON order_templates(client_id);
+    CREATE INDEX IF NOT EXISTS idx_order_templates_is_active ON order_templates(is_active);
+  `;
+
+  const createOccurrencesTableQuery = `
+    CREATE TABLE IF NOT EXISTS order_template_occurrences (
+      id SERIAL PRIMARY KEY,
+      template_id INTEGER NOT NULL REFERENCES order_templates(id) ON DELETE CASCADE,
+      occurrence_date DATE NOT NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('scheduled', 'skipped', 'generated')),
+      overrides JSONB,
+      order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE (template_id, occurrence_date)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_order_template_occurrences_order_id ON order_template_occurrences(order_id);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTemplatesTableQuery);
+    await dbAdapter!.query(createOccurrencesTableQuery);
+    console.log('Order template tables created successfully');
+  } catch (error) {
+    console.error('Error creating order template tables:', error);
+  }
+}
+
+async function createCatererPayablesTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS caterer_bills (
+      id SERIAL PRIMARY KEY,
+      caterer_id INTEGER NOT NULL REFERENCES caterers(id),
+      bill_number VARCHAR(255),
+      period_start DATE NOT NULL,
+      period_end DATE NOT NULL,
+      amount DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+      status VARCHAR(20) NOT NULL DEFAULT 'billed' CHECK (status IN ('billed', 'paid')),
+      notes TEXT,
+      payment_reference VARCHAR(255),
+      paid_at TIMESTAMP,
+      created_by INTEGER REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    -- Unit cost charged by the caterer for each item
+    ALTER TABLE order_items ADD COLUMN IF NOT EXISTS caterer_cost DECIMAL(10,2) CHECK (caterer_cost >= 0);
+    -- Orders without a bill are unbilled; otherwise the payable status is the bill's status
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS caterer_bill_id INTEGER REFERENCES caterer_bills(id) ON DELETE SET NULL;
+    
+    CREATE INDEX IF NOT EXISTS idx_caterer_bills_caterer_id ON caterer_bills(caterer_id);
+    CREATE INDEX IF NOT EXISTS idx_caterer_bills_status ON caterer_bills(status);
+    CREATE INDEX IF NOT EXISTS idx_caterer_bills_period ON caterer_bills(period_start, period_end);
+    CREATE INDEX IF NOT EXISTS idx_orders_caterer_bill_id ON orders(caterer_bill_id);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Caterer payables tables created successfully');
+  } catch (error) {
+    console.error('Error creating caterer payables tables:', error);
+  }
+}
+
+async function createCurrencyTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      id SERIAL PRIMARY KEY,
+      base_currency VARCHAR(3) NOT NULL,
+      quote_currency VARCHAR(3) NOT NULL,
+      rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+      effective_date DATE NOT NULL,
+      source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+      created_by INTEGER REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE(base_currency, quote_currency, effective_date)
+    );
+    
+    -- Amounts on an order are in its currency; existing orders are USD
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+    -- Exchange rate snapshot taken when the quote is sent to the client
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,8);
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rate_base VARCHAR(3);
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rate_date DATE;
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rate_captured_at TIMESTAMP;
+    -- A caterer bill covers orders in a single currency
+    ALTER TABLE caterer_bills ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+    
+    CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date ON exchange_rates(base_currency, quote_currency, effective_date DESC);
+    CREATE INDEX IF NOT EXISTS idx_orders_currency ON orders(currency);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Currency tables created successfully');
+  } catch (error) {
+    console.error('Error creating currency tables:', error);
+  }
+}
+
+async function createAircraftTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS aircraft (
+      id SERIAL PRIMARY KEY,
+      tail_number VARCHAR(20) NOT NULL UNIQUE,
+      aircraft_type VARCHAR(255),
+      client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL,
+      operator_name VARCHAR(255),
+      oven_type VARCHAR(255),
+      storage_limits TEXT,
+      galley_notes TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    -- aircraft_tail_number stays on the order and mirrors the linked aircraft's tail number
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS aircraft_id INTEGER REFERENCES aircraft(id) ON DELETE SET NULL;
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS passenger_count INTEGER CHECK (passenger_count >= 0);
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS crew_count INTEGER CHECK (crew_count >= 0);
+    -- Who an item feeds (passenger or crew), used to suggest quantities from the counts
+    ALTER TABLE order_items ADD COLUMN IF NOT EXISTS meal_for VARCHAR(20) CHECK (meal_for IN ('passenger', 'crew'));
+    
+    CREATE INDEX IF NOT EXISTS idx_aircraft_client_id ON aircraft(client_id);
+    CREATE INDEX IF NOT EXISTS idx_orders_aircraft_id ON orders(aircraft_id);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Aircraft tables created successfully');
+  } catch (error) {
+    console.error('Error creating aircraft tables:', error);
+  }
+}
+
+async function createDietaryColumns(): Promise<void> {
+  const alterQuery = `
+    -- NULL allergens means not yet tagged (unknown), an empty array means none
+    ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS allergens TEXT[];
+    ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS dietary_tags TEXT[];
+    ALTER TABLE menu_item_variants ADD COLUMN IF NOT EXISTS allergens TEXT[];
+    ALTER TABLE menu_item_variants ADD COLUMN IF NOT EXISTS dietary_tags TEXT[];
+    -- Order items keep a snapshot of the menu item's allergens and tags when ordered
+    ALTER TABLE order_items ADD COLUMN IF NOT EXISTS allergens TEXT[];
+    ALTER TABLE order_items ADD COLUMN IF NOT EXISTS dietary_tags TEXT[];
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS dietary_requirements JSONB NOT NULL DEFAULT '[]'::jsonb;
+    
+    CREATE INDEX IF NOT EXISTS idx_menu_items_allergens ON menu_items USING GIN (allergens);
+  `;
+  
+  try {
+    await dbAdapter!.query(alterQuery);
+    console.log('Dietary columns created successfully');
+  } catch (error) {
+    console.error('Error creating dietary columns:', error);
+  }
+}
+
+async function createImageColumns(): Promise<void> {
+  const alterQuery = `
+    -- Uploaded images are stored as a full-size image_url plus a thumbnail
+    ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS image_thumbnail_url TEXT;
+    ALTER TABLE addon_items ADD COLUMN IF NOT EXISTS image_thumbnail_url TEXT;
+    ALTER TABLE categories ADD COLUMN IF NOT EXISTS image_thumbnail_url TEXT;
+  `;
+  
+  try {
+    await dbAdapter!.query(alterQuery);
+    console.log('Image columns created successfully');
+  } catch (error) {
+    console.error('Error creating image columns:', error);
+  }
+}
+
+async function createOrderAddonsTable(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS order_addons (
+      id SERIAL PRIMARY KEY,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      -- The name and price snapshots keep the line intact if the add-on item is deleted
+      addon_item_id INTEGER REFERENCES addon_items(id) ON DELETE SET NULL,
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+      price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+      sort_order INTEGER DEFAULT 0,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_order_addons_order_id ON order_addons(order_id);
+    CREATE INDEX IF NOT EXISTS idx_order_addons_addon_item_id ON order_addons(addon_item_id);
+  `;
+  
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Order add-ons table created successfully');
+  } catch (error) {
+    console.error('Error creating order add-ons table:', error);
+  }
+}
+
+async function createInventoryConsumptionTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS menu_item_recipe_lines (
+      id SERIAL PRIMARY KEY,
+      menu_item_id INTEGER NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+      portion_size VARCHAR(100) NOT NULL,
+      inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+      quantity DECIMAL(10,3) NOT NULL CHECK (quantity > 0),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE(menu_item_id, portion_size, inventory_item_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS inventory_reservations (
+      id SERIAL PRIMARY KEY,
+      order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+      quantity DECIMAL(10,3) NOT NULL CHECK (quantity > 0),
+      status VARCHAR(20) NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'consumed', 'released')),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_recipe_lines_menu_item ON menu_item_recipe_lines(menu_item_id);
+    CREATE INDEX IF NOT EXISTS idx_recipe_lines_inventory_item ON menu_item_recipe_lines(inventory_item_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order ON inventory_reservations(order_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_item_status ON inventory_reservations(inventory_item_id, status);
+  `;
+
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Inventory recipe and reservation tables created successfully');
+  } catch (error) {
+    console.error('Error creating inventory recipe and reservation tables:', error);
+  }
+}
+
+async function createPurchasingTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS suppliers (
+      id SERIAL PRIMARY KEY,
+      supplier_name VARCHAR(255) NOT NULL,
+      contact_name VARCHAR(255),
+      email VARCHAR(255),
+      phone VARCHAR(50),
+      address TEXT,
+      lead_time_days INTEGER CHECK (lead_time_days >= 0),
+      notes TEXT,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS supplier_id INTEGER REFERENCES suppliers(id) ON DELETE SET NULL;
+
+    CREATE TABLE IF NOT EXISTS purchase_orders (
+      id SERIAL PRIMARY KEY,
+      po_number VARCHAR(20) UNIQUE,
+      supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+      supplier_name VARCHAR(255) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received')),
+      expected_date DATE,
+      notes TEXT,
+      sent_at TIMESTAMP,
+      received_at TIMESTAMP,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS purchase_order_lines (
+      id SERIAL PRIMARY KEY,
+      purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+      inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+      item_name VARCHAR(255) NOT NULL,
+      unit VARCHAR(20) NOT NULL,
+      quantity_ordered DECIMAL(10,2) NOT NULL CHECK (quantity_ordered > 0),
+      quantity_received DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+      unit_price DECIMAL(10,2) CHECK (unit_price >= 0),
+      sort_order INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS inventory_movements (
+      id SERIAL PRIMARY KEY,
+      inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+      movement_type VARCHAR(20) NOT NULL,
+      quantity DECIMAL(10,2) NOT NULL,
+      stock_after DECIMAL(10,2) NOT NULL,
+      purchase_order_id INTEGER REFERENCES purchase_orders(id) ON DELETE SET NULL,
+      purchase_order_line_id INTEGER REFERENCES purchase_order_lines(id) ON DELETE SET NULL,
+      notes TEXT,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_inventory_supplier ON inventory_items(supplier_id);
+    CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+    CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+    CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);
+    CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_item ON purchase_order_lines(inventory_item_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_item ON inventory_movements(inventory_item_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_purchase_order ON inventory_movements(purchase_order_id);
+  `;
+
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Supplier, purchase order and inventory movement tables created successfully');
+  } catch (error) {
+    console.error('Error creating supplier, purchase order and inventory movement tables:', error);
+  }
+}
+
+async function createInventoryLedgerTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS inventory_lots (
+      id SERIAL PRIMARY KEY,
+      inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+      lot_number VARCHAR(100),
+      expiry_date DATE,
+      location VARCHAR(255),
+      quantity_received DECIMAL(10,2) NOT NULL CHECK (quantity_received >= 0),
+      quantity_remaining DECIMAL(10,2) NOT NULL CHECK (quantity_remaining >= 0),
+      purchase_order_line_id INTEGER REFERENCES purchase_order_lines(id) ON DELETE SET NULL,
+      received_at TIMESTAMP DEFAULT NOW(),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS lot_id INTEGER REFERENCES inventory_lots(id) ON DELETE SET NULL;
+    ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS lot_number VARCHAR(100);
+    ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS expiry_date DATE;
+    ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS location VARCHAR(255);
+    ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS to_location VARCHAR(255);
+    ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_inventory_lots_item ON inventory_lots(inventory_item_id, expiry_date);
+    CREATE INDEX IF NOT EXISTS idx_inventory_lots_expiry ON inventory_lots(expiry_date) WHERE quantity_remaining > 0;
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_order ON inventory_movements(order_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_lot ON inventory_movements(lot_id);
+  `;
+
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Inventory lot and movement ledger tables created successfully');
+  } catch (error) {
+    console.error('Error creating inventory lot and movement ledger tables:', error);
+  }
+}
+
+async function createRolesTable(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS roles (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL UNIQUE,
+      description TEXT,
+      permissions JSONB NOT NULL DEFAULT '[]',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS role_id INTEGER REFERENCES roles(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_users_role_id ON users(role_id);
+  `;
+
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Roles table created successfully');
+  } catch (error) {
+    console.error('Error creating roles table:', error);
+  }
+}
+
+async function createTwoFactorTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS user_two_factor (
+      user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      secret_encrypted TEXT NOT NULL,
+      enabled_at TIMESTAMP WITH TIME ZONE,
+      last_used_step BIGINT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS two_factor_backup_codes (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash TEXT NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS two_factor_policy (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      required_roles JSONB NOT NULL DEFAULT '[]',
+      required_role_ids JSONB NOT NULL DEFAULT '[]',
+      updated_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_two_factor_backup_codes_user_id ON two_factor_backup_codes(user_id);
+  `;
+
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Two-factor authentication tables created successfully');
+  } catch (error) {
+    console.error('Error creating two-factor authentication tables:', error);
+  }
+}
+
+async function createLoginSecurityTables(): Promise<void> {
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS login_throttles (
+      scope VARCHAR(10) NOT NULL CHECK (scope IN ('account', 'ip')),
+      subject TEXT NOT NULL,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      last_failure_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      locked_until TIMESTAMP WITH TIME ZONE,
+      PRIMARY KEY (scope, subject)
+    );
+
+    CREATE TABLE IF NOT EXISTS security_events (
+      id SERIAL PRIMARY KEY,
+      event_type VARCHAR(50) NOT NULL,
+      email VARCHAR(255),
+      ip TEXT,
+      user_agent TEXT,
+      details JSONB,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    ALTER TABLE password_reset_otps ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0;
+
+    CREATE INDEX IF NOT EXISTS idx_security_events_email ON security_events(email);
+    CREATE INDEX IF NOT EXISTS idx_security_events_created_at ON security_events(created_at);
+  `;
+
+  try {
+    await dbAdapter!.query(createTableQuery);
+    console.log('Login security tables created successfully');
+  } catch (error) {
+    console.error('Error creating login security tables:', error);
+  }
+}
+
 export function getDatabase(): DatabaseAdapter {
   if (!dbAdapter) {
     throw new Error('Database not initialized. Call initializeDatabase() first.');
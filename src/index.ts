@@ -68,6 +68,11 @@ app.use(express.urlencoded({ extended: true }));
 // Serve static assets (logo, etc.)
 app.use('/assets', express.static(path.join(__dirname, '..', 'src', 'assets')));
 
+// Serve uploaded images when they are stored on local disk
+if (env.IMAGE_STORAGE === 'local') {
+  app.use(env.UPLOAD_URL_PATH, express.static(path.resolve(env.UPLOAD_DIR)));
+}
+
 // Initialize database and start server
 async function startServer() {
   try {
@@ -89,13 +94,28 @@ async function startServer() {
     const { inventoryRouter } = await import('./routes/inventory');
     const { taxChargeRouter } = await import('./routes/tax-charges');
     const { fboRouter } = await import('./routes/fbos');
+    const { aircraftRouter } = await import('./routes/aircraft');
+    const { supplierRouter } = await import('./routes/suppliers');
+    const { purchaseOrderRouter } = await import('./routes/purchase-orders');
     const { paymentRouter, publicPaymentRouter } = await import('./routes/payments');
     const { invoiceRouter } = await import('./routes/invoices');
     const { webhookRouter } = await import('./routes/webhooks');
+    const { schedulerRouter } = await import('./routes/scheduler');
+    const { catererPortalRouter } = await import('./routes/caterer-portal');
+    const { quotePortalRouter } = await import('./routes/quote-portal');
+    const { orderTemplateRouter } = await import('./routes/order-templates');
+    const { reportRouter } = await import('./routes/reports');
+    const { receivablesRouter } = await import('./routes/receivables');
+    const { catererPayableRouter } = await import('./routes/caterer-payables');
+    const { exchangeRateRouter } = await import('./routes/exchange-rates');
+    const { roleRouter } = await import('./routes/roles');
+    const { permissionRouter } = await import('./routes/permissions');
+    const { allowPublic } = await import('./middleware/auth');
+    const { findUndeclaredRoutes } = await import('./utils/route-permissions');
 
     // Swagger Documentation
     const swaggerSpec = setupSwagger();
-    app.get('/api-docs/swagger.json', (req: Request, res: Response) => {
+    app.get('/api-docs/swagger.json', allowPublic, (req: Request, res: Response) => {
       res.setHeader('Content-Type', 'application/json');
       res.send(swaggerSpec);
     });
@@ -105,9 +125,11 @@ async function startServer() {
     app.use('/health', healthRouter);
     app.use('/auth', authRouter);
     app.use('/invites', invitesRouter);
+    app.use('/caterer-portal', catererPortalRouter); // Token-authenticated caterer responses
+    app.use('/quote-portal', quotePortalRouter); // Token-authenticated client quote approval
     
     // Public Square Application ID endpoint (no auth required - safe to expose)
-    app.get('/payments/application-id', async (req: Request, res: Response) => {
+    app.get('/payments/application-id', allowPublic, async (req: Request, res: Response) => {
       try {
         const applicationId = process.env.SQUARE_APPLICATION_ID;
         if (!applicationId) {
@@ -138,17 +160,28 @@ async function startServer() {
     app.use('/caterers', catererRouter);
     app.use('/clients', clientRouter);
     app.use('/orders', orderRouter);
+    app.use('/order-templates', orderTemplateRouter);
     app.use('/menu-items', menuItemRouter);
     app.use('/categories', categoryRouter);
     app.use('/addon-items', addonItemRouter);
     app.use('/inventory', inventoryRouter);
+    app.use('/suppliers', supplierRouter);
+    app.use('/purchase-orders', purchaseOrderRouter);
     app.use('/tax-charges', taxChargeRouter);
     app.use('/fbos', fboRouter);
+    app.use('/aircraft', aircraftRouter);
+    app.use('/scheduler', schedulerRouter);
+    app.use('/reports', reportRouter);
+    app.use('/receivables', receivablesRouter);
+    app.use('/caterer-payables', catererPayableRouter);
+    app.use('/exchange-rates', exchangeRateRouter);
+    app.use('/roles', roleRouter);
+    app.use('/permissions', permissionRouter);
     app.use('/', paymentRouter); // Payment routes are prefixed in the router
     app.use('/', invoiceRouter); // Invoice routes are prefixed in the router
 
     // Root endpoint
-    app.get('/', (req: Request, res: Response) => {
+    app.get('/', allowPublic, (req: Request, res: Response) => {
       res.json({
         message: 'Welcome to Kabin247 API',
         documentation: '/api-docs',
@@ -157,15 +190,32 @@ async function startServer() {
         caterers: '/caterers',
         clients: '/clients',
         orders: '/orders',
+        orderTemplates: '/order-templates',
         menuItems: '/menu-items',
         categories: '/categories',
         addonItems: '/addon-items',
         inventory: '/inventory',
+        suppliers: '/suppliers',
+        purchaseOrders: '/purchase-orders',
         taxCharges: '/tax-charges',
-        fbos: '/fbos'
+        fbos: '/fbos',
+        aircraft: '/aircraft',
+        scheduler: '/scheduler',
+        reports: '/reports',
+        receivables: '/receivables',
+        catererPayables: '/caterer-payables',
+        exchangeRates: '/exchange-rates',
+        roles: '/roles',
+        permissions: '/permissions'
       });
     });
 
+    // Every route must declare the permission it requires (or allowPublic / allowAuthenticated)
+    const undeclaredRoutes = findUndeclaredRoutes(app);
+    if (undeclaredRoutes.length > 0) {
+      throw new Error(`Routes without a declared permission: ${undeclaredRoutes.join('; ')}`);
+    }
+
     // Error handling middleware (must be after all routes)
     app.use(errorLogger);
 
@@ -192,6 +242,11 @@ async function startServer() {
     scheduler.start();
     Logger.info('Order status scheduler started');
 
+    // Initialize recurring order generation
+    const { getOrderTemplateService } = await import('./services/order-template.service');
+    getOrderTemplateService().start();
+    Logger.info('Recurring order generator started');
+
     app.listen(PORT, () => {
       console.log(`Server is running on http://localhost:${PORT}`);
       console.log(`Swagger documentation available at http://localhost:${PORT}/api-docs`);
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { User, Role, PermissionMap } from '../models/user';
+import { Permission } from '../models/permission';
 import { getAuthService } from '../services/auth.service';
+import { getEffectivePermissions } from '../utils/permissions';
 import { Logger } from '../utils/logger';
 
 // Extend Express Request to include user
@@ -95,27 +97,32 @@ export function requireRole(...roles: Role[]): (req: Request, res: Response, nex
 
 /**
  * Check if user has a specific permission
+ * ADMIN has all permissions; CSRs those of their role plus their individual grants
  */
-function hasPermission(user: User, permission: string): boolean {
-  // ADMIN has all permissions
-  if (user.role === 'ADMIN') {
-    return true;
-  }
+export function hasPermission(user: User, permission: Permission): boolean {
+  return getEffectivePermissions(user).includes(permission);
+}
 
-  // CSR must have explicit permission
-  if (user.role === 'CSR' && user.permissions) {
-    return user.permissions[permission] === true;
-  }
+// What a route requires, read by the startup check in utils/route-permissions
+export type RouteAccess = Permission | 'public' | 'authenticated';
+
+type DeclaredMiddleware = ((req: Request, res: Response, next: NextFunction) => void) & { routeAccess?: RouteAccess };
 
-  return false;
+function declareAccess(access: RouteAccess, middleware: DeclaredMiddleware): DeclaredMiddleware {
+  middleware.routeAccess = access;
+  return middleware;
+}
+
+export function getRouteAccess(handler: unknown): RouteAccess | undefined {
+  return typeof handler === 'function' ? (handler as DeclaredMiddleware).routeAccess : undefined;
 }
 
 /**
  * Middleware to require specific permission
  * ADMIN bypasses all permission checks
  */
-export function requirePermission(permission: string): (req: Request, res: Response, next: NextFunction) => void {
-  return (req: Request, res: Response, next: NextFunction): void => {
+export function requirePermission(permission: Permission): (req: Request, res: Response, next: NextFunction) => void {
+  return declareAccess(permission, (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({ error: 'Authentication required' });
       return;
@@ -127,16 +134,34 @@ export function requirePermission(permission: string): (req: Request, res: Respo
     }
 
     next();
-  };
+  });
 }
 
+/**
+ * Declares routes that need no authentication (login, portals, webhooks, health)
+ */
+export const allowPublic = declareAccess('public', (req: Request, res: Response, next: NextFunction): void => {
+  next();
+});
+
+/**
+ * Declares routes open to every signed-in user, whatever their permissions
+ */
+export const allowAuthenticated = declareAccess('authenticated', (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+  next();
+});
+
 /**
  * Helper to get permissions hash from user permissions
  */
 export function getPermissionsHash(permissions: PermissionMap | null): string | undefined {
   if (!permissions) return undefined;
   // Simple hash of permissions for quick comparison
-  const sorted = Object.keys(permissions).sort().map(k => `${k}:${permissions[k]}`).join(',');
+  const sorted = (Object.keys(permissions) as Permission[]).sort().map(k => `${k}:${permissions[k]}`).join(',');
   return Buffer.from(sorted).toString('base64').substring(0, 16);
 }
 
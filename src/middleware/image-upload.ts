@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { env } from '../config/env';
+import { IMAGE_CONTENT_TYPES } from '../services/image.service';
+import { Logger } from '../utils/logger';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: env.IMAGE_MAX_UPLOAD_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (IMAGE_CONTENT_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Only ${IMAGE_CONTENT_TYPES.join(', ')} images are allowed.`));
+    }
+  },
+});
+
+/**
+ * Middleware to accept a single multipart image in the "image" field
+ * Upload errors (type, size) are answered with 400; the file is left in req.file
+ */
+export function imageUpload(req: Request, res: Response, next: NextFunction): void {
+  upload.single('image')(req, res, (err: any) => {
+    if (err) {
+      Logger.warn('Image upload rejected', { method: req.method, url: req.originalUrl, error: err.message });
+      res.status(400).json({ error: err.message || 'Image upload failed' });
+      return;
+    }
+    if (!req.file) {
+      res.status(400).json({ error: 'No image uploaded (expected multipart field "image")' });
+      return;
+    }
+    next();
+  });
+}
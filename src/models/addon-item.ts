@@ -5,6 +5,7 @@ export interface AddonItem {
   price: number;
   category?: string; // Category ID or slug
   image_url?: string;
+  image_thumbnail_url?: string | null; // Set by image uploads
   is_active: boolean;
   created_at?: Date;
   updated_at?: Date;
@@ -25,6 +26,7 @@ export interface UpdateAddonItemDTO {
   price?: number;
   category?: string;
   image_url?: string;
+  image_thumbnail_url?: string | null;
   is_active?: boolean;
 }
 
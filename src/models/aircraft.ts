@@ -0,0 +1,49 @@
+export interface Aircraft {
+  id?: number;
+  tail_number: string; // Registration, stored uppercase, e.g. N123AB
+  aircraft_type?: string; // e.g. "Gulfstream G650"
+  client_id?: number | null; // Operator when they are a client
+  operator_name?: string;
+  // Galley notes printed on the caterer PDF
+  oven_type?: string; // e.g. "convection", "microwave only"
+  storage_limits?: string; // e.g. "2 half-size carts, no chiller"
+  galley_notes?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateAircraftDTO {
+  tail_number: string;
+  aircraft_type?: string;
+  client_id?: number | null;
+  operator_name?: string;
+  oven_type?: string;
+  storage_limits?: string;
+  galley_notes?: string;
+}
+
+export interface UpdateAircraftDTO {
+  tail_number?: string;
+  aircraft_type?: string;
+  client_id?: number | null;
+  operator_name?: string;
+  oven_type?: string;
+  storage_limits?: string;
+  galley_notes?: string;
+}
+
+export interface AircraftSearchParams {
+  search?: string;
+  client_id?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface AircraftListResponse {
+  aircraft: Aircraft[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -3,6 +3,7 @@ export interface Airport {
   airport_name: string;
   airport_code_iata?: string;
   airport_code_icao?: string;
+  time_zone?: string; // IANA zone delivery times at this airport are in, e.g. America/New_York
   created_at?: Date;
   updated_at?: Date;
 }
@@ -11,6 +12,7 @@ export interface CreateAirportDTO {
   airport_name: string;
   airport_code_iata?: string;
   airport_code_icao?: string;
+  time_zone?: string; // Looked up from the ICAO/IATA code when not given
 }
 
 export interface AirportSearchParams {
@@ -4,6 +4,7 @@ export interface Category {
   slug: string;
   description?: string;
   image_url?: string;
+  image_thumbnail_url?: string | null; // Set by image uploads
   icon?: string;
   display_order: number;
   item_count?: number; // Calculated field
@@ -27,6 +28,7 @@ export interface UpdateCategoryDTO {
   slug?: string;
   description?: string;
   image_url?: string;
+  image_thumbnail_url?: string | null;
   icon?: string;
   display_order?: number;
   is_active?: boolean;
@@ -0,0 +1,124 @@
+// Orders without a caterer bill are unbilled; billed orders take the bill's status
+export type CatererPayableStatus = 'unbilled' | 'billed' | 'paid';
+export type CatererBillStatus = 'billed' | 'paid';
+export type CatererPayablePeriod = 'month' | 'quarter' | 'year';
+export type MarginGroupBy = 'order' | 'client' | 'caterer';
+
+// Cost and margin of a single non-cancelled order, in the order's currency
+export interface CatererPayableOrder {
+  order_id: number;
+  order_number: string;
+  caterer_id: number;
+  caterer_name: string;
+  client_id?: number | null;
+  client_name: string;
+  delivery_date: string;
+  status: string;
+  currency: string;
+  item_revenue: number; // Order subtotal (client prices)
+  revenue: number; // Order total excluding tax
+  caterer_cost: number; // Sum of caterer_cost x quantity over the items
+  items_missing_cost: number; // Items with no caterer cost recorded
+  margin: number; // revenue - caterer_cost
+  margin_percent: number | null;
+  payable_status: CatererPayableStatus;
+  caterer_bill_id?: number | null;
+}
+
+export interface CatererPayableSearchParams {
+  date_from: string;
+  date_to: string;
+  caterer_id?: number;
+  client_id?: number;
+  payable_status?: CatererPayableStatus;
+  order_ids?: number[];
+}
+
+export interface CatererBill {
+  id: number;
+  caterer_id: number;
+  caterer_name?: string;
+  bill_number?: string | null; // Caterer's own invoice or statement number
+  period_start: string;
+  period_end: string;
+  amount: number;
+  currency: string; // All orders on a bill share one currency
+  status: CatererBillStatus;
+  notes?: string | null;
+  payment_reference?: string | null;
+  paid_at?: Date | null;
+  created_by?: number | null;
+  created_at: Date;
+  updated_at: Date;
+  order_count?: number;
+  orders?: CatererPayableOrder[];
+}
+
+export interface CatererBillSearchParams {
+  caterer_id?: number;
+  status?: CatererBillStatus;
+  date_from?: string; // Bills whose period overlaps the range
+  date_to?: string;
+}
+
+export interface CreateCatererBillDTO {
+  caterer_id: number;
+  period_start: string;
+  period_end: string;
+  bill_number?: string;
+  notes?: string;
+  order_ids?: number[]; // Defaults to every unbilled order of the caterer delivered in the period
+}
+
+export interface PayCatererBillDTO {
+  paid_at?: string;
+  payment_reference?: string;
+}
+
+// Caterer cost per caterer, period and currency, split by payable status
+export interface CatererPayableSummaryRow {
+  caterer_id: number;
+  caterer_name: string;
+  period: string;
+  currency: string;
+  order_count: number;
+  orders_missing_cost: number;
+  unbilled_amount: number;
+  billed_amount: number;
+  paid_amount: number;
+  total_cost: number;
+}
+
+export interface CatererPayableSummary {
+  date_from: string;
+  date_to: string;
+  period: CatererPayablePeriod;
+  rows: CatererPayableSummaryRow[];
+  totals: CatererPayableSummaryTotals[]; // One per currency
+}
+
+export type CatererPayableSummaryTotals = Omit<CatererPayableSummaryRow, 'caterer_id' | 'caterer_name' | 'period'>;
+
+// Margin per order, client or caterer and currency
+export interface MarginRow {
+  key: number;
+  label: string;
+  currency: string;
+  order_count: number;
+  orders_missing_cost: number;
+  item_revenue: number;
+  revenue: number;
+  caterer_cost: number;
+  margin: number;
+  margin_percent: number | null;
+}
+
+export interface MarginReport {
+  group_by: MarginGroupBy;
+  date_from: string;
+  date_to: string;
+  rows: MarginRow[];
+  totals: MarginTotals[]; // One per currency
+}
+
+export type MarginTotals = Omit<MarginRow, 'key' | 'label'>;
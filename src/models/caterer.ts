@@ -6,6 +6,7 @@ export interface Caterer {
   airport_code_iata?: string;
   airport_code_icao?: string;
   time_zone?: string;
+  default_currency?: string; // ISO 4217 code new orders default to
   additional_emails?: string[];
   created_at?: Date;
   updated_at?: Date;
@@ -18,6 +19,7 @@ export interface CreateCatererDTO {
   airport_code_iata?: string;
   airport_code_icao?: string;
   time_zone?: string;
+  default_currency?: string;
   additional_emails?: string[];
 }
 
@@ -0,0 +1,47 @@
+// The 14 major allergens (EU FIC / UK FSA list)
+export const ALLERGENS = [
+  'celery',
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'lupin',
+  'milk',
+  'molluscs',
+  'mustard',
+  'tree_nuts',
+  'peanuts',
+  'sesame',
+  'soy',
+  'sulphites',
+] as const;
+
+export type Allergen = typeof ALLERGENS[number];
+
+// Diets an item is suitable for
+export const DIETARY_TAGS = ['gluten_free', 'halal', 'kosher', 'vegan'] as const;
+
+export type DietaryTag = typeof DIETARY_TAGS[number];
+
+// A stated requirement for one or more passengers (or crew) on an order
+export interface DietaryRequirement {
+  label?: string; // e.g. passenger name, "Crew", "Seat 2A"
+  count?: number; // People the requirement covers; defaults to 1
+  allergens?: Allergen[]; // Must not be served
+  diets?: DietaryTag[]; // Need at least one suitable item
+  notes?: string;
+}
+
+export type DietaryConflictType = 'allergen' | 'diet';
+
+// An order item that contradicts a stated requirement, or a diet no item satisfies
+export interface DietaryConflict {
+  type: DietaryConflictType;
+  requirement_index: number;
+  requirement_label?: string;
+  item_index?: number; // Matches OrderItem.sort_order; omitted for diet conflicts
+  item_name?: string;
+  allergen?: Allergen;
+  diet?: DietaryTag;
+  message: string;
+}
@@ -0,0 +1,37 @@
+export type ExchangeRateSource = 'manual' | 'import';
+
+// 1 base_currency = rate quote_currency on effective_date (e.g. USD -> EUR 0.92)
+export interface ExchangeRate {
+  id?: number;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string; // YYYY-MM-DD
+  source: ExchangeRateSource;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateExchangeRateDTO {
+  base_currency?: string; // Defaults to USD
+  quote_currency: string;
+  rate: number;
+  effective_date?: string; // Defaults to today
+}
+
+export interface ExchangeRateSearchParams {
+  base_currency?: string;
+  quote_currency?: string;
+  date_from?: string;
+  date_to?: string;
+  limit?: number;
+}
+
+// Rate captured on an order when its quote is sent
+export interface OrderExchangeRateSnapshot {
+  exchange_rate: number; // Units of the order currency per 1 exchange_rate_base
+  exchange_rate_base: string;
+  exchange_rate_date: string; // Effective date of the rate used
+  exchange_rate_captured_at: Date;
+}
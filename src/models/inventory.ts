@@ -8,6 +8,7 @@ export interface InventoryItem {
   unit: 'kg' | 'g' | 'l' | 'ml' | 'pcs' | 'box' | 'pack';
   unit_price?: number;
   supplier?: string;
+  supplier_id?: number | null; // Linked supplier; supplier keeps the name as free text
   location?: string;
   notes?: string;
   status?: 'in_stock' | 'low_stock' | 'out_of_stock'; // Calculated field
@@ -25,6 +26,7 @@ export interface CreateInventoryItemDTO {
   unit: 'kg' | 'g' | 'l' | 'ml' | 'pcs' | 'box' | 'pack';
   unit_price?: number;
   supplier?: string;
+  supplier_id?: number | null;
   location?: string;
   notes?: string;
 }
@@ -38,6 +40,7 @@ export interface UpdateInventoryItemDTO {
   unit?: 'kg' | 'g' | 'l' | 'ml' | 'pcs' | 'box' | 'pack';
   unit_price?: number;
   supplier?: string;
+  supplier_id?: number | null;
   location?: string;
   notes?: string;
 }
@@ -45,6 +48,7 @@ export interface UpdateInventoryItemDTO {
 export interface InventorySearchParams {
   search?: string;
   category?: string;
+  supplier_id?: number;
   status?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
@@ -59,7 +63,202 @@ export interface InventoryListResponse {
   limit: number;
 }
 
+// A stock count; the difference to current_stock is recorded as an adjustment
 export interface StockUpdateDTO {
   current_stock: number;
   notes?: string;
+  lot_number?: string; // For stock added by the count
+  expiry_date?: string;
+}
+
+export type InventoryMovementType = 'receipt' | 'consumption' | 'waste' | 'adjustment' | 'transfer';
+
+export const INVENTORY_MOVEMENT_TYPES: InventoryMovementType[] = ['receipt', 'consumption', 'waste', 'adjustment', 'transfer'];
+
+// Perishable stock must be received with an expiry date
+export const PERISHABLE_INVENTORY_CATEGORIES: InventoryItem['category'][] = ['ingredients', 'beverages'];
+
+// A received batch of an item, held at one location. Stock is taken from lots first-expiring-first,
+// then oldest first; lots without an expiry date go last.
+export interface InventoryLot {
+  id?: number;
+  inventory_item_id: number;
+  lot_number?: string | null;
+  expiry_date?: string | null; // YYYY-MM-DD
+  location?: string | null;
+  quantity_received: number;
+  quantity_remaining: number;
+  purchase_order_line_id?: number | null;
+  received_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface InventoryLotSearchParams {
+  inventory_item_id?: number;
+  location?: string | null;
+  available_only?: boolean; // quantity_remaining > 0
+  expiring_by?: string; // YYYY-MM-DD, includes already expired lots
+}
+
+export interface ExpiringInventoryLot extends InventoryLot {
+  item_name: string;
+  category: InventoryItem['category'];
+  unit: InventoryItem['unit'];
+  days_until_expiry: number; // Negative once expired
+  expired: boolean;
+}
+
+export interface ExpiringInventoryReport {
+  days: number;
+  expiring_by: string;
+  lots: ExpiringInventoryLot[];
+  expired_count: number;
+}
+
+// An append-only record of a change to an item's stock. Transfers move stock between
+// locations and leave current_stock unchanged.
+export interface InventoryMovement {
+  id?: number;
+  inventory_item_id: number;
+  movement_type: InventoryMovementType;
+  quantity: number; // Positive for stock in, negative for stock out; the quantity moved for transfers
+  stock_after: number; // current_stock after the movement
+  lot_id?: number | null;
+  lot_number?: string | null;
+  expiry_date?: string | null;
+  location?: string | null; // Where the stock came in or went out; the source for transfers
+  to_location?: string | null; // Transfers only
+  order_id?: number | null;
+  purchase_order_id?: number | null;
+  purchase_order_line_id?: number | null;
+  notes?: string;
+  created_by?: number | null;
+  created_at?: Date;
+}
+
+export interface InventoryMovementSearchParams {
+  inventory_item_id?: number;
+  purchase_order_id?: number;
+  order_id?: number;
+  lot_id?: number;
+  movement_type?: InventoryMovementType;
+  created_by?: number;
+  date_from?: string; // YYYY-MM-DD
+  date_to?: string; // YYYY-MM-DD, inclusive
+  page?: number;
+  limit?: number;
+}
+
+export interface InventoryMovementListResponse {
+  movements: InventoryMovement[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Stock received outside a purchase order
+export interface StockReceiptDTO {
+  quantity: number;
+  lot_number?: string;
+  expiry_date?: string; // Required for perishable categories
+  location?: string; // Defaults to the item's location
+  notes?: string;
+}
+
+export interface StockWasteDTO {
+  quantity: number;
+  lot_id?: number; // Taken first-expiring-first when omitted
+  notes: string; // Why the stock was written off
+}
+
+export interface StockTransferDTO {
+  quantity: number;
+  from_location?: string; // Defaults to the item's location
+  to_location: string;
+  lot_id?: number;
+  notes?: string;
+}
+
+// Inventory used by one portion of a menu item variant. Variants are identified by
+// menu item and portion size (as order items are), so recipes survive variant edits.
+export interface RecipeLine {
+  id?: number;
+  menu_item_id: number;
+  portion_size: string;
+  inventory_item_id: number;
+  inventory_item_name?: string;
+  unit?: InventoryItem['unit'];
+  quantity: number; // In the inventory item's unit, per portion
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface RecipeLineInput {
+  inventory_item_id: number;
+  quantity: number;
+}
+
+// Replaces the recipe of one variant; an empty lines array clears it
+export interface SetRecipeDTO {
+  portion_size: string;
+  lines: RecipeLineInput[];
+}
+
+export interface MenuItemRecipe {
+  portion_size: string;
+  lines: RecipeLine[];
+}
+
+// Reserved while an order is confirmed; consumed (deducted from stock) on delivery,
+// released when the order is cancelled or moves back before confirmation
+export type InventoryReservationStatus = 'reserved' | 'consumed' | 'released';
+
+export interface InventoryReservation {
+  id?: number;
+  order_id: number;
+  inventory_item_id: number;
+  quantity: number;
+  status: InventoryReservationStatus;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface InventoryReservationSearchParams {
+  order_id?: number;
+  inventory_item_id?: number;
+  status?: InventoryReservationStatus;
+}
+
+export interface InventoryRequirement {
+  inventory_item_id: number;
+  quantity: number;
+}
+
+export interface InventoryForecastOrder {
+  order_id: number;
+  order_number: string;
+  delivery_date: string;
+  status: string;
+  quantity: number;
+  reserved: boolean;
+}
+
+export interface InventoryShortfall {
+  inventory_item_id: number;
+  item_name: string;
+  unit: InventoryItem['unit'];
+  current_stock: number;
+  reserved_stock: number; // Held by confirmed orders, whatever their delivery date
+  upcoming_demand: number; // Needed by unconfirmed orders in the window
+  projected_stock: number; // current_stock - reserved_stock - upcoming_demand
+  min_stock_level: number;
+  shortfall: number; // How far projected_stock falls below min_stock_level
+  orders: InventoryForecastOrder[];
+}
+
+export interface InventoryForecast {
+  date_from: string;
+  date_to: string;
+  items: InventoryShortfall[];
 }
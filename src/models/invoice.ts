@@ -14,6 +14,14 @@ export interface Invoice {
   created_at?: Date;
   updated_at?: Date;
   paid_at?: Date;
+  is_consolidated?: boolean; // Covers several orders listed in invoice_orders
+}
+
+// Order covered by a consolidated invoice, with the share of the invoice amount it accounts for
+export interface InvoiceOrderLink {
+  invoice_id: number;
+  order_id: number;
+  amount: number;
 }
 
 export interface InvoiceLineItem {
@@ -36,6 +44,7 @@ export interface CreateInvoiceDTO {
   email_sent_at?: Date;
   created_by: number;
   paid_at?: Date;
+  is_consolidated?: boolean;
 }
 
 export interface SendInvoiceRequest {
@@ -44,6 +53,12 @@ export interface SendInvoiceRequest {
   additional_emails?: string[];
 }
 
+export interface SendConsolidatedInvoiceRequest {
+  order_ids: number[];
+  delivery_method: 'EMAIL' | 'SHARE_MANUALLY';
+  recipient_email?: string;
+}
+
 export interface UpdateInvoiceStatusDTO {
   status: 'pending' | 'paid' | 'cancelled' | 'failed';
   paid_at?: Date;
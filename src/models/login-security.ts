@@ -0,0 +1,55 @@
+// Failed sign-in attempts are tracked per account (email) and per client IP
+export type ThrottleScope = 'account' | 'ip';
+
+export interface LoginThrottle {
+  scope: ThrottleScope;
+  subject: string; // Lowercased email or IP address
+  failure_count: number;
+  last_failure_at: Date;
+  locked_until: Date | null;
+}
+
+export interface ThrottleDecision {
+  allowed: boolean;
+  retry_after_seconds: number; // 0 when allowed
+  reason?: 'account_locked' | 'ip_locked' | 'backoff';
+}
+
+export type SecurityEventType =
+  | 'login_failed'
+  | 'two_factor_failed'
+  | 'password_reset_failed'
+  | 'password_reset_otp_exhausted'
+  | 'login_throttled'
+  | 'account_locked'
+  | 'ip_locked'
+  | 'account_unlocked';
+
+export interface SecurityEvent {
+  id: number;
+  event_type: SecurityEventType;
+  email: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  details: Record<string, any> | null;
+  created_at: Date;
+}
+
+export interface CreateSecurityEventDTO {
+  event_type: SecurityEventType;
+  email?: string | null;
+  ip?: string | null;
+  user_agent?: string | null;
+  details?: Record<string, any> | null;
+}
+
+export interface SecurityEventSearchParams {
+  email?: string;
+  limit?: number;
+}
+
+// Where a sign-in attempt came from
+export interface AttemptSource {
+  ip: string | null;
+  user_agent: string | null;
+}
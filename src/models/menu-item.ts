@@ -1,9 +1,13 @@
+import { Allergen, DietaryTag } from './dietary';
+
 export interface MenuItemVariant {
   id?: number;
   menu_item_id?: number;
   portion_size: string;
   price: number;
   sort_order?: number;
+  allergens?: Allergen[]; // Added to the item's allergens
+  dietary_tags?: DietaryTag[]; // Replaces the item's tags when set
   caterer_prices?: Array<{
     caterer_id: number;
     price: number;
@@ -17,6 +21,9 @@ export interface MenuItem {
   food_type: 'veg' | 'non_veg';
   category?: string; // Category ID or slug
   image_url?: string;
+  image_thumbnail_url?: string | null; // Set by image uploads
+  allergens?: Allergen[];
+  dietary_tags?: DietaryTag[];
   variants?: MenuItemVariant[];
   tax_rate?: number;
   service_charge?: number;
@@ -31,10 +38,14 @@ export interface CreateMenuItemDTO {
   food_type: 'veg' | 'non_veg';
   category?: string;
   image_url?: string;
+  allergens?: Allergen[];
+  dietary_tags?: DietaryTag[];
   price?: number; // Direct price - will create a default variant if no variants provided
   variants?: Array<{
     portion_size: string;
     price: number;
+    allergens?: Allergen[];
+    dietary_tags?: DietaryTag[];
     caterer_prices?: Array<{
       caterer_id: number;
       price: number;
@@ -51,11 +62,16 @@ export interface UpdateMenuItemDTO {
   food_type?: 'veg' | 'non_veg';
   category?: string;
   image_url?: string;
+  image_thumbnail_url?: string | null;
+  allergens?: Allergen[];
+  dietary_tags?: DietaryTag[];
   price?: number; // Direct price - will create/update a default variant if no variants provided
   variants?: Array<{
     id?: number;
     portion_size: string;
     price: number;
+    allergens?: Allergen[];
+    dietary_tags?: DietaryTag[];
     caterer_prices?: Array<{
       caterer_id: number;
       price: number;
@@ -70,6 +86,8 @@ export interface MenuItemSearchParams {
   search?: string;
   category?: string;
   food_type?: string;
+  exclude_allergens?: Allergen[]; // Items free of all of these
+  dietary_tag?: DietaryTag;
   is_active?: boolean;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
@@ -0,0 +1,41 @@
+export type OrderEventType =
+  | 'order_created'
+  | 'order_updated'
+  | 'items_changed'
+  | 'status_changed'
+  | 'email_sent'
+  | 'pdf_regenerated'
+  | 'invoice_created'
+  | 'payment_received'
+  | 'payment_refunded'
+  | 'payment_status_changed'
+  | 'caterer_response'
+  | 'quote_response';
+
+export interface OrderEvent {
+  id?: number;
+  order_id: number;
+  event_type: OrderEventType;
+  actor_user_id?: number | null; // null for system/webhook driven events
+  actor_email?: string | null; // Joined from users for timeline display
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any> | null;
+  created_at?: Date;
+}
+
+export interface CreateOrderEventDTO {
+  order_id: number;
+  event_type: OrderEventType;
+  actor_user_id?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface OrderEventSearchParams {
+  event_type?: OrderEventType | OrderEventType[];
+  since?: Date;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+}
@@ -0,0 +1,128 @@
+import { Allergen, DietaryTag, DietaryRequirement } from './dietary';
+
+// Parties that can respond to an order through a signed link (no login)
+export type OrderResponseRecipient = 'caterer' | 'client';
+
+export type CatererResponseAction = 'accept' | 'decline' | 'propose_changes';
+
+export interface OrderResponseToken {
+  id: number;
+  order_id: number;
+  recipient_type: OrderResponseRecipient;
+  recipient_email: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null; // Set once the recipient has responded
+  revoked_at: Date | null; // Set when a newer link for the same order and recipient supersedes it
+  response: string | null;
+  comments: string | null;
+  created_by_user_id: number | null;
+  created_at: Date;
+}
+
+export interface CreateOrderResponseTokenDTO {
+  order_id: number;
+  recipient_type: OrderResponseRecipient;
+  recipient_email: string;
+  token_hash: string;
+  expires_at: Date;
+  created_by_user_id?: number | null;
+}
+
+export type QuoteResponseAction = 'approve' | 'request_changes' | 'approve_and_pay';
+
+export interface CatererResponseDTO {
+  action: CatererResponseAction;
+  comments?: string; // Required for propose_changes - the changes the caterer is asking for
+}
+
+// Order details shown on the caterer portal - PDF B content, no pricing
+export interface CatererPortalOrderView {
+  order_number: string;
+  status: string;
+  order_type: string;
+  delivery_date: string;
+  delivery_time: string;
+  airport: string;
+  fbo_name?: string;
+  aircraft_tail_number?: string;
+  description?: string;
+  dietary_restrictions?: string;
+  dietary_requirements?: DietaryRequirement[];
+  reheating_instructions?: string;
+  packaging_instructions?: string;
+  items: Array<{
+    item_name: string;
+    item_description?: string;
+    portion_size: string;
+    portion_serving?: string;
+    packaging?: string;
+    allergens?: Allergen[] | null;
+    dietary_tags?: DietaryTag[] | null;
+  }>;
+  addons: Array<{
+    name: string;
+    description?: string;
+    quantity: number;
+  }>;
+}
+
+export interface CatererPortalView {
+  order: CatererPortalOrderView;
+  expires_at: Date;
+  responded: boolean;
+  response?: string | null;
+}
+
+export interface QuoteResponseDTO {
+  action: 'approve' | 'request_changes';
+  comments?: string; // Required for request_changes
+}
+
+// Card details tokenized client-side by Square Web Payments (see /payments/application-id)
+export interface QuotePaymentDTO {
+  source_id: string;
+  comments?: string;
+}
+
+// Quote shown to the client - PDF A content, with pricing
+export interface QuotePortalView {
+  quote: {
+    order_number: string;
+    status: string;
+    client_name: string;
+    delivery_date: string;
+    delivery_time: string;
+    airport: string;
+    fbo_name?: string;
+    aircraft_tail_number?: string;
+    description?: string;
+    dietary_restrictions?: string;
+    items: Array<{
+      item_name: string;
+      item_description?: string;
+      portion_size: string;
+      portion_serving?: string;
+      price: number;
+      total: number;
+    }>;
+    addons: Array<{
+      name: string;
+      description?: string;
+      quantity: number;
+      price: number;
+      total: number;
+    }>;
+    fees: Array<{ name: string; amount: number }>;
+    tax_breakdown: Array<{ name: string; amount: number }>;
+    subtotal: number;
+    tax_total: number;
+    total: number;
+    is_paid: boolean;
+    balance_due: number; // Total less payments already captured and not refunded
+  };
+  expires_at: Date;
+  responded: boolean;
+  response?: string | null;
+  can_pay: boolean; // Online card payment is available for this quote
+}
@@ -0,0 +1,77 @@
+import { CreateOrderFromRefsDTO } from './order';
+
+// Everything needed to create an order except the delivery date, which comes from the occurrence
+export type OrderTemplateData = Omit<CreateOrderFromRefsDTO, 'delivery_date'>;
+
+export interface OrderRecurrence {
+  frequency: 'weekly' | 'interval';
+  days_of_week?: number[]; // weekly: 0 = Sunday ... 6 = Saturday
+  interval_days?: number; // interval: every N days from start_date
+  start_date: string; // YYYY-MM-DD, first possible occurrence
+  end_date?: string | null; // YYYY-MM-DD, last possible occurrence (inclusive)
+}
+
+export interface OrderTemplate {
+  id?: number;
+  name: string;
+  order_data: OrderTemplateData;
+  recurrence?: OrderRecurrence | null; // null for a plain saved template
+  generate_days_ahead: number; // Orders are generated this many days before delivery
+  is_active: boolean;
+  created_by_user_id?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateOrderTemplateDTO {
+  name: string;
+  order_data: OrderTemplateData;
+  recurrence?: OrderRecurrence | null;
+  generate_days_ahead?: number;
+  is_active?: boolean;
+}
+
+export interface UpdateOrderTemplateDTO {
+  name?: string;
+  order_data?: OrderTemplateData;
+  recurrence?: OrderRecurrence | null;
+  generate_days_ahead?: number;
+  is_active?: boolean;
+}
+
+export interface OrderTemplateSearchParams {
+  search?: string;
+  client_id?: number;
+  is_active?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface OrderTemplateListResponse {
+  templates: OrderTemplate[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Per-date state of a recurring template. Dates without a row are plain upcoming occurrences.
+// 'scheduled' rows carry overrides for a single edited occurrence; 'generated' rows are
+// unique per template and date so an occurrence is never turned into two orders.
+export interface OrderTemplateOccurrence {
+  id?: number;
+  template_id: number;
+  occurrence_date: string; // YYYY-MM-DD
+  status: 'scheduled' | 'skipped' | 'generated';
+  overrides?: Partial<OrderTemplateData> | null;
+  order_id?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface OrderTemplateOccurrencePreview {
+  occurrence_date: string;
+  delivery_time: string;
+  status: 'upcoming' | 'modified' | 'skipped' | 'generated';
+  order_id?: number | null;
+  overrides?: Partial<OrderTemplateData> | null;
+}
@@ -2,6 +2,8 @@ import { Client } from './client';
 import { Caterer } from './caterer';
 import { Airport } from './airport';
 import { FBO } from './fbo';
+import { Aircraft } from './aircraft';
+import { Allergen, DietaryTag, DietaryRequirement, DietaryConflict } from './dietary';
 
 export interface OrderItem {
   id?: number;
@@ -12,11 +14,53 @@ export interface OrderItem {
   portion_size: string; // Quantity (purely number)
   portion_serving?: string; // Size (can be number or mixture like "200ml", "500mg")
   price: number;
+  caterer_cost?: number | null; // Unit cost charged by the caterer; null when unknown
+  meal_for?: OrderItemMealFor | null; // Who the item feeds; drives suggested quantities
+  allergens?: Allergen[]; // Snapshot of the menu item's (and variant's) allergens
+  dietary_tags?: DietaryTag[];
   category?: string;
   packaging?: string;
   sort_order?: number;
 }
 
+export type OrderItemMealFor = 'passenger' | 'crew';
+
+// An add-on line referencing addon_items; name and price are snapshots taken when added
+export interface OrderAddon {
+  id?: number;
+  order_id?: number;
+  addon_item_id: number | null; // null once the add-on item is deleted
+  name: string;
+  description?: string;
+  quantity: number;
+  price: number; // Unit price
+  sort_order?: number;
+}
+
+// Add-on line as sent on create/update; name, description and price default to the add-on item's
+export interface OrderAddonInput {
+  addon_item_id: number;
+  quantity: number;
+  price?: number;
+  name?: string;
+  description?: string;
+}
+
+// A single applied tax/charge line, stored on the order as tax_breakdown
+export interface OrderTaxLine {
+  source: 'tax_charge' | 'menu_item'; // TaxCharge rule or MenuItem.tax_rate
+  tax_charge_id?: number;
+  name: string;
+  type: 'tax' | 'service_charge' | 'delivery_fee' | 'other';
+  rate: number;
+  is_percentage: boolean;
+  item_index?: number; // Matches OrderItem.sort_order; omitted for order-level flat charges
+  addon_index?: number; // Matches OrderAddon.sort_order on charges applied to an add-on line
+  item_name?: string;
+  taxable_amount: number;
+  amount: number;
+}
+
 // Order type aliases for frontend convenience
 export type OrderTypeAlias = 'inflight' | 'qe_serv_hub' | 'restaurant_pickup';
 
@@ -41,6 +85,8 @@ export function getAliasFromOrderType(orderType: OrderType): OrderTypeAlias | nu
   return entry ? (entry[0] as OrderTypeAlias) : null;
 }
 
+export type OrderStatus = 'awaiting_quote' | 'awaiting_client_approval' | 'awaiting_caterer' | 'caterer_confirmed' | 'in_preparation' | 'ready_for_delivery' | 'delivered' | 'cancelled' | 'order_changed';
+
 export interface Order {
   id?: number;
   order_number: string;
@@ -52,18 +98,25 @@ export interface Order {
   caterer: string;
   airport: string;
   aircraft_tail_number?: string;
+  aircraft_id?: number | null; // Aircraft registry entry; aircraft_tail_number mirrors its tail number
+  passenger_count?: number | null;
+  crew_count?: number | null;
   delivery_date: string; // ISO 8601 date format: YYYY-MM-DD
-  delivery_time: string; // Time format: HH:mm
+  delivery_time: string; // Time format: HH:mm, local to delivery_time_zone
+  delivery_at?: Date | null; // Delivery instant (UTC) of delivery_date/delivery_time in delivery_time_zone
+  delivery_time_zone?: string | null; // IANA zone: the airport's, else the caterer's, else DEFAULT_TIME_ZONE
   order_priority: 'low' | 'normal' | 'high' | 'urgent';
   payment_method: 'card' | 'ACH';
-  status: 'awaiting_quote' | 'awaiting_client_approval' | 'awaiting_caterer' | 'caterer_confirmed' | 'in_preparation' | 'ready_for_delivery' | 'delivered' | 'cancelled' | 'order_changed';
+  status: OrderStatus;
   is_paid?: boolean;
   order_type: OrderType;
   description?: string;
   notes?: string;
   reheating_instructions?: string;
   packaging_instructions?: string;
-  dietary_restrictions?: string;
+  dietary_restrictions?: string; // Free-text notes; structured requirements are in dietary_requirements
+  dietary_requirements?: DietaryRequirement[];
+  dietary_conflicts?: DietaryConflict[]; // Computed from items and dietary_requirements (not persisted)
   delivery_fee: number;
   service_charge: number;
   coordination_fee: number;
@@ -72,14 +125,24 @@ export interface Order {
   shopping_fee: number;
   restaurant_pickup_fee: number;
   airport_pickup_fee: number;
-  subtotal: number;
+  subtotal: number; // Items plus add-ons
+  tax_total?: number;
+  tax_breakdown?: OrderTaxLine[];
   total: number;
+  currency?: string; // ISO 4217 code; amounts on the order are in this currency (USD when not set)
+  // Exchange rate snapshot taken when the quote is sent to the client
+  exchange_rate?: number | null; // Units of currency per 1 exchange_rate_base
+  exchange_rate_base?: string | null;
+  exchange_rate_date?: string | null;
+  exchange_rate_captured_at?: Date | null;
   revision_count: number;
   items?: OrderItem[];
+  addons?: OrderAddon[];
   client?: Client;
   caterer_details?: Caterer;
   airport_details?: Airport;
   fbo?: FBO;
+  aircraft?: Aircraft;
   created_at?: Date;
   updated_at?: Date;
   completed_at?: Date;
@@ -97,17 +160,22 @@ export interface CreateOrderDTO {
   client_name: string;
   caterer: string;
   airport: string;
-  aircraft_tail_number?: string;
+  aircraft_tail_number?: string; // Linked to the aircraft registry when the tail number is known
+  aircraft_id?: number;
+  passenger_count?: number;
+  crew_count?: number;
   delivery_date: string;
   delivery_time: string;
   order_priority: 'low' | 'normal' | 'high' | 'urgent';
   payment_method: 'card' | 'ACH';
+  currency?: string; // Defaults to the caterer's default currency, then USD
   order_type: OrderType | OrderTypeAlias; // Accept both alias and full type
   description?: string;
   notes?: string;
   reheating_instructions?: string;
   packaging_instructions?: string;
   dietary_restrictions?: string;
+  dietary_requirements?: DietaryRequirement[];
   delivery_fee?: number;
   service_charge?: number;
   coordination_fee?: number;
@@ -123,9 +191,14 @@ export interface CreateOrderDTO {
     portion_size: string;
     portion_serving?: string;
     price: number;
+    caterer_cost?: number | null;
+    meal_for?: OrderItemMealFor | null;
+    allergens?: Allergen[];
+    dietary_tags?: DietaryTag[];
     category?: string;
     packaging?: string;
   }>;
+  addons?: OrderAddonInput[];
 }
 
 export interface CreateOrderFromRefsDTO {
@@ -133,17 +206,22 @@ export interface CreateOrderFromRefsDTO {
   caterer_id: number;
   airport_id: number;
   fbo_id?: number;
-  aircraft_tail_number?: string;
+  aircraft_tail_number?: string; // Linked to the aircraft registry when the tail number is known
+  aircraft_id?: number;
+  passenger_count?: number;
+  crew_count?: number;
   delivery_date: string;
   delivery_time: string;
   order_priority: 'low' | 'normal' | 'high' | 'urgent';
   payment_method: 'card' | 'ACH';
+  currency?: string; // Defaults to the caterer's default currency, then USD
   order_type: OrderType | OrderTypeAlias; // Accept both alias and full type
   description?: string;
   notes?: string;
   reheating_instructions?: string;
   packaging_instructions?: string;
   dietary_restrictions?: string;
+  dietary_requirements?: DietaryRequirement[];
   delivery_fee?: number;
   service_charge?: number;
   coordination_fee?: number;
@@ -158,9 +236,14 @@ export interface CreateOrderFromRefsDTO {
     portion_size: string;
     portion_serving?: string | null;
     price: number;
+    caterer_cost?: number | null;
+    meal_for?: OrderItemMealFor | null;
+    allergens?: Allergen[];
+    dietary_tags?: DietaryTag[];
     category?: string | null;
     packaging?: string | null;
   }>;
+  addons?: OrderAddonInput[];
 }
 
 export interface UpdateOrderDTO {
@@ -173,11 +256,15 @@ export interface UpdateOrderDTO {
   airport?: string;
   fbo_id?: number | null;
   aircraft_tail_number?: string;
+  aircraft_id?: number | null;
+  passenger_count?: number | null;
+  crew_count?: number | null;
   delivery_date?: string;
   delivery_time?: string;
   order_priority?: 'low' | 'normal' | 'high' | 'urgent';
   payment_method?: 'card' | 'ACH';
-  status?: 'awaiting_quote' | 'awaiting_client_approval' | 'awaiting_caterer' | 'caterer_confirmed' | 'in_preparation' | 'ready_for_delivery' | 'delivered' | 'cancelled' | 'order_changed';
+  currency?: string;
+  status?: OrderStatus;
   is_paid?: boolean;
   order_type?: OrderType | OrderTypeAlias; // Accept both alias and full type
   description?: string;
@@ -185,6 +272,7 @@ export interface UpdateOrderDTO {
   reheating_instructions?: string;
   packaging_instructions?: string;
   dietary_restrictions?: string;
+  dietary_requirements?: DietaryRequirement[];
   delivery_fee?: number;
   service_charge?: number;
   coordination_fee?: number;
@@ -201,9 +289,14 @@ export interface UpdateOrderDTO {
     portion_size: string;
     portion_serving?: string;
     price: number;
+    caterer_cost?: number | null;
+    meal_for?: OrderItemMealFor | null;
+    allergens?: Allergen[];
+    dietary_tags?: DietaryTag[];
     category?: string;
     packaging?: string;
   }>;
+  addons?: OrderAddonInput[];
 }
 
 export interface OrderSearchParams {
@@ -227,8 +320,27 @@ export interface OrderListResponse {
 }
 
 export interface OrderStatusUpdateDTO {
-  status: 'awaiting_quote' | 'awaiting_client_approval' | 'awaiting_caterer' | 'caterer_confirmed' | 'in_preparation' | 'ready_for_delivery' | 'delivered' | 'cancelled' | 'order_changed';
+  status: OrderStatus;
   is_paid?: boolean;
+  notify?: boolean; // Run the transition's email hooks (client/caterer notifications)
+}
+
+export interface DuplicateOrderDTO {
+  delivery_date: string;
+  delivery_time: string;
+  caterer_id?: number; // Switch caterer; item prices are re-resolved for the new caterer
+  aircraft_tail_number?: string;
+  passenger_count?: number;
+  crew_count?: number;
+}
+
+// Item quantity suggested from the order's passenger and crew counts
+export interface SuggestedItemQuantity {
+  item_id?: number;
+  item_name: string;
+  meal_for?: OrderItemMealFor | null;
+  current_quantity: string;
+  suggested_quantity: number | null; // null when the item has no meal_for or the count is unknown
 }
 
 export interface OrderEmailDTO {
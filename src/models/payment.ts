@@ -76,3 +76,45 @@ export interface ProcessPaymentResponse {
   square_error_code?: string;
 }
 
+
+export interface PaymentRefund {
+  id?: number;
+  payment_transaction_id: number;
+  order_id: number;
+  square_refund_id: string;
+  amount: number;
+  currency?: string; // Default 'USD'
+  reason?: string;
+  status: 'pending' | 'completed' | 'rejected' | 'failed';
+  error_message?: string;
+  processed_by?: number | null; // Admin user ID (null when initiated from the Square dashboard)
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreatePaymentRefundDTO {
+  payment_transaction_id: number;
+  order_id: number;
+  square_refund_id: string;
+  amount: number;
+  currency?: string;
+  reason?: string;
+  status: 'pending' | 'completed' | 'rejected' | 'failed';
+  error_message?: string;
+  processed_by?: number | null;
+}
+
+export interface ProcessRefundDTO {
+  amount: number;
+  reason: string;
+  idempotency_key: string; // Client nonce, reused when retrying the same refund
+}
+
+export interface ProcessRefundResponse {
+  success: boolean;
+  refund?: PaymentRefund;
+  payment_transaction?: PaymentTransaction;
+  order_is_paid?: boolean;
+  error?: string;
+  square_error_code?: string;
+}
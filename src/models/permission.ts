@@ -0,0 +1,83 @@
+// Every permission a route can require. Routes declare theirs with requirePermission;
+// the server refuses to start if a mounted route declares none (see utils/route-permissions).
+export const PERMISSIONS = [
+  'orders.read',
+  'orders.update_status',
+  'orders.set_paid',
+  'orders.deliver_unpaid',
+  'orders.delete',
+  'invoices.manage',
+  'invoices.send_final',
+  'payments.manage',
+  'receivables.manage',
+  'caterer_payables.manage',
+  'exchange_rates.manage',
+  'reports.read',
+  'scheduler.manage',
+  'clients.read',
+  'clients.manage',
+  'caterers.read',
+  'caterers.manage',
+  'airports.read',
+  'airports.manage',
+  'fbos.read',
+  'fbos.manage',
+  'aircraft.read',
+  'aircraft.manage',
+  'menu.read',
+  'menu.manage',
+  'tax_charges.read',
+  'tax_charges.manage',
+  'inventory.read',
+  'inventory.manage',
+  'inventory.stock',
+  'purchasing.read',
+  'purchasing.manage',
+  'purchasing.receive',
+  'employees.manage',
+  'invites.create',
+  'roles.manage',
+  'security.manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export interface PermissionDefinition {
+  key: Permission;
+  group: string;
+  description: string;
+  admin_only: boolean; // Never granted to CSRs, by role or individually
+}
+
+export interface BuiltInRole {
+  name: 'ADMIN' | 'CSR';
+  description: string;
+  permissions: Permission[];
+}
+
+// A named set of permissions assignable to CSR users in place of the CSR defaults
+export interface CustomRole {
+  id: number;
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  user_count?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateRoleDTO {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface UpdateRoleDTO {
+  name?: string;
+  description?: string | null;
+  permissions?: Permission[];
+}
+
+export interface AssignRoleDTO {
+  role_id: number | null; // null restores the CSR defaults
+}
@@ -0,0 +1,110 @@
+import { InventoryItem } from './inventory';
+
+// draft -> sent -> partially_received -> received. Only drafts can be edited or deleted.
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received', 'received'];
+
+// Statuses whose outstanding quantities count as on order
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+export interface PurchaseOrderLine {
+  id?: number;
+  purchase_order_id?: number;
+  inventory_item_id: number | null; // null once the inventory item is deleted
+  item_name: string; // Snapshot of the inventory item name
+  unit: InventoryItem['unit'];
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_price?: number | null; // Agreed unit price; defaults to the inventory item's unit_price
+  sort_order?: number;
+}
+
+export interface PurchaseOrder {
+  id?: number;
+  po_number: string; // e.g. PO-00042
+  supplier_id: number;
+  supplier_name: string; // Snapshot taken when the supplier is set
+  status: PurchaseOrderStatus;
+  expected_date?: string | null; // YYYY-MM-DD
+  notes?: string;
+  lines: PurchaseOrderLine[];
+  total: number; // Sum of quantity_ordered x unit_price over lines with a price
+  sent_at?: Date | null;
+  received_at?: Date | null; // When the last outstanding quantity was received
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// What the repository stores for a new or edited purchase order, lines resolved against inventory
+export interface PurchaseOrderData {
+  supplier_id: number;
+  supplier_name: string;
+  expected_date?: string | null;
+  notes?: string;
+  lines: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderLineInput {
+  inventory_item_id: number;
+  quantity: number;
+  unit_price?: number | null;
+}
+
+export interface CreatePurchaseOrderDTO {
+  supplier_id: number;
+  expected_date?: string | null;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface UpdatePurchaseOrderDTO {
+  supplier_id?: number;
+  expected_date?: string | null;
+  notes?: string;
+  lines?: PurchaseOrderLineInput[];
+}
+
+export interface ReceivePurchaseOrderDTO {
+  lines: Array<{
+    line_id: number;
+    quantity: number;
+    lot_number?: string;
+    expiry_date?: string; // YYYY-MM-DD, required for perishable items
+    location?: string; // Defaults to the inventory item's location
+  }>;
+  notes?: string;
+}
+
+export interface PurchaseOrderSearchParams {
+  supplier_id?: number;
+  status?: PurchaseOrderStatus;
+  inventory_item_id?: number;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface PurchaseOrderListResponse {
+  purchase_orders: PurchaseOrder[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// A low or out of stock item and how much to order to bring it back to max_stock_level
+export interface ReorderSuggestion {
+  inventory_item_id: number;
+  item_name: string;
+  unit: InventoryItem['unit'];
+  status: InventoryItem['status'];
+  supplier_id?: number | null;
+  supplier_name?: string;
+  current_stock: number;
+  min_stock_level: number;
+  max_stock_level: number;
+  on_order: number; // Outstanding on draft, sent and partially received purchase orders
+  suggested_quantity: number; // max_stock_level - current_stock - on_order
+  unit_price?: number | null;
+}
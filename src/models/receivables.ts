@@ -0,0 +1,146 @@
+// Ledger lines: orders and refunds are debits (raise the amount owed), payments are credits.
+// Invoices are memo lines - they request payment for an order already on the ledger.
+export type LedgerEntryType = 'order' | 'payment' | 'refund' | 'paid_adjustment' | 'invoice';
+
+export interface LedgerEntry {
+  date: string; // YYYY-MM-DD; delivery date for orders, transaction date otherwise
+  type: LedgerEntryType;
+  order_id: number;
+  order_number: string;
+  reference?: string | null; // Square payment, refund or invoice id
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this line
+}
+
+// Order-level amounts used for both the ledger and aging. Every record carries its order's
+// currency; balances are only ever built within one currency.
+export interface OrderBalanceRecord {
+  order_id: number;
+  order_number: string;
+  client_id: number;
+  client_name: string;
+  delivery_date: string;
+  status: string;
+  is_paid: boolean;
+  total: number;
+  currency: string;
+  updated_at: Date;
+}
+
+export interface PaymentRecord {
+  order_id: number;
+  order_number: string;
+  reference: string;
+  payment_method: string;
+  card_brand?: string | null;
+  card_last_4?: string | null;
+  amount: number;
+  currency: string;
+  created_at: Date;
+}
+
+export interface RefundRecord {
+  order_id: number;
+  order_number: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  reason?: string | null;
+  created_at: Date;
+}
+
+export interface InvoiceRecord {
+  order_id: number;
+  order_number: string;
+  reference: string;
+  status: string;
+  amount: number;
+  currency: string;
+  public_url?: string | null;
+  created_at: Date;
+  paid_at?: Date | null;
+}
+
+export interface ClientLedgerRecords {
+  orders: OrderBalanceRecord[];
+  payments: PaymentRecord[];
+  refunds: RefundRecord[];
+  invoices: InvoiceRecord[];
+}
+
+export interface ClientLedger {
+  client_id: number;
+  client_name: string;
+  currency: string; // Only activity in this currency is on the ledger
+  date_from?: string;
+  date_to?: string;
+  opening_balance: number; // Balance before date_from
+  entries: LedgerEntry[];
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  open_invoice_amount: number; // Pending Square invoices
+}
+
+export interface AgingBuckets {
+  current: number; // Delivered less than 30 days before the as-of date
+  days_30: number; // 30-59 days
+  days_60: number; // 60-89 days
+  days_90_plus: number; // 90 days and older
+  total: number;
+}
+
+export interface CurrencyAgingBuckets extends AgingBuckets {
+  currency: string;
+}
+
+export interface AgingOrderLine {
+  order_id: number;
+  order_number: string;
+  delivery_date: string;
+  days_outstanding: number;
+  total: number;
+  outstanding: number;
+  bucket: keyof Omit<AgingBuckets, 'total'>;
+}
+
+// One entry per client and currency
+export interface ClientAging {
+  client_id: number;
+  client_name: string;
+  currency: string;
+  buckets: AgingBuckets;
+  orders: AgingOrderLine[];
+}
+
+export interface AgingReport {
+  as_of: string;
+  clients: ClientAging[];
+  totals: CurrencyAgingBuckets[]; // One per currency
+}
+
+export interface ClientStatement {
+  client: {
+    id: number;
+    full_name: string;
+    company_name?: string;
+    full_address?: string;
+    email?: string;
+  };
+  month: string; // YYYY-MM
+  period_start: string;
+  period_end: string;
+  statement_date: string;
+  ledger: ClientLedger;
+  aging: AgingBuckets; // As of period_end
+}
+
+export interface SendStatementDTO {
+  month: string;
+  currency?: string; // Required when the client has activity in more than one currency
+  to?: string[]; // Defaults to the client's email addresses
+  cc?: string[];
+  message?: string;
+}
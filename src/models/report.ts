@@ -0,0 +1,80 @@
+import { OrderType } from './order';
+
+export type ReportGroupBy = 'period' | 'client' | 'caterer' | 'airport' | 'fbo' | 'order_type';
+
+export type ReportPeriod = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type ReportFormat = 'json' | 'csv' | 'xlsx';
+
+// Orders are selected by delivery_date; both bounds are inclusive (YYYY-MM-DD)
+export interface ReportParams {
+  date_from: string;
+  date_to: string;
+  group_by: ReportGroupBy;
+  period: ReportPeriod; // Bucket size when group_by is 'period'
+  client_id?: number;
+  caterer_id?: number;
+  airport_id?: number;
+  fbo_id?: number;
+  order_type?: OrderType;
+}
+
+export interface ReportFeeBreakdown {
+  delivery_fee: number;
+  service_charge: number;
+  coordination_fee: number;
+  airport_fee: number;
+  fbo_fee: number;
+  shopping_fee: number;
+  restaurant_pickup_fee: number;
+  airport_pickup_fee: number;
+}
+
+// Revenue figures exclude cancelled orders; order_count and cancellation_rate include them.
+// Amounts are never added across currencies - each group has one row per order currency.
+export interface RevenueReportRow {
+  key: string; // Period start (YYYY-MM-DD), entity id or order type
+  label: string;
+  currency: string;
+  order_count: number;
+  cancelled_count: number;
+  cancellation_rate: number; // 0-1
+  revenue: number; // Sum of order totals
+  subtotal: number; // Items plus add-ons
+  addon_total: number; // Add-on lines (price * quantity), part of subtotal
+  tax_total: number;
+  fees: ReportFeeBreakdown;
+  average_order_value: number;
+  paid_count: number;
+  paid_amount: number;
+  unpaid_count: number;
+  unpaid_amount: number;
+  collected_amount: number; // Completed payment_transactions
+  refunded_amount: number; // Completed payment_refunds
+}
+
+// Confirmation and delivery are "on time" when the status was first reached no later than
+// the order's delivery date and time
+export interface StatusProgressionReportRow {
+  key: string;
+  label: string;
+  order_count: number;
+  confirmed_count: number;
+  confirmed_on_time_count: number;
+  confirmed_on_time_rate: number; // 0-1, of confirmed orders
+  average_hours_to_confirmation: number | null; // Order creation to first caterer_confirmed
+  delivered_count: number;
+  delivered_on_time_count: number;
+  delivered_on_time_rate: number; // 0-1, of delivered orders
+  average_hours_to_delivery: number | null; // Order creation to first delivered
+  cancelled_count: number;
+}
+
+export interface ReportResponse<T> {
+  group_by: ReportGroupBy;
+  period: ReportPeriod;
+  date_from: string;
+  date_to: string;
+  rows: T[];
+  totals: T[]; // One row per currency for revenue reports
+}
@@ -0,0 +1,61 @@
+import { OrderStatus, OrderType } from './order';
+
+export type SchedulerRuleAction = 'set_status' | 'escalate';
+
+export interface SchedulerRule {
+  id?: number;
+  name: string;
+  action: SchedulerRuleAction;
+  from_statuses: OrderStatus[]; // Order statuses the rule applies to
+  target_status?: OrderStatus | null; // Required for set_status
+  hours_before_delivery: number; // Fires once delivery is this many hours away (or closer)
+  // Optional scope - the most specific matching rule wins (caterer > order type > priority)
+  caterer_id?: number | null;
+  order_type?: OrderType | null;
+  order_priority?: 'low' | 'normal' | 'high' | 'urgent' | null;
+  escalation_emails?: string[]; // For escalate; falls back to SCHEDULER_OPS_EMAILS
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface SchedulerRuleDTO {
+  id?: number; // Present to update an existing rule
+  name: string;
+  action: SchedulerRuleAction;
+  from_statuses: OrderStatus[];
+  target_status?: OrderStatus | null;
+  hours_before_delivery: number;
+  caterer_id?: number | null;
+  order_type?: OrderType | null;
+  order_priority?: 'low' | 'normal' | 'high' | 'urgent' | null;
+  escalation_emails?: string[];
+  is_active?: boolean;
+}
+
+export type SchedulerRunTrigger = 'interval' | 'manual';
+
+export interface SchedulerRun {
+  id?: number;
+  trigger: SchedulerRunTrigger;
+  triggered_by?: number | null;
+  status: 'running' | 'completed' | 'failed';
+  orders_checked: number;
+  actions_fired: number;
+  error_message?: string | null;
+  started_at?: Date;
+  finished_at?: Date | null;
+}
+
+// One rule firing for one order and delivery instant. Unique per (rule, order, delivery)
+// so a restart or overlapping run never fires the same action twice.
+export interface SchedulerRuleExecution {
+  id?: number;
+  run_id: number;
+  rule_id: number;
+  order_id: number;
+  delivery_at: Date;
+  action: SchedulerRuleAction;
+  details?: Record<string, any> | null;
+  created_at?: Date;
+}
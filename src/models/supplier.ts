@@ -0,0 +1,51 @@
+export interface Supplier {
+  id?: number;
+  supplier_name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  lead_time_days?: number | null; // Typical days from sending a purchase order to delivery
+  notes?: string;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateSupplierDTO {
+  supplier_name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  lead_time_days?: number | null;
+  notes?: string;
+  is_active?: boolean;
+}
+
+export interface UpdateSupplierDTO {
+  supplier_name?: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  lead_time_days?: number | null;
+  notes?: string;
+  is_active?: boolean;
+}
+
+export interface SupplierSearchParams {
+  search?: string;
+  is_active?: boolean;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface SupplierListResponse {
+  suppliers: Supplier[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,58 @@
+import { Role } from './user';
+
+// TOTP enrolment of a user. The secret is stored encrypted (utils/crypto encryptSecret);
+// enrolment is complete once a first code has been verified (enabled_at set)
+export interface UserTwoFactor {
+  user_id: number;
+  secret_encrypted: string;
+  enabled_at: Date | null;
+  last_used_step: number | null; // Last accepted TOTP time step, so codes cannot be replayed
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TwoFactorBackupCode {
+  id: number;
+  user_id: number;
+  code_hash: string;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+// Which users must enrol before they can sign in: every user of a built-in role,
+// and CSRs assigned one of the listed custom roles
+export interface TwoFactorPolicy {
+  required_roles: Role[];
+  required_role_ids: number[];
+  updated_by_user_id: number | null;
+  updated_at: Date | null;
+}
+
+export interface UpdateTwoFactorPolicyDTO {
+  required_roles?: Role[];
+  required_role_ids?: number[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: Date | null;
+  required: boolean;
+  pending_setup: boolean; // A secret was issued but not yet confirmed
+  backup_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // Base32, for manual entry
+  otpauth_url: string; // Render as a QR code for authenticator apps
+}
+
+export type TwoFactorChallengeStage = 'verify' | 'setup';
+
+// Returned by the first login step instead of tokens when a code is needed
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  stage: TwoFactorChallengeStage;
+  challenge_token: string;
+  expires_in: number; // Seconds
+  setup?: TwoFactorSetup; // Present when stage is 'setup' (policy requires enrolment)
+}
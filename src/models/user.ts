@@ -1,14 +1,9 @@
+import { Permission } from './permission';
+
 export type Role = 'ADMIN' | 'CSR';
 
-export interface PermissionMap {
-  'orders.read'?: boolean;
-  'orders.update_status'?: boolean;
-  'orders.set_paid'?: boolean;
-  'invoices.send_final'?: boolean;
-  'employees.manage'?: boolean;
-  'invites.create'?: boolean;
-  [key: string]: boolean | undefined;
-}
+// Permissions granted to a CSR individually, on top of their role's
+export type PermissionMap = Partial<Record<Permission, boolean>>;
 
 export interface User {
   id: number;
@@ -17,6 +12,10 @@ export interface User {
   role: Role;
   is_active: boolean;
   permissions: PermissionMap | null;
+  role_id: number | null; // Custom role of a CSR; null for the CSR defaults
+  role_name?: string | null;
+  role_permissions?: Permission[] | null;
+  two_factor_enabled?: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -32,6 +31,7 @@ export interface UpdateUserDTO {
   email?: string;
   is_active?: boolean;
   permissions?: PermissionMap;
+  role_id?: number | null;
 }
 
 export interface Invite {
@@ -72,6 +72,7 @@ export interface PasswordResetOTP {
   expires_at: Date;
   used_at: Date | null;
   request_count: number;
+  attempt_count: number; // Wrong guesses; the OTP is invalidated at OTP_MAX_ATTEMPTS
   created_at: Date;
 }
 
@@ -0,0 +1,11 @@
+import { Aircraft, AircraftSearchParams, AircraftListResponse, CreateAircraftDTO, UpdateAircraftDTO } from '../models/aircraft';
+
+export interface AircraftRepository {
+  create(aircraft: CreateAircraftDTO): Promise<Aircraft>;
+  findById(id: number): Promise<Aircraft | null>;
+  findByTailNumber(tailNumber: string): Promise<Aircraft | null>;
+  findAll(params: AircraftSearchParams): Promise<AircraftListResponse>;
+  update(id: number, aircraft: UpdateAircraftDTO): Promise<Aircraft | null>;
+  delete(id: number): Promise<boolean>;
+  count(): Promise<number>;
+}
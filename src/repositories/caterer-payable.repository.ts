@@ -0,0 +1,21 @@
+import {
+  CatererPayableOrder,
+  CatererPayableSearchParams,
+  CatererBill,
+  CatererBillSearchParams,
+  CreateCatererBillDTO,
+  CatererBillStatus,
+} from '../models/caterer-payable';
+
+export interface CatererPayableRepository {
+  // Non-cancelled orders with a caterer, delivered within the date range, with item cost totals
+  findPayableOrders(params: CatererPayableSearchParams): Promise<CatererPayableOrder[]>;
+  findBillOrders(billId: number): Promise<CatererPayableOrder[]>;
+  findBills(params: CatererBillSearchParams): Promise<CatererBill[]>;
+  findBillById(id: number): Promise<CatererBill | null>;
+  // Creates the bill and attaches the orders to it
+  createBill(data: CreateCatererBillDTO, orderIds: number[], amount: number, currency: string, createdBy: number): Promise<CatererBill>;
+  updateBillStatus(id: number, status: CatererBillStatus, paidAt: Date | null, paymentReference?: string): Promise<CatererBill | null>;
+  // Detaches the bill's orders (back to unbilled) and removes the bill
+  deleteBill(id: number): Promise<boolean>;
+}
@@ -0,0 +1,11 @@
+import { ExchangeRate, ExchangeRateSearchParams } from '../models/exchange-rate';
+
+export interface ExchangeRateRepository {
+  // Inserts the rate, replacing any existing rate for the same pair and effective date
+  upsert(rate: Omit<ExchangeRate, 'id' | 'created_at' | 'updated_at'>): Promise<ExchangeRate>;
+  findById(id: number): Promise<ExchangeRate | null>;
+  findAll(params: ExchangeRateSearchParams): Promise<ExchangeRate[]>;
+  // Most recent rate for the pair effective on or before the given date
+  findLatest(baseCurrency: string, quoteCurrency: string, onOrBefore: string): Promise<ExchangeRate | null>;
+  delete(id: number): Promise<boolean>;
+}
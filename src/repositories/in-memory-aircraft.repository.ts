@@ -0,0 +1,107 @@
+import { Aircraft, AircraftSearchParams, AircraftListResponse, CreateAircraftDTO, UpdateAircraftDTO } from '../models/aircraft';
+import { AircraftRepository } from './aircraft.repository';
+
+export class InMemoryAircraftRepository implements AircraftRepository {
+  private aircraft: Aircraft[] = [];
+  private nextId: number = 1;
+
+  async create(aircraft: CreateAircraftDTO): Promise<Aircraft> {
+    const now = new Date();
+    const newAircraft: Aircraft = {
+      id: this.nextId++,
+      ...aircraft,
+      created_at: now,
+      updated_at: now,
+    };
+    this.aircraft.push(newAircraft);
+    return newAircraft;
+  }
+
+  async findById(id: number): Promise<Aircraft | null> {
+    return this.aircraft.find(a => a.id === id) || null;
+  }
+
+  async findByTailNumber(tailNumber: string): Promise<Aircraft | null> {
+    const upper = tailNumber.toUpperCase();
+    return this.aircraft.find(a => a.tail_number === upper) || null;
+  }
+
+  async findAll(params: AircraftSearchParams): Promise<AircraftListResponse> {
+    let filtered = [...this.aircraft];
+
+    if (params.search) {
+      const searchLower = params.search.toLowerCase();
+      filtered = filtered.filter(aircraft => {
+        return (
+          aircraft.tail_number.toLowerCase().includes(searchLower) ||
+          aircraft.aircraft_type?.toLowerCase().includes(searchLower) ||
+          aircraft.operator_name?.toLowerCase().includes(searchLower)
+        );
+      });
+    }
+
+    if (params.client_id) {
+      filtered = filtered.filter(aircraft => aircraft.client_id === params.client_id);
+    }
+
+    // Apply sorting
+    const sortBy = (params.sortBy || 'tail_number') as keyof Aircraft;
+    const sortOrder = params.sortOrder || 'asc';
+    filtered.sort((a, b) => {
+      const aVal = a[sortBy];
+      const bVal = b[sortBy];
+      if (aVal === undefined || aVal === null) return 1;
+      if (bVal === undefined || bVal === null) return -1;
+
+      if (typeof aVal === 'string' && typeof bVal === 'string') {
+        return sortOrder === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
+      }
+
+      if (typeof aVal === 'number' && typeof bVal === 'number') {
+        return sortOrder === 'asc' ? aVal - bVal : bVal - aVal;
+      }
+
+      return 0;
+    });
+
+    const total = filtered.length;
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+    const offset = (page - 1) * limit;
+
+    return {
+      aircraft: filtered.slice(offset, offset + limit),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async update(id: number, aircraft: UpdateAircraftDTO): Promise<Aircraft | null> {
+    const index = this.aircraft.findIndex(a => a.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const updated: Aircraft = {
+      ...this.aircraft[index],
+      ...aircraft,
+      updated_at: new Date(),
+    };
+    this.aircraft[index] = updated;
+    return updated;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const index = this.aircraft.findIndex(a => a.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.aircraft.splice(index, 1);
+    return true;
+  }
+
+  async count(): Promise<number> {
+    return this.aircraft.length;
+  }
+}
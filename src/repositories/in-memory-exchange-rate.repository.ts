@@ -0,0 +1,74 @@
+import { ExchangeRate, ExchangeRateSearchParams } from '../models/exchange-rate';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+
+export class InMemoryExchangeRateRepository implements ExchangeRateRepository {
+  private rates: ExchangeRate[] = [];
+  private nextId: number = 1;
+
+  async upsert(rateData: Omit<ExchangeRate, 'id' | 'created_at' | 'updated_at'>): Promise<ExchangeRate> {
+    const now = new Date();
+    const index = this.rates.findIndex(r =>
+      r.base_currency === rateData.base_currency &&
+      r.quote_currency === rateData.quote_currency &&
+      r.effective_date === rateData.effective_date
+    );
+
+    if (index !== -1) {
+      this.rates[index] = { ...this.rates[index], ...rateData, updated_at: now };
+      return this.rates[index];
+    }
+
+    const rate: ExchangeRate = {
+      id: this.nextId++,
+      ...rateData,
+      created_at: now,
+      updated_at: now,
+    };
+    this.rates.push(rate);
+    return rate;
+  }
+
+  async findById(id: number): Promise<ExchangeRate | null> {
+    return this.rates.find(r => r.id === id) || null;
+  }
+
+  async findAll(params: ExchangeRateSearchParams): Promise<ExchangeRate[]> {
+    let filtered = [...this.rates];
+
+    if (params.base_currency) {
+      filtered = filtered.filter(r => r.base_currency === params.base_currency);
+    }
+    if (params.quote_currency) {
+      filtered = filtered.filter(r => r.quote_currency === params.quote_currency);
+    }
+    if (params.date_from) {
+      filtered = filtered.filter(r => r.effective_date >= params.date_from!);
+    }
+    if (params.date_to) {
+      filtered = filtered.filter(r => r.effective_date <= params.date_to!);
+    }
+
+    filtered.sort((a, b) =>
+      b.effective_date.localeCompare(a.effective_date) ||
+      a.base_currency.localeCompare(b.base_currency) ||
+      a.quote_currency.localeCompare(b.quote_currency)
+    );
+
+    return filtered.slice(0, params.limit || 100);
+  }
+
+  async findLatest(baseCurrency: string, quoteCurrency: string, onOrBefore: string): Promise<ExchangeRate | null> {
+    const candidates = this.rates
+      .filter(r => r.base_currency === baseCurrency && r.quote_currency === quoteCurrency && r.effective_date <= onOrBefore)
+      .sort((a, b) => b.effective_date.localeCompare(a.effective_date));
+    return candidates[0] || null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const index = this.rates.findIndex(r => r.id === id);
+    if (index === -1) return false;
+
+    this.rates.splice(index, 1);
+    return true;
+  }
+}
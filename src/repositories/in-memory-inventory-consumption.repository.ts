@@ -0,0 +1,87 @@
+import {
+  RecipeLine,
+  RecipeLineInput,
+  InventoryReservation,
+  InventoryReservationSearchParams,
+  InventoryReservationStatus,
+  InventoryRequirement,
+} from '../models/inventory';
+import { InventoryConsumptionRepository } from './inventory-consumption.repository';
+
+export class InMemoryInventoryConsumptionRepository implements InventoryConsumptionRepository {
+  private recipeLines: RecipeLine[] = [];
+  private reservations: InventoryReservation[] = [];
+  private nextRecipeLineId: number = 1;
+  private nextReservationId: number = 1;
+
+  async findRecipeLines(menuItemIds: number[]): Promise<RecipeLine[]> {
+    return this.recipeLines
+      .filter(line => menuItemIds.includes(line.menu_item_id))
+      .map(line => ({ ...line }));
+  }
+
+  async replaceRecipe(menuItemId: number, portionSize: string, lines: RecipeLineInput[]): Promise<RecipeLine[]> {
+    this.recipeLines = this.recipeLines.filter(
+      line => !(line.menu_item_id === menuItemId && line.portion_size === portionSize)
+    );
+
+    const now = new Date();
+    const created: RecipeLine[] = lines.map(line => ({
+      id: this.nextRecipeLineId++,
+      menu_item_id: menuItemId,
+      portion_size: portionSize,
+      inventory_item_id: line.inventory_item_id,
+      quantity: line.quantity,
+      created_at: now,
+      updated_at: now,
+    }));
+    this.recipeLines.push(...created);
+
+    return created.map(line => ({ ...line }));
+  }
+
+  async findReservations(params: InventoryReservationSearchParams): Promise<InventoryReservation[]> {
+    return this.reservations
+      .filter(reservation =>
+        (params.order_id === undefined || reservation.order_id === params.order_id) &&
+        (params.inventory_item_id === undefined || reservation.inventory_item_id === params.inventory_item_id) &&
+        (params.status === undefined || reservation.status === params.status)
+      )
+      .map(reservation => ({ ...reservation }));
+  }
+
+  async replaceReservations(orderId: number, requirements: InventoryRequirement[]): Promise<InventoryReservation[]> {
+    this.reservations = this.reservations.filter(
+      reservation => !(reservation.order_id === orderId && reservation.status === 'reserved')
+    );
+
+    const now = new Date();
+    const created: InventoryReservation[] = requirements.map(requirement => ({
+      id: this.nextReservationId++,
+      order_id: orderId,
+      inventory_item_id: requirement.inventory_item_id,
+      quantity: requirement.quantity,
+      status: 'reserved',
+      created_at: now,
+      updated_at: now,
+    }));
+    this.reservations.push(...created);
+
+    return created.map(reservation => ({ ...reservation }));
+  }
+
+  async closeReservations(orderId: number, status: Exclude<InventoryReservationStatus, 'reserved'>): Promise<InventoryReservation[]> {
+    const now = new Date();
+    const closed: InventoryReservation[] = [];
+
+    for (const reservation of this.reservations) {
+      if (reservation.order_id === orderId && reservation.status === 'reserved') {
+        reservation.status = status;
+        reservation.updated_at = now;
+        closed.push({ ...reservation });
+      }
+    }
+
+    return closed;
+  }
+}
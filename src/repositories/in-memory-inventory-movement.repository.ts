@@ -0,0 +1,104 @@
+import {
+  InventoryMovement,
+  InventoryMovementSearchParams,
+  InventoryMovementListResponse,
+  InventoryLot,
+  InventoryLotSearchParams,
+} from '../models/inventory';
+import { InventoryMovementRepository } from './inventory-movement.repository';
+
+export class InMemoryInventoryMovementRepository implements InventoryMovementRepository {
+  private movements: InventoryMovement[] = [];
+  private lots: InventoryLot[] = [];
+  private nextId: number = 1;
+  private nextLotId: number = 1;
+
+  async create(movement: InventoryMovement): Promise<InventoryMovement> {
+    const newMovement: InventoryMovement = {
+      ...movement,
+      id: this.nextId++,
+      created_at: new Date(),
+    };
+    this.movements.push(newMovement);
+    return { ...newMovement };
+  }
+
+  async findAll(params: InventoryMovementSearchParams): Promise<InventoryMovementListResponse> {
+    const dateFrom = params.date_from ? new Date(`${params.date_from}T00:00:00`) : null;
+    const dateTo = params.date_to ? new Date(`${params.date_to}T23:59:59.999`) : null;
+
+    const filtered = this.movements
+      .filter(movement =>
+        (!params.inventory_item_id || movement.inventory_item_id === params.inventory_item_id) &&
+        (!params.purchase_order_id || movement.purchase_order_id === params.purchase_order_id) &&
+        (!params.order_id || movement.order_id === params.order_id) &&
+        (!params.lot_id || movement.lot_id === params.lot_id) &&
+        (!params.movement_type || movement.movement_type === params.movement_type) &&
+        (!params.created_by || movement.created_by === params.created_by) &&
+        (!dateFrom || movement.created_at! >= dateFrom) &&
+        (!dateTo || movement.created_at! <= dateTo)
+      )
+      .sort((a, b) => b.id! - a.id!);
+
+    const total = filtered.length;
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+    const offset = (page - 1) * limit;
+
+    return {
+      movements: filtered.slice(offset, offset + limit).map(movement => ({ ...movement })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async createLot(lot: InventoryLot): Promise<InventoryLot> {
+    const now = new Date();
+    const newLot: InventoryLot = {
+      ...lot,
+      id: this.nextLotId++,
+      received_at: lot.received_at || now,
+      created_at: now,
+      updated_at: now,
+    };
+    this.lots.push(newLot);
+    return { ...newLot };
+  }
+
+  async findLotById(id: number): Promise<InventoryLot | null> {
+    const lot = this.lots.find(l => l.id === id);
+    return lot ? { ...lot } : null;
+  }
+
+  async findLots(params: InventoryLotSearchParams): Promise<InventoryLot[]> {
+    return this.lots
+      .filter(lot =>
+        (!params.inventory_item_id || lot.inventory_item_id === params.inventory_item_id) &&
+        (params.location === undefined || (lot.location || null) === (params.location || null)) &&
+        (!params.available_only || lot.quantity_remaining > 0) &&
+        (!params.expiring_by || (!!lot.expiry_date && lot.expiry_date <= params.expiring_by))
+      )
+      .sort((a, b) => {
+        if (a.expiry_date !== b.expiry_date) {
+          if (!a.expiry_date) return 1;
+          if (!b.expiry_date) return -1;
+          return a.expiry_date.localeCompare(b.expiry_date);
+        }
+        return a.received_at!.getTime() - b.received_at!.getTime() || a.id! - b.id!;
+      })
+      .map(lot => ({ ...lot }));
+  }
+
+  async updateLotQuantity(id: number, quantityRemaining: number): Promise<InventoryLot | null> {
+    const index = this.lots.findIndex(l => l.id === id);
+    if (index === -1) return null;
+
+    this.lots[index] = {
+      ...this.lots[index],
+      quantity_remaining: quantityRemaining,
+      updated_at: new Date(),
+    };
+    return { ...this.lots[index] };
+  }
+}
@@ -28,6 +28,7 @@ export class InMemoryInventoryRepository implements InventoryRepository {
       unit: inventoryItemData.unit,
       unit_price: inventoryItemData.unit_price,
       supplier: inventoryItemData.supplier,
+      supplier_id: inventoryItemData.supplier_id ?? null,
       location: inventoryItemData.location,
       notes: inventoryItemData.notes,
       last_updated: now,
@@ -67,6 +68,10 @@ export class InMemoryInventoryRepository implements InventoryRepository {
       filtered = filtered.filter(item => item.category === params.category);
     }
 
+    if (params.supplier_id) {
+      filtered = filtered.filter(item => item.supplier_id === params.supplier_id);
+    }
+
     // Apply status filter
     if (params.status && params.status !== 'all') {
       filtered = filtered.filter(item => {
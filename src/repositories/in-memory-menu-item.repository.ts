@@ -28,6 +28,8 @@ export class InMemoryMenuItemRepository implements MenuItemRepository {
       image_url: menuItemData.image_url,
       tax_rate: menuItemData.tax_rate,
       service_charge: menuItemData.service_charge,
+      allergens: menuItemData.allergens,
+      dietary_tags: menuItemData.dietary_tags,
       is_active: menuItemData.is_active !== undefined ? menuItemData.is_active : true,
       created_at: now,
       updated_at: now,
@@ -45,6 +47,8 @@ export class InMemoryMenuItemRepository implements MenuItemRepository {
           portion_size: variant.portion_size,
           price: variant.price,
           sort_order: index,
+          allergens: variant.allergens,
+          dietary_tags: variant.dietary_tags,
         };
 
         // Add caterer prices if provided
@@ -128,6 +132,24 @@ export class InMemoryMenuItemRepository implements MenuItemRepository {
       filtered = filtered.filter(item => item.is_active === params.is_active);
     }
 
+    // Apply allergen filter: items with allergen data where neither the item nor a variant has an excluded allergen
+    if (params.exclude_allergens && params.exclude_allergens.length > 0) {
+      const excluded = params.exclude_allergens;
+      filtered = filtered.filter(item => {
+        if (!item.allergens) return false;
+        const variantAllergens = this.variants
+          .filter(v => v.menu_item_id === item.id)
+          .flatMap(v => v.allergens || []);
+        return ![...item.allergens, ...variantAllergens].some(a => excluded.includes(a));
+      });
+    }
+
+    // Apply dietary tag filter
+    if (params.dietary_tag) {
+      const tag = params.dietary_tag;
+      filtered = filtered.filter(item => item.dietary_tags?.includes(tag));
+    }
+
     // Apply sorting
     const sortBy = params.sortBy || 'created_at';
     const sortOrder = params.sortOrder || 'desc';
@@ -205,6 +227,8 @@ export class InMemoryMenuItemRepository implements MenuItemRepository {
           portion_size: variant.portion_size,
           price: variant.price,
           sort_order: idx,
+          allergens: variant.allergens,
+          dietary_tags: variant.dietary_tags,
         };
 
         // Add caterer prices if provided
@@ -0,0 +1,48 @@
+import { OrderEvent, CreateOrderEventDTO, OrderEventSearchParams } from '../models/order-event';
+import { OrderEventRepository } from './order-event.repository';
+
+export class InMemoryOrderEventRepository implements OrderEventRepository {
+  private events: OrderEvent[] = [];
+  private nextId: number = 1;
+
+  async create(eventData: CreateOrderEventDTO): Promise<OrderEvent> {
+    const event: OrderEvent = {
+      id: this.nextId++,
+      order_id: eventData.order_id,
+      event_type: eventData.event_type,
+      actor_user_id: eventData.actor_user_id ?? null,
+      before: eventData.before ?? null,
+      after: eventData.after ?? null,
+      metadata: eventData.metadata ?? null,
+      created_at: new Date(),
+    };
+
+    this.events.push(event);
+    return event;
+  }
+
+  async findByOrderId(orderId: number, params: OrderEventSearchParams = {}): Promise<OrderEvent[]> {
+    const types = params.event_type
+      ? (Array.isArray(params.event_type) ? params.event_type : [params.event_type])
+      : null;
+
+    let filtered = this.events.filter(e => e.order_id === orderId);
+    if (types) {
+      filtered = filtered.filter(e => types.includes(e.event_type));
+    }
+    if (params.since) {
+      const since = params.since.getTime();
+      filtered = filtered.filter(e => e.created_at!.getTime() > since);
+    }
+
+    // Events are appended in order, so id order matches creation order
+    filtered.sort((a, b) => params.sortOrder === 'desc' ? b.id! - a.id! : a.id! - b.id!);
+
+    return params.limit ? filtered.slice(0, params.limit) : filtered;
+  }
+
+  async findLatestByType(orderId: number, eventType: OrderEventSearchParams['event_type']): Promise<OrderEvent | null> {
+    const events = await this.findByOrderId(orderId, { event_type: eventType, sortOrder: 'desc', limit: 1 });
+    return events[0] || null;
+  }
+}
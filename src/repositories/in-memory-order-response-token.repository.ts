@@ -0,0 +1,73 @@
+import { OrderResponseToken, CreateOrderResponseTokenDTO, OrderResponseRecipient } from '../models/order-response';
+import { OrderResponseTokenRepository } from './order-response-token.repository';
+
+export class InMemoryOrderResponseTokenRepository implements OrderResponseTokenRepository {
+  private tokens: OrderResponseToken[] = [];
+  private nextId: number = 1;
+
+  async create(tokenData: CreateOrderResponseTokenDTO): Promise<OrderResponseToken> {
+    const token: OrderResponseToken = {
+      id: this.nextId++,
+      order_id: tokenData.order_id,
+      recipient_type: tokenData.recipient_type,
+      recipient_email: tokenData.recipient_email,
+      token_hash: tokenData.token_hash,
+      expires_at: tokenData.expires_at,
+      used_at: null,
+      revoked_at: null,
+      response: null,
+      comments: null,
+      created_by_user_id: tokenData.created_by_user_id || null,
+      created_at: new Date(),
+    };
+    this.tokens.push(token);
+    return token;
+  }
+
+  async findActiveByTokenHash(tokenHash: string): Promise<OrderResponseToken | null> {
+    const now = Date.now();
+    return this.tokens.find(t =>
+      t.token_hash === tokenHash &&
+      !t.used_at &&
+      !t.revoked_at &&
+      new Date(t.expires_at).getTime() > now
+    ) || null;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<OrderResponseToken | null> {
+    return this.tokens.find(t => t.token_hash === tokenHash) || null;
+  }
+
+  async markAsUsed(id: number, response: string, comments?: string | null): Promise<boolean> {
+    const token = this.tokens.find(t => t.id === id);
+    if (!token || token.used_at) {
+      return false;
+    }
+    token.used_at = new Date();
+    token.response = response;
+    token.comments = comments || null;
+    return true;
+  }
+
+  async releaseClaim(id: number, response: string): Promise<boolean> {
+    const token = this.tokens.find(t => t.id === id);
+    if (!token || !token.used_at || token.response !== response) {
+      return false;
+    }
+    token.used_at = null;
+    token.response = null;
+    token.comments = null;
+    return true;
+  }
+
+  async revokeActiveForOrder(orderId: number, recipientType: OrderResponseRecipient): Promise<number> {
+    let count = 0;
+    for (const token of this.tokens) {
+      if (token.order_id === orderId && token.recipient_type === recipientType && !token.used_at && !token.revoked_at) {
+        token.revoked_at = new Date();
+        count++;
+      }
+    }
+    return count;
+  }
+}
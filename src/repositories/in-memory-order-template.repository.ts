@@ -0,0 +1,184 @@
+import {
+  OrderTemplate,
+  CreateOrderTemplateDTO,
+  UpdateOrderTemplateDTO,
+  OrderTemplateSearchParams,
+  OrderTemplateListResponse,
+  OrderTemplateOccurrence,
+} from '../models/order-template';
+import { OrderTemplateRepository } from './order-template.repository';
+
+export class InMemoryOrderTemplateRepository implements OrderTemplateRepository {
+  private templates: OrderTemplate[] = [];
+  private occurrences: OrderTemplateOccurrence[] = [];
+  private nextId: number = 1;
+  private nextOccurrenceId: number = 1;
+
+  async create(templateData: CreateOrderTemplateDTO & { created_by_user_id?: number | null }): Promise<OrderTemplate> {
+    const now = new Date();
+    const template: OrderTemplate = {
+      id: this.nextId++,
+      name: templateData.name,
+      order_data: templateData.order_data,
+      recurrence: templateData.recurrence || null,
+      generate_days_ahead: templateData.generate_days_ahead ?? 7,
+      is_active: templateData.is_active !== undefined ? templateData.is_active : true,
+      created_by_user_id: templateData.created_by_user_id || null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.templates.push(template);
+    return template;
+  }
+
+  async findById(id: number): Promise<OrderTemplate | null> {
+    return this.templates.find(t => t.id === id) || null;
+  }
+
+  async findAll(params: OrderTemplateSearchParams): Promise<OrderTemplateListResponse> {
+    let filtered = [...this.templates];
+
+    if (params.search) {
+      const searchLower = params.search.toLowerCase();
+      filtered = filtered.filter(t => t.name.toLowerCase().includes(searchLower));
+    }
+    if (params.client_id) {
+      filtered = filtered.filter(t => t.order_data.client_id === params.client_id);
+    }
+    if (params.is_active !== undefined) {
+      filtered = filtered.filter(t => t.is_active === params.is_active);
+    }
+
+    filtered.sort((a, b) => a.name.localeCompare(b.name) || a.id! - b.id!);
+
+    const limit = params.limit || 50;
+    const page = params.page || 1;
+    const offset = (page - 1) * limit;
+
+    return {
+      templates: filtered.slice(offset, offset + limit),
+      total: filtered.length,
+      page,
+      limit,
+    };
+  }
+
+  async findActiveRecurring(): Promise<OrderTemplate[]> {
+    return this.templates.filter(t => t.is_active && t.recurrence);
+  }
+
+  async update(id: number, templateData: UpdateOrderTemplateDTO): Promise<OrderTemplate | null> {
+    const template = this.templates.find(t => t.id === id);
+    if (!template) {
+      return null;
+    }
+    Object.assign(template, {
+      ...Object.fromEntries(Object.entries(templateData).filter(([_, v]) => v !== undefined)),
+      updated_at: new Date(),
+    });
+    return template;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const index = this.templates.findIndex(t => t.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.templates.splice(index, 1);
+    this.occurrences = this.occurrences.filter(o => o.template_id !== id);
+    return true;
+  }
+
+  async findOccurrences(templateId: number, fromDate: string, toDate: string): Promise<OrderTemplateOccurrence[]> {
+    return this.occurrences
+      .filter(o => o.template_id === templateId && o.occurrence_date >= fromDate && o.occurrence_date <= toDate)
+      .sort((a, b) => a.occurrence_date.localeCompare(b.occurrence_date));
+  }
+
+  async saveOccurrence(
+    templateId: number,
+    occurrenceDate: string,
+    data: { status: 'scheduled' | 'skipped'; overrides?: OrderTemplateOccurrence['overrides'] }
+  ): Promise<OrderTemplateOccurrence | null> {
+    const existing = this.findOccurrence(templateId, occurrenceDate);
+    if (existing) {
+      if (existing.status === 'generated') {
+        return null;
+      }
+      existing.status = data.status;
+      existing.overrides = data.overrides || existing.overrides || null;
+      existing.updated_at = new Date();
+      return existing;
+    }
+
+    const now = new Date();
+    const occurrence: OrderTemplateOccurrence = {
+      id: this.nextOccurrenceId++,
+      template_id: templateId,
+      occurrence_date: occurrenceDate,
+      status: data.status,
+      overrides: data.overrides || null,
+      order_id: null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.occurrences.push(occurrence);
+    return occurrence;
+  }
+
+  async deleteOccurrence(templateId: number, occurrenceDate: string): Promise<boolean> {
+    const existing = this.findOccurrence(templateId, occurrenceDate);
+    if (!existing || existing.status === 'generated') {
+      return false;
+    }
+    this.occurrences = this.occurrences.filter(o => o !== existing);
+    return true;
+  }
+
+  async claimOccurrence(templateId: number, occurrenceDate: string): Promise<OrderTemplateOccurrence | null> {
+    const existing = this.findOccurrence(templateId, occurrenceDate);
+    if (existing) {
+      if (existing.status !== 'scheduled') {
+        return null;
+      }
+      existing.status = 'generated';
+      existing.updated_at = new Date();
+      return existing;
+    }
+
+    const now = new Date();
+    const occurrence: OrderTemplateOccurrence = {
+      id: this.nextOccurrenceId++,
+      template_id: templateId,
+      occurrence_date: occurrenceDate,
+      status: 'generated',
+      overrides: null,
+      order_id: null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.occurrences.push(occurrence);
+    return occurrence;
+  }
+
+  async setOccurrenceOrder(id: number, orderId: number): Promise<void> {
+    const occurrence = this.occurrences.find(o => o.id === id);
+    if (occurrence) {
+      occurrence.order_id = orderId;
+      occurrence.updated_at = new Date();
+    }
+  }
+
+  async releaseOccurrence(id: number): Promise<void> {
+    const occurrence = this.occurrences.find(o => o.id === id);
+    if (occurrence) {
+      occurrence.status = 'scheduled';
+      occurrence.order_id = null;
+      occurrence.updated_at = new Date();
+    }
+  }
+
+  private findOccurrence(templateId: number, occurrenceDate: string): OrderTemplateOccurrence | undefined {
+    return this.occurrences.find(o => o.template_id === templateId && o.occurrence_date === occurrenceDate);
+  }
+}
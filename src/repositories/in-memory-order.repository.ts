@@ -1,12 +1,17 @@
-import { Order, OrderItem, OrderSearchParams, OrderListResponse, CreateOrderDTO, UpdateOrderDTO, getOrderTypeFromAlias, OrderType } from '../models/order';
+import { Order, OrderItem, OrderAddon, OrderAddonInput, OrderSearchParams, OrderListResponse, CreateOrderDTO, UpdateOrderDTO, getOrderTypeFromAlias, OrderType, OrderTaxLine } from '../models/order';
+import { OrderExchangeRateSnapshot } from '../models/exchange-rate';
 import { OrderRepository } from './order.repository';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { zonedTimeToUtc } from '../utils/timezone';
 
 export class InMemoryOrderRepository implements OrderRepository {
   private orders: Order[] = [];
   private orderItems: OrderItem[] = [];
+  private orderAddons: OrderAddon[] = [];
   private orderPdfs: Map<number, { pdf_data: Buffer; filename: string; mime_type: string; updated_at?: Date }> = new Map();
   private nextId: number = 1;
   private nextItemId: number = 1;
+  private nextAddonId: number = 1;
   private orderNumberCounter: number = 1;
 
   async getNextOrderNumber(clientName: string): Promise<string> {
@@ -72,7 +77,7 @@ export class InMemoryOrderRepository implements OrderRepository {
     const subtotal = orderData.items.reduce((sum, item) => {
       const qty = parseFloat(item.portion_size) || 1;
       return sum + (item.price * qty);
-    }, 0);
+    }, 0) + this.addonsAmount(orderData.addons || []);
     const serviceCharge = orderData.service_charge || 0;
     const deliveryFee = orderData.delivery_fee || 0;
     const coordinationFee = orderData.coordination_fee || 0;
@@ -97,6 +102,9 @@ export class InMemoryOrderRepository implements OrderRepository {
       caterer: orderData.caterer,
       airport: orderData.airport,
       aircraft_tail_number: orderData.aircraft_tail_number,
+      aircraft_id: orderData.aircraft_id,
+      passenger_count: orderData.passenger_count,
+      crew_count: orderData.crew_count,
       delivery_date: orderData.delivery_date,
       delivery_time: orderData.delivery_time,
       order_priority: orderData.order_priority,
@@ -108,6 +116,7 @@ export class InMemoryOrderRepository implements OrderRepository {
       reheating_instructions: orderData.reheating_instructions,
       packaging_instructions: orderData.packaging_instructions,
       dietary_restrictions: orderData.dietary_restrictions,
+      dietary_requirements: orderData.dietary_requirements || [],
       delivery_fee: deliveryFee,
       service_charge: serviceCharge,
       coordination_fee: coordinationFee,
@@ -118,6 +127,7 @@ export class InMemoryOrderRepository implements OrderRepository {
       airport_pickup_fee: airportPickupFee,
       subtotal,
       total,
+      currency: orderData.currency || DEFAULT_CURRENCY,
       revision_count: 0,
       created_at: now,
       updated_at: now,
@@ -129,10 +139,15 @@ export class InMemoryOrderRepository implements OrderRepository {
     const items: OrderItem[] = orderData.items.map((item, index) => ({
       id: this.nextItemId++,
       order_id: newOrder.id,
+      menu_item_id: item.menu_item_id,
       item_name: item.item_name,
       item_description: item.item_description,
       portion_size: item.portion_size,
       price: item.price,
+      caterer_cost: item.caterer_cost ?? null,
+      meal_for: item.meal_for || null,
+      allergens: item.allergens,
+      dietary_tags: item.dietary_tags,
       category: item.category,
       packaging: item.packaging,
       sort_order: index,
@@ -140,6 +155,7 @@ export class InMemoryOrderRepository implements OrderRepository {
 
     this.orderItems.push(...items);
     newOrder.items = items;
+    newOrder.addons = this.createAddons(newOrder.id!, orderData.addons || []);
 
     return newOrder;
   }
@@ -152,9 +168,14 @@ export class InMemoryOrderRepository implements OrderRepository {
       .filter(item => item.order_id === id)
       .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
 
+    const addons = this.orderAddons
+      .filter(addon => addon.order_id === id)
+      .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
+
     return {
       ...order,
       items,
+      addons,
     };
   }
 
@@ -260,16 +281,30 @@ export class InMemoryOrderRepository implements OrderRepository {
         item_description: item.item_description,
         portion_size: item.portion_size,
         price: item.price,
+        caterer_cost: item.caterer_cost ?? null,
+        meal_for: item.meal_for || null,
+        allergens: item.allergens,
+        dietary_tags: item.dietary_tags,
         category: item.category,
         packaging: item.packaging,
         sort_order: idx,
       }));
       this.orderItems.push(...newItems);
       
-      subtotal = orderData.items.reduce((sum, item) => {
+    }
+
+    // An empty addons array removes all add-ons
+    if (orderData.addons !== undefined) {
+      this.orderAddons = this.orderAddons.filter(addon => addon.order_id !== id);
+      this.createAddons(id, orderData.addons);
+    }
+
+    if (orderData.items || orderData.addons) {
+      const items = this.orderItems.filter(item => item.order_id === id);
+      subtotal = items.reduce((sum, item) => {
         const qty = parseFloat(item.portion_size) || 1;
         return sum + (item.price * qty);
-      }, 0);
+      }, 0) + this.addonsAmount(this.orderAddons.filter(addon => addon.order_id === id));
     }
 
     if (orderData.service_charge !== undefined) {
@@ -304,7 +339,8 @@ export class InMemoryOrderRepository implements OrderRepository {
       airportPickupFee = orderData.airport_pickup_fee;
     }
 
-    const total = subtotal + serviceCharge + deliveryFee + coordinationFee + airportFee + fboFee + shoppingFee + restaurantPickupFee + airportPickupFee;
+    // Keep the previously applied taxes in the total until the pricing engine recalculates them
+    const total = subtotal + serviceCharge + deliveryFee + coordinationFee + airportFee + fboFee + shoppingFee + restaurantPickupFee + airportPickupFee + (existingOrder.tax_total || 0);
 
     // Convert order_type alias to full type if needed
     let orderType = existingOrder.order_type;
@@ -329,6 +365,7 @@ export class InMemoryOrderRepository implements OrderRepository {
       airport_id,
       fbo_id: fbo_id || undefined,
       order_type: orderType,
+      addons: undefined, // Add-on lines are kept in orderAddons
       subtotal,
       service_charge: serviceCharge,
       delivery_fee: deliveryFee,
@@ -368,6 +405,7 @@ export class InMemoryOrderRepository implements OrderRepository {
 
     this.orders.splice(index, 1);
     this.orderItems = this.orderItems.filter(item => item.order_id !== id);
+    this.orderAddons = this.orderAddons.filter(addon => addon.order_id !== id);
     return true;
   }
 
@@ -388,6 +426,66 @@ export class InMemoryOrderRepository implements OrderRepository {
     return this.findById(id);
   }
 
+  async updateTaxes(id: number, taxBreakdown: OrderTaxLine[], taxTotal: number): Promise<number | null> {
+    const index = this.orders.findIndex(o => o.id === id);
+    if (index === -1) return null;
+
+    const order = this.orders[index];
+    const total = order.subtotal + order.service_charge + order.delivery_fee + order.coordination_fee +
+      order.airport_fee + order.fbo_fee + order.shopping_fee + order.restaurant_pickup_fee +
+      order.airport_pickup_fee + taxTotal;
+
+    this.orders[index] = {
+      ...order,
+      tax_breakdown: taxBreakdown,
+      tax_total: taxTotal,
+      total,
+      updated_at: new Date(),
+    };
+
+    return total;
+  }
+
+  async updateDeliveryInstant(id: number, deliveryAt: Date | null, timeZone: string): Promise<void> {
+    const index = this.orders.findIndex(o => o.id === id);
+    if (index === -1) return;
+
+    this.orders[index] = {
+      ...this.orders[index],
+      delivery_at: deliveryAt,
+      delivery_time_zone: timeZone,
+    };
+  }
+
+  async refreshDeliveryInstantsForAirport(airportId: number, timeZone: string): Promise<number> {
+    let count = 0;
+    this.orders = this.orders.map(order => {
+      if (order.airport_id !== airportId || order.status === 'delivered' || order.status === 'cancelled') {
+        return order;
+      }
+      count++;
+      return {
+        ...order,
+        delivery_at: zonedTimeToUtc(String(order.delivery_date), order.delivery_time, timeZone),
+        delivery_time_zone: timeZone,
+      };
+    });
+    return count;
+  }
+
+  async updateExchangeRate(id: number, snapshot: OrderExchangeRateSnapshot): Promise<Order | null> {
+    const index = this.orders.findIndex(o => o.id === id);
+    if (index === -1) return null;
+
+    this.orders[index] = {
+      ...this.orders[index],
+      ...snapshot,
+      updated_at: new Date(),
+    };
+
+    return this.findById(id);
+  }
+
   async deleteMany(ids: number[]): Promise<number> {
     let deleted = 0;
     for (const id of ids) {
@@ -414,4 +512,23 @@ export class InMemoryOrderRepository implements OrderRepository {
   async getPdf(orderId: number): Promise<{ pdf_data: Buffer; filename: string; mime_type: string; updated_at?: Date } | null> {
     return this.orderPdfs.get(orderId) || null;
   }
+
+  private createAddons(orderId: number, addons: OrderAddonInput[]): OrderAddon[] {
+    const created: OrderAddon[] = addons.map((addon, index) => ({
+      id: this.nextAddonId++,
+      order_id: orderId,
+      addon_item_id: addon.addon_item_id,
+      name: addon.name || '',
+      description: addon.description,
+      quantity: addon.quantity,
+      price: addon.price || 0,
+      sort_order: index,
+    }));
+    this.orderAddons.push(...created);
+    return created;
+  }
+
+  private addonsAmount(addons: Array<{ price?: number; quantity: number }>): number {
+    return addons.reduce((sum, addon) => sum + (addon.price || 0) * addon.quantity, 0);
+  }
 }
@@ -0,0 +1,157 @@
+import {
+  PurchaseOrder,
+  PurchaseOrderData,
+  PurchaseOrderLine,
+  PurchaseOrderSearchParams,
+  PurchaseOrderListResponse,
+  PurchaseOrderStatus,
+  OPEN_PURCHASE_ORDER_STATUSES,
+} from '../models/purchase-order';
+import { PurchaseOrderRepository } from './purchase-order.repository';
+
+function calculateTotal(lines: PurchaseOrderLine[]): number {
+  const total = lines.reduce((sum, line) => sum + line.quantity_ordered * (line.unit_price || 0), 0);
+  return Math.round(total * 100) / 100;
+}
+
+export class InMemoryPurchaseOrderRepository implements PurchaseOrderRepository {
+  private purchaseOrders: PurchaseOrder[] = [];
+  private nextId: number = 1;
+  private nextLineId: number = 1;
+
+  async create(data: PurchaseOrderData, createdBy?: number | null): Promise<PurchaseOrder> {
+    const now = new Date();
+    const id = this.nextId++;
+    const lines = this.createLines(id, data.lines);
+    const purchaseOrder: PurchaseOrder = {
+      id,
+      po_number: `PO-${String(id).padStart(5, '0')}`,
+      supplier_id: data.supplier_id,
+      supplier_name: data.supplier_name,
+      status: 'draft',
+      expected_date: data.expected_date ?? null,
+      notes: data.notes,
+      lines,
+      total: calculateTotal(lines),
+      sent_at: null,
+      received_at: null,
+      created_by: createdBy ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.purchaseOrders.push(purchaseOrder);
+    return this.copy(purchaseOrder);
+  }
+
+  async findById(id: number): Promise<PurchaseOrder | null> {
+    const purchaseOrder = this.purchaseOrders.find(po => po.id === id);
+    return purchaseOrder ? this.copy(purchaseOrder) : null;
+  }
+
+  async findAll(params: PurchaseOrderSearchParams): Promise<PurchaseOrderListResponse> {
+    let filtered = [...this.purchaseOrders];
+
+    if (params.supplier_id) {
+      filtered = filtered.filter(po => po.supplier_id === params.supplier_id);
+    }
+    if (params.status) {
+      filtered = filtered.filter(po => po.status === params.status);
+    }
+    if (params.inventory_item_id) {
+      filtered = filtered.filter(po => po.lines.some(line => line.inventory_item_id === params.inventory_item_id));
+    }
+
+    const sortOrder = params.sortOrder || 'desc';
+    filtered.sort((a, b) => (sortOrder === 'asc' ? a.id! - b.id! : b.id! - a.id!));
+
+    const total = filtered.length;
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+    const offset = (page - 1) * limit;
+
+    return {
+      purchase_orders: filtered.slice(offset, offset + limit).map(po => this.copy(po)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async update(id: number, data: Partial<PurchaseOrderData>): Promise<PurchaseOrder | null> {
+    const purchaseOrder = this.purchaseOrders.find(po => po.id === id);
+    if (!purchaseOrder) {
+      return null;
+    }
+
+    if (data.supplier_id !== undefined) purchaseOrder.supplier_id = data.supplier_id;
+    if (data.supplier_name !== undefined) purchaseOrder.supplier_name = data.supplier_name;
+    if (data.expected_date !== undefined) purchaseOrder.expected_date = data.expected_date;
+    if (data.notes !== undefined) purchaseOrder.notes = data.notes;
+    if (data.lines !== undefined) {
+      purchaseOrder.lines = this.createLines(id, data.lines);
+      purchaseOrder.total = calculateTotal(purchaseOrder.lines);
+    }
+    purchaseOrder.updated_at = new Date();
+
+    return this.copy(purchaseOrder);
+  }
+
+  async updateStatus(id: number, status: PurchaseOrderStatus): Promise<PurchaseOrder | null> {
+    const purchaseOrder = this.purchaseOrders.find(po => po.id === id);
+    if (!purchaseOrder) {
+      return null;
+    }
+
+    const now = new Date();
+    purchaseOrder.status = status;
+    if (status === 'sent') purchaseOrder.sent_at = now;
+    if (status === 'received') purchaseOrder.received_at = now;
+    purchaseOrder.updated_at = now;
+
+    return this.copy(purchaseOrder);
+  }
+
+  async addReceivedQuantity(lineId: number, quantity: number): Promise<void> {
+    for (const purchaseOrder of this.purchaseOrders) {
+      const line = purchaseOrder.lines.find(l => l.id === lineId);
+      if (line) {
+        line.quantity_received = Math.round((line.quantity_received + quantity) * 100) / 100;
+        purchaseOrder.updated_at = new Date();
+        return;
+      }
+    }
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const index = this.purchaseOrders.findIndex(po => po.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.purchaseOrders.splice(index, 1);
+    return true;
+  }
+
+  async findOpenLines(): Promise<PurchaseOrderLine[]> {
+    return this.purchaseOrders
+      .filter(po => OPEN_PURCHASE_ORDER_STATUSES.includes(po.status))
+      .flatMap(po => po.lines.map(line => ({ ...line })));
+  }
+
+  async countBySupplier(supplierId: number): Promise<number> {
+    return this.purchaseOrders.filter(po => po.supplier_id === supplierId).length;
+  }
+
+  private createLines(purchaseOrderId: number, lines: PurchaseOrderLine[]): PurchaseOrderLine[] {
+    return lines.map((line, index) => ({
+      ...line,
+      id: this.nextLineId++,
+      purchase_order_id: purchaseOrderId,
+      quantity_received: line.quantity_received || 0,
+      sort_order: index,
+    }));
+  }
+
+  private copy(purchaseOrder: PurchaseOrder): PurchaseOrder {
+    return { ...purchaseOrder, lines: purchaseOrder.lines.map(line => ({ ...line })) };
+  }
+}
@@ -0,0 +1,122 @@
+import { SchedulerRule, SchedulerRuleDTO, SchedulerRun, SchedulerRuleExecution } from '../models/scheduler';
+import { SchedulerRepository } from './scheduler.repository';
+
+export class InMemorySchedulerRepository implements SchedulerRepository {
+  private rules: SchedulerRule[] = [];
+  private runs: SchedulerRun[] = [];
+  private executions: SchedulerRuleExecution[] = [];
+  private seeds: Set<string> = new Set();
+  private nextRuleId: number = 1;
+  private nextRunId: number = 1;
+  private nextExecutionId: number = 1;
+
+  async findAllRules(): Promise<SchedulerRule[]> {
+    return [...this.rules].sort((a, b) => a.hours_before_delivery - b.hours_before_delivery || a.id! - b.id!);
+  }
+
+  async createRule(ruleData: SchedulerRuleDTO): Promise<SchedulerRule> {
+    const now = new Date();
+    const rule: SchedulerRule = {
+      ...this.toRule(ruleData),
+      id: this.nextRuleId++,
+      created_at: now,
+      updated_at: now,
+    };
+    this.rules.push(rule);
+    return rule;
+  }
+
+  async updateRule(id: number, ruleData: SchedulerRuleDTO): Promise<SchedulerRule | null> {
+    const index = this.rules.findIndex(r => r.id === id);
+    if (index === -1) {
+      return null;
+    }
+    this.rules[index] = {
+      ...this.toRule(ruleData),
+      id,
+      created_at: this.rules[index].created_at,
+      updated_at: new Date(),
+    };
+    return this.rules[index];
+  }
+
+  async deleteRulesExcept(ids: number[]): Promise<number> {
+    const before = this.rules.length;
+    this.rules = this.rules.filter(r => ids.includes(r.id!));
+    return before - this.rules.length;
+  }
+
+  async createRun(runData: Omit<SchedulerRun, 'id' | 'started_at' | 'finished_at'>): Promise<SchedulerRun> {
+    const run: SchedulerRun = {
+      ...runData,
+      id: this.nextRunId++,
+      started_at: new Date(),
+      finished_at: null,
+    };
+    this.runs.push(run);
+    return run;
+  }
+
+  async finishRun(
+    id: number,
+    update: Pick<SchedulerRun, 'status' | 'orders_checked' | 'actions_fired' | 'error_message'>
+  ): Promise<SchedulerRun | null> {
+    const run = this.runs.find(r => r.id === id);
+    if (!run) {
+      return null;
+    }
+    Object.assign(run, update, { finished_at: new Date() });
+    return run;
+  }
+
+  async findRecentRuns(limit: number): Promise<SchedulerRun[]> {
+    return [...this.runs].sort((a, b) => b.id! - a.id!).slice(0, limit);
+  }
+
+  async claimExecution(executionData: Omit<SchedulerRuleExecution, 'id' | 'created_at'>): Promise<SchedulerRuleExecution | null> {
+    const deliveryAt = new Date(executionData.delivery_at).getTime();
+    const exists = this.executions.some(e =>
+      e.rule_id === executionData.rule_id &&
+      e.order_id === executionData.order_id &&
+      new Date(e.delivery_at).getTime() === deliveryAt
+    );
+    if (exists) {
+      return null;
+    }
+
+    const execution: SchedulerRuleExecution = {
+      ...executionData,
+      id: this.nextExecutionId++,
+      created_at: new Date(),
+    };
+    this.executions.push(execution);
+    return execution;
+  }
+
+  async releaseExecution(id: number): Promise<void> {
+    this.executions = this.executions.filter(e => e.id !== id);
+  }
+
+  async claimSeed(name: string): Promise<boolean> {
+    if (this.seeds.has(name)) {
+      return false;
+    }
+    this.seeds.add(name);
+    return true;
+  }
+
+  private toRule(ruleData: SchedulerRuleDTO): SchedulerRule {
+    return {
+      name: ruleData.name,
+      action: ruleData.action,
+      from_statuses: ruleData.from_statuses,
+      target_status: ruleData.target_status || null,
+      hours_before_delivery: ruleData.hours_before_delivery,
+      caterer_id: ruleData.caterer_id || null,
+      order_type: ruleData.order_type || null,
+      order_priority: ruleData.order_priority || null,
+      escalation_emails: ruleData.escalation_emails || [],
+      is_active: ruleData.is_active !== undefined ? ruleData.is_active : true,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Supplier, SupplierSearchParams, SupplierListResponse, CreateSupplierDTO, UpdateSupplierDTO } from '../models/supplier';
+import { SupplierRepository } from './supplier.repository';
+
+export class InMemorySupplierRepository implements SupplierRepository {
+  private suppliers: Supplier[] = [];
+  private nextId: number = 1;
+
+  async create(supplier: CreateSupplierDTO): Promise<Supplier> {
+    const now = new Date();
+    const newSupplier: Supplier = {
+      id: this.nextId++,
+      ...supplier,
+      lead_time_days: supplier.lead_time_days ?? null,
+      is_active: supplier.is_active ?? true,
+      created_at: now,
+      updated_at: now,
+    };
+    this.suppliers.push(newSupplier);
+    return newSupplier;
+  }
+
+  async findById(id: number): Promise<Supplier | null> {
+    return this.suppliers.find(s => s.id === id) || null;
+  }
+
+  async findAll(params: SupplierSearchParams): Promise<SupplierListResponse> {
+    let filtered = [...this.suppliers];
+
+    if (params.search) {
+      const searchLower = params.search.toLowerCase();
+      filtered = filtered.filter(supplier => {
+        return (
+          supplier.supplier_name.toLowerCase().includes(searchLower) ||
+          supplier.contact_name?.toLowerCase().includes(searchLower) ||
+          supplier.email?.toLowerCase().includes(searchLower)
+        );
+      });
+    }
+
+    if (params.is_active !== undefined) {
+      filtered = filtered.filter(supplier => supplier.is_active === params.is_active);
+    }
+
+    // Apply sorting
+    const sortBy = (params.sortBy || 'supplier_name') as keyof Supplier;
+    const sortOrder = params.sortOrder || 'asc';
+    filtered.sort((a, b) => {
+      const aVal = a[sortBy];
+      const bVal = b[sortBy];
+      if (aVal === undefined || aVal === null) return 1;
+      if (bVal === undefined || bVal === null) return -1;
+
+      if (typeof aVal === 'string' && typeof bVal === 'string') {
+        return sortOrder === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
+      }
+
+      if (typeof aVal === 'number' && typeof bVal === 'number') {
+        return sortOrder === 'asc' ? aVal - bVal : bVal - aVal;
+      }
+
+      return 0;
+    });
+
+    const total = filtered.length;
+    const page = params.page || 1;
+    const limit = params.limit || 50;
+    const offset = (page - 1) * limit;
+
+    return {
+      suppliers: filtered.slice(offset, offset + limit),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async update(id: number, supplier: UpdateSupplierDTO): Promise<Supplier | null> {
+    const index = this.suppliers.findIndex(s => s.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const updated: Supplier = {
+      ...this.suppliers[index],
+      ...supplier,
+      updated_at: new Date(),
+    };
+    this.suppliers[index] = updated;
+    return updated;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const index = this.suppliers.findIndex(s => s.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.suppliers.splice(index, 1);
+    return true;
+  }
+
+  async count(): Promise<number> {
+    return this.suppliers.length;
+  }
+}
@@ -29,8 +29,44 @@ import { PostgreSQLTaxChargeRepository } from './postgresql-tax-charge.repositor
 import { FBORepository } from './fbo.repository';
 import { InMemoryFBORepository } from './in-memory-fbo.repository';
 import { PostgreSQLFBORepository } from './postgresql-fbo.repository';
+import { OrderEventRepository } from './order-event.repository';
+import { InMemoryOrderEventRepository } from './in-memory-order-event.repository';
+import { PostgreSQLOrderEventRepository } from './postgresql-order-event.repository';
+import { SchedulerRepository } from './scheduler.repository';
+import { InMemorySchedulerRepository } from './in-memory-scheduler.repository';
+import { PostgreSQLSchedulerRepository } from './postgresql-scheduler.repository';
+import { OrderResponseTokenRepository } from './order-response-token.repository';
+import { InMemoryOrderResponseTokenRepository } from './in-memory-order-response-token.repository';
+import { PostgreSQLOrderResponseTokenRepository } from './postgresql-order-response-token.repository';
+import { OrderTemplateRepository } from './order-template.repository';
+import { InMemoryOrderTemplateRepository } from './in-memory-order-template.repository';
+import { PostgreSQLOrderTemplateRepository } from './postgresql-order-template.repository';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+import { InMemoryExchangeRateRepository } from './in-memory-exchange-rate.repository';
+import { PostgreSQLExchangeRateRepository } from './postgresql-exchange-rate.repository';
+import { AircraftRepository } from './aircraft.repository';
+import { InMemoryAircraftRepository } from './in-memory-aircraft.repository';
+import { PostgreSQLAircraftRepository } from './postgresql-aircraft.repository';
+import { InventoryConsumptionRepository } from './inventory-consumption.repository';
+import { InMemoryInventoryConsumptionRepository } from './in-memory-inventory-consumption.repository';
+import { PostgreSQLInventoryConsumptionRepository } from './postgresql-inventory-consumption.repository';
+import { SupplierRepository } from './supplier.repository';
+import { InMemorySupplierRepository } from './in-memory-supplier.repository';
+import { PostgreSQLSupplierRepository } from './postgresql-supplier.repository';
+import { PurchaseOrderRepository } from './purchase-order.repository';
+import { InMemoryPurchaseOrderRepository } from './in-memory-purchase-order.repository';
+import { PostgreSQLPurchaseOrderRepository } from './postgresql-purchase-order.repository';
+import { InventoryMovementRepository } from './inventory-movement.repository';
+import { InMemoryInventoryMovementRepository } from './in-memory-inventory-movement.repository';
+import { PostgreSQLInventoryMovementRepository } from './postgresql-inventory-movement.repository';
 import { UserRepository } from './user.repository';
 import { PostgreSQLUserRepository } from './postgresql-user.repository';
+import { RoleRepository } from './role.repository';
+import { PostgreSQLRoleRepository } from './postgresql-role.repository';
+import { TwoFactorRepository } from './two-factor.repository';
+import { PostgreSQLTwoFactorRepository } from './postgresql-two-factor.repository';
+import { LoginSecurityRepository } from './login-security.repository';
+import { PostgreSQLLoginSecurityRepository } from './postgresql-login-security.repository';
 import { InviteRepository } from './invite.repository';
 import { PostgreSQLInviteRepository } from './postgresql-invite.repository';
 import { RefreshTokenRepository } from './refresh-token.repository';
@@ -41,6 +77,12 @@ import { PaymentRepository } from './payment.repository';
 import { PostgreSQLPaymentRepository } from './postgresql-payment.repository';
 import { InvoiceRepository } from './invoice.repository';
 import { PostgreSQLInvoiceRepository } from './postgresql-invoice.repository';
+import { ReportRepository } from './report.repository';
+import { PostgreSQLReportRepository } from './postgresql-report.repository';
+import { ReceivablesRepository } from './receivables.repository';
+import { PostgreSQLReceivablesRepository } from './postgresql-receivables.repository';
+import { CatererPayableRepository } from './caterer-payable.repository';
+import { PostgreSQLCatererPayableRepository } from './postgresql-caterer-payable.repository';
 
 let airportRepository: AirportRepository | null = null;
 let catererRepository: CatererRepository | null = null;
@@ -52,6 +94,16 @@ let addonItemRepository: AddonItemRepository | null = null;
 let inventoryRepository: InventoryRepository | null = null;
 let taxChargeRepository: TaxChargeRepository | null = null;
 let fboRepository: FBORepository | null = null;
+let orderEventRepository: OrderEventRepository | null = null;
+let schedulerRepository: SchedulerRepository | null = null;
+let orderResponseTokenRepository: OrderResponseTokenRepository | null = null;
+let orderTemplateRepository: OrderTemplateRepository | null = null;
+let exchangeRateRepository: ExchangeRateRepository | null = null;
+let aircraftRepository: AircraftRepository | null = null;
+let inventoryConsumptionRepository: InventoryConsumptionRepository | null = null;
+let supplierRepository: SupplierRepository | null = null;
+let purchaseOrderRepository: PurchaseOrderRepository | null = null;
+let inventoryMovementRepository: InventoryMovementRepository | null = null;
 
 export function getAirportRepository(): AirportRepository {
   if (!airportRepository) {
@@ -193,12 +245,158 @@ export function getFBORepository(): FBORepository {
   return fboRepository;
 }
 
+export function getOrderEventRepository(): OrderEventRepository {
+  if (!orderEventRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      orderEventRepository = new InMemoryOrderEventRepository();
+    } else {
+      orderEventRepository = new PostgreSQLOrderEventRepository(getDatabase());
+    }
+  }
+  return orderEventRepository;
+}
+
+export function getSchedulerRepository(): SchedulerRepository {
+  if (!schedulerRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      schedulerRepository = new InMemorySchedulerRepository();
+    } else {
+      schedulerRepository = new PostgreSQLSchedulerRepository(getDatabase());
+    }
+  }
+  return schedulerRepository;
+}
+
+export function getOrderResponseTokenRepository(): OrderResponseTokenRepository {
+  if (!orderResponseTokenRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      orderResponseTokenRepository = new InMemoryOrderResponseTokenRepository();
+    } else {
+      orderResponseTokenRepository = new PostgreSQLOrderResponseTokenRepository(getDatabase());
+    }
+  }
+  return orderResponseTokenRepository;
+}
+
+export function getOrderTemplateRepository(): OrderTemplateRepository {
+  if (!orderTemplateRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      orderTemplateRepository = new InMemoryOrderTemplateRepository();
+    } else {
+      orderTemplateRepository = new PostgreSQLOrderTemplateRepository(getDatabase());
+    }
+  }
+  return orderTemplateRepository;
+}
+
+export function getExchangeRateRepository(): ExchangeRateRepository {
+  if (!exchangeRateRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      exchangeRateRepository = new InMemoryExchangeRateRepository();
+    } else {
+      exchangeRateRepository = new PostgreSQLExchangeRateRepository(getDatabase());
+    }
+  }
+  return exchangeRateRepository;
+}
+
+export function getAircraftRepository(): AircraftRepository {
+  if (!aircraftRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      aircraftRepository = new InMemoryAircraftRepository();
+    } else {
+      aircraftRepository = new PostgreSQLAircraftRepository(getDatabase());
+    }
+  }
+  return aircraftRepository;
+}
+
+export function getInventoryConsumptionRepository(): InventoryConsumptionRepository {
+  if (!inventoryConsumptionRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      inventoryConsumptionRepository = new InMemoryInventoryConsumptionRepository();
+    } else {
+      inventoryConsumptionRepository = new PostgreSQLInventoryConsumptionRepository(getDatabase());
+    }
+  }
+  return inventoryConsumptionRepository;
+}
+
+export function getSupplierRepository(): SupplierRepository {
+  if (!supplierRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      supplierRepository = new InMemorySupplierRepository();
+    } else {
+      supplierRepository = new PostgreSQLSupplierRepository(getDatabase());
+    }
+  }
+  return supplierRepository;
+}
+
+export function getPurchaseOrderRepository(): PurchaseOrderRepository {
+  if (!purchaseOrderRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      purchaseOrderRepository = new InMemoryPurchaseOrderRepository();
+    } else {
+      purchaseOrderRepository = new PostgreSQLPurchaseOrderRepository(getDatabase());
+    }
+  }
+  return purchaseOrderRepository;
+}
+
+export function getInventoryMovementRepository(): InventoryMovementRepository {
+  if (!inventoryMovementRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      inventoryMovementRepository = new InMemoryInventoryMovementRepository();
+    } else {
+      inventoryMovementRepository = new PostgreSQLInventoryMovementRepository(getDatabase());
+    }
+  }
+  return inventoryMovementRepository;
+}
+
 let userRepository: UserRepository | null = null;
+let roleRepository: RoleRepository | null = null;
+let twoFactorRepository: TwoFactorRepository | null = null;
+let loginSecurityRepository: LoginSecurityRepository | null = null;
 let inviteRepository: InviteRepository | null = null;
 let refreshTokenRepository: RefreshTokenRepository | null = null;
 let passwordResetRepository: PasswordResetRepository | null = null;
 let paymentRepository: PaymentRepository | null = null;
 let invoiceRepository: InvoiceRepository | null = null;
+let reportRepository: ReportRepository | null = null;
+let receivablesRepository: ReceivablesRepository | null = null;
+let catererPayableRepository: CatererPayableRepository | null = null;
 
 export function getUserRepository(): UserRepository {
   if (!userRepository) {
@@ -214,6 +412,48 @@ export function getUserRepository(): UserRepository {
   return userRepository;
 }
 
+export function getRoleRepository(): RoleRepository {
+  if (!roleRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      throw new Error('Role repository requires PostgreSQL');
+    } else {
+      roleRepository = new PostgreSQLRoleRepository(getDatabase());
+    }
+  }
+  return roleRepository;
+}
+
+export function getTwoFactorRepository(): TwoFactorRepository {
+  if (!twoFactorRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      throw new Error('Two-factor repository requires PostgreSQL');
+    } else {
+      twoFactorRepository = new PostgreSQLTwoFactorRepository(getDatabase());
+    }
+  }
+  return twoFactorRepository;
+}
+
+export function getLoginSecurityRepository(): LoginSecurityRepository {
+  if (!loginSecurityRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      throw new Error('Login security repository requires PostgreSQL');
+    } else {
+      loginSecurityRepository = new PostgreSQLLoginSecurityRepository(getDatabase());
+    }
+  }
+  return loginSecurityRepository;
+}
+
 export function getInviteRepository(): InviteRepository {
   if (!inviteRepository) {
     const dbType = process.env.DB_TYPE || 'memory';
@@ -284,3 +524,44 @@ export function getInvoiceRepository(): InvoiceRepository {
   return invoiceRepository;
 }
 
+export function getReportRepository(): ReportRepository {
+  if (!reportRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      throw new Error('Report repository requires PostgreSQL');
+    } else {
+      reportRepository = new PostgreSQLReportRepository(getDatabase());
+    }
+  }
+  return reportRepository;
+}
+
+export function getReceivablesRepository(): ReceivablesRepository {
+  if (!receivablesRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      throw new Error('Receivables repository requires PostgreSQL');
+    } else {
+      receivablesRepository = new PostgreSQLReceivablesRepository(getDatabase());
+    }
+  }
+  return receivablesRepository;
+}
+
+export function getCatererPayableRepository(): CatererPayableRepository {
+  if (!catererPayableRepository) {
+    const dbType = process.env.DB_TYPE || 'memory';
+    const nodeEnv = process.env.NODE_ENV || 'development';
+
+    if (dbType === 'memory' || (nodeEnv === 'development' && dbType !== 'postgres')) {
+      throw new Error('Caterer payable repository requires PostgreSQL');
+    } else {
+      catererPayableRepository = new PostgreSQLCatererPayableRepository(getDatabase());
+    }
+  }
+  return catererPayableRepository;
+}
@@ -0,0 +1,19 @@
+import {
+  RecipeLine,
+  RecipeLineInput,
+  InventoryReservation,
+  InventoryReservationSearchParams,
+  InventoryReservationStatus,
+  InventoryRequirement,
+} from '../models/inventory';
+
+export interface InventoryConsumptionRepository {
+  findRecipeLines(menuItemIds: number[]): Promise<RecipeLine[]>;
+  // Replaces every line of the variant's recipe
+  replaceRecipe(menuItemId: number, portionSize: string, lines: RecipeLineInput[]): Promise<RecipeLine[]>;
+  findReservations(params: InventoryReservationSearchParams): Promise<InventoryReservation[]>;
+  // Replaces the order's open (reserved) reservations; consumed and released rows are kept
+  replaceReservations(orderId: number, requirements: InventoryRequirement[]): Promise<InventoryReservation[]>;
+  // Moves the order's open reservations to consumed or released and returns them
+  closeReservations(orderId: number, status: Exclude<InventoryReservationStatus, 'reserved'>): Promise<InventoryReservation[]>;
+}
@@ -0,0 +1,19 @@
+import {
+  InventoryMovement,
+  InventoryMovementSearchParams,
+  InventoryMovementListResponse,
+  InventoryLot,
+  InventoryLotSearchParams,
+} from '../models/inventory';
+
+export interface InventoryMovementRepository {
+  // Movements are append-only; there is no update or delete
+  create(movement: InventoryMovement): Promise<InventoryMovement>;
+  // Newest first
+  findAll(params: InventoryMovementSearchParams): Promise<InventoryMovementListResponse>;
+  createLot(lot: InventoryLot): Promise<InventoryLot>;
+  findLotById(id: number): Promise<InventoryLot | null>;
+  // First-expiring-first, then oldest first; lots without an expiry date last
+  findLots(params: InventoryLotSearchParams): Promise<InventoryLot[]>;
+  updateLotQuantity(id: number, quantityRemaining: number): Promise<InventoryLot | null>;
+}
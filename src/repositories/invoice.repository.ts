@@ -1,4 +1,4 @@
-import { Invoice, CreateInvoiceDTO, UpdateInvoiceStatusDTO } from '../models/invoice';
+import { Invoice, CreateInvoiceDTO, UpdateInvoiceStatusDTO, InvoiceOrderLink } from '../models/invoice';
 
 export interface InvoiceRepository {
   create(invoice: CreateInvoiceDTO): Promise<Invoice>;
@@ -10,5 +10,7 @@ export interface InvoiceRepository {
   updatePublicUrl(id: number, publicUrl: string): Promise<Invoice | null>;
   updateEmailSent(id: number, emailSentAt: Date): Promise<Invoice | null>;
   delete(id: number): Promise<boolean>;
+  addLinkedOrders(links: InvoiceOrderLink[]): Promise<void>;
+  findLinkedOrders(invoiceId: number): Promise<InvoiceOrderLink[]>;
 }
 
@@ -0,0 +1,10 @@
+import { LoginThrottle, ThrottleScope, SecurityEvent, CreateSecurityEventDTO, SecurityEventSearchParams } from '../models/login-security';
+
+export interface LoginSecurityRepository {
+  findThrottle(scope: ThrottleScope, subject: string): Promise<LoginThrottle | null>;
+  saveThrottle(throttle: LoginThrottle): Promise<LoginThrottle>;
+  deleteThrottle(scope: ThrottleScope, subject: string): Promise<boolean>;
+  createEvent(event: CreateSecurityEventDTO): Promise<SecurityEvent>;
+  // Newest first
+  findEvents(params: SecurityEventSearchParams): Promise<SecurityEvent[]>;
+}
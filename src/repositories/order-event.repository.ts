@@ -0,0 +1,7 @@
+import { OrderEvent, CreateOrderEventDTO, OrderEventSearchParams } from '../models/order-event';
+
+export interface OrderEventRepository {
+  create(event: CreateOrderEventDTO): Promise<OrderEvent>;
+  findByOrderId(orderId: number, params?: OrderEventSearchParams): Promise<OrderEvent[]>;
+  findLatestByType(orderId: number, eventType: OrderEventSearchParams['event_type']): Promise<OrderEvent | null>;
+}
@@ -0,0 +1,13 @@
+import { OrderResponseToken, CreateOrderResponseTokenDTO, OrderResponseRecipient } from '../models/order-response';
+
+export interface OrderResponseTokenRepository {
+  create(token: CreateOrderResponseTokenDTO): Promise<OrderResponseToken>;
+  // Only returns tokens that are unused, unrevoked and not expired
+  findActiveByTokenHash(tokenHash: string): Promise<OrderResponseToken | null>;
+  // Any token with this hash, including used/expired ones (for "already responded" pages)
+  findByTokenHash(tokenHash: string): Promise<OrderResponseToken | null>;
+  markAsUsed(id: number, response: string, comments?: string | null): Promise<boolean>;
+  // Undo a claim taken for a response that did not go through (e.g. a declined card)
+  releaseClaim(id: number, response: string): Promise<boolean>;
+  revokeActiveForOrder(orderId: number, recipientType: OrderResponseRecipient): Promise<number>;
+}
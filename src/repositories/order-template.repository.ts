@@ -0,0 +1,32 @@
+import {
+  OrderTemplate,
+  CreateOrderTemplateDTO,
+  UpdateOrderTemplateDTO,
+  OrderTemplateSearchParams,
+  OrderTemplateListResponse,
+  OrderTemplateOccurrence,
+} from '../models/order-template';
+
+export interface OrderTemplateRepository {
+  create(template: CreateOrderTemplateDTO & { created_by_user_id?: number | null }): Promise<OrderTemplate>;
+  findById(id: number): Promise<OrderTemplate | null>;
+  findAll(params: OrderTemplateSearchParams): Promise<OrderTemplateListResponse>;
+  findActiveRecurring(): Promise<OrderTemplate[]>;
+  update(id: number, template: UpdateOrderTemplateDTO): Promise<OrderTemplate | null>;
+  delete(id: number): Promise<boolean>;
+  findOccurrences(templateId: number, fromDate: string, toDate: string): Promise<OrderTemplateOccurrence[]>;
+  // Skip or edit a single occurrence. Returns null if the occurrence was already generated.
+  saveOccurrence(
+    templateId: number,
+    occurrenceDate: string,
+    data: { status: 'scheduled' | 'skipped'; overrides?: OrderTemplateOccurrence['overrides'] }
+  ): Promise<OrderTemplateOccurrence | null>;
+  // Restore an occurrence to the template defaults. Generated occurrences are kept.
+  deleteOccurrence(templateId: number, occurrenceDate: string): Promise<boolean>;
+  // Mark an occurrence as generated before creating its order. Returns null when it is
+  // skipped or already generated, otherwise the row (with any overrides).
+  claimOccurrence(templateId: number, occurrenceDate: string): Promise<OrderTemplateOccurrence | null>;
+  setOccurrenceOrder(id: number, orderId: number): Promise<void>;
+  // Undo a claim whose order could not be created so the next run retries it
+  releaseOccurrence(id: number): Promise<void>;
+}
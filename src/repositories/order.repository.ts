@@ -1,4 +1,5 @@
-import { Order, OrderSearchParams, OrderListResponse, CreateOrderDTO, UpdateOrderDTO } from '../models/order';
+import { Order, OrderSearchParams, OrderListResponse, CreateOrderDTO, UpdateOrderDTO, OrderTaxLine } from '../models/order';
+import { OrderExchangeRateSnapshot } from '../models/exchange-rate';
 
 export interface OrderRepository {
   create(order: CreateOrderDTO, orderNumber: string): Promise<Order>;
@@ -14,4 +15,8 @@ export interface OrderRepository {
   savePdf(orderId: number, buffer: Buffer, filename: string, mimeType: string): Promise<void>;
   getPdf(orderId: number): Promise<{ pdf_data: Buffer; filename: string; mime_type: string; updated_at?: Date } | null>;
   incrementRevisionCount(id: number): Promise<Order | null>;
+  updateTaxes(id: number, taxBreakdown: OrderTaxLine[], taxTotal: number): Promise<number | null>;
+  updateExchangeRate(id: number, snapshot: OrderExchangeRateSnapshot): Promise<Order | null>;
+  updateDeliveryInstant(id: number, deliveryAt: Date | null, timeZone: string): Promise<void>;
+  refreshDeliveryInstantsForAirport(airportId: number, timeZone: string): Promise<number>;
 }
@@ -1,10 +1,13 @@
 import { PasswordResetOTP } from '../models/user';
 
 export interface PasswordResetRepository {
-  create(otp: { user_id: number; otp_hash: string; expires_at: Date }): Promise<PasswordResetOTP>;
+  create(otp: { user_id: number; otp_hash: string; expires_at: Date; request_count?: number }): Promise<PasswordResetOTP>;
   findByUserId(userId: number): Promise<PasswordResetOTP | null>;
+  // Latest unexpired OTP whether used or not, for the request cap
+  findLatestByUserId(userId: number): Promise<PasswordResetOTP | null>;
   markAsUsed(id: number): Promise<void>;
   incrementRequestCount(id: number): Promise<void>;
+  incrementAttemptCount(id: number): Promise<number>; // Returns the new count
   deleteExpired(): Promise<number>;
 }
 
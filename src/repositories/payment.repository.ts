@@ -1,4 +1,4 @@
-import { PaymentTransaction, StoredCard, CreatePaymentTransactionDTO, CreateStoredCardDTO } from '../models/payment';
+import { PaymentTransaction, StoredCard, PaymentRefund, CreatePaymentTransactionDTO, CreateStoredCardDTO, CreatePaymentRefundDTO } from '../models/payment';
 
 export interface PaymentRepository {
   createTransaction(transaction: CreatePaymentTransactionDTO): Promise<PaymentTransaction>;
@@ -14,5 +14,11 @@ export interface PaymentRepository {
   updateStoredCard(id: number, updates: Partial<CreateStoredCardDTO>): Promise<StoredCard | null>;
   deleteStoredCard(id: number): Promise<boolean>;
   setDefaultCard(clientId: number, cardId: number): Promise<void>;
+
+  createRefund(refund: CreatePaymentRefundDTO): Promise<PaymentRefund>;
+  findRefundBySquareRefundId(squareRefundId: string): Promise<PaymentRefund | null>;
+  findRefundsByTransactionId(transactionId: number): Promise<PaymentRefund[]>;
+  findRefundsByOrderId(orderId: number): Promise<PaymentRefund[]>;
+  updateRefundStatus(id: number, status: 'pending' | 'completed' | 'rejected' | 'failed', errorMessage?: string): Promise<PaymentRefund | null>;
 }
 
@@ -187,6 +187,10 @@ export class PostgreSQLAddonItemRepository implements AddonItemRepository {
       updates.push(`image_url = $${paramIndex++}`);
       values.push(addonItemData.image_url || null);
     }
+    if (addonItemData.image_thumbnail_url !== undefined) {
+      updates.push(`image_thumbnail_url = $${paramIndex++}`);
+      values.push(addonItemData.image_thumbnail_url || null);
+    }
     if (addonItemData.is_active !== undefined) {
       updates.push(`is_active = $${paramIndex++}`);
       values.push(addonItemData.is_active);
@@ -0,0 +1,147 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { Aircraft, AircraftSearchParams, AircraftListResponse, CreateAircraftDTO, UpdateAircraftDTO } from '../models/aircraft';
+import { AircraftRepository } from './aircraft.repository';
+
+export class PostgreSQLAircraftRepository implements AircraftRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(aircraft: CreateAircraftDTO): Promise<Aircraft> {
+    const query = `
+      INSERT INTO aircraft (
+        tail_number, aircraft_type, client_id, operator_name,
+        oven_type, storage_limits, galley_notes,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      aircraft.tail_number,
+      aircraft.aircraft_type || null,
+      aircraft.client_id || null,
+      aircraft.operator_name || null,
+      aircraft.oven_type || null,
+      aircraft.storage_limits || null,
+      aircraft.galley_notes || null,
+    ]);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<Aircraft | null> {
+    const result = await this.db.query('SELECT * FROM aircraft WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByTailNumber(tailNumber: string): Promise<Aircraft | null> {
+    const result = await this.db.query('SELECT * FROM aircraft WHERE tail_number = $1', [tailNumber.toUpperCase()]);
+    return result.rows[0] || null;
+  }
+
+  async findAll(params: AircraftSearchParams): Promise<AircraftListResponse> {
+    const limit = params.limit || 50;
+    const offset = params.page && params.limit ? (params.page - 1) * params.limit : 0;
+
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (params.search) {
+      conditions.push(`(
+        tail_number ILIKE $${paramIndex} OR
+        aircraft_type ILIKE $${paramIndex} OR
+        operator_name ILIKE $${paramIndex}
+      )`);
+      queryParams.push(`%${params.search}%`);
+      paramIndex++;
+    }
+    if (params.client_id) {
+      conditions.push(`client_id = $${paramIndex++}`);
+      queryParams.push(params.client_id);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Build ORDER BY clause with SQL injection protection
+    const allowedSortFields = ['id', 'tail_number', 'aircraft_type', 'operator_name', 'created_at', 'updated_at'];
+    const sortBy = allowedSortFields.includes(params.sortBy || '') ? params.sortBy : 'tail_number';
+    const sortOrder = params.sortOrder === 'desc' ? 'DESC' : 'ASC';
+
+    const countResult = await this.db.query(`SELECT COUNT(*) as total FROM aircraft ${whereClause}`, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    const dataQuery = `
+      SELECT * FROM aircraft
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `;
+    const result = await this.db.query(dataQuery, [...queryParams, limit, offset]);
+
+    return {
+      aircraft: result.rows,
+      total,
+      page: params.page || Math.floor(offset / limit) + 1,
+      limit,
+    };
+  }
+
+  async update(id: number, aircraft: UpdateAircraftDTO): Promise<Aircraft | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (aircraft.tail_number !== undefined) {
+      updates.push(`tail_number = $${paramIndex++}`);
+      values.push(aircraft.tail_number);
+    }
+    if (aircraft.aircraft_type !== undefined) {
+      updates.push(`aircraft_type = $${paramIndex++}`);
+      values.push(aircraft.aircraft_type || null);
+    }
+    if (aircraft.client_id !== undefined) {
+      updates.push(`client_id = $${paramIndex++}`);
+      values.push(aircraft.client_id || null);
+    }
+    if (aircraft.operator_name !== undefined) {
+      updates.push(`operator_name = $${paramIndex++}`);
+      values.push(aircraft.operator_name || null);
+    }
+    if (aircraft.oven_type !== undefined) {
+      updates.push(`oven_type = $${paramIndex++}`);
+      values.push(aircraft.oven_type || null);
+    }
+    if (aircraft.storage_limits !== undefined) {
+      updates.push(`storage_limits = $${paramIndex++}`);
+      values.push(aircraft.storage_limits || null);
+    }
+    if (aircraft.galley_notes !== undefined) {
+      updates.push(`galley_notes = $${paramIndex++}`);
+      values.push(aircraft.galley_notes || null);
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    updates.push(`updated_at = NOW()`);
+    values.push(id);
+
+    const query = `
+      UPDATE aircraft
+      SET ${updates.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    const result = await this.db.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM aircraft WHERE id = $1', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async count(): Promise<number> {
+    const result = await this.db.query('SELECT COUNT(*) as total FROM aircraft');
+    return parseInt(result.rows[0].total);
+  }
+}
@@ -8,15 +8,16 @@ export class PostgreSQLAirportRepository implements AirportRepository {
   async create(airport: CreateAirportDTO): Promise<Airport> {
     const query = `
       INSERT INTO airports (
-        airport_name, airport_code_iata, airport_code_icao,
+        airport_name, airport_code_iata, airport_code_icao, time_zone,
         created_at, updated_at
-      ) VALUES ($1, $2, $3, NOW(), NOW())
+      ) VALUES ($1, $2, $3, $4, NOW(), NOW())
       RETURNING *
     `;
     const result = await this.db.query(query, [
       airport.airport_name,
       airport.airport_code_iata || null,
       airport.airport_code_icao || null,
+      airport.time_zone || null,
     ]);
     return result.rows[0];
   }
@@ -45,7 +46,7 @@ export class PostgreSQLAirportRepository implements AirportRepository {
     }
 
     // Build ORDER BY clause with SQL injection protection
-    const allowedSortFields = ['id', 'airport_name', 'airport_code_iata', 'airport_code_icao', 'created_at', 'updated_at'];
+    const allowedSortFields = ['id', 'airport_name', 'airport_code_iata', 'airport_code_icao', 'time_zone', 'created_at', 'updated_at'];
     const sortBy = allowedSortFields.includes(params.sortBy || '') ? params.sortBy : 'airport_name';
     const sortOrder = params.sortOrder === 'desc' ? 'DESC' : 'ASC';
     const orderBy = `ORDER BY ${sortBy} ${sortOrder}`;
@@ -93,6 +94,10 @@ export class PostgreSQLAirportRepository implements AirportRepository {
       updates.push(`airport_code_icao = $${paramIndex++}`);
       values.push(airport.airport_code_icao || null);
     }
+    if (airport.time_zone !== undefined) {
+      updates.push(`time_zone = $${paramIndex++}`);
+      values.push(airport.time_zone || null);
+    }
 
     if (updates.length === 0) {
       return this.findById(id);
@@ -170,6 +170,10 @@ export class PostgreSQLCategoryRepository implements CategoryRepository {
       updates.push(`image_url = $${paramIndex++}`);
       values.push(categoryData.image_url || null);
     }
+    if (categoryData.image_thumbnail_url !== undefined) {
+      updates.push(`image_thumbnail_url = $${paramIndex++}`);
+      values.push(categoryData.image_thumbnail_url || null);
+    }
     if (categoryData.icon !== undefined) {
       updates.push(`icon = $${paramIndex++}`);
       values.push(categoryData.icon || null);
@@ -0,0 +1,238 @@
+import { DatabaseAdapter } from '../database/adapter';
+import {
+  CatererPayableOrder,
+  CatererPayableSearchParams,
+  CatererBill,
+  CatererBillSearchParams,
+  CreateCatererBillDTO,
+  CatererBillStatus,
+} from '../models/caterer-payable';
+import { CatererPayableRepository } from './caterer-payable.repository';
+
+// Item quantity is stored in portion_size; anything that isn't a plain number counts as 1
+const ITEM_QUANTITY = `CASE WHEN oi.portion_size ~ '^[0-9]+([.][0-9]+)?$' THEN oi.portion_size::numeric ELSE 1 END`;
+
+export class PostgreSQLCatererPayableRepository implements CatererPayableRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async findPayableOrders(params: CatererPayableSearchParams): Promise<CatererPayableOrder[]> {
+    const conditions: string[] = ["o.status <> 'cancelled'", 'o.caterer_id IS NOT NULL'];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    conditions.push(`o.delivery_date >= $${paramIndex++}`);
+    values.push(params.date_from);
+    conditions.push(`o.delivery_date <= $${paramIndex++}`);
+    values.push(params.date_to);
+
+    if (params.caterer_id) {
+      conditions.push(`o.caterer_id = $${paramIndex++}`);
+      values.push(params.caterer_id);
+    }
+    if (params.client_id) {
+      conditions.push(`o.client_id = $${paramIndex++}`);
+      values.push(params.client_id);
+    }
+    if (params.payable_status === 'unbilled') {
+      conditions.push('o.caterer_bill_id IS NULL');
+    } else if (params.payable_status) {
+      conditions.push(`b.status = $${paramIndex++}`);
+      values.push(params.payable_status);
+    }
+    if (params.order_ids) {
+      conditions.push(`o.id = ANY($${paramIndex++}::int[])`);
+      values.push(params.order_ids);
+    }
+
+    return this.queryPayableOrders(`WHERE ${conditions.join(' AND ')}`, values);
+  }
+
+  async findBillOrders(billId: number): Promise<CatererPayableOrder[]> {
+    return this.queryPayableOrders('WHERE o.caterer_bill_id = $1', [billId]);
+  }
+
+  async findBills(params: CatererBillSearchParams): Promise<CatererBill[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (params.caterer_id) {
+      conditions.push(`b.caterer_id = $${paramIndex++}`);
+      values.push(params.caterer_id);
+    }
+    if (params.status) {
+      conditions.push(`b.status = $${paramIndex++}`);
+      values.push(params.status);
+    }
+    if (params.date_from) {
+      conditions.push(`b.period_end >= $${paramIndex++}`);
+      values.push(params.date_from);
+    }
+    if (params.date_to) {
+      conditions.push(`b.period_start <= $${paramIndex++}`);
+      values.push(params.date_to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.db.query(`
+      ${this.billSelect()}
+      ${where}
+      ORDER BY b.period_start DESC, b.id DESC
+    `, values);
+
+    return result.rows.map((row: any) => this.mapRowToBill(row));
+  }
+
+  async findBillById(id: number): Promise<CatererBill | null> {
+    const result = await this.db.query(`${this.billSelect()} WHERE b.id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToBill(result.rows[0]);
+  }
+
+  async createBill(
+    data: CreateCatererBillDTO,
+    orderIds: number[],
+    amount: number,
+    currency: string,
+    createdBy: number
+  ): Promise<CatererBill> {
+    const result = await this.db.query(`
+      INSERT INTO caterer_bills (caterer_id, bill_number, period_start, period_end, amount, currency, status, notes, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, 'billed', $7, $8)
+      RETURNING id
+    `, [
+      data.caterer_id,
+      data.bill_number || null,
+      data.period_start,
+      data.period_end,
+      amount,
+      currency,
+      data.notes || null,
+      createdBy,
+    ]);
+    const billId = result.rows[0].id;
+
+    await this.db.query(
+      'UPDATE orders SET caterer_bill_id = $1, updated_at = NOW() WHERE id = ANY($2::int[])',
+      [billId, orderIds]
+    );
+
+    return (await this.findBillById(billId))!;
+  }
+
+  async updateBillStatus(
+    id: number,
+    status: CatererBillStatus,
+    paidAt: Date | null,
+    paymentReference?: string
+  ): Promise<CatererBill | null> {
+    const result = await this.db.query(`
+      UPDATE caterer_bills
+      SET status = $1, paid_at = $2, payment_reference = COALESCE($3, payment_reference), updated_at = NOW()
+      WHERE id = $4
+      RETURNING id
+    `, [status, paidAt, paymentReference || null, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.findBillById(id);
+  }
+
+  async deleteBill(id: number): Promise<boolean> {
+    await this.db.query('UPDATE orders SET caterer_bill_id = NULL, updated_at = NOW() WHERE caterer_bill_id = $1', [id]);
+    const result = await this.db.query('DELETE FROM caterer_bills WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  private async queryPayableOrders(where: string, values: any[]): Promise<CatererPayableOrder[]> {
+    const query = `
+      WITH item_costs AS (
+        SELECT
+          oi.order_id,
+          COALESCE(SUM(oi.caterer_cost * ${ITEM_QUANTITY}), 0) AS caterer_cost,
+          COUNT(*) FILTER (WHERE oi.caterer_cost IS NULL) AS items_missing_cost
+        FROM order_items oi
+        GROUP BY oi.order_id
+      )
+      SELECT
+        o.id, o.order_number, o.caterer_id, COALESCE(c.caterer_name, o.caterer) AS caterer_name,
+        o.client_id, o.client_name, to_char(o.delivery_date, 'YYYY-MM-DD') AS delivery_date, o.status,
+        o.currency, o.subtotal, o.total - COALESCE(o.tax_total, 0) AS revenue,
+        COALESCE(ic.caterer_cost, 0) AS caterer_cost, COALESCE(ic.items_missing_cost, 0) AS items_missing_cost,
+        o.caterer_bill_id, b.status AS bill_status
+      FROM orders o
+      LEFT JOIN caterers c ON c.id = o.caterer_id
+      LEFT JOIN item_costs ic ON ic.order_id = o.id
+      LEFT JOIN caterer_bills b ON b.id = o.caterer_bill_id
+      ${where}
+      ORDER BY o.delivery_date ASC, o.id ASC
+    `;
+
+    const result = await this.db.query(query, values);
+    return result.rows.map((row: any) => this.mapRowToPayableOrder(row));
+  }
+
+  private billSelect(): string {
+    return `
+      SELECT b.*, to_char(b.period_start, 'YYYY-MM-DD') AS period_start_date,
+        to_char(b.period_end, 'YYYY-MM-DD') AS period_end_date,
+        c.caterer_name,
+        (SELECT COUNT(*) FROM orders o WHERE o.caterer_bill_id = b.id) AS order_count
+      FROM caterer_bills b
+      LEFT JOIN caterers c ON c.id = b.caterer_id
+    `;
+  }
+
+  private mapRowToPayableOrder(row: any): CatererPayableOrder {
+    const revenue = parseFloat(row.revenue);
+    const catererCost = parseFloat(row.caterer_cost);
+    const margin = Math.round((revenue - catererCost) * 100) / 100;
+
+    return {
+      order_id: row.id,
+      order_number: row.order_number,
+      caterer_id: row.caterer_id,
+      caterer_name: row.caterer_name,
+      client_id: row.client_id,
+      client_name: row.client_name,
+      delivery_date: row.delivery_date,
+      status: row.status,
+      currency: row.currency,
+      item_revenue: parseFloat(row.subtotal),
+      revenue,
+      caterer_cost: catererCost,
+      items_missing_cost: parseInt(row.items_missing_cost),
+      margin,
+      margin_percent: revenue > 0 ? Math.round((margin / revenue) * 10000) / 100 : null,
+      payable_status: row.bill_status || 'unbilled',
+      caterer_bill_id: row.caterer_bill_id,
+    };
+  }
+
+  private mapRowToBill(row: any): CatererBill {
+    return {
+      id: row.id,
+      caterer_id: row.caterer_id,
+      caterer_name: row.caterer_name || undefined,
+      bill_number: row.bill_number,
+      period_start: row.period_start_date,
+      period_end: row.period_end_date,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      status: row.status,
+      notes: row.notes,
+      payment_reference: row.payment_reference,
+      paid_at: row.paid_at,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      order_count: parseInt(row.order_count),
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { ExchangeRate, ExchangeRateSearchParams } from '../models/exchange-rate';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+
+const EXCHANGE_RATE_COLUMNS = `
+  id, base_currency, quote_currency, rate, to_char(effective_date, 'YYYY-MM-DD') AS effective_date,
+  source, created_by, created_at, updated_at
+`;
+
+export class PostgreSQLExchangeRateRepository implements ExchangeRateRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async upsert(rate: Omit<ExchangeRate, 'id' | 'created_at' | 'updated_at'>): Promise<ExchangeRate> {
+    const query = `
+      INSERT INTO exchange_rates (base_currency, quote_currency, rate, effective_date, source, created_by, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+      ON CONFLICT (base_currency, quote_currency, effective_date)
+      DO UPDATE SET rate = EXCLUDED.rate, source = EXCLUDED.source, created_by = EXCLUDED.created_by, updated_at = NOW()
+      RETURNING ${EXCHANGE_RATE_COLUMNS}
+    `;
+    const result = await this.db.query(query, [
+      rate.base_currency,
+      rate.quote_currency,
+      rate.rate,
+      rate.effective_date,
+      rate.source,
+      rate.created_by || null,
+    ]);
+    return this.mapRowToExchangeRate(result.rows[0]);
+  }
+
+  async findById(id: number): Promise<ExchangeRate | null> {
+    const result = await this.db.query(`SELECT ${EXCHANGE_RATE_COLUMNS} FROM exchange_rates WHERE id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToExchangeRate(result.rows[0]);
+  }
+
+  async findAll(params: ExchangeRateSearchParams): Promise<ExchangeRate[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (params.base_currency) {
+      conditions.push(`base_currency = $${paramIndex++}`);
+      values.push(params.base_currency);
+    }
+    if (params.quote_currency) {
+      conditions.push(`quote_currency = $${paramIndex++}`);
+      values.push(params.quote_currency);
+    }
+    if (params.date_from) {
+      conditions.push(`effective_date >= $${paramIndex++}`);
+      values.push(params.date_from);
+    }
+    if (params.date_to) {
+      conditions.push(`effective_date <= $${paramIndex++}`);
+      values.push(params.date_to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    values.push(params.limit || 100);
+
+    const result = await this.db.query(`
+      SELECT ${EXCHANGE_RATE_COLUMNS}
+      FROM exchange_rates
+      ${where}
+      ORDER BY exchange_rates.effective_date DESC, base_currency ASC, quote_currency ASC
+      LIMIT $${paramIndex}
+    `, values);
+
+    return result.rows.map((row: any) => this.mapRowToExchangeRate(row));
+  }
+
+  async findLatest(baseCurrency: string, quoteCurrency: string, onOrBefore: string): Promise<ExchangeRate | null> {
+    const result = await this.db.query(`
+      SELECT ${EXCHANGE_RATE_COLUMNS}
+      FROM exchange_rates
+      WHERE base_currency = $1 AND quote_currency = $2 AND exchange_rates.effective_date <= $3
+      ORDER BY exchange_rates.effective_date DESC
+      LIMIT 1
+    `, [baseCurrency, quoteCurrency, onOrBefore]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToExchangeRate(result.rows[0]);
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM exchange_rates WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  private mapRowToExchangeRate(row: any): ExchangeRate {
+    return {
+      id: row.id,
+      base_currency: row.base_currency,
+      quote_currency: row.quote_currency,
+      rate: parseFloat(row.rate),
+      effective_date: row.effective_date,
+      source: row.source,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
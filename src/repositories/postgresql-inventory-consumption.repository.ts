@@ -0,0 +1,128 @@
+import { DatabaseAdapter } from '../database/adapter';
+import {
+  RecipeLine,
+  RecipeLineInput,
+  InventoryReservation,
+  InventoryReservationSearchParams,
+  InventoryReservationStatus,
+  InventoryRequirement,
+} from '../models/inventory';
+import { InventoryConsumptionRepository } from './inventory-consumption.repository';
+
+export class PostgreSQLInventoryConsumptionRepository implements InventoryConsumptionRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async findRecipeLines(menuItemIds: number[]): Promise<RecipeLine[]> {
+    if (menuItemIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.db.query(`
+      SELECT r.*, i.item_name AS inventory_item_name, i.unit
+      FROM menu_item_recipe_lines r
+      JOIN inventory_items i ON i.id = r.inventory_item_id
+      WHERE r.menu_item_id = ANY($1::int[])
+      ORDER BY r.menu_item_id ASC, r.portion_size ASC, r.id ASC
+    `, [menuItemIds]);
+
+    return result.rows.map((row: any) => this.mapRowToRecipeLine(row));
+  }
+
+  async replaceRecipe(menuItemId: number, portionSize: string, lines: RecipeLineInput[]): Promise<RecipeLine[]> {
+    await this.db.query(
+      'DELETE FROM menu_item_recipe_lines WHERE menu_item_id = $1 AND portion_size = $2',
+      [menuItemId, portionSize]
+    );
+
+    for (const line of lines) {
+      await this.db.query(`
+        INSERT INTO menu_item_recipe_lines (menu_item_id, portion_size, inventory_item_id, quantity)
+        VALUES ($1, $2, $3, $4)
+      `, [menuItemId, portionSize, line.inventory_item_id, line.quantity]);
+    }
+
+    const recipeLines = await this.findRecipeLines([menuItemId]);
+    return recipeLines.filter(line => line.portion_size === portionSize);
+  }
+
+  async findReservations(params: InventoryReservationSearchParams): Promise<InventoryReservation[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (params.order_id !== undefined) {
+      conditions.push(`order_id = $${paramIndex++}`);
+      values.push(params.order_id);
+    }
+    if (params.inventory_item_id !== undefined) {
+      conditions.push(`inventory_item_id = $${paramIndex++}`);
+      values.push(params.inventory_item_id);
+    }
+    if (params.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(params.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.db.query(`
+      SELECT * FROM inventory_reservations
+      ${where}
+      ORDER BY order_id ASC, id ASC
+    `, values);
+
+    return result.rows.map((row: any) => this.mapRowToReservation(row));
+  }
+
+  async replaceReservations(orderId: number, requirements: InventoryRequirement[]): Promise<InventoryReservation[]> {
+    await this.db.query(
+      "DELETE FROM inventory_reservations WHERE order_id = $1 AND status = 'reserved'",
+      [orderId]
+    );
+
+    for (const requirement of requirements) {
+      await this.db.query(`
+        INSERT INTO inventory_reservations (order_id, inventory_item_id, quantity, status)
+        VALUES ($1, $2, $3, 'reserved')
+      `, [orderId, requirement.inventory_item_id, requirement.quantity]);
+    }
+
+    return this.findReservations({ order_id: orderId, status: 'reserved' });
+  }
+
+  async closeReservations(orderId: number, status: Exclude<InventoryReservationStatus, 'reserved'>): Promise<InventoryReservation[]> {
+    const result = await this.db.query(`
+      UPDATE inventory_reservations
+      SET status = $1, updated_at = NOW()
+      WHERE order_id = $2 AND status = 'reserved'
+      RETURNING *
+    `, [status, orderId]);
+
+    return result.rows.map((row: any) => this.mapRowToReservation(row));
+  }
+
+  private mapRowToRecipeLine(row: any): RecipeLine {
+    return {
+      id: row.id,
+      menu_item_id: row.menu_item_id,
+      portion_size: row.portion_size,
+      inventory_item_id: row.inventory_item_id,
+      inventory_item_name: row.inventory_item_name,
+      unit: row.unit,
+      quantity: parseFloat(row.quantity),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private mapRowToReservation(row: any): InventoryReservation {
+    return {
+      id: row.id,
+      order_id: row.order_id,
+      inventory_item_id: row.inventory_item_id,
+      quantity: parseFloat(row.quantity),
+      status: row.status,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { DatabaseAdapter } from '../database/adapter';
+import {
+  InventoryMovement,
+  InventoryMovementSearchParams,
+  InventoryMovementListResponse,
+  InventoryLot,
+  InventoryLotSearchParams,
+} from '../models/inventory';
+import { InventoryMovementRepository } from './inventory-movement.repository';
+
+const LOT_COLUMNS = `*, to_char(expiry_date, 'YYYY-MM-DD') AS expiry_date_text`;
+
+export class PostgreSQLInventoryMovementRepository implements InventoryMovementRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(movement: InventoryMovement): Promise<InventoryMovement> {
+    const result = await this.db.query(`
+      INSERT INTO inventory_movements (
+        inventory_item_id, movement_type, quantity, stock_after, lot_id, lot_number, expiry_date,
+        location, to_location, order_id, purchase_order_id, purchase_order_line_id, notes, created_by, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
+      RETURNING ${LOT_COLUMNS}
+    `, [
+      movement.inventory_item_id,
+      movement.movement_type,
+      movement.quantity,
+      movement.stock_after,
+      movement.lot_id || null,
+      movement.lot_number || null,
+      movement.expiry_date || null,
+      movement.location || null,
+      movement.to_location || null,
+      movement.order_id || null,
+      movement.purchase_order_id || null,
+      movement.purchase_order_line_id || null,
+      movement.notes || null,
+      movement.created_by || null,
+    ]);
+
+    return this.mapRowToMovement(result.rows[0]);
+  }
+
+  async findAll(params: InventoryMovementSearchParams): Promise<InventoryMovementListResponse> {
+    const limit = params.limit || 50;
+    const page = params.page || 1;
+    const offset = (page - 1) * limit;
+
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (params.inventory_item_id) {
+      conditions.push(`inventory_item_id = $${paramIndex++}`);
+      queryParams.push(params.inventory_item_id);
+    }
+    if (params.purchase_order_id) {
+      conditions.push(`purchase_order_id = $${paramIndex++}`);
+      queryParams.push(params.purchase_order_id);
+    }
+    if (params.order_id) {
+      conditions.push(`order_id = $${paramIndex++}`);
+      queryParams.push(params.order_id);
+    }
+    if (params.lot_id) {
+      conditions.push(`lot_id = $${paramIndex++}`);
+      queryParams.push(params.lot_id);
+    }
+    if (params.movement_type) {
+      conditions.push(`movement_type = $${paramIndex++}`);
+      queryParams.push(params.movement_type);
+    }
+    if (params.created_by) {
+      conditions.push(`created_by = $${paramIndex++}`);
+      queryParams.push(params.created_by);
+    }
+    if (params.date_from) {
+      conditions.push(`created_at >= $${paramIndex++}::date`);
+      queryParams.push(params.date_from);
+    }
+    if (params.date_to) {
+      conditions.push(`created_at < $${paramIndex++}::date + INTERVAL '1 day'`);
+      queryParams.push(params.date_to);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.db.query(`SELECT COUNT(*) as total FROM inventory_movements ${whereClause}`, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    const result = await this.db.query(`
+      SELECT ${LOT_COLUMNS} FROM inventory_movements
+      ${whereClause}
+      ORDER BY id DESC
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `, [...queryParams, limit, offset]);
+
+    return {
+      movements: result.rows.map((row: any) => this.mapRowToMovement(row)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async createLot(lot: InventoryLot): Promise<InventoryLot> {
+    const result = await this.db.query(`
+      INSERT INTO inventory_lots (
+        inventory_item_id, lot_number, expiry_date, location, quantity_received, quantity_remaining,
+        purchase_order_line_id, received_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, NOW()), NOW(), NOW())
+      RETURNING ${LOT_COLUMNS}
+    `, [
+      lot.inventory_item_id,
+      lot.lot_number || null,
+      lot.expiry_date || null,
+      lot.location || null,
+      lot.quantity_received,
+      lot.quantity_remaining,
+      lot.purchase_order_line_id || null,
+      lot.received_at || null,
+    ]);
+
+    return this.mapRowToLot(result.rows[0]);
+  }
+
+  async findLotById(id: number): Promise<InventoryLot | null> {
+    const result = await this.db.query(`SELECT ${LOT_COLUMNS} FROM inventory_lots WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? this.mapRowToLot(result.rows[0]) : null;
+  }
+
+  async findLots(params: InventoryLotSearchParams): Promise<InventoryLot[]> {
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (params.inventory_item_id) {
+      conditions.push(`inventory_item_id = $${paramIndex++}`);
+      queryParams.push(params.inventory_item_id);
+    }
+    if (params.location !== undefined) {
+      if (params.location) {
+        conditions.push(`location = $${paramIndex++}`);
+        queryParams.push(params.location);
+      } else {
+        conditions.push('location IS NULL');
+      }
+    }
+    if (params.available_only) {
+      conditions.push('quantity_remaining > 0');
+    }
+    if (params.expiring_by) {
+      conditions.push(`expiry_date <= $${paramIndex++}`);
+      queryParams.push(params.expiring_by);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.db.query(`
+      SELECT ${LOT_COLUMNS} FROM inventory_lots
+      ${whereClause}
+      ORDER BY expiry_date ASC NULLS LAST, received_at ASC, id ASC
+    `, queryParams);
+
+    return result.rows.map((row: any) => this.mapRowToLot(row));
+  }
+
+  async updateLotQuantity(id: number, quantityRemaining: number): Promise<InventoryLot | null> {
+    const result = await this.db.query(`
+      UPDATE inventory_lots
+      SET quantity_remaining = $1, updated_at = NOW()
+      WHERE id = $2
+      RETURNING ${LOT_COLUMNS}
+    `, [quantityRemaining, id]);
+
+    return result.rows.length > 0 ? this.mapRowToLot(result.rows[0]) : null;
+  }
+
+  private mapRowToMovement(row: any): InventoryMovement {
+    return {
+      id: row.id,
+      inventory_item_id: row.inventory_item_id,
+      movement_type: row.movement_type,
+      quantity: parseFloat(row.quantity),
+      stock_after: parseFloat(row.stock_after),
+      lot_id: row.lot_id,
+      lot_number: row.lot_number,
+      expiry_date: row.expiry_date_text,
+      location: row.location,
+      to_location: row.to_location,
+      order_id: row.order_id,
+      purchase_order_id: row.purchase_order_id,
+      purchase_order_line_id: row.purchase_order_line_id,
+      notes: row.notes || undefined,
+      created_by: row.created_by,
+      created_at: row.created_at,
+    };
+  }
+
+  private mapRowToLot(row: any): InventoryLot {
+    return {
+      id: row.id,
+      inventory_item_id: row.inventory_item_id,
+      lot_number: row.lot_number,
+      expiry_date: row.expiry_date_text,
+      location: row.location,
+      quantity_received: parseFloat(row.quantity_received),
+      quantity_remaining: parseFloat(row.quantity_remaining),
+      purchase_order_line_id: row.purchase_order_line_id,
+      received_at: row.received_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
@@ -19,8 +19,8 @@ export class PostgreSQLInventoryRepository implements InventoryRepository {
     const query = `
       INSERT INTO inventory_items (
         item_name, category, current_stock, min_stock_level, max_stock_level,
-        unit, unit_price, supplier, location, notes, last_updated, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW(), NOW())
+        unit, unit_price, supplier, supplier_id, location, notes, last_updated, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW(), NOW())
       RETURNING *
     `;
     
@@ -33,6 +33,7 @@ export class PostgreSQLInventoryRepository implements InventoryRepository {
       inventoryItemData.unit,
       inventoryItemData.unit_price || null,
       inventoryItemData.supplier || null,
+      inventoryItemData.supplier_id || null,
       inventoryItemData.location || null,
       inventoryItemData.notes || null,
     ]);
@@ -81,6 +82,12 @@ export class PostgreSQLInventoryRepository implements InventoryRepository {
       paramIndex++;
     }
 
+    if (params.supplier_id) {
+      whereConditions.push(`supplier_id = $${paramIndex}`);
+      queryParams.push(params.supplier_id);
+      paramIndex++;
+    }
+
     if (params.status && params.status !== 'all') {
       // Status is calculated, so we need to filter in application logic
       // For now, we'll filter after fetching
@@ -166,6 +173,10 @@ export class PostgreSQLInventoryRepository implements InventoryRepository {
       updates.push(`supplier = $${paramIndex++}`);
       values.push(inventoryItemData.supplier || null);
     }
+    if (inventoryItemData.supplier_id !== undefined) {
+      updates.push(`supplier_id = $${paramIndex++}`);
+      values.push(inventoryItemData.supplier_id || null);
+    }
     if (inventoryItemData.location !== undefined) {
       updates.push(`location = $${paramIndex++}`);
       values.push(inventoryItemData.location || null);
@@ -1,5 +1,5 @@
 import { DatabaseAdapter } from '../database/adapter';
-import { Invoice, CreateInvoiceDTO, UpdateInvoiceStatusDTO } from '../models/invoice';
+import { Invoice, CreateInvoiceDTO, UpdateInvoiceStatusDTO, InvoiceOrderLink } from '../models/invoice';
 import { InvoiceRepository } from './invoice.repository';
 
 export class PostgreSQLInvoiceRepository implements InvoiceRepository {
@@ -22,6 +22,7 @@ export class PostgreSQLInvoiceRepository implements InvoiceRepository {
       created_at: row.created_at ? new Date(row.created_at) : undefined,
       updated_at: row.updated_at ? new Date(row.updated_at) : undefined,
       paid_at: row.paid_at ? new Date(row.paid_at) : undefined,
+      is_consolidated: row.is_consolidated === true,
     };
   }
 
@@ -30,8 +31,8 @@ export class PostgreSQLInvoiceRepository implements InvoiceRepository {
       INSERT INTO invoices (
         order_id, square_invoice_id, public_url, reference_id, status,
         amount, currency, delivery_method, recipient_email, email_sent_at,
-        created_by, created_at, updated_at, paid_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW(), $12)
+        created_by, created_at, updated_at, paid_at, is_consolidated
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW(), $12, $13)
       RETURNING *
     `;
     
@@ -48,6 +49,7 @@ export class PostgreSQLInvoiceRepository implements InvoiceRepository {
       invoice.email_sent_at || null,
       invoice.created_by,
       invoice.paid_at || null,
+      invoice.is_consolidated || false,
     ]);
     
     return this.mapRowToInvoice(result.rows[0]);
@@ -76,7 +78,13 @@ export class PostgreSQLInvoiceRepository implements InvoiceRepository {
   }
 
   async findByOrderId(orderId: number): Promise<Invoice[]> {
-    const query = 'SELECT * FROM invoices WHERE order_id = $1 ORDER BY created_at DESC';
+    // Includes consolidated invoices the order is linked to
+    const query = `
+      SELECT * FROM invoices
+      WHERE order_id = $1
+        OR id IN (SELECT invoice_id FROM invoice_orders WHERE order_id = $1)
+      ORDER BY created_at DESC
+    `;
     const result = await this.db.query(query, [orderId]);
     
     return result.rows.map((row: any) => this.mapRowToInvoice(row));
@@ -164,5 +172,33 @@ export class PostgreSQLInvoiceRepository implements InvoiceRepository {
     const result = await this.db.query(query, [id]);
     return (result.rowCount || 0) > 0;
   }
-}
 
+  async addLinkedOrders(links: InvoiceOrderLink[]): Promise<void> {
+    if (links.length === 0) {
+      return;
+    }
+
+    const values: any[] = [];
+    let paramIndex = 1;
+    const placeholders = links.map(link => {
+      values.push(link.invoice_id, link.order_id, link.amount);
+      return `($${paramIndex++}, $${paramIndex++}, $${paramIndex++})`;
+    });
+
+    await this.db.query(
+      `INSERT INTO invoice_orders (invoice_id, order_id, amount) VALUES ${placeholders.join(', ')}`,
+      values
+    );
+  }
+
+  async findLinkedOrders(invoiceId: number): Promise<InvoiceOrderLink[]> {
+    const query = 'SELECT * FROM invoice_orders WHERE invoice_id = $1 ORDER BY id ASC';
+    const result = await this.db.query(query, [invoiceId]);
+
+    return result.rows.map((row: any) => ({
+      invoice_id: row.invoice_id,
+      order_id: row.order_id,
+      amount: parseFloat(row.amount),
+    }));
+  }
+}
@@ -0,0 +1,93 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { LoginThrottle, ThrottleScope, SecurityEvent, CreateSecurityEventDTO, SecurityEventSearchParams } from '../models/login-security';
+import { LoginSecurityRepository } from './login-security.repository';
+
+export class PostgreSQLLoginSecurityRepository implements LoginSecurityRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async findThrottle(scope: ThrottleScope, subject: string): Promise<LoginThrottle | null> {
+    const result = await this.db.query('SELECT * FROM login_throttles WHERE scope = $1 AND subject = $2', [scope, subject]);
+    return result.rows[0] ? this.mapThrottleRow(result.rows[0]) : null;
+  }
+
+  async saveThrottle(throttle: LoginThrottle): Promise<LoginThrottle> {
+    const query = `
+      INSERT INTO login_throttles (scope, subject, failure_count, last_failure_at, locked_until)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (scope, subject) DO UPDATE SET
+        failure_count = EXCLUDED.failure_count,
+        last_failure_at = EXCLUDED.last_failure_at,
+        locked_until = EXCLUDED.locked_until
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      throttle.scope,
+      throttle.subject,
+      throttle.failure_count,
+      throttle.last_failure_at,
+      throttle.locked_until,
+    ]);
+    return this.mapThrottleRow(result.rows[0]);
+  }
+
+  async deleteThrottle(scope: ThrottleScope, subject: string): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM login_throttles WHERE scope = $1 AND subject = $2', [scope, subject]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createEvent(event: CreateSecurityEventDTO): Promise<SecurityEvent> {
+    const query = `
+      INSERT INTO security_events (event_type, email, ip, user_agent, details, created_at)
+      VALUES ($1, $2, $3, $4, $5, NOW())
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      event.event_type,
+      event.email ?? null,
+      event.ip ?? null,
+      event.user_agent ?? null,
+      event.details ? JSON.stringify(event.details) : null,
+    ]);
+    return this.mapEventRow(result.rows[0]);
+  }
+
+  async findEvents(params: SecurityEventSearchParams): Promise<SecurityEvent[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (params.email) {
+      conditions.push(`email = $${paramIndex++}`);
+      values.push(params.email);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    values.push(params.limit || 50);
+
+    const query = `
+      SELECT * FROM security_events
+      ${whereClause}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${paramIndex}
+    `;
+    const result = await this.db.query(query, values);
+    return result.rows.map((row: any) => this.mapEventRow(row));
+  }
+
+  private mapThrottleRow(row: any): LoginThrottle {
+    return {
+      scope: row.scope,
+      subject: row.subject,
+      failure_count: parseInt(row.failure_count, 10),
+      last_failure_at: new Date(row.last_failure_at),
+      locked_until: row.locked_until ? new Date(row.locked_until) : null,
+    };
+  }
+
+  private mapEventRow(row: any): SecurityEvent {
+    return {
+      ...row,
+      details: typeof row.details === 'string' ? JSON.parse(row.details) : row.details ?? null,
+    };
+  }
+}
@@ -26,8 +26,8 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
     const itemQuery = `
       INSERT INTO menu_items (
         item_name, item_description, food_type, category_id, image_url,
-        tax_rate, service_charge, is_active, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+        tax_rate, service_charge, is_active, allergens, dietary_tags, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
       RETURNING *
     `;
     
@@ -40,6 +40,8 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
       menuItemData.tax_rate || null,
       menuItemData.service_charge || null,
       menuItemData.is_active !== undefined ? menuItemData.is_active : true,
+      menuItemData.allergens || null,
+      menuItemData.dietary_tags || null,
     ]);
 
     const menuItem = itemResult.rows[0];
@@ -60,8 +62,8 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
         const variant = variantsToInsert[i];
         const variantQuery = `
           INSERT INTO menu_item_variants (
-            menu_item_id, portion_size, price, sort_order
-          ) VALUES ($1, $2, $3, $4)
+            menu_item_id, portion_size, price, sort_order, allergens, dietary_tags
+          ) VALUES ($1, $2, $3, $4, $5, $6)
           RETURNING *
         `;
         const variantResult = await this.db.query(variantQuery, [
@@ -69,6 +71,8 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
           variant.portion_size,
           variant.price,
           i,
+          variant.allergens || null,
+          variant.dietary_tags || null,
         ]);
         const insertedVariant = variantResult.rows[0];
         
@@ -201,6 +205,23 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
       paramIndex++;
     }
 
+    // Items with allergen data where neither the item nor any variant has an excluded allergen
+    if (params.exclude_allergens && params.exclude_allergens.length > 0) {
+      whereConditions.push(`(mi.allergens IS NOT NULL AND NOT (mi.allergens && $${paramIndex}::text[])
+        AND NOT EXISTS (
+          SELECT 1 FROM menu_item_variants v
+          WHERE v.menu_item_id = mi.id AND v.allergens && $${paramIndex}::text[]
+        ))`);
+      queryParams.push(params.exclude_allergens);
+      paramIndex++;
+    }
+
+    if (params.dietary_tag) {
+      whereConditions.push(`$${paramIndex} = ANY(mi.dietary_tags)`);
+      queryParams.push(params.dietary_tag);
+      paramIndex++;
+    }
+
     const whereClause = whereConditions.length > 0 
       ? `WHERE ${whereConditions.join(' AND ')}`
       : '';
@@ -315,6 +336,10 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
       updates.push(`image_url = $${paramIndex++}`);
       values.push(menuItemData.image_url || null);
     }
+    if (menuItemData.image_thumbnail_url !== undefined) {
+      updates.push(`image_thumbnail_url = $${paramIndex++}`);
+      values.push(menuItemData.image_thumbnail_url || null);
+    }
     if (menuItemData.tax_rate !== undefined) {
       updates.push(`tax_rate = $${paramIndex++}`);
       values.push(menuItemData.tax_rate || null);
@@ -327,6 +352,14 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
       updates.push(`is_active = $${paramIndex++}`);
       values.push(menuItemData.is_active);
     }
+    if (menuItemData.allergens !== undefined) {
+      updates.push(`allergens = $${paramIndex++}`);
+      values.push(menuItemData.allergens);
+    }
+    if (menuItemData.dietary_tags !== undefined) {
+      updates.push(`dietary_tags = $${paramIndex++}`);
+      values.push(menuItemData.dietary_tags);
+    }
 
     // Handle variants update
     // Determine variants to update - if price is provided without variants, create a default variant
@@ -358,15 +391,17 @@ export class PostgreSQLMenuItemRepository implements MenuItemRepository {
       for (let i = 0; i < variantsToUpdate.length; i++) {
         const variant = variantsToUpdate[i];
         const variantInsertQuery = `
-          INSERT INTO menu_item_variants (menu_item_id, portion_size, price, sort_order)
-          VALUES ($1, $2, $3, $4)
+          INSERT INTO menu_item_variants (menu_item_id, portion_size, price, sort_order, allergens, dietary_tags)
+          VALUES ($1, $2, $3, $4, $5, $6)
           RETURNING id
         `;
         const variantInsertResult = await this.db.query(variantInsertQuery, [
           id, 
           variant.portion_size, 
           variant.price, 
-          i
+          i,
+          variant.allergens || null,
+          variant.dietary_tags || null,
         ]);
         const variantId = variantInsertResult.rows[0].id;
         
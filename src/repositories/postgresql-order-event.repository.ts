@@ -0,0 +1,80 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { OrderEvent, CreateOrderEventDTO, OrderEventSearchParams } from '../models/order-event';
+import { OrderEventRepository } from './order-event.repository';
+
+export class PostgreSQLOrderEventRepository implements OrderEventRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(event: CreateOrderEventDTO): Promise<OrderEvent> {
+    const query = `
+      INSERT INTO order_events (
+        order_id, event_type, actor_user_id, before, after, metadata, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      event.order_id,
+      event.event_type,
+      event.actor_user_id ?? null,
+      event.before ? JSON.stringify(event.before) : null,
+      event.after ? JSON.stringify(event.after) : null,
+      event.metadata ? JSON.stringify(event.metadata) : null,
+    ]);
+
+    return this.mapRowToEvent(result.rows[0]);
+  }
+
+  async findByOrderId(orderId: number, params: OrderEventSearchParams = {}): Promise<OrderEvent[]> {
+    const conditions: string[] = ['e.order_id = $1'];
+    const values: any[] = [orderId];
+    let paramIndex = 2;
+
+    if (params.event_type) {
+      const types = Array.isArray(params.event_type) ? params.event_type : [params.event_type];
+      conditions.push(`e.event_type = ANY($${paramIndex++})`);
+      values.push(types);
+    }
+
+    if (params.since) {
+      conditions.push(`e.created_at > $${paramIndex++}`);
+      values.push(params.since);
+    }
+
+    const sortOrder = params.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    let query = `
+      SELECT e.*, u.email AS actor_email
+      FROM order_events e
+      LEFT JOIN users u ON u.id = e.actor_user_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY e.created_at ${sortOrder}, e.id ${sortOrder}
+    `;
+
+    if (params.limit) {
+      query += ` LIMIT $${paramIndex++}`;
+      values.push(params.limit);
+    }
+
+    const result = await this.db.query(query, values);
+    return result.rows.map((row: any) => this.mapRowToEvent(row));
+  }
+
+  async findLatestByType(orderId: number, eventType: OrderEventSearchParams['event_type']): Promise<OrderEvent | null> {
+    const events = await this.findByOrderId(orderId, { event_type: eventType, sortOrder: 'desc', limit: 1 });
+    return events[0] || null;
+  }
+
+  private mapRowToEvent(row: any): OrderEvent {
+    return {
+      id: row.id,
+      order_id: row.order_id,
+      event_type: row.event_type,
+      actor_user_id: row.actor_user_id,
+      actor_email: row.actor_email || null,
+      before: row.before,
+      after: row.after,
+      metadata: row.metadata,
+      created_at: row.created_at,
+    };
+  }
+}
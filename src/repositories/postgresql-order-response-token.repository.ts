@@ -0,0 +1,72 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { OrderResponseToken, CreateOrderResponseTokenDTO, OrderResponseRecipient } from '../models/order-response';
+import { OrderResponseTokenRepository } from './order-response-token.repository';
+
+export class PostgreSQLOrderResponseTokenRepository implements OrderResponseTokenRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(token: CreateOrderResponseTokenDTO): Promise<OrderResponseToken> {
+    const query = `
+      INSERT INTO order_response_tokens (
+        order_id, recipient_type, recipient_email, token_hash, expires_at,
+        created_by_user_id, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      token.order_id,
+      token.recipient_type,
+      token.recipient_email,
+      token.token_hash,
+      token.expires_at,
+      token.created_by_user_id || null,
+    ]);
+    return result.rows[0];
+  }
+
+  async findActiveByTokenHash(tokenHash: string): Promise<OrderResponseToken | null> {
+    const query = `
+      SELECT * FROM order_response_tokens
+      WHERE token_hash = $1 AND used_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()
+    `;
+    const result = await this.db.query(query, [tokenHash]);
+    return result.rows[0] || null;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<OrderResponseToken | null> {
+    const query = 'SELECT * FROM order_response_tokens WHERE token_hash = $1';
+    const result = await this.db.query(query, [tokenHash]);
+    return result.rows[0] || null;
+  }
+
+  async markAsUsed(id: number, response: string, comments?: string | null): Promise<boolean> {
+    // used_at IS NULL guards against two concurrent submissions of the same link
+    const query = `
+      UPDATE order_response_tokens
+      SET used_at = NOW(), response = $1, comments = $2
+      WHERE id = $3 AND used_at IS NULL
+    `;
+    const result = await this.db.query(query, [response, comments || null, id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async releaseClaim(id: number, response: string): Promise<boolean> {
+    const query = `
+      UPDATE order_response_tokens
+      SET used_at = NULL, response = NULL, comments = NULL
+      WHERE id = $1 AND response = $2 AND used_at IS NOT NULL
+    `;
+    const result = await this.db.query(query, [id, response]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async revokeActiveForOrder(orderId: number, recipientType: OrderResponseRecipient): Promise<number> {
+    const query = `
+      UPDATE order_response_tokens
+      SET revoked_at = NOW()
+      WHERE order_id = $1 AND recipient_type = $2 AND used_at IS NULL AND revoked_at IS NULL
+    `;
+    const result = await this.db.query(query, [orderId, recipientType]);
+    return result.rowCount || 0;
+  }
+}
@@ -0,0 +1,252 @@
+import { DatabaseAdapter } from '../database/adapter';
+import {
+  OrderTemplate,
+  CreateOrderTemplateDTO,
+  UpdateOrderTemplateDTO,
+  OrderTemplateSearchParams,
+  OrderTemplateListResponse,
+  OrderTemplateOccurrence,
+} from '../models/order-template';
+import { OrderTemplateRepository } from './order-template.repository';
+
+export class PostgreSQLOrderTemplateRepository implements OrderTemplateRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(template: CreateOrderTemplateDTO & { created_by_user_id?: number | null }): Promise<OrderTemplate> {
+    const query = `
+      INSERT INTO order_templates (
+        name, client_id, order_data, recurrence, generate_days_ahead, is_active,
+        created_by_user_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      template.name,
+      template.order_data.client_id,
+      JSON.stringify(template.order_data),
+      template.recurrence ? JSON.stringify(template.recurrence) : null,
+      template.generate_days_ahead ?? 7,
+      template.is_active !== undefined ? template.is_active : true,
+      template.created_by_user_id || null,
+    ]);
+
+    return this.mapRowToTemplate(result.rows[0]);
+  }
+
+  async findById(id: number): Promise<OrderTemplate | null> {
+    const result = await this.db.query('SELECT * FROM order_templates WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToTemplate(result.rows[0]);
+  }
+
+  async findAll(params: OrderTemplateSearchParams): Promise<OrderTemplateListResponse> {
+    const limit = params.limit || 50;
+    const page = params.page || 1;
+    const offset = (page - 1) * limit;
+
+    const whereConditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (params.search) {
+      whereConditions.push(`name ILIKE $${paramIndex++}`);
+      queryParams.push(`%${params.search}%`);
+    }
+
+    if (params.client_id) {
+      whereConditions.push(`client_id = $${paramIndex++}`);
+      queryParams.push(params.client_id);
+    }
+
+    if (params.is_active !== undefined) {
+      whereConditions.push(`is_active = $${paramIndex++}`);
+      queryParams.push(params.is_active);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const countResult = await this.db.query(`SELECT COUNT(*) as total FROM order_templates ${whereClause}`, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    const query = `
+      SELECT * FROM order_templates
+      ${whereClause}
+      ORDER BY name ASC, id ASC
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const result = await this.db.query(query, [...queryParams, limit, offset]);
+
+    return {
+      templates: result.rows.map((row: any) => this.mapRowToTemplate(row)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findActiveRecurring(): Promise<OrderTemplate[]> {
+    const result = await this.db.query(
+      'SELECT * FROM order_templates WHERE is_active = true AND recurrence IS NOT NULL ORDER BY id ASC'
+    );
+    return result.rows.map((row: any) => this.mapRowToTemplate(row));
+  }
+
+  async update(id: number, template: UpdateOrderTemplateDTO): Promise<OrderTemplate | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (template.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      values.push(template.name);
+    }
+    if (template.order_data !== undefined) {
+      updates.push(`order_data = $${paramIndex++}`);
+      values.push(JSON.stringify(template.order_data));
+      updates.push(`client_id = $${paramIndex++}`);
+      values.push(template.order_data.client_id);
+    }
+    if (template.recurrence !== undefined) {
+      updates.push(`recurrence = $${paramIndex++}`);
+      values.push(template.recurrence ? JSON.stringify(template.recurrence) : null);
+    }
+    if (template.generate_days_ahead !== undefined) {
+      updates.push(`generate_days_ahead = $${paramIndex++}`);
+      values.push(template.generate_days_ahead);
+    }
+    if (template.is_active !== undefined) {
+      updates.push(`is_active = $${paramIndex++}`);
+      values.push(template.is_active);
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    updates.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `UPDATE order_templates SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`;
+    const result = await this.db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToTemplate(result.rows[0]);
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM order_templates WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async findOccurrences(templateId: number, fromDate: string, toDate: string): Promise<OrderTemplateOccurrence[]> {
+    const query = `
+      SELECT * FROM order_template_occurrences
+      WHERE template_id = $1 AND occurrence_date >= $2 AND occurrence_date <= $3
+      ORDER BY occurrence_date ASC
+    `;
+    const result = await this.db.query(query, [templateId, fromDate, toDate]);
+    return result.rows.map((row: any) => this.mapRowToOccurrence(row));
+  }
+
+  async saveOccurrence(
+    templateId: number,
+    occurrenceDate: string,
+    data: { status: 'scheduled' | 'skipped'; overrides?: OrderTemplateOccurrence['overrides'] }
+  ): Promise<OrderTemplateOccurrence | null> {
+    const query = `
+      INSERT INTO order_template_occurrences (template_id, occurrence_date, status, overrides, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, NOW(), NOW())
+      ON CONFLICT (template_id, occurrence_date) DO UPDATE
+        SET status = EXCLUDED.status,
+            overrides = COALESCE(EXCLUDED.overrides, order_template_occurrences.overrides),
+            updated_at = NOW()
+        WHERE order_template_occurrences.status <> 'generated'
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      templateId,
+      occurrenceDate,
+      data.status,
+      data.overrides ? JSON.stringify(data.overrides) : null,
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToOccurrence(result.rows[0]);
+  }
+
+  async deleteOccurrence(templateId: number, occurrenceDate: string): Promise<boolean> {
+    const result = await this.db.query(
+      `DELETE FROM order_template_occurrences
+       WHERE template_id = $1 AND occurrence_date = $2 AND status <> 'generated'`,
+      [templateId, occurrenceDate]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  async claimOccurrence(templateId: number, occurrenceDate: string): Promise<OrderTemplateOccurrence | null> {
+    const query = `
+      INSERT INTO order_template_occurrences (template_id, occurrence_date, status, created_at, updated_at)
+      VALUES ($1, $2, 'generated', NOW(), NOW())
+      ON CONFLICT (template_id, occurrence_date) DO UPDATE
+        SET status = 'generated', updated_at = NOW()
+        WHERE order_template_occurrences.status = 'scheduled'
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [templateId, occurrenceDate]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToOccurrence(result.rows[0]);
+  }
+
+  async setOccurrenceOrder(id: number, orderId: number): Promise<void> {
+    await this.db.query(
+      'UPDATE order_template_occurrences SET order_id = $1, updated_at = NOW() WHERE id = $2',
+      [orderId, id]
+    );
+  }
+
+  async releaseOccurrence(id: number): Promise<void> {
+    await this.db.query(
+      `UPDATE order_template_occurrences SET status = 'scheduled', order_id = NULL, updated_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  private mapRowToTemplate(row: any): OrderTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      order_data: row.order_data,
+      recurrence: row.recurrence || null,
+      generate_days_ahead: row.generate_days_ahead,
+      is_active: row.is_active,
+      created_by_user_id: row.created_by_user_id,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private mapRowToOccurrence(row: any): OrderTemplateOccurrence {
+    // DATE columns come back as local-midnight Date objects
+    const date = row.occurrence_date instanceof Date
+      ? `${row.occurrence_date.getFullYear()}-${String(row.occurrence_date.getMonth() + 1).padStart(2, '0')}-${String(row.occurrence_date.getDate()).padStart(2, '0')}`
+      : String(row.occurrence_date).slice(0, 10);
+
+    return {
+      id: row.id,
+      template_id: row.template_id,
+      occurrence_date: date,
+      status: row.status,
+      overrides: row.overrides,
+      order_id: row.order_id,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
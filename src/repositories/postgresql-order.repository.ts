@@ -1,6 +1,9 @@
 import { DatabaseAdapter } from '../database/adapter';
-import { Order, OrderItem, OrderSearchParams, OrderListResponse, CreateOrderDTO, UpdateOrderDTO, getOrderTypeFromAlias, OrderType } from '../models/order';
+import { Order, OrderItem, OrderAddon, OrderAddonInput, OrderSearchParams, OrderListResponse, CreateOrderDTO, UpdateOrderDTO, getOrderTypeFromAlias, OrderType, OrderTaxLine } from '../models/order';
+import { OrderExchangeRateSnapshot } from '../models/exchange-rate';
 import { OrderRepository } from './order.repository';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { zonedTimeToUtc } from '../utils/timezone';
 
 export class PostgreSQLOrderRepository implements OrderRepository {
   constructor(private db: DatabaseAdapter) {}
@@ -75,7 +78,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
     const subtotal = orderData.items.reduce((sum, item) => {
       const qty = parseFloat(item.portion_size) || 1;
       return sum + (item.price * qty);
-    }, 0);
+    }, 0) + (orderData.addons || []).reduce((sum, addon) => sum + (addon.price || 0) * addon.quantity, 0);
     const serviceCharge = orderData.service_charge || 0;
     const deliveryFee = orderData.delivery_fee || 0;
     const coordinationFee = orderData.coordination_fee || 0;
@@ -90,13 +93,14 @@ export class PostgreSQLOrderRepository implements OrderRepository {
     const orderQuery = `
       INSERT INTO orders (
         order_number, client_id, caterer_id, airport_id, fbo_id, client_name, caterer, airport, aircraft_tail_number,
+        aircraft_id, passenger_count, crew_count,
         delivery_date, delivery_time, order_priority, payment_method, status, order_type,
         description, notes, reheating_instructions, packaging_instructions,
-        dietary_restrictions, delivery_fee, service_charge, coordination_fee, 
+        dietary_restrictions, dietary_requirements, delivery_fee, service_charge, coordination_fee, 
         airport_fee, fbo_fee, shopping_fee, restaurant_pickup_fee, airport_pickup_fee,
-        subtotal, total,
+        subtotal, total, currency,
         created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, NOW(), NOW())
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, NOW(), NOW())
       RETURNING *
     `;
     
@@ -110,6 +114,9 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       orderData.caterer,
       orderData.airport,
       orderData.aircraft_tail_number || null,
+      orderData.aircraft_id || null,
+      orderData.passenger_count ?? null,
+      orderData.crew_count ?? null,
       orderData.delivery_date,
       orderData.delivery_time,
       orderData.order_priority,
@@ -121,6 +128,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       orderData.reheating_instructions || null,
       orderData.packaging_instructions || null,
       orderData.dietary_restrictions || null,
+      JSON.stringify(orderData.dietary_requirements || []),
       deliveryFee,
       serviceCharge,
       coordinationFee,
@@ -131,6 +139,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       airportPickupFee,
       subtotal,
       total,
+      orderData.currency || DEFAULT_CURRENCY,
     ]);
 
     const order = orderResult.rows[0];
@@ -141,8 +150,9 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       const item = orderData.items[i];
       const itemQuery = `
         INSERT INTO order_items (
-          order_id, menu_item_id, item_name, item_description, portion_size, portion_serving, price, category, packaging, sort_order
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          order_id, menu_item_id, item_name, item_description, portion_size, portion_serving, price, category, packaging, sort_order, caterer_cost, meal_for,
+          allergens, dietary_tags
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
         RETURNING *
       `;
       const itemResult = await this.db.query(itemQuery, [
@@ -156,13 +166,20 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         item.category || null,
         item.packaging || null,
         i,
+        item.caterer_cost ?? null,
+        item.meal_for || null,
+        item.allergens || null,
+        item.dietary_tags || null,
       ]);
       items.push(itemResult.rows[0]);
     }
 
+    const addons = await this.insertAddons(order.id, orderData.addons || []);
+
     return {
       ...order,
       items,
+      addons,
     };
   }
 
@@ -186,14 +203,22 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         a.airport_name,
         a.airport_code_iata,
         a.airport_code_icao,
+        a.time_zone as airport_time_zone,
         f.fbo_name,
         f.fbo_email,
-        f.fbo_phone
+        f.fbo_phone,
+        ac.tail_number as ac_tail_number,
+        ac.aircraft_type as ac_aircraft_type,
+        ac.operator_name as ac_operator_name,
+        ac.oven_type as ac_oven_type,
+        ac.storage_limits as ac_storage_limits,
+        ac.galley_notes as ac_galley_notes
       FROM orders o
       LEFT JOIN clients c ON o.client_id = c.id
       LEFT JOIN caterers cat ON o.caterer_id = cat.id
       LEFT JOIN airports a ON o.airport_id = a.id
       LEFT JOIN fbos f ON o.fbo_id = f.id
+      LEFT JOIN aircraft ac ON o.aircraft_id = ac.id
       WHERE o.id = $1
     `;
     const orderResult = await this.db.query(orderQuery, [id]);
@@ -224,9 +249,16 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       airport_name,
       airport_code_iata,
       airport_code_icao,
+      airport_time_zone,
       fbo_name,
       fbo_email,
       fbo_phone,
+      ac_tail_number,
+      ac_aircraft_type,
+      ac_operator_name,
+      ac_oven_type,
+      ac_storage_limits,
+      ac_galley_notes,
       ...orderFields
     } = row;
     
@@ -257,6 +289,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         airport_name: row.airport_name,
         airport_code_iata: row.airport_code_iata,
         airport_code_icao: row.airport_code_icao,
+        time_zone: row.airport_time_zone || undefined,
       } : undefined,
       fbo: row.fbo_name ? {
         id: row.fbo_id,
@@ -264,6 +297,15 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         fbo_email: row.fbo_email,
         fbo_phone: row.fbo_phone,
       } : undefined,
+      aircraft: row.ac_tail_number ? {
+        id: row.aircraft_id,
+        tail_number: row.ac_tail_number,
+        aircraft_type: row.ac_aircraft_type,
+        operator_name: row.ac_operator_name,
+        oven_type: row.ac_oven_type,
+        storage_limits: row.ac_storage_limits,
+        galley_notes: row.ac_galley_notes,
+      } : undefined,
     };
 
     // Get order items with menu details
@@ -285,6 +327,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         packaging: item.packaging || undefined,
       };
     });
+    order.addons = (await this.findAddonsByOrderIds([id])).get(id) || [];
 
     return order;
   }
@@ -382,14 +425,22 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         a.airport_name,
         a.airport_code_iata,
         a.airport_code_icao,
+        a.time_zone as airport_time_zone,
         f.fbo_name,
         f.fbo_email,
-        f.fbo_phone
+        f.fbo_phone,
+        ac.tail_number as ac_tail_number,
+        ac.aircraft_type as ac_aircraft_type,
+        ac.operator_name as ac_operator_name,
+        ac.oven_type as ac_oven_type,
+        ac.storage_limits as ac_storage_limits,
+        ac.galley_notes as ac_galley_notes
       FROM orders o
       LEFT JOIN clients c ON o.client_id = c.id
       LEFT JOIN caterers cat ON o.caterer_id = cat.id
       LEFT JOIN airports a ON o.airport_id = a.id
       LEFT JOIN fbos f ON o.fbo_id = f.id
+      LEFT JOIN aircraft ac ON o.aircraft_id = ac.id
       ${whereClause}
       ${orderBy}
       LIMIT $${limitParam} OFFSET $${offsetParam}
@@ -422,6 +473,13 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         fbo_phone,
         airport_code_iata,
         airport_code_icao,
+        airport_time_zone,
+        ac_tail_number,
+        ac_aircraft_type,
+        ac_operator_name,
+        ac_oven_type,
+        ac_storage_limits,
+        ac_galley_notes,
         ...orderFields
       } = row;
       
@@ -452,6 +510,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
           airport_name: row.airport_name,
           airport_code_iata: row.airport_code_iata,
           airport_code_icao: row.airport_code_icao,
+          time_zone: row.airport_time_zone || undefined,
         } : undefined,
         fbo: row.fbo_name ? {
           id: row.fbo_id,
@@ -459,6 +518,15 @@ export class PostgreSQLOrderRepository implements OrderRepository {
           fbo_email: row.fbo_email,
           fbo_phone: row.fbo_phone,
         } : undefined,
+        aircraft: row.ac_tail_number ? {
+          id: row.aircraft_id,
+          tail_number: row.ac_tail_number,
+          aircraft_type: row.ac_aircraft_type,
+          operator_name: row.ac_operator_name,
+          oven_type: row.ac_oven_type,
+          storage_limits: row.ac_storage_limits,
+          galley_notes: row.ac_galley_notes,
+        } : undefined,
         items: [], // Will be populated below
       };
       return order;
@@ -492,10 +560,13 @@ export class PostgreSQLOrderRepository implements OrderRepository {
         });
       });
 
-      // Assign items to orders
+      const addonsByOrderId = await this.findAddonsByOrderIds(orderIds);
+
+      // Assign items and add-ons to orders
       orders.forEach((order: Order) => {
         if (order.id) {
           order.items = itemsByOrderId.get(order.id) || [];
+          order.addons = addonsByOrderId.get(order.id) || [];
         }
       });
     }
@@ -548,6 +619,18 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       updates.push(`aircraft_tail_number = $${paramIndex++}`);
       values.push(orderData.aircraft_tail_number || null);
     }
+    if (orderData.aircraft_id !== undefined) {
+      updates.push(`aircraft_id = $${paramIndex++}`);
+      values.push(orderData.aircraft_id || null);
+    }
+    if (orderData.passenger_count !== undefined) {
+      updates.push(`passenger_count = $${paramIndex++}`);
+      values.push(orderData.passenger_count ?? null);
+    }
+    if (orderData.crew_count !== undefined) {
+      updates.push(`crew_count = $${paramIndex++}`);
+      values.push(orderData.crew_count ?? null);
+    }
     if (orderData.delivery_date !== undefined) {
       updates.push(`delivery_date = $${paramIndex++}`);
       values.push(orderData.delivery_date);
@@ -568,6 +651,10 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       updates.push(`status = $${paramIndex++}`);
       values.push(orderData.status);
     }
+    if (orderData.currency !== undefined) {
+      updates.push(`currency = $${paramIndex++}`);
+      values.push(orderData.currency);
+    }
     if (orderData.description !== undefined) {
       updates.push(`description = $${paramIndex++}`);
       values.push(orderData.description || null);
@@ -588,6 +675,10 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       updates.push(`dietary_restrictions = $${paramIndex++}`);
       values.push(orderData.dietary_restrictions || null);
     }
+    if (orderData.dietary_requirements !== undefined) {
+      updates.push(`dietary_requirements = $${paramIndex++}`);
+      values.push(JSON.stringify(orderData.dietary_requirements || []));
+    }
     if (orderData.service_charge !== undefined) {
       updates.push(`service_charge = $${paramIndex++}`);
       values.push(orderData.service_charge);
@@ -643,8 +734,8 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       for (let i = 0; i < orderData.items.length; i++) {
         const item = orderData.items[i];
         await this.db.query(
-          `INSERT INTO order_items (order_id, menu_item_id, item_name, item_description, portion_size, portion_serving, price, category, packaging, sort_order)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          `INSERT INTO order_items (order_id, menu_item_id, item_name, item_description, portion_size, portion_serving, price, category, packaging, sort_order, caterer_cost, meal_for, allergens, dietary_tags)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
           [
             id,
             item.menu_item_id || null,
@@ -656,20 +747,34 @@ export class PostgreSQLOrderRepository implements OrderRepository {
             item.category || null,
             item.packaging || null,
             i,
+            item.caterer_cost ?? null,
+            item.meal_for || null,
+            item.allergens || null,
+            item.dietary_tags || null,
           ]
         );
       }
     }
 
-    // Recalculate subtotal and total if items or any fee changed
+    // An empty addons array removes all add-ons
+    if (orderData.addons !== undefined) {
+      await this.db.query('DELETE FROM order_addons WHERE order_id = $1', [id]);
+      await this.insertAddons(id, orderData.addons);
+    }
+
+    // Recalculate subtotal and total if items, add-ons or any fee changed
     const feeChanged = orderData.service_charge !== undefined || orderData.delivery_fee !== undefined || 
       orderData.coordination_fee !== undefined || orderData.airport_fee !== undefined ||
       orderData.fbo_fee !== undefined || orderData.shopping_fee !== undefined ||
       orderData.restaurant_pickup_fee !== undefined || orderData.airport_pickup_fee !== undefined;
     
-    if (orderData.items || feeChanged) {
-      // Calculate subtotal as sum of (price * quantity) for each item
-      const itemsQuery = 'SELECT SUM(price * COALESCE(portion_size::numeric, 1)) as subtotal FROM order_items WHERE order_id = $1';
+    if (orderData.items || orderData.addons || feeChanged) {
+      // Calculate subtotal as sum of (price * quantity) for each item and add-on
+      const itemsQuery = `
+        SELECT
+          (SELECT COALESCE(SUM(price * COALESCE(portion_size::numeric, 1)), 0) FROM order_items WHERE order_id = $1)
+          + (SELECT COALESCE(SUM(price * quantity), 0) FROM order_addons WHERE order_id = $1) as subtotal
+      `;
       const itemsResult = await this.db.query(itemsQuery, [id]);
       const subtotal = parseFloat(itemsResult.rows[0].subtotal || '0');
       
@@ -701,11 +806,12 @@ export class PostgreSQLOrderRepository implements OrderRepository {
       
       updates.push(`subtotal = $${paramIndex++}`);
       values.push(subtotal);
-      updates.push(`total = $${paramIndex++}`);
+      // Keep the previously applied taxes in the total until the pricing engine recalculates them
+      updates.push(`total = $${paramIndex++} + COALESCE(tax_total, 0)`);
       values.push(subtotal + serviceCharge + deliveryFee + coordinationFee + airportFee + fboFee + shoppingFee + restaurantPickupFee + airportPickupFee);
     }
 
-    if (updates.length === 0 && !orderData.items) {
+    if (updates.length === 0 && !orderData.items && !orderData.addons) {
       return this.findById(id);
     }
 
@@ -763,7 +869,7 @@ export class PostgreSQLOrderRepository implements OrderRepository {
   }
 
   async delete(id: number): Promise<boolean> {
-    // Order items will be cascade deleted
+    // Order items and add-ons will be cascade deleted
     const query = 'DELETE FROM orders WHERE id = $1';
     const result = await this.db.query(query, [id]);
     return result.rowCount > 0;
@@ -789,6 +895,93 @@ export class PostgreSQLOrderRepository implements OrderRepository {
     return this.findById(id);
   }
 
+  /**
+   * Store the computed tax breakdown and recalculate the order total to include it.
+   * Returns the new total, or null if the order does not exist.
+   */
+  async updateTaxes(id: number, taxBreakdown: OrderTaxLine[], taxTotal: number): Promise<number | null> {
+    const query = `
+      UPDATE orders
+      SET tax_breakdown = $1,
+          tax_total = $2,
+          total = subtotal + service_charge + delivery_fee + coordination_fee + airport_fee + fbo_fee
+            + shopping_fee + restaurant_pickup_fee + airport_pickup_fee + $2,
+          updated_at = NOW()
+      WHERE id = $3
+      RETURNING total
+    `;
+    const result = await this.db.query(query, [JSON.stringify(taxBreakdown), taxTotal, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return parseFloat(result.rows[0].total);
+  }
+
+  async updateDeliveryInstant(id: number, deliveryAt: Date | null, timeZone: string): Promise<void> {
+    await this.db.query(
+      'UPDATE orders SET delivery_at = $1, delivery_time_zone = $2 WHERE id = $3',
+      [deliveryAt, timeZone, id]
+    );
+  }
+
+  /**
+   * Re-pin open orders at an airport after its time zone changed. Delivered and cancelled
+   * orders keep the instant they were fulfilled against. Instants are computed with
+   * zonedTimeToUtc so DST gaps and overlaps resolve the same way as everywhere else.
+   */
+  async refreshDeliveryInstantsForAirport(airportId: number, timeZone: string): Promise<number> {
+    const result = await this.db.query(`
+      SELECT id, to_char(delivery_date, 'YYYY-MM-DD') AS delivery_date, delivery_time
+      FROM orders
+      WHERE airport_id = $1
+        AND status NOT IN ('delivered', 'cancelled')
+        AND delivery_date IS NOT NULL
+        AND delivery_time IS NOT NULL
+    `, [airportId]);
+
+    let updated = 0;
+    for (const row of result.rows) {
+      const deliveryAt = zonedTimeToUtc(row.delivery_date, row.delivery_time, timeZone);
+      if (!deliveryAt) {
+        continue;
+      }
+      await this.updateDeliveryInstant(row.id, deliveryAt, timeZone);
+      updated++;
+    }
+    return updated;
+  }
+
+  /**
+   * Store the exchange rate captured when the order was quoted.
+   */
+  async updateExchangeRate(id: number, snapshot: OrderExchangeRateSnapshot): Promise<Order | null> {
+    const query = `
+      UPDATE orders
+      SET exchange_rate = $1,
+          exchange_rate_base = $2,
+          exchange_rate_date = $3,
+          exchange_rate_captured_at = $4,
+          updated_at = NOW()
+      WHERE id = $5
+      RETURNING id
+    `;
+    const result = await this.db.query(query, [
+      snapshot.exchange_rate,
+      snapshot.exchange_rate_base,
+      snapshot.exchange_rate_date,
+      snapshot.exchange_rate_captured_at,
+      id,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
   async deleteMany(ids: number[]): Promise<number> {
     if (ids.length === 0) return 0;
     const placeholders = ids.map((_, i) => `$${i + 1}`).join(',');
@@ -828,4 +1021,56 @@ export class PostgreSQLOrderRepository implements OrderRepository {
     }
     return result.rows[0];
   }
+
+  private async insertAddons(orderId: number, addons: OrderAddonInput[]): Promise<OrderAddon[]> {
+    const inserted: OrderAddon[] = [];
+    for (let i = 0; i < addons.length; i++) {
+      const addon = addons[i];
+      const result = await this.db.query(
+        `INSERT INTO order_addons (order_id, addon_item_id, name, description, quantity, price, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          orderId,
+          addon.addon_item_id,
+          addon.name || '',
+          addon.description || null,
+          addon.quantity,
+          addon.price || 0,
+          i,
+        ]
+      );
+      inserted.push(this.mapRowToAddon(result.rows[0]));
+    }
+    return inserted;
+  }
+
+  private async findAddonsByOrderIds(orderIds: number[]): Promise<Map<number, OrderAddon[]>> {
+    const result = await this.db.query(
+      'SELECT * FROM order_addons WHERE order_id = ANY($1::int[]) ORDER BY order_id, sort_order ASC, id ASC',
+      [orderIds]
+    );
+
+    const addonsByOrderId = new Map<number, OrderAddon[]>();
+    result.rows.forEach((row: any) => {
+      if (!addonsByOrderId.has(row.order_id)) {
+        addonsByOrderId.set(row.order_id, []);
+      }
+      addonsByOrderId.get(row.order_id)!.push(this.mapRowToAddon(row));
+    });
+    return addonsByOrderId;
+  }
+
+  private mapRowToAddon(row: any): OrderAddon {
+    return {
+      id: row.id,
+      order_id: row.order_id,
+      addon_item_id: row.addon_item_id,
+      name: row.name,
+      description: row.description || undefined,
+      quantity: row.quantity,
+      price: parseFloat(row.price),
+      sort_order: row.sort_order,
+    };
+  }
 }
@@ -5,20 +5,21 @@ import { PasswordResetRepository } from './password-reset.repository';
 export class PostgreSQLPasswordResetRepository implements PasswordResetRepository {
   constructor(private db: DatabaseAdapter) {}
 
-  async create(otp: { user_id: number; otp_hash: string; expires_at: Date }): Promise<PasswordResetOTP> {
+  async create(otp: { user_id: number; otp_hash: string; expires_at: Date; request_count?: number }): Promise<PasswordResetOTP> {
     // Delete any existing OTPs for this user
     await this.db.query('DELETE FROM password_reset_otps WHERE user_id = $1', [otp.user_id]);
     
     const query = `
       INSERT INTO password_reset_otps (
-        user_id, otp_hash, expires_at, request_count, created_at
-      ) VALUES ($1, $2, $3, 1, NOW())
+        user_id, otp_hash, expires_at, request_count, attempt_count, created_at
+      ) VALUES ($1, $2, $3, $4, 0, NOW())
       RETURNING *
     `;
     const result = await this.db.query(query, [
       otp.user_id,
       otp.otp_hash,
       otp.expires_at,
+      otp.request_count || 1,
     ]);
     return result.rows[0];
   }
@@ -29,6 +30,12 @@ export class PostgreSQLPasswordResetRepository implements PasswordResetRepositor
     return result.rows[0] || null;
   }
 
+  async findLatestByUserId(userId: number): Promise<PasswordResetOTP | null> {
+    const query = 'SELECT * FROM password_reset_otps WHERE user_id = $1 AND expires_at > NOW() ORDER BY created_at DESC LIMIT 1';
+    const result = await this.db.query(query, [userId]);
+    return result.rows[0] || null;
+  }
+
   async markAsUsed(id: number): Promise<void> {
     const query = 'UPDATE password_reset_otps SET used_at = NOW() WHERE id = $1';
     await this.db.query(query, [id]);
@@ -39,6 +46,12 @@ export class PostgreSQLPasswordResetRepository implements PasswordResetRepositor
     await this.db.query(query, [id]);
   }
 
+  async incrementAttemptCount(id: number): Promise<number> {
+    const query = 'UPDATE password_reset_otps SET attempt_count = attempt_count + 1 WHERE id = $1 RETURNING attempt_count';
+    const result = await this.db.query(query, [id]);
+    return result.rows[0] ? parseInt(result.rows[0].attempt_count, 10) : 0;
+  }
+
   async deleteExpired(): Promise<number> {
     const query = 'DELETE FROM password_reset_otps WHERE expires_at < NOW()';
     const result = await this.db.query(query);
@@ -1,5 +1,5 @@
 import { DatabaseAdapter } from '../database/adapter';
-import { PaymentTransaction, StoredCard, CreatePaymentTransactionDTO, CreateStoredCardDTO } from '../models/payment';
+import { PaymentTransaction, StoredCard, PaymentRefund, CreatePaymentTransactionDTO, CreateStoredCardDTO, CreatePaymentRefundDTO } from '../models/payment';
 import { PaymentRepository } from './payment.repository';
 
 export class PostgreSQLPaymentRepository implements PaymentRepository {
@@ -45,7 +45,7 @@ export class PostgreSQLPaymentRepository implements PaymentRepository {
   }
 
   async findTransactionBySquarePaymentId(squarePaymentId: string): Promise<PaymentTransaction | null> {
-    const query = 'SELECT * FROM payment_transactions WHERE square_payment_id = $1';
+    const query = 'SELECT * FROM payment_transactions WHERE square_payment_id = $1 ORDER BY id ASC LIMIT 1';
     const result = await this.db.query(query, [squarePaymentId]);
     
     if (result.rows.length === 0) {
@@ -206,6 +206,84 @@ export class PostgreSQLPaymentRepository implements PaymentRepository {
     );
   }
 
+  async createRefund(refund: CreatePaymentRefundDTO): Promise<PaymentRefund> {
+    const query = `
+      INSERT INTO payment_refunds (
+        payment_transaction_id, order_id, square_refund_id, amount, currency,
+        reason, status, error_message, processed_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+      ON CONFLICT (square_refund_id) DO UPDATE SET
+        status = CASE WHEN payment_refunds.status = 'pending' THEN EXCLUDED.status ELSE payment_refunds.status END,
+        reason = COALESCE(payment_refunds.reason, EXCLUDED.reason),
+        error_message = COALESCE(payment_refunds.error_message, EXCLUDED.error_message),
+        processed_by = COALESCE(payment_refunds.processed_by, EXCLUDED.processed_by),
+        updated_at = NOW()
+      RETURNING *
+    `;
+    
+    // The app and the refund webhook can both record the same Square refund;
+    // keep one row and never move a settled refund back to pending
+    const result = await this.db.query(query, [
+      refund.payment_transaction_id,
+      refund.order_id,
+      refund.square_refund_id,
+      refund.amount,
+      refund.currency || 'USD',
+      refund.reason || null,
+      refund.status,
+      refund.error_message || null,
+      refund.processed_by || null,
+    ]);
+    
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
+  async findRefundBySquareRefundId(squareRefundId: string): Promise<PaymentRefund | null> {
+    const query = 'SELECT * FROM payment_refunds WHERE square_refund_id = $1';
+    const result = await this.db.query(query, [squareRefundId]);
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
+  async findRefundsByTransactionId(transactionId: number): Promise<PaymentRefund[]> {
+    const query = 'SELECT * FROM payment_refunds WHERE payment_transaction_id = $1 ORDER BY created_at DESC';
+    const result = await this.db.query(query, [transactionId]);
+    
+    return result.rows.map((row: any) => this.mapRowToRefund(row));
+  }
+
+  async findRefundsByOrderId(orderId: number): Promise<PaymentRefund[]> {
+    const query = 'SELECT * FROM payment_refunds WHERE order_id = $1 ORDER BY created_at DESC';
+    const result = await this.db.query(query, [orderId]);
+    
+    return result.rows.map((row: any) => this.mapRowToRefund(row));
+  }
+
+  async updateRefundStatus(
+    id: number,
+    status: 'pending' | 'completed' | 'rejected' | 'failed',
+    errorMessage?: string
+  ): Promise<PaymentRefund | null> {
+    const query = `
+      UPDATE payment_refunds
+      SET status = $1, error_message = $2, updated_at = NOW()
+      WHERE id = $3
+      RETURNING *
+    `;
+    
+    const result = await this.db.query(query, [status, errorMessage || null, id]);
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
   private mapRowToTransaction(row: any): PaymentTransaction {
     return {
       id: row.id,
@@ -226,6 +304,23 @@ export class PostgreSQLPaymentRepository implements PaymentRepository {
     };
   }
 
+  private mapRowToRefund(row: any): PaymentRefund {
+    return {
+      id: row.id,
+      payment_transaction_id: row.payment_transaction_id,
+      order_id: row.order_id,
+      square_refund_id: row.square_refund_id,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      reason: row.reason,
+      status: row.status,
+      error_message: row.error_message,
+      processed_by: row.processed_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
   private mapRowToStoredCard(row: any): StoredCard {
     return {
       id: row.id,
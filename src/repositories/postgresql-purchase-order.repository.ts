@@ -0,0 +1,277 @@
+import { DatabaseAdapter } from '../database/adapter';
+import {
+  PurchaseOrder,
+  PurchaseOrderData,
+  PurchaseOrderLine,
+  PurchaseOrderSearchParams,
+  PurchaseOrderListResponse,
+  PurchaseOrderStatus,
+  OPEN_PURCHASE_ORDER_STATUSES,
+} from '../models/purchase-order';
+import { PurchaseOrderRepository } from './purchase-order.repository';
+
+export class PostgreSQLPurchaseOrderRepository implements PurchaseOrderRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(data: PurchaseOrderData, createdBy?: number | null): Promise<PurchaseOrder> {
+    const result = await this.db.query(`
+      INSERT INTO purchase_orders (supplier_id, supplier_name, status, expected_date, notes, created_by, created_at, updated_at)
+      VALUES ($1, $2, 'draft', $3, $4, $5, NOW(), NOW())
+      RETURNING id
+    `, [
+      data.supplier_id,
+      data.supplier_name,
+      data.expected_date || null,
+      data.notes || null,
+      createdBy || null,
+    ]);
+    const id = result.rows[0].id;
+
+    await this.db.query(
+      `UPDATE purchase_orders SET po_number = 'PO-' || LPAD(id::text, 5, '0') WHERE id = $1`,
+      [id]
+    );
+    await this.insertLines(id, data.lines);
+
+    return (await this.findById(id))!;
+  }
+
+  async findById(id: number): Promise<PurchaseOrder | null> {
+    const result = await this.db.query(`${this.purchaseOrderSelect()} WHERE po.id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const lines = await this.findLines([id]);
+    return this.mapRowToPurchaseOrder(result.rows[0], lines.get(id) || []);
+  }
+
+  async findAll(params: PurchaseOrderSearchParams): Promise<PurchaseOrderListResponse> {
+    const limit = params.limit || 50;
+    const page = params.page || 1;
+    const offset = (page - 1) * limit;
+
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (params.supplier_id) {
+      conditions.push(`po.supplier_id = $${paramIndex++}`);
+      queryParams.push(params.supplier_id);
+    }
+    if (params.status) {
+      conditions.push(`po.status = $${paramIndex++}`);
+      queryParams.push(params.status);
+    }
+    if (params.inventory_item_id) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM purchase_order_lines pol
+        WHERE pol.purchase_order_id = po.id AND pol.inventory_item_id = $${paramIndex++}
+      )`);
+      queryParams.push(params.inventory_item_id);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const sortOrder = params.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const countResult = await this.db.query(`SELECT COUNT(*) as total FROM purchase_orders po ${whereClause}`, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    const result = await this.db.query(`
+      ${this.purchaseOrderSelect()}
+      ${whereClause}
+      ORDER BY po.id ${sortOrder}
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `, [...queryParams, limit, offset]);
+
+    const lines = await this.findLines(result.rows.map((row: any) => row.id));
+
+    return {
+      purchase_orders: result.rows.map((row: any) => this.mapRowToPurchaseOrder(row, lines.get(row.id) || [])),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async update(id: number, data: Partial<PurchaseOrderData>): Promise<PurchaseOrder | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (data.supplier_id !== undefined) {
+      updates.push(`supplier_id = $${paramIndex++}`);
+      values.push(data.supplier_id);
+    }
+    if (data.supplier_name !== undefined) {
+      updates.push(`supplier_name = $${paramIndex++}`);
+      values.push(data.supplier_name);
+    }
+    if (data.expected_date !== undefined) {
+      updates.push(`expected_date = $${paramIndex++}`);
+      values.push(data.expected_date || null);
+    }
+    if (data.notes !== undefined) {
+      updates.push(`notes = $${paramIndex++}`);
+      values.push(data.notes || null);
+    }
+
+    updates.push(`updated_at = NOW()`);
+    values.push(id);
+
+    const result = await this.db.query(`
+      UPDATE purchase_orders
+      SET ${updates.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING id
+    `, values);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    if (data.lines !== undefined) {
+      await this.db.query('DELETE FROM purchase_order_lines WHERE purchase_order_id = $1', [id]);
+      await this.insertLines(id, data.lines);
+    }
+
+    return this.findById(id);
+  }
+
+  async updateStatus(id: number, status: PurchaseOrderStatus): Promise<PurchaseOrder | null> {
+    const result = await this.db.query(`
+      UPDATE purchase_orders
+      SET status = $1,
+        sent_at = CASE WHEN $1 = 'sent' THEN NOW() ELSE sent_at END,
+        received_at = CASE WHEN $1 = 'received' THEN NOW() ELSE received_at END,
+        updated_at = NOW()
+      WHERE id = $2
+      RETURNING id
+    `, [status, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  async addReceivedQuantity(lineId: number, quantity: number): Promise<void> {
+    const result = await this.db.query(`
+      UPDATE purchase_order_lines
+      SET quantity_received = quantity_received + $1
+      WHERE id = $2
+      RETURNING purchase_order_id
+    `, [quantity, lineId]);
+
+    if (result.rows.length > 0) {
+      await this.db.query('UPDATE purchase_orders SET updated_at = NOW() WHERE id = $1', [result.rows[0].purchase_order_id]);
+    }
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM purchase_orders WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async findOpenLines(): Promise<PurchaseOrderLine[]> {
+    const result = await this.db.query(`
+      SELECT pol.*
+      FROM purchase_order_lines pol
+      JOIN purchase_orders po ON po.id = pol.purchase_order_id
+      WHERE po.status = ANY($1::text[])
+      ORDER BY pol.purchase_order_id ASC, pol.sort_order ASC
+    `, [OPEN_PURCHASE_ORDER_STATUSES]);
+
+    return result.rows.map((row: any) => this.mapRowToLine(row));
+  }
+
+  async countBySupplier(supplierId: number): Promise<number> {
+    const result = await this.db.query('SELECT COUNT(*) as total FROM purchase_orders WHERE supplier_id = $1', [supplierId]);
+    return parseInt(result.rows[0].total);
+  }
+
+  private async insertLines(purchaseOrderId: number, lines: PurchaseOrderLine[]): Promise<void> {
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      await this.db.query(`
+        INSERT INTO purchase_order_lines (
+          purchase_order_id, inventory_item_id, item_name, unit,
+          quantity_ordered, quantity_received, unit_price, sort_order
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [
+        purchaseOrderId,
+        line.inventory_item_id,
+        line.item_name,
+        line.unit,
+        line.quantity_ordered,
+        line.quantity_received || 0,
+        line.unit_price ?? null,
+        i,
+      ]);
+    }
+  }
+
+  private async findLines(purchaseOrderIds: number[]): Promise<Map<number, PurchaseOrderLine[]>> {
+    const linesByOrder = new Map<number, PurchaseOrderLine[]>();
+    if (purchaseOrderIds.length === 0) {
+      return linesByOrder;
+    }
+
+    const result = await this.db.query(`
+      SELECT * FROM purchase_order_lines
+      WHERE purchase_order_id = ANY($1::int[])
+      ORDER BY purchase_order_id ASC, sort_order ASC, id ASC
+    `, [purchaseOrderIds]);
+
+    for (const row of result.rows) {
+      const lines = linesByOrder.get(row.purchase_order_id) || [];
+      lines.push(this.mapRowToLine(row));
+      linesByOrder.set(row.purchase_order_id, lines);
+    }
+    return linesByOrder;
+  }
+
+  private purchaseOrderSelect(): string {
+    return `
+      SELECT po.*, to_char(po.expected_date, 'YYYY-MM-DD') AS expected_date_text
+      FROM purchase_orders po
+    `;
+  }
+
+  private mapRowToPurchaseOrder(row: any, lines: PurchaseOrderLine[]): PurchaseOrder {
+    const total = lines.reduce((sum, line) => sum + line.quantity_ordered * (line.unit_price || 0), 0);
+
+    return {
+      id: row.id,
+      po_number: row.po_number,
+      supplier_id: row.supplier_id,
+      supplier_name: row.supplier_name,
+      status: row.status,
+      expected_date: row.expected_date_text,
+      notes: row.notes || undefined,
+      lines,
+      total: Math.round(total * 100) / 100,
+      sent_at: row.sent_at,
+      received_at: row.received_at,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private mapRowToLine(row: any): PurchaseOrderLine {
+    return {
+      id: row.id,
+      purchase_order_id: row.purchase_order_id,
+      inventory_item_id: row.inventory_item_id,
+      item_name: row.item_name,
+      unit: row.unit,
+      quantity_ordered: parseFloat(row.quantity_ordered),
+      quantity_received: parseFloat(row.quantity_received),
+      unit_price: row.unit_price !== null ? parseFloat(row.unit_price) : null,
+      sort_order: row.sort_order,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { ClientLedgerRecords, OrderBalanceRecord, PaymentRecord, RefundRecord, InvoiceRecord } from '../models/receivables';
+import { ReceivablesRepository } from './receivables.repository';
+
+export class PostgreSQLReceivablesRepository implements ReceivablesRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async findLedgerRecords(clientId?: number, upTo?: string): Promise<ClientLedgerRecords> {
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    let clientCondition = 'o.client_id IS NOT NULL';
+    if (clientId) {
+      clientCondition = `o.client_id = $${paramIndex++}`;
+      values.push(clientId);
+    }
+
+    let orderDateCondition = '';
+    let recordDateCondition = (column: string) => '';
+    if (upTo) {
+      const upToParam = `$${paramIndex++}`;
+      values.push(upTo);
+      orderDateCondition = `AND o.delivery_date <= ${upToParam}`;
+      recordDateCondition = (column: string) => `AND ${column}::date <= ${upToParam}`;
+    }
+
+    const [orders, payments, refunds, invoices] = await Promise.all([
+      this.db.query(`
+        SELECT o.id, o.order_number, o.client_id, o.client_name, to_char(o.delivery_date, 'YYYY-MM-DD') AS delivery_date, o.status, o.is_paid, o.total, o.currency, o.updated_at
+        FROM orders o
+        WHERE ${clientCondition} AND o.status <> 'cancelled' ${orderDateCondition}
+        ORDER BY o.delivery_date ASC, o.id ASC
+      `, values),
+      this.db.query(`
+        SELECT t.order_id, o.order_number, t.square_payment_id, t.payment_method, t.card_brand, t.card_last_4, t.amount, o.currency, t.created_at
+        FROM payment_transactions t
+        JOIN orders o ON o.id = t.order_id
+        WHERE ${clientCondition} AND t.status IN ('completed', 'refunded') ${recordDateCondition('t.created_at')}
+        ORDER BY t.created_at ASC, t.id ASC
+      `, values),
+      this.db.query(`
+        SELECT r.order_id, o.order_number, r.square_refund_id, r.amount, o.currency, r.reason, r.created_at
+        FROM payment_refunds r
+        JOIN orders o ON o.id = r.order_id
+        WHERE ${clientCondition} AND r.status = 'completed' ${recordDateCondition('r.created_at')}
+        ORDER BY r.created_at ASC, r.id ASC
+      `, values),
+      this.db.query(`
+        SELECT o.id AS order_id, o.order_number, i.square_invoice_id, i.status, COALESCE(io.amount, i.amount) AS amount, o.currency, i.public_url, i.created_at, i.paid_at
+        FROM invoices i
+        LEFT JOIN invoice_orders io ON io.invoice_id = i.id
+        JOIN orders o ON o.id = COALESCE(io.order_id, i.order_id)
+        WHERE ${clientCondition} ${recordDateCondition('i.created_at')}
+        ORDER BY i.created_at ASC, i.id ASC
+      `, values),
+    ]);
+
+    return {
+      orders: orders.rows.map((row: any) => this.mapRowToOrderBalance(row)),
+      payments: payments.rows.map((row: any) => this.mapRowToPayment(row)),
+      refunds: refunds.rows.map((row: any) => this.mapRowToRefund(row)),
+      invoices: invoices.rows.map((row: any) => this.mapRowToInvoice(row)),
+    };
+  }
+
+  private mapRowToOrderBalance(row: any): OrderBalanceRecord {
+    return {
+      order_id: row.id,
+      order_number: row.order_number,
+      client_id: row.client_id,
+      client_name: row.client_name,
+      delivery_date: row.delivery_date,
+      status: row.status,
+      is_paid: row.is_paid === true,
+      total: parseFloat(row.total),
+      currency: row.currency,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private mapRowToPayment(row: any): PaymentRecord {
+    return {
+      order_id: row.order_id,
+      order_number: row.order_number,
+      reference: row.square_payment_id,
+      payment_method: row.payment_method,
+      card_brand: row.card_brand,
+      card_last_4: row.card_last_4,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      created_at: row.created_at,
+    };
+  }
+
+  private mapRowToRefund(row: any): RefundRecord {
+    return {
+      order_id: row.order_id,
+      order_number: row.order_number,
+      reference: row.square_refund_id,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      reason: row.reason,
+      created_at: row.created_at,
+    };
+  }
+
+  private mapRowToInvoice(row: any): InvoiceRecord {
+    return {
+      order_id: row.order_id,
+      order_number: row.order_number,
+      reference: row.square_invoice_id,
+      status: row.status,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      public_url: row.public_url,
+      created_at: row.created_at,
+      paid_at: row.paid_at,
+    };
+  }
+}
@@ -0,0 +1,265 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { ReportParams, ReportGroupBy, ReportPeriod, RevenueReportRow, StatusProgressionReportRow } from '../models/report';
+import { ReportRepository } from './report.repository';
+
+// Period labels as shown in exports, e.g. 2025-03, 2025-Q1, 2025-W09
+const PERIOD_LABEL_FORMATS: Record<ReportPeriod, string> = {
+  day: 'YYYY-MM-DD',
+  week: 'IYYY-"W"IW',
+  month: 'YYYY-MM',
+  quarter: 'YYYY-"Q"Q',
+  year: 'YYYY',
+};
+
+const FEE_COLUMNS = [
+  'delivery_fee',
+  'service_charge',
+  'coordination_fee',
+  'airport_fee',
+  'fbo_fee',
+  'shopping_fee',
+  'restaurant_pickup_fee',
+  'airport_pickup_fee',
+] as const;
+
+export class PostgreSQLReportRepository implements ReportRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async aggregateRevenue(params: ReportParams, grouped: boolean): Promise<RevenueReportRow[]> {
+    const { where, values } = this.buildWhereClause(params);
+    const group = this.getGroupExpressions(params.group_by, params.period, grouped, 'f.fbo_name');
+    const feeSums = FEE_COLUMNS
+      .map(fee => `COALESCE(SUM(o.${fee}) FILTER (WHERE o.status <> 'cancelled'), 0) AS ${fee}`)
+      .join(',\n        ');
+
+    const query = `
+      WITH collected AS (
+        SELECT order_id, SUM(amount) AS amount
+        FROM payment_transactions
+        WHERE status IN ('completed', 'refunded')
+        GROUP BY order_id
+      ),
+      refunded AS (
+        SELECT order_id, SUM(amount) AS amount
+        FROM payment_refunds
+        WHERE status = 'completed'
+        GROUP BY order_id
+      ),
+      addon_totals AS (
+        SELECT order_id, SUM(price * quantity) AS amount
+        FROM order_addons
+        GROUP BY order_id
+      )
+      SELECT
+        ${group.key} AS group_key,
+        ${group.label} AS group_label,
+        o.currency,
+        COUNT(*) AS order_count,
+        COUNT(*) FILTER (WHERE o.status = 'cancelled') AS cancelled_count,
+        COALESCE(SUM(o.total) FILTER (WHERE o.status <> 'cancelled'), 0) AS revenue,
+        COALESCE(SUM(o.subtotal) FILTER (WHERE o.status <> 'cancelled'), 0) AS subtotal,
+        COALESCE(SUM(addon_totals.amount) FILTER (WHERE o.status <> 'cancelled'), 0) AS addon_total,
+        COALESCE(SUM(o.tax_total) FILTER (WHERE o.status <> 'cancelled'), 0) AS tax_total,
+        ${feeSums},
+        COUNT(*) FILTER (WHERE o.status <> 'cancelled' AND o.is_paid = true) AS paid_count,
+        COALESCE(SUM(o.total) FILTER (WHERE o.status <> 'cancelled' AND o.is_paid = true), 0) AS paid_amount,
+        COUNT(*) FILTER (WHERE o.status <> 'cancelled' AND COALESCE(o.is_paid, false) = false) AS unpaid_count,
+        COALESCE(SUM(o.total) FILTER (WHERE o.status <> 'cancelled' AND COALESCE(o.is_paid, false) = false), 0) AS unpaid_amount,
+        COALESCE(SUM(collected.amount), 0) AS collected_amount,
+        COALESCE(SUM(refunded.amount), 0) AS refunded_amount
+      FROM orders o
+      LEFT JOIN fbos f ON f.id = o.fbo_id
+      LEFT JOIN collected ON collected.order_id = o.id
+      LEFT JOIN refunded ON refunded.order_id = o.id
+      LEFT JOIN addon_totals ON addon_totals.order_id = o.id
+      ${where}
+      -- Amounts are in the order's currency, so each currency gets its own row
+      ${grouped
+        ? `GROUP BY 1, o.currency ORDER BY ${params.group_by === 'period' ? 'group_key ASC' : 'revenue DESC, group_label ASC'}, o.currency ASC`
+        : 'GROUP BY o.currency ORDER BY o.currency ASC'}
+    `;
+
+    const result = await this.db.query(query, values);
+    return result.rows.map((row: any) => this.mapRowToRevenueRow(row));
+  }
+
+  async aggregateStatusProgression(params: ReportParams, grouped: boolean): Promise<StatusProgressionReportRow[]> {
+    const { where, values } = this.buildWhereClause(params);
+    const group = this.getGroupExpressions(params.group_by, params.period, grouped, 'o.fbo_name');
+
+    // First time each order reached caterer_confirmed / delivered, from the order timeline.
+    // Orders delivered before the timeline existed fall back to completed_at.
+    const query = `
+      WITH milestones AS (
+        SELECT
+          order_id,
+          MIN(created_at) FILTER (WHERE after->>'status' = 'caterer_confirmed') AS confirmed_at,
+          MIN(created_at) FILTER (WHERE after->>'status' = 'delivered') AS delivered_at
+        FROM order_events
+        WHERE event_type = 'status_changed'
+        GROUP BY order_id
+      ),
+      progress AS (
+        SELECT
+          o.*,
+          f.fbo_name,
+          -- delivery_at is backfilled at startup; orders whose time can't be parsed have none
+          -- and never count as on time
+          o.delivery_at AS due_at,
+          m.confirmed_at,
+          COALESCE(m.delivered_at, CASE WHEN o.status = 'delivered' THEN o.completed_at END) AS delivered_at
+        FROM orders o
+        LEFT JOIN fbos f ON f.id = o.fbo_id
+        LEFT JOIN milestones m ON m.order_id = o.id
+        ${where}
+      )
+      SELECT
+        ${group.key} AS group_key,
+        ${group.label} AS group_label,
+        COUNT(*) AS order_count,
+        COUNT(o.confirmed_at) AS confirmed_count,
+        COUNT(*) FILTER (WHERE o.confirmed_at <= o.due_at) AS confirmed_on_time_count,
+        AVG(EXTRACT(EPOCH FROM (o.confirmed_at - o.created_at)) / 3600) AS average_hours_to_confirmation,
+        COUNT(o.delivered_at) AS delivered_count,
+        COUNT(*) FILTER (WHERE o.delivered_at <= o.due_at) AS delivered_on_time_count,
+        AVG(EXTRACT(EPOCH FROM (o.delivered_at - o.created_at)) / 3600) AS average_hours_to_delivery,
+        COUNT(*) FILTER (WHERE o.status = 'cancelled') AS cancelled_count
+      FROM progress o
+      ${grouped ? `GROUP BY 1 ORDER BY ${params.group_by === 'period' ? 'group_key ASC' : 'order_count DESC, group_label ASC'}` : ''}
+    `;
+
+    const result = await this.db.query(query, values);
+    return result.rows.map((row: any) => this.mapRowToStatusProgressionRow(row));
+  }
+
+  private buildWhereClause(params: ReportParams): { where: string; values: any[] } {
+    const conditions: string[] = ['o.delivery_date >= $1', 'o.delivery_date <= $2'];
+    const values: any[] = [params.date_from, params.date_to];
+    let paramIndex = 3;
+
+    if (params.client_id) {
+      conditions.push(`o.client_id = $${paramIndex++}`);
+      values.push(params.client_id);
+    }
+    if (params.caterer_id) {
+      conditions.push(`o.caterer_id = $${paramIndex++}`);
+      values.push(params.caterer_id);
+    }
+    if (params.airport_id) {
+      conditions.push(`o.airport_id = $${paramIndex++}`);
+      values.push(params.airport_id);
+    }
+    if (params.fbo_id) {
+      conditions.push(`o.fbo_id = $${paramIndex++}`);
+      values.push(params.fbo_id);
+    }
+    if (params.order_type) {
+      conditions.push(`o.order_type = $${paramIndex++}`);
+      values.push(params.order_type);
+    }
+
+    return { where: `WHERE ${conditions.join(' AND ')}`, values };
+  }
+
+  /**
+   * SQL for the group key and label. Names come from the order's own display columns so
+   * orders keep their label after the referenced record is renamed or deleted.
+   * group_by and period are validated by the service; only constants are interpolated.
+   */
+  private getGroupExpressions(
+    groupBy: ReportGroupBy,
+    period: ReportPeriod,
+    grouped: boolean,
+    fboNameColumn: string
+  ): { key: string; label: string } {
+    if (!grouped) {
+      return { key: `'total'`, label: `'Total'` };
+    }
+
+    switch (groupBy) {
+      case 'period':
+        return {
+          key: `to_char(date_trunc('${period}', o.delivery_date), 'YYYY-MM-DD')`,
+          label: `MAX(to_char(o.delivery_date, '${PERIOD_LABEL_FORMATS[period]}'))`,
+        };
+      case 'client':
+        return { key: `COALESCE(o.client_id::text, 'none')`, label: 'MAX(o.client_name)' };
+      case 'caterer':
+        return { key: `COALESCE(o.caterer_id::text, 'none')`, label: 'MAX(o.caterer)' };
+      case 'airport':
+        return { key: `COALESCE(o.airport_id::text, 'none')`, label: 'MAX(o.airport)' };
+      case 'fbo':
+        return { key: `COALESCE(o.fbo_id::text, 'none')`, label: `COALESCE(MAX(${fboNameColumn}), 'No FBO')` };
+      case 'order_type':
+        return { key: 'o.order_type', label: 'MAX(o.order_type)' };
+    }
+  }
+
+  private mapRowToRevenueRow(row: any): RevenueReportRow {
+    const orderCount = parseInt(row.order_count, 10);
+    const cancelledCount = parseInt(row.cancelled_count, 10);
+    const revenue = parseFloat(row.revenue);
+    const billableCount = orderCount - cancelledCount;
+
+    return {
+      key: row.group_key,
+      label: row.group_label || row.group_key,
+      currency: row.currency,
+      order_count: orderCount,
+      cancelled_count: cancelledCount,
+      cancellation_rate: orderCount > 0 ? roundTo(cancelledCount / orderCount, 4) : 0,
+      revenue,
+      subtotal: parseFloat(row.subtotal),
+      addon_total: parseFloat(row.addon_total),
+      tax_total: parseFloat(row.tax_total),
+      fees: {
+        delivery_fee: parseFloat(row.delivery_fee),
+        service_charge: parseFloat(row.service_charge),
+        coordination_fee: parseFloat(row.coordination_fee),
+        airport_fee: parseFloat(row.airport_fee),
+        fbo_fee: parseFloat(row.fbo_fee),
+        shopping_fee: parseFloat(row.shopping_fee),
+        restaurant_pickup_fee: parseFloat(row.restaurant_pickup_fee),
+        airport_pickup_fee: parseFloat(row.airport_pickup_fee),
+      },
+      average_order_value: billableCount > 0 ? roundTo(revenue / billableCount, 2) : 0,
+      paid_count: parseInt(row.paid_count, 10),
+      paid_amount: parseFloat(row.paid_amount),
+      unpaid_count: parseInt(row.unpaid_count, 10),
+      unpaid_amount: parseFloat(row.unpaid_amount),
+      collected_amount: parseFloat(row.collected_amount),
+      refunded_amount: parseFloat(row.refunded_amount),
+    };
+  }
+
+  private mapRowToStatusProgressionRow(row: any): StatusProgressionReportRow {
+    const confirmedCount = parseInt(row.confirmed_count, 10);
+    const confirmedOnTime = parseInt(row.confirmed_on_time_count, 10);
+    const deliveredCount = parseInt(row.delivered_count, 10);
+    const deliveredOnTime = parseInt(row.delivered_on_time_count, 10);
+
+    return {
+      key: row.group_key,
+      label: row.group_label || row.group_key,
+      order_count: parseInt(row.order_count, 10),
+      confirmed_count: confirmedCount,
+      confirmed_on_time_count: confirmedOnTime,
+      confirmed_on_time_rate: confirmedCount > 0 ? roundTo(confirmedOnTime / confirmedCount, 4) : 0,
+      average_hours_to_confirmation: row.average_hours_to_confirmation !== null
+        ? roundTo(parseFloat(row.average_hours_to_confirmation), 1)
+        : null,
+      delivered_count: deliveredCount,
+      delivered_on_time_count: deliveredOnTime,
+      delivered_on_time_rate: deliveredCount > 0 ? roundTo(deliveredOnTime / deliveredCount, 4) : 0,
+      average_hours_to_delivery: row.average_hours_to_delivery !== null
+        ? roundTo(parseFloat(row.average_hours_to_delivery), 1)
+        : null,
+      cancelled_count: parseInt(row.cancelled_count, 10),
+    };
+  }
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
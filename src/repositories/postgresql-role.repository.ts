@@ -0,0 +1,97 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { CustomRole, CreateRoleDTO, UpdateRoleDTO } from '../models/permission';
+import { RoleRepository } from './role.repository';
+
+export class PostgreSQLRoleRepository implements RoleRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(role: CreateRoleDTO): Promise<CustomRole> {
+    const result = await this.db.query(`
+      INSERT INTO roles (name, description, permissions, created_at, updated_at)
+      VALUES ($1, $2, $3, NOW(), NOW())
+      RETURNING *
+    `, [role.name, role.description || null, JSON.stringify(role.permissions)]);
+
+    return this.mapRowToRole({ ...result.rows[0], user_count: 0 });
+  }
+
+  async findById(id: number): Promise<CustomRole | null> {
+    const result = await this.db.query(`
+      SELECT r.*, (SELECT COUNT(*) FROM users u WHERE u.role_id = r.id) AS user_count
+      FROM roles r
+      WHERE r.id = $1
+    `, [id]);
+    return result.rows.length > 0 ? this.mapRowToRole(result.rows[0]) : null;
+  }
+
+  async findByName(name: string): Promise<CustomRole | null> {
+    const result = await this.db.query('SELECT * FROM roles WHERE LOWER(name) = LOWER($1)', [name]);
+    return result.rows.length > 0 ? this.mapRowToRole(result.rows[0]) : null;
+  }
+
+  async findAll(): Promise<CustomRole[]> {
+    const result = await this.db.query(`
+      SELECT r.*, (SELECT COUNT(*) FROM users u WHERE u.role_id = r.id) AS user_count
+      FROM roles r
+      ORDER BY r.name ASC
+    `);
+    return result.rows.map((row: any) => this.mapRowToRole(row));
+  }
+
+  async update(id: number, role: UpdateRoleDTO): Promise<CustomRole | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (role.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      values.push(role.name);
+    }
+    if (role.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      values.push(role.description || null);
+    }
+    if (role.permissions !== undefined) {
+      updates.push(`permissions = $${paramIndex++}`);
+      values.push(JSON.stringify(role.permissions));
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    updates.push('updated_at = NOW()');
+    values.push(id);
+
+    const result = await this.db.query(`
+      UPDATE roles
+      SET ${updates.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING id
+    `, values);
+
+    return result.rows.length > 0 ? this.findById(id) : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM roles WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+
+  async countUsers(id: number): Promise<number> {
+    const result = await this.db.query('SELECT COUNT(*) AS total FROM users WHERE role_id = $1', [id]);
+    return parseInt(result.rows[0].total, 10);
+  }
+
+  private mapRowToRole(row: any): CustomRole {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      permissions: typeof row.permissions === 'string' ? JSON.parse(row.permissions) : row.permissions || [],
+      user_count: row.user_count !== undefined ? parseInt(row.user_count, 10) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
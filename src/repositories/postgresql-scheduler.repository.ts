@@ -0,0 +1,213 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { SchedulerRule, SchedulerRuleDTO, SchedulerRun, SchedulerRuleExecution } from '../models/scheduler';
+import { SchedulerRepository } from './scheduler.repository';
+
+export class PostgreSQLSchedulerRepository implements SchedulerRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async findAllRules(): Promise<SchedulerRule[]> {
+    const result = await this.db.query('SELECT * FROM scheduler_rules ORDER BY hours_before_delivery ASC, id ASC');
+    return result.rows.map((row: any) => this.mapRowToRule(row));
+  }
+
+  async createRule(rule: SchedulerRuleDTO): Promise<SchedulerRule> {
+    const query = `
+      INSERT INTO scheduler_rules (
+        name, action, from_statuses, target_status, hours_before_delivery,
+        caterer_id, order_type, order_priority, escalation_emails, is_active,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      rule.name,
+      rule.action,
+      JSON.stringify(rule.from_statuses),
+      rule.target_status || null,
+      rule.hours_before_delivery,
+      rule.caterer_id || null,
+      rule.order_type || null,
+      rule.order_priority || null,
+      JSON.stringify(rule.escalation_emails || []),
+      rule.is_active !== undefined ? rule.is_active : true,
+    ]);
+
+    return this.mapRowToRule(result.rows[0]);
+  }
+
+  async updateRule(id: number, rule: SchedulerRuleDTO): Promise<SchedulerRule | null> {
+    const query = `
+      UPDATE scheduler_rules
+      SET name = $1, action = $2, from_statuses = $3, target_status = $4,
+          hours_before_delivery = $5, caterer_id = $6, order_type = $7,
+          order_priority = $8, escalation_emails = $9, is_active = $10,
+          updated_at = NOW()
+      WHERE id = $11
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      rule.name,
+      rule.action,
+      JSON.stringify(rule.from_statuses),
+      rule.target_status || null,
+      rule.hours_before_delivery,
+      rule.caterer_id || null,
+      rule.order_type || null,
+      rule.order_priority || null,
+      JSON.stringify(rule.escalation_emails || []),
+      rule.is_active !== undefined ? rule.is_active : true,
+      id,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRule(result.rows[0]);
+  }
+
+  async deleteRulesExcept(ids: number[]): Promise<number> {
+    const result = ids.length > 0
+      ? await this.db.query('DELETE FROM scheduler_rules WHERE NOT (id = ANY($1))', [ids])
+      : await this.db.query('DELETE FROM scheduler_rules');
+    return result.rowCount || 0;
+  }
+
+  async createRun(run: Omit<SchedulerRun, 'id' | 'started_at' | 'finished_at'>): Promise<SchedulerRun> {
+    const query = `
+      INSERT INTO scheduler_runs (
+        trigger, triggered_by, status, orders_checked, actions_fired, error_message, started_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      run.trigger,
+      run.triggered_by || null,
+      run.status,
+      run.orders_checked,
+      run.actions_fired,
+      run.error_message || null,
+    ]);
+
+    return this.mapRowToRun(result.rows[0]);
+  }
+
+  async finishRun(
+    id: number,
+    update: Pick<SchedulerRun, 'status' | 'orders_checked' | 'actions_fired' | 'error_message'>
+  ): Promise<SchedulerRun | null> {
+    const query = `
+      UPDATE scheduler_runs
+      SET status = $1, orders_checked = $2, actions_fired = $3, error_message = $4, finished_at = NOW()
+      WHERE id = $5
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      update.status,
+      update.orders_checked,
+      update.actions_fired,
+      update.error_message || null,
+      id,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRun(result.rows[0]);
+  }
+
+  async findRecentRuns(limit: number): Promise<SchedulerRun[]> {
+    const result = await this.db.query(
+      'SELECT * FROM scheduler_runs ORDER BY started_at DESC, id DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map((row: any) => this.mapRowToRun(row));
+  }
+
+  async claimExecution(execution: Omit<SchedulerRuleExecution, 'id' | 'created_at'>): Promise<SchedulerRuleExecution | null> {
+    const query = `
+      INSERT INTO scheduler_rule_executions (
+        run_id, rule_id, order_id, delivery_at, action, details, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      ON CONFLICT (rule_id, order_id, delivery_at) DO NOTHING
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      execution.run_id,
+      execution.rule_id,
+      execution.order_id,
+      execution.delivery_at,
+      execution.action,
+      execution.details ? JSON.stringify(execution.details) : null,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToExecution(result.rows[0]);
+  }
+
+  async releaseExecution(id: number): Promise<void> {
+    await this.db.query('DELETE FROM scheduler_rule_executions WHERE id = $1', [id]);
+  }
+
+  async claimSeed(name: string): Promise<boolean> {
+    const result = await this.db.query(
+      'INSERT INTO scheduler_seeds (name, seeded_at) VALUES ($1, NOW()) ON CONFLICT (name) DO NOTHING RETURNING name',
+      [name]
+    );
+    return result.rows.length > 0;
+  }
+
+  private mapRowToRule(row: any): SchedulerRule {
+    return {
+      id: row.id,
+      name: row.name,
+      action: row.action,
+      from_statuses: row.from_statuses || [],
+      target_status: row.target_status,
+      hours_before_delivery: parseFloat(row.hours_before_delivery),
+      caterer_id: row.caterer_id,
+      order_type: row.order_type,
+      order_priority: row.order_priority,
+      escalation_emails: row.escalation_emails || [],
+      is_active: row.is_active,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private mapRowToRun(row: any): SchedulerRun {
+    return {
+      id: row.id,
+      trigger: row.trigger,
+      triggered_by: row.triggered_by,
+      status: row.status,
+      orders_checked: row.orders_checked,
+      actions_fired: row.actions_fired,
+      error_message: row.error_message,
+      started_at: row.started_at,
+      finished_at: row.finished_at,
+    };
+  }
+
+  private mapRowToExecution(row: any): SchedulerRuleExecution {
+    return {
+      id: row.id,
+      run_id: row.run_id,
+      rule_id: row.rule_id,
+      order_id: row.order_id,
+      delivery_at: row.delivery_at,
+      action: row.action,
+      details: row.details,
+      created_at: row.created_at,
+    };
+  }
+}
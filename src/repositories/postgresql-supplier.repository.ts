@@ -0,0 +1,146 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { Supplier, SupplierSearchParams, SupplierListResponse, CreateSupplierDTO, UpdateSupplierDTO } from '../models/supplier';
+import { SupplierRepository } from './supplier.repository';
+
+export class PostgreSQLSupplierRepository implements SupplierRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async create(supplier: CreateSupplierDTO): Promise<Supplier> {
+    const query = `
+      INSERT INTO suppliers (
+        supplier_name, contact_name, email, phone, address,
+        lead_time_days, notes, is_active, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      supplier.supplier_name,
+      supplier.contact_name || null,
+      supplier.email || null,
+      supplier.phone || null,
+      supplier.address || null,
+      supplier.lead_time_days ?? null,
+      supplier.notes || null,
+      supplier.is_active ?? true,
+    ]);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<Supplier | null> {
+    const result = await this.db.query('SELECT * FROM suppliers WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  async findAll(params: SupplierSearchParams): Promise<SupplierListResponse> {
+    const limit = params.limit || 50;
+    const offset = params.page && params.limit ? (params.page - 1) * params.limit : 0;
+
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (params.search) {
+      conditions.push(`(
+        supplier_name ILIKE $${paramIndex} OR
+        contact_name ILIKE $${paramIndex} OR
+        email ILIKE $${paramIndex}
+      )`);
+      queryParams.push(`%${params.search}%`);
+      paramIndex++;
+    }
+    if (params.is_active !== undefined) {
+      conditions.push(`is_active = $${paramIndex++}`);
+      queryParams.push(params.is_active);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Build ORDER BY clause with SQL injection protection
+    const allowedSortFields = ['id', 'supplier_name', 'lead_time_days', 'created_at', 'updated_at'];
+    const sortBy = allowedSortFields.includes(params.sortBy || '') ? params.sortBy : 'supplier_name';
+    const sortOrder = params.sortOrder === 'desc' ? 'DESC' : 'ASC';
+
+    const countResult = await this.db.query(`SELECT COUNT(*) as total FROM suppliers ${whereClause}`, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    const dataQuery = `
+      SELECT * FROM suppliers
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `;
+    const result = await this.db.query(dataQuery, [...queryParams, limit, offset]);
+
+    return {
+      suppliers: result.rows,
+      total,
+      page: params.page || Math.floor(offset / limit) + 1,
+      limit,
+    };
+  }
+
+  async update(id: number, supplier: UpdateSupplierDTO): Promise<Supplier | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (supplier.supplier_name !== undefined) {
+      updates.push(`supplier_name = $${paramIndex++}`);
+      values.push(supplier.supplier_name);
+    }
+    if (supplier.contact_name !== undefined) {
+      updates.push(`contact_name = $${paramIndex++}`);
+      values.push(supplier.contact_name || null);
+    }
+    if (supplier.email !== undefined) {
+      updates.push(`email = $${paramIndex++}`);
+      values.push(supplier.email || null);
+    }
+    if (supplier.phone !== undefined) {
+      updates.push(`phone = $${paramIndex++}`);
+      values.push(supplier.phone || null);
+    }
+    if (supplier.address !== undefined) {
+      updates.push(`address = $${paramIndex++}`);
+      values.push(supplier.address || null);
+    }
+    if (supplier.lead_time_days !== undefined) {
+      updates.push(`lead_time_days = $${paramIndex++}`);
+      values.push(supplier.lead_time_days ?? null);
+    }
+    if (supplier.notes !== undefined) {
+      updates.push(`notes = $${paramIndex++}`);
+      values.push(supplier.notes || null);
+    }
+    if (supplier.is_active !== undefined) {
+      updates.push(`is_active = $${paramIndex++}`);
+      values.push(supplier.is_active);
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    updates.push(`updated_at = NOW()`);
+    values.push(id);
+
+    const query = `
+      UPDATE suppliers
+      SET ${updates.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    const result = await this.db.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM suppliers WHERE id = $1', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async count(): Promise<number> {
+    const result = await this.db.query('SELECT COUNT(*) as total FROM suppliers');
+    return parseInt(result.rows[0].total);
+  }
+}
@@ -0,0 +1,125 @@
+import { DatabaseAdapter } from '../database/adapter';
+import { UserTwoFactor, TwoFactorPolicy, UpdateTwoFactorPolicyDTO } from '../models/two-factor';
+import { TwoFactorRepository } from './two-factor.repository';
+
+export class PostgreSQLTwoFactorRepository implements TwoFactorRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  async findByUserId(userId: number): Promise<UserTwoFactor | null> {
+    const result = await this.db.query('SELECT * FROM user_two_factor WHERE user_id = $1', [userId]);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async saveSecret(userId: number, secretEncrypted: string): Promise<UserTwoFactor> {
+    const query = `
+      INSERT INTO user_two_factor (user_id, secret_encrypted, enabled_at, last_used_step, created_at, updated_at)
+      VALUES ($1, $2, NULL, NULL, NOW(), NOW())
+      ON CONFLICT (user_id) DO UPDATE SET
+        secret_encrypted = EXCLUDED.secret_encrypted,
+        enabled_at = NULL,
+        last_used_step = NULL,
+        updated_at = NOW()
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [userId, secretEncrypted]);
+    return this.mapRow(result.rows[0]);
+  }
+
+  async enable(userId: number, usedStep: number): Promise<void> {
+    await this.db.query(
+      'UPDATE user_two_factor SET enabled_at = NOW(), last_used_step = $2, updated_at = NOW() WHERE user_id = $1',
+      [userId, usedStep]
+    );
+  }
+
+  async markStepUsed(userId: number, step: number): Promise<boolean> {
+    const query = `
+      UPDATE user_two_factor SET last_used_step = $2, updated_at = NOW()
+      WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)
+    `;
+    const result = await this.db.query(query, [userId, step]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async delete(userId: number): Promise<boolean> {
+    await this.db.query('DELETE FROM two_factor_backup_codes WHERE user_id = $1', [userId]);
+    const result = await this.db.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async replaceBackupCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await this.db.query('DELETE FROM two_factor_backup_codes WHERE user_id = $1', [userId]);
+    for (const codeHash of codeHashes) {
+      await this.db.query(
+        'INSERT INTO two_factor_backup_codes (user_id, code_hash, created_at) VALUES ($1, $2, NOW())',
+        [userId, codeHash]
+      );
+    }
+  }
+
+  async consumeBackupCode(userId: number, codeHash: string): Promise<boolean> {
+    const query = `
+      UPDATE two_factor_backup_codes SET used_at = NOW()
+      WHERE id = (
+        SELECT id FROM two_factor_backup_codes
+        WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+        LIMIT 1
+      ) AND used_at IS NULL
+    `;
+    const result = await this.db.query(query, [userId, codeHash]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async countUnusedBackupCodes(userId: number): Promise<number> {
+    const result = await this.db.query(
+      'SELECT COUNT(*) AS total FROM two_factor_backup_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    return parseInt(result.rows[0].total, 10);
+  }
+
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    const result = await this.db.query('SELECT * FROM two_factor_policy WHERE id = 1');
+    if (!result.rows[0]) {
+      return { required_roles: [], required_role_ids: [], updated_by_user_id: null, updated_at: null };
+    }
+    return this.mapPolicyRow(result.rows[0]);
+  }
+
+  async updatePolicy(policy: UpdateTwoFactorPolicyDTO, updatedBy: number): Promise<TwoFactorPolicy> {
+    const current = await this.getPolicy();
+    const query = `
+      INSERT INTO two_factor_policy (id, required_roles, required_role_ids, updated_by_user_id, updated_at)
+      VALUES (1, $1, $2, $3, NOW())
+      ON CONFLICT (id) DO UPDATE SET
+        required_roles = EXCLUDED.required_roles,
+        required_role_ids = EXCLUDED.required_role_ids,
+        updated_by_user_id = EXCLUDED.updated_by_user_id,
+        updated_at = NOW()
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      JSON.stringify(policy.required_roles ?? current.required_roles),
+      JSON.stringify(policy.required_role_ids ?? current.required_role_ids),
+      updatedBy,
+    ]);
+    return this.mapPolicyRow(result.rows[0]);
+  }
+
+  private mapRow(row: any): UserTwoFactor {
+    return {
+      ...row,
+      last_used_step: row.last_used_step !== null && row.last_used_step !== undefined ? parseInt(row.last_used_step, 10) : null,
+    };
+  }
+
+  private mapPolicyRow(row: any): TwoFactorPolicy {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || []);
+    return {
+      required_roles: parse(row.required_roles),
+      required_role_ids: parse(row.required_role_ids),
+      updated_by_user_id: row.updated_by_user_id ?? null,
+      updated_at: row.updated_at ?? null,
+    };
+  }
+}
@@ -27,6 +27,15 @@ function safeParsePermissions(value: any): any {
   return value;
 }
 
+// Users with the name and permissions of their custom role and whether they use 2FA
+const USER_SELECT = `
+  SELECT u.*, r.name AS role_name, r.permissions AS role_permissions,
+    (tf.enabled_at IS NOT NULL) AS two_factor_enabled
+  FROM users u
+  LEFT JOIN roles r ON r.id = u.role_id
+  LEFT JOIN user_two_factor tf ON tf.user_id = u.id
+`;
+
 export class PostgreSQLUserRepository implements UserRepository {
   constructor(private db: DatabaseAdapter) {}
 
@@ -48,44 +57,29 @@ export class PostgreSQLUserRepository implements UserRepository {
       user.permissions ? JSON.stringify(user.permissions) : null,
     ]);
     
-    const row = result.rows[0];
-    return {
-      ...row,
-      permissions: safeParsePermissions(row.permissions),
-    };
+    return (await this.findById(result.rows[0].id))!;
   }
 
   async findById(id: number): Promise<User | null> {
-    const query = 'SELECT * FROM users WHERE id = $1';
+    const query = `${USER_SELECT} WHERE u.id = $1`;
     const result = await this.db.query(query, [id]);
     if (!result.rows[0]) return null;
     
-    const row = result.rows[0];
-    return {
-      ...row,
-      permissions: safeParsePermissions(row.permissions),
-    };
+    return this.mapRowToUser(result.rows[0]);
   }
 
   async findByEmail(email: string): Promise<User | null> {
-    const query = 'SELECT * FROM users WHERE email = $1';
+    const query = `${USER_SELECT} WHERE u.email = $1`;
     const result = await this.db.query(query, [email]);
     if (!result.rows[0]) return null;
     
-    const row = result.rows[0];
-    return {
-      ...row,
-      permissions: safeParsePermissions(row.permissions),
-    };
+    return this.mapRowToUser(result.rows[0]);
   }
 
   async findAll(): Promise<User[]> {
-    const query = 'SELECT * FROM users ORDER BY created_at DESC';
+    const query = `${USER_SELECT} ORDER BY u.created_at DESC`;
     const result = await this.db.query(query);
-    return result.rows.map((row: any) => ({
-      ...row,
-      permissions: safeParsePermissions(row.permissions),
-    }));
+    return result.rows.map((row: any) => this.mapRowToUser(row));
   }
 
   async update(id: number, user: UpdateUserDTO): Promise<User | null> {
@@ -105,6 +99,10 @@ export class PostgreSQLUserRepository implements UserRepository {
       updates.push(`permissions = $${paramIndex++}`);
       values.push(user.permissions ? JSON.stringify(user.permissions) : null);
     }
+    if (user.role_id !== undefined) {
+      updates.push(`role_id = $${paramIndex++}`);
+      values.push(user.role_id);
+    }
 
     if (updates.length === 0) {
       return this.findById(id);
@@ -122,11 +120,7 @@ export class PostgreSQLUserRepository implements UserRepository {
     const result = await this.db.query(query, values);
     if (!result.rows[0]) return null;
     
-    const row = result.rows[0];
-    return {
-      ...row,
-      permissions: safeParsePermissions(row.permissions),
-    };
+    return this.findById(id);
   }
 
   async updatePassword(id: number, passwordHash: string): Promise<void> {
@@ -151,5 +145,16 @@ export class PostgreSQLUserRepository implements UserRepository {
     const result = await this.db.query(query);
     return parseInt(result.rows[0].total, 10);
   }
-}
 
+  private mapRowToUser(row: any): User {
+    const { role_name, role_permissions, ...user } = row;
+    return {
+      ...user,
+      permissions: safeParsePermissions(row.permissions),
+      role_id: row.role_id ?? null,
+      role_name: role_name ?? null,
+      role_permissions: safeParsePermissions(role_permissions),
+      two_factor_enabled: row.two_factor_enabled === true,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  PurchaseOrder,
+  PurchaseOrderData,
+  PurchaseOrderLine,
+  PurchaseOrderSearchParams,
+  PurchaseOrderListResponse,
+  PurchaseOrderStatus,
+} from '../models/purchase-order';
+
+export interface PurchaseOrderRepository {
+  // Assigns the PO number; new purchase orders start as drafts
+  create(data: PurchaseOrderData, createdBy?: number | null): Promise<PurchaseOrder>;
+  findById(id: number): Promise<PurchaseOrder | null>;
+  findAll(params: PurchaseOrderSearchParams): Promise<PurchaseOrderListResponse>;
+  // Replaces the lines when they are given
+  update(id: number, data: Partial<PurchaseOrderData>): Promise<PurchaseOrder | null>;
+  // Stamps sent_at when sent and received_at when fully received
+  updateStatus(id: number, status: PurchaseOrderStatus): Promise<PurchaseOrder | null>;
+  addReceivedQuantity(lineId: number, quantity: number): Promise<void>;
+  delete(id: number): Promise<boolean>;
+  // Lines of draft, sent and partially received purchase orders
+  findOpenLines(): Promise<PurchaseOrderLine[]>;
+  countBySupplier(supplierId: number): Promise<number>;
+}
@@ -0,0 +1,9 @@
+import { ClientLedgerRecords } from '../models/receivables';
+
+export interface ReceivablesRepository {
+  /**
+   * Non-cancelled orders delivered on or before upTo, plus payments, completed refunds and
+   * invoices recorded on or before upTo. All clients when clientId is omitted.
+   */
+  findLedgerRecords(clientId?: number, upTo?: string): Promise<ClientLedgerRecords>;
+}
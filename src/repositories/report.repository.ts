@@ -0,0 +1,7 @@
+import { ReportParams, RevenueReportRow, StatusProgressionReportRow } from '../models/report';
+
+export interface ReportRepository {
+  // One row per group, or a single totals row when grouped is false
+  aggregateRevenue(params: ReportParams, grouped: boolean): Promise<RevenueReportRow[]>;
+  aggregateStatusProgression(params: ReportParams, grouped: boolean): Promise<StatusProgressionReportRow[]>;
+}
@@ -0,0 +1,12 @@
+import { CustomRole, CreateRoleDTO, UpdateRoleDTO } from '../models/permission';
+
+export interface RoleRepository {
+  create(role: CreateRoleDTO): Promise<CustomRole>;
+  findById(id: number): Promise<CustomRole | null>;
+  findByName(name: string): Promise<CustomRole | null>;
+  // Sorted by name, with the number of users assigned
+  findAll(): Promise<CustomRole[]>;
+  update(id: number, role: UpdateRoleDTO): Promise<CustomRole | null>;
+  delete(id: number): Promise<boolean>;
+  countUsers(id: number): Promise<number>;
+}
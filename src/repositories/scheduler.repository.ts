@@ -0,0 +1,17 @@
+import { SchedulerRule, SchedulerRuleDTO, SchedulerRun, SchedulerRuleExecution } from '../models/scheduler';
+
+export interface SchedulerRepository {
+  findAllRules(): Promise<SchedulerRule[]>;
+  createRule(rule: SchedulerRuleDTO): Promise<SchedulerRule>;
+  updateRule(id: number, rule: SchedulerRuleDTO): Promise<SchedulerRule | null>;
+  deleteRulesExcept(ids: number[]): Promise<number>;
+  createRun(run: Omit<SchedulerRun, 'id' | 'started_at' | 'finished_at'>): Promise<SchedulerRun>;
+  finishRun(id: number, update: Pick<SchedulerRun, 'status' | 'orders_checked' | 'actions_fired' | 'error_message'>): Promise<SchedulerRun | null>;
+  findRecentRuns(limit: number): Promise<SchedulerRun[]>;
+  // Returns null when this rule already fired for the order and delivery instant
+  claimExecution(execution: Omit<SchedulerRuleExecution, 'id' | 'created_at'>): Promise<SchedulerRuleExecution | null>;
+  // Drop a claimed execution whose action failed so the next run retries it
+  releaseExecution(id: number): Promise<void>;
+  // Returns true only for the first caller to claim the named seed
+  claimSeed(name: string): Promise<boolean>;
+}
@@ -0,0 +1,10 @@
+import { Supplier, SupplierSearchParams, SupplierListResponse, CreateSupplierDTO, UpdateSupplierDTO } from '../models/supplier';
+
+export interface SupplierRepository {
+  create(supplier: CreateSupplierDTO): Promise<Supplier>;
+  findById(id: number): Promise<Supplier | null>;
+  findAll(params: SupplierSearchParams): Promise<SupplierListResponse>;
+  update(id: number, supplier: UpdateSupplierDTO): Promise<Supplier | null>;
+  delete(id: number): Promise<boolean>;
+  count(): Promise<number>;
+}
@@ -0,0 +1,18 @@
+import { UserTwoFactor, TwoFactorPolicy, UpdateTwoFactorPolicyDTO } from '../models/two-factor';
+
+export interface TwoFactorRepository {
+  findByUserId(userId: number): Promise<UserTwoFactor | null>;
+  // Starts (or restarts) enrolment: stores the secret, not yet enabled
+  saveSecret(userId: number, secretEncrypted: string): Promise<UserTwoFactor>;
+  enable(userId: number, usedStep: number): Promise<void>;
+  // Records an accepted step; false if a code of this or a later step was already used
+  markStepUsed(userId: number, step: number): Promise<boolean>;
+  // Removes enrolment and backup codes
+  delete(userId: number): Promise<boolean>;
+  replaceBackupCodes(userId: number, codeHashes: string[]): Promise<void>;
+  // Marks an unused backup code as used; false if none matches
+  consumeBackupCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedBackupCodes(userId: number): Promise<number>;
+  getPolicy(): Promise<TwoFactorPolicy>;
+  updatePolicy(policy: UpdateTwoFactorPolicyDTO, updatedBy: number): Promise<TwoFactorPolicy>;
+}
@@ -1,12 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { AddonItemService } from '../services/addon-item.service';
 import { CreateAddonItemDTO, UpdateAddonItemDTO, AddonItemSearchParams } from '../models/addon-item';
+import { imageUpload } from '../middleware/image-upload';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const addonItemRouter = Router();
 const addonItemService = new AddonItemService();
 
-addonItemRouter.post('/', async (req: Request, res: Response) => {
+addonItemRouter.use(requireAuth);
+
+addonItemRouter.post('/', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const addonItemData: CreateAddonItemDTO = req.body;
     const addonItem = await addonItemService.createAddonItem(addonItemData);
@@ -17,7 +21,7 @@ addonItemRouter.post('/', async (req: Request, res: Response) => {
   }
 });
 
-addonItemRouter.get('/', async (req: Request, res: Response) => {
+addonItemRouter.get('/', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     const params: AddonItemSearchParams = {
       search: req.query.search as string,
@@ -36,7 +40,7 @@ addonItemRouter.get('/', async (req: Request, res: Response) => {
   }
 });
 
-addonItemRouter.get('/:id', async (req: Request, res: Response) => {
+addonItemRouter.get('/:id', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const addonItem = await addonItemService.getAddonItemById(id);
@@ -50,7 +54,7 @@ addonItemRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-addonItemRouter.put('/:id', async (req: Request, res: Response) => {
+addonItemRouter.put('/:id', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const addonItemData: UpdateAddonItemDTO = req.body;
@@ -65,7 +69,7 @@ addonItemRouter.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-addonItemRouter.delete('/:id', async (req: Request, res: Response) => {
+addonItemRouter.delete('/:id', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await addonItemService.deleteAddonItem(id);
@@ -79,7 +83,90 @@ addonItemRouter.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-addonItemRouter.delete('/', async (req: Request, res: Response) => {
+/**
+ * @swagger
+ * /addon-items/{id}/image:
+ *   post:
+ *     summary: Upload the add-on item image
+ *     description: Accepts a JPEG, PNG or WebP image, stores it resized to full size (max 1600px) and a thumbnail (max 320px) as WebP, and sets image_url and image_thumbnail_url. A previously uploaded image is deleted.
+ *     tags: [Addon Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Updated add-on item
+ *       400:
+ *         description: Missing, oversized or invalid image
+ *       404:
+ *         description: Addon item not found
+ */
+addonItemRouter.post('/:id/image', requirePermission('menu.manage'), imageUpload, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const addonItem = await addonItemService.uploadImage(id, req.file!.buffer, req.file!.mimetype);
+    if (!addonItem) {
+      return res.status(404).json({ error: 'Addon item not found' });
+    }
+    res.json(addonItem);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to upload add-on item image', error, { method: 'POST', url: `/addon-items/${req.params.id}/image` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /addon-items/{id}/image:
+ *   delete:
+ *     summary: Remove the add-on item image
+ *     description: Clears image_url and image_thumbnail_url and deletes uploaded image files.
+ *     tags: [Addon Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Updated add-on item
+ *       404:
+ *         description: Addon item not found
+ */
+addonItemRouter.delete('/:id/image', requirePermission('menu.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const addonItem = await addonItemService.deleteImage(id);
+    if (!addonItem) {
+      return res.status(404).json({ error: 'Addon item not found' });
+    }
+    res.json(addonItem);
+  } catch (error: any) {
+    Logger.error('Failed to delete add-on item image', error, { method: 'DELETE', url: `/addon-items/${req.params.id}/image` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+addonItemRouter.delete('/', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
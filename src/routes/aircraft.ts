@@ -0,0 +1,359 @@
+import { Router, Request, Response } from 'express';
+import { AircraftService } from '../services/aircraft.service';
+import { CreateAircraftDTO, UpdateAircraftDTO, AircraftSearchParams } from '../models/aircraft';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const aircraftRouter = Router();
+const aircraftService = new AircraftService();
+
+aircraftRouter.use(requireAuth);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Aircraft:
+ *       type: object
+ *       required:
+ *         - tail_number
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: Auto-generated primary key
+ *         tail_number:
+ *           type: string
+ *           description: Registration, stored uppercase
+ *         aircraft_type:
+ *           type: string
+ *         client_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Operator when they are a client
+ *         operator_name:
+ *           type: string
+ *         oven_type:
+ *           type: string
+ *           description: Galley oven, printed on the caterer PDF
+ *         storage_limits:
+ *           type: string
+ *           description: Galley storage limits, printed on the caterer PDF
+ *         galley_notes:
+ *           type: string
+ *           description: Other galley notes, printed on the caterer PDF
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     CreateAircraft:
+ *       type: object
+ *       required:
+ *         - tail_number
+ *       properties:
+ *         tail_number:
+ *           type: string
+ *           example: "N650GX"
+ *         aircraft_type:
+ *           type: string
+ *           example: "Gulfstream G650"
+ *         client_id:
+ *           type: integer
+ *           example: 12
+ *         operator_name:
+ *           type: string
+ *           example: "Skyline Charter"
+ *         oven_type:
+ *           type: string
+ *           example: "Convection oven, max 2 half-pans"
+ *         storage_limits:
+ *           type: string
+ *           example: "1 chiller drawer, no freezer"
+ *         galley_notes:
+ *           type: string
+ *           example: "Deliver hot items in foil, no glass"
+ */
+
+/**
+ * @swagger
+ * /aircraft:
+ *   post:
+ *     summary: Register an aircraft
+ *     tags: [Aircraft]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateAircraft'
+ *     responses:
+ *       201:
+ *         description: Aircraft registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Aircraft'
+ *       400:
+ *         description: Validation error or tail number already registered
+ */
+aircraftRouter.post('/', requirePermission('aircraft.manage'), async (req: Request, res: Response) => {
+  try {
+    const aircraftData: CreateAircraftDTO = req.body;
+    const aircraft = await aircraftService.createAircraft(aircraftData);
+    res.status(201).json(aircraft);
+  } catch (error: any) {
+    Logger.error('Failed to create aircraft', error, {
+      method: 'POST',
+      url: '/aircraft',
+      body: req.body,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /aircraft:
+ *   get:
+ *     summary: List registered aircraft with pagination, search, and sorting
+ *     tags: [Aircraft]
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Searches tail number, type and operator
+ *       - in: query
+ *         name: client_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [id, tail_number, aircraft_type, operator_name, created_at, updated_at]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: List of aircraft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 aircraft:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Aircraft'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+aircraftRouter.get('/', requirePermission('aircraft.read'), async (req: Request, res: Response) => {
+  try {
+    const params: AircraftSearchParams = {
+      search: req.query.search as string,
+      client_id: req.query.client_id ? parseInt(req.query.client_id as string) : undefined,
+      sortBy: req.query.sortBy as string,
+      sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'asc',
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    };
+    const result = await aircraftService.listAircraft(params);
+    res.json(result);
+  } catch (error: any) {
+    Logger.error('Failed to list aircraft', error, {
+      method: 'GET',
+      url: '/aircraft',
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /aircraft/tail/{tailNumber}:
+ *   get:
+ *     summary: Look up an aircraft by tail number
+ *     tags: [Aircraft]
+ *     parameters:
+ *       - in: path
+ *         name: tailNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Aircraft found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Aircraft'
+ *       404:
+ *         description: Tail number not registered
+ */
+aircraftRouter.get('/tail/:tailNumber', requirePermission('aircraft.read'), async (req: Request, res: Response) => {
+  try {
+    const aircraft = await aircraftService.getAircraftByTailNumber(req.params.tailNumber);
+    if (!aircraft) {
+      return res.status(404).json({ error: 'Aircraft not found' });
+    }
+    res.json(aircraft);
+  } catch (error: any) {
+    Logger.error('Failed to look up aircraft by tail number', error, {
+      method: 'GET',
+      url: `/aircraft/tail/${req.params.tailNumber}`,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /aircraft/{id}:
+ *   get:
+ *     summary: Get aircraft by ID
+ *     tags: [Aircraft]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Aircraft found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Aircraft'
+ *       404:
+ *         description: Aircraft not found
+ */
+aircraftRouter.get('/:id', requirePermission('aircraft.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const aircraft = await aircraftService.getAircraftById(id);
+    if (!aircraft) {
+      return res.status(404).json({ error: 'Aircraft not found' });
+    }
+    res.json(aircraft);
+  } catch (error: any) {
+    Logger.error('Failed to get aircraft by ID', error, {
+      method: 'GET',
+      url: `/aircraft/${req.params.id}`,
+      aircraftId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /aircraft/{id}:
+ *   put:
+ *     summary: Update an aircraft
+ *     tags: [Aircraft]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateAircraft'
+ *     responses:
+ *       200:
+ *         description: Aircraft updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Aircraft'
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Aircraft not found
+ */
+aircraftRouter.put('/:id', requirePermission('aircraft.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const aircraftData: UpdateAircraftDTO = req.body;
+    const aircraft = await aircraftService.updateAircraft(id, aircraftData);
+    if (!aircraft) {
+      return res.status(404).json({ error: 'Aircraft not found' });
+    }
+    res.json(aircraft);
+  } catch (error: any) {
+    Logger.error('Failed to update aircraft', error, {
+      method: 'PUT',
+      url: `/aircraft/${req.params.id}`,
+      aircraftId: req.params.id,
+      body: req.body,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /aircraft/{id}:
+ *   delete:
+ *     summary: Delete an aircraft
+ *     description: Orders keep their tail number and are unlinked from the registry.
+ *     tags: [Aircraft]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Aircraft deleted
+ *       404:
+ *         description: Aircraft not found
+ */
+aircraftRouter.delete('/:id', requirePermission('aircraft.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await aircraftService.deleteAircraft(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Aircraft not found' });
+    }
+    res.json({ message: 'Aircraft deleted successfully' });
+  } catch (error: any) {
+    Logger.error('Failed to delete aircraft', error, {
+      method: 'DELETE',
+      url: `/aircraft/${req.params.id}`,
+      aircraftId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
@@ -2,11 +2,14 @@ import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { AirportService } from '../services/airport.service';
 import { CreateAirportDTO, AirportSearchParams } from '../models/airport';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const airportRouter = Router();
 const airportService = new AirportService();
 
+airportRouter.use(requireAuth);
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -51,6 +54,10 @@ const upload = multer({
  *           pattern: '^[A-Z]{4}$'
  *           description: ICAO code (4 uppercase letters)
  *           example: KJFK
+ *         time_zone:
+ *           type: string
+ *           description: IANA time zone of the airport; delivery times are local to it
+ *           example: America/New_York
  *         created_at:
  *           type: string
  *           format: date-time
@@ -70,6 +77,9 @@ const upload = multer({
  *         airport_code_icao:
  *           type: string
  *           pattern: '^[A-Z]{4}$'
+ *         time_zone:
+ *           type: string
+ *           description: IANA time zone. Looked up from the ICAO/IATA code when omitted
  */
 
 /**
@@ -94,7 +104,7 @@ const upload = multer({
  *       400:
  *         description: Validation error
  */
-airportRouter.post('/', async (req: Request, res: Response) => {
+airportRouter.post('/', requirePermission('airports.manage'), async (req: Request, res: Response) => {
   try {
     const airportData: CreateAirportDTO = req.body;
     const airport = await airportService.createAirport(airportData);
@@ -125,7 +135,7 @@ airportRouter.post('/', async (req: Request, res: Response) => {
  *         name: sortBy
  *         schema:
  *           type: string
- *           enum: [id, airport_name, airport_code_iata, airport_code_icao, created_at, updated_at]
+ *           enum: [id, airport_name, airport_code_iata, airport_code_icao, time_zone, created_at, updated_at]
  *         description: Field to sort by
  *       - in: query
  *         name: sortOrder
@@ -176,7 +186,7 @@ airportRouter.post('/', async (req: Request, res: Response) => {
  *                 offset:
  *                   type: integer
  */
-airportRouter.get('/', async (req: Request, res: Response) => {
+airportRouter.get('/', requirePermission('airports.read'), async (req: Request, res: Response) => {
   try {
     const params: AirportSearchParams = {
       search: req.query.search as string,
@@ -220,7 +230,7 @@ airportRouter.get('/', async (req: Request, res: Response) => {
  *       404:
  *         description: Airport not found
  */
-airportRouter.get('/:id', async (req: Request, res: Response) => {
+airportRouter.get('/:id', requirePermission('airports.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const airport = await airportService.getAirportById(id);
@@ -243,6 +253,62 @@ airportRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /airports/{id}:
+ *   put:
+ *     summary: Update an airport
+ *     description: When the codes change and no time_zone is given, the time zone is looked up again for the new codes.
+ *     tags: [Airports]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateAirport'
+ *     responses:
+ *       200:
+ *         description: Airport updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Airport'
+ *       404:
+ *         description: Airport not found
+ *       400:
+ *         description: Validation error
+ */
+airportRouter.put('/:id', requirePermission('airports.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const airportData: Partial<CreateAirportDTO> = req.body;
+    const airport = await airportService.updateAirport(id, airportData);
+    if (!airport) {
+      Logger.warn('Airport not found for update', {
+        method: 'PUT',
+        url: `/airports/${id}`,
+        airportId: id,
+      });
+      return res.status(404).json({ error: 'Airport not found' });
+    }
+    res.json(airport);
+  } catch (error: any) {
+    Logger.error('Failed to update airport', error, {
+      method: 'PUT',
+      url: `/airports/${req.params.id}`,
+      airportId: req.params.id,
+      body: req.body,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
 /**
  * @swagger
  * /airports/{id}:
@@ -261,7 +327,7 @@ airportRouter.get('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: Airport not found
  */
-airportRouter.delete('/:id', async (req: Request, res: Response) => {
+airportRouter.delete('/:id', requirePermission('airports.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await airportService.deleteAirport(id);
@@ -316,7 +382,7 @@ airportRouter.delete('/:id', async (req: Request, res: Response) => {
  *                 deleted:
  *                   type: integer
  */
-airportRouter.delete('/', async (req: Request, res: Response) => {
+airportRouter.delete('/', requirePermission('airports.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!Array.isArray(ids) || ids.length === 0) {
@@ -372,7 +438,7 @@ airportRouter.delete('/', async (req: Request, res: Response) => {
  *       400:
  *         description: Invalid file or validation errors
  */
-airportRouter.post('/import', (req: Request, res: Response, next: NextFunction) => {
+airportRouter.post('/import', requirePermission('airports.manage'), (req: Request, res: Response, next: NextFunction) => {
   upload.single('file')(req, res, (err: any) => {
     if (err) {
       Logger.error('File upload error', err, {
@@ -437,6 +503,29 @@ airportRouter.post('/import', (req: Request, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * @swagger
+ * /airports/time-zones/populate:
+ *   post:
+ *     summary: Fill in missing airport time zones from ICAO/IATA codes
+ *     tags: [Airports]
+ *     responses:
+ *       200:
+ *         description: Number of airports updated and the airports whose zone could not be determined
+ */
+airportRouter.post('/time-zones/populate', requirePermission('airports.manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await airportService.populateTimeZones();
+    res.json(result);
+  } catch (error: any) {
+    Logger.error('Failed to populate airport time zones', error, {
+      method: 'POST',
+      url: '/airports/time-zones/populate',
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * @swagger
  * /airports/export:
@@ -452,7 +541,7 @@ airportRouter.post('/import', (req: Request, res: Response, next: NextFunction)
  *               type: string
  *               format: binary
  */
-airportRouter.get('/export', async (req: Request, res: Response) => {
+airportRouter.get('/export', requirePermission('airports.read'), async (req: Request, res: Response) => {
   try {
     Logger.info('Starting airport export', {
       method: 'GET',
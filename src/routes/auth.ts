@@ -5,30 +5,129 @@ import { getUserService } from '../services/user.service';
 import { getEmailService } from '../services/email.service';
 import { env } from '../config/env';
 import { Logger } from '../utils/logger';
-import { requireAuth, requireRole } from '../middleware/auth';
+import { getTwoFactorService } from '../services/two-factor.service';
+import { getLoginSecurityService } from '../services/login-security.service';
+import { UpdateTwoFactorPolicyDTO } from '../models/two-factor';
+import { AttemptSource, ThrottleDecision } from '../models/login-security';
+import { requireAuth, requirePermission, allowPublic, allowAuthenticated } from '../middleware/auth';
 
 export const authRouter = Router();
 
+function getAttemptSource(req: Request): AttemptSource {
+  return {
+    ip: req.ip || req.socket.remoteAddress || null,
+    user_agent: req.headers['user-agent'] || null,
+  };
+}
+
+function sendThrottled(res: Response, decision: ThrottleDecision): void {
+  res.setHeader('Retry-After', String(decision.retry_after_seconds));
+  res.status(429).json({
+    error: decision.reason === 'backoff'
+      ? 'Too many failed attempts. Please wait before trying again.'
+      : 'Too many failed attempts. Access is temporarily locked.',
+    retry_after: decision.retry_after_seconds,
+  });
+}
+
 /**
  * @swagger
  * components:
  *   schemas:
  *     LoginRequest:
  *       type: object
- *       required:
- *         - email
- *         - password
+ *       description: Either email and password, or (second step) challenge_token and code
  *       properties:
  *         email:
  *           type: string
  *           format: email
  *         password:
  *           type: string
+ *         challenge_token:
+ *           type: string
+ *           description: From the first step when two_factor_required is true
+ *         code:
+ *           type: string
+ *           description: 6-digit authenticator code, or a backup code (xxxx-xxxx) when stage is verify
+ *     TwoFactorChallenge:
+ *       type: object
+ *       properties:
+ *         two_factor_required:
+ *           type: boolean
+ *           example: true
+ *         stage:
+ *           type: string
+ *           enum: [verify, setup]
+ *           description: setup means the policy requires 2FA and the user must enrol now
+ *         challenge_token:
+ *           type: string
+ *         expires_in:
+ *           type: integer
+ *           description: Seconds until the challenge token expires
+ *         setup:
+ *           $ref: '#/components/schemas/TwoFactorSetup'
+ *     TwoFactorSetup:
+ *       type: object
+ *       properties:
+ *         secret:
+ *           type: string
+ *           description: Base32 secret for manual entry
+ *         otpauth_url:
+ *           type: string
+ *           description: Render as a QR code for authenticator apps
+ *     TwoFactorStatus:
+ *       type: object
+ *       properties:
+ *         enabled:
+ *           type: boolean
+ *         enabled_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         required:
+ *           type: boolean
+ *           description: Whether the policy requires 2FA for the user's role
+ *         pending_setup:
+ *           type: boolean
+ *         backup_codes_remaining:
+ *           type: integer
+ *     TwoFactorPolicy:
+ *       type: object
+ *       properties:
+ *         required_roles:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [ADMIN, CSR]
+ *         required_role_ids:
+ *           type: array
+ *           items:
+ *             type: integer
+ *           description: Custom roles whose employees must use 2FA
+ *         updated_by_user_id:
+ *           type: integer
+ *           nullable: true
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     TwoFactorCodeRequest:
+ *       type: object
+ *       required:
+ *         - code
+ *       properties:
+ *         code:
+ *           type: string
  *     LoginResponse:
  *       type: object
  *       properties:
  *         accessToken:
  *           type: string
+ *         backup_codes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Only when 2FA was set up during this login; shown once
  *         user:
  *           type: object
  *           properties:
@@ -92,7 +191,7 @@ export const authRouter = Router();
  *       400:
  *         description: Admin already exists or invalid input
  */
-authRouter.post('/setup-admin', async (req: Request, res: Response) => {
+authRouter.post('/setup-admin', allowPublic, async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
     
@@ -122,6 +221,10 @@ authRouter.post('/setup-admin', async (req: Request, res: Response) => {
  * /auth/login:
  *   post:
  *     summary: Login with email and password
+ *     description: |
+ *       Users with two-factor authentication (or required to use it by the policy) get a
+ *       TwoFactorChallenge instead of tokens. Post the challenge_token with a code to finish
+ *       signing in; for stage setup the code comes from the newly added authenticator entry.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -131,7 +234,7 @@ authRouter.post('/setup-admin', async (req: Request, res: Response) => {
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge
  *         headers:
  *           Set-Cookie:
  *             description: Refresh token cookie
@@ -140,28 +243,67 @@ authRouter.post('/setup-admin', async (req: Request, res: Response) => {
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/LoginResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/LoginResponse'
+ *                 - $ref: '#/components/schemas/TwoFactorChallenge'
  *       401:
- *         description: Invalid credentials
+ *         description: Invalid credentials, or invalid/expired challenge or code
+ *       429:
+ *         description: Too many failed attempts for the account or IP; see the Retry-After header
  */
-authRouter.post('/login', async (req: Request, res: Response) => {
+authRouter.post('/login', allowPublic, async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
-    
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password are required' });
-    }
-
+    const { email, password, challenge_token, code } = req.body;
     const authService = getAuthService();
-    const userAgent = req.headers['user-agent'] || null;
-    const ip = req.ip || req.socket.remoteAddress || null;
-    
-    const result = await authService.login(email, password, userAgent, ip);
-    
-    if (!result) {
-      return res.status(401).json({ error: 'Invalid email or password' });
+    const loginSecurity = getLoginSecurityService();
+    const source = getAttemptSource(req);
+    const userAgent = source.user_agent;
+    const ip = source.ip;
+
+    let result;
+    if (challenge_token) {
+      // Second step: two-factor code
+      if (typeof code !== 'string' || !code) {
+        return res.status(400).json({ error: 'Two-factor code is required' });
+      }
+      const accountEmail = await authService.getTwoFactorChallengeEmail(challenge_token);
+      if (!accountEmail) {
+        return res.status(401).json({ error: 'Invalid or expired two-factor code' });
+      }
+
+      const decision = await loginSecurity.checkAttempt(accountEmail, source);
+      if (!decision.allowed) {
+        return sendThrottled(res, decision);
+      }
+
+      result = await authService.completeTwoFactorLogin(challenge_token, code, userAgent, ip);
+      if (!result) {
+        await loginSecurity.recordFailure('two_factor_failed', accountEmail, source);
+        return res.status(401).json({ error: 'Invalid or expired two-factor code' });
+      }
+    } else {
+      if (!email || !password) {
+        return res.status(400).json({ error: 'Email and password are required' });
+      }
+
+      const decision = await loginSecurity.checkAttempt(email, source);
+      if (!decision.allowed) {
+        return sendThrottled(res, decision);
+      }
+
+      const loginResult = await authService.login(email, password, userAgent, ip);
+      if (!loginResult) {
+        await loginSecurity.recordFailure('login_failed', email, source);
+        return res.status(401).json({ error: 'Invalid email or password' });
+      }
+      if ('challenge' in loginResult) {
+        return res.json(loginResult.challenge);
+      }
+      result = loginResult;
     }
 
+    await loginSecurity.recordSuccess(result.user.email);
+
     // Set refresh token cookie
     authService.setRefreshTokenCookie(res, result.refreshToken, req);
 
@@ -171,6 +313,7 @@ authRouter.post('/login', async (req: Request, res: Response) => {
     res.json({
       accessToken: result.accessToken,
       user: userWithoutPassword,
+      ...(result.backupCodes ? { backup_codes: result.backupCodes } : {}),
     });
   } catch (error: any) {
     Logger.error('Login error', error);
@@ -200,7 +343,7 @@ authRouter.post('/login', async (req: Request, res: Response) => {
  *       401:
  *         description: Invalid refresh token
  */
-authRouter.post('/refresh', async (req: Request, res: Response) => {
+authRouter.post('/refresh', allowPublic, async (req: Request, res: Response) => {
   try {
     const refreshToken = req.cookies?.refreshToken;
     
@@ -257,7 +400,7 @@ authRouter.post('/refresh', async (req: Request, res: Response) => {
  *       200:
  *         description: Logout successful
  */
-authRouter.post('/logout', requireAuth, async (req: Request, res: Response) => {
+authRouter.post('/logout', requireAuth, allowAuthenticated, async (req: Request, res: Response) => {
   try {
     const refreshToken = req.cookies?.refreshToken;
     
@@ -298,8 +441,10 @@ authRouter.post('/logout', requireAuth, async (req: Request, res: Response) => {
  *                   type: string
  *       400:
  *         description: Invalid request
+ *       429:
+ *         description: Too many requests or failed attempts; see the Retry-After header
  */
-authRouter.post('/request-password-reset', async (req: Request, res: Response) => {
+authRouter.post('/request-password-reset', allowPublic, async (req: Request, res: Response) => {
   try {
     const { email } = req.body;
     
@@ -307,6 +452,11 @@ authRouter.post('/request-password-reset', async (req: Request, res: Response) =
       return res.status(400).json({ error: 'Email is required' });
     }
 
+    const decision = await getLoginSecurityService().checkAttempt(email, getAttemptSource(req));
+    if (!decision.allowed) {
+      return sendThrottled(res, decision);
+    }
+
     const passwordResetService = getPasswordResetService();
     const result = await passwordResetService.requestOTP(email);
     
@@ -346,8 +496,10 @@ authRouter.post('/request-password-reset', async (req: Request, res: Response) =
  *         description: Password reset successful
  *       400:
  *         description: Invalid OTP or password
+ *       429:
+ *         description: Too many failed attempts, or the OTP was invalidated after too many wrong guesses
  */
-authRouter.post('/reset-password', async (req: Request, res: Response) => {
+authRouter.post('/reset-password', allowPublic, async (req: Request, res: Response) => {
   try {
     const { email, otp, newPassword } = req.body;
     
@@ -359,13 +511,31 @@ authRouter.post('/reset-password', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Password must be at least 8 characters' });
     }
 
+    const loginSecurity = getLoginSecurityService();
+    const source = getAttemptSource(req);
+    const decision = await loginSecurity.checkAttempt(email, source);
+    if (!decision.allowed) {
+      return sendThrottled(res, decision);
+    }
+
     const passwordResetService = getPasswordResetService();
-    const success = await passwordResetService.verifyOTPAndReset(email, otp, newPassword);
+    let success: boolean;
+    try {
+      success = await passwordResetService.verifyOTPAndReset(email, otp, newPassword);
+    } catch (error: any) {
+      if (error.message.includes('Too many')) {
+        await loginSecurity.recordFailure('password_reset_otp_exhausted', email, source);
+        return res.status(429).json({ error: error.message });
+      }
+      throw error;
+    }
     
     if (!success) {
+      await loginSecurity.recordFailure('password_reset_failed', email, source);
       return res.status(400).json({ error: 'Invalid OTP or email' });
     }
-    
+
+    await loginSecurity.recordSuccess(email);
     res.json({ message: 'Password reset successfully' });
   } catch (error: any) {
     Logger.error('Password reset error', error);
@@ -373,3 +543,232 @@ authRouter.post('/reset-password', async (req: Request, res: Response) => {
   }
 });
 
+function handleTwoFactorError(res: Response, error: any, message: string, userId?: number): void {
+  if (error.message?.includes('Validation failed')) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  Logger.error(message, error, { userId });
+  res.status(500).json({ error: message });
+}
+
+/**
+ * @swagger
+ * /auth/2fa:
+ *   get:
+ *     summary: Two-factor authentication status of the signed-in user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorStatus'
+ */
+authRouter.get('/2fa', requireAuth, allowAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const status = await getTwoFactorService().getStatus(req.user!);
+    res.json(status);
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to get two-factor status', req.user?.id);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor setup
+ *     description: Returns a new secret to add to an authenticator app. Confirm it with POST /auth/2fa/enable.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorSetup'
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ */
+authRouter.post('/2fa/setup', requireAuth, allowAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const setup = await getTwoFactorService().beginSetup(req.user!);
+    res.json(setup);
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to start two-factor setup', req.user?.id);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor setup with a code from the authenticator app
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Enabled; the backup codes are only shown this once
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 backup_codes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Invalid code or setup not started
+ */
+authRouter.post('/2fa/enable', requireAuth, allowAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const backupCodes = await getTwoFactorService().confirmSetup(req.user!, req.body?.code);
+    res.json({ backup_codes: backupCodes });
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to enable two-factor authentication', req.user?.id);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/backup-codes:
+ *   post:
+ *     summary: Replace the backup codes
+ *     description: Requires a current authenticator or backup code. Previous backup codes stop working.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: New backup codes, shown once
+ *       400:
+ *         description: Invalid code or 2FA not enabled
+ */
+authRouter.post('/2fa/backup-codes', requireAuth, allowAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const backupCodes = await getTwoFactorService().regenerateBackupCodes(req.user!, req.body?.code);
+    res.json({ backup_codes: backupCodes });
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to regenerate backup codes', req.user?.id);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     description: Requires a current authenticator or backup code; not allowed when the policy requires 2FA for the user's role.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Disabled
+ *       400:
+ *         description: Invalid code, 2FA not enabled, or required by policy
+ */
+authRouter.post('/2fa/disable', requireAuth, allowAuthenticated, async (req: Request, res: Response) => {
+  try {
+    await getTwoFactorService().disable(req.user!, req.body?.code);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to disable two-factor authentication', req.user?.id);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/policy:
+ *   get:
+ *     summary: Get the two-factor policy
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorPolicy'
+ */
+authRouter.get('/2fa/policy', requireAuth, requirePermission('security.manage'), async (req: Request, res: Response) => {
+  try {
+    const policy = await getTwoFactorService().getPolicy();
+    res.json(policy);
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to get two-factor policy', req.user?.id);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/policy:
+ *   put:
+ *     summary: Require two-factor authentication for roles
+ *     description: Users of the listed roles who have not enrolled are asked to set up 2FA at their next login.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               required_roles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [ADMIN, CSR]
+ *               required_role_ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorPolicy'
+ *       400:
+ *         description: Validation error
+ */
+authRouter.put('/2fa/policy', requireAuth, requirePermission('security.manage'), async (req: Request, res: Response) => {
+  try {
+    const policyData: UpdateTwoFactorPolicyDTO = req.body;
+    const policy = await getTwoFactorService().updatePolicy(policyData, req.user!.id);
+    res.json(policy);
+  } catch (error: any) {
+    handleTwoFactorError(res, error, 'Failed to update two-factor policy', req.user?.id);
+  }
+});
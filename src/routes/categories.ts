@@ -1,11 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { CategoryService } from '../services/category.service';
 import { CreateCategoryDTO, UpdateCategoryDTO, CategorySearchParams } from '../models/category';
+import { imageUpload } from '../middleware/image-upload';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const categoryRouter = Router();
 const categoryService = new CategoryService();
 
+categoryRouter.use(requireAuth);
+
 /**
  * @swagger
  * /categories:
@@ -13,7 +17,7 @@ const categoryService = new CategoryService();
  *     summary: Create a new category
  *     tags: [Categories]
  */
-categoryRouter.post('/', async (req: Request, res: Response) => {
+categoryRouter.post('/', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const categoryData: CreateCategoryDTO = req.body;
     const category = await categoryService.createCategory(categoryData);
@@ -35,7 +39,7 @@ categoryRouter.post('/', async (req: Request, res: Response) => {
  *     summary: List categories
  *     tags: [Categories]
  */
-categoryRouter.get('/', async (req: Request, res: Response) => {
+categoryRouter.get('/', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     const params: CategorySearchParams = {
       search: req.query.search as string,
@@ -63,7 +67,7 @@ categoryRouter.get('/', async (req: Request, res: Response) => {
  *     summary: Get category by ID or slug
  *     tags: [Categories]
  */
-categoryRouter.get('/:id', async (req: Request, res: Response) => {
+categoryRouter.get('/:id', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     const idOrSlug = req.params.id;
     const isNumeric = /^\d+$/.test(idOrSlug);
@@ -85,7 +89,7 @@ categoryRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-categoryRouter.put('/:id', async (req: Request, res: Response) => {
+categoryRouter.put('/:id', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const categoryData: UpdateCategoryDTO = req.body;
@@ -103,7 +107,7 @@ categoryRouter.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-categoryRouter.delete('/:id', async (req: Request, res: Response) => {
+categoryRouter.delete('/:id', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await categoryService.deleteCategory(id);
@@ -120,7 +124,90 @@ categoryRouter.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-categoryRouter.delete('/', async (req: Request, res: Response) => {
+/**
+ * @swagger
+ * /categories/{id}/image:
+ *   post:
+ *     summary: Upload the category image
+ *     description: Accepts a JPEG, PNG or WebP image, stores it resized to full size (max 1600px) and a thumbnail (max 320px) as WebP, and sets image_url and image_thumbnail_url. A previously uploaded image is deleted.
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Updated category
+ *       400:
+ *         description: Missing, oversized or invalid image
+ *       404:
+ *         description: Category not found
+ */
+categoryRouter.post('/:id/image', requirePermission('menu.manage'), imageUpload, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const category = await categoryService.uploadImage(id, req.file!.buffer, req.file!.mimetype);
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+    res.json(category);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to upload category image', error, { method: 'POST', url: `/categories/${req.params.id}/image` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /categories/{id}/image:
+ *   delete:
+ *     summary: Remove the category image
+ *     description: Clears image_url and image_thumbnail_url and deletes uploaded image files.
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Updated category
+ *       404:
+ *         description: Category not found
+ */
+categoryRouter.delete('/:id/image', requirePermission('menu.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const category = await categoryService.deleteImage(id);
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+    res.json(category);
+  } catch (error: any) {
+    Logger.error('Failed to delete category image', error, { method: 'DELETE', url: `/categories/${req.params.id}/image` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+categoryRouter.delete('/', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
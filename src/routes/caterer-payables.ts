@@ -0,0 +1,429 @@
+import { Router, Request, Response } from 'express';
+import { getCatererPayableService } from '../services/caterer-payable.service';
+import {
+  CatererPayableSearchParams,
+  CatererPayableStatus,
+  CatererPayablePeriod,
+  CatererBillStatus,
+  CreateCatererBillDTO,
+  PayCatererBillDTO,
+  MarginGroupBy,
+} from '../models/caterer-payable';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const catererPayableRouter = Router();
+
+// All routes require authentication and the permission below (ADMIN holds every permission)
+catererPayableRouter.use(requireAuth);
+catererPayableRouter.use(requirePermission('caterer_payables.manage'));
+
+function parseOptionalInt(value: unknown): number | undefined {
+  return value !== undefined && value !== '' ? Number(value) : undefined;
+}
+
+// Defaults to the current year to date
+function getSearchParams(req: Request): CatererPayableSearchParams {
+  const today = new Date().toISOString().split('T')[0];
+  return {
+    date_from: (req.query.date_from as string) || `${today.substring(0, 4)}-01-01`,
+    date_to: (req.query.date_to as string) || today,
+    caterer_id: parseOptionalInt(req.query.caterer_id),
+    client_id: parseOptionalInt(req.query.client_id),
+    payable_status: (req.query.payable_status as CatererPayableStatus) || undefined,
+  };
+}
+
+function handleError(res: Response, error: any, message: string, context: Record<string, any>) {
+  if (error.message.startsWith('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error.message.startsWith('Caterer not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+  Logger.error(message, error, context);
+  res.status(500).json({ error: error.message });
+}
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     PayableDateFrom:
+ *       in: query
+ *       name: date_from
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: First delivery date included (default January 1 of the current year)
+ *     PayableDateTo:
+ *       in: query
+ *       name: date_to
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: Last delivery date included (default today)
+ *     PayableCatererId:
+ *       in: query
+ *       name: caterer_id
+ *       schema:
+ *         type: integer
+ *     PayableClientId:
+ *       in: query
+ *       name: client_id
+ *       schema:
+ *         type: integer
+ *     PayableStatus:
+ *       in: query
+ *       name: payable_status
+ *       schema:
+ *         type: string
+ *         enum: [unbilled, billed, paid]
+ */
+
+/**
+ * @swagger
+ * /caterer-payables/orders:
+ *   get:
+ *     summary: Caterer cost, margin and payable status per order (Admin only)
+ *     description: Non-cancelled orders with a caterer, by delivery date. Caterer cost is the sum of each item's caterer_cost times its quantity; items_missing_cost counts items without a cost.
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PayableDateFrom'
+ *       - $ref: '#/components/parameters/PayableDateTo'
+ *       - $ref: '#/components/parameters/PayableCatererId'
+ *       - $ref: '#/components/parameters/PayableClientId'
+ *       - $ref: '#/components/parameters/PayableStatus'
+ *     responses:
+ *       200:
+ *         description: Orders with cost and margin
+ *       400:
+ *         description: Invalid parameters
+ */
+catererPayableRouter.get('/orders', async (req: Request, res: Response) => {
+  try {
+    const orders = await getCatererPayableService().getPayableOrders(getSearchParams(req));
+    res.json({ orders });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to load caterer payable orders', {
+      method: 'GET',
+      url: '/caterer-payables/orders',
+      query: req.query,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/summary:
+ *   get:
+ *     summary: Amounts owed to caterers per period, split into unbilled, billed and paid (Admin only)
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PayableDateFrom'
+ *       - $ref: '#/components/parameters/PayableDateTo'
+ *       - $ref: '#/components/parameters/PayableCatererId'
+ *       - $ref: '#/components/parameters/PayableClientId'
+ *       - $ref: '#/components/parameters/PayableStatus'
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [month, quarter, year]
+ *           default: month
+ *     responses:
+ *       200:
+ *         description: One row per caterer, period and currency, with totals per currency
+ *       400:
+ *         description: Invalid parameters
+ */
+catererPayableRouter.get('/summary', async (req: Request, res: Response) => {
+  try {
+    const period = ((req.query.period as string) || 'month') as CatererPayablePeriod;
+    const summary = await getCatererPayableService().getSummary(getSearchParams(req), period);
+    res.json(summary);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to generate caterer payables summary', {
+      method: 'GET',
+      url: '/caterer-payables/summary',
+      query: req.query,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/margins:
+ *   get:
+ *     summary: Margin per order, client or caterer (Admin only)
+ *     description: Revenue is the order total excluding tax; margin is revenue minus caterer cost. orders_missing_cost flags orders whose margin is overstated because some items have no caterer cost.
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PayableDateFrom'
+ *       - $ref: '#/components/parameters/PayableDateTo'
+ *       - $ref: '#/components/parameters/PayableCatererId'
+ *       - $ref: '#/components/parameters/PayableClientId'
+ *       - in: query
+ *         name: group_by
+ *         schema:
+ *           type: string
+ *           enum: [order, client, caterer]
+ *           default: caterer
+ *     responses:
+ *       200:
+ *         description: Margin rows per currency sorted by margin, with totals per currency
+ *       400:
+ *         description: Invalid parameters
+ */
+catererPayableRouter.get('/margins', async (req: Request, res: Response) => {
+  try {
+    const groupBy = ((req.query.group_by as string) || 'caterer') as MarginGroupBy;
+    const report = await getCatererPayableService().getMarginReport(getSearchParams(req), groupBy);
+    res.json(report);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to generate margin report', {
+      method: 'GET',
+      url: '/caterer-payables/margins',
+      query: req.query,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/bills:
+ *   get:
+ *     summary: List caterer bills (Admin only)
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PayableCatererId'
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [billed, paid]
+ *       - in: query
+ *         name: date_from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Bills whose period ends on or after this date
+ *       - in: query
+ *         name: date_to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Bills whose period starts on or before this date
+ *     responses:
+ *       200:
+ *         description: List of bills
+ */
+catererPayableRouter.get('/bills', async (req: Request, res: Response) => {
+  try {
+    const bills = await getCatererPayableService().listBills({
+      caterer_id: parseOptionalInt(req.query.caterer_id),
+      status: (req.query.status as CatererBillStatus) || undefined,
+      date_from: (req.query.date_from as string) || undefined,
+      date_to: (req.query.date_to as string) || undefined,
+    });
+    res.json({ bills });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to list caterer bills', {
+      method: 'GET',
+      url: '/caterer-payables/bills',
+      query: req.query,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/bills:
+ *   post:
+ *     summary: Bill a caterer for a period (Admin only)
+ *     description: Attaches the caterer's unbilled orders delivered in the period (or only order_ids) to a new bill and totals their caterer cost. The orders must share one currency. The orders become billed.
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - caterer_id
+ *               - period_start
+ *               - period_end
+ *             properties:
+ *               caterer_id:
+ *                 type: integer
+ *               period_start:
+ *                 type: string
+ *                 format: date
+ *               period_end:
+ *                 type: string
+ *                 format: date
+ *               bill_number:
+ *                 type: string
+ *                 description: The caterer's invoice or statement number
+ *               notes:
+ *                 type: string
+ *               order_ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       201:
+ *         description: Bill created with its orders
+ *       400:
+ *         description: Invalid input or no unbilled orders
+ *       404:
+ *         description: Caterer not found
+ */
+catererPayableRouter.post('/bills', async (req: Request, res: Response) => {
+  try {
+    const data: CreateCatererBillDTO = req.body;
+    const bill = await getCatererPayableService().createBill(data, req.user!.id);
+    res.status(201).json(bill);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to create caterer bill', {
+      method: 'POST',
+      url: '/caterer-payables/bills',
+      body: req.body,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/bills/{id}:
+ *   get:
+ *     summary: Get a caterer bill with its orders (Admin only)
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Bill details
+ *       404:
+ *         description: Bill not found
+ */
+catererPayableRouter.get('/bills/:id', async (req: Request, res: Response) => {
+  try {
+    const bill = await getCatererPayableService().getBill(parseInt(req.params.id));
+    if (!bill) {
+      return res.status(404).json({ error: 'Bill not found' });
+    }
+    res.json(bill);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to get caterer bill', {
+      method: 'GET',
+      url: `/caterer-payables/bills/${req.params.id}`,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/bills/{id}/pay:
+ *   post:
+ *     summary: Mark a caterer bill as paid (Admin only)
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paid_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *               payment_reference:
+ *                 type: string
+ *                 description: Check number, transfer reference, etc.
+ *     responses:
+ *       200:
+ *         description: Bill marked paid
+ *       400:
+ *         description: Invalid input or bill already paid
+ *       404:
+ *         description: Bill not found
+ */
+catererPayableRouter.post('/bills/:id/pay', async (req: Request, res: Response) => {
+  try {
+    const data: PayCatererBillDTO = req.body || {};
+    const bill = await getCatererPayableService().payBill(parseInt(req.params.id), data);
+    if (!bill) {
+      return res.status(404).json({ error: 'Bill not found' });
+    }
+    res.json(bill);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to mark caterer bill paid', {
+      method: 'POST',
+      url: `/caterer-payables/bills/${req.params.id}/pay`,
+      body: req.body,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-payables/bills/{id}:
+ *   delete:
+ *     summary: Void an unpaid caterer bill (Admin only)
+ *     description: The bill's orders go back to unbilled.
+ *     tags: [Caterer Payables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Bill deleted
+ *       400:
+ *         description: Bill is already paid
+ *       404:
+ *         description: Bill not found
+ */
+catererPayableRouter.delete('/bills/:id', async (req: Request, res: Response) => {
+  try {
+    const deleted = await getCatererPayableService().deleteBill(parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ error: 'Bill not found' });
+    }
+    res.status(204).send();
+  } catch (error: any) {
+    handleError(res, error, 'Failed to delete caterer bill', {
+      method: 'DELETE',
+      url: `/caterer-payables/bills/${req.params.id}`,
+    });
+  }
+});
@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { getCatererPortalService } from '../services/caterer-portal.service';
+import { allowPublic } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+// Public routes - the signed token from the caterer email is the only credential
+export const catererPortalRouter = Router();
+
+catererPortalRouter.use(allowPublic);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CatererResponseRequest:
+ *       type: object
+ *       required:
+ *         - token
+ *         - action
+ *       properties:
+ *         token:
+ *           type: string
+ *         action:
+ *           type: string
+ *           enum: [accept, decline, propose_changes]
+ *         comments:
+ *           type: string
+ *           description: Required for propose_changes
+ */
+
+/**
+ * @swagger
+ * /caterer-portal/order:
+ *   get:
+ *     summary: Get the order behind a caterer response link (no pricing)
+ *     tags: [Caterer Portal]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Order details and whether the caterer already responded
+ *       400:
+ *         description: Invalid or expired link
+ */
+catererPortalRouter.get('/order', async (req: Request, res: Response) => {
+  try {
+    const token = req.query.token as string;
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const view = await getCatererPortalService().getPortalView(token);
+    if (!view) {
+      return res.status(400).json({ error: 'Invalid or expired link' });
+    }
+
+    res.json(view);
+  } catch (error: any) {
+    Logger.error('Failed to load caterer portal order', error, { method: 'GET', url: '/caterer-portal/order' });
+    res.status(500).json({ error: 'Failed to load order' });
+  }
+});
+
+/**
+ * @swagger
+ * /caterer-portal/respond:
+ *   post:
+ *     summary: Accept, decline or propose changes to an order
+ *     description: Accepting moves the order to caterer_confirmed; declining or proposing changes moves it to order_changed. The response is recorded in the order timeline and each link can be used once.
+ *     tags: [Caterer Portal]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CatererResponseRequest'
+ *     responses:
+ *       200:
+ *         description: Response recorded
+ *       400:
+ *         description: Invalid input, or invalid, expired or already used link
+ */
+catererPortalRouter.post('/respond', async (req: Request, res: Response) => {
+  try {
+    const { token, action, comments } = req.body;
+    if (!token || !action) {
+      return res.status(400).json({ error: 'Token and action are required' });
+    }
+
+    const result = await getCatererPortalService().respond(token, { action, comments });
+    if (!result) {
+      return res.status(400).json({ error: 'Invalid, expired or already used link' });
+    }
+
+    res.json({
+      message: 'Thank you - your response has been recorded',
+      ...result,
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to record caterer response', error, { method: 'POST', url: '/caterer-portal/respond' });
+    res.status(500).json({ error: 'Failed to record response' });
+  }
+});
@@ -2,11 +2,14 @@ import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { CatererService } from '../services/caterer.service';
 import { CreateCatererDTO, CatererSearchParams } from '../models/caterer';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const catererRouter = Router();
 const catererService = new CatererService();
 
+catererRouter.use(requireAuth);
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -62,6 +65,10 @@ const upload = multer({
  *         time_zone:
  *           type: string
  *           description: Time zone
+ *         default_currency:
+ *           type: string
+ *           description: ISO 4217 currency code new orders for this caterer default to
+ *           example: EUR
  *         created_at:
  *           type: string
  *           format: date-time
@@ -89,6 +96,9 @@ const upload = multer({
  *           pattern: '^[A-Z]{4}$'
  *         time_zone:
  *           type: string
+ *         default_currency:
+ *           type: string
+ *           example: EUR
  */
 
 /**
@@ -113,7 +123,7 @@ const upload = multer({
  *       400:
  *         description: Validation error or duplicate caterer
  */
-catererRouter.post('/', async (req: Request, res: Response) => {
+catererRouter.post('/', requirePermission('caterers.manage'), async (req: Request, res: Response) => {
   try {
     const catererData: CreateCatererDTO = req.body;
     const caterer = await catererService.createCaterer(catererData);
@@ -195,7 +205,7 @@ catererRouter.post('/', async (req: Request, res: Response) => {
  *                 offset:
  *                   type: integer
  */
-catererRouter.get('/', async (req: Request, res: Response) => {
+catererRouter.get('/', requirePermission('caterers.read'), async (req: Request, res: Response) => {
   try {
     const params: CatererSearchParams = {
       search: req.query.search as string,
@@ -239,7 +249,7 @@ catererRouter.get('/', async (req: Request, res: Response) => {
  *       404:
  *         description: Caterer not found
  */
-catererRouter.get('/:id', async (req: Request, res: Response) => {
+catererRouter.get('/:id', requirePermission('caterers.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const caterer = await catererService.getCatererById(id);
@@ -294,6 +304,8 @@ catererRouter.get('/:id', async (req: Request, res: Response) => {
  *                 type: string
  *               time_zone:
  *                 type: string
+ *               default_currency:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Caterer updated successfully
@@ -306,7 +318,7 @@ catererRouter.get('/:id', async (req: Request, res: Response) => {
  *       400:
  *         description: Validation error or duplicate caterer
  */
-catererRouter.put('/:id', async (req: Request, res: Response) => {
+catererRouter.put('/:id', requirePermission('caterers.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const catererData: Partial<CreateCatererDTO> = req.body;
@@ -349,7 +361,7 @@ catererRouter.put('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: Caterer not found
  */
-catererRouter.delete('/:id', async (req: Request, res: Response) => {
+catererRouter.delete('/:id', requirePermission('caterers.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await catererService.deleteCaterer(id);
@@ -404,7 +416,7 @@ catererRouter.delete('/:id', async (req: Request, res: Response) => {
  *                 deleted:
  *                   type: integer
  */
-catererRouter.delete('/', async (req: Request, res: Response) => {
+catererRouter.delete('/', requirePermission('caterers.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!Array.isArray(ids) || ids.length === 0) {
@@ -460,7 +472,7 @@ catererRouter.delete('/', async (req: Request, res: Response) => {
  *       400:
  *         description: Invalid file or validation errors
  */
-catererRouter.post('/import', (req: Request, res: Response, next: NextFunction) => {
+catererRouter.post('/import', requirePermission('caterers.manage'), (req: Request, res: Response, next: NextFunction) => {
   upload.single('file')(req, res, (err: any) => {
     if (err) {
       Logger.error('File upload error', err, {
@@ -540,7 +552,7 @@ catererRouter.post('/import', (req: Request, res: Response, next: NextFunction)
  *               type: string
  *               format: binary
  */
-catererRouter.get('/export', async (req: Request, res: Response) => {
+catererRouter.get('/export', requirePermission('caterers.read'), async (req: Request, res: Response) => {
   try {
     Logger.info('Starting caterer export', {
       method: 'GET',
@@ -2,11 +2,14 @@ import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { ClientService } from '../services/client.service';
 import { CreateClientDTO, ClientSearchParams } from '../models/client';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const clientRouter = Router();
 const clientService = new ClientService();
 
+clientRouter.use(requireAuth);
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -99,7 +102,7 @@ const upload = multer({
  *       400:
  *         description: Validation error or duplicate client
  */
-clientRouter.post('/', async (req: Request, res: Response) => {
+clientRouter.post('/', requirePermission('clients.manage'), async (req: Request, res: Response) => {
   try {
     const clientData: CreateClientDTO = req.body;
     
@@ -191,7 +194,7 @@ clientRouter.post('/', async (req: Request, res: Response) => {
  *                 offset:
  *                   type: integer
  */
-clientRouter.get('/', async (req: Request, res: Response) => {
+clientRouter.get('/', requirePermission('clients.read'), async (req: Request, res: Response) => {
   try {
     const params: ClientSearchParams = {
       search: req.query.search as string,
@@ -228,7 +231,7 @@ clientRouter.get('/', async (req: Request, res: Response) => {
  *               type: string
  *               format: binary
  */
-clientRouter.get('/export', async (req: Request, res: Response) => {
+clientRouter.get('/export', requirePermission('clients.read'), async (req: Request, res: Response) => {
   try {
     Logger.info('Client export requested', {
       method: 'GET',
@@ -282,7 +285,7 @@ clientRouter.get('/export', async (req: Request, res: Response) => {
  *       404:
  *         description: Client not found
  */
-clientRouter.get('/:id', async (req: Request, res: Response) => {
+clientRouter.get('/:id', requirePermission('clients.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const client = await clientService.getClientById(id);
@@ -345,7 +348,7 @@ clientRouter.get('/:id', async (req: Request, res: Response) => {
  *       400:
  *         description: Validation error or duplicate client
  */
-clientRouter.put('/:id', async (req: Request, res: Response) => {
+clientRouter.put('/:id', requirePermission('clients.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const clientData: Partial<CreateClientDTO> = req.body;
@@ -388,7 +391,7 @@ clientRouter.put('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: Client not found
  */
-clientRouter.delete('/:id', async (req: Request, res: Response) => {
+clientRouter.delete('/:id', requirePermission('clients.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await clientService.deleteClient(id);
@@ -436,7 +439,7 @@ clientRouter.delete('/:id', async (req: Request, res: Response) => {
  *       400:
  *         description: Invalid request
  */
-clientRouter.delete('/', async (req: Request, res: Response) => {
+clientRouter.delete('/', requirePermission('clients.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -487,7 +490,7 @@ clientRouter.delete('/', async (req: Request, res: Response) => {
  *       400:
  *         description: Invalid file or validation errors
  */
-clientRouter.post('/import', (req: Request, res: Response, next: NextFunction) => {
+clientRouter.post('/import', requirePermission('clients.manage'), (req: Request, res: Response, next: NextFunction) => {
   upload.single('file')(req, res, (err: any) => {
     if (err) {
       Logger.error('File upload error', err, {
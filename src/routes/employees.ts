@@ -3,15 +3,15 @@ import { getUserService } from '../services/user.service';
 import { getInviteService } from '../services/invite.service';
 import { getEmailService } from '../services/email.service';
 import { env } from '../config/env';
-import { requireAuth, requireRole } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { PermissionMap } from '../models/user';
+import { isPermission, isAdminOnly } from '../utils/permissions';
 import { Logger } from '../utils/logger';
 
 export const employeesRouter = Router();
 
-// All routes require authentication and admin role
+// All routes require authentication; employees.manage and invites.create are admin-only
 employeesRouter.use(requireAuth);
-employeesRouter.use(requireRole('ADMIN'));
 
 /**
  * @swagger
@@ -35,6 +35,8 @@ employeesRouter.use(requireRole('ADMIN'));
  *               type: boolean
  *             orders.set_paid:
  *               type: boolean
+ *             orders.deliver_unpaid:
+ *               type: boolean
  *             invoices.send_final:
  *               type: boolean
  *             employees.manage:
@@ -70,7 +72,7 @@ employeesRouter.use(requireRole('ADMIN'));
  *       400:
  *         description: Invalid input or invite already exists
  */
-employeesRouter.post('/invite', async (req: Request, res: Response) => {
+employeesRouter.post('/invite', requirePermission('invites.create'), async (req: Request, res: Response) => {
   const { email, permissions } = req.body;
   
   // #region agent log
@@ -129,11 +131,8 @@ employeesRouter.post('/invite', async (req: Request, res: Response) => {
       // #endregion
       
       if (value === true) {
-        // Skip admin-only permissions
-        if (key !== 'orders.set_paid' && 
-            key !== 'invoices.send_final' && 
-            key !== 'employees.manage' && 
-            key !== 'invites.create') {
+        // Skip unknown and admin-only permissions
+        if (isPermission(key) && !isAdminOnly(key)) {
           cleanedPermissions[key] = true;
         }
       }
@@ -205,7 +204,7 @@ employeesRouter.post('/invite', async (req: Request, res: Response) => {
  *                   items:
  *                     type: object
  */
-employeesRouter.get('/', async (req: Request, res: Response) => {
+employeesRouter.get('/', requirePermission('employees.manage'), async (req: Request, res: Response) => {
   try {
     const userService = getUserService();
     const employees = await userService.listEmployees();
@@ -243,7 +242,7 @@ employeesRouter.get('/', async (req: Request, res: Response) => {
  *       404:
  *         description: Employee not found
  */
-employeesRouter.patch('/:id/permissions', async (req: Request, res: Response) => {
+employeesRouter.patch('/:id/permissions', requirePermission('employees.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const { permissions } = req.body;
@@ -257,11 +256,8 @@ employeesRouter.patch('/:id/permissions', async (req: Request, res: Response) =>
     // Only include permissions that are explicitly set to true
     Object.keys(permissions).forEach(key => {
       if (permissions[key] === true) {
-        // Skip admin-only permissions
-        if (key !== 'orders.set_paid' && 
-            key !== 'invoices.send_final' && 
-            key !== 'employees.manage' && 
-            key !== 'invites.create') {
+        // Skip unknown and admin-only permissions
+        if (isPermission(key) && !isAdminOnly(key)) {
           cleanedPermissions[key] = true;
         }
       }
@@ -281,6 +277,67 @@ employeesRouter.patch('/:id/permissions', async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * @swagger
+ * /employees/{id}/role:
+ *   patch:
+ *     summary: Assign a custom role to an employee
+ *     description: The role's permissions replace the CSR defaults; individually granted permissions still apply. A null role_id restores the CSR defaults.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role_id
+ *             properties:
+ *               role_id:
+ *                 type: integer
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Role assigned successfully
+ *       400:
+ *         description: Invalid role_id
+ *       404:
+ *         description: Employee or role not found
+ */
+employeesRouter.patch('/:id/role', requirePermission('employees.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { role_id } = req.body;
+
+    if (role_id === undefined || (role_id !== null && (!Number.isInteger(role_id) || role_id <= 0))) {
+      return res.status(400).json({ error: 'role_id must be a positive integer or null' });
+    }
+
+    const userService = getUserService();
+    const employee = await userService.assignEmployeeRole(id, role_id);
+
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    res.json({ employee });
+  } catch (error: any) {
+    if (error.message?.startsWith('Role not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    Logger.error('Failed to assign employee role', error);
+    res.status(500).json({ error: 'Failed to assign role' });
+  }
+});
+
 /**
  * @swagger
  * /employees/{id}/deactivate:
@@ -301,7 +358,7 @@ employeesRouter.patch('/:id/permissions', async (req: Request, res: Response) =>
  *       404:
  *         description: Employee not found
  */
-employeesRouter.post('/:id/deactivate', async (req: Request, res: Response) => {
+employeesRouter.post('/:id/deactivate', requirePermission('employees.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -339,7 +396,7 @@ employeesRouter.post('/:id/deactivate', async (req: Request, res: Response) => {
  *       404:
  *         description: Employee not found
  */
-employeesRouter.post('/:id/reactivate', async (req: Request, res: Response) => {
+employeesRouter.post('/:id/reactivate', requirePermission('employees.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -357,6 +414,166 @@ employeesRouter.post('/:id/reactivate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /employees/{id}/two-factor/reset:
+ *   post:
+ *     summary: Reset an employee's two-factor authentication
+ *     description: For a lost authenticator. The employee sets 2FA up again at their next login if the policy requires it.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication reset
+ *       404:
+ *         description: Employee not found or not enrolled
+ */
+employeesRouter.post('/:id/two-factor/reset', requirePermission('security.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const userService = getUserService();
+    const reset = await userService.resetEmployeeTwoFactor(id, req.user!.id);
+
+    if (reset === null) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+    if (!reset) {
+      return res.status(404).json({ error: 'Employee has not set up two-factor authentication' });
+    }
+
+    res.json({ message: 'Two-factor authentication reset successfully' });
+  } catch (error: any) {
+    Logger.error('Failed to reset employee two-factor authentication', error);
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+/**
+ * @swagger
+ * /employees/{id}/unlock:
+ *   post:
+ *     summary: Unlock an employee locked out after failed sign-in attempts
+ *     description: Clears the employee's failed attempt count. Lockouts of the client IP are not affected.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Employee unlocked
+ *       404:
+ *         description: Employee not found
+ */
+employeesRouter.post('/:id/unlock', requirePermission('employees.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const userService = getUserService();
+    const unlocked = await userService.unlockEmployee(id, req.user!.id);
+
+    if (unlocked === null) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    res.json({
+      message: unlocked ? 'Employee unlocked successfully' : 'Employee was not locked',
+    });
+  } catch (error: any) {
+    Logger.error('Failed to unlock employee', error);
+    res.status(500).json({ error: 'Failed to unlock employee' });
+  }
+});
+
+/**
+ * @swagger
+ * /employees/{id}/security-events:
+ *   get:
+ *     summary: Lockout state and recent security events of an employee
+ *     description: Failed sign-ins, 2FA and password reset failures, lockouts and unlocks, newest first.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Security events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 locked_until:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       event_type:
+ *                         type: string
+ *                         enum: [login_failed, two_factor_failed, password_reset_failed, password_reset_otp_exhausted, login_throttled, account_locked, ip_locked, account_unlocked]
+ *                       email:
+ *                         type: string
+ *                       ip:
+ *                         type: string
+ *                       user_agent:
+ *                         type: string
+ *                       details:
+ *                         type: object
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *       404:
+ *         description: Employee not found
+ */
+employeesRouter.get('/:id/security-events', requirePermission('security.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    const userService = getUserService();
+    const security = await userService.getEmployeeSecurity(id, limit);
+
+    if (!security) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    res.json(security);
+  } catch (error: any) {
+    Logger.error('Failed to get employee security events', error);
+    res.status(500).json({ error: 'Failed to get security events' });
+  }
+});
+
 /**
  * @swagger
  * /employees/invites:
@@ -397,7 +614,7 @@ employeesRouter.post('/:id/reactivate', async (req: Request, res: Response) => {
  *                         type: string
  *                         format: date-time
  */
-employeesRouter.get('/invites', async (req: Request, res: Response) => {
+employeesRouter.get('/invites', requirePermission('invites.create'), async (req: Request, res: Response) => {
   try {
     const inviteService = getInviteService();
     const invites = await inviteService.getAllInvites();
@@ -432,7 +649,7 @@ employeesRouter.get('/invites', async (req: Request, res: Response) => {
  *       404:
  *         description: Invite not found
  */
-employeesRouter.delete('/invites/:id', async (req: Request, res: Response) => {
+employeesRouter.delete('/invites/:id', requirePermission('invites.create'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -0,0 +1,305 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { getExchangeRateService } from '../services/exchange-rate.service';
+import { CreateExchangeRateDTO, ExchangeRateSearchParams } from '../models/exchange-rate';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const exchangeRateRouter = Router();
+
+// All routes require authentication and the permission below (ADMIN holds every permission)
+exchangeRateRouter.use(requireAuth);
+exchangeRateRouter.use(requirePermission('exchange_rates.manage'));
+
+// Configure multer for rate file uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedMimes = [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+      'application/vnd.ms-excel', // .xls (also sent for .csv by some browsers)
+      'text/csv', // .csv
+    ];
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only Excel or CSV files (.xlsx, .xls, .csv) are allowed.'));
+    }
+  },
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExchangeRate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         base_currency:
+ *           type: string
+ *           example: USD
+ *         quote_currency:
+ *           type: string
+ *           example: EUR
+ *         rate:
+ *           type: number
+ *           description: Units of quote_currency per 1 base_currency
+ *           example: 0.92
+ *         effective_date:
+ *           type: string
+ *           format: date
+ *         source:
+ *           type: string
+ *           enum: [manual, import]
+ *         created_by:
+ *           type: integer
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /exchange-rates:
+ *   get:
+ *     summary: List exchange rates, newest first (Admin only)
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: base_currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: quote_currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date_from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: date_to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Exchange rates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Invalid parameters
+ */
+exchangeRateRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const params: ExchangeRateSearchParams = {
+      base_currency: req.query.base_currency as string | undefined,
+      quote_currency: req.query.quote_currency as string | undefined,
+      date_from: req.query.date_from as string | undefined,
+      date_to: req.query.date_to as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    };
+    const rates = await getExchangeRateService().listRates(params);
+    res.json(rates);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to list exchange rates', error, {
+      method: 'GET',
+      url: '/exchange-rates',
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /exchange-rates:
+ *   post:
+ *     summary: Enter an exchange rate (Admin only)
+ *     description: Replaces any existing rate for the same currency pair and effective date.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quote_currency
+ *               - rate
+ *             properties:
+ *               base_currency:
+ *                 type: string
+ *                 default: USD
+ *               quote_currency:
+ *                 type: string
+ *                 example: EUR
+ *               rate:
+ *                 type: number
+ *                 example: 0.92
+ *               effective_date:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to today
+ *     responses:
+ *       201:
+ *         description: Exchange rate saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Validation error
+ */
+exchangeRateRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const data: CreateExchangeRateDTO = req.body;
+    const rate = await getExchangeRateService().createRate(data, req.user!.id);
+    res.status(201).json(rate);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to save exchange rate', error, {
+      method: 'POST',
+      url: '/exchange-rates',
+      body: req.body,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /exchange-rates/import:
+ *   post:
+ *     summary: Import exchange rates from an Excel or CSV file (Admin only)
+ *     description: Columns Base Currency (optional, default USD), Quote Currency, Rate and Effective Date (optional, default today). Existing rates for the same pair and date are replaced.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Import completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 success:
+ *                   type: integer
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Invalid file
+ */
+exchangeRateRouter.post('/import', (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (err: any) => {
+    if (err) {
+      Logger.error('File upload error', err, {
+        method: 'POST',
+        url: '/exchange-rates/import',
+      });
+      return res.status(400).json({ error: err.message || 'File upload failed' });
+    }
+    next();
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const result = await getExchangeRateService().importRates(req.file.buffer, req.user!.id);
+
+    res.json({
+      message: 'Import completed',
+      success: result.success,
+      errors: result.errors,
+    });
+  } catch (error: any) {
+    Logger.error('Failed to import exchange rates', error, {
+      method: 'POST',
+      url: '/exchange-rates/import',
+      fileName: req.file?.originalname,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /exchange-rates/{id}:
+ *   delete:
+ *     summary: Delete an exchange rate (Admin only)
+ *     description: Orders keep the rate snapshot captured when they were quoted.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Exchange rate deleted
+ *       404:
+ *         description: Exchange rate not found
+ */
+exchangeRateRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await getExchangeRateService().deleteRate(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Exchange rate not found' });
+    }
+    res.status(204).send();
+  } catch (error: any) {
+    Logger.error('Failed to delete exchange rate', error, {
+      method: 'DELETE',
+      url: `/exchange-rates/${req.params.id}`,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
@@ -1,11 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { FBOService } from '../services/fbo.service';
 import { CreateFBODTO, FBOSearchParams } from '../models/fbo';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const fboRouter = Router();
 const fboService = new FBOService();
 
+fboRouter.use(requireAuth);
+
 /**
  * @swagger
  * components:
@@ -100,7 +103,7 @@ const fboService = new FBOService();
  *       400:
  *         description: Validation error
  */
-fboRouter.post('/', async (req: Request, res: Response) => {
+fboRouter.post('/', requirePermission('fbos.manage'), async (req: Request, res: Response) => {
   try {
     const fboData: CreateFBODTO = req.body;
     const fbo = await fboService.createFBO(fboData);
@@ -174,7 +177,7 @@ fboRouter.post('/', async (req: Request, res: Response) => {
  *                 limit:
  *                   type: integer
  */
-fboRouter.get('/', async (req: Request, res: Response) => {
+fboRouter.get('/', requirePermission('fbos.read'), async (req: Request, res: Response) => {
   try {
     const params: FBOSearchParams = {
       search: req.query.search as string,
@@ -217,7 +220,7 @@ fboRouter.get('/', async (req: Request, res: Response) => {
  *       404:
  *         description: FBO not found
  */
-fboRouter.get('/:id', async (req: Request, res: Response) => {
+fboRouter.get('/:id', requirePermission('fbos.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const fbo = await fboService.getFBOById(id);
@@ -278,7 +281,7 @@ fboRouter.get('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: FBO not found
  */
-fboRouter.put('/:id', async (req: Request, res: Response) => {
+fboRouter.put('/:id', requirePermission('fbos.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const fboData: Partial<CreateFBODTO> = req.body;
@@ -321,7 +324,7 @@ fboRouter.put('/:id', async (req: Request, res: Response) => {
  *       404:
  *         description: FBO not found
  */
-fboRouter.delete('/:id', async (req: Request, res: Response) => {
+fboRouter.delete('/:id', requirePermission('fbos.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await fboService.deleteFBO(id);
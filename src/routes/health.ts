@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { getDatabase } from '../database';
+import { allowPublic } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const healthRouter = Router();
 
+healthRouter.use(allowPublic);
+
 /**
  * @swagger
  * /health:
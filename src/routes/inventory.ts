@@ -1,15 +1,31 @@
 import { Router, Request, Response } from 'express';
 import { InventoryService } from '../services/inventory.service';
-import { CreateInventoryItemDTO, UpdateInventoryItemDTO, InventorySearchParams, StockUpdateDTO } from '../models/inventory';
+import { getInventoryConsumptionService } from '../services/inventory-consumption.service';
+import { getInventoryMovementService } from '../services/inventory-movement.service';
+import {
+  CreateInventoryItemDTO,
+  UpdateInventoryItemDTO,
+  InventorySearchParams,
+  StockUpdateDTO,
+  InventoryReservationStatus,
+  InventoryMovementType,
+  StockReceiptDTO,
+  StockWasteDTO,
+  StockTransferDTO,
+} from '../models/inventory';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const inventoryRouter = Router();
 const inventoryService = new InventoryService();
 
-inventoryRouter.post('/', async (req: Request, res: Response) => {
+// Stock changes are recorded with the acting user
+inventoryRouter.use(requireAuth);
+
+inventoryRouter.post('/', requirePermission('inventory.manage'), async (req: Request, res: Response) => {
   try {
     const inventoryItemData: CreateInventoryItemDTO = req.body;
-    const inventoryItem = await inventoryService.createInventoryItem(inventoryItemData);
+    const inventoryItem = await inventoryService.createInventoryItem(inventoryItemData, req.user!.id);
     res.status(201).json(inventoryItem);
   } catch (error: any) {
     Logger.error('Failed to create inventory item', error, { method: 'POST', url: '/inventory', body: req.body });
@@ -17,11 +33,12 @@ inventoryRouter.post('/', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.get('/', async (req: Request, res: Response) => {
+inventoryRouter.get('/', requirePermission('inventory.read'), async (req: Request, res: Response) => {
   try {
     const params: InventorySearchParams = {
       search: req.query.search as string,
       category: req.query.category as string,
+      supplier_id: req.query.supplier_id ? parseInt(req.query.supplier_id as string) : undefined,
       status: req.query.status as string,
       sortBy: req.query.sortBy as string,
       sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
@@ -36,7 +53,7 @@ inventoryRouter.get('/', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.get('/low-stock', async (req: Request, res: Response) => {
+inventoryRouter.get('/low-stock', requirePermission('inventory.read'), async (req: Request, res: Response) => {
   try {
     const status = req.query.status as 'low_stock' | 'out_of_stock' | undefined;
     const items = await inventoryService.getLowStockItems(status);
@@ -47,7 +64,76 @@ inventoryRouter.get('/low-stock', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.get('/:id', async (req: Request, res: Response) => {
+// Items whose stock is projected to fall below min_stock_level for orders delivered in the next `days` days
+inventoryRouter.get('/forecast', requirePermission('inventory.read'), async (req: Request, res: Response) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : 14;
+    const forecast = await getInventoryConsumptionService().getForecast(days);
+    res.json(forecast);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to get inventory forecast', error, { method: 'GET', url: '/inventory/forecast' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+inventoryRouter.get('/reservations', requirePermission('inventory.read'), async (req: Request, res: Response) => {
+  try {
+    const reservations = await getInventoryConsumptionService().listReservations({
+      order_id: req.query.order_id ? parseInt(req.query.order_id as string) : undefined,
+      inventory_item_id: req.query.inventory_item_id ? parseInt(req.query.inventory_item_id as string) : undefined,
+      status: req.query.status as InventoryReservationStatus | undefined,
+    });
+    res.json({ reservations, total: reservations.length });
+  } catch (error: any) {
+    Logger.error('Failed to list inventory reservations', error, { method: 'GET', url: '/inventory/reservations' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The stock ledger, newest first
+inventoryRouter.get('/movements', requirePermission('inventory.read'), async (req: Request, res: Response) => {
+  try {
+    const result = await getInventoryMovementService().listMovements({
+      inventory_item_id: req.query.inventory_item_id ? parseInt(req.query.inventory_item_id as string) : undefined,
+      purchase_order_id: req.query.purchase_order_id ? parseInt(req.query.purchase_order_id as string) : undefined,
+      order_id: req.query.order_id ? parseInt(req.query.order_id as string) : undefined,
+      lot_id: req.query.lot_id ? parseInt(req.query.lot_id as string) : undefined,
+      movement_type: req.query.movement_type as InventoryMovementType | undefined,
+      created_by: req.query.created_by ? parseInt(req.query.created_by as string) : undefined,
+      date_from: req.query.date_from as string | undefined,
+      date_to: req.query.date_to as string | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    });
+    res.json(result);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to list inventory movements', error, { method: 'GET', url: '/inventory/movements' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Lots with stock left that expire in the next `days` days, including expired ones
+inventoryRouter.get('/expiring', requirePermission('inventory.read'), async (req: Request, res: Response) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : 7;
+    const report = await getInventoryMovementService().getExpiringLots(days);
+    res.json(report);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to get expiring inventory', error, { method: 'GET', url: '/inventory/expiring' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+inventoryRouter.get('/:id', requirePermission('inventory.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const inventoryItem = await inventoryService.getInventoryItemById(id);
@@ -61,11 +147,11 @@ inventoryRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.put('/:id', async (req: Request, res: Response) => {
+inventoryRouter.put('/:id', requirePermission('inventory.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const inventoryItemData: UpdateInventoryItemDTO = req.body;
-    const inventoryItem = await inventoryService.updateInventoryItem(id, inventoryItemData);
+    const inventoryItem = await inventoryService.updateInventoryItem(id, inventoryItemData, req.user!.id);
     if (!inventoryItem) {
       return res.status(404).json({ error: 'Inventory item not found' });
     }
@@ -76,11 +162,11 @@ inventoryRouter.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.patch('/:id/stock', async (req: Request, res: Response) => {
+inventoryRouter.patch('/:id/stock', requirePermission('inventory.stock'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const stockData: StockUpdateDTO = req.body;
-    const inventoryItem = await inventoryService.updateStock(id, stockData);
+    const inventoryItem = await inventoryService.updateStock(id, stockData, req.user!.id);
     if (!inventoryItem) {
       return res.status(404).json({ error: 'Inventory item not found' });
     }
@@ -97,7 +183,67 @@ inventoryRouter.patch('/:id/stock', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.delete('/:id', async (req: Request, res: Response) => {
+inventoryRouter.get('/:id/lots', requirePermission('inventory.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const lots = await getInventoryMovementService().listLots(id, req.query.include_empty === 'true');
+    if (!lots) {
+      return res.status(404).json({ error: 'Inventory item not found' });
+    }
+    res.json({ lots, total: lots.length });
+  } catch (error: any) {
+    Logger.error('Failed to list inventory lots', error, { method: 'GET', url: `/inventory/${req.params.id}/lots` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Stock received outside a purchase order
+inventoryRouter.post('/:id/receipts', requirePermission('inventory.stock'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const receipt: StockReceiptDTO = req.body;
+    const movements = await getInventoryMovementService().receiveStock(id, receipt, req.user!.id);
+    if (!movements) {
+      return res.status(404).json({ error: 'Inventory item not found' });
+    }
+    res.status(201).json({ movements });
+  } catch (error: any) {
+    Logger.error('Failed to receive stock', error, { method: 'POST', url: `/inventory/${req.params.id}/receipts`, body: req.body });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+inventoryRouter.post('/:id/waste', requirePermission('inventory.stock'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const waste: StockWasteDTO = req.body;
+    const movements = await getInventoryMovementService().recordWaste(id, waste, req.user!.id);
+    if (!movements) {
+      return res.status(404).json({ error: 'Inventory item not found' });
+    }
+    res.status(201).json({ movements });
+  } catch (error: any) {
+    Logger.error('Failed to record waste', error, { method: 'POST', url: `/inventory/${req.params.id}/waste`, body: req.body });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+inventoryRouter.post('/:id/transfers', requirePermission('inventory.stock'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const transfer: StockTransferDTO = req.body;
+    const movements = await getInventoryMovementService().transferStock(id, transfer, req.user!.id);
+    if (!movements) {
+      return res.status(404).json({ error: 'Inventory item not found' });
+    }
+    res.status(201).json({ movements });
+  } catch (error: any) {
+    Logger.error('Failed to transfer stock', error, { method: 'POST', url: `/inventory/${req.params.id}/transfers`, body: req.body });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+inventoryRouter.delete('/:id', requirePermission('inventory.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await inventoryService.deleteInventoryItem(id);
@@ -111,7 +257,7 @@ inventoryRouter.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-inventoryRouter.delete('/', async (req: Request, res: Response) => {
+inventoryRouter.delete('/', requirePermission('inventory.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
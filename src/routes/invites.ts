@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { getInviteService } from '../services/invite.service';
+import { allowPublic } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const invitesRouter = Router();
 
+invitesRouter.use(allowPublic);
+
 /**
  * @swagger
  * components:
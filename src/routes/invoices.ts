@@ -3,14 +3,14 @@ import { getInvoiceService } from '../services/invoice.service';
 import { getEmailService } from '../services/email.service';
 import { getOrderRepository, getInvoiceRepository } from '../repositories';
 import { Logger } from '../utils/logger';
-import { requireAuth, requireRole } from '../middleware/auth';
-import { SendInvoiceRequest } from '../models/invoice';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { SendInvoiceRequest, SendConsolidatedInvoiceRequest } from '../models/invoice';
 
 export const invoiceRouter = Router();
 
-// All invoice routes require authentication and admin role
+// All invoice routes require authentication and invoices.manage
 invoiceRouter.use(requireAuth);
-invoiceRouter.use(requireRole('ADMIN'));
+invoiceRouter.use(requirePermission('invoices.manage'));
 
 const invoiceService = getInvoiceService();
 const orderRepository = getOrderRepository();
@@ -284,7 +284,7 @@ invoiceRouter.get('/orders/:id/invoices', async (req: Request, res: Response) =>
  *       200:
  *         description: Email sent successfully
  */
-invoiceRouter.post('/orders/:id/invoices/send', async (req: Request, res: Response) => {
+invoiceRouter.post('/orders/:id/invoices/send', requirePermission('invoices.send_final'), async (req: Request, res: Response) => {
   try {
     const orderId = parseInt(req.params.id);
     const { invoice_id, recipient_email } = req.body;
@@ -340,6 +340,7 @@ invoiceRouter.post('/orders/:id/invoices/send', async (req: Request, res: Respon
       deliveryDate: order.delivery_date,
       items: orderItems.length > 0 ? orderItems : undefined,
       message: order.notes || order.description || undefined,
+      currency: order.currency,
     });
 
     const result = await emailService.sendEmail({
@@ -376,6 +377,104 @@ invoiceRouter.post('/orders/:id/invoices/send', async (req: Request, res: Respon
   }
 });
 
+/**
+ * @swagger
+ * /invoices/consolidated:
+ *   post:
+ *     summary: Create and send one invoice covering several orders of the same client (Admin only)
+ *     description: Line items are grouped by order number. When the invoice is paid, every linked order is marked paid with its own payment transaction.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - order_ids
+ *               - delivery_method
+ *             properties:
+ *               order_ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 minItems: 2
+ *               delivery_method:
+ *                 type: string
+ *                 enum: [EMAIL, SHARE_MANUALLY]
+ *               recipient_email:
+ *                 type: string
+ *                 description: Defaults to the client's email
+ *     responses:
+ *       200:
+ *         description: Consolidated invoice created
+ *       400:
+ *         description: Invalid request, orders from different clients, or orders already paid, cancelled or invoiced
+ */
+invoiceRouter.post('/invoices/consolidated', async (req: Request, res: Response) => {
+  try {
+    const adminUserId = req.user!.id!;
+    const { order_ids, delivery_method, recipient_email } = req.body as SendConsolidatedInvoiceRequest;
+
+    if (!Array.isArray(order_ids) || order_ids.some(id => !Number.isInteger(Number(id)))) {
+      return res.status(400).json({ error: 'order_ids must be an array of order IDs' });
+    }
+
+    if (!delivery_method || !['EMAIL', 'SHARE_MANUALLY'].includes(delivery_method)) {
+      return res.status(400).json({
+        error: 'delivery_method is required and must be either EMAIL or SHARE_MANUALLY',
+      });
+    }
+
+    const result = await invoiceService.createConsolidatedInvoice(
+      order_ids.map(id => Number(id)),
+      { delivery_method, recipient_email },
+      adminUserId
+    );
+
+    if (!result.success || !result.invoice) {
+      return res.status(400).json({
+        error: result.error || 'Failed to create consolidated invoice',
+      });
+    }
+
+    // Publish so Square emails the invoice, or so a public_url is available to share
+    let finalPublicUrl = result.public_url;
+    const publishResult = await invoiceService.publishInvoice(result.invoice.id!, result.invoiceVersion || 0);
+    if (!publishResult.success) {
+      Logger.error('Failed to publish consolidated invoice', {
+        invoiceId: result.invoice.id,
+        error: publishResult.error,
+      });
+    } else if (publishResult.invoice?.public_url) {
+      await invoiceRepository.updatePublicUrl(result.invoice.id!, publishResult.invoice.public_url);
+      finalPublicUrl = publishResult.invoice.public_url;
+      result.invoice.public_url = finalPublicUrl;
+    }
+
+    const linkedOrders = await invoiceRepository.findLinkedOrders(result.invoice.id!);
+
+    return res.json({
+      success: true,
+      invoice: result.invoice,
+      orders: linkedOrders,
+      public_url: finalPublicUrl,
+      message: delivery_method === 'EMAIL'
+        ? 'Consolidated invoice created and sent via Square email'
+        : 'Consolidated invoice created. Use the public_url to send via your email system.',
+    });
+  } catch (error: any) {
+    Logger.error('Failed to create consolidated invoice', error, {
+      body: req.body,
+    });
+    return res.status(500).json({
+      error: error.message || 'Failed to create consolidated invoice',
+    });
+  }
+});
+
 /**
  * @swagger
  * /invoices/{id}:
@@ -405,6 +504,7 @@ invoiceRouter.get('/invoices/:id', async (req: Request, res: Response) => {
 
     return res.json({
       invoice,
+      orders: invoice.is_consolidated ? await invoiceRepository.findLinkedOrders(invoiceId) : undefined,
     });
   } catch (error: any) {
     Logger.error('Failed to get invoice', error, {
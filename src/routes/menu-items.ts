@@ -1,12 +1,19 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { MenuItemService } from '../services/menu-item.service';
+import { getInventoryConsumptionService } from '../services/inventory-consumption.service';
 import { CreateMenuItemDTO, UpdateMenuItemDTO, MenuItemSearchParams, MenuItemStatusUpdateDTO } from '../models/menu-item';
+import { SetRecipeDTO } from '../models/inventory';
+import { Allergen, DietaryTag } from '../models/dietary';
+import { imageUpload } from '../middleware/image-upload';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const menuItemRouter = Router();
 const menuItemService = new MenuItemService();
 
+menuItemRouter.use(requireAuth);
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -26,7 +33,7 @@ const upload = multer({
   },
 });
 
-menuItemRouter.post('/', async (req: Request, res: Response) => {
+menuItemRouter.post('/', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const menuItemData: CreateMenuItemDTO = req.body;
     const menuItem = await menuItemService.createMenuItem(menuItemData);
@@ -37,12 +44,16 @@ menuItemRouter.post('/', async (req: Request, res: Response) => {
   }
 });
 
-menuItemRouter.get('/', async (req: Request, res: Response) => {
+menuItemRouter.get('/', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     const params: MenuItemSearchParams = {
       search: req.query.search as string,
       category: req.query.category as string,
       food_type: req.query.food_type as string,
+      exclude_allergens: req.query.exclude_allergens
+        ? (req.query.exclude_allergens as string).split(',').map(a => a.trim()) as Allergen[]
+        : undefined,
+      dietary_tag: req.query.dietary_tag as DietaryTag | undefined,
       is_active: req.query.is_active === 'true' ? true : req.query.is_active === 'false' ? false : undefined,
       sortBy: req.query.sortBy as string,
       sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
@@ -57,7 +68,7 @@ menuItemRouter.get('/', async (req: Request, res: Response) => {
   }
 });
 
-menuItemRouter.get('/:id', async (req: Request, res: Response) => {
+menuItemRouter.get('/:id', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const menuItem = await menuItemService.getMenuItemById(id);
@@ -71,7 +82,7 @@ menuItemRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-menuItemRouter.put('/:id', async (req: Request, res: Response) => {
+menuItemRouter.put('/:id', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const menuItemData: UpdateMenuItemDTO = req.body;
@@ -86,7 +97,7 @@ menuItemRouter.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-menuItemRouter.patch('/:id/status', async (req: Request, res: Response) => {
+menuItemRouter.patch('/:id/status', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const statusData: MenuItemStatusUpdateDTO = req.body;
@@ -101,7 +112,7 @@ menuItemRouter.patch('/:id/status', async (req: Request, res: Response) => {
   }
 });
 
-menuItemRouter.delete('/:id', async (req: Request, res: Response) => {
+menuItemRouter.delete('/:id', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await menuItemService.deleteMenuItem(id);
@@ -115,7 +126,188 @@ menuItemRouter.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-menuItemRouter.delete('/', async (req: Request, res: Response) => {
+/**
+ * @swagger
+ * /menu-items/{id}/image:
+ *   post:
+ *     summary: Upload the menu item image
+ *     description: Accepts a JPEG, PNG or WebP image, stores it resized to full size (max 1600px) and a thumbnail (max 320px) as WebP, and sets image_url and image_thumbnail_url. A previously uploaded image is deleted.
+ *     tags: [Menu Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Updated menu item
+ *       400:
+ *         description: Missing, oversized or invalid image
+ *       404:
+ *         description: Menu item not found
+ */
+menuItemRouter.post('/:id/image', requirePermission('menu.manage'), imageUpload, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const menuItem = await menuItemService.uploadImage(id, req.file!.buffer, req.file!.mimetype);
+    if (!menuItem) {
+      return res.status(404).json({ error: 'Menu item not found' });
+    }
+    res.json(menuItem);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to upload menu item image', error, { method: 'POST', url: `/menu-items/${req.params.id}/image` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /menu-items/{id}/image:
+ *   delete:
+ *     summary: Remove the menu item image
+ *     description: Clears image_url and image_thumbnail_url and deletes uploaded image files.
+ *     tags: [Menu Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Updated menu item
+ *       404:
+ *         description: Menu item not found
+ */
+menuItemRouter.delete('/:id/image', requirePermission('menu.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const menuItem = await menuItemService.deleteImage(id);
+    if (!menuItem) {
+      return res.status(404).json({ error: 'Menu item not found' });
+    }
+    res.json(menuItem);
+  } catch (error: any) {
+    Logger.error('Failed to delete menu item image', error, { method: 'DELETE', url: `/menu-items/${req.params.id}/image` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /menu-items/{id}/recipes:
+ *   get:
+ *     summary: Get the recipes of a menu item's variants
+ *     description: Lists, per variant (portion size), the inventory one portion uses. Variants without a recipe have no lines.
+ *     tags: [Menu Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Recipes per variant
+ *       404:
+ *         description: Menu item not found
+ */
+menuItemRouter.get('/:id/recipes', requirePermission('menu.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const recipes = await getInventoryConsumptionService().getRecipes(id);
+    if (!recipes) {
+      return res.status(404).json({ error: 'Menu item not found' });
+    }
+    res.json({ recipes });
+  } catch (error: any) {
+    Logger.error('Failed to get menu item recipes', error, { method: 'GET', url: `/menu-items/${req.params.id}/recipes` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /menu-items/{id}/recipes:
+ *   put:
+ *     summary: Set the recipe of a menu item variant
+ *     description: Replaces the inventory one portion of the variant uses. Confirmed orders reserve this stock, delivered orders deduct it. An empty lines array clears the recipe.
+ *     tags: [Menu Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - portion_size
+ *               - lines
+ *             properties:
+ *               portion_size:
+ *                 type: string
+ *                 description: Portion size of the variant
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - inventory_item_id
+ *                     - quantity
+ *                   properties:
+ *                     inventory_item_id:
+ *                       type: integer
+ *                     quantity:
+ *                       type: number
+ *                       description: Quantity per portion, in the inventory item's unit
+ *     responses:
+ *       200:
+ *         description: Updated recipe
+ *       400:
+ *         description: Validation error, unknown variant or inventory item
+ *       404:
+ *         description: Menu item not found
+ */
+menuItemRouter.put('/:id/recipes', requirePermission('menu.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const recipeData: SetRecipeDTO = req.body;
+    const recipe = await getInventoryConsumptionService().setRecipe(id, recipeData);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Menu item not found' });
+    }
+    res.json(recipe);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to set menu item recipe', error, { method: 'PUT', url: `/menu-items/${req.params.id}/recipes` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+menuItemRouter.delete('/', requirePermission('menu.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -162,7 +354,7 @@ menuItemRouter.delete('/', async (req: Request, res: Response) => {
  *       400:
  *         description: Invalid file or validation errors
  */
-menuItemRouter.post('/import', (req: Request, res: Response, next: NextFunction) => {
+menuItemRouter.post('/import', requirePermission('menu.manage'), (req: Request, res: Response, next: NextFunction) => {
   upload.single('file')(req, res, (err: any) => {
     if (err) {
       Logger.error('File upload error', err, {
@@ -242,7 +434,7 @@ menuItemRouter.post('/import', (req: Request, res: Response, next: NextFunction)
  *               type: string
  *               format: binary
  */
-menuItemRouter.get('/export', async (req: Request, res: Response) => {
+menuItemRouter.get('/export', requirePermission('menu.read'), async (req: Request, res: Response) => {
   try {
     Logger.info('Starting menu items export', {
       method: 'GET',
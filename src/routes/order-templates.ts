@@ -0,0 +1,505 @@
+import { Router, Request, Response } from 'express';
+import { getOrderTemplateService } from '../services/order-template.service';
+import { CreateOrderTemplateDTO, UpdateOrderTemplateDTO, OrderTemplateSearchParams } from '../models/order-template';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const orderTemplateRouter = Router();
+const orderTemplateService = getOrderTemplateService();
+
+orderTemplateRouter.use(requireAuth);
+
+function getErrorStatus(error: any): number {
+  if (error.message === 'Order template not found') return 404;
+  if (error.message.startsWith('Validation failed') || error.message.includes('not found')) return 400;
+  if (error.message.includes('already been generated') || error.message.includes('is skipped')) return 409;
+  return 500;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrderRecurrence:
+ *       type: object
+ *       required:
+ *         - frequency
+ *         - start_date
+ *       properties:
+ *         frequency:
+ *           type: string
+ *           enum: [weekly, interval]
+ *         days_of_week:
+ *           type: array
+ *           items:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 6
+ *           description: For weekly recurrence (0 = Sunday)
+ *         interval_days:
+ *           type: integer
+ *           description: For interval recurrence - every N days from start_date
+ *         start_date:
+ *           type: string
+ *           format: date
+ *         end_date:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *     OrderTemplate:
+ *       type: object
+ *       required:
+ *         - name
+ *         - order_data
+ *       properties:
+ *         name:
+ *           type: string
+ *         order_data:
+ *           type: object
+ *           description: Same fields as POST /orders/from-references, without delivery_date
+ *         recurrence:
+ *           $ref: '#/components/schemas/OrderRecurrence'
+ *         generate_days_ahead:
+ *           type: integer
+ *           default: 7
+ *           description: Orders are generated this many days before each occurrence
+ *         is_active:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /order-templates:
+ *   post:
+ *     summary: Create an order template, optionally with a recurrence
+ *     tags: [Order Templates]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderTemplate'
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Validation error
+ */
+orderTemplateRouter.post('/', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const data: CreateOrderTemplateDTO = req.body;
+    const template = await orderTemplateService.createTemplate(data, req.user!.id);
+    res.status(201).json(template);
+  } catch (error: any) {
+    Logger.error('Failed to create order template', error, { method: 'POST', url: '/order-templates', body: req.body });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates:
+ *   get:
+ *     summary: List order templates
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: client_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: is_active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of templates
+ */
+orderTemplateRouter.get('/', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const params: OrderTemplateSearchParams = {
+      search: req.query.search as string,
+      client_id: req.query.client_id ? parseInt(req.query.client_id as string) : undefined,
+      is_active: req.query.is_active === 'true' ? true : req.query.is_active === 'false' ? false : undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    };
+    const result = await orderTemplateService.listTemplates(params);
+    res.json(result);
+  } catch (error: any) {
+    Logger.error('Failed to list order templates', error, { method: 'GET', url: '/order-templates' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}:
+ *   get:
+ *     summary: Get an order template
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Template
+ *       404:
+ *         description: Template not found
+ */
+orderTemplateRouter.get('/:id', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const template = await orderTemplateService.getTemplate(id);
+    if (!template) {
+      return res.status(404).json({ error: 'Order template not found' });
+    }
+    res.json(template);
+  } catch (error: any) {
+    Logger.error('Failed to get order template', error, { method: 'GET', url: `/order-templates/${req.params.id}` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}:
+ *   put:
+ *     summary: Update an order template
+ *     description: Changes apply to occurrences that have not been generated yet.
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderTemplate'
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Template not found
+ */
+orderTemplateRouter.put('/:id', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const data: UpdateOrderTemplateDTO = req.body;
+    const template = await orderTemplateService.updateTemplate(id, data);
+    if (!template) {
+      return res.status(404).json({ error: 'Order template not found' });
+    }
+    res.json(template);
+  } catch (error: any) {
+    Logger.error('Failed to update order template', error, { method: 'PUT', url: `/order-templates/${req.params.id}` });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}:
+ *   delete:
+ *     summary: Delete an order template (Admin only)
+ *     description: Orders already generated from the template are kept.
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       404:
+ *         description: Template not found
+ */
+orderTemplateRouter.delete('/:id', requirePermission('orders.delete'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await orderTemplateService.deleteTemplate(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Order template not found' });
+    }
+    res.json({ message: 'Order template deleted successfully' });
+  } catch (error: any) {
+    Logger.error('Failed to delete order template', error, { method: 'DELETE', url: `/order-templates/${req.params.id}` });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}/orders:
+ *   post:
+ *     summary: Create a one-off order from a template
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - delivery_date
+ *             properties:
+ *               delivery_date:
+ *                 type: string
+ *                 format: date
+ *               overrides:
+ *                 type: object
+ *                 description: Template order fields to change for this order only
+ *     responses:
+ *       201:
+ *         description: Order created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Template not found
+ */
+orderTemplateRouter.post('/:id/orders', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!req.body.delivery_date) {
+      return res.status(400).json({ error: 'delivery_date is required' });
+    }
+    const order = await orderTemplateService.createOrderFromTemplate(id, req.body.delivery_date, req.body.overrides || {}, req.user!.id);
+    if (!order) {
+      return res.status(404).json({ error: 'Order template not found' });
+    }
+    res.status(201).json(order);
+  } catch (error: any) {
+    Logger.error('Failed to create order from template', error, { method: 'POST', url: `/order-templates/${req.params.id}/orders` });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}/occurrences:
+ *   get:
+ *     summary: Preview upcoming occurrences of a recurring template
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to 30 days after from
+ *     responses:
+ *       200:
+ *         description: Occurrences with status upcoming, modified, skipped or generated
+ *       404:
+ *         description: Template not found
+ */
+orderTemplateRouter.get('/:id/occurrences', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const occurrences = await orderTemplateService.previewOccurrences(id, req.query.from as string, req.query.to as string);
+    if (!occurrences) {
+      return res.status(404).json({ error: 'Order template not found' });
+    }
+    res.json({ occurrences });
+  } catch (error: any) {
+    Logger.error('Failed to preview template occurrences', error, { method: 'GET', url: `/order-templates/${req.params.id}/occurrences` });
+    res.status(getErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}/occurrences/{date}:
+ *   put:
+ *     summary: Edit a single occurrence before it is generated
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - overrides
+ *             properties:
+ *               overrides:
+ *                 type: object
+ *                 description: Template order fields to change for this occurrence only (e.g. delivery_time, items)
+ *     responses:
+ *       200:
+ *         description: Occurrence updated
+ *       400:
+ *         description: Validation error or not an occurrence
+ *       409:
+ *         description: Occurrence already generated
+ */
+orderTemplateRouter.put('/:id/occurrences/:date', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const occurrence = await orderTemplateService.updateOccurrence(id, req.params.date, req.body.overrides);
+    res.json(occurrence);
+  } catch (error: any) {
+    Logger.error('Failed to update template occurrence', error, { method: 'PUT', url: `/order-templates/${req.params.id}/occurrences/${req.params.date}` });
+    res.status(getErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}/occurrences/{date}/skip:
+ *   post:
+ *     summary: Skip a single occurrence so no order is generated for it
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Occurrence skipped
+ *       409:
+ *         description: Occurrence already generated
+ */
+orderTemplateRouter.post('/:id/occurrences/:date/skip', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const occurrence = await orderTemplateService.skipOccurrence(id, req.params.date);
+    res.json(occurrence);
+  } catch (error: any) {
+    Logger.error('Failed to skip template occurrence', error, { method: 'POST', url: `/order-templates/${req.params.id}/occurrences/${req.params.date}/skip` });
+    res.status(getErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}/occurrences/{date}:
+ *   delete:
+ *     summary: Restore a skipped or edited occurrence to the template defaults
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Occurrence restored
+ *       404:
+ *         description: Nothing to restore
+ */
+orderTemplateRouter.delete('/:id/occurrences/:date', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const restored = await orderTemplateService.restoreOccurrence(id, req.params.date);
+    if (!restored) {
+      return res.status(404).json({ error: 'Occurrence has no changes to restore' });
+    }
+    res.json({ message: 'Occurrence restored' });
+  } catch (error: any) {
+    Logger.error('Failed to restore template occurrence', error, { method: 'DELETE', url: `/order-templates/${req.params.id}/occurrences/${req.params.date}` });
+    res.status(getErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /order-templates/{id}/occurrences/{date}/generate:
+ *   post:
+ *     summary: Generate the order for an occurrence now
+ *     tags: [Order Templates]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       201:
+ *         description: Order created
+ *       409:
+ *         description: Occurrence skipped or already generated
+ */
+orderTemplateRouter.post('/:id/occurrences/:date/generate', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const order = await orderTemplateService.generateOccurrence(id, req.params.date, req.user!.id);
+    res.status(201).json(order);
+  } catch (error: any) {
+    Logger.error('Failed to generate template occurrence', error, { method: 'POST', url: `/order-templates/${req.params.id}/occurrences/${req.params.date}/generate` });
+    res.status(getErrorStatus(error)).json({ error: error.message });
+  }
+});
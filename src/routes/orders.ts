@@ -1,15 +1,29 @@
 import { Router, Request, Response } from 'express';
 import { OrderService } from '../services/order.service';
-import { CreateOrderDTO, UpdateOrderDTO, OrderSearchParams, OrderStatusUpdateDTO, OrderEmailDTO, CreateOrderFromRefsDTO } from '../models/order';
+import { CreateOrderDTO, UpdateOrderDTO, OrderSearchParams, OrderStatusUpdateDTO, OrderEmailDTO, CreateOrderFromRefsDTO, DuplicateOrderDTO } from '../models/order';
+import { OrderEventType } from '../models/order-event';
+import { StatusTransitionContext } from '../services/order-status.service';
 import { Logger } from '../utils/logger';
 import { generateOrderHTML, generateOrderHTMLB } from '../utils/order-pdf';
+import { formatDeliveryTime } from '../utils/delivery-time';
 import { getEmailService, EmailRecipient } from '../services/email.service';
-import { requireAuth, requirePermission, requireRole } from '../middleware/auth';
+import { getCatererPortalService } from '../services/caterer-portal.service';
+import { getQuoteApprovalService } from '../services/quote-approval.service';
+import { requireAuth, requirePermission, hasPermission } from '../middleware/auth';
 import { getOrderRepository } from '../repositories';
 
 export const orderRouter = Router();
 const orderService = new OrderService();
 
+/**
+ * Status transition context for the requesting user
+ */
+function getTransitionContext(req: Request): StatusTransitionContext {
+  return {
+    allowUnpaidDelivery: hasPermission(req.user!, 'orders.deliver_unpaid'),
+  };
+}
+
 /**
  * Properly encode filename for Content-Disposition header
  * Uses RFC 5987 encoding (filename*=UTF-8''...) for filenames with special characters
@@ -55,11 +69,31 @@ orderRouter.use(requireAuth);
  *           type: string
  *         aircraft_tail_number:
  *           type: string
+ *         aircraft_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Aircraft registry entry; sets aircraft_tail_number. A bare tail number is linked when registered.
+ *         passenger_count:
+ *           type: integer
+ *           minimum: 0
+ *         crew_count:
+ *           type: integer
+ *           minimum: 0
  *         delivery_date:
  *           type: string
  *           format: date
  *         delivery_time:
  *           type: string
+ *           description: HH:mm, local time at the airport
+ *         delivery_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Delivery instant (UTC) of delivery_date/delivery_time in delivery_time_zone
+ *         delivery_time_zone:
+ *           type: string
+ *           nullable: true
+ *           example: America/New_York
  *         order_priority:
  *           type: string
  *           enum: [low, normal, high, urgent]
@@ -79,6 +113,16 @@ orderRouter.use(requireAuth);
  *           type: string
  *         dietary_restrictions:
  *           type: string
+ *         dietary_requirements:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DietaryRequirement'
+ *         dietary_conflicts:
+ *           type: array
+ *           readOnly: true
+ *           description: Items containing an allergen a requirement excludes, and required diets no item is tagged for
+ *           items:
+ *             $ref: '#/components/schemas/DietaryConflict'
  *         order_type:
  *           type: string
  *           enum: [Inflight order, QE Serv Hub Order, Restaurant Pickup Order]
@@ -101,12 +145,46 @@ orderRouter.use(requireAuth);
  *           type: number
  *         subtotal:
  *           type: number
+ *           description: Items plus add-ons
+ *         tax_total:
+ *           type: number
+ *           description: Sum of applied tax charges and per-item tax rates
+ *         tax_breakdown:
+ *           type: array
+ *           description: Per-line taxes applied by the pricing engine
+ *           items:
+ *             type: object
  *         total:
  *           type: number
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 code all amounts on the order are in
+ *           example: USD
+ *         exchange_rate:
+ *           type: number
+ *           nullable: true
+ *           description: Units of currency per 1 exchange_rate_base, captured when the quote was sent
+ *         exchange_rate_base:
+ *           type: string
+ *           nullable: true
+ *         exchange_rate_date:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         exchange_rate_captured_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         aircraft:
+ *           $ref: '#/components/schemas/Aircraft'
  *         items:
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/OrderItem'
+ *         addons:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/OrderAddon'
  *         created_at:
  *           type: string
  *           format: date-time
@@ -116,6 +194,50 @@ orderRouter.use(requireAuth);
  *         completed_at:
  *           type: string
  *           format: date-time
+ *     DietaryRequirement:
+ *       type: object
+ *       properties:
+ *         label:
+ *           type: string
+ *           example: Seat 2A
+ *         count:
+ *           type: integer
+ *           minimum: 1
+ *           description: People the requirement covers (default 1)
+ *         allergens:
+ *           type: array
+ *           description: Allergens that must not be served
+ *           items:
+ *             type: string
+ *             enum: [celery, gluten, crustaceans, eggs, fish, lupin, milk, molluscs, mustard, tree_nuts, peanuts, sesame, soy, sulphites]
+ *         diets:
+ *           type: array
+ *           description: Diets at least one item must be tagged for
+ *           items:
+ *             type: string
+ *             enum: [gluten_free, halal, kosher, vegan]
+ *         notes:
+ *           type: string
+ *     DietaryConflict:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [allergen, diet]
+ *         requirement_index:
+ *           type: integer
+ *         requirement_label:
+ *           type: string
+ *         item_index:
+ *           type: integer
+ *         item_name:
+ *           type: string
+ *         allergen:
+ *           type: string
+ *         diet:
+ *           type: string
+ *         message:
+ *           type: string
  *     OrderItem:
  *       type: object
  *       properties:
@@ -129,6 +251,26 @@ orderRouter.use(requireAuth);
  *           type: string
  *         price:
  *           type: number
+ *         caterer_cost:
+ *           type: number
+ *           nullable: true
+ *           description: Unit cost charged by the caterer (defaults to the caterer's price for the menu item variant)
+ *         meal_for:
+ *           type: string
+ *           enum: [passenger, crew]
+ *           nullable: true
+ *           description: Who the item feeds; used to suggest quantities from passenger_count and crew_count
+ *         allergens:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [celery, gluten, crustaceans, eggs, fish, lupin, milk, molluscs, mustard, tree_nuts, peanuts, sesame, soy, sulphites]
+ *           description: Defaults to the menu item's allergens (plus the variant's)
+ *         dietary_tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [gluten_free, halal, kosher, vegan]
  *         category:
  *           type: string
  *           description: Item category (e.g., Appetizers, Main Course)
@@ -137,6 +279,41 @@ orderRouter.use(requireAuth);
  *           description: Item packaging (e.g., Foil container, Insulated box)
  *         sort_order:
  *           type: integer
+ *     OrderAddon:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         addon_item_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Null once the add-on item is deleted
+ *         name:
+ *           type: string
+ *           description: Add-on item name when added
+ *         description:
+ *           type: string
+ *         quantity:
+ *           type: integer
+ *         price:
+ *           type: number
+ *           description: Unit price snapshot
+ *         sort_order:
+ *           type: integer
+ *     OrderAddonInput:
+ *       type: object
+ *       required:
+ *         - addon_item_id
+ *         - quantity
+ *       properties:
+ *         addon_item_id:
+ *           type: integer
+ *         quantity:
+ *           type: integer
+ *           minimum: 1
+ *         price:
+ *           type: number
+ *           description: Unit price; defaults to the add-on item's current price
  *     CreateOrder:
  *       type: object
  *       required:
@@ -162,6 +339,16 @@ orderRouter.use(requireAuth);
  *           type: string
  *         aircraft_tail_number:
  *           type: string
+ *         aircraft_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Aircraft registry entry; sets aircraft_tail_number. A bare tail number is linked when registered.
+ *         passenger_count:
+ *           type: integer
+ *           minimum: 0
+ *         crew_count:
+ *           type: integer
+ *           minimum: 0
  *         delivery_date:
  *           type: string
  *           format: date
@@ -187,6 +374,10 @@ orderRouter.use(requireAuth);
  *           type: string
  *         dietary_restrictions:
  *           type: string
+ *         dietary_requirements:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DietaryRequirement'
  *         delivery_fee:
  *           type: number
  *           description: Delivery fee for the order
@@ -210,6 +401,10 @@ orderRouter.use(requireAuth);
  *         airport_pickup_fee:
  *           type: number
  *           description: Optional airport pickup fee for the order
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 currency code. Defaults to the caterer's default currency, then USD
+ *           example: EUR
  *         items:
  *           type: array
  *           items:
@@ -227,12 +422,37 @@ orderRouter.use(requireAuth);
  *                 type: string
  *               price:
  *                 type: number
+ *               caterer_cost:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Unit cost charged by the caterer (defaults to the caterer's price for the menu item variant)
+ *               meal_for:
+ *                 type: string
+ *                 enum: [passenger, crew]
+ *                 nullable: true
+ *                 description: Who the item feeds; used to suggest quantities from passenger_count and crew_count
+ *               allergens:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [celery, gluten, crustaceans, eggs, fish, lupin, milk, molluscs, mustard, tree_nuts, peanuts, sesame, soy, sulphites]
+ *                 description: Defaults to the menu item's allergens (plus the variant's)
+ *               dietary_tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [gluten_free, halal, kosher, vegan]
  *               category:
  *                 type: string
  *                 description: Item category (e.g., Appetizers, Main Course)
  *               packaging:
  *                 type: string
  *                 description: Item packaging instructions
+ *         addons:
+ *           type: array
+ *           description: Add-on lines; on update, the array replaces all add-ons (empty removes them)
+ *           items:
+ *             $ref: '#/components/schemas/OrderAddonInput'
  *     CreateOrderFromRefs:
  *       type: object
  *       required:
@@ -262,6 +482,16 @@ orderRouter.use(requireAuth);
  *           example: 1
  *         aircraft_tail_number:
  *           type: string
+ *         aircraft_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Aircraft registry entry; sets aircraft_tail_number. A bare tail number is linked when registered.
+ *         passenger_count:
+ *           type: integer
+ *           minimum: 0
+ *         crew_count:
+ *           type: integer
+ *           minimum: 0
  *         delivery_date:
  *           type: string
  *           format: date
@@ -287,6 +517,10 @@ orderRouter.use(requireAuth);
  *           type: string
  *         dietary_restrictions:
  *           type: string
+ *         dietary_requirements:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DietaryRequirement'
  *         delivery_fee:
  *           type: number
  *           description: Delivery fee for the order
@@ -310,6 +544,10 @@ orderRouter.use(requireAuth);
  *         airport_pickup_fee:
  *           type: number
  *           description: Optional airport pickup fee for the order
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 currency code. Defaults to the caterer's default currency, then USD
+ *           example: EUR
  *         items:
  *           type: array
  *           items:
@@ -327,12 +565,36 @@ orderRouter.use(requireAuth);
  *                 type: string
  *               price:
  *                 type: number
+ *               caterer_cost:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Unit cost charged by the caterer (defaults to the caterer's price for the menu item variant)
+ *               meal_for:
+ *                 type: string
+ *                 enum: [passenger, crew]
+ *                 nullable: true
+ *                 description: Who the item feeds; used to suggest quantities from passenger_count and crew_count
+ *               allergens:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [celery, gluten, crustaceans, eggs, fish, lupin, milk, molluscs, mustard, tree_nuts, peanuts, sesame, soy, sulphites]
+ *                 description: Defaults to the menu item's allergens (plus the variant's)
+ *               dietary_tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [gluten_free, halal, kosher, vegan]
  *               category:
  *                 type: string
  *                 description: Item category (e.g., Appetizers, Main Course)
  *               packaging:
  *                 type: string
  *                 description: Item packaging (e.g., Foil container, Insulated box)
+ *         addons:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/OrderAddonInput'
  */
 
 /**
@@ -415,8 +677,8 @@ orderRouter.post('/', requirePermission('orders.read'), async (req: Request, res
     const body = req.body as CreateOrderDTO | CreateOrderFromRefsDTO;
     const isReferencePayload = 'client_id' in body && 'caterer_id' in body && 'airport_id' in body;
     const order = isReferencePayload
-      ? await orderService.createOrderFromReferences(body as CreateOrderFromRefsDTO)
-      : await orderService.createOrder(body as CreateOrderDTO);
+      ? await orderService.createOrderFromReferences(body as CreateOrderFromRefsDTO, req.user!.id)
+      : await orderService.createOrder(body as CreateOrderDTO, req.user!.id);
     res.status(201).json(order);
   } catch (error: any) {
     Logger.error('Failed to create order', error, {
@@ -535,6 +797,95 @@ orderRouter.get('/:id', requirePermission('orders.read'), async (req: Request, r
   }
 });
 
+/**
+ * @swagger
+ * /orders/{id}/timeline:
+ *   get:
+ *     summary: Get the audit timeline of an order
+ *     description: Returns every recorded event for the order (creation, field and item changes, status transitions, emails, PDF regenerations, invoices and payments) in chronological order, with the acting user and before/after values.
+ *     tags: [Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: event_type
+ *         schema:
+ *           type: string
+ *         description: Comma-separated event types to include
+ *     responses:
+ *       200:
+ *         description: Order timeline
+ *       404:
+ *         description: Order not found
+ */
+orderRouter.get('/:id/timeline', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const order = await orderService.getOrderById(id);
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const eventTypes = req.query.event_type
+      ? (req.query.event_type as string).split(',').map(t => t.trim()).filter(Boolean) as OrderEventType[]
+      : undefined;
+
+    const events = await orderService.getOrderTimeline(id, eventTypes);
+    res.json({
+      order_id: id,
+      order_number: order.order_number,
+      events,
+    });
+  } catch (error: any) {
+    Logger.error('Failed to get order timeline', error, {
+      method: 'GET',
+      url: `/orders/${req.params.id}/timeline`,
+      orderId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /orders/{id}/suggested-quantities:
+ *   get:
+ *     summary: Suggest item quantities from passenger and crew counts
+ *     description: Passenger items get one per passenger and crew meals one per crew member. Items without meal_for, or whose count is not set, get no suggestion. The order is not changed.
+ *     tags: [Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Suggested quantity per item
+ *       404:
+ *         description: Order not found
+ */
+orderRouter.get('/:id/suggested-quantities', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const suggestions = await orderService.suggestItemQuantities(id);
+    if (!suggestions) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    res.json({ order_id: id, items: suggestions });
+  } catch (error: any) {
+    Logger.error('Failed to suggest order item quantities', error, {
+      method: 'GET',
+      url: `/orders/${req.params.id}/suggested-quantities`,
+      orderId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * @swagger
  * /orders/{id}:
@@ -575,6 +926,16 @@ orderRouter.get('/:id', requirePermission('orders.read'), async (req: Request, r
  *                 nullable: true
  *               aircraft_tail_number:
  *                 type: string
+ *               aircraft_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Aircraft registry entry; sets aircraft_tail_number. A bare tail number is linked when registered.
+ *               passenger_count:
+ *                 type: integer
+ *                 minimum: 0
+ *               crew_count:
+ *                 type: integer
+ *                 minimum: 0
  *               delivery_date:
  *                 type: string
  *                 format: date
@@ -601,6 +962,10 @@ orderRouter.get('/:id', requirePermission('orders.read'), async (req: Request, r
  *                 type: string
  *               dietary_restrictions:
  *                 type: string
+ *               dietary_requirements:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/DietaryRequirement'
  *               delivery_fee:
  *                 type: number
  *               service_charge:
@@ -617,6 +982,8 @@ orderRouter.get('/:id', requirePermission('orders.read'), async (req: Request, r
  *                 type: number
  *               airport_pickup_fee:
  *                 type: number
+ *               currency:
+ *                 type: string
  *               items:
  *                 type: array
  *                 items:
@@ -634,6 +1001,26 @@ orderRouter.get('/:id', requirePermission('orders.read'), async (req: Request, r
  *                       type: string
  *                     price:
  *                       type: number
+ *                     caterer_cost:
+ *                       type: number
+ *                       nullable: true
+ *                       description: Unit cost charged by the caterer (defaults to the caterer's price for the menu item variant)
+ *                     meal_for:
+ *                       type: string
+ *                       enum: [passenger, crew]
+ *                       nullable: true
+ *                       description: Who the item feeds; used to suggest quantities from passenger_count and crew_count
+ *                     allergens:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         enum: [celery, gluten, crustaceans, eggs, fish, lupin, milk, molluscs, mustard, tree_nuts, peanuts, sesame, soy, sulphites]
+ *                       description: Defaults to the menu item's allergens (plus the variant's)
+ *                     dietary_tags:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         enum: [gluten_free, halal, kosher, vegan]
  *                     category:
  *                       type: string
  *                     packaging:
@@ -650,7 +1037,7 @@ orderRouter.put('/:id', requirePermission('orders.update_status'), async (req: R
   try {
     const id = parseInt(req.params.id);
     const orderData: UpdateOrderDTO = req.body;
-    const order = await orderService.updateOrder(id, orderData);
+    const order = await orderService.updateOrder(id, orderData, req.user!.id, getTransitionContext(req));
     if (!order) {
       Logger.warn('Order not found for update', {
         method: 'PUT',
@@ -671,11 +1058,123 @@ orderRouter.put('/:id', requirePermission('orders.update_status'), async (req: R
   }
 });
 
+/**
+ * @swagger
+ * /orders/{id}/duplicate:
+ *   post:
+ *     summary: Duplicate an order for a new delivery
+ *     description: Creates a new order with a fresh order number, copying client, airport, FBO, items, fees and instructions. The copy starts at awaiting_quote. When caterer_id is given, item prices are re-resolved from that caterer's menu item prices; the caterer must use the order's currency.
+ *     tags: [Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - delivery_date
+ *               - delivery_time
+ *             properties:
+ *               delivery_date:
+ *                 type: string
+ *                 format: date
+ *               delivery_time:
+ *                 type: string
+ *                 example: "14:30"
+ *               caterer_id:
+ *                 type: integer
+ *                 description: Use a different caterer for the copy
+ *               aircraft_tail_number:
+ *                 type: string
+ *               passenger_count:
+ *                 type: integer
+ *                 minimum: 0
+ *               crew_count:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       201:
+ *         description: Duplicated order
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Order not found
+ */
+orderRouter.post('/:id/duplicate', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const duplicateData: DuplicateOrderDTO = req.body;
+    const order = await orderService.duplicateOrder(id, duplicateData, req.user!.id);
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    res.status(201).json(order);
+  } catch (error: any) {
+    Logger.error('Failed to duplicate order', error, {
+      method: 'POST',
+      url: `/orders/${req.params.id}/duplicate`,
+      orderId: req.params.id,
+      body: req.body,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /orders/{id}/allowed-transitions:
+ *   get:
+ *     summary: List status transitions available for an order
+ *     description: Returns the transitions defined for the order's current status. Each entry reports whether its guards pass for this order and user, the reason when blocked, and who is notified.
+ *     tags: [Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Allowed transitions
+ *       404:
+ *         description: Order not found
+ */
+orderRouter.get('/:id/allowed-transitions', requirePermission('orders.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const order = await orderService.getOrderById(id);
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const transitions = await orderService.getAllowedTransitions(id, getTransitionContext(req));
+    res.json({
+      order_id: id,
+      current_status: order.status,
+      transitions: transitions || [],
+    });
+  } catch (error: any) {
+    Logger.error('Failed to get allowed transitions', error, {
+      method: 'GET',
+      url: `/orders/${req.params.id}/allowed-transitions`,
+      orderId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * @swagger
  * /orders/{id}/status:
  *   patch:
  *     summary: Update order status
+ *     description: Status changes follow the order status state machine. Use GET /orders/{id}/allowed-transitions to list valid target statuses.
  *     tags: [Orders]
  *     parameters:
  *       - in: path
@@ -694,11 +1193,14 @@ orderRouter.put('/:id', requirePermission('orders.update_status'), async (req: R
  *             properties:
  *               status:
  *                 type: string
+ *               notify:
+ *                 type: boolean
+ *                 description: Send the transition's client/caterer notification emails (default false)
  *     responses:
  *       200:
  *         description: Status updated successfully
  *       400:
- *         description: Invalid status value
+ *         description: Invalid status value or transition not allowed
  *       404:
  *         description: Order not found
  */
@@ -707,7 +1209,7 @@ orderRouter.patch('/:id/status', requirePermission('orders.update_status'), asyn
     const id = parseInt(req.params.id);
     const statusData: OrderStatusUpdateDTO = req.body;
     
-    const order = await orderService.updateOrderStatus(id, statusData);
+    const order = await orderService.updateOrderStatus(id, statusData, req.user!.id, getTransitionContext(req));
     if (!order) {
       Logger.warn('Order not found for status update', {
         method: 'PATCH',
@@ -766,7 +1268,7 @@ orderRouter.patch('/:id/status', requirePermission('orders.update_status'), asyn
  *       404:
  *         description: Order not found
  */
-orderRouter.patch('/:id/payment-status', requireRole('ADMIN'), requirePermission('orders.update'), async (req: Request, res: Response) => {
+orderRouter.patch('/:id/payment-status', requirePermission('orders.set_paid'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const { is_paid } = req.body;
@@ -775,7 +1277,7 @@ orderRouter.patch('/:id/payment-status', requireRole('ADMIN'), requirePermission
       return res.status(400).json({ error: 'is_paid must be a boolean value' });
     }
     
-    const order = await orderService.updateOrder(id, { is_paid });
+    const order = await orderService.updateOrder(id, { is_paid }, req.user!.id);
     if (!order) {
       Logger.warn('Order not found for payment status update', {
         method: 'PATCH',
@@ -819,7 +1321,7 @@ orderRouter.patch('/:id/payment-status', requireRole('ADMIN'), requirePermission
  *       404:
  *         description: Order not found
  */
-orderRouter.delete('/:id', requireRole('ADMIN'), async (req: Request, res: Response) => {
+orderRouter.delete('/:id', requirePermission('orders.delete'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await orderService.deleteOrder(id);
@@ -867,7 +1369,7 @@ orderRouter.delete('/:id', requireRole('ADMIN'), async (req: Request, res: Respo
  *       400:
  *         description: Invalid request
  */
-orderRouter.delete('/', requireRole('ADMIN'), async (req: Request, res: Response) => {
+orderRouter.delete('/', requirePermission('orders.delete'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -1022,7 +1524,7 @@ orderRouter.get('/:id/pdf', requirePermission('orders.read'), async (req: Reques
         : [];
     } else {
       // Auto-detect changes from last sent snapshot
-      const changes = orderService.detectChangesFromLastSent(id, order);
+      const changes = await orderService.detectChangesFromLastSent(id, order);
       changedFields = changes.changedFields;
       changedItemIds = changes.changedItemIds;
     }
@@ -1211,7 +1713,7 @@ orderRouter.get('/:id/pdf-b', requirePermission('orders.read'), async (req: Requ
         : [];
     } else {
       // Auto-detect changes from last sent snapshot
-      const changes = orderService.detectChangesFromLastSent(id, order);
+      const changes = await orderService.detectChangesFromLastSent(id, order);
       changedFields = changes.changedFields;
       changedItemIds = changes.changedItemIds;
     }
@@ -1297,6 +1799,10 @@ orderRouter.get('/:id/pdf-b', requirePermission('orders.read'), async (req: Requ
  *                 type: string
  *                 enum: [A, B]
  *                 description: Override PDF format (A=with pricing, B=without pricing)
+ *               include_quote_link:
+ *                 type: boolean
+ *                 default: true
+ *                 description: For quote emails, include a signed link to approve, request changes or approve and pay online
  *     responses:
  *       200:
  *         description: Email sent successfully
@@ -1334,9 +1840,9 @@ orderRouter.post('/:id/send-to-client', requirePermission('orders.read'), async
     const purpose = req.body.purpose || template.purpose;
     const pdfFormat = req.body.pdf_format || template.pdfFormat;
     
-    // Only ADMIN can send final invoice (when is_paid is true or purpose is invoice)
+    // Only invoices.send_final (admin-only) can send final invoice (when is_paid is true or purpose is invoice)
     const isInvoice = order.is_paid === true || purpose === 'invoice';
-    if (isInvoice && req.user!.role !== 'ADMIN') {
+    if (isInvoice && !hasPermission(req.user!, 'invoices.send_final')) {
       return res.status(403).json({ error: 'Only administrators can send final invoice emails' });
     }
     
@@ -1354,9 +1860,18 @@ orderRouter.post('/:id/send-to-client', requirePermission('orders.read'), async
       airportCode, 
       order.status,
       order.delivery_date,
-      order.delivery_time
+      formatDeliveryTime(order)
     );
-    const body = req.body.custom_message || template.body(clientFirstName);
+    let body = req.body.custom_message || template.body(clientFirstName);
+
+    // Quote emails carry a signed link to approve, request changes or approve and pay online
+    let quoteLinkExpiresAt: Date | undefined;
+    const quoteApprovalService = getQuoteApprovalService();
+    if (req.body.include_quote_link !== false && quoteApprovalService.shouldIncludeQuoteLink(order, purpose)) {
+      const link = await quoteApprovalService.createQuoteLink(order, clientEmail, req.user!.id);
+      body = quoteApprovalService.appendQuoteLink(body, link);
+      quoteLinkExpiresAt = link.expires_at;
+    }
 
     // Generate HTML email
     const html = emailService.generateEmailHTML(body, order.order_number || '');
@@ -1399,6 +1914,16 @@ orderRouter.post('/:id/send-to-client', requirePermission('orders.read'), async
       return res.status(500).json({ error: result.error });
     }
 
+    await orderService.recordEmailSent(order, {
+      recipient_type: 'client',
+      recipient: clientEmail,
+      cc: ccEmails,
+      subject,
+      purpose,
+      pdf_format: usePdfB ? 'B' : 'A',
+      message_id: result.messageId,
+    }, req.user!.id);
+
     Logger.info('Email sent to client', {
       orderId: id,
       orderNumber: order.order_number,
@@ -1415,6 +1940,7 @@ orderRouter.post('/:id/send-to-client', requirePermission('orders.read'), async
       status: order.status,
       pdf_format: pdfFormat,
       purpose,
+      quote_link_expires_at: quoteLinkExpiresAt,
       sent_at: new Date().toISOString(),
       messageId: result.messageId,
     });
@@ -1462,6 +1988,10 @@ orderRouter.post('/:id/send-to-client', requirePermission('orders.read'), async
  *                 type: string
  *                 enum: [awaiting_quote, awaiting_client_approval, awaiting_caterer, caterer_confirmed, in_preparation, ready_for_delivery, delivered, paid, cancelled, order_changed]
  *                 description: Optional new status to set after sending email
+ *               include_response_link:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Include a signed caterer portal link to accept, decline or propose changes (skipped for cancellations and closed orders)
  *     responses:
  *       200:
  *         description: Email sent successfully
@@ -1510,9 +2040,18 @@ orderRouter.post('/:id/send-to-caterer', requirePermission('orders.read'), async
       airportCode, 
       order.status,
       order.delivery_date,
-      order.delivery_time
+      formatDeliveryTime(order)
     );
-    const body = req.body.custom_message || template.body('Team');
+    let body = req.body.custom_message || template.body('Team');
+
+    // Signed link to the caterer portal so the caterer can accept/decline/propose changes online
+    let responseLinkExpiresAt: Date | undefined;
+    const catererPortalService = getCatererPortalService();
+    if (req.body.include_response_link !== false && catererPortalService.shouldIncludeResponseLink(order, purpose)) {
+      const link = await catererPortalService.createResponseLink(order, catererEmail, req.user!.id);
+      body = catererPortalService.appendResponseLink(body, link);
+      responseLinkExpiresAt = link.expires_at;
+    }
 
     // Generate HTML email
     const html = emailService.generateEmailHTML(body, order.order_number || '');
@@ -1542,8 +2081,16 @@ orderRouter.post('/:id/send-to-caterer', requirePermission('orders.read'), async
       return res.status(500).json({ error: result.error });
     }
 
-    // Store snapshot of order state when email is sent (for change detection in future PDFs)
-    orderService.storeLastSentSnapshot(order);
+    // Record the send - the order state at this point is the baseline for change detection in future PDFs
+    await orderService.recordEmailSent(order, {
+      recipient_type: 'caterer',
+      recipient: catererEmail,
+      cc: ccEmails,
+      subject,
+      purpose,
+      pdf_format: pdfFormat,
+      message_id: result.messageId,
+    }, req.user!.id);
 
     // Increment revision count when sending to caterer
     // This tracks how many times the order has been edited and sent to the caterer
@@ -1555,13 +2102,24 @@ orderRouter.post('/:id/send-to-caterer', requirePermission('orders.read'), async
 
     // Update status if requested
     let statusUpdated = false;
+    let statusError: string | undefined;
     if (req.body.update_status) {
       const validStatuses = ['awaiting_quote', 'awaiting_client_approval', 'awaiting_caterer', 'caterer_confirmed', 'in_preparation', 'ready_for_delivery', 'delivered', 'cancelled', 'order_changed'];
       if (validStatuses.includes(req.body.update_status)) {
-        const updatedOrder = await orderService.updateOrderStatus(id, { status: req.body.update_status });
-        if (updatedOrder) {
-          order = updatedOrder;
-          statusUpdated = true;
+        // The email has already gone out, so a rejected transition is reported rather than failing the request
+        try {
+          const updatedOrder = await orderService.updateOrderStatus(id, { status: req.body.update_status }, req.user!.id, getTransitionContext(req));
+          if (updatedOrder) {
+            order = updatedOrder;
+            statusUpdated = true;
+          }
+        } catch (error: any) {
+          statusError = error.message;
+          Logger.warn('Status update after caterer email rejected', {
+            orderId: id,
+            requestedStatus: req.body.update_status,
+            error: error.message,
+          });
         }
       }
     }
@@ -1583,8 +2141,10 @@ orderRouter.post('/:id/send-to-caterer', requirePermission('orders.read'), async
       order_number: order.order_number,
       status: order.status,
       status_updated: statusUpdated,
+      status_error: statusError,
       pdf_format: pdfFormat,
       purpose,
+      response_link_expires_at: responseLinkExpiresAt,
       sent_at: new Date().toISOString(),
       messageId: result.messageId,
     });
@@ -1624,6 +2184,14 @@ orderRouter.post('/:id/send-to-caterer', requirePermission('orders.read'), async
  *               custom_caterer_message:
  *                 type: string
  *                 description: Optional custom message for caterer email
+ *               include_response_link:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Include a signed caterer portal link in the caterer email
+ *               include_quote_link:
+ *                 type: boolean
+ *                 default: true
+ *                 description: For quote emails, include a signed quote approval link in the client email
  *     responses:
  *       200:
  *         description: Emails sent successfully
@@ -1681,7 +2249,7 @@ orderRouter.post('/:id/send-to-both', requirePermission('orders.read'), async (r
       
       // Only ADMIN can send final invoice
       const isInvoice = order.is_paid === true || clientPurpose === 'invoice';
-      if (isInvoice && req.user!.role !== 'ADMIN') {
+      if (isInvoice && !hasPermission(req.user!, 'invoices.send_final')) {
         return res.status(403).json({ error: 'Only administrators can send final invoice emails' });
       }
       
@@ -1700,9 +2268,14 @@ orderRouter.post('/:id/send-to-both', requirePermission('orders.read'), async (r
         airportCode,
         order.status,
         order.delivery_date,
-        order.delivery_time
+        formatDeliveryTime(order)
       );
-      const clientBody = req.body.custom_client_message || clientTemplate.body(clientFirstName);
+      let clientBody = req.body.custom_client_message || clientTemplate.body(clientFirstName);
+      const quoteApprovalService = getQuoteApprovalService();
+      if (req.body.include_quote_link !== false && quoteApprovalService.shouldIncludeQuoteLink(order, clientPurpose)) {
+        const link = await quoteApprovalService.createQuoteLink(order, clientEmail, req.user!.id);
+        clientBody = quoteApprovalService.appendQuoteLink(clientBody, link);
+      }
       const clientHtml = emailService.generateEmailHTML(clientBody, order.order_number || '');
       
       // Use appropriate PDF format for client (with status, not revision)
@@ -1735,6 +2308,18 @@ orderRouter.post('/:id/send-to-both', requirePermission('orders.read'), async (r
         pdf_format: clientPdfFormat,
         purpose: clientPurpose,
       };
+
+      if (clientResult.success) {
+        await orderService.recordEmailSent(order, {
+          recipient_type: 'client',
+          recipient: clientEmail,
+          cc: ccEmails,
+          subject: clientSubject,
+          purpose: clientPurpose,
+          pdf_format: usePdfBForClient ? 'B' : 'A',
+          message_id: clientResult.messageId,
+        }, req.user!.id);
+      }
     }
 
     // Send to caterer if email available (always PDF B - no pricing)
@@ -1755,9 +2340,14 @@ orderRouter.post('/:id/send-to-both', requirePermission('orders.read'), async (r
         catererAirportCode,
         order.status,
         order.delivery_date,
-        order.delivery_time
+        formatDeliveryTime(order)
       );
-      const catererBody = req.body.custom_caterer_message || catererTemplate.body('Team');
+      let catererBody = req.body.custom_caterer_message || catererTemplate.body('Team');
+      const catererPortalService = getCatererPortalService();
+      if (req.body.include_response_link !== false && catererPortalService.shouldIncludeResponseLink(order, catererPurpose)) {
+        const link = await catererPortalService.createResponseLink(order, catererEmail, req.user!.id);
+        catererBody = catererPortalService.appendResponseLink(catererBody, link);
+      }
       const catererHtml = emailService.generateEmailHTML(catererBody, order.order_number || '');
 
       // Get CC emails from request body (same CC list for both if sending to both)
@@ -1785,14 +2375,18 @@ orderRouter.post('/:id/send-to-both', requirePermission('orders.read'), async (r
         pdf_format: 'B',
         purpose: catererPurpose,
       };
-      
-      // Store snapshot when email is sent to caterer
-      orderService.storeLastSentSnapshot(order);
-    }
 
-    // Store snapshot when email is sent to client (if sent)
-    if (results.client?.success) {
-      orderService.storeLastSentSnapshot(order);
+      if (catererResult.success) {
+        await orderService.recordEmailSent(order, {
+          recipient_type: 'caterer',
+          recipient: catererEmail,
+          cc: catererCcEmails,
+          subject: catererSubject,
+          purpose: catererPurpose,
+          pdf_format: 'B',
+          message_id: catererResult.messageId,
+        }, req.user!.id);
+      }
     }
 
     Logger.info('Emails sent to both client and caterer', {
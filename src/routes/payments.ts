@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { getPaymentService } from '../services/payment.service';
 import { getOrderRepository } from '../repositories';
 import { Logger } from '../utils/logger';
-import { requireAuth, requireRole } from '../middleware/auth';
+import { requireAuth, requirePermission, allowPublic } from '../middleware/auth';
 import { ProcessPaymentDTO } from '../models/payment';
 
 export const paymentRouter = Router();
@@ -10,9 +10,9 @@ export const publicPaymentRouter = Router(); // For endpoints that only need aut
 const paymentService = getPaymentService();
 const orderRepository = getOrderRepository();
 
-// All payment routes require authentication and admin role
+// All payment routes require authentication and payments.manage
 paymentRouter.use(requireAuth);
-paymentRouter.use(requireRole('ADMIN'));
+paymentRouter.use(requirePermission('payments.manage'));
 
 // Public payment router (no auth required for application ID - it's safe to expose)
 // The Square Application ID is meant to be used in client-side code
@@ -186,10 +186,12 @@ paymentRouter.get('/orders/:id/payments', async (req: Request, res: Response) =>
     }
 
     const transactions = await paymentService.getOrderPayments(orderId);
+    const refunds = await paymentService.getOrderRefunds(orderId);
 
     return res.json({
       order_id: orderId,
       transactions,
+      refunds,
       count: transactions.length,
     });
   } catch (error: any) {
@@ -203,6 +205,120 @@ paymentRouter.get('/orders/:id/payments', async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * @swagger
+ * /orders/{id}/payments/{txId}/refund:
+ *   post:
+ *     summary: Refund a payment fully or partially (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: txId
+ *         required: true
+ *         description: Payment transaction ID
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - reason
+ *               - idempotency_key
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               reason:
+ *                 type: string
+ *               idempotency_key:
+ *                 type: string
+ *                 description: Client-generated nonce; resend the same value when retrying a refund
+ *     responses:
+ *       200:
+ *         description: Refund created
+ *       400:
+ *         description: Invalid request or refund rejected
+ *       404:
+ *         description: Order or payment transaction not found
+ */
+paymentRouter.post('/orders/:id/payments/:txId/refund', async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const transactionId = parseInt(req.params.txId);
+    const adminUserId = req.user!.id!;
+
+    const order = await orderRepository.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const { amount, reason, idempotency_key } = req.body;
+
+    if (!amount || !reason || !idempotency_key) {
+      return res.status(400).json({
+        error: 'Missing required fields: amount, reason, idempotency_key',
+      });
+    }
+
+    if (typeof amount !== 'number' || amount <= 0) {
+      return res.status(400).json({ error: 'Amount must be a positive number' });
+    }
+
+    if (typeof idempotency_key !== 'string') {
+      return res.status(400).json({ error: 'idempotency_key must be a string' });
+    }
+
+    const result = await paymentService.refundPayment(
+      orderId,
+      transactionId,
+      { amount, reason, idempotency_key },
+      adminUserId
+    );
+
+    if (result.success) {
+      return res.json({
+        success: true,
+        refund: result.refund,
+        payment_transaction: result.payment_transaction,
+        order_is_paid: result.order_is_paid,
+        message: 'Refund processed successfully',
+      });
+    }
+
+    if (result.error === 'Payment transaction not found') {
+      return res.status(404).json({ success: false, error: result.error });
+    }
+
+    return res.status(400).json({
+      success: false,
+      error: result.error,
+      square_error_code: result.square_error_code,
+      refund: result.refund,
+    });
+  } catch (error: any) {
+    Logger.error('Refund processing error', error, {
+      orderId: req.params.id,
+      transactionId: req.params.txId,
+      body: req.body,
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Refund processing failed',
+    });
+  }
+});
+
 /**
  * @swagger
  * /clients/{id}/stored-cards:
@@ -303,7 +419,7 @@ paymentRouter.delete('/stored-cards/:id', async (req: Request, res: Response) =>
  *         description: Square application ID
  */
 // Public endpoint for application ID (only requires auth, not admin)
-publicPaymentRouter.get('/payments/application-id', async (req: Request, res: Response) => {
+publicPaymentRouter.get('/payments/application-id', allowPublic, async (req: Request, res: Response) => {
   try {
     const applicationId = process.env.SQUARE_APPLICATION_ID;
 
@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { PERMISSION_CATALOG, BUILT_IN_ROLES, getEffectivePermissions } from '../utils/permissions';
+import { requireAuth, allowAuthenticated } from '../middleware/auth';
+
+export const permissionRouter = Router();
+
+permissionRouter.use(requireAuth);
+permissionRouter.use(allowAuthenticated);
+
+/**
+ * @swagger
+ * /permissions:
+ *   get:
+ *     summary: Describe the permission catalog
+ *     description: Every permission a route can require, the built-in roles, and the permissions held by the signed-in user.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permission catalog
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 permissions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       key:
+ *                         type: string
+ *                         example: "inventory.stock"
+ *                       group:
+ *                         type: string
+ *                       description:
+ *                         type: string
+ *                       admin_only:
+ *                         type: boolean
+ *                         description: Never granted to CSRs, by role or individually
+ *                 built_in_roles:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         enum: [ADMIN, CSR]
+ *                       description:
+ *                         type: string
+ *                       permissions:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                 granted:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Permissions of the signed-in user
+ */
+permissionRouter.get('/', (req: Request, res: Response) => {
+  res.json({
+    permissions: PERMISSION_CATALOG,
+    built_in_roles: BUILT_IN_ROLES,
+    granted: getEffectivePermissions(req.user!),
+  });
+});
@@ -0,0 +1,477 @@
+import { Router, Request, Response } from 'express';
+import { getPurchaseOrderService } from '../services/purchase-order.service';
+import {
+  CreatePurchaseOrderDTO,
+  UpdatePurchaseOrderDTO,
+  ReceivePurchaseOrderDTO,
+  PurchaseOrderSearchParams,
+  PurchaseOrderStatus,
+} from '../models/purchase-order';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const purchaseOrderRouter = Router();
+
+purchaseOrderRouter.use(requireAuth);
+
+function handleError(res: Response, error: any, message: string, context: Record<string, any>) {
+  if (error.message.startsWith('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error.message.startsWith('Supplier not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+  Logger.error(message, error, context);
+  res.status(500).json({ error: error.message });
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PurchaseOrderLine:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         inventory_item_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Null once the inventory item is deleted
+ *         item_name:
+ *           type: string
+ *           description: Snapshot of the inventory item name
+ *         unit:
+ *           type: string
+ *         quantity_ordered:
+ *           type: number
+ *         quantity_received:
+ *           type: number
+ *         unit_price:
+ *           type: number
+ *           nullable: true
+ *     PurchaseOrder:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         po_number:
+ *           type: string
+ *           example: "PO-00042"
+ *         supplier_id:
+ *           type: integer
+ *         supplier_name:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [draft, sent, partially_received, received]
+ *         expected_date:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         notes:
+ *           type: string
+ *         lines:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PurchaseOrderLine'
+ *         total:
+ *           type: number
+ *           description: Sum of quantity_ordered x unit_price over priced lines
+ *         sent_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         received_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_by:
+ *           type: integer
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     CreatePurchaseOrder:
+ *       type: object
+ *       required:
+ *         - supplier_id
+ *         - lines
+ *       properties:
+ *         supplier_id:
+ *           type: integer
+ *         expected_date:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ *         lines:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - inventory_item_id
+ *               - quantity
+ *             properties:
+ *               inventory_item_id:
+ *                 type: integer
+ *               quantity:
+ *                 type: number
+ *                 description: In the inventory item's unit
+ *               unit_price:
+ *                 type: number
+ *                 description: Defaults to the inventory item's unit_price
+ *     ReorderSuggestion:
+ *       type: object
+ *       properties:
+ *         inventory_item_id:
+ *           type: integer
+ *         item_name:
+ *           type: string
+ *         unit:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [low_stock, out_of_stock]
+ *         supplier_id:
+ *           type: integer
+ *           nullable: true
+ *         supplier_name:
+ *           type: string
+ *         current_stock:
+ *           type: number
+ *         min_stock_level:
+ *           type: number
+ *         max_stock_level:
+ *           type: number
+ *         on_order:
+ *           type: number
+ *           description: Outstanding on draft, sent and partially received purchase orders
+ *         suggested_quantity:
+ *           type: number
+ *           description: max_stock_level - current_stock - on_order, never below 0
+ *         unit_price:
+ *           type: number
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /purchase-orders/reorder-suggestions:
+ *   get:
+ *     summary: Suggested reorder quantities for low and out of stock items
+ *     description: For every low or out of stock inventory item, the quantity that brings it back to max_stock_level after what is already on open purchase orders. Sorted by supplier, then item.
+ *     tags: [Purchase Orders]
+ *     responses:
+ *       200:
+ *         description: Reorder suggestions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 suggestions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReorderSuggestion'
+ */
+purchaseOrderRouter.get('/reorder-suggestions', requirePermission('purchasing.read'), async (req: Request, res: Response) => {
+  try {
+    const suggestions = await getPurchaseOrderService().getReorderSuggestions();
+    res.json({ suggestions });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to get reorder suggestions', { method: 'GET', url: '/purchase-orders/reorder-suggestions' });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders:
+ *   post:
+ *     summary: Create a draft purchase order
+ *     tags: [Purchase Orders]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreatePurchaseOrder'
+ *     responses:
+ *       201:
+ *         description: Purchase order created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       400:
+ *         description: Validation error, inactive supplier or unknown inventory item
+ *       404:
+ *         description: Supplier not found
+ */
+purchaseOrderRouter.post('/', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const purchaseOrderData: CreatePurchaseOrderDTO = req.body;
+    const purchaseOrder = await getPurchaseOrderService().createPurchaseOrder(purchaseOrderData, req.user!.id);
+    res.status(201).json(purchaseOrder);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to create purchase order', { method: 'POST', url: '/purchase-orders', body: req.body });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders:
+ *   get:
+ *     summary: List purchase orders, newest first
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: query
+ *         name: supplier_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, sent, partially_received, received]
+ *       - in: query
+ *         name: inventory_item_id
+ *         schema:
+ *           type: integer
+ *         description: Only purchase orders with a line for this item
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: List of purchase orders
+ *       400:
+ *         description: Invalid status
+ */
+purchaseOrderRouter.get('/', requirePermission('purchasing.read'), async (req: Request, res: Response) => {
+  try {
+    const params: PurchaseOrderSearchParams = {
+      supplier_id: req.query.supplier_id ? parseInt(req.query.supplier_id as string) : undefined,
+      status: (req.query.status as PurchaseOrderStatus) || undefined,
+      inventory_item_id: req.query.inventory_item_id ? parseInt(req.query.inventory_item_id as string) : undefined,
+      sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    };
+    const result = await getPurchaseOrderService().listPurchaseOrders(params);
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to list purchase orders', { method: 'GET', url: '/purchase-orders', query: req.query });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders/{id}:
+ *   get:
+ *     summary: Get a purchase order with its lines
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ */
+purchaseOrderRouter.get('/:id', requirePermission('purchasing.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const purchaseOrder = await getPurchaseOrderService().getPurchaseOrderById(id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ error: 'Purchase order not found' });
+    }
+    res.json(purchaseOrder);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to get purchase order', { method: 'GET', url: `/purchase-orders/${req.params.id}` });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders/{id}:
+ *   put:
+ *     summary: Update a draft purchase order
+ *     description: Only drafts can be edited. Lines, when given, replace all existing lines.
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreatePurchaseOrder'
+ *     responses:
+ *       200:
+ *         description: Purchase order updated
+ *       400:
+ *         description: Validation error or purchase order is not a draft
+ *       404:
+ *         description: Purchase order or supplier not found
+ */
+purchaseOrderRouter.put('/:id', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const purchaseOrderData: UpdatePurchaseOrderDTO = req.body;
+    const purchaseOrder = await getPurchaseOrderService().updatePurchaseOrder(id, purchaseOrderData);
+    if (!purchaseOrder) {
+      return res.status(404).json({ error: 'Purchase order not found' });
+    }
+    res.json(purchaseOrder);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to update purchase order', { method: 'PUT', url: `/purchase-orders/${req.params.id}`, body: req.body });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders/{id}/send:
+ *   post:
+ *     summary: Mark a draft purchase order as sent to the supplier
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Purchase order sent
+ *       400:
+ *         description: Purchase order is not a draft
+ *       404:
+ *         description: Purchase order not found
+ */
+purchaseOrderRouter.post('/:id/send', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const purchaseOrder = await getPurchaseOrderService().sendPurchaseOrder(id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ error: 'Purchase order not found' });
+    }
+    res.json(purchaseOrder);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to send purchase order', { method: 'POST', url: `/purchase-orders/${req.params.id}/send` });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders/{id}/receive:
+ *   post:
+ *     summary: Receive delivered quantities
+ *     description: Adds each received quantity to the inventory item's current_stock and records a receipt movement. The purchase order becomes partially_received, or received once every line is complete. A line cannot be received beyond its ordered quantity.
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lines
+ *             properties:
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - line_id
+ *                     - quantity
+ *                   properties:
+ *                     line_id:
+ *                       type: integer
+ *                     quantity:
+ *                       type: number
+ *               notes:
+ *                 type: string
+ *                 description: Recorded on the movements, e.g. delivery note number
+ *     responses:
+ *       200:
+ *         description: Updated purchase order
+ *       400:
+ *         description: Validation error, purchase order not sent, or quantity exceeds what is outstanding
+ *       404:
+ *         description: Purchase order not found
+ */
+purchaseOrderRouter.post('/:id/receive', requirePermission('purchasing.receive'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const receiveData: ReceivePurchaseOrderDTO = req.body;
+    const purchaseOrder = await getPurchaseOrderService().receivePurchaseOrder(id, receiveData, req.user!.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ error: 'Purchase order not found' });
+    }
+    res.json(purchaseOrder);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to receive purchase order', { method: 'POST', url: `/purchase-orders/${req.params.id}/receive`, body: req.body });
+  }
+});
+
+/**
+ * @swagger
+ * /purchase-orders/{id}:
+ *   delete:
+ *     summary: Delete a draft purchase order
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Purchase order deleted
+ *       400:
+ *         description: Purchase order is not a draft
+ *       404:
+ *         description: Purchase order not found
+ */
+purchaseOrderRouter.delete('/:id', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await getPurchaseOrderService().deletePurchaseOrder(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Purchase order not found' });
+    }
+    res.json({ message: 'Purchase order deleted successfully' });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to delete purchase order', { method: 'DELETE', url: `/purchase-orders/${req.params.id}` });
+  }
+});
@@ -0,0 +1,217 @@
+import { Router, Request, Response } from 'express';
+import { getQuoteApprovalService } from '../services/quote-approval.service';
+import { allowPublic } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+// Public routes - the signed token from the quote email is the only credential
+export const quotePortalRouter = Router();
+
+quotePortalRouter.use(allowPublic);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     QuoteResponseRequest:
+ *       type: object
+ *       required:
+ *         - token
+ *         - action
+ *       properties:
+ *         token:
+ *           type: string
+ *         action:
+ *           type: string
+ *           enum: [approve, request_changes]
+ *         comments:
+ *           type: string
+ *           description: Required for request_changes
+ *     QuotePaymentRequest:
+ *       type: object
+ *       required:
+ *         - token
+ *         - source_id
+ *       properties:
+ *         token:
+ *           type: string
+ *         source_id:
+ *           type: string
+ *           description: Card token from Square Web Payments (application ID from /payments/application-id)
+ *         comments:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /quote-portal/quote:
+ *   get:
+ *     summary: Get the quote behind a quote link (with pricing)
+ *     tags: [Quote Portal]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quote details, whether the client already responded and whether online payment is available
+ *       400:
+ *         description: Invalid or expired link
+ */
+quotePortalRouter.get('/quote', async (req: Request, res: Response) => {
+  try {
+    const token = req.query.token as string;
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const view = await getQuoteApprovalService().getQuoteView(token);
+    if (!view) {
+      return res.status(400).json({ error: 'Invalid or expired link' });
+    }
+
+    res.json(view);
+  } catch (error: any) {
+    Logger.error('Failed to load quote', error, { method: 'GET', url: '/quote-portal/quote' });
+    res.status(500).json({ error: 'Failed to load quote' });
+  }
+});
+
+/**
+ * @swagger
+ * /quote-portal/quote/pdf:
+ *   get:
+ *     summary: Get the quote PDF (PDF A with pricing) behind a quote link
+ *     tags: [Quote Portal]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid or expired link
+ */
+quotePortalRouter.get('/quote/pdf', async (req: Request, res: Response) => {
+  try {
+    const token = req.query.token as string;
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const pdf = await getQuoteApprovalService().getQuotePdf(token);
+    if (!pdf) {
+      return res.status(400).json({ error: 'Invalid or expired link' });
+    }
+
+    const safeFilename = pdf.filename.replace(/[^a-zA-Z0-9._\-\s]/g, '_');
+    res.setHeader('Content-Type', pdf.mimeType);
+    res.setHeader('Content-Disposition', `inline; filename="${safeFilename}"`);
+    res.send(pdf.buffer);
+  } catch (error: any) {
+    Logger.error('Failed to load quote PDF', error, { method: 'GET', url: '/quote-portal/quote/pdf' });
+    res.status(500).json({ error: 'Failed to load quote PDF' });
+  }
+});
+
+/**
+ * @swagger
+ * /quote-portal/respond:
+ *   post:
+ *     summary: Approve a quote or request changes
+ *     description: Approving moves the order to awaiting_caterer; requesting changes moves it back to awaiting_quote. The response is recorded in the order timeline and each link can be used once.
+ *     tags: [Quote Portal]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuoteResponseRequest'
+ *     responses:
+ *       200:
+ *         description: Response recorded
+ *       400:
+ *         description: Invalid input, or invalid, expired or already used link
+ */
+quotePortalRouter.post('/respond', async (req: Request, res: Response) => {
+  try {
+    const { token, action, comments } = req.body;
+    if (!token || !action) {
+      return res.status(400).json({ error: 'Token and action are required' });
+    }
+
+    const result = await getQuoteApprovalService().respond(token, { action, comments });
+    if (!result) {
+      return res.status(400).json({ error: 'Invalid, expired or already used link' });
+    }
+
+    res.json({
+      message: 'Thank you - your response has been recorded',
+      ...result,
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to record quote response', error, { method: 'POST', url: '/quote-portal/respond' });
+    res.status(500).json({ error: 'Failed to record response' });
+  }
+});
+
+/**
+ * @swagger
+ * /quote-portal/approve-and-pay:
+ *   post:
+ *     summary: Approve a quote and pay the order total by card
+ *     description: Charges the order total through Square and approves the quote. The link stays usable if the payment is declined.
+ *     tags: [Quote Portal]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuotePaymentRequest'
+ *     responses:
+ *       200:
+ *         description: Payment taken and quote approved
+ *       400:
+ *         description: Invalid input, invalid link, or payment not available
+ *       402:
+ *         description: Payment failed
+ */
+quotePortalRouter.post('/approve-and-pay', async (req: Request, res: Response) => {
+  try {
+    const { token, source_id, comments } = req.body;
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const result = await getQuoteApprovalService().approveAndPay(token, { source_id, comments });
+    if (!result) {
+      return res.status(400).json({ error: 'Invalid, expired or already used link' });
+    }
+
+    res.json({
+      message: 'Thank you - your payment was received and the quote approved',
+      ...result,
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message.startsWith('Payment failed')) {
+      return res.status(402).json({ error: error.message });
+    }
+    Logger.error('Failed to approve and pay quote', error, { method: 'POST', url: '/quote-portal/approve-and-pay' });
+    res.status(500).json({ error: 'Failed to process payment' });
+  }
+});
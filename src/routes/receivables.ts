@@ -0,0 +1,319 @@
+import { Router, Request, Response } from 'express';
+import { getReceivablesService } from '../services/receivables.service';
+import { SendStatementDTO } from '../models/receivables';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const receivablesRouter = Router();
+
+// All routes require authentication and the permission below (ADMIN holds every permission)
+receivablesRouter.use(requireAuth);
+receivablesRouter.use(requirePermission('receivables.manage'));
+
+/**
+ * @swagger
+ * /receivables/aging:
+ *   get:
+ *     summary: Accounts receivable aging by client (Admin only)
+ *     description: Outstanding balances of unpaid, non-cancelled orders bucketed by days since delivery date - current (under 30), 30-59, 60-89 and 90+. Clients and totals are split by order currency.
+ *     tags: [Receivables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: as_of
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Aging date (default today). Payments after this date are ignored.
+ *       - in: query
+ *         name: client_id
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Aging per client with outstanding orders, and totals
+ *       400:
+ *         description: Invalid parameters
+ */
+receivablesRouter.get('/aging', async (req: Request, res: Response) => {
+  try {
+    const clientId = req.query.client_id ? parseInt(req.query.client_id as string) : undefined;
+    const report = await getReceivablesService().getAgingReport(req.query.as_of as string | undefined, clientId);
+    res.json(report);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to generate aging report', error, {
+      method: 'GET',
+      url: '/receivables/aging',
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /receivables/clients/{clientId}/ledger:
+ *   get:
+ *     summary: Client ledger of orders, payments, refunds and invoices with running balance (Admin only)
+ *     tags: [Receivables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: date_from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Earlier activity is summarized in opening_balance
+ *       - in: query
+ *         name: date_to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Required when the client has activity in more than one currency
+ *     responses:
+ *       200:
+ *         description: Ledger entries, totals and balances
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Client not found
+ */
+receivablesRouter.get('/clients/:clientId/ledger', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const ledger = await getReceivablesService().getClientLedger(
+      clientId,
+      req.query.date_from as string | undefined,
+      req.query.date_to as string | undefined,
+      req.query.currency as string | undefined
+    );
+    if (!ledger) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+    res.json(ledger);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to load client ledger', error, {
+      method: 'GET',
+      url: `/receivables/clients/${req.params.clientId}/ledger`,
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /receivables/clients/{clientId}/statement:
+ *   get:
+ *     summary: Monthly client statement data (Admin only)
+ *     tags: [Receivables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: month
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "2025-03"
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Required when the client has activity in more than one currency
+ *     responses:
+ *       200:
+ *         description: Statement with the month's ledger and aging at month end
+ *       400:
+ *         description: Invalid month or currency, or no currency given for a client with activity in more than one
+ *       404:
+ *         description: Client not found
+ */
+receivablesRouter.get('/clients/:clientId/statement', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const statement = await getReceivablesService().getStatement(
+      clientId,
+      req.query.month as string,
+      req.query.currency as string | undefined
+    );
+    if (!statement) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+    res.json(statement);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to load client statement', error, {
+      method: 'GET',
+      url: `/receivables/clients/${req.params.clientId}/statement`,
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /receivables/clients/{clientId}/statement/pdf:
+ *   get:
+ *     summary: Download a monthly client statement as PDF (Admin only)
+ *     tags: [Receivables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: month
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "2025-03"
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Required when the client has activity in more than one currency
+ *     responses:
+ *       200:
+ *         description: PDF file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid month or currency, or no currency given for a client with activity in more than one
+ *       404:
+ *         description: Client not found
+ */
+receivablesRouter.get('/clients/:clientId/statement/pdf', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const pdf = await getReceivablesService().getStatementPdf(
+      clientId,
+      req.query.month as string,
+      req.query.currency as string | undefined
+    );
+    if (!pdf) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${pdf.filename}"`);
+    res.send(pdf.buffer);
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to generate client statement PDF', error, {
+      method: 'GET',
+      url: `/receivables/clients/${req.params.clientId}/statement/pdf`,
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /receivables/clients/{clientId}/statement/send:
+ *   post:
+ *     summary: Email a monthly client statement PDF (Admin only)
+ *     tags: [Receivables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - month
+ *             properties:
+ *               month:
+ *                 type: string
+ *                 example: "2025-03"
+ *               currency:
+ *                 type: string
+ *                 description: Required when the client has activity in more than one currency
+ *               to:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Defaults to the client's email and additional emails
+ *               cc:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               message:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Statement sent
+ *       400:
+ *         description: Invalid input or no recipient
+ *       404:
+ *         description: Client not found
+ */
+receivablesRouter.post('/clients/:clientId/statement/send', async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data: SendStatementDTO = req.body;
+    const result = await getReceivablesService().sendStatement(clientId, data, req.user!.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+    res.json({
+      message: 'Statement sent successfully',
+      ...result,
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to send client statement', error, {
+      method: 'POST',
+      url: `/receivables/clients/${req.params.clientId}/statement/send`,
+      body: req.body,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
@@ -0,0 +1,212 @@
+import { Router, Request, Response } from 'express';
+import { getReportService, ReportExport } from '../services/report.service';
+import { ReportParams, ReportFormat, ReportGroupBy, ReportPeriod } from '../models/report';
+import { OrderType } from '../models/order';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const reportRouter = Router();
+
+// All routes require authentication and the permission below (ADMIN holds every permission)
+reportRouter.use(requireAuth);
+reportRouter.use(requirePermission('reports.read'));
+
+function parseOptionalInt(value: unknown): number | undefined {
+  return value !== undefined && value !== '' ? Number(value) : undefined;
+}
+
+// Defaults to the current year to date, grouped by month
+function getReportParams(req: Request): ReportParams {
+  const today = new Date().toISOString().split('T')[0];
+  return {
+    date_from: (req.query.date_from as string) || `${today.substring(0, 4)}-01-01`,
+    date_to: (req.query.date_to as string) || today,
+    group_by: ((req.query.group_by as string) || 'period') as ReportGroupBy,
+    period: ((req.query.period as string) || 'month') as ReportPeriod,
+    client_id: parseOptionalInt(req.query.client_id),
+    caterer_id: parseOptionalInt(req.query.caterer_id),
+    airport_id: parseOptionalInt(req.query.airport_id),
+    fbo_id: parseOptionalInt(req.query.fbo_id),
+    order_type: (req.query.order_type as OrderType) || undefined,
+  };
+}
+
+function sendExport(res: Response, file: ReportExport): void {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.buffer);
+}
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     ReportDateFrom:
+ *       in: query
+ *       name: date_from
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: First delivery date included (default January 1 of the current year)
+ *     ReportDateTo:
+ *       in: query
+ *       name: date_to
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: Last delivery date included (default today)
+ *     ReportGroupBy:
+ *       in: query
+ *       name: group_by
+ *       schema:
+ *         type: string
+ *         enum: [period, client, caterer, airport, fbo, order_type]
+ *         default: period
+ *     ReportPeriod:
+ *       in: query
+ *       name: period
+ *       schema:
+ *         type: string
+ *         enum: [day, week, month, quarter, year]
+ *         default: month
+ *       description: Bucket size when group_by is period
+ *     ReportFormat:
+ *       in: query
+ *       name: format
+ *       schema:
+ *         type: string
+ *         enum: [json, csv, xlsx]
+ *         default: json
+ *     ReportClientId:
+ *       in: query
+ *       name: client_id
+ *       schema:
+ *         type: integer
+ *     ReportCatererId:
+ *       in: query
+ *       name: caterer_id
+ *       schema:
+ *         type: integer
+ *     ReportAirportId:
+ *       in: query
+ *       name: airport_id
+ *       schema:
+ *         type: integer
+ *     ReportFboId:
+ *       in: query
+ *       name: fbo_id
+ *       schema:
+ *         type: integer
+ *     ReportOrderType:
+ *       in: query
+ *       name: order_type
+ *       schema:
+ *         type: string
+ *         enum: [Inflight order, QE Serv Hub Order, Restaurant Pickup Order]
+ */
+
+/**
+ * @swagger
+ * /reports/revenue:
+ *   get:
+ *     summary: Revenue, fees, average order value, paid vs unpaid and cancellation rate (Admin only)
+ *     description: Orders are selected by delivery date. Revenue figures exclude cancelled orders. Collected and refunded amounts come from payment transactions and refunds. Amounts are never added across currencies - rows are split by order currency and the response includes a totals row per currency.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportDateFrom'
+ *       - $ref: '#/components/parameters/ReportDateTo'
+ *       - $ref: '#/components/parameters/ReportGroupBy'
+ *       - $ref: '#/components/parameters/ReportPeriod'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *       - $ref: '#/components/parameters/ReportClientId'
+ *       - $ref: '#/components/parameters/ReportCatererId'
+ *       - $ref: '#/components/parameters/ReportAirportId'
+ *       - $ref: '#/components/parameters/ReportFboId'
+ *       - $ref: '#/components/parameters/ReportOrderType'
+ *     responses:
+ *       200:
+ *         description: Report rows and totals, or a CSV/XLSX file
+ *       400:
+ *         description: Invalid parameters
+ */
+reportRouter.get('/revenue', async (req: Request, res: Response) => {
+  try {
+    const format = ((req.query.format as string) || 'json') as ReportFormat;
+    if (!['json', 'csv', 'xlsx'].includes(format)) {
+      return res.status(400).json({ error: 'format must be one of: json, csv, xlsx' });
+    }
+
+    const reportService = getReportService();
+    const report = await reportService.getRevenueReport(getReportParams(req));
+    if (format === 'json') {
+      return res.json(report);
+    }
+
+    sendExport(res, await reportService.exportRevenueReport(report, format));
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to generate revenue report', error, {
+      method: 'GET',
+      url: '/reports/revenue',
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /reports/status-progression:
+ *   get:
+ *     summary: On-time caterer confirmation and delivery, and time spent reaching each (Admin only)
+ *     description: Uses the first time each order reached caterer_confirmed and delivered in its timeline. A milestone is on time when reached no later than the order's delivery date and time.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportDateFrom'
+ *       - $ref: '#/components/parameters/ReportDateTo'
+ *       - $ref: '#/components/parameters/ReportGroupBy'
+ *       - $ref: '#/components/parameters/ReportPeriod'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *       - $ref: '#/components/parameters/ReportClientId'
+ *       - $ref: '#/components/parameters/ReportCatererId'
+ *       - $ref: '#/components/parameters/ReportAirportId'
+ *       - $ref: '#/components/parameters/ReportFboId'
+ *       - $ref: '#/components/parameters/ReportOrderType'
+ *     responses:
+ *       200:
+ *         description: Report rows and totals, or a CSV/XLSX file
+ *       400:
+ *         description: Invalid parameters
+ */
+reportRouter.get('/status-progression', async (req: Request, res: Response) => {
+  try {
+    const format = ((req.query.format as string) || 'json') as ReportFormat;
+    if (!['json', 'csv', 'xlsx'].includes(format)) {
+      return res.status(400).json({ error: 'format must be one of: json, csv, xlsx' });
+    }
+
+    const reportService = getReportService();
+    const report = await reportService.getStatusProgressionReport(getReportParams(req));
+    if (format === 'json') {
+      return res.json(report);
+    }
+
+    sendExport(res, await reportService.exportStatusProgressionReport(report, format));
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to generate status progression report', error, {
+      method: 'GET',
+      url: '/reports/status-progression',
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
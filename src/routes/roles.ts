@@ -0,0 +1,248 @@
+import { Router, Request, Response } from 'express';
+import { getRoleService } from '../services/role.service';
+import { CreateRoleDTO, UpdateRoleDTO } from '../models/permission';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const roleRouter = Router();
+
+roleRouter.use(requireAuth);
+roleRouter.use(requirePermission('roles.manage'));
+
+function handleError(res: Response, error: any, message: string, context: Record<string, unknown>): void {
+  Logger.error(message, error, context);
+  if (error.message?.includes('Validation failed')) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: error.message });
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Role:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Keys from GET /permissions; admin-only permissions are not allowed
+ *         user_count:
+ *           type: integer
+ *           description: Employees assigned the role
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     CreateRole:
+ *       type: object
+ *       required:
+ *         - name
+ *         - permissions
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Kitchen lead"
+ *         description:
+ *           type: string
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["orders.read", "menu.read", "inventory.read", "inventory.stock", "purchasing.receive"]
+ */
+
+/**
+ * @swagger
+ * /roles:
+ *   get:
+ *     summary: List custom roles
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Custom roles sorted by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 roles:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Role'
+ */
+roleRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const roles = await getRoleService().listRoles();
+    res.json({ roles });
+  } catch (error: any) {
+    handleError(res, error, 'Failed to list roles', { method: 'GET', url: '/roles' });
+  }
+});
+
+/**
+ * @swagger
+ * /roles:
+ *   post:
+ *     summary: Create a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateRole'
+ *     responses:
+ *       201:
+ *         description: Role created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Validation error or duplicate name
+ */
+roleRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const roleData: CreateRoleDTO = req.body;
+    const role = await getRoleService().createRole(roleData);
+    res.status(201).json(role);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to create role', { method: 'POST', url: '/roles', body: req.body });
+  }
+});
+
+/**
+ * @swagger
+ * /roles/{id}:
+ *   get:
+ *     summary: Get a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Role details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       404:
+ *         description: Role not found
+ */
+roleRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const role = await getRoleService().getRoleById(id);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    res.json(role);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to get role', { method: 'GET', url: `/roles/${req.params.id}` });
+  }
+});
+
+/**
+ * @swagger
+ * /roles/{id}:
+ *   put:
+ *     summary: Update a custom role
+ *     description: Changes apply to every employee assigned the role on their next request.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateRole'
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Validation error or duplicate name
+ *       404:
+ *         description: Role not found
+ */
+roleRouter.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const roleData: UpdateRoleDTO = req.body;
+    const role = await getRoleService().updateRole(id, roleData);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    res.json(role);
+  } catch (error: any) {
+    handleError(res, error, 'Failed to update role', { method: 'PUT', url: `/roles/${req.params.id}`, body: req.body });
+  }
+});
+
+/**
+ * @swagger
+ * /roles/{id}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Role deleted
+ *       400:
+ *         description: Role is still assigned to employees
+ *       404:
+ *         description: Role not found
+ */
+roleRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await getRoleService().deleteRole(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    res.status(204).send();
+  } catch (error: any) {
+    handleError(res, error, 'Failed to delete role', { method: 'DELETE', url: `/roles/${req.params.id}` });
+  }
+});
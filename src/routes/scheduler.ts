@@ -0,0 +1,186 @@
+import { Router, Request, Response } from 'express';
+import { OrderService } from '../services/order.service';
+import { getOrderScheduler } from '../services/order-scheduler.service';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { SchedulerRuleDTO } from '../models/scheduler';
+import { Logger } from '../utils/logger';
+
+export const schedulerRouter = Router();
+
+// All routes require authentication and the permission below (ADMIN holds every permission)
+schedulerRouter.use(requireAuth);
+schedulerRouter.use(requirePermission('scheduler.manage'));
+
+const getScheduler = () => getOrderScheduler(new OrderService());
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SchedulerRule:
+ *       type: object
+ *       required:
+ *         - name
+ *         - action
+ *         - from_statuses
+ *         - hours_before_delivery
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: Include to update an existing rule; omit to create a new one
+ *         name:
+ *           type: string
+ *         action:
+ *           type: string
+ *           enum: [set_status, escalate]
+ *         from_statuses:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Order statuses the rule applies to
+ *         target_status:
+ *           type: string
+ *           description: Required when action is set_status
+ *         hours_before_delivery:
+ *           type: number
+ *           description: Rule fires once delivery is this many hours away or closer
+ *         caterer_id:
+ *           type: integer
+ *           nullable: true
+ *         order_type:
+ *           type: string
+ *           nullable: true
+ *         order_priority:
+ *           type: string
+ *           enum: [low, normal, high, urgent]
+ *           nullable: true
+ *         escalation_emails:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: email
+ *           description: Escalation recipients; defaults to SCHEDULER_OPS_EMAILS
+ *         is_active:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /scheduler/rules:
+ *   get:
+ *     summary: List order scheduler rules
+ *     tags: [Scheduler]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduler rules
+ */
+schedulerRouter.get('/rules', async (req: Request, res: Response) => {
+  try {
+    const rules = await getScheduler().getRules();
+    res.json({ rules });
+  } catch (error: any) {
+    Logger.error('Failed to list scheduler rules', error, { method: 'GET', url: '/scheduler/rules' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /scheduler/rules:
+ *   put:
+ *     summary: Replace the order scheduler rule set
+ *     description: Rules with an id are updated, rules without an id are created, and stored rules missing from the list are deleted.
+ *     tags: [Scheduler]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rules
+ *             properties:
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/SchedulerRule'
+ *     responses:
+ *       200:
+ *         description: Updated scheduler rules
+ *       400:
+ *         description: Validation error
+ */
+schedulerRouter.put('/rules', async (req: Request, res: Response) => {
+  try {
+    const rules: SchedulerRuleDTO[] = req.body.rules;
+    const saved = await getScheduler().saveRules(rules);
+    Logger.info('Scheduler rules updated', { userId: req.user!.id, count: saved.length });
+    res.json({ rules: saved });
+  } catch (error: any) {
+    Logger.error('Failed to update scheduler rules', error, { method: 'PUT', url: '/scheduler/rules', body: req.body });
+    if (error.message.startsWith('Validation failed') || error.message.startsWith('Scheduler rule not found')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /scheduler/run:
+ *   post:
+ *     summary: Run the order scheduler now
+ *     tags: [Scheduler]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Run summary
+ *       409:
+ *         description: A scheduler run is already in progress
+ */
+schedulerRouter.post('/run', async (req: Request, res: Response) => {
+  try {
+    const run = await getScheduler().runNow(req.user!.id);
+    res.json(run);
+  } catch (error: any) {
+    if (error.message === 'A scheduler run is already in progress') {
+      return res.status(409).json({ error: error.message });
+    }
+    Logger.error('Failed to run scheduler', error, { method: 'POST', url: '/scheduler/run' });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /scheduler/runs:
+ *   get:
+ *     summary: List recent order scheduler runs
+ *     tags: [Scheduler]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Recent scheduler runs, newest first
+ */
+schedulerRouter.get('/runs', async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 50, 500) : 50;
+    const runs = await getScheduler().getRecentRuns(limit);
+    res.json({ runs });
+  } catch (error: any) {
+    Logger.error('Failed to list scheduler runs', error, { method: 'GET', url: '/scheduler/runs' });
+    res.status(500).json({ error: error.message });
+  }
+});
@@ -0,0 +1,327 @@
+import { Router, Request, Response } from 'express';
+import { SupplierService } from '../services/supplier.service';
+import { CreateSupplierDTO, UpdateSupplierDTO, SupplierSearchParams } from '../models/supplier';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { Logger } from '../utils/logger';
+
+export const supplierRouter = Router();
+const supplierService = new SupplierService();
+
+supplierRouter.use(requireAuth);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Supplier:
+ *       type: object
+ *       required:
+ *         - supplier_name
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: Auto-generated primary key
+ *         supplier_name:
+ *           type: string
+ *         contact_name:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         phone:
+ *           type: string
+ *         address:
+ *           type: string
+ *         lead_time_days:
+ *           type: integer
+ *           nullable: true
+ *           description: Typical days from sending a purchase order to delivery
+ *         notes:
+ *           type: string
+ *         is_active:
+ *           type: boolean
+ *           description: Inactive suppliers cannot be used on new purchase orders
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     CreateSupplier:
+ *       type: object
+ *       required:
+ *         - supplier_name
+ *       properties:
+ *         supplier_name:
+ *           type: string
+ *           example: "Metro Fresh Produce"
+ *         contact_name:
+ *           type: string
+ *           example: "Dana Ortiz"
+ *         email:
+ *           type: string
+ *           example: "orders@metrofresh.example"
+ *         phone:
+ *           type: string
+ *           example: "+1 201 555 0144"
+ *         address:
+ *           type: string
+ *         lead_time_days:
+ *           type: integer
+ *           example: 2
+ *         notes:
+ *           type: string
+ *         is_active:
+ *           type: boolean
+ *           default: true
+ */
+
+/**
+ * @swagger
+ * /suppliers:
+ *   post:
+ *     summary: Create a supplier
+ *     tags: [Suppliers]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateSupplier'
+ *     responses:
+ *       201:
+ *         description: Supplier created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Supplier'
+ *       400:
+ *         description: Validation error
+ */
+supplierRouter.post('/', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const supplierData: CreateSupplierDTO = req.body;
+    const supplier = await supplierService.createSupplier(supplierData);
+    res.status(201).json(supplier);
+  } catch (error: any) {
+    Logger.error('Failed to create supplier', error, {
+      method: 'POST',
+      url: '/suppliers',
+      body: req.body,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /suppliers:
+ *   get:
+ *     summary: List suppliers with pagination, search, and sorting
+ *     tags: [Suppliers]
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Searches name, contact and email
+ *       - in: query
+ *         name: is_active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [id, supplier_name, lead_time_days, created_at, updated_at]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: List of suppliers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 suppliers:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Supplier'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+supplierRouter.get('/', requirePermission('purchasing.read'), async (req: Request, res: Response) => {
+  try {
+    const params: SupplierSearchParams = {
+      search: req.query.search as string,
+      is_active: req.query.is_active === 'true' ? true : req.query.is_active === 'false' ? false : undefined,
+      sortBy: req.query.sortBy as string,
+      sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'asc',
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    };
+    const result = await supplierService.listSuppliers(params);
+    res.json(result);
+  } catch (error: any) {
+    Logger.error('Failed to list suppliers', error, {
+      method: 'GET',
+      url: '/suppliers',
+      query: req.query,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /suppliers/{id}:
+ *   get:
+ *     summary: Get supplier by ID
+ *     tags: [Suppliers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Supplier found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Supplier'
+ *       404:
+ *         description: Supplier not found
+ */
+supplierRouter.get('/:id', requirePermission('purchasing.read'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const supplier = await supplierService.getSupplierById(id);
+    if (!supplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+    res.json(supplier);
+  } catch (error: any) {
+    Logger.error('Failed to get supplier by ID', error, {
+      method: 'GET',
+      url: `/suppliers/${req.params.id}`,
+      supplierId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /suppliers/{id}:
+ *   put:
+ *     summary: Update a supplier
+ *     tags: [Suppliers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateSupplier'
+ *     responses:
+ *       200:
+ *         description: Supplier updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Supplier'
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Supplier not found
+ */
+supplierRouter.put('/:id', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const supplierData: UpdateSupplierDTO = req.body;
+    const supplier = await supplierService.updateSupplier(id, supplierData);
+    if (!supplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+    res.json(supplier);
+  } catch (error: any) {
+    Logger.error('Failed to update supplier', error, {
+      method: 'PUT',
+      url: `/suppliers/${req.params.id}`,
+      supplierId: req.params.id,
+      body: req.body,
+    });
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /suppliers/{id}:
+ *   delete:
+ *     summary: Delete a supplier
+ *     description: Suppliers with purchase orders cannot be deleted; set is_active to false instead. Linked inventory items keep the supplier name as free text.
+ *     tags: [Suppliers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Supplier deleted
+ *       400:
+ *         description: Supplier has purchase orders
+ *       404:
+ *         description: Supplier not found
+ */
+supplierRouter.delete('/:id', requirePermission('purchasing.manage'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await supplierService.deleteSupplier(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+    res.json({ message: 'Supplier deleted successfully' });
+  } catch (error: any) {
+    if (error.message.startsWith('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    Logger.error('Failed to delete supplier', error, {
+      method: 'DELETE',
+      url: `/suppliers/${req.params.id}`,
+      supplierId: req.params.id,
+    });
+    res.status(500).json({ error: error.message });
+  }
+});
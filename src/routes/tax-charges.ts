@@ -1,12 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { TaxChargeService } from '../services/tax-charge.service';
 import { CreateTaxChargeDTO, UpdateTaxChargeDTO, TaxChargeSearchParams } from '../models/tax-charge';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Logger } from '../utils/logger';
 
 export const taxChargeRouter = Router();
 const taxChargeService = new TaxChargeService();
 
-taxChargeRouter.post('/', async (req: Request, res: Response) => {
+taxChargeRouter.use(requireAuth);
+
+taxChargeRouter.post('/', requirePermission('tax_charges.manage'), async (req: Request, res: Response) => {
   try {
     const taxChargeData: CreateTaxChargeDTO = req.body;
     const taxCharge = await taxChargeService.createTaxCharge(taxChargeData);
@@ -17,7 +20,7 @@ taxChargeRouter.post('/', async (req: Request, res: Response) => {
   }
 });
 
-taxChargeRouter.get('/', async (req: Request, res: Response) => {
+taxChargeRouter.get('/', requirePermission('tax_charges.read'), async (req: Request, res: Response) => {
   try {
     const params: TaxChargeSearchParams = {
       search: req.query.search as string,
@@ -37,7 +40,7 @@ taxChargeRouter.get('/', async (req: Request, res: Response) => {
   }
 });
 
-taxChargeRouter.get('/:id', async (req: Request, res: Response) => {
+taxChargeRouter.get('/:id', requirePermission('tax_charges.read'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const taxCharge = await taxChargeService.getTaxChargeById(id);
@@ -51,7 +54,7 @@ taxChargeRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-taxChargeRouter.put('/:id', async (req: Request, res: Response) => {
+taxChargeRouter.put('/:id', requirePermission('tax_charges.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const taxChargeData: UpdateTaxChargeDTO = req.body;
@@ -66,7 +69,7 @@ taxChargeRouter.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-taxChargeRouter.delete('/:id', async (req: Request, res: Response) => {
+taxChargeRouter.delete('/:id', requirePermission('tax_charges.manage'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const deleted = await taxChargeService.deleteTaxCharge(id);
@@ -80,7 +83,7 @@ taxChargeRouter.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-taxChargeRouter.delete('/', async (req: Request, res: Response) => {
+taxChargeRouter.delete('/', requirePermission('tax_charges.manage'), async (req: Request, res: Response) => {
   try {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -1,11 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { getPaymentService } from '../services/payment.service';
 import { getInvoiceRepository } from '../repositories';
+import { allowPublic } from '../middleware/auth';
 import { Logger } from '../utils/logger';
+import { DEFAULT_CURRENCY, fromMinorUnits } from '../utils/currency';
 import crypto from 'crypto';
 
 export const webhookRouter = Router();
 
+webhookRouter.use(allowPublic);
+
 const invoiceRepository = getInvoiceRepository();
 const paymentService = getPaymentService();
 
@@ -137,7 +141,8 @@ async function handleSquareWebhook(req: Request, res: Response) {
 
       const squareInvoiceId = invoice.id;
       const squarePaymentId = invoicePayment.payment_id;
-      const amount = parseFloat(invoicePayment.amount_paid?.amount || '0') / 100; // Convert from cents
+      const currency = invoicePayment.amount_paid?.currency || DEFAULT_CURRENCY;
+      const amount = fromMinorUnits(invoicePayment.amount_paid?.amount || 0, currency); // Convert from minor units
       const squareCustomerId = invoice.primary_recipient?.customer_id;
 
       Logger.info('Invoice payment details extracted', {
@@ -145,7 +150,7 @@ async function handleSquareWebhook(req: Request, res: Response) {
         squarePaymentId,
         amount,
         amountInCents: invoicePayment.amount_paid?.amount,
-        currency: invoicePayment.amount_paid?.currency || 'USD',
+        currency,
         squareCustomerId: squareCustomerId || 'none',
         invoiceNumber: invoice.invoice_number || 'none',
         invoiceStatus: invoice.status || 'none',
@@ -257,6 +262,38 @@ async function handleSquareWebhook(req: Request, res: Response) {
       });
     }
 
+    // Handle refund events - keep refund records and order payment status in sync
+    if (eventType === 'refund.created' || eventType === 'refund.updated') {
+      const squareRefund = event.data?.object?.refund;
+
+      Logger.info('Refund webhook event received', {
+        type: eventType,
+        eventId: event.event_id,
+        refundId: squareRefund?.id,
+        paymentId: squareRefund?.payment_id,
+        status: squareRefund?.status,
+      });
+
+      if (!squareRefund) {
+        return res.status(400).json({ error: 'Invalid webhook data' });
+      }
+
+      const result = await paymentService.processRefundWebhook(squareRefund);
+      if (!result.success) {
+        Logger.error('Failed to process refund webhook', {
+          type: eventType,
+          refundId: squareRefund.id,
+          error: result.error,
+        });
+        return res.status(500).json({ error: result.error || 'Failed to process refund' });
+      }
+
+      return res.json({
+        success: true,
+        message: `Refund event ${eventType} processed successfully`,
+      });
+    }
+
     // Handle payment events (if needed in the future)
     if (eventType?.startsWith('payment.')) {
       Logger.info('Payment webhook event received', {
@@ -1,11 +1,13 @@
 import { AddonItem, CreateAddonItemDTO, UpdateAddonItemDTO, AddonItemSearchParams, AddonItemListResponse } from '../models/addon-item';
 import { getAddonItemRepository, getCategoryRepository } from '../repositories';
+import { getImageService } from './image.service';
 import { validateAddonItem, normalizeAddonItemData } from '../utils/addon-item-validation';
 import { Logger } from '../utils/logger';
 
 export class AddonItemService {
   private repository = getAddonItemRepository();
   private categoryRepository = getCategoryRepository();
+  private imageService = getImageService();
 
   private async validateCategory(categoryIdOrSlug?: string): Promise<void> {
     if (!categoryIdOrSlug) return;
@@ -59,14 +61,61 @@ export class AddonItemService {
       await this.validateCategory(normalized.category);
     }
 
-    return this.repository.update(id, normalized);
+    // A new image_url replaces an uploaded image; its thumbnail no longer applies
+    const existing = normalized.image_url !== undefined ? await this.repository.findById(id) : null;
+    if (existing && normalized.image_url !== existing.image_url && normalized.image_thumbnail_url === undefined) {
+      normalized.image_thumbnail_url = null;
+    }
+
+    const updated = await this.repository.update(id, normalized);
+    if (updated && existing) {
+      await this.imageService.deleteReplacedImages(existing, updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Store an uploaded image (resized to full size and thumbnail) as the add-on item's image,
+   * replacing and deleting any previously uploaded one.
+   */
+  async uploadImage(id: number, data: Buffer, contentType: string): Promise<AddonItem | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const image = await this.imageService.storeImage('addon-items', id, data, contentType);
+    const updated = await this.repository.update(id, image);
+    await this.imageService.deleteReplacedImages(existing, updated);
+    return updated;
+  }
+
+  async deleteImage(id: number): Promise<AddonItem | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = await this.repository.update(id, { image_url: '', image_thumbnail_url: null });
+    await this.imageService.deleteImages(existing);
+    return updated;
   }
 
   async deleteAddonItem(id: number): Promise<boolean> {
-    return this.repository.delete(id);
+    const existing = await this.repository.findById(id);
+    const deleted = await this.repository.delete(id);
+    if (deleted) {
+      await this.imageService.deleteImages(existing);
+    }
+    return deleted;
   }
 
   async deleteAddonItems(ids: number[]): Promise<number> {
-    return this.repository.deleteMany(ids);
+    const existing = await Promise.all(ids.map(id => this.repository.findById(id)));
+    const deleted = await this.repository.deleteMany(ids);
+    for (const item of existing) {
+      await this.imageService.deleteImages(item);
+    }
+    return deleted;
   }
 }
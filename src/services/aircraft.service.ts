@@ -0,0 +1,67 @@
+import { Aircraft, CreateAircraftDTO, UpdateAircraftDTO, AircraftSearchParams, AircraftListResponse } from '../models/aircraft';
+import { getAircraftRepository, getClientRepository } from '../repositories';
+import { validateAircraft, normalizeAircraftData } from '../utils/aircraft-validation';
+
+export class AircraftService {
+  private repository = getAircraftRepository();
+  private clientRepository = getClientRepository();
+
+  async createAircraft(data: CreateAircraftDTO): Promise<Aircraft> {
+    const normalized = normalizeAircraftData(data);
+    const validation = validateAircraft(normalized);
+
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    await this.assertTailNumberAvailable(normalized.tail_number);
+    await this.assertClientExists(normalized.client_id);
+
+    return this.repository.create(normalized);
+  }
+
+  async getAircraftById(id: number): Promise<Aircraft | null> {
+    return this.repository.findById(id);
+  }
+
+  async getAircraftByTailNumber(tailNumber: string): Promise<Aircraft | null> {
+    return this.repository.findByTailNumber(tailNumber.trim());
+  }
+
+  async listAircraft(params: AircraftSearchParams): Promise<AircraftListResponse> {
+    return this.repository.findAll(params);
+  }
+
+  async updateAircraft(id: number, data: UpdateAircraftDTO): Promise<Aircraft | null> {
+    const normalized = normalizeAircraftData(data);
+    const validation = validateAircraft(normalized);
+
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    if (normalized.tail_number) {
+      await this.assertTailNumberAvailable(normalized.tail_number, id);
+    }
+    await this.assertClientExists(normalized.client_id);
+
+    return this.repository.update(id, normalized);
+  }
+
+  async deleteAircraft(id: number): Promise<boolean> {
+    return this.repository.delete(id);
+  }
+
+  private async assertTailNumberAvailable(tailNumber: string, excludeId?: number): Promise<void> {
+    const existing = await this.repository.findByTailNumber(tailNumber);
+    if (existing && existing.id !== excludeId) {
+      throw new Error(`Validation failed: tail_number ${tailNumber} is already registered`);
+    }
+  }
+
+  private async assertClientExists(clientId?: number | null): Promise<void> {
+    if (clientId && !(await this.clientRepository.findById(clientId))) {
+      throw new Error(`Client not found: ${clientId}`);
+    }
+  }
+}
@@ -1,14 +1,16 @@
 import { Airport, CreateAirportDTO, AirportSearchParams, AirportListResponse } from '../models/airport';
-import { getAirportRepository } from '../repositories';
+import { getAirportRepository, getOrderRepository } from '../repositories';
 import { validateAirport, normalizeAirportData } from '../utils/validation';
+import { lookupAirportTimeZone } from '../utils/airport-time-zones';
 import { Logger } from '../utils/logger';
 import * as XLSX from 'xlsx';
 
 export class AirportService {
   private repository = getAirportRepository();
+  private orderRepository = getOrderRepository();
 
   async createAirport(data: CreateAirportDTO): Promise<Airport> {
-    const normalized = normalizeAirportData(data);
+    const normalized = this.withTimeZone(normalizeAirportData(data));
     const validation = validateAirport(normalized);
     
     if (!validation.valid) {
@@ -18,6 +20,67 @@ export class AirportService {
     return this.repository.create(normalized);
   }
 
+  async updateAirport(id: number, data: Partial<CreateAirportDTO>): Promise<Airport | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const merged = normalizeAirportData({ ...existing, ...data } as CreateAirportDTO);
+    // Codes changed without an explicit zone: look the zone up again for the new codes
+    const codesChanged = merged.airport_code_icao !== existing.airport_code_icao ||
+      merged.airport_code_iata !== existing.airport_code_iata;
+    const normalized = data.time_zone === undefined && codesChanged
+      ? this.withTimeZone({ ...merged, time_zone: undefined })
+      : merged;
+
+    const validation = validateAirport(normalized);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const airport = await this.repository.update(id, {
+      airport_name: normalized.airport_name,
+      airport_code_iata: normalized.airport_code_iata || '',
+      airport_code_icao: normalized.airport_code_icao || '',
+      time_zone: normalized.time_zone || '',
+    });
+
+    if (airport?.time_zone && airport.time_zone !== existing.time_zone) {
+      await this.refreshOrderDeliveryInstants(airport);
+    }
+
+    return airport;
+  }
+
+  /**
+   * Fill in time zones of airports that have none from their ICAO/IATA codes.
+   * Returns how many airports were updated and the ones that could not be resolved.
+   */
+  async populateTimeZones(): Promise<{ updated: number; unresolved: Airport[] }> {
+    const { airports } = await this.repository.findAll({ limit: 10000 });
+    let updated = 0;
+    const unresolved: Airport[] = [];
+
+    for (const airport of airports) {
+      if (airport.time_zone) {
+        continue;
+      }
+      const timeZone = lookupAirportTimeZone(airport.airport_code_icao, airport.airport_code_iata);
+      if (!timeZone) {
+        unresolved.push(airport);
+        continue;
+      }
+      await this.repository.update(airport.id!, { time_zone: timeZone });
+      await this.refreshOrderDeliveryInstants({ ...airport, time_zone: timeZone });
+      updated++;
+    }
+
+    Logger.info('Airport time zones populated', { updated, unresolved: unresolved.length });
+
+    return { updated, unresolved };
+  }
+
   async getAirportById(id: number): Promise<Airport | null> {
     return this.repository.findById(id);
   }
@@ -146,6 +209,10 @@ export class AirportService {
             'Airport Code ICAO', 'ICAO_CODE', 'IcaoCode',
             'ICAO Airport Code', 'icao airport code'
           ]),
+          time_zone: getColumnValue(row, [
+            'Time Zone', 'time_zone', 'Time_Zone', 'time zone', 'Timezone', 'timezone',
+            'TIME ZONE', 'TimeZone', 'TZ', 'tz'
+          ]),
         };
         
         // Log first few rows to debug column mapping
@@ -200,7 +267,7 @@ export class AirportService {
         }
         
         // Normalize first to clean up the data, then validate
-        const normalized = normalizeAirportData(airportData);
+        const normalized = this.withTimeZone(normalizeAirportData(airportData));
         // Validate the normalized data
         const validation = validateAirport(normalized);
         
@@ -251,6 +318,7 @@ export class AirportService {
       'Airport Name': airport.airport_name,
       'IATA Code': airport.airport_code_iata || '',
       'ICAO Code': airport.airport_code_icao || '',
+      'Time Zone': airport.time_zone || '',
       'Created At': airport.created_at ? new Date(airport.created_at).toISOString() : '',
       'Updated At': airport.updated_at ? new Date(airport.updated_at).toISOString() : '',
     }));
@@ -264,5 +332,25 @@ export class AirportService {
     const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
     return buffer;
   }
+
+  // Open orders at the airport were pinned against its previous zone
+  private async refreshOrderDeliveryInstants(airport: Airport): Promise<void> {
+    const count = await this.orderRepository.refreshDeliveryInstantsForAirport(airport.id!, airport.time_zone!);
+    if (count > 0) {
+      Logger.info('Order delivery times re-pinned to airport time zone', {
+        airportId: airport.id,
+        timeZone: airport.time_zone,
+        orders: count,
+      });
+    }
+  }
+
+  // Airports without an explicit time zone get the one for their ICAO/IATA code, if known
+  private withTimeZone(data: CreateAirportDTO): CreateAirportDTO {
+    if (data.time_zone) {
+      return data;
+    }
+    return { ...data, time_zone: lookupAirportTimeZone(data.airport_code_icao, data.airport_code_iata) };
+  }
 }
 
@@ -3,9 +3,12 @@ import { Request, Response } from 'express';
 import argon2 from 'argon2';
 import { v4 as uuidv4 } from 'uuid';
 import { User, Role, PermissionMap } from '../models/user';
+import { TwoFactorChallenge, TwoFactorChallengeStage } from '../models/two-factor';
 import { getUserRepository, getRefreshTokenRepository } from '../repositories';
+import { getTwoFactorService } from './two-factor.service';
 import { env } from '../config/env';
 import { hashToken, generateToken } from '../utils/crypto';
+import { getEffectivePermissions } from '../utils/permissions';
 import { Logger } from '../utils/logger';
 
 export interface AccessTokenPayload {
@@ -21,17 +24,28 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+// Short-lived token proving the password was checked, exchanged for tokens with a 2FA code
+interface TwoFactorChallengePayload {
+  sub: string; // user id
+  purpose: 'two_factor';
+  stage: TwoFactorChallengeStage;
+}
+
+export type LoginResult =
+  | { user: User; accessToken: string; refreshToken: string; backupCodes?: string[] }
+  | { user: User; challenge: TwoFactorChallenge };
+
 export class AuthService {
   private userRepository = getUserRepository();
   private refreshTokenRepository = getRefreshTokenRepository();
+  private twoFactorService = getTwoFactorService();
 
   /**
    * Generate access token (JWT) - short-lived
    */
   issueAccessToken(user: User): string {
-    const permissionsHash = user.permissions 
-      ? hashToken(JSON.stringify(user.permissions)).substring(0, 16)
-      : undefined;
+    // Covers role and individual grants, so either changing invalidates the hash
+    const permissionsHash = hashToken(getEffectivePermissions(user).join(',')).substring(0, 16);
 
     const payload: AccessTokenPayload = {
       sub: user.id.toString(),
@@ -71,7 +85,12 @@ export class AuthService {
    */
   verifyAccessToken(token: string): AccessTokenPayload | null {
     try {
-      const decoded = jwt.verify(token, env.JWT_ACCESS_SECRET) as AccessTokenPayload;
+      const decoded = jwt.verify(token, env.JWT_ACCESS_SECRET) as AccessTokenPayload & { purpose?: string };
+      // 2FA challenge tokens share the secret but never grant access
+      if (decoded.purpose) {
+        Logger.warn('Rejected non-access token', { purpose: decoded.purpose });
+        return null;
+      }
       return decoded;
     } catch (error: any) {
       Logger.warn('Token verification failed', {
@@ -161,9 +180,10 @@ export class AuthService {
   }
 
   /**
-   * Login with email and password
+   * Login with email and password. Users with 2FA enabled, or required by the policy
+   * but not yet enrolled, get a challenge instead of tokens (see completeTwoFactorLogin).
    */
-  async login(email: string, password: string, userAgent: string | null, ip: string | null): Promise<{ user: User; accessToken: string; refreshToken: string } | null> {
+  async login(email: string, password: string, userAgent: string | null, ip: string | null): Promise<LoginResult | null> {
     const user = await this.userRepository.findByEmail(email);
     if (!user || !user.is_active) {
       return null;
@@ -174,15 +194,96 @@ export class AuthService {
       if (!valid) {
         return null;
       }
-
-      const accessToken = this.issueAccessToken(user);
-      const refreshToken = await this.issueRefreshToken(user, userAgent, ip);
-
-      return { user, accessToken, refreshToken };
     } catch (error) {
       Logger.error('Password verification error', error);
       return null;
     }
+
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return { user, challenge: this.issueTwoFactorChallenge(user, 'verify') };
+    }
+    if (await this.twoFactorService.isRequired(user)) {
+      const setup = await this.twoFactorService.beginSetup(user);
+      return { user, challenge: { ...this.issueTwoFactorChallenge(user, 'setup'), setup } };
+    }
+
+    const accessToken = this.issueAccessToken(user);
+    const refreshToken = await this.issueRefreshToken(user, userAgent, ip);
+
+    return { user, accessToken, refreshToken };
+  }
+
+  /**
+   * Second login step: exchange a challenge token and a 2FA code for tokens. For the
+   * 'setup' stage the code confirms enrolment and the new backup codes are returned.
+   * Returns null when the challenge or the code is invalid.
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    userAgent: string | null,
+    ip: string | null
+  ): Promise<{ user: User; accessToken: string; refreshToken: string; backupCodes?: string[] } | null> {
+    const challenge = this.verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(parseInt(challenge.sub, 10));
+    if (!user || !user.is_active) {
+      return null;
+    }
+
+    let backupCodes: string[] | undefined;
+    if (challenge.stage === 'setup') {
+      try {
+        backupCodes = await this.twoFactorService.confirmSetup(user, code);
+      } catch (error: any) {
+        Logger.warn('Two-factor setup at login failed', { userId: user.id, error: error.message });
+        return null;
+      }
+    } else if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+      Logger.warn('Invalid two-factor code at login', { userId: user.id });
+      return null;
+    }
+
+    const accessToken = this.issueAccessToken(user);
+    const refreshToken = await this.issueRefreshToken(user, userAgent, ip);
+
+    return { user, accessToken, refreshToken, backupCodes };
+  }
+
+  /**
+   * Email of the account a valid challenge token belongs to, for attempt tracking
+   */
+  async getTwoFactorChallengeEmail(challengeToken: string): Promise<string | null> {
+    const challenge = this.verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      return null;
+    }
+    const user = await this.userRepository.findById(parseInt(challenge.sub, 10));
+    return user ? user.email : null;
+  }
+
+  private issueTwoFactorChallenge(user: User, stage: TwoFactorChallengeStage): TwoFactorChallenge {
+    const payload: TwoFactorChallengePayload = { sub: user.id.toString(), purpose: 'two_factor', stage };
+    const challengeToken = jwt.sign(payload, env.JWT_ACCESS_SECRET, { expiresIn: env.TWO_FACTOR_CHALLENGE_TTL });
+    return {
+      two_factor_required: true,
+      stage,
+      challenge_token: challengeToken,
+      expires_in: env.TWO_FACTOR_CHALLENGE_TTL,
+    };
+  }
+
+  private verifyTwoFactorChallenge(token: string): TwoFactorChallengePayload | null {
+    try {
+      const decoded = jwt.verify(token, env.JWT_ACCESS_SECRET) as TwoFactorChallengePayload;
+      return decoded.purpose === 'two_factor' ? decoded : null;
+    } catch (error: any) {
+      Logger.warn('Two-factor challenge verification failed', { error: error.message });
+      return null;
+    }
   }
 
   /**
@@ -1,10 +1,12 @@
 import { Category, CreateCategoryDTO, UpdateCategoryDTO, CategorySearchParams, CategoryListResponse } from '../models/category';
 import { getCategoryRepository } from '../repositories';
+import { getImageService } from './image.service';
 import { validateCategory, normalizeCategoryData, generateSlug } from '../utils/category-validation';
 import { Logger } from '../utils/logger';
 
 export class CategoryService {
   private repository = getCategoryRepository();
+  private imageService = getImageService();
 
   async createCategory(data: CreateCategoryDTO): Promise<Category> {
     const normalized = normalizeCategoryData(data);
@@ -50,14 +52,61 @@ export class CategoryService {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
     }
 
-    return this.repository.update(id, normalized);
+    // A new image_url replaces an uploaded image; its thumbnail no longer applies
+    const existing = normalized.image_url !== undefined ? await this.repository.findById(id) : null;
+    if (existing && normalized.image_url !== existing.image_url && normalized.image_thumbnail_url === undefined) {
+      normalized.image_thumbnail_url = null;
+    }
+
+    const updated = await this.repository.update(id, normalized);
+    if (updated && existing) {
+      await this.imageService.deleteReplacedImages(existing, updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Store an uploaded image (resized to full size and thumbnail) as the category's image,
+   * replacing and deleting any previously uploaded one.
+   */
+  async uploadImage(id: number, data: Buffer, contentType: string): Promise<Category | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const image = await this.imageService.storeImage('categories', id, data, contentType);
+    const updated = await this.repository.update(id, image);
+    await this.imageService.deleteReplacedImages(existing, updated);
+    return updated;
+  }
+
+  async deleteImage(id: number): Promise<Category | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = await this.repository.update(id, { image_url: '', image_thumbnail_url: null });
+    await this.imageService.deleteImages(existing);
+    return updated;
   }
 
   async deleteCategory(id: number): Promise<boolean> {
-    return this.repository.delete(id);
+    const existing = await this.repository.findById(id);
+    const deleted = await this.repository.delete(id);
+    if (deleted) {
+      await this.imageService.deleteImages(existing);
+    }
+    return deleted;
   }
 
   async deleteCategories(ids: number[]): Promise<number> {
-    return this.repository.deleteMany(ids);
+    const existing = await Promise.all(ids.map(id => this.repository.findById(id)));
+    const deleted = await this.repository.deleteMany(ids);
+    for (const category of existing) {
+      await this.imageService.deleteImages(category);
+    }
+    return deleted;
   }
 }
@@ -0,0 +1,345 @@
+import { getCatererPayableRepository, getCatererRepository } from '../repositories';
+import {
+  CatererPayableOrder,
+  CatererPayableSearchParams,
+  CatererPayablePeriod,
+  CatererPayableSummary,
+  CatererPayableSummaryRow,
+  CatererPayableSummaryTotals,
+  CatererBill,
+  CatererBillSearchParams,
+  CreateCatererBillDTO,
+  PayCatererBillDTO,
+  MarginGroupBy,
+  MarginReport,
+  MarginRow,
+  MarginTotals,
+} from '../models/caterer-payable';
+import {
+  validatePayableSearchParams,
+  validatePayablePeriod,
+  validateMarginGroupBy,
+  validateCreateCatererBill,
+  validatePayCatererBill,
+} from '../utils/caterer-payable-validation';
+import { Logger } from '../utils/logger';
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function marginPercent(margin: number, revenue: number): number | null {
+  return revenue > 0 ? Math.round((margin / revenue) * 10000) / 100 : null;
+}
+
+// Period label for a YYYY-MM-DD delivery date, e.g. 2025-03, 2025-Q1, 2025
+function periodLabel(date: string, period: CatererPayablePeriod): string {
+  const year = date.substring(0, 4);
+  const month = parseInt(date.substring(5, 7));
+  if (period === 'year') {
+    return year;
+  }
+  if (period === 'quarter') {
+    return `${year}-Q${Math.ceil(month / 3)}`;
+  }
+  return date.substring(0, 7);
+}
+
+/**
+ * What we owe caterers. Each order item carries the caterer's unit cost; an order's cost is the
+ * sum over its items. Orders are unbilled until attached to a caterer bill, then follow the
+ * bill from billed to paid. Margin is the order total excluding tax minus the caterer cost.
+ */
+export class CatererPayableService {
+  private repository = getCatererPayableRepository();
+  private catererRepository = getCatererRepository();
+
+  async getPayableOrders(params: CatererPayableSearchParams): Promise<CatererPayableOrder[]> {
+    this.assertValid(validatePayableSearchParams(params));
+    return this.repository.findPayableOrders(params);
+  }
+
+  async getSummary(params: CatererPayableSearchParams, period: CatererPayablePeriod): Promise<CatererPayableSummary> {
+    this.assertValid(validatePayableSearchParams(params));
+    this.assertValid(validatePayablePeriod(period));
+
+    const orders = await this.repository.findPayableOrders(params);
+    const rowsByKey = new Map<string, CatererPayableSummaryRow>();
+
+    for (const order of orders) {
+      const label = periodLabel(order.delivery_date, period);
+      const key = `${order.caterer_id}|${label}|${order.currency}`;
+      let row = rowsByKey.get(key);
+      if (!row) {
+        row = {
+          caterer_id: order.caterer_id,
+          caterer_name: order.caterer_name,
+          period: label,
+          ...this.emptySummaryTotals(order.currency),
+        };
+        rowsByKey.set(key, row);
+      }
+      this.addToSummary(row, order);
+    }
+
+    const rows = Array.from(rowsByKey.values())
+      .map(row => this.roundSummary(row))
+      .sort((a, b) => a.period.localeCompare(b.period) || a.caterer_name.localeCompare(b.caterer_name) || a.currency.localeCompare(b.currency));
+
+    // Costs are only added up within a currency
+    const totalsByCurrency = new Map<string, CatererPayableSummaryTotals>();
+    for (const order of orders) {
+      if (!totalsByCurrency.has(order.currency)) {
+        totalsByCurrency.set(order.currency, this.emptySummaryTotals(order.currency));
+      }
+      this.addToSummary(totalsByCurrency.get(order.currency)!, order);
+    }
+
+    return {
+      date_from: params.date_from,
+      date_to: params.date_to,
+      period,
+      rows,
+      totals: Array.from(totalsByCurrency.values())
+        .map(totals => this.roundSummary(totals))
+        .sort((a, b) => a.currency.localeCompare(b.currency)),
+    };
+  }
+
+  async getMarginReport(params: CatererPayableSearchParams, groupBy: MarginGroupBy): Promise<MarginReport> {
+    this.assertValid(validatePayableSearchParams(params));
+    this.assertValid(validateMarginGroupBy(groupBy));
+
+    const orders = await this.repository.findPayableOrders(params);
+    const rowsByKey = new Map<string, MarginRow>();
+    const totalsByCurrency = new Map<string, MarginTotals>();
+
+    for (const order of orders) {
+      const key = groupBy === 'order' ? order.order_id
+        : groupBy === 'client' ? order.client_id || 0
+        : order.caterer_id;
+      const label = groupBy === 'order' ? order.order_number
+        : groupBy === 'client' ? order.client_name
+        : order.caterer_name;
+
+      let row = rowsByKey.get(`${key}|${order.currency}`);
+      if (!row) {
+        row = { key, label, ...this.emptyMarginTotals(order.currency) };
+        rowsByKey.set(`${key}|${order.currency}`, row);
+      }
+      this.addToMargin(row, order);
+
+      // Revenue and costs are only added up within a currency
+      if (!totalsByCurrency.has(order.currency)) {
+        totalsByCurrency.set(order.currency, this.emptyMarginTotals(order.currency));
+      }
+      this.addToMargin(totalsByCurrency.get(order.currency)!, order);
+    }
+
+    const rows = Array.from(rowsByKey.values())
+      .map(row => this.roundMargin(row))
+      .sort((a, b) => a.currency.localeCompare(b.currency) || b.margin - a.margin || a.label.localeCompare(b.label));
+
+    return {
+      group_by: groupBy,
+      date_from: params.date_from,
+      date_to: params.date_to,
+      rows,
+      totals: Array.from(totalsByCurrency.values())
+        .map(totals => this.roundMargin(totals))
+        .sort((a, b) => a.currency.localeCompare(b.currency)),
+    };
+  }
+
+  async listBills(params: CatererBillSearchParams): Promise<CatererBill[]> {
+    return this.repository.findBills(params);
+  }
+
+  async getBill(id: number): Promise<CatererBill | null> {
+    const bill = await this.repository.findBillById(id);
+    if (!bill) {
+      return null;
+    }
+    return { ...bill, orders: await this.repository.findBillOrders(id) };
+  }
+
+  /**
+   * Bill a caterer for a period: attaches the caterer's unbilled orders delivered in the period
+   * (or just the listed ones) and totals their caterer cost.
+   */
+  async createBill(data: CreateCatererBillDTO, createdBy: number): Promise<CatererBill> {
+    this.assertValid(validateCreateCatererBill(data));
+
+    const caterer = await this.catererRepository.findById(data.caterer_id);
+    if (!caterer) {
+      throw new Error(`Caterer not found: ${data.caterer_id}`);
+    }
+
+    const orders = await this.repository.findPayableOrders({
+      date_from: data.period_start,
+      date_to: data.period_end,
+      caterer_id: data.caterer_id,
+      payable_status: 'unbilled',
+      order_ids: data.order_ids,
+    });
+
+    if (data.order_ids) {
+      const found = new Set(orders.map(order => order.order_id));
+      const unavailable = data.order_ids.filter(id => !found.has(id));
+      if (unavailable.length > 0) {
+        throw new Error(
+          `Validation failed: orders ${unavailable.join(', ')} are not unbilled orders of this caterer delivered in the period`
+        );
+      }
+    }
+    if (orders.length === 0) {
+      throw new Error('Validation failed: no unbilled orders for this caterer in the period');
+    }
+
+    const currencies = Array.from(new Set(orders.map(order => order.currency))).sort();
+    if (currencies.length > 1) {
+      throw new Error(
+        `Validation failed: the orders are in more than one currency (${currencies.join(', ')}); bill each currency separately with order_ids`
+      );
+    }
+
+    const amount = roundMoney(orders.reduce((sum, order) => sum + order.caterer_cost, 0));
+    const missingCost = orders.filter(order => order.items_missing_cost > 0);
+    if (missingCost.length > 0) {
+      Logger.warn('Caterer bill includes orders with items missing a caterer cost', {
+        catererId: data.caterer_id,
+        orderNumbers: missingCost.map(order => order.order_number),
+      });
+    }
+
+    const bill = await this.repository.createBill(data, orders.map(order => order.order_id), amount, currencies[0], createdBy);
+
+    Logger.info('Caterer bill created', {
+      billId: bill.id,
+      catererId: data.caterer_id,
+      orderCount: orders.length,
+      amount,
+      currency: currencies[0],
+      createdBy,
+    });
+
+    return { ...bill, orders: await this.repository.findBillOrders(bill.id) };
+  }
+
+  async payBill(id: number, data: PayCatererBillDTO): Promise<CatererBill | null> {
+    this.assertValid(validatePayCatererBill(data));
+
+    const bill = await this.repository.findBillById(id);
+    if (!bill) {
+      return null;
+    }
+    if (bill.status === 'paid') {
+      throw new Error('Validation failed: bill is already paid');
+    }
+
+    const paidAt = data.paid_at ? new Date(data.paid_at) : new Date();
+    const updated = await this.repository.updateBillStatus(id, 'paid', paidAt, data.payment_reference);
+
+    Logger.info('Caterer bill marked paid', {
+      billId: id,
+      catererId: bill.caterer_id,
+      amount: bill.amount,
+      paymentReference: data.payment_reference || null,
+    });
+
+    return updated;
+  }
+
+  // Voids an unpaid bill; its orders go back to unbilled
+  async deleteBill(id: number): Promise<boolean> {
+    const bill = await this.repository.findBillById(id);
+    if (!bill) {
+      return false;
+    }
+    if (bill.status === 'paid') {
+      throw new Error('Validation failed: paid bills cannot be deleted');
+    }
+    return this.repository.deleteBill(id);
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+
+  private emptySummaryTotals(currency: string): CatererPayableSummaryTotals {
+    return {
+      currency,
+      order_count: 0,
+      orders_missing_cost: 0,
+      unbilled_amount: 0,
+      billed_amount: 0,
+      paid_amount: 0,
+      total_cost: 0,
+    };
+  }
+
+  private addToSummary(row: CatererPayableSummaryTotals, order: CatererPayableOrder): void {
+    row.order_count++;
+    if (order.items_missing_cost > 0) {
+      row.orders_missing_cost++;
+    }
+    row[`${order.payable_status}_amount`] += order.caterer_cost;
+    row.total_cost += order.caterer_cost;
+  }
+
+  private roundSummary<T extends CatererPayableSummaryTotals>(row: T): T {
+    return {
+      ...row,
+      unbilled_amount: roundMoney(row.unbilled_amount),
+      billed_amount: roundMoney(row.billed_amount),
+      paid_amount: roundMoney(row.paid_amount),
+      total_cost: roundMoney(row.total_cost),
+    };
+  }
+
+  private emptyMarginTotals(currency: string): MarginTotals {
+    return {
+      currency,
+      order_count: 0,
+      orders_missing_cost: 0,
+      item_revenue: 0,
+      revenue: 0,
+      caterer_cost: 0,
+      margin: 0,
+      margin_percent: null,
+    };
+  }
+
+  private addToMargin(row: MarginTotals, order: CatererPayableOrder): void {
+    row.order_count++;
+    if (order.items_missing_cost > 0) {
+      row.orders_missing_cost++;
+    }
+    row.item_revenue += order.item_revenue;
+    row.revenue += order.revenue;
+    row.caterer_cost += order.caterer_cost;
+  }
+
+  private roundMargin<T extends MarginTotals>(row: T): T {
+    const margin = roundMoney(row.revenue - row.caterer_cost);
+    return {
+      ...row,
+      item_revenue: roundMoney(row.item_revenue),
+      revenue: roundMoney(row.revenue),
+      caterer_cost: roundMoney(row.caterer_cost),
+      margin,
+      margin_percent: marginPercent(margin, row.revenue),
+    };
+  }
+}
+
+let catererPayableServiceInstance: CatererPayableService | null = null;
+
+export function getCatererPayableService(): CatererPayableService {
+  if (!catererPayableServiceInstance) {
+    catererPayableServiceInstance = new CatererPayableService();
+  }
+  return catererPayableServiceInstance;
+}
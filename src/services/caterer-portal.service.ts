@@ -0,0 +1,263 @@
+import { Order, OrderStatus } from '../models/order';
+import { CatererPortalView, CatererResponseAction, CatererResponseDTO } from '../models/order-response';
+import { getOrderRepository, getOrderResponseTokenRepository, getUserRepository } from '../repositories';
+import { hashToken, generateToken } from '../utils/crypto';
+import { env } from '../config/env';
+import { Logger } from '../utils/logger';
+import { getOrderEventService } from './order-event.service';
+import { getEmailService } from './email.service';
+import { OrderService } from './order.service';
+
+// Status the order moves to for each caterer response
+const RESPONSE_STATUS: Record<CatererResponseAction, OrderStatus> = {
+  accept: 'caterer_confirmed',
+  decline: 'order_changed',
+  propose_changes: 'order_changed',
+};
+
+// Orders in these states no longer need a caterer response, so emails skip the links
+const CLOSED_STATUSES: OrderStatus[] = ['delivered', 'cancelled'];
+
+export interface CatererResponseLink {
+  url: string;
+  expires_at: Date;
+}
+
+export interface CatererResponseResult {
+  action: CatererResponseAction;
+  order_number: string;
+  status: OrderStatus;
+  status_updated: boolean;
+}
+
+/**
+ * Caterer confirmation portal. Caterer emails carry a signed, expiring link to a public
+ * page where the caterer can accept, decline or propose changes without logging in.
+ * Tokens are hashed like invite tokens; only the hash is stored.
+ */
+export class CatererPortalService {
+  private tokenRepository = getOrderResponseTokenRepository();
+  private orderRepository = getOrderRepository();
+  private orderEventService = getOrderEventService();
+
+  /**
+   * Whether a caterer email for this order should carry response links
+   */
+  shouldIncludeResponseLink(order: Order, purpose?: string): boolean {
+    return purpose !== 'cancellation' && !CLOSED_STATUSES.includes(order.status);
+  }
+
+  /**
+   * Issue a new response link for the order's caterer. Earlier unused links for the
+   * order are revoked so the caterer always responds to the latest version.
+   */
+  async createResponseLink(order: Order, catererEmail: string, createdByUserId?: number | null): Promise<CatererResponseLink> {
+    const token = generateToken(32);
+    const expiresAt = new Date(Date.now() + env.CATERER_LINK_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    await this.tokenRepository.revokeActiveForOrder(order.id!, 'caterer');
+    await this.tokenRepository.create({
+      order_id: order.id!,
+      recipient_type: 'caterer',
+      recipient_email: catererEmail,
+      token_hash: hashToken(token),
+      expires_at: expiresAt,
+      created_by_user_id: createdByUserId ?? null,
+    });
+
+    return {
+      url: `${env.FRONTEND_URL}/caterer/respond?token=${token}`,
+      expires_at: expiresAt,
+    };
+  }
+
+  /**
+   * Append the response link to a plain-text caterer email body
+   */
+  appendResponseLink(body: string, link: CatererResponseLink): string {
+    return `${body}
+
+Please confirm this order online - you can accept it, decline it or propose changes:
+${link.url}
+
+This link expires on ${link.expires_at.toUTCString()}.`;
+  }
+
+  /**
+   * Load the order behind a response link. Used links still resolve so the page can show
+   * the response already given; expired and superseded links do not.
+   */
+  async getPortalView(token: string): Promise<CatererPortalView | null> {
+    const record = await this.tokenRepository.findByTokenHash(hashToken(token));
+    if (!record || record.recipient_type !== 'caterer' || record.revoked_at ||
+        (!record.used_at && new Date(record.expires_at).getTime() <= Date.now())) {
+      return null;
+    }
+
+    const order = await this.orderRepository.findById(record.order_id);
+    if (!order) {
+      return null;
+    }
+
+    return {
+      order: {
+        order_number: order.order_number,
+        status: order.status,
+        order_type: order.order_type,
+        delivery_date: order.delivery_date,
+        delivery_time: order.delivery_time,
+        airport: order.airport_details?.airport_name || order.airport,
+        fbo_name: order.fbo?.fbo_name,
+        aircraft_tail_number: order.aircraft_tail_number,
+        description: order.description,
+        dietary_restrictions: order.dietary_restrictions,
+        dietary_requirements: order.dietary_requirements,
+        reheating_instructions: order.reheating_instructions,
+        packaging_instructions: order.packaging_instructions,
+        items: (order.items || []).map(item => ({
+          item_name: item.item_name,
+          item_description: item.item_description,
+          portion_size: item.portion_size,
+          portion_serving: item.portion_serving,
+          packaging: item.packaging,
+          allergens: item.allergens,
+          dietary_tags: item.dietary_tags,
+        })),
+        addons: (order.addons || []).map(addon => ({
+          name: addon.name,
+          description: addon.description,
+          quantity: addon.quantity,
+        })),
+      },
+      expires_at: record.expires_at,
+      responded: !!record.used_at,
+      response: record.response,
+    };
+  }
+
+  /**
+   * Record the caterer's response and move the order status. A response is always
+   * recorded; if the order's current status doesn't allow the move (e.g. it was changed
+   * in the meantime) the status is left as is for the CSR to follow up.
+   */
+  async respond(token: string, response: CatererResponseDTO): Promise<CatererResponseResult | null> {
+    const validActions: CatererResponseAction[] = ['accept', 'decline', 'propose_changes'];
+    if (!validActions.includes(response.action)) {
+      throw new Error(`Validation failed: action must be one of: ${validActions.join(', ')}`);
+    }
+    const comments = typeof response.comments === 'string' ? response.comments.trim() : '';
+    if (response.action === 'propose_changes' && !comments) {
+      throw new Error('Validation failed: comments are required when proposing changes');
+    }
+
+    const record = await this.tokenRepository.findActiveByTokenHash(hashToken(token));
+    if (!record || record.recipient_type !== 'caterer') {
+      return null;
+    }
+
+    const order = await this.orderRepository.findById(record.order_id);
+    if (!order) {
+      return null;
+    }
+
+    const claimed = await this.tokenRepository.markAsUsed(record.id, response.action, comments || null);
+    if (!claimed) {
+      // Another submission of the same link won the race
+      return null;
+    }
+
+    const fromStatus = order.status;
+    const targetStatus = RESPONSE_STATUS[response.action];
+    let status = order.status;
+    let statusUpdated = false;
+
+    try {
+      const updatedOrder = await new OrderService().updateOrderStatus(order.id!, { status: targetStatus });
+      if (updatedOrder) {
+        status = updatedOrder.status;
+        statusUpdated = status !== fromStatus;
+      }
+    } catch (error: any) {
+      Logger.warn('Caterer response recorded without status change', {
+        orderId: order.id,
+        action: response.action,
+        fromStatus,
+        targetStatus,
+        error: error.message,
+      });
+    }
+
+    await this.orderEventService.recordCatererResponse(order.id!, {
+      action: response.action,
+      comments: comments || null,
+      caterer_email: record.recipient_email,
+      from_status: fromStatus,
+      to_status: statusUpdated ? status : null,
+    });
+
+    Logger.info('Caterer responded to order', {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      action: response.action,
+      fromStatus,
+      status,
+      statusUpdated,
+    });
+
+    await this.notifySender(record.created_by_user_id, order, response.action, comments, status);
+
+    return {
+      action: response.action,
+      order_number: order.order_number,
+      status,
+      status_updated: statusUpdated,
+    };
+  }
+
+  /**
+   * Let the CSR who sent the link know the caterer responded. Never fails the response.
+   */
+  private async notifySender(
+    userId: number | null,
+    order: Order,
+    action: CatererResponseAction,
+    comments: string,
+    status: OrderStatus
+  ): Promise<void> {
+    const emailService = getEmailService();
+    if (!userId || !emailService.isConfigured()) {
+      return;
+    }
+
+    try {
+      const user = await getUserRepository().findById(userId);
+      if (!user) {
+        return;
+      }
+
+      const actionText = action === 'accept' ? 'accepted' : action === 'decline' ? 'declined' : 'proposed changes to';
+      const body = `
+The caterer ${order.caterer || ''} has ${actionText} order ${order.order_number}.
+${comments ? `\nCaterer comments:\n${comments}\n` : ''}
+Current order status: ${status.replace(/_/g, ' ')}
+      `.trim();
+
+      await emailService.sendEmail({
+        to: user.email,
+        subject: `Kabin247 Order#${order.order_number}: caterer ${actionText.replace(' to', '')}`,
+        html: emailService.generateEmailHTML(body, order.order_number),
+      });
+    } catch (error) {
+      Logger.error('Failed to notify sender of caterer response', error, { orderId: order.id, userId });
+    }
+  }
+}
+
+let catererPortalServiceInstance: CatererPortalService | null = null;
+
+export function getCatererPortalService(): CatererPortalService {
+  if (!catererPortalServiceInstance) {
+    catererPortalServiceInstance = new CatererPortalService();
+  }
+  return catererPortalServiceInstance;
+}
@@ -1,6 +1,7 @@
 import { Caterer, CreateCatererDTO, CatererSearchParams, CatererListResponse } from '../models/caterer';
 import { getCatererRepository } from '../repositories';
 import { validateCaterer, normalizeCatererData } from '../utils/caterer-validation';
+import { isValidCurrency } from '../utils/currency';
 import { Logger } from '../utils/logger';
 import * as XLSX from 'xlsx';
 
@@ -33,6 +34,13 @@ export class CatererService {
   }
 
   async updateCaterer(id: number, data: Partial<CreateCatererDTO>): Promise<Caterer | null> {
+    if (data.default_currency) {
+      data = { ...data, default_currency: data.default_currency.trim().toUpperCase() };
+      if (!isValidCurrency(data.default_currency!)) {
+        throw new Error('Validation failed: default_currency must be a valid ISO 4217 currency code');
+      }
+    }
+
     // If updating, check for duplicates excluding current record
     if (data.caterer_name || data.caterer_number || data.caterer_email || 
         data.airport_code_iata || data.airport_code_icao || data.time_zone) {
@@ -231,6 +239,9 @@ export class CatererService {
             'Time Zone', 'time_zone', 'Time_Zone', 'time zone', 'Timezone', 'timezone',
             'TIME ZONE', 'TimeZone', 'TZ', 'tz'
           ]),
+          default_currency: getColumnValue(row, [
+            'Default Currency', 'default_currency', 'Default_Currency', 'Currency', 'currency', 'CURRENCY'
+          ]),
         };
 
         // Fix swapped IATA/ICAO codes if they're in the wrong columns
@@ -331,6 +342,7 @@ export class CatererService {
       'IATA Code': caterer.airport_code_iata || '',
       'ICAO Code': caterer.airport_code_icao || '',
       'Time Zone': caterer.time_zone || '',
+      'Default Currency': caterer.default_currency || '',
       'Created At': caterer.created_at ? new Date(caterer.created_at).toISOString() : '',
       'Updated At': caterer.updated_at ? new Date(caterer.updated_at).toISOString() : '',
     }));
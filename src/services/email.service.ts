@@ -2,6 +2,7 @@ import nodemailer from 'nodemailer';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from '../utils/logger';
+import { DEFAULT_CURRENCY, formatCurrency } from '../utils/currency';
 
 export type EmailRecipient = 'client' | 'caterer' | 'both';
 export type EmailPurpose = 'quote' | 'confirmation' | 'delivery' | 'invoice' | 'order_request' | 'quote_request' | 'update' | 'cancellation';
@@ -671,7 +672,11 @@ export class EmailService {
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;')
-      .replace(/\n/g, '<br>');
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .replace(/\n/g, '<br>')
+      // Make links (e.g. caterer portal) clickable; a link ends at whitespace or a quote
+      .replace(/(https?:\/\/(?:(?!&quot;|&#39;)[^\s<>"'])+)/g, '<a href="$1">$1</a>');
 
     return `
 <!DOCTYPE html>
@@ -771,8 +776,10 @@ export class EmailService {
     items?: Array<{ name: string; description?: string; price: number }>;
     deliveryDate?: string;
     message?: string;
+    currency?: string;
   }): string {
     const { orderNumber, clientName, total, paymentUrl, dueDate, items, deliveryDate, message } = options;
+    const currency = options.currency || DEFAULT_CURRENCY;
     
     // Format due date
     const formattedDueDate = dueDate ? new Date(dueDate).toLocaleDateString('en-US', { 
@@ -795,7 +802,7 @@ export class EmailService {
             <div style="font-weight: 600; color: #2c3e50;">${item.name}</div>
             ${item.description ? `<div style="font-size: 13px; color: #6c757d; margin-top: 4px;">${item.description}</div>` : ''}
           </td>
-          <td style="padding: 12px 0; border-bottom: 1px solid #e9ecef; text-align: right; font-weight: 600; color: #2c3e50; white-space: nowrap;">$${item.price.toFixed(2)}</td>
+          <td style="padding: 12px 0; border-bottom: 1px solid #e9ecef; text-align: right; font-weight: 600; color: #2c3e50; white-space: nowrap;">${formatCurrency(item.price, currency)}</td>
         </tr>
       `).join('');
 
@@ -808,11 +815,11 @@ export class EmailService {
                 ${itemRows}
                 <tr>
                   <td style="padding: 15px 0 8px 0; font-size: 14px; color: #6c757d;">Subtotal</td>
-                  <td style="padding: 15px 0 8px 0; text-align: right; font-size: 14px; color: #6c757d;">$${total.toFixed(2)}</td>
+                  <td style="padding: 15px 0 8px 0; text-align: right; font-size: 14px; color: #6c757d;">${formatCurrency(total, currency)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0 0 0; font-size: 16px; font-weight: 700; color: #2c3e50; border-top: 2px solid #dee2e6;">Total Due</td>
-                  <td style="padding: 8px 0 0 0; text-align: right; font-size: 16px; font-weight: 700; color: #2c3e50; border-top: 2px solid #dee2e6;">$${total.toFixed(2)}</td>
+                  <td style="padding: 8px 0 0 0; text-align: right; font-size: 16px; font-weight: 700; color: #2c3e50; border-top: 2px solid #dee2e6;">${formatCurrency(total, currency)}</td>
                 </tr>
               </table>
             </td>
@@ -847,7 +854,7 @@ export class EmailService {
           <tr>
             <td align="center" style="padding: 20px 40px;">
               <p style="margin: 0; color: #6c757d; font-size: 14px; text-transform: uppercase; letter-spacing: 1px;">New Invoice</p>
-              <h2 style="margin: 10px 0 0 0; color: #2c3e50; font-size: 48px; font-weight: 700;">$${total.toFixed(2)}</h2>
+              <h2 style="margin: 10px 0 0 0; color: #2c3e50; font-size: 48px; font-weight: 700;">${formatCurrency(total, currency)}</h2>
               <p style="margin: 10px 0 0 0; color: #6c757d; font-size: 14px;">Due on ${formattedDueDate}</p>
             </td>
           </tr>
@@ -1003,6 +1010,47 @@ Kabin247 Team
       html,
     });
   }
+
+  /**
+   * Send a client's monthly statement with the statement PDF attached
+   */
+  async sendClientStatementEmail(options: {
+    to: string[];
+    cc?: string[];
+    clientName: string;
+    periodLabel: string;
+    amountDue: number;
+    currency: string;
+    pdf: Buffer;
+    filename: string;
+    message?: string;
+  }): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const subject = `Kabin247 Statement - ${options.periodLabel}`;
+    const html = this.generateEmailHTML(`
+Dear ${options.clientName},
+
+Please find attached your account statement for ${options.periodLabel}.
+
+Balance due: ${formatCurrency(options.amountDue, options.currency)}
+${options.message ? `\n${options.message}\n` : ''}
+If you have any questions about this statement, please reply to this email.
+
+Best regards,
+Kabin247 Inflight Support
+    `.trim(), 'STATEMENT', false);
+
+    return this.sendEmail({
+      to: options.to,
+      cc: options.cc && options.cc.length > 0 ? options.cc : undefined,
+      subject,
+      html,
+      attachments: [{
+        filename: options.filename,
+        content: options.pdf,
+        contentType: 'application/pdf',
+      }],
+    });
+  }
 }
 
 // Singleton instance
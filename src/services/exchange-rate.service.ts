@@ -0,0 +1,195 @@
+import { getExchangeRateRepository } from '../repositories';
+import {
+  ExchangeRate,
+  CreateExchangeRateDTO,
+  ExchangeRateSearchParams,
+  OrderExchangeRateSnapshot,
+} from '../models/exchange-rate';
+import { validateExchangeRate, validateExchangeRateSearchParams } from '../utils/exchange-rate-validation';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { Logger } from '../utils/logger';
+import * as XLSX from 'xlsx';
+
+function today(): string {
+  return new Date().toISOString().substring(0, 10);
+}
+
+function roundRate(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+// Spreadsheet dates arrive as Date cells, Excel serial numbers or strings
+function toDateString(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? String(value) : value.toISOString().substring(0, 10);
+  }
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (parsed) {
+      return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+    }
+  }
+  return String(value).trim();
+}
+
+/**
+ * Exchange rates between order currencies and the reporting currency (USD). Rates are entered
+ * manually or imported from a spreadsheet; one rate per currency pair and effective date.
+ * When an order is quoted, the rate in effect is copied onto the order so later rate changes
+ * do not alter what the client was quoted.
+ */
+export class ExchangeRateService {
+  private repository = getExchangeRateRepository();
+
+  async listRates(params: ExchangeRateSearchParams): Promise<ExchangeRate[]> {
+    const normalized: ExchangeRateSearchParams = {
+      ...params,
+      base_currency: params.base_currency?.trim().toUpperCase(),
+      quote_currency: params.quote_currency?.trim().toUpperCase(),
+    };
+    this.assertValid(validateExchangeRateSearchParams(normalized));
+    return this.repository.findAll(normalized);
+  }
+
+  async createRate(data: CreateExchangeRateDTO, createdBy?: number): Promise<ExchangeRate> {
+    return this.saveRate(data, 'manual', createdBy);
+  }
+
+  async deleteRate(id: number): Promise<boolean> {
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Import rates from an Excel or CSV file with columns Base Currency (optional, defaults to USD),
+   * Quote Currency, Rate and Effective Date (optional, defaults to today). Existing rates for the
+   * same pair and date are replaced.
+   */
+  async importRates(fileBuffer: Buffer, createdBy?: number): Promise<{ success: number; errors: string[] }> {
+    let data: any[] = [];
+
+    try {
+      const workbook = XLSX.read(fileBuffer, { type: 'buffer', cellDates: true });
+      if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+        throw new Error('File has no sheets');
+      }
+      data = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]) as any[];
+    } catch (error: any) {
+      Logger.error('Failed to read exchange rate file', error, { fileSize: fileBuffer.length });
+      throw new Error(`Failed to read exchange rate file: ${error.message}`);
+    }
+
+    const getColumnValue = (row: any, possibleNames: string[]): unknown => {
+      for (const name of possibleNames) {
+        if (row[name] !== undefined && row[name] !== null && row[name] !== '') {
+          return row[name];
+        }
+      }
+      return undefined;
+    };
+
+    let success = 0;
+    const errors: string[] = [];
+
+    for (let i = 0; i < data.length; i++) {
+      const row = data[i];
+      const baseCurrency = getColumnValue(row, ['Base Currency', 'base_currency', 'Base', 'base', 'From', 'from']);
+      const quoteCurrency = getColumnValue(row, ['Quote Currency', 'quote_currency', 'Quote', 'quote', 'Currency', 'currency', 'To', 'to']);
+      const rate = getColumnValue(row, ['Rate', 'rate', 'Exchange Rate', 'exchange_rate']);
+      const effectiveDate = getColumnValue(row, ['Effective Date', 'effective_date', 'Date', 'date']);
+
+      try {
+        await this.saveRate({
+          base_currency: baseCurrency !== undefined ? String(baseCurrency) : undefined,
+          quote_currency: quoteCurrency !== undefined ? String(quoteCurrency) : '',
+          rate: typeof rate === 'number' ? rate : parseFloat(String(rate)),
+          effective_date: toDateString(effectiveDate),
+        }, 'import', createdBy);
+        success++;
+      } catch (error: any) {
+        // Row numbers are 1-based and the header is row 1
+        errors.push(`Row ${i + 2}: ${error.message}`);
+      }
+    }
+
+    Logger.info('Exchange rates imported', { success, errorCount: errors.length, createdBy });
+
+    return { success, errors };
+  }
+
+  /**
+   * Rate in effect for an order currency, as units of that currency per 1 USD. Looks for a
+   * USD -> currency rate first and falls back to inverting a currency -> USD rate.
+   * Returns null when no rate has been recorded for the currency.
+   */
+  async getRateSnapshot(currency: string, onDate: string = today()): Promise<OrderExchangeRateSnapshot | null> {
+    const capturedAt = new Date();
+
+    if (currency === DEFAULT_CURRENCY) {
+      return {
+        exchange_rate: 1,
+        exchange_rate_base: DEFAULT_CURRENCY,
+        exchange_rate_date: onDate,
+        exchange_rate_captured_at: capturedAt,
+      };
+    }
+
+    const direct = await this.repository.findLatest(DEFAULT_CURRENCY, currency, onDate);
+    if (direct) {
+      return {
+        exchange_rate: direct.rate,
+        exchange_rate_base: DEFAULT_CURRENCY,
+        exchange_rate_date: direct.effective_date,
+        exchange_rate_captured_at: capturedAt,
+      };
+    }
+
+    const inverse = await this.repository.findLatest(currency, DEFAULT_CURRENCY, onDate);
+    if (inverse) {
+      return {
+        exchange_rate: roundRate(1 / inverse.rate),
+        exchange_rate_base: DEFAULT_CURRENCY,
+        exchange_rate_date: inverse.effective_date,
+        exchange_rate_captured_at: capturedAt,
+      };
+    }
+
+    return null;
+  }
+
+  private async saveRate(data: CreateExchangeRateDTO, source: ExchangeRate['source'], createdBy?: number): Promise<ExchangeRate> {
+    const normalized: CreateExchangeRateDTO = {
+      base_currency: (data.base_currency || DEFAULT_CURRENCY).trim().toUpperCase(),
+      quote_currency: (data.quote_currency || '').trim().toUpperCase(),
+      rate: data.rate,
+      effective_date: data.effective_date || today(),
+    };
+    this.assertValid(validateExchangeRate(normalized));
+
+    return this.repository.upsert({
+      base_currency: normalized.base_currency!,
+      quote_currency: normalized.quote_currency,
+      rate: normalized.rate,
+      effective_date: normalized.effective_date!,
+      source,
+      created_by: createdBy ?? null,
+    });
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
+
+let exchangeRateServiceInstance: ExchangeRateService | null = null;
+
+export function getExchangeRateService(): ExchangeRateService {
+  if (!exchangeRateServiceInstance) {
+    exchangeRateServiceInstance = new ExchangeRateService();
+  }
+  return exchangeRateServiceInstance;
+}
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { getImageStorage } from '../storage';
+import { Logger } from '../utils/logger';
+
+export type ImageOwner = 'menu-items' | 'addon-items' | 'categories';
+
+// Image fields shared by menu items, add-on items and categories
+export interface EntityImage {
+  image_url?: string | null;
+  image_thumbnail_url?: string | null;
+}
+
+export interface StoredImage {
+  image_url: string;
+  image_thumbnail_url: string;
+}
+
+export const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const IMAGE_FORMATS = ['jpeg', 'png', 'webp'];
+
+// Longest edge in pixels; smaller images are not enlarged
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * Stores uploaded images as a full-size and a thumbnail WebP. Only URLs issued by the
+ * configured storage are ever deleted; external image_url values are left alone.
+ */
+export class ImageService {
+  private storage = getImageStorage();
+
+  async storeImage(owner: ImageOwner, ownerId: number, data: Buffer, contentType: string): Promise<StoredImage> {
+    if (!IMAGE_CONTENT_TYPES.includes(contentType)) {
+      throw new Error(`Validation failed: image must be one of: ${IMAGE_CONTENT_TYPES.join(', ')}`);
+    }
+
+    // The declared content type is only a hint; the image itself must decode
+    let format: string | undefined;
+    try {
+      format = (await sharp(data).metadata()).format;
+    } catch {
+      format = undefined;
+    }
+    if (!format || !IMAGE_FORMATS.includes(format)) {
+      throw new Error('Validation failed: file is not a valid JPEG, PNG or WebP image');
+    }
+
+    // rotate() applies the EXIF orientation before the metadata is stripped
+    const [full, thumbnail] = await Promise.all([
+      sharp(data).rotate().resize(FULL_SIZE, FULL_SIZE, { fit: 'inside', withoutEnlargement: true }).webp({ quality: 85 }).toBuffer(),
+      sharp(data).rotate().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true }).webp({ quality: 80 }).toBuffer(),
+    ]);
+
+    const baseKey = `${owner}/${ownerId}/${crypto.randomUUID()}`;
+    const imageUrl = await this.storage.save(`${baseKey}.webp`, full, 'image/webp');
+    const thumbnailUrl = await this.storage.save(`${baseKey}-thumb.webp`, thumbnail, 'image/webp');
+
+    Logger.info('Image stored', { owner, ownerId, imageUrl, size: full.length, thumbnailSize: thumbnail.length });
+
+    return { image_url: imageUrl, image_thumbnail_url: thumbnailUrl };
+  }
+
+  // Delete the stored files of an entity's image. Failures are logged, never thrown.
+  async deleteImages(image: EntityImage | null | undefined): Promise<void> {
+    if (!image) {
+      return;
+    }
+    const urls = [image.image_url, image.image_thumbnail_url].filter((url): url is string => !!url);
+    for (const url of urls) {
+      const key = this.storage.keyFromUrl(url);
+      if (!key) {
+        continue;
+      }
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        Logger.error('Failed to delete stored image', error, { url });
+      }
+    }
+  }
+
+  // Delete the previous image files that the current image no longer uses
+  async deleteReplacedImages(previous: EntityImage | null | undefined, current: EntityImage | null | undefined): Promise<void> {
+    if (!previous) {
+      return;
+    }
+    const inUse = [current?.image_url, current?.image_thumbnail_url];
+    await this.deleteImages({
+      image_url: inUse.includes(previous.image_url) ? null : previous.image_url,
+      image_thumbnail_url: inUse.includes(previous.image_thumbnail_url) ? null : previous.image_thumbnail_url,
+    });
+  }
+}
+
+let imageServiceInstance: ImageService | null = null;
+
+export function getImageService(): ImageService {
+  if (!imageServiceInstance) {
+    imageServiceInstance = new ImageService();
+  }
+  return imageServiceInstance;
+}
@@ -0,0 +1,346 @@
+import {
+  InventoryItem,
+  RecipeLine,
+  SetRecipeDTO,
+  MenuItemRecipe,
+  InventoryReservation,
+  InventoryReservationSearchParams,
+  InventoryRequirement,
+  InventoryForecast,
+  InventoryShortfall,
+} from '../models/inventory';
+import { Order, OrderStatus } from '../models/order';
+import { getInventoryConsumptionRepository, getInventoryRepository, getMenuItemRepository, getOrderRepository } from '../repositories';
+import { validateRecipe, validateForecastDays } from '../utils/inventory-validation';
+import { getInventoryMovementService } from './inventory-movement.service';
+import { Logger } from '../utils/logger';
+
+// Statuses in which a confirmed order holds its stock
+const RESERVING_STATUSES: OrderStatus[] = ['caterer_confirmed', 'in_preparation', 'ready_for_delivery'];
+// Moving back to one of these releases the order's reservation
+const UNCONFIRMED_STATUSES: OrderStatus[] = ['awaiting_quote', 'awaiting_client_approval', 'awaiting_caterer'];
+// Orders that may still need stock; order_changed keeps its reservation while it is reworked
+const FORECAST_STATUSES: OrderStatus[] = [...UNCONFIRMED_STATUSES, ...RESERVING_STATUSES, 'order_changed'];
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Item quantity is stored in portion_size; anything that isn't a plain number counts as 1
+function itemQuantity(portionSize: string): number {
+  return /^[0-9]+(\.[0-9]+)?$/.test(portionSize) ? parseFloat(portionSize) : 1;
+}
+
+function itemsSignature(order: Order): string {
+  return JSON.stringify((order.items || []).map(item => [item.menu_item_id ?? null, item.portion_size]));
+}
+
+/**
+ * Stock consumed by orders. Recipes list the inventory one portion of a menu item variant uses.
+ * A confirmed order reserves the stock its items need, delivery consumes it from the item's lots,
+ * and cancelling (or moving back before confirmation) releases it. Stock consumed by a delivered
+ * order is not returned if the order is cancelled afterwards.
+ */
+export class InventoryConsumptionService {
+  private repository = getInventoryConsumptionRepository();
+  private inventoryRepository = getInventoryRepository();
+  private menuItemRepository = getMenuItemRepository();
+  private orderRepository = getOrderRepository();
+  private movementService = getInventoryMovementService();
+
+  /**
+   * Recipes of every variant of a menu item; variants without a recipe have no lines
+   */
+  async getRecipes(menuItemId: number): Promise<MenuItemRecipe[] | null> {
+    const menuItem = await this.menuItemRepository.findById(menuItemId);
+    if (!menuItem) {
+      return null;
+    }
+
+    const lines = await this.withItemDetails(await this.repository.findRecipeLines([menuItemId]));
+    const portionSizes = (menuItem.variants || []).map(variant => variant.portion_size);
+    // Lines of variants removed since the recipe was set are still listed so they can be cleared
+    lines.forEach(line => {
+      if (!portionSizes.includes(line.portion_size)) {
+        portionSizes.push(line.portion_size);
+      }
+    });
+
+    return portionSizes.map(portionSize => ({
+      portion_size: portionSize,
+      lines: lines.filter(line => line.portion_size === portionSize),
+    }));
+  }
+
+  async setRecipe(menuItemId: number, data: SetRecipeDTO): Promise<MenuItemRecipe | null> {
+    const validation = validateRecipe(data);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const menuItem = await this.menuItemRepository.findById(menuItemId);
+    if (!menuItem) {
+      return null;
+    }
+
+    const portionSize = data.portion_size.trim();
+    const hasVariant = (menuItem.variants || []).some(variant => variant.portion_size === portionSize);
+    if (!hasVariant && data.lines.length > 0) {
+      throw new Error(`Validation failed: menu item has no variant with portion_size ${portionSize}`);
+    }
+
+    for (const line of data.lines) {
+      const inventoryItem = await this.inventoryRepository.findById(line.inventory_item_id);
+      if (!inventoryItem) {
+        throw new Error(`Validation failed: inventory item ${line.inventory_item_id} not found`);
+      }
+    }
+
+    const lines = await this.repository.replaceRecipe(
+      menuItemId,
+      portionSize,
+      data.lines.map(line => ({ inventory_item_id: line.inventory_item_id, quantity: roundQuantity(line.quantity) }))
+    );
+
+    Logger.info('Menu item recipe updated', { menuItemId, portionSize, lineCount: lines.length });
+
+    return { portion_size: portionSize, lines: await this.withItemDetails(lines) };
+  }
+
+  async listReservations(params: InventoryReservationSearchParams): Promise<InventoryReservation[]> {
+    return this.repository.findReservations(params);
+  }
+
+  /**
+   * Inventory an order's items need according to their recipes, per inventory item.
+   * Items without a menu item or without a recipe need nothing.
+   */
+  async calculateRequirements(order: Order): Promise<InventoryRequirement[]> {
+    const requirements = await this.calculateRequirementsForOrders([order]);
+    return requirements.get(order.id!) || [];
+  }
+
+  /**
+   * Keep an order's reservation in line with its status and items. Called after every order
+   * update and status change; failures are logged and never fail the order change.
+   */
+  async syncOrder(previous: Order, current: Order, actorUserId?: number): Promise<void> {
+    try {
+      if (current.status === 'delivered') {
+        if (previous.status !== 'delivered') {
+          await this.consume(current, actorUserId);
+        }
+      } else if (current.status === 'cancelled' || UNCONFIRMED_STATUSES.includes(current.status)) {
+        await this.release(current);
+      } else if (RESERVING_STATUSES.includes(current.status)) {
+        if (!RESERVING_STATUSES.includes(previous.status) || itemsSignature(previous) !== itemsSignature(current)) {
+          await this.reserve(current);
+        }
+      }
+    } catch (error) {
+      Logger.error('Failed to update inventory for order', error, {
+        orderId: current.id,
+        previousStatus: previous.status,
+        status: current.status,
+      });
+    }
+  }
+
+  /**
+   * Projected stock per inventory item for orders delivered in the next `days` days.
+   * Confirmed orders count through their reservations (whatever their delivery date);
+   * unconfirmed orders in the window count through their recipes. Lists the items whose
+   * projected stock falls below min_stock_level, largest shortfall first.
+   */
+  async getForecast(days: number): Promise<InventoryForecast> {
+    const validation = validateForecastDays(days);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const from = new Date();
+    const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+    const dateFrom = from.toISOString().split('T')[0];
+    const dateTo = to.toISOString().split('T')[0];
+
+    const orders: Order[] = [];
+    for (const status of FORECAST_STATUSES) {
+      const result = await this.orderRepository.findAll({ status, start_date: dateFrom, end_date: dateTo, limit: 500 });
+      orders.push(...result.orders);
+    }
+
+    const reservations = await this.repository.findReservations({ status: 'reserved' });
+    const reservedOrderIds = new Set(reservations.map(reservation => reservation.order_id));
+    const requirements = await this.calculateRequirementsForOrders(
+      orders.filter(order => !reservedOrderIds.has(order.id!))
+    );
+
+    const shortfalls = new Map<number, InventoryShortfall>();
+    const getShortfall = async (inventoryItemId: number): Promise<InventoryShortfall | null> => {
+      if (!shortfalls.has(inventoryItemId)) {
+        const item = await this.inventoryRepository.findById(inventoryItemId);
+        if (!item) {
+          return null;
+        }
+        shortfalls.set(inventoryItemId, {
+          inventory_item_id: inventoryItemId,
+          item_name: item.item_name,
+          unit: item.unit,
+          current_stock: parseFloat(String(item.current_stock)),
+          reserved_stock: 0,
+          upcoming_demand: 0,
+          projected_stock: 0,
+          min_stock_level: parseFloat(String(item.min_stock_level)),
+          shortfall: 0,
+          orders: [],
+        });
+      }
+      return shortfalls.get(inventoryItemId)!;
+    };
+
+    const ordersById = new Map(orders.map(order => [order.id!, order]));
+    for (const reservation of reservations) {
+      const row = await getShortfall(reservation.inventory_item_id);
+      if (!row) {
+        continue;
+      }
+      row.reserved_stock += reservation.quantity;
+      const order = ordersById.get(reservation.order_id);
+      if (order) {
+        row.orders.push(this.forecastOrder(order, reservation.quantity, true));
+      }
+    }
+
+    for (const order of orders) {
+      for (const requirement of requirements.get(order.id!) || []) {
+        const row = await getShortfall(requirement.inventory_item_id);
+        if (!row) {
+          continue;
+        }
+        row.upcoming_demand += requirement.quantity;
+        row.orders.push(this.forecastOrder(order, requirement.quantity, false));
+      }
+    }
+
+    const items = Array.from(shortfalls.values())
+      .map(row => {
+        const projected = roundQuantity(row.current_stock - row.reserved_stock - row.upcoming_demand);
+        return {
+          ...row,
+          reserved_stock: roundQuantity(row.reserved_stock),
+          upcoming_demand: roundQuantity(row.upcoming_demand),
+          projected_stock: projected,
+          shortfall: roundQuantity(Math.max(row.min_stock_level - projected, 0)),
+          orders: row.orders.sort((a, b) => a.delivery_date.localeCompare(b.delivery_date) || a.order_id - b.order_id),
+        };
+      })
+      .filter(row => row.projected_stock < row.min_stock_level)
+      .sort((a, b) => b.shortfall - a.shortfall || a.item_name.localeCompare(b.item_name));
+
+    return { date_from: dateFrom, date_to: dateTo, items };
+  }
+
+  private async reserve(order: Order): Promise<void> {
+    const requirements = await this.calculateRequirements(order);
+    const reservations = await this.repository.replaceReservations(order.id!, requirements);
+    if (reservations.length > 0) {
+      Logger.info('Inventory reserved for order', { orderId: order.id, status: order.status, lineCount: reservations.length });
+    }
+  }
+
+  private async release(order: Order): Promise<void> {
+    const released = await this.repository.closeReservations(order.id!, 'released');
+    if (released.length > 0) {
+      Logger.info('Inventory reservation released', { orderId: order.id, status: order.status, lineCount: released.length });
+    }
+  }
+
+  // Deducts the reserved stock through the ledger; orders delivered without passing through confirmation reserve first
+  private async consume(order: Order, actorUserId?: number): Promise<void> {
+    const open = await this.repository.findReservations({ order_id: order.id!, status: 'reserved' });
+    if (open.length === 0) {
+      await this.reserve(order);
+    }
+
+    // Closed before deducting so a retried delivery can never deduct twice
+    const consumed = await this.repository.closeReservations(order.id!, 'consumed');
+    for (const reservation of consumed) {
+      await this.movementService.consumeStock(reservation.inventory_item_id, reservation.quantity, {
+        order_id: order.id,
+        notes: `Delivered order ${order.order_number}`,
+      }, actorUserId);
+    }
+
+    if (consumed.length > 0) {
+      Logger.info('Inventory consumed by delivered order', { orderId: order.id, lineCount: consumed.length });
+    }
+  }
+
+  private async calculateRequirementsForOrders(orders: Order[]): Promise<Map<number, InventoryRequirement[]>> {
+    const menuItemIds = Array.from(new Set(
+      orders.flatMap(order => (order.items || []).map(item => item.menu_item_id).filter((id): id is number => !!id))
+    ));
+    const recipeLines = await this.repository.findRecipeLines(menuItemIds);
+
+    const requirementsByOrder = new Map<number, InventoryRequirement[]>();
+    for (const order of orders) {
+      const totals = new Map<number, number>();
+      for (const item of order.items || []) {
+        if (!item.menu_item_id) {
+          continue;
+        }
+        const quantity = itemQuantity(item.portion_size);
+        recipeLines
+          .filter(line => line.menu_item_id === item.menu_item_id && line.portion_size === item.portion_size)
+          .forEach(line => {
+            totals.set(line.inventory_item_id, (totals.get(line.inventory_item_id) || 0) + line.quantity * quantity);
+          });
+      }
+      requirementsByOrder.set(
+        order.id!,
+        Array.from(totals.entries()).map(([inventoryItemId, quantity]) => ({
+          inventory_item_id: inventoryItemId,
+          quantity: roundQuantity(quantity),
+        }))
+      );
+    }
+    return requirementsByOrder;
+  }
+
+  // Fills in inventory item names and units the repository did not join
+  private async withItemDetails(lines: RecipeLine[]): Promise<RecipeLine[]> {
+    const items = new Map<number, InventoryItem | null>();
+    for (const line of lines) {
+      if (line.inventory_item_name !== undefined) {
+        continue;
+      }
+      if (!items.has(line.inventory_item_id)) {
+        items.set(line.inventory_item_id, await this.inventoryRepository.findById(line.inventory_item_id));
+      }
+      const item = items.get(line.inventory_item_id);
+      line.inventory_item_name = item?.item_name;
+      line.unit = item?.unit;
+    }
+    return lines;
+  }
+
+  private forecastOrder(order: Order, quantity: number, reserved: boolean): InventoryShortfall['orders'][number] {
+    return {
+      order_id: order.id!,
+      order_number: order.order_number,
+      delivery_date: order.delivery_date,
+      status: order.status,
+      quantity,
+      reserved,
+    };
+  }
+}
+
+let inventoryConsumptionServiceInstance: InventoryConsumptionService | null = null;
+
+export function getInventoryConsumptionService(): InventoryConsumptionService {
+  if (!inventoryConsumptionServiceInstance) {
+    inventoryConsumptionServiceInstance = new InventoryConsumptionService();
+  }
+  return inventoryConsumptionServiceInstance;
+}
@@ -0,0 +1,461 @@
+import {
+  InventoryItem,
+  InventoryLot,
+  InventoryMovement,
+  InventoryMovementType,
+  InventoryMovementSearchParams,
+  InventoryMovementListResponse,
+  StockUpdateDTO,
+  StockReceiptDTO,
+  StockWasteDTO,
+  StockTransferDTO,
+  ExpiringInventoryLot,
+  ExpiringInventoryReport,
+} from '../models/inventory';
+import { getInventoryMovementRepository, getInventoryRepository } from '../repositories';
+import {
+  isPerishable,
+  validateStockUpdate,
+  validateStockReceipt,
+  validateStockWaste,
+  validateStockTransfer,
+  validateMovementSearchParams,
+  validateExpiringDays,
+} from '../utils/inventory-validation';
+import { Logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Receipts from a purchase order carry the order and line they were received against
+export interface ReceiptDetails extends StockReceiptDTO {
+  purchase_order_id?: number;
+  purchase_order_line_id?: number;
+}
+
+export interface ConsumptionDetails {
+  order_id?: number;
+  notes?: string;
+}
+
+// A quantity taken from one lot
+interface LotPortion {
+  lot: InventoryLot;
+  quantity: number;
+}
+
+/**
+ * The stock ledger. Every change to an item's current_stock is recorded as an append-only
+ * movement with the acting user, and stock is held in lots so perishables can be tracked
+ * by lot number and expiry date and consumed first-expiring-first.
+ *
+ * Stock that predates lot tracking is put into an untracked lot (no lot number or expiry,
+ * at the item's location) the first time the item's lots are needed.
+ */
+export class InventoryMovementService {
+  private repository = getInventoryMovementRepository();
+  private inventoryRepository = getInventoryRepository();
+
+  async listMovements(params: InventoryMovementSearchParams): Promise<InventoryMovementListResponse> {
+    this.assertValid(validateMovementSearchParams(params));
+    return this.repository.findAll(params);
+  }
+
+  async listLots(inventoryItemId: number, includeEmpty: boolean = false): Promise<InventoryLot[] | null> {
+    const item = await this.inventoryRepository.findById(inventoryItemId);
+    if (!item) {
+      return null;
+    }
+    await this.reconcileLots(item);
+    return this.repository.findLots({ inventory_item_id: inventoryItemId, available_only: !includeEmpty });
+  }
+
+  // Records the stock a new item was created with
+  async recordOpeningStock(item: InventoryItem, createdBy?: number): Promise<void> {
+    const quantity = roundQuantity(parseFloat(String(item.current_stock)));
+    if (!(quantity > 0)) {
+      return;
+    }
+    const lot = await this.repository.createLot({
+      inventory_item_id: item.id!,
+      location: item.location || null,
+      quantity_received: quantity,
+      quantity_remaining: quantity,
+    });
+    await this.repository.create({
+      inventory_item_id: item.id!,
+      movement_type: 'adjustment',
+      quantity,
+      stock_after: quantity,
+      lot_id: lot.id,
+      location: lot.location,
+      notes: 'Opening stock',
+      created_by: createdBy ?? null,
+    });
+  }
+
+  /**
+   * Receive stock into a new lot. Perishable items (ingredients, beverages) must be
+   * received with an expiry date.
+   */
+  async receiveStock(inventoryItemId: number, receipt: ReceiptDetails, createdBy?: number): Promise<InventoryMovement[] | null> {
+    this.assertValid(validateStockReceipt(receipt));
+
+    const item = await this.inventoryRepository.findById(inventoryItemId);
+    if (!item) {
+      return null;
+    }
+    this.assertExpiryGiven(item, receipt.expiry_date);
+    await this.reconcileLots(item);
+
+    const stockAfter = roundQuantity(this.currentStock(item) + receipt.quantity);
+    await this.inventoryRepository.updateStock(item.id!, stockAfter);
+
+    const lot = await this.repository.createLot({
+      inventory_item_id: item.id!,
+      lot_number: receipt.lot_number?.trim() || null,
+      expiry_date: receipt.expiry_date || null,
+      location: receipt.location?.trim() || item.location || null,
+      quantity_received: receipt.quantity,
+      quantity_remaining: receipt.quantity,
+      purchase_order_line_id: receipt.purchase_order_line_id ?? null,
+    });
+    const movement = await this.repository.create({
+      inventory_item_id: item.id!,
+      movement_type: 'receipt',
+      quantity: receipt.quantity,
+      stock_after: stockAfter,
+      lot_id: lot.id,
+      lot_number: lot.lot_number,
+      expiry_date: lot.expiry_date,
+      location: lot.location,
+      purchase_order_id: receipt.purchase_order_id ?? null,
+      purchase_order_line_id: receipt.purchase_order_line_id ?? null,
+      notes: receipt.notes,
+      created_by: createdBy ?? null,
+    });
+
+    Logger.info('Inventory received', { inventoryItemId: item.id, quantity: receipt.quantity, lotId: lot.id, stockAfter, createdBy });
+    return [movement];
+  }
+
+  /**
+   * Deduct stock used by an order, first-expiring-first. Expired lots are only used once
+   * the unexpired ones run out. Stock never goes below zero; a shortfall is logged.
+   */
+  async consumeStock(inventoryItemId: number, quantity: number, details: ConsumptionDetails = {}, createdBy?: number): Promise<InventoryMovement[]> {
+    const item = await this.inventoryRepository.findById(inventoryItemId);
+    if (!item) {
+      return [];
+    }
+    const lots = await this.reconcileLots(item);
+    quantity = roundQuantity(quantity);
+
+    const today = toDateString(new Date());
+    const unexpired = lots.filter(lot => !lot.expiry_date || lot.expiry_date >= today);
+    const expired = lots.filter(lot => lot.expiry_date && lot.expiry_date < today);
+    const portions = this.takeFromLots([...unexpired, ...expired], quantity);
+
+    const taken = roundQuantity(portions.reduce((sum, portion) => sum + portion.quantity, 0));
+    if (taken < quantity) {
+      Logger.warn('Inventory consumption exceeds stock on hand', {
+        inventoryItemId: item.id,
+        orderId: details.order_id,
+        currentStock: this.currentStock(item),
+        quantity,
+      });
+    }
+    if (portions.some(portion => expired.includes(portion.lot))) {
+      Logger.warn('Expired inventory lot consumed', { inventoryItemId: item.id, orderId: details.order_id });
+    }
+
+    return this.recordPortions(item, 'consumption', portions, {
+      order_id: details.order_id ?? null,
+      notes: details.notes,
+      created_by: createdBy ?? null,
+    });
+  }
+
+  // Write off spoiled, expired or damaged stock, from a given lot or first-expiring-first
+  async recordWaste(inventoryItemId: number, waste: StockWasteDTO, createdBy?: number): Promise<InventoryMovement[] | null> {
+    this.assertValid(validateStockWaste(waste));
+
+    const item = await this.inventoryRepository.findById(inventoryItemId);
+    if (!item) {
+      return null;
+    }
+    let lots = await this.reconcileLots(item);
+    if (waste.lot_id) {
+      lots = lots.filter(lot => lot.id === waste.lot_id);
+      if (lots.length === 0) {
+        throw new Error(`Validation failed: lot ${waste.lot_id} has no stock of ${item.item_name}`);
+      }
+    }
+    this.assertAvailable(lots, waste.quantity, item, waste.lot_id ? `in lot ${waste.lot_id}` : 'in stock', 'write off');
+
+    const movements = await this.recordPortions(item, 'waste', this.takeFromLots(lots, waste.quantity), {
+      notes: waste.notes.trim(),
+      created_by: createdBy ?? null,
+    });
+    Logger.info('Inventory written off', { inventoryItemId: item.id, quantity: waste.quantity, createdBy });
+    return movements;
+  }
+
+  /**
+   * Set current_stock from a count. The difference is recorded as an adjustment: stock found
+   * goes into a new lot, missing stock is taken first-expiring-first.
+   */
+  async adjustStock(inventoryItemId: number, stockData: StockUpdateDTO, createdBy?: number): Promise<InventoryItem | null> {
+    this.assertValid(validateStockUpdate(stockData));
+
+    const item = await this.inventoryRepository.findById(inventoryItemId);
+    if (!item) {
+      return null;
+    }
+    const lots = await this.reconcileLots(item);
+    const difference = roundQuantity(stockData.current_stock - this.currentStock(item));
+
+    if (difference > 0) {
+      const stockAfter = roundQuantity(stockData.current_stock);
+      const lot = await this.repository.createLot({
+        inventory_item_id: item.id!,
+        lot_number: stockData.lot_number?.trim() || null,
+        expiry_date: stockData.expiry_date || null,
+        location: item.location || null,
+        quantity_received: difference,
+        quantity_remaining: difference,
+      });
+      await this.repository.create({
+        inventory_item_id: item.id!,
+        movement_type: 'adjustment',
+        quantity: difference,
+        stock_after: stockAfter,
+        lot_id: lot.id,
+        lot_number: lot.lot_number,
+        expiry_date: lot.expiry_date,
+        location: lot.location,
+        notes: stockData.notes,
+        created_by: createdBy ?? null,
+      });
+    } else if (difference < 0) {
+      await this.recordPortions(item, 'adjustment', this.takeFromLots(lots, -difference), {
+        notes: stockData.notes,
+        created_by: createdBy ?? null,
+      });
+    }
+
+    if (difference !== 0) {
+      Logger.info('Inventory stock adjusted', { inventoryItemId: item.id, difference, stockAfter: stockData.current_stock, createdBy });
+    }
+
+    // Also stamps last_updated and the count notes when nothing was missing or found
+    return this.inventoryRepository.updateStock(item.id!, roundQuantity(stockData.current_stock), stockData.notes);
+  }
+
+  /**
+   * Move stock between locations. The moved quantity becomes a new lot at the destination
+   * with the lot number, expiry and received date of the lot it came from.
+   */
+  async transferStock(inventoryItemId: number, transfer: StockTransferDTO, createdBy?: number): Promise<InventoryMovement[] | null> {
+    this.assertValid(validateStockTransfer(transfer));
+
+    const item = await this.inventoryRepository.findById(inventoryItemId);
+    if (!item) {
+      return null;
+    }
+    const fromLocation = transfer.from_location?.trim() || item.location || null;
+    const toLocation = transfer.to_location.trim();
+    if (fromLocation === toLocation) {
+      throw new Error('Validation failed: from_location and to_location must differ');
+    }
+
+    let lots = (await this.reconcileLots(item)).filter(lot => (lot.location || null) === fromLocation);
+    if (transfer.lot_id) {
+      lots = lots.filter(lot => lot.id === transfer.lot_id);
+    }
+    const source = transfer.lot_id ? `in lot ${transfer.lot_id} at ${fromLocation || 'no location'}` : `at ${fromLocation || 'no location'}`;
+    this.assertAvailable(lots, transfer.quantity, item, source, 'transfer');
+
+    const stockAfter = this.currentStock(item);
+    const movements: InventoryMovement[] = [];
+    for (const { lot, quantity } of this.takeFromLots(lots, transfer.quantity)) {
+      await this.repository.updateLotQuantity(lot.id!, roundQuantity(lot.quantity_remaining - quantity));
+      await this.repository.createLot({
+        inventory_item_id: item.id!,
+        lot_number: lot.lot_number,
+        expiry_date: lot.expiry_date,
+        location: toLocation,
+        quantity_received: quantity,
+        quantity_remaining: quantity,
+        purchase_order_line_id: lot.purchase_order_line_id,
+        received_at: lot.received_at,
+      });
+      movements.push(await this.repository.create({
+        inventory_item_id: item.id!,
+        movement_type: 'transfer',
+        quantity,
+        stock_after: stockAfter,
+        lot_id: lot.id,
+        lot_number: lot.lot_number,
+        expiry_date: lot.expiry_date,
+        location: fromLocation,
+        to_location: toLocation,
+        notes: transfer.notes,
+        created_by: createdBy ?? null,
+      }));
+    }
+
+    Logger.info('Inventory transferred', { inventoryItemId: item.id, quantity: transfer.quantity, fromLocation, toLocation, createdBy });
+    return movements;
+  }
+
+  // Lots with stock left that expire within `days` days, including those already expired
+  async getExpiringLots(days: number): Promise<ExpiringInventoryReport> {
+    this.assertValid(validateExpiringDays(days));
+
+    const today = toDateString(new Date());
+    const expiringBy = toDateString(new Date(new Date(`${today}T00:00:00Z`).getTime() + days * DAY_MS));
+    const lots = await this.repository.findLots({ available_only: true, expiring_by: expiringBy });
+
+    const items = new Map<number, InventoryItem | null>();
+    const expiring: ExpiringInventoryLot[] = [];
+    for (const lot of lots) {
+      if (!items.has(lot.inventory_item_id)) {
+        items.set(lot.inventory_item_id, await this.inventoryRepository.findById(lot.inventory_item_id));
+      }
+      const item = items.get(lot.inventory_item_id);
+      if (!item) {
+        continue;
+      }
+      const daysUntilExpiry = Math.round(
+        (new Date(`${lot.expiry_date}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime()) / DAY_MS
+      );
+      expiring.push({
+        ...lot,
+        item_name: item.item_name,
+        category: item.category,
+        unit: item.unit,
+        days_until_expiry: daysUntilExpiry,
+        expired: daysUntilExpiry < 0,
+      });
+    }
+
+    return {
+      days,
+      expiring_by: expiringBy,
+      lots: expiring,
+      expired_count: expiring.filter(lot => lot.expired).length,
+    };
+  }
+
+  assertExpiryGiven(item: InventoryItem, expiryDate?: string | null): void {
+    if (isPerishable(item) && !expiryDate) {
+      throw new Error(`Validation failed: expiry_date is required when receiving ${item.category} (${item.item_name})`);
+    }
+  }
+
+  /**
+   * The item's lots with stock left, first-expiring-first. Stock not covered by any lot
+   * is put into an untracked lot first.
+   */
+  private async reconcileLots(item: InventoryItem): Promise<InventoryLot[]> {
+    const lots = await this.repository.findLots({ inventory_item_id: item.id!, available_only: true });
+    const tracked = lots.reduce((sum, lot) => sum + lot.quantity_remaining, 0);
+    const untracked = roundQuantity(this.currentStock(item) - tracked);
+
+    if (untracked < 0) {
+      Logger.warn('Inventory lots exceed current stock', { inventoryItemId: item.id, currentStock: this.currentStock(item), tracked });
+      return lots;
+    }
+    if (untracked === 0) {
+      return lots;
+    }
+
+    await this.repository.createLot({
+      inventory_item_id: item.id!,
+      location: item.location || null,
+      quantity_received: untracked,
+      quantity_remaining: untracked,
+      received_at: item.created_at,
+    });
+    return this.repository.findLots({ inventory_item_id: item.id!, available_only: true });
+  }
+
+  // Splits a quantity over lots in the order given; less is returned when the lots run out
+  private takeFromLots(lots: InventoryLot[], quantity: number): LotPortion[] {
+    const portions: LotPortion[] = [];
+    let remaining = quantity;
+    for (const lot of lots) {
+      if (remaining <= 0) {
+        break;
+      }
+      const taken = roundQuantity(Math.min(lot.quantity_remaining, remaining));
+      if (taken > 0) {
+        portions.push({ lot, quantity: taken });
+        remaining = roundQuantity(remaining - taken);
+      }
+    }
+    return portions;
+  }
+
+  // Deducts each portion from its lot and current_stock, one movement per lot
+  private async recordPortions(
+    item: InventoryItem,
+    movementType: InventoryMovementType,
+    portions: LotPortion[],
+    details: Pick<InventoryMovement, 'order_id' | 'notes' | 'created_by'>
+  ): Promise<InventoryMovement[]> {
+    let stock = this.currentStock(item);
+    const movements: InventoryMovement[] = [];
+    for (const { lot, quantity } of portions) {
+      stock = roundQuantity(Math.max(stock - quantity, 0));
+      await this.repository.updateLotQuantity(lot.id!, roundQuantity(lot.quantity_remaining - quantity));
+      await this.inventoryRepository.updateStock(item.id!, stock);
+      movements.push(await this.repository.create({
+        inventory_item_id: item.id!,
+        movement_type: movementType,
+        quantity: -quantity,
+        stock_after: stock,
+        lot_id: lot.id,
+        lot_number: lot.lot_number,
+        expiry_date: lot.expiry_date,
+        location: lot.location,
+        ...details,
+      }));
+    }
+    return movements;
+  }
+
+  private assertAvailable(lots: InventoryLot[], quantity: number, item: InventoryItem, source: string, action: string): void {
+    const available = roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity_remaining, 0));
+    if (quantity > available) {
+      throw new Error(`Validation failed: only ${available} ${item.unit} of ${item.item_name} ${source}, cannot ${action} ${quantity}`);
+    }
+  }
+
+  private currentStock(item: InventoryItem): number {
+    return parseFloat(String(item.current_stock));
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
+
+let inventoryMovementServiceInstance: InventoryMovementService | null = null;
+
+export function getInventoryMovementService(): InventoryMovementService {
+  if (!inventoryMovementServiceInstance) {
+    inventoryMovementServiceInstance = new InventoryMovementService();
+  }
+  return inventoryMovementServiceInstance;
+}
@@ -1,12 +1,22 @@
-import { InventoryItem, CreateInventoryItemDTO, UpdateInventoryItemDTO, InventorySearchParams, InventoryListResponse, StockUpdateDTO } from '../models/inventory';
-import { getInventoryRepository } from '../repositories';
+import {
+  InventoryItem,
+  CreateInventoryItemDTO,
+  UpdateInventoryItemDTO,
+  InventorySearchParams,
+  InventoryListResponse,
+  StockUpdateDTO,
+} from '../models/inventory';
+import { getInventoryRepository, getSupplierRepository } from '../repositories';
 import { validateInventoryItem, normalizeInventoryItemData } from '../utils/inventory-validation';
+import { getInventoryMovementService } from './inventory-movement.service';
 import { Logger } from '../utils/logger';
 
 export class InventoryService {
   private repository = getInventoryRepository();
+  private supplierRepository = getSupplierRepository();
+  private movementService = getInventoryMovementService();
 
-  async createInventoryItem(data: CreateInventoryItemDTO): Promise<InventoryItem> {
+  async createInventoryItem(data: CreateInventoryItemDTO, createdBy?: number): Promise<InventoryItem> {
     const normalized = normalizeInventoryItemData(data);
     const validation = validateInventoryItem(normalized);
     
@@ -14,7 +24,11 @@ export class InventoryService {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
     }
 
-    return this.repository.create(normalized);
+    await this.applySupplier(normalized);
+
+    const inventoryItem = await this.repository.create(normalized);
+    await this.movementService.recordOpeningStock(inventoryItem, createdBy);
+    return inventoryItem;
   }
 
   async getInventoryItemById(id: number): Promise<InventoryItem | null> {
@@ -25,7 +39,7 @@ export class InventoryService {
     return this.repository.findAll(params);
   }
 
-  async updateInventoryItem(id: number, data: UpdateInventoryItemDTO): Promise<InventoryItem | null> {
+  async updateInventoryItem(id: number, data: UpdateInventoryItemDTO, updatedBy?: number): Promise<InventoryItem | null> {
     const normalized = normalizeInventoryItemData(data);
     
     if (Object.keys(normalized).length > 0) {
@@ -35,15 +49,20 @@ export class InventoryService {
       }
     }
 
-    return this.repository.update(id, normalized);
-  }
+    await this.applySupplier(normalized);
 
-  async updateStock(id: number, stockData: StockUpdateDTO): Promise<InventoryItem | null> {
-    if (stockData.current_stock < 0) {
-      throw new Error('current_stock must be a non-negative number');
+    // Stock changes go through the ledger as an adjustment
+    const { current_stock: currentStock, ...itemData } = normalized;
+    const inventoryItem = await this.repository.update(id, itemData);
+    if (inventoryItem && currentStock !== undefined) {
+      return this.movementService.adjustStock(id, { current_stock: currentStock }, updatedBy);
     }
+    return inventoryItem;
+  }
 
-    return this.repository.updateStock(id, stockData.current_stock, stockData.notes);
+  // A stock count, recorded in the ledger as an adjustment by the difference
+  async updateStock(id: number, stockData: StockUpdateDTO, updatedBy?: number): Promise<InventoryItem | null> {
+    return this.movementService.adjustStock(id, stockData, updatedBy);
   }
 
   async deleteInventoryItem(id: number): Promise<boolean> {
@@ -57,4 +76,18 @@ export class InventoryService {
   async getLowStockItems(status?: 'low_stock' | 'out_of_stock'): Promise<InventoryItem[]> {
     return this.repository.findLowStock(status);
   }
+
+  // A linked supplier must exist; its name fills the free-text supplier when none is given
+  private async applySupplier(data: CreateInventoryItemDTO | UpdateInventoryItemDTO): Promise<void> {
+    if (!data.supplier_id) {
+      return;
+    }
+    const supplier = await this.supplierRepository.findById(data.supplier_id);
+    if (!supplier) {
+      throw new Error(`Supplier not found: ${data.supplier_id}`);
+    }
+    if (!data.supplier) {
+      data.supplier = supplier.supplier_name;
+    }
+  }
 }
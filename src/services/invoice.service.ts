@@ -4,7 +4,9 @@ import { getInvoiceRepository, getOrderRepository, getClientRepository } from '.
 import { Invoice, CreateInvoiceDTO, InvoiceLineItem } from '../models/invoice';
 import { Order } from '../models/order';
 import { Logger } from '../utils/logger';
+import { DEFAULT_CURRENCY, toMinorUnits } from '../utils/currency';
 import { getEmailService } from './email.service';
+import { getOrderEventService } from './order-event.service';
 
 export interface CreateInvoiceOptions {
   delivery_method: 'EMAIL' | 'SHARE_MANUALLY';
@@ -24,6 +26,7 @@ export class InvoiceService {
   private invoiceRepository = getInvoiceRepository();
   private orderRepository = getOrderRepository();
   private clientRepository = getClientRepository();
+  private orderEventService = getOrderEventService();
   private squareClient: SquareClient;
   private locationId: string;
 
@@ -351,7 +354,7 @@ export class InvoiceService {
 
   /**
    * Convert order to invoice line items
-   * Includes all order items and fees
+   * Includes all order items, add-ons and fees
    */
   private convertOrderToLineItems(order: Order): InvoiceLineItem[] {
     const lineItems: InvoiceLineItem[] = [];
@@ -368,6 +371,18 @@ export class InvoiceService {
       });
     }
 
+    // Add add-on lines at their snapshot price
+    if (order.addons && order.addons.length > 0) {
+      order.addons.forEach((addon) => {
+        lineItems.push({
+          name: addon.name,
+          quantity: String(addon.quantity),
+          unit_price: Number(addon.price),
+          description: addon.description || undefined,
+        });
+      });
+    }
+
     // Add fees as separate line items
     if (order.service_charge > 0) {
       lineItems.push({
@@ -433,9 +448,230 @@ export class InvoiceService {
       });
     }
 
+    // Add applied taxes/charges as one line per charge so the invoice matches the order total
+    if (order.tax_breakdown && order.tax_breakdown.length > 0) {
+      const taxTotals = new Map<string, { name: string; amount: number }>();
+      order.tax_breakdown.forEach((line) => {
+        const key = line.source === 'tax_charge' ? `charge:${line.tax_charge_id}` : `${line.source}:${line.rate}`;
+        const name = line.is_percentage ? `${line.name} (${line.rate}%)` : line.name;
+        const entry = taxTotals.get(key) || { name, amount: 0 };
+        entry.amount += Number(line.amount) || 0;
+        taxTotals.set(key, entry);
+      });
+
+      taxTotals.forEach((entry) => {
+        if (entry.amount > 0) {
+          lineItems.push({
+            name: entry.name,
+            quantity: '1',
+            unit_price: Math.round(entry.amount * 100) / 100,
+          });
+        }
+      });
+    }
+
     return lineItems;
   }
 
+  /**
+   * Order delivery date as the YYYY-MM-DD sale/service date Square expects
+   */
+  private getSaleOrServiceDate(order: Order): string {
+    // Ensure delivery_date is in YYYY-MM-DD format string
+    // Convert to string if it's a Date object or ensure it's in the correct format
+    let saleOrServiceDate: string;
+    const deliveryDate = order.delivery_date as any; // Type assertion to handle runtime type
+    
+    if (deliveryDate instanceof Date) {
+      saleOrServiceDate = deliveryDate.toISOString().split('T')[0];
+    } else if (typeof deliveryDate === 'string') {
+      // If it's already a string, validate it's in YYYY-MM-DD format
+      // If it contains time or other format, extract just the date part
+      if (deliveryDate.includes('T')) {
+        saleOrServiceDate = deliveryDate.split('T')[0];
+      } else if (deliveryDate.match(/^\d{4}-\d{2}-\d{2}$/)) {
+        saleOrServiceDate = deliveryDate;
+      } else {
+        // Try to parse and reformat
+        const date = new Date(deliveryDate);
+        if (!isNaN(date.getTime())) {
+          saleOrServiceDate = date.toISOString().split('T')[0];
+        } else {
+          saleOrServiceDate = new Date().toISOString().split('T')[0];
+          Logger.warn('Invalid delivery_date format, using today\'s date', {
+            orderId: order.id,
+            delivery_date: deliveryDate,
+          });
+        }
+      }
+    } else {
+      // Fallback: try to parse and format
+      const date = new Date(deliveryDate);
+      if (!isNaN(date.getTime())) {
+        saleOrServiceDate = date.toISOString().split('T')[0];
+      } else {
+        // Last resort: use today's date
+        saleOrServiceDate = new Date().toISOString().split('T')[0];
+        Logger.warn('Invalid delivery_date, using today\'s date', {
+          orderId: order.id,
+          delivery_date: deliveryDate,
+        });
+      }
+    }
+
+    return saleOrServiceDate;
+  }
+
+  /**
+   * Create the Square Order backing an invoice, then the (draft) Square invoice itself
+   */
+  private async submitSquareInvoice(params: {
+    squareOrderReferenceId: string;
+    referenceId: string;
+    invoiceNumber: string;
+    title: string;
+    description: string;
+    customerId: string;
+    deliveryMethod: 'EMAIL' | 'SHARE_MANUALLY';
+    allowBankAccount: boolean;
+    saleOrServiceDate: string;
+    currency: string;
+    lineItems: InvoiceLineItem[];
+    logContext: Record<string, any>;
+  }): Promise<{ squareInvoice?: any; error?: string }> {
+    // Square requires an order_id for invoices, so we need to create a Square Order first
+    // Create a Square Order with the line items
+    Logger.info('Creating Square Order for invoice', {
+      ...params.logContext,
+      lineItemsCount: params.lineItems.length,
+    });
+
+    const squareOrderRequest: any = {
+      locationId: this.locationId,
+      referenceId: params.squareOrderReferenceId,
+      lineItems: params.lineItems.map((item) => ({
+        name: item.name,
+        quantity: item.quantity,
+        note: item.description,
+        basePriceMoney: {
+          amount: toMinorUnits(item.unit_price, params.currency),
+          currency: params.currency,
+        },
+      })),
+    };
+
+    let squareOrderId: string;
+    try {
+      const ordersApi = this.squareClient.orders;
+      // Square Orders API uses create() method like other APIs (payments, customers, invoices)
+      const squareOrderResponse: any = await ordersApi.create({
+        order: squareOrderRequest,
+        idempotencyKey: uuidv4(),
+      } as any);
+
+      // Extract Square Order ID from response
+      const squareOrder = squareOrderResponse.order 
+        || squareOrderResponse.body?.order 
+        || squareOrderResponse.result?.order;
+
+      if (!squareOrder?.id) {
+        Logger.error('Failed to create Square Order - no ID returned', {
+          response: this.safeSerialize(squareOrderResponse),
+          ...params.logContext,
+        });
+        return {
+          error: 'Failed to create Square Order for invoice',
+        };
+      }
+
+      squareOrderId = squareOrder.id;
+      Logger.info('Square Order created successfully', {
+        squareOrderId,
+        ...params.logContext,
+      });
+    } catch (orderError: any) {
+      Logger.error('Failed to create Square Order', {
+        errorMessage: orderError.message,
+        errorStack: orderError.stack,
+        errorResponse: this.safeSerialize(orderError.response),
+        errorBody: this.safeSerialize(orderError.body),
+        errorResult: this.safeSerialize(orderError.result),
+        ...params.logContext,
+      });
+      return {
+        error: `Failed to create Square Order: ${orderError.message || 'Unknown error'}`,
+      };
+    }
+
+    // Create Square invoice request
+    const invoiceRequest: any = {
+      locationId: this.locationId,
+      orderId: squareOrderId, // Use the Square Order ID we just created
+      primaryRecipient: {
+        customerId: params.customerId, // customerId is required by Square API
+      },
+      paymentRequests: [
+        {
+          requestType: 'BALANCE',
+          dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now
+          tippingEnabled: false,
+        },
+      ],
+      deliveryMethod: params.deliveryMethod,
+      invoiceNumber: params.invoiceNumber,
+      title: params.title,
+      description: params.description,
+      // scheduledAt must be in the future - set to 1 minute from now to ensure it's in the future
+      scheduledAt: new Date(Date.now() + 60 * 1000).toISOString(),
+      acceptedPaymentMethods: {
+        card: true,
+        squareGiftCard: false,
+        bankAccount: params.deliveryMethod === 'EMAIL' ? params.allowBankAccount : false,
+        buyNowPayLater: false,
+      },
+      saleOrServiceDate: params.saleOrServiceDate, // YYYY-MM-DD format string
+      referenceId: params.referenceId,
+    };
+
+    // Add line items
+    invoiceRequest.invoiceLineItems = params.lineItems.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      note: item.description,
+      unitPrice: {
+        amount: toMinorUnits(item.unit_price, params.currency),
+        currency: params.currency,
+      },
+    }));
+
+    // Create invoice via Square API
+    const invoicesApi = this.squareClient.invoices;
+    const response: any = await invoicesApi.create({
+      invoice: invoiceRequest,
+      idempotencyKey: uuidv4(),
+    } as any);
+
+    Logger.info('Square invoice creation response', {
+      hasBody: !!response.body,
+      hasResult: !!response.result,
+      hasInvoice: !!response.invoice,
+      status: response.statusCode || response.status,
+    });
+
+    const squareInvoice = response.invoice || response.body?.invoice || response.result?.invoice;
+
+    if (!squareInvoice) {
+      Logger.error('Failed to create Square invoice', {
+        response: JSON.stringify(response),
+      });
+      return {
+        error: 'Failed to create invoice in Square',
+      };
+    }
+
+    return { squareInvoice };
+  }
+
   /**
    * Create a Square invoice from an order
    */
@@ -623,216 +859,286 @@ export class InvoiceService {
       // Convert order to line items
       const lineItems = this.convertOrderToLineItems(order);
 
-      // Ensure delivery_date is in YYYY-MM-DD format string
-      // Convert to string if it's a Date object or ensure it's in the correct format
-      let saleOrServiceDate: string;
-      const deliveryDate = order.delivery_date as any; // Type assertion to handle runtime type
-      
-      if (deliveryDate instanceof Date) {
-        saleOrServiceDate = deliveryDate.toISOString().split('T')[0];
-      } else if (typeof deliveryDate === 'string') {
-        // If it's already a string, validate it's in YYYY-MM-DD format
-        // If it contains time or other format, extract just the date part
-        if (deliveryDate.includes('T')) {
-          saleOrServiceDate = deliveryDate.split('T')[0];
-        } else if (deliveryDate.match(/^\d{4}-\d{2}-\d{2}$/)) {
-          saleOrServiceDate = deliveryDate;
-        } else {
-          // Try to parse and reformat
-          const date = new Date(deliveryDate);
-          if (!isNaN(date.getTime())) {
-            saleOrServiceDate = date.toISOString().split('T')[0];
-          } else {
-            saleOrServiceDate = new Date().toISOString().split('T')[0];
-            Logger.warn('Invalid delivery_date format, using today\'s date', {
-              orderId,
-              delivery_date: deliveryDate,
-            });
-          }
-        }
-      } else {
-        // Fallback: try to parse and format
-        const date = new Date(deliveryDate);
-        if (!isNaN(date.getTime())) {
-          saleOrServiceDate = date.toISOString().split('T')[0];
-        } else {
-          // Last resort: use today's date
-          saleOrServiceDate = new Date().toISOString().split('T')[0];
-          Logger.warn('Invalid delivery_date, using today\'s date', {
-            orderId,
-            delivery_date: deliveryDate,
-          });
-        }
+      const saleOrServiceDate = this.getSaleOrServiceDate(order);
+
+      const submitResult = await this.submitSquareInvoice({
+        squareOrderReferenceId: `INV-${orderId}`, // Reference to our internal order
+        referenceId: orderId.toString(), // Use referenceId field for webhook matching
+        invoiceNumber, // Use unique invoice number (may have suffix if resending)
+        title: `Invoice for Order ${order.order_number}`,
+        description: `Invoice for order ${order.order_number}${order.description ? ` - ${order.description}` : ''}`,
+        customerId,
+        deliveryMethod: options.delivery_method,
+        allowBankAccount: order.payment_method === 'ACH',
+        saleOrServiceDate,
+        currency: order.currency || DEFAULT_CURRENCY,
+        lineItems,
+        logContext: { orderId },
+      });
+
+      if (!submitResult.squareInvoice) {
+        return {
+          success: false,
+          error: submitResult.error,
+        };
       }
+      const squareInvoice = submitResult.squareInvoice;
 
-      // Square requires an order_id for invoices, so we need to create a Square Order first
-      // Create a Square Order with the line items
-      Logger.info('Creating Square Order for invoice', {
-        orderId,
-        lineItemsCount: lineItems.length,
+      // Store invoice in database
+      const invoiceData: CreateInvoiceDTO = {
+        order_id: orderId,
+        square_invoice_id: squareInvoice.id || '',
+        public_url: squareInvoice.publicUrl || undefined,
+        reference_id: orderId.toString(), // Store order_id as reference_id for webhook matching
+        status: 'pending',
+        amount: order.total,
+        currency: order.currency || DEFAULT_CURRENCY,
+        delivery_method: options.delivery_method,
+        recipient_email: recipientEmail,
+        created_by: createdBy,
+      };
+
+      const invoice = await this.invoiceRepository.create(invoiceData);
+
+      await this.orderEventService.record({
+        order_id: orderId,
+        event_type: 'invoice_created',
+        actor_user_id: createdBy,
+        after: {
+          invoice_id: invoice.id,
+          square_invoice_id: invoice.square_invoice_id,
+          amount: invoice.amount,
+          currency: invoice.currency,
+          delivery_method: invoice.delivery_method,
+          recipient_email: invoice.recipient_email || null,
+        },
       });
 
-      const squareOrderRequest: any = {
-        locationId: this.locationId,
-        referenceId: `INV-${orderId}`, // Reference to our internal order
-        lineItems: lineItems.map((item) => ({
-          name: item.name,
-          quantity: item.quantity,
-          note: item.description,
-          basePriceMoney: {
-            amount: BigInt(Math.round(item.unit_price * 100)),
-            currency: 'USD',
-          },
-        })),
+      // Return the invoice version so it can be used for publishing
+      const invoiceVersion = squareInvoice.version || 0;
+
+      return {
+        success: true,
+        invoice,
+        public_url: squareInvoice.publicUrl || undefined,
+        invoiceVersion: invoiceVersion, // Include version for publishing
       };
+    } catch (error: any) {
+      Logger.error('Failed to create invoice', error, {
+        orderId,
+        options,
+      });
+      return {
+        success: false,
+        error: error.message || 'Failed to create invoice',
+      };
+    }
+  }
 
-      let squareOrderId: string;
-      try {
-        const ordersApi = this.squareClient.orders;
-        // Square Orders API uses create() method like other APIs (payments, customers, invoices)
-        const squareOrderResponse: any = await ordersApi.create({
-          order: squareOrderRequest,
-          idempotencyKey: uuidv4(),
-        } as any);
-
-        // Extract Square Order ID from response
-        const squareOrder = squareOrderResponse.order 
-          || squareOrderResponse.body?.order 
-          || squareOrderResponse.result?.order;
-
-        if (!squareOrder?.id) {
-          Logger.error('Failed to create Square Order - no ID returned', {
-            response: this.safeSerialize(squareOrderResponse),
-            orderId,
-          });
+  /**
+   * Create a single Square invoice covering several orders of the same client.
+   * Line items are grouped by order number; paying the invoice marks every linked order paid.
+   */
+  async createConsolidatedInvoice(
+    orderIds: number[],
+    options: CreateInvoiceOptions,
+    createdBy: number
+  ): Promise<CreateInvoiceResponse> {
+    try {
+      const uniqueOrderIds = Array.from(new Set(orderIds));
+      if (uniqueOrderIds.length < 2) {
+        return {
+          success: false,
+          error: 'Validation failed: at least two different orders are required for a consolidated invoice',
+        };
+      }
+
+      const orders: Order[] = [];
+      for (const orderId of uniqueOrderIds) {
+        const order = await this.orderRepository.findById(orderId);
+        if (!order) {
           return {
             success: false,
-            error: 'Failed to create Square Order for invoice',
+            error: `Order not found: ${orderId}`,
           };
         }
+        orders.push(order);
+      }
 
-        squareOrderId = squareOrder.id;
-        Logger.info('Square Order created successfully', {
-          squareOrderId,
-          orderId,
-        });
-      } catch (orderError: any) {
-        Logger.error('Failed to create Square Order', {
-          errorMessage: orderError.message,
-          errorStack: orderError.stack,
-          errorResponse: this.safeSerialize(orderError.response),
-          errorBody: this.safeSerialize(orderError.body),
-          errorResult: this.safeSerialize(orderError.result),
-          orderId,
-        });
+      const errors: string[] = [];
+      const clientIds = new Set(orders.map(order => order.client_id || order.client?.id));
+      if (clientIds.has(undefined) || clientIds.size > 1) {
+        errors.push('all orders must belong to the same client');
+      }
+      if (new Set(orders.map(order => order.currency || DEFAULT_CURRENCY)).size > 1) {
+        errors.push('all orders must be in the same currency');
+      }
+      for (const order of orders) {
+        if (order.status === 'cancelled') {
+          errors.push(`order ${order.order_number} is cancelled`);
+        }
+        if (order.is_paid) {
+          errors.push(`order ${order.order_number} is already paid`);
+        }
+        const existingInvoices = await this.invoiceRepository.findByOrderId(order.id!);
+        if (existingInvoices.some(inv => inv.status === 'pending')) {
+          errors.push(`order ${order.order_number} already has a pending invoice`);
+        }
+      }
+      if (errors.length > 0) {
         return {
           success: false,
-          error: `Failed to create Square Order: ${orderError.message || 'Unknown error'}`,
+          error: `Validation failed: ${errors.join(', ')}`,
         };
       }
 
-      // Create Square invoice request
-      const invoiceRequest: any = {
-        locationId: this.locationId,
-        orderId: squareOrderId, // Use the Square Order ID we just created
-        primaryRecipient: {
-          customerId: customerId, // customerId is required by Square API
-        },
-        paymentRequests: [
-          {
-            requestType: 'BALANCE',
-            dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now
-            tippingEnabled: false,
-          },
-        ],
-        deliveryMethod: options.delivery_method,
-        invoiceNumber: invoiceNumber, // Use unique invoice number (may have suffix if resending)
-        title: `Invoice for Order ${order.order_number}`,
-        description: `Invoice for order ${order.order_number}${order.description ? ` - ${order.description}` : ''}`,
-        // scheduledAt must be in the future - set to 1 minute from now to ensure it's in the future
-        scheduledAt: new Date(Date.now() + 60 * 1000).toISOString(),
-        acceptedPaymentMethods: {
-          card: true,
-          squareGiftCard: false,
-          bankAccount: options.delivery_method === 'EMAIL' ? (order.payment_method === 'ACH') : false,
-          buyNowPayLater: false,
-        },
-        saleOrServiceDate: saleOrServiceDate, // YYYY-MM-DD format string
-        referenceId: orderId.toString(), // Use referenceId field for webhook matching
-      };
+      // The first order acts as the primary order: it is stored as the invoice's order_id
+      // and reference_id so the payment webhook can locate the invoice as it does for single orders
+      const primaryOrder = orders[0];
+      const client = primaryOrder.client;
+      const orderNumbers = orders.map(order => order.order_number);
 
-      // Add line items
-      invoiceRequest.invoiceLineItems = lineItems.map((item) => ({
-        name: item.name,
-        quantity: item.quantity,
-        note: item.description,
-        unitPrice: {
-          amount: BigInt(Math.round(item.unit_price * 100)),
-          currency: 'USD',
-        },
-      }));
+      const recipientEmail = options.recipient_email || client?.email;
+      if (!recipientEmail && options.delivery_method === 'EMAIL') {
+        return {
+          success: false,
+          error: 'Recipient email is required for EMAIL delivery method',
+        };
+      }
 
-      // referenceId is already set above for webhook matching
+      if (!recipientEmail && !client?.contact_number) {
+        return {
+          success: false,
+          error: 'Cannot create invoice: recipient email or contact number is required to create Square customer. Please add an email or phone number to the client record.',
+        };
+      }
 
-      // Create invoice via Square API
-      const invoicesApi = this.squareClient.invoices;
-      const response: any = await invoicesApi.create({
-        invoice: invoiceRequest,
-        idempotencyKey: uuidv4(),
-      } as any);
+      if (!this.squareClient) {
+        Logger.error('Square client not initialized in InvoiceService', {
+          orderIds: uniqueOrderIds,
+          hasAccessToken: !!process.env.SQUARE_ACCESS_TOKEN,
+          environment: process.env.SQUARE_ENVIRONMENT,
+        });
+        return {
+          success: false,
+          error: 'Square payment service is not properly configured. Please check SQUARE_ACCESS_TOKEN environment variable.',
+        };
+      }
 
-      Logger.info('Square invoice creation response', {
-        hasBody: !!response.body,
-        hasResult: !!response.result,
-        hasInvoice: !!response.invoice,
-        status: response.statusCode || response.status,
-      });
+      const customerId = await this.findOrCreateSquareCustomer(
+        client?.id,
+        recipientEmail || undefined,
+        client?.full_name || client?.company_name || primaryOrder.client_name || undefined,
+        client?.contact_number || undefined
+      );
 
-      const squareInvoice = response.invoice || response.body?.invoice || response.result?.invoice;
+      if (!customerId) {
+        Logger.error('Failed to find or create Square customer for consolidated invoice', {
+          orderIds: uniqueOrderIds,
+          clientId: client?.id,
+          recipientEmail: recipientEmail || 'none',
+        });
+        return {
+          success: false,
+          error: 'Failed to find or create Square customer for invoice recipient. Please check server logs for detailed error information.',
+        };
+      }
 
-      if (!squareInvoice) {
-        Logger.error('Failed to create Square invoice', {
-          response: JSON.stringify(response),
+      // Group line items by order number
+      const lineItems: InvoiceLineItem[] = [];
+      orders.forEach((order) => {
+        this.convertOrderToLineItems(order).forEach((item) => {
+          lineItems.push({
+            ...item,
+            name: `${order.order_number} - ${item.name}`,
+          });
         });
+      });
+
+      // Square requires invoice numbers to be unique per location, and the same primary order
+      // can head several consolidated invoices (e.g. after one is cancelled), so add a random suffix
+      const invoiceNumber = `CONS-${primaryOrder.order_number}-${uuidv4().slice(0, 8).toUpperCase()}`;
+      const amount = Math.round(orders.reduce((sum, order) => sum + Number(order.total || 0), 0) * 100) / 100;
+
+      const submitResult = await this.submitSquareInvoice({
+        squareOrderReferenceId: `INV-${primaryOrder.id}-CONS`,
+        referenceId: primaryOrder.id!.toString(),
+        invoiceNumber,
+        title: `Invoice for Orders ${orderNumbers.join(', ')}`,
+        description: `Consolidated invoice for orders ${orderNumbers.join(', ')}`,
+        customerId,
+        deliveryMethod: options.delivery_method,
+        allowBankAccount: orders.every(order => order.payment_method === 'ACH'),
+        saleOrServiceDate: this.getSaleOrServiceDate(primaryOrder),
+        currency: primaryOrder.currency || DEFAULT_CURRENCY,
+        lineItems,
+        logContext: { orderIds: uniqueOrderIds },
+      });
+
+      if (!submitResult.squareInvoice) {
         return {
           success: false,
-          error: 'Failed to create invoice in Square',
+          error: submitResult.error,
         };
       }
+      const squareInvoice = submitResult.squareInvoice;
 
-      // Store invoice in database
-      const invoiceData: CreateInvoiceDTO = {
-        order_id: orderId,
+      const invoice = await this.invoiceRepository.create({
+        order_id: primaryOrder.id!,
         square_invoice_id: squareInvoice.id || '',
         public_url: squareInvoice.publicUrl || undefined,
-        reference_id: orderId.toString(), // Store order_id as reference_id for webhook matching
+        reference_id: primaryOrder.id!.toString(),
         status: 'pending',
-        amount: order.total,
-        currency: 'USD',
+        amount,
+        currency: primaryOrder.currency || DEFAULT_CURRENCY,
         delivery_method: options.delivery_method,
         recipient_email: recipientEmail,
         created_by: createdBy,
-      };
+        is_consolidated: true,
+      });
 
-      const invoice = await this.invoiceRepository.create(invoiceData);
+      await this.invoiceRepository.addLinkedOrders(
+        orders.map(order => ({ invoice_id: invoice.id!, order_id: order.id!, amount: Number(order.total || 0) }))
+      );
 
-      // Return the invoice version so it can be used for publishing
-      const invoiceVersion = squareInvoice.version || 0;
+      for (const order of orders) {
+        await this.orderEventService.record({
+          order_id: order.id!,
+          event_type: 'invoice_created',
+          actor_user_id: createdBy,
+          after: {
+            invoice_id: invoice.id,
+            square_invoice_id: invoice.square_invoice_id,
+            amount: invoice.amount,
+            currency: invoice.currency,
+            delivery_method: invoice.delivery_method,
+            recipient_email: invoice.recipient_email || null,
+          },
+          metadata: { consolidated_order_ids: uniqueOrderIds, order_amount: Number(order.total || 0) },
+        });
+      }
+
+      Logger.info('Consolidated invoice created', {
+        invoiceId: invoice.id,
+        squareInvoiceId: invoice.square_invoice_id,
+        orderIds: uniqueOrderIds,
+        amount,
+      });
 
       return {
         success: true,
         invoice,
         public_url: squareInvoice.publicUrl || undefined,
-        invoiceVersion: invoiceVersion, // Include version for publishing
+        invoiceVersion: squareInvoice.version || 0,
       };
     } catch (error: any) {
-      Logger.error('Failed to create invoice', error, {
-        orderId,
+      Logger.error('Failed to create consolidated invoice', error, {
+        orderIds,
         options,
       });
       return {
         success: false,
-        error: error.message || 'Failed to create invoice',
+        error: error.message || 'Failed to create consolidated invoice',
       };
     }
   }
@@ -1046,11 +1352,18 @@ export class InvoiceService {
     const clientName = order.client?.full_name || order.client_name || 'Valued Customer';
     
     // Prepare order items for the email
-    const orderItems = order.items?.map(item => ({
-      name: item.item_name || 'Item',
-      description: item.item_description || undefined,
-      price: typeof item.price === 'number' ? item.price : parseFloat(String(item.price)) || 0,
-    })) || [];
+    const orderItems = [
+      ...(order.items || []).map(item => ({
+        name: item.item_name || 'Item',
+        description: item.item_description || undefined,
+        price: typeof item.price === 'number' ? item.price : parseFloat(String(item.price)) || 0,
+      })),
+      ...(order.addons || []).map(addon => ({
+        name: addon.name,
+        description: addon.description || undefined,
+        price: Number(addon.price) || 0,
+      })),
+    ];
 
     const html = emailService.generateInvoiceEmailHTML({
       orderNumber: order.order_number || '',
@@ -1060,6 +1373,7 @@ export class InvoiceService {
       deliveryDate: order.delivery_date,
       items: orderItems.length > 0 ? orderItems : undefined,
       message: order.notes || order.description || undefined,
+      currency: order.currency,
     });
 
     // Send to each recipient
@@ -0,0 +1,203 @@
+import {
+  LoginThrottle,
+  ThrottleScope,
+  ThrottleDecision,
+  SecurityEvent,
+  SecurityEventType,
+  AttemptSource,
+} from '../models/login-security';
+import { getLoginSecurityRepository } from '../repositories';
+import { env } from '../config/env';
+import { Logger } from '../utils/logger';
+
+// Failures allowed before delays between attempts start
+const ACCOUNT_BACKOFF_THRESHOLD = 3;
+const IP_BACKOFF_THRESHOLD = 10;
+
+/**
+ * Brute-force protection for sign-in, 2FA codes and password reset OTPs. Failures are
+ * counted per account and per client IP: past a threshold each further attempt must wait
+ * an exponentially growing delay, and reaching the maximum locks the account or IP for
+ * LOGIN_LOCKOUT_DURATION (admins can unlock accounts early). Failures, lockouts and
+ * unlocks are recorded as security events.
+ */
+export class LoginSecurityService {
+  private repository = getLoginSecurityRepository();
+
+  /**
+   * Whether an attempt for the account from the source may proceed now
+   */
+  async checkAttempt(email: string | null, source: AttemptSource): Promise<ThrottleDecision> {
+    const now = new Date();
+    const decisions: ThrottleDecision[] = [];
+
+    for (const [scope, subject] of this.getSubjects(email, source)) {
+      const throttle = await this.repository.findThrottle(scope, subject);
+      if (throttle && !this.isExpired(throttle, now)) {
+        decisions.push(this.decide(throttle, now));
+      }
+    }
+
+    const blocked = decisions.filter(decision => !decision.allowed);
+    if (blocked.length === 0) {
+      return { allowed: true, retry_after_seconds: 0 };
+    }
+
+    const decision = blocked.reduce((longest, next) => next.retry_after_seconds > longest.retry_after_seconds ? next : longest);
+    await this.recordEvent('login_throttled', email, source, {
+      reason: decision.reason,
+      retry_after_seconds: decision.retry_after_seconds,
+    });
+    return decision;
+  }
+
+  /**
+   * Count a failed attempt against the account and the source IP, locking either once
+   * it reaches its maximum
+   */
+  async recordFailure(
+    eventType: SecurityEventType,
+    email: string | null,
+    source: AttemptSource,
+    details?: Record<string, any>
+  ): Promise<void> {
+    const now = new Date();
+    await this.recordEvent(eventType, email, source, details);
+
+    for (const [scope, subject] of this.getSubjects(email, source)) {
+      const existing = await this.repository.findThrottle(scope, subject);
+      const failureCount = existing && !this.isExpired(existing, now) ? existing.failure_count + 1 : 1;
+      const maxAttempts = scope === 'account' ? env.LOGIN_MAX_ATTEMPTS : env.LOGIN_IP_MAX_ATTEMPTS;
+      const lockedUntil = failureCount >= maxAttempts ? new Date(now.getTime() + env.LOGIN_LOCKOUT_DURATION * 1000) : null;
+
+      await this.repository.saveThrottle({
+        scope,
+        subject,
+        failure_count: failureCount,
+        last_failure_at: now,
+        locked_until: lockedUntil,
+      });
+
+      const alreadyLocked = !!existing?.locked_until && existing.locked_until > now;
+      if (lockedUntil && !alreadyLocked) {
+        await this.recordEvent(scope === 'account' ? 'account_locked' : 'ip_locked', email, source, {
+          failure_count: failureCount,
+          locked_until: lockedUntil.toISOString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * A successful sign-in clears the account's failures (not the IP's, which may be shared)
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.repository.deleteThrottle('account', this.normalizeEmail(email));
+  }
+
+  /**
+   * Lift a lockout and forget the account's failures
+   */
+  async unlockAccount(email: string, unlockedBy: number): Promise<boolean> {
+    const unlocked = await this.repository.deleteThrottle('account', this.normalizeEmail(email));
+    await this.recordEvent('account_unlocked', email, { ip: null, user_agent: null }, { unlocked_by_user_id: unlockedBy });
+    return unlocked;
+  }
+
+  /**
+   * When the account's lockout ends, or null if it is not locked
+   */
+  async getLockedUntil(email: string): Promise<Date | null> {
+    const now = new Date();
+    const throttle = await this.repository.findThrottle('account', this.normalizeEmail(email));
+    return throttle?.locked_until && throttle.locked_until > now ? throttle.locked_until : null;
+  }
+
+  async listEvents(email: string, limit: number = 50): Promise<SecurityEvent[]> {
+    const safeLimit = Number.isInteger(limit) ? Math.min(Math.max(limit, 1), 200) : 50;
+    return this.repository.findEvents({ email: this.normalizeEmail(email), limit: safeLimit });
+  }
+
+  private decide(throttle: LoginThrottle, now: Date): ThrottleDecision {
+    if (throttle.locked_until && throttle.locked_until > now) {
+      return {
+        allowed: false,
+        retry_after_seconds: Math.ceil((throttle.locked_until.getTime() - now.getTime()) / 1000),
+        reason: throttle.scope === 'account' ? 'account_locked' : 'ip_locked',
+      };
+    }
+
+    const threshold = throttle.scope === 'account' ? ACCOUNT_BACKOFF_THRESHOLD : IP_BACKOFF_THRESHOLD;
+    if (throttle.failure_count >= threshold) {
+      const delaySeconds = Math.min(
+        env.LOGIN_BACKOFF_BASE_SECONDS * Math.pow(2, throttle.failure_count - threshold),
+        env.LOGIN_LOCKOUT_DURATION
+      );
+      const nextAttemptAt = throttle.last_failure_at.getTime() + delaySeconds * 1000;
+      if (nextAttemptAt > now.getTime()) {
+        return {
+          allowed: false,
+          retry_after_seconds: Math.ceil((nextAttemptAt - now.getTime()) / 1000),
+          reason: 'backoff',
+        };
+      }
+    }
+
+    return { allowed: true, retry_after_seconds: 0 };
+  }
+
+  // A served lockout, or failures older than the window, start the count afresh
+  private isExpired(throttle: LoginThrottle, now: Date): boolean {
+    if (throttle.locked_until) {
+      return throttle.locked_until <= now;
+    }
+    return now.getTime() - throttle.last_failure_at.getTime() > env.LOGIN_ATTEMPT_WINDOW * 1000;
+  }
+
+  private getSubjects(email: string | null, source: AttemptSource): Array<[ThrottleScope, string]> {
+    const subjects: Array<[ThrottleScope, string]> = [];
+    if (email) {
+      subjects.push(['account', this.normalizeEmail(email)]);
+    }
+    if (source.ip) {
+      subjects.push(['ip', source.ip]);
+    }
+    return subjects;
+  }
+
+  private async recordEvent(
+    eventType: SecurityEventType,
+    email: string | null,
+    source: AttemptSource,
+    details?: Record<string, any>
+  ): Promise<void> {
+    const normalizedEmail = email ? this.normalizeEmail(email) : null;
+    Logger.warn('Security event', { eventType, email: normalizedEmail, ip: source.ip ?? undefined, ...details });
+
+    try {
+      await this.repository.createEvent({
+        event_type: eventType,
+        email: normalizedEmail,
+        ip: source.ip,
+        user_agent: source.user_agent,
+        details: details || null,
+      });
+    } catch (error) {
+      // Never let audit logging block sign-in
+      Logger.error('Failed to record security event', error, { eventType, email: normalizedEmail });
+    }
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
+
+let loginSecurityServiceInstance: LoginSecurityService | null = null;
+
+export function getLoginSecurityService(): LoginSecurityService {
+  if (!loginSecurityServiceInstance) {
+    loginSecurityServiceInstance = new LoginSecurityService();
+  }
+  return loginSecurityServiceInstance;
+}
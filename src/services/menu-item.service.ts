@@ -1,5 +1,7 @@
 import { MenuItem, CreateMenuItemDTO, UpdateMenuItemDTO, MenuItemSearchParams, MenuItemListResponse, MenuItemStatusUpdateDTO } from '../models/menu-item';
+import { Allergen, DietaryTag } from '../models/dietary';
 import { getMenuItemRepository, getCategoryRepository } from '../repositories';
+import { getImageService } from './image.service';
 import { validateMenuItem, normalizeMenuItemData } from '../utils/menu-item-validation';
 import { Logger } from '../utils/logger';
 import * as XLSX from 'xlsx';
@@ -7,6 +9,7 @@ import * as XLSX from 'xlsx';
 export class MenuItemService {
   private repository = getMenuItemRepository();
   private categoryRepository = getCategoryRepository();
+  private imageService = getImageService();
 
   private async validateCategory(categoryIdOrSlug: string): Promise<void> {
     // Check if category exists (by ID or slug)
@@ -59,7 +62,44 @@ export class MenuItemService {
       await this.validateCategory(normalized.category);
     }
 
-    return this.repository.update(id, normalized);
+    // A new image_url replaces an uploaded image; its thumbnail no longer applies
+    const existing = normalized.image_url !== undefined ? await this.repository.findById(id) : null;
+    if (existing && normalized.image_url !== existing.image_url && normalized.image_thumbnail_url === undefined) {
+      normalized.image_thumbnail_url = null;
+    }
+
+    const updated = await this.repository.update(id, normalized);
+    if (updated && existing) {
+      await this.imageService.deleteReplacedImages(existing, updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Store an uploaded image (resized to full size and thumbnail) as the menu item's image,
+   * replacing and deleting any previously uploaded one.
+   */
+  async uploadImage(id: number, data: Buffer, contentType: string): Promise<MenuItem | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const image = await this.imageService.storeImage('menu-items', id, data, contentType);
+    const updated = await this.repository.update(id, image);
+    await this.imageService.deleteReplacedImages(existing, updated);
+    return updated;
+  }
+
+  async deleteImage(id: number): Promise<MenuItem | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = await this.repository.update(id, { image_url: '', image_thumbnail_url: null });
+    await this.imageService.deleteImages(existing);
+    return updated;
   }
 
   async updateMenuItemStatus(id: number, statusData: MenuItemStatusUpdateDTO): Promise<MenuItem | null> {
@@ -67,11 +107,21 @@ export class MenuItemService {
   }
 
   async deleteMenuItem(id: number): Promise<boolean> {
-    return this.repository.delete(id);
+    const existing = await this.repository.findById(id);
+    const deleted = await this.repository.delete(id);
+    if (deleted) {
+      await this.imageService.deleteImages(existing);
+    }
+    return deleted;
   }
 
   async deleteMenuItems(ids: number[]): Promise<number> {
-    return this.repository.deleteMany(ids);
+    const existing = await Promise.all(ids.map(id => this.repository.findById(id)));
+    const deleted = await this.repository.deleteMany(ids);
+    for (const item of existing) {
+      await this.imageService.deleteImages(item);
+    }
+    return deleted;
   }
 
   async exportToExcel(): Promise<Buffer> {
@@ -93,6 +143,8 @@ export class MenuItemService {
             'Image URL': item.image_url || '',
             'Tax Rate': item.tax_rate || '',
             'Service Charge': item.service_charge || '',
+            'Allergens': (item.allergens || []).join(', '),
+            'Dietary Tags': (item.dietary_tags || []).join(', '),
             'Is Active': item.is_active ? 'Yes' : 'No',
             'Portion Size': variant.portion_size,
             'Price': variant.price,
@@ -111,6 +163,8 @@ export class MenuItemService {
           'Image URL': item.image_url || '',
           'Tax Rate': item.tax_rate || '',
           'Service Charge': item.service_charge || '',
+          'Allergens': (item.allergens || []).join(', '),
+          'Dietary Tags': (item.dietary_tags || []).join(', '),
           'Is Active': item.is_active ? 'Yes' : 'No',
           'Portion Size': '',
           'Price': '',
@@ -342,6 +396,22 @@ export class MenuItemService {
             const parsed = parseFloat(value);
             return isNaN(parsed) ? undefined : parsed;
           })(),
+          // Comma-separated lists, e.g. "gluten, milk"; a blank cell leaves allergens unknown
+          allergens: (() => {
+            const value = getColumnValue(firstRow, [
+              'Allergens', 'allergens', 'ALLERGENS', 'Allergen', 'allergen'
+            ]);
+            if (!value) return undefined;
+            return value.split(',').map(a => a.trim()).filter(a => a.length > 0) as Allergen[];
+          })(),
+          dietary_tags: (() => {
+            const value = getColumnValue(firstRow, [
+              'Dietary Tags', 'dietary_tags', 'Dietary_Tags', 'dietary tags',
+              'DIETARY TAGS', 'DietaryTags', 'Diets', 'diets'
+            ]);
+            if (!value) return undefined;
+            return value.split(',').map(t => t.trim()).filter(t => t.length > 0) as DietaryTag[];
+          })(),
           is_active: (() => {
             const activeValue = getColumnValue(firstRow, [
               'Is Active', 'is_active', 'Is_Active', 'is active',
@@ -0,0 +1,288 @@
+import { Order, OrderItem, OrderAddon } from '../models/order';
+import { OrderEvent, OrderEventType, CreateOrderEventDTO } from '../models/order-event';
+import { getOrderEventRepository } from '../repositories';
+import { Logger } from '../utils/logger';
+
+// Fields that are not part of the audited order state (joined data, timestamps, transient flags)
+const UNTRACKED_FIELDS = new Set([
+  'items',
+  'client',
+  'caterer_details',
+  'airport_details',
+  'fbo',
+  'created_at',
+  'updated_at',
+  'completed_at',
+  '_changedFields',
+  '_changedItemIds',
+]);
+
+// Fields that get their own dedicated event type instead of a generic order_updated entry
+const DEDICATED_FIELDS = new Set(['status', 'is_paid']);
+
+export interface EmailSentDetails {
+  recipient_type: 'client' | 'caterer';
+  recipient: string;
+  cc?: string[];
+  subject?: string;
+  purpose?: string;
+  pdf_format?: string;
+  message_id?: string;
+}
+
+/**
+ * Audit log for orders - every change to an order is appended to order_events
+ * with the acting user and before/after values, forming the order timeline.
+ * Recording never throws: a failed audit write is logged and the caller continues.
+ */
+export class OrderEventService {
+  private repository = getOrderEventRepository();
+
+  async record(event: CreateOrderEventDTO): Promise<OrderEvent | null> {
+    try {
+      return await this.repository.create(event);
+    } catch (error) {
+      Logger.error('Failed to record order event', error, {
+        orderId: event.order_id,
+        eventType: event.event_type,
+      });
+      return null;
+    }
+  }
+
+  async getTimeline(orderId: number, eventTypes?: OrderEventType[]): Promise<OrderEvent[]> {
+    return this.repository.findByOrderId(orderId, {
+      event_type: eventTypes && eventTypes.length > 0 ? eventTypes : undefined,
+      sortOrder: 'asc',
+    });
+  }
+
+  async recordOrderCreated(order: Order, actorUserId?: number | null, metadata?: Record<string, any>): Promise<void> {
+    await this.record({
+      order_id: order.id!,
+      event_type: 'order_created',
+      actor_user_id: actorUserId ?? null,
+      after: this.snapshotOrder(order),
+      metadata: metadata || null,
+    });
+  }
+
+  /**
+   * Record the difference between two states of an order. Emits order_updated for field
+   * changes, items_changed for item changes, and status_changed / payment_status_changed
+   * for those dedicated fields. The full pre-update snapshot is kept in metadata so change
+   * highlighting can be reconstructed from the log.
+   */
+  async recordOrderUpdated(previous: Order, current: Order, actorUserId?: number | null): Promise<void> {
+    const orderId = current.id!;
+    const actor = actorUserId ?? null;
+    const before = this.snapshotOrder(previous);
+    const after = this.snapshotOrder(current);
+
+    const changedBefore: Record<string, any> = {};
+    const changedAfter: Record<string, any> = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (key === 'items' || DEDICATED_FIELDS.has(key)) continue;
+      if (!this.valuesEqual(before[key], after[key])) {
+        changedBefore[key] = before[key] ?? null;
+        changedAfter[key] = after[key] ?? null;
+      }
+    }
+
+    if (Object.keys(changedAfter).length > 0) {
+      await this.record({
+        order_id: orderId,
+        event_type: 'order_updated',
+        actor_user_id: actor,
+        before: changedBefore,
+        after: changedAfter,
+        metadata: { changed_fields: Object.keys(changedAfter), snapshot: before },
+      });
+    }
+
+    if (!this.valuesEqual(this.comparableItems(before.items), this.comparableItems(after.items))) {
+      await this.record({
+        order_id: orderId,
+        event_type: 'items_changed',
+        actor_user_id: actor,
+        before: { items: before.items },
+        after: { items: after.items },
+        metadata: { snapshot: before },
+      });
+    }
+
+    if (previous.status !== current.status) {
+      await this.recordStatusChanged(orderId, previous.status, current.status, actor);
+    }
+
+    if (!!previous.is_paid !== !!current.is_paid) {
+      await this.recordPaymentStatusChanged(orderId, !!previous.is_paid, !!current.is_paid, actor);
+    }
+  }
+
+  async recordStatusChanged(orderId: number, fromStatus: string, toStatus: string, actorUserId?: number | null): Promise<void> {
+    await this.record({
+      order_id: orderId,
+      event_type: 'status_changed',
+      actor_user_id: actorUserId ?? null,
+      before: { status: fromStatus },
+      after: { status: toStatus },
+    });
+  }
+
+  async recordPaymentStatusChanged(
+    orderId: number,
+    wasPaid: boolean,
+    isPaid: boolean,
+    actorUserId?: number | null,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    await this.record({
+      order_id: orderId,
+      event_type: 'payment_status_changed',
+      actor_user_id: actorUserId ?? null,
+      before: { is_paid: wasPaid },
+      after: { is_paid: isPaid },
+      metadata: metadata || null,
+    });
+  }
+
+  /**
+   * Record an email sent for an order. The snapshot of the order as it was sent becomes
+   * the baseline for highlighting changes in subsequent PDFs.
+   */
+  async recordEmailSent(order: Order, details: EmailSentDetails, actorUserId?: number | null): Promise<void> {
+    await this.record({
+      order_id: order.id!,
+      event_type: 'email_sent',
+      actor_user_id: actorUserId ?? null,
+      after: {
+        status: order.status,
+        revision_count: order.revision_count,
+      },
+      metadata: { ...details, snapshot: this.snapshotOrder(order) },
+    });
+  }
+
+  async recordPdfRegenerated(
+    orderId: number,
+    details: { format: 'A' | 'B'; filename: string; reason: string },
+    actorUserId?: number | null
+  ): Promise<void> {
+    await this.record({
+      order_id: orderId,
+      event_type: 'pdf_regenerated',
+      actor_user_id: actorUserId ?? null,
+      metadata: details,
+    });
+  }
+
+  /**
+   * Record a caterer's accept/decline/change request submitted through the caterer portal.
+   * The caterer has no user account, so the actor is the caterer email in metadata.
+   */
+  async recordCatererResponse(
+    orderId: number,
+    details: { action: string; comments?: string | null; caterer_email: string; from_status: string; to_status?: string | null }
+  ): Promise<void> {
+    await this.record({
+      order_id: orderId,
+      event_type: 'caterer_response',
+      actor_user_id: null,
+      metadata: details,
+    });
+  }
+
+  /**
+   * Record a client's approval or change request submitted through the quote page
+   */
+  async recordQuoteResponse(
+    orderId: number,
+    details: { action: string; comments?: string | null; client_email: string; from_status: string; to_status?: string | null; payment_transaction_id?: number }
+  ): Promise<void> {
+    await this.record({
+      order_id: orderId,
+      event_type: 'quote_response',
+      actor_user_id: null,
+      metadata: details,
+    });
+  }
+
+  /**
+   * Get the order state to highlight changes against: the state before the first update
+   * made since the order was last emailed. Returns null when nothing changed since then.
+   */
+  async getChangeBaseline(orderId: number): Promise<Order | null> {
+    const lastSent = await this.repository.findLatestByType(orderId, 'email_sent');
+    const updates = await this.repository.findByOrderId(orderId, {
+      event_type: ['order_updated', 'items_changed'],
+      since: lastSent?.created_at ? new Date(lastSent.created_at) : undefined,
+      sortOrder: 'asc',
+      limit: 1,
+    });
+
+    const firstUpdate = updates[0];
+    if (!firstUpdate || !firstUpdate.metadata?.snapshot) {
+      return null;
+    }
+
+    return firstUpdate.metadata.snapshot as Order;
+  }
+
+  /**
+   * Plain copy of the persisted order state, without joined entities or timestamps
+   */
+  snapshotOrder(order: Order): Record<string, any> {
+    const snapshot: Record<string, any> = {};
+    for (const [key, value] of Object.entries(order)) {
+      if (UNTRACKED_FIELDS.has(key) || value === undefined) continue;
+      snapshot[key] = value;
+    }
+    snapshot.items = (order.items || []).map((item: OrderItem) => ({
+      id: item.id,
+      menu_item_id: item.menu_item_id,
+      item_name: item.item_name,
+      item_description: item.item_description,
+      portion_size: item.portion_size,
+      portion_serving: item.portion_serving,
+      price: item.price,
+      category: item.category,
+      packaging: item.packaging,
+      sort_order: item.sort_order,
+    }));
+    // Add-on rows are re-inserted on update, so their row ids are left out
+    snapshot.addons = (order.addons || []).map((addon: OrderAddon) => ({
+      addon_item_id: addon.addon_item_id,
+      name: addon.name,
+      description: addon.description,
+      quantity: addon.quantity,
+      price: addon.price,
+      sort_order: addon.sort_order,
+    }));
+    return snapshot;
+  }
+
+  // Item rows may be re-inserted on update, so compare content rather than row ids
+  private comparableItems(items: Record<string, any>[]): Record<string, any>[] {
+    return items.map(({ id, ...rest }) => rest);
+  }
+
+  private valuesEqual(a: any, b: any): boolean {
+    // DECIMAL columns come back as strings from PostgreSQL but as numbers after recalculation
+    const isNumeric = (v: any) => (typeof v === 'number' || typeof v === 'string') && v !== '' && !isNaN(Number(v));
+    if (isNumeric(a) && isNumeric(b)) {
+      return Number(a) === Number(b);
+    }
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
+
+let orderEventServiceInstance: OrderEventService | null = null;
+
+export function getOrderEventService(): OrderEventService {
+  if (!orderEventServiceInstance) {
+    orderEventServiceInstance = new OrderEventService();
+  }
+  return orderEventServiceInstance;
+}
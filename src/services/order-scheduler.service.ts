@@ -1,19 +1,52 @@
 import { OrderService } from './order.service';
 import { Logger } from '../utils/logger';
-import { getOrderRepository } from '../repositories';
-import { Order } from '../models/order';
+import { getDeliveryInstant, formatDeliveryTime } from '../utils/delivery-time';
+import { getOrderRepository, getSchedulerRepository } from '../repositories';
+import { Order, getOrderTypeFromAlias } from '../models/order';
+import { SchedulerRule, SchedulerRuleDTO, SchedulerRun, SchedulerRunTrigger } from '../models/scheduler';
+import { validateSchedulerRule } from '../utils/scheduler-validation';
+import { getEmailService } from './email.service';
+import { env } from '../config/env';
 
 /**
- * Service to automatically update order statuses based on delivery time
- * - Sets status to "in_preparation" 4 hours before delivery time
- * - Sets status to "ready_for_delivery" 1 hour before delivery time
+ * Rules seeded when no scheduler rules are stored yet - these reproduce the original
+ * hardcoded behaviour (4h -> in_preparation, 1h -> ready_for_delivery)
+ */
+const DEFAULT_RULES: SchedulerRuleDTO[] = [
+  {
+    name: 'Ready for delivery',
+    action: 'set_status',
+    from_statuses: ['caterer_confirmed', 'in_preparation'],
+    target_status: 'ready_for_delivery',
+    hours_before_delivery: 1,
+  },
+  {
+    name: 'In preparation',
+    action: 'set_status',
+    from_statuses: ['caterer_confirmed'],
+    target_status: 'in_preparation',
+    hours_before_delivery: 4,
+  },
+  {
+    name: 'Escalate unconfirmed caterer',
+    action: 'escalate',
+    from_statuses: ['awaiting_caterer'],
+    hours_before_delivery: 12,
+  },
+];
+
+/**
+ * Service to automatically act on orders based on time until delivery.
+ * Rules are stored in the database (scheduler_rules) and can be scoped per caterer,
+ * order type and priority - the most specific matching rule wins. Each rule firing is
+ * persisted (scheduler_rule_executions) so restarts and overlapping runs never fire twice.
  */
 export class OrderSchedulerService {
   private orderService: OrderService;
+  private repository = getSchedulerRepository();
   private intervalId: NodeJS.Timeout | null = null;
-  private readonly CHECK_INTERVAL_MS = 15 * 60 * 1000; // Check every 15 minutes
-  private readonly IN_PREPARATION_HOURS = 4; // 4 hours before delivery
-  private readonly READY_FOR_DELIVERY_HOURS = 1; // 1 hour before delivery
+  private isRunning = false;
+  private readonly CHECK_INTERVAL_MS = env.SCHEDULER_INTERVAL_SECONDS * 1000;
 
   constructor(orderService: OrderService) {
     this.orderService = orderService;
@@ -30,18 +63,18 @@ export class OrderSchedulerService {
 
     Logger.info('Starting order status scheduler', {
       checkIntervalMinutes: this.CHECK_INTERVAL_MS / 60000,
-      inPreparationHours: this.IN_PREPARATION_HOURS,
-      readyForDeliveryHours: this.READY_FOR_DELIVERY_HOURS,
     });
 
     // Run immediately on start
-    this.checkAndUpdateOrders().catch((error) => {
-      Logger.error('Error in initial order status check', error);
-    });
+    this.ensureDefaultRules()
+      .then(() => this.checkAndUpdateOrders('interval'))
+      .catch((error) => {
+        Logger.error('Error in initial order status check', error);
+      });
 
     // Then run periodically
     this.intervalId = setInterval(() => {
-      this.checkAndUpdateOrders().catch((error) => {
+      this.checkAndUpdateOrders('interval').catch((error) => {
         Logger.error('Error in periodic order status check', error);
       });
     }, this.CHECK_INTERVAL_MS);
@@ -58,51 +91,129 @@ export class OrderSchedulerService {
     }
   }
 
+  async getRules(): Promise<SchedulerRule[]> {
+    return this.repository.findAllRules();
+  }
+
+  /**
+   * Replace the scheduler rule set. Rules with an id are updated in place (keeping their
+   * execution history), rules without an id are created, and stored rules missing from
+   * the payload are deleted.
+   */
+  async saveRules(rules: SchedulerRuleDTO[]): Promise<SchedulerRule[]> {
+    if (!Array.isArray(rules)) {
+      throw new Error('Validation failed: rules must be an array');
+    }
+
+    const errors: string[] = [];
+    rules.forEach((rule, index) => {
+      const validation = validateSchedulerRule(rule);
+      if (!validation.valid) {
+        errors.push(...validation.errors.map(e => `rules[${index}]: ${e}`));
+      }
+    });
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    const existingIds = new Set((await this.repository.findAllRules()).map(r => r.id));
+    const keptIds: number[] = [];
+
+    for (const rule of rules) {
+      const normalized: SchedulerRuleDTO = {
+        ...rule,
+        name: rule.name.trim(),
+        order_type: rule.order_type ? (getOrderTypeFromAlias(rule.order_type) || rule.order_type) : null,
+        target_status: rule.action === 'set_status' ? rule.target_status : null,
+      };
+
+      if (rule.id !== undefined && rule.id !== null) {
+        if (!existingIds.has(rule.id)) {
+          throw new Error(`Scheduler rule not found: ${rule.id}`);
+        }
+        await this.repository.updateRule(rule.id, normalized);
+        keptIds.push(rule.id);
+      } else {
+        const created = await this.repository.createRule(normalized);
+        keptIds.push(created.id!);
+      }
+    }
+
+    await this.repository.deleteRulesExcept(keptIds);
+    return this.repository.findAllRules();
+  }
+
+  async getRecentRuns(limit: number = 50): Promise<SchedulerRun[]> {
+    return this.repository.findRecentRuns(limit);
+  }
+
+  /**
+   * Run the scheduler immediately (manual trigger)
+   */
+  async runNow(triggeredBy?: number): Promise<SchedulerRun> {
+    if (this.isRunning) {
+      throw new Error('A scheduler run is already in progress');
+    }
+    const run = await this.checkAndUpdateOrders('manual', triggeredBy);
+    if (!run) {
+      throw new Error('A scheduler run is already in progress');
+    }
+    return run;
+  }
+
+  /**
+   * Seed the default rules the first time the scheduler starts. The seed is
+   * recorded, so rules an admin removes later are not recreated.
+   */
+  private async ensureDefaultRules(): Promise<void> {
+    const claimed = await this.repository.claimSeed('default_rules');
+    if (!claimed) {
+      return;
+    }
+    for (const rule of DEFAULT_RULES) {
+      await this.repository.createRule(rule);
+    }
+    Logger.info('Seeded default scheduler rules', { count: DEFAULT_RULES.length });
+  }
+
   /**
-   * Check orders and update their statuses based on delivery time
+   * Check orders and apply scheduler rules based on time until delivery
    */
-  private async checkAndUpdateOrders(): Promise<void> {
+  private async checkAndUpdateOrders(trigger: SchedulerRunTrigger, triggeredBy?: number): Promise<SchedulerRun | null> {
+    if (this.isRunning) {
+      Logger.warn('Skipping scheduler run - previous run still in progress', { trigger });
+      return null;
+    }
+    this.isRunning = true;
+
+    let run: SchedulerRun | undefined;
+    let ordersChecked = 0;
+    let actionsFired = 0;
+
     try {
-      const repository = getOrderRepository();
-      
-      // Find orders that are eligible for status updates
-      // Only check orders that are in caterer_confirmed or in_preparation status
-      const eligibleStatuses = ['caterer_confirmed', 'in_preparation'];
-      
-      // Get orders for each status separately (since findAll only accepts single status)
-      const allOrders: Order[] = [];
-      
-      for (const status of eligibleStatuses) {
-        const now = new Date();
-        const tomorrow = new Date(now);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        
-        // Query orders with this status and delivery date today or tomorrow
-        const result = await repository.findAll({
-          status: status,
-          start_date: now.toISOString().split('T')[0],
-          end_date: tomorrow.toISOString().split('T')[0],
-          limit: 500, // Reasonable limit per status
+      run = await this.repository.createRun({
+        trigger,
+        triggered_by: triggeredBy || null,
+        status: 'running',
+        orders_checked: 0,
+        actions_fired: 0,
+      });
+
+      const rules = (await this.repository.findAllRules()).filter(r => r.is_active);
+      if (rules.length === 0) {
+        return await this.repository.finishRun(run.id!, {
+          status: 'completed',
+          orders_checked: 0,
+          actions_fired: 0,
         });
-        
-        allOrders.push(...result.orders);
       }
 
-      let updatedCount = 0;
-      let inPreparationCount = 0;
-      let readyForDeliveryCount = 0;
+      const orders = await this.findCandidateOrders(rules);
+      ordersChecked = orders.length;
 
-      for (const order of allOrders) {
+      for (const order of orders) {
         try {
-          const updateResult = await this.checkAndUpdateOrderStatus(order);
-          if (updateResult) {
-            updatedCount++;
-            if (updateResult.newStatus === 'in_preparation') {
-              inPreparationCount++;
-            } else if (updateResult.newStatus === 'ready_for_delivery') {
-              readyForDeliveryCount++;
-            }
-          }
+          actionsFired += await this.applyRulesToOrder(order, rules, run.id!);
         } catch (error) {
           Logger.error(`Failed to check order ${order.id}`, error, {
             orderId: order.id,
@@ -111,150 +222,260 @@ export class OrderSchedulerService {
         }
       }
 
-      if (updatedCount > 0) {
-        Logger.info('Order status updates completed', {
-          totalChecked: allOrders.length,
-          updated: updatedCount,
-          inPreparation: inPreparationCount,
-          readyForDelivery: readyForDeliveryCount,
+      if (actionsFired > 0) {
+        Logger.info('Order scheduler run completed', {
+          runId: run.id,
+          trigger,
+          totalChecked: ordersChecked,
+          actionsFired,
         });
       }
-    } catch (error) {
+
+      return await this.repository.finishRun(run.id!, {
+        status: 'completed',
+        orders_checked: ordersChecked,
+        actions_fired: actionsFired,
+      });
+    } catch (error: any) {
       Logger.error('Failed to check and update orders', error);
+      if (!run) {
+        // The run could not even be recorded - nothing to finish
+        throw error;
+      }
+      return await this.repository.finishRun(run.id!, {
+        status: 'failed',
+        orders_checked: ordersChecked,
+        actions_fired: actionsFired,
+        error_message: error.message,
+      });
+    } finally {
+      this.isRunning = false;
     }
   }
 
   /**
-   * Check a single order and update its status if needed
+   * Load orders in any status a rule applies to, delivering within the longest rule lead time
    */
-  private async checkAndUpdateOrderStatus(
-    order: Order
-  ): Promise<{ updated: boolean; newStatus?: string } | null> {
-    if (!order.delivery_date || !order.delivery_time) {
-      return null;
+  private async findCandidateOrders(rules: SchedulerRule[]): Promise<Order[]> {
+    const repository = getOrderRepository();
+    const statuses = Array.from(new Set(rules.flatMap(r => r.from_statuses)));
+    const maxLeadHours = Math.max(...rules.map(r => r.hours_before_delivery));
+
+    // Delivery dates are local to the airport, so pad the window by a day on each side
+    const now = new Date();
+    const startDate = new Date(now);
+    startDate.setDate(startDate.getDate() - 1);
+    const endDate = new Date(now.getTime() + maxLeadHours * 60 * 60 * 1000);
+    endDate.setDate(endDate.getDate() + 1);
+
+    const orders: Order[] = [];
+    // findAll only accepts a single status, so query each separately
+    for (const status of statuses) {
+      const result = await repository.findAll({
+        status,
+        start_date: startDate.toISOString().split('T')[0],
+        end_date: endDate.toISOString().split('T')[0],
+        limit: 500, // Reasonable limit per status
+      });
+      orders.push(...result.orders);
     }
+    return orders;
+  }
+
+  /**
+   * Pick the rules that apply to an order: for each rule group (same target status, or
+   * same escalation), the most specific rule matching the order's caterer/type/priority
+   */
+  private selectRulesForOrder(order: Order, rules: SchedulerRule[]): SchedulerRule[] {
+    const selected = new Map<string, SchedulerRule>();
+    for (const rule of rules) {
+      if (rule.caterer_id && rule.caterer_id !== order.caterer_id) continue;
+      if (rule.order_type && rule.order_type !== order.order_type) continue;
+      if (rule.order_priority && rule.order_priority !== order.order_priority) continue;
+
+      const key = rule.action === 'set_status'
+        ? `set_status:${rule.target_status}`
+        : `escalate:${[...rule.from_statuses].sort().join(',')}`;
+      const current = selected.get(key);
+      if (!current || this.getSpecificity(rule) > this.getSpecificity(current)) {
+        selected.set(key, rule);
+      }
+    }
+    return Array.from(selected.values());
+  }
 
-      // Parse delivery date and time
-      // Get timezone from caterer details if available
-      const timezone = order.caterer_details?.time_zone || undefined;
-      
-      const deliveryDateTime = this.parseDeliveryDateTime(
-        order.delivery_date,
-        order.delivery_time,
-        timezone
-      );
+  private getSpecificity(rule: SchedulerRule): number {
+    return (rule.caterer_id ? 4 : 0) + (rule.order_type ? 2 : 0) + (rule.order_priority ? 1 : 0);
+  }
 
+  /**
+   * Apply the selected rules to a single order. Returns the number of actions fired.
+   */
+  private async applyRulesToOrder(order: Order, rules: SchedulerRule[], runId: number): Promise<number> {
+    if (!order.id || !order.delivery_date || !order.delivery_time) {
+      return 0;
+    }
+
+    // Delivery date/time are local to the airport; compare against the true instant
+    const deliveryDateTime = getDeliveryInstant(order);
     if (!deliveryDateTime) {
-      return null;
+      return 0;
     }
 
     const now = new Date();
     const hoursUntilDelivery = (deliveryDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+    if (hoursUntilDelivery <= 0) {
+      return 0;
+    }
 
-    // Determine what status the order should be in
-    let targetStatus: string | null = null;
+    const applicable = this.selectRulesForOrder(order, rules).filter(rule =>
+      rule.from_statuses.includes(order.status) && hoursUntilDelivery <= rule.hours_before_delivery
+    );
 
-    if (hoursUntilDelivery <= this.READY_FOR_DELIVERY_HOURS && hoursUntilDelivery > 0) {
-      // Between 1 hour and 0 hours before delivery -> ready_for_delivery
-      if (order.status !== 'ready_for_delivery') {
-        targetStatus = 'ready_for_delivery';
-      }
-    } else if (
-      hoursUntilDelivery <= this.IN_PREPARATION_HOURS &&
-      hoursUntilDelivery > this.READY_FOR_DELIVERY_HOURS
-    ) {
-      // Between 4 hours and 1 hour before delivery -> in_preparation
-      if (order.status !== 'in_preparation' && order.status !== 'ready_for_delivery') {
-        targetStatus = 'in_preparation';
+    let fired = 0;
+
+    // Only one status change per run - the stage closest to delivery wins
+    // (e.g. 30 minutes out goes straight to ready_for_delivery)
+    const statusRule = applicable
+      .filter(rule => rule.action === 'set_status' && rule.target_status && rule.target_status !== order.status)
+      .sort((a, b) => a.hours_before_delivery - b.hours_before_delivery)[0];
+    if (statusRule && await this.fireStatusRule(order, statusRule, deliveryDateTime, hoursUntilDelivery, runId)) {
+      fired++;
+    }
+
+    for (const rule of applicable.filter(r => r.action === 'escalate')) {
+      if (await this.fireEscalationRule(order, rule, deliveryDateTime, hoursUntilDelivery, runId)) {
+        fired++;
       }
     }
 
-    // Update status if needed
-    if (targetStatus && order.id) {
-      try {
-        const updatedOrder = await this.orderService.updateOrderStatus(order.id, {
-          status: targetStatus as any,
-        });
+    return fired;
+  }
 
-        if (updatedOrder) {
-          Logger.info('Order status auto-updated', {
-            orderId: order.id,
-            orderNumber: order.order_number,
-            oldStatus: order.status,
-            newStatus: targetStatus,
-            hoursUntilDelivery: hoursUntilDelivery.toFixed(2),
-          });
+  private async fireStatusRule(
+    order: Order,
+    rule: SchedulerRule,
+    deliveryAt: Date,
+    hoursUntilDelivery: number,
+    runId: number
+  ): Promise<boolean> {
+    const execution = await this.repository.claimExecution({
+      run_id: runId,
+      rule_id: rule.id!,
+      order_id: order.id!,
+      delivery_at: deliveryAt,
+      action: rule.action,
+      details: { from_status: order.status, to_status: rule.target_status },
+    });
+    if (!execution) {
+      return false;
+    }
 
-          return { updated: true, newStatus: targetStatus };
-        }
-      } catch (error) {
-        Logger.error(`Failed to update order ${order.id} status`, error, {
-          orderId: order.id,
-          orderNumber: order.order_number,
-          targetStatus,
-        });
+    try {
+      const updatedOrder = await this.orderService.updateOrderStatus(order.id!, {
+        status: rule.target_status!,
+      });
+      if (!updatedOrder) {
+        await this.repository.releaseExecution(execution.id!);
+        return false;
       }
-    }
 
-    return null;
+      Logger.info('Order status auto-updated', {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        oldStatus: order.status,
+        newStatus: rule.target_status,
+        hoursUntilDelivery: hoursUntilDelivery.toFixed(2),
+      });
+      return true;
+    } catch (error) {
+      await this.repository.releaseExecution(execution.id!);
+      Logger.error(`Failed to update order ${order.id} status`, error, {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        ruleId: rule.id,
+        targetStatus: rule.target_status,
+      });
+      return false;
+    }
   }
 
   /**
-   * Parse delivery date and time, considering timezone
+   * Email ops that an order is still in a status it should have left by now
    */
-  private parseDeliveryDateTime(
-    deliveryDate: string | Date,
-    deliveryTime: string,
-    timezone?: string
-  ): Date | null {
-    try {
-      // Parse delivery date
-      const date = typeof deliveryDate === 'string' ? new Date(deliveryDate) : deliveryDate;
-      if (isNaN(date.getTime())) {
-        return null;
-      }
+  private async fireEscalationRule(
+    order: Order,
+    rule: SchedulerRule,
+    deliveryAt: Date,
+    hoursUntilDelivery: number,
+    runId: number
+  ): Promise<boolean> {
+    const recipients = rule.escalation_emails && rule.escalation_emails.length > 0
+      ? rule.escalation_emails
+      : env.SCHEDULER_OPS_EMAILS;
+    const emailService = getEmailService();
 
-      // Parse delivery time (format: "HH:MM" or "HH:MML")
-      const timeStr = deliveryTime.replace(/L$/, ''); // Remove trailing 'L' if present
-      const [hours, minutes] = timeStr.split(':').map(Number);
+    if (recipients.length === 0 || !emailService.isConfigured()) {
+      Logger.warn('Skipping scheduler escalation - no recipients or email not configured', {
+        orderId: order.id,
+        ruleId: rule.id,
+        hasRecipients: recipients.length > 0,
+      });
+      return false;
+    }
 
-      if (isNaN(hours) || isNaN(minutes)) {
-        return null;
-      }
+    const execution = await this.repository.claimExecution({
+      run_id: runId,
+      rule_id: rule.id!,
+      order_id: order.id!,
+      delivery_at: deliveryAt,
+      action: rule.action,
+      details: { status: order.status, recipients },
+    });
+    if (!execution) {
+      return false;
+    }
 
-      // Create delivery datetime in the local timezone (or specified timezone)
-      const deliveryDateTime = new Date(date);
-      deliveryDateTime.setHours(hours, minutes, 0, 0);
-
-      // If timezone is provided, convert to UTC
-      // For now, we'll work with local timezone and assume delivery_time is in airport local time
-      // In a production system, you'd want to properly handle timezone conversion
-      if (timezone) {
-        // Simple timezone offset handling
-        // In production, use a proper timezone library like date-fns-tz or luxon
-        // For now, we'll assume the timezone string is like "America/New_York" or "UTC-5"
-        // This is a simplified implementation
-        try {
-          // Try to use Intl API for timezone conversion
-          const utcDate = new Date(deliveryDateTime.toLocaleString('en-US', { timeZone: timezone }));
-          const localDate = new Date(deliveryDateTime.toLocaleString('en-US'));
-          const offset = utcDate.getTime() - localDate.getTime();
-          deliveryDateTime.setTime(deliveryDateTime.getTime() - offset);
-        } catch (e) {
-          // If timezone conversion fails, use the date as-is
-          Logger.warn('Failed to convert timezone', { timezone, error: e });
-        }
-      }
+    const hoursText = hoursUntilDelivery.toFixed(1);
+    const body = `
+Order ${order.order_number} for ${order.client_name} is still "${order.status.replace(/_/g, ' ')}" with ${hoursText} hours until delivery.
 
-      return deliveryDateTime;
-    } catch (error) {
-      Logger.error('Failed to parse delivery date/time', error, {
-        deliveryDate,
-        deliveryTime,
-        timezone,
+Delivery: ${order.delivery_date} ${formatDeliveryTime(order)}
+Airport: ${order.airport || 'N/A'}
+Caterer: ${order.caterer || 'N/A'}
+Priority: ${order.order_priority}
+
+Rule: ${rule.name} (${rule.hours_before_delivery}h before delivery)
+    `.trim();
+
+    const result = await emailService.sendEmail({
+      to: recipients,
+      subject: `Kabin247 Escalation: Order#${order.order_number} still ${order.status.replace(/_/g, ' ')} (${hoursText}h to delivery)`,
+      html: emailService.generateEmailHTML(body, order.order_number || ''),
+    });
+
+    if (!result.success) {
+      await this.repository.releaseExecution(execution.id!);
+      Logger.error('Failed to send scheduler escalation', undefined, {
+        orderId: order.id,
+        ruleId: rule.id,
+        error: result.error,
       });
-      return null;
+      return false;
     }
+
+    Logger.info('Scheduler escalation sent', {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      status: order.status,
+      recipients,
+      hoursUntilDelivery: hoursText,
+    });
+    return true;
   }
 }
 
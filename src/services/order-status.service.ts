@@ -0,0 +1,165 @@
+import { Order, OrderStatus } from '../models/order';
+
+export type StatusNotifyRecipient = 'client' | 'caterer';
+
+export interface StatusTransitionContext {
+  // Caller may deliver unpaid card orders (ADMIN or orders.deliver_unpaid permission)
+  allowUnpaidDelivery?: boolean;
+}
+
+// Returns a reason when the transition is blocked, null when it may proceed
+type TransitionGuard = (order: Order, context: StatusTransitionContext) => string | null;
+
+interface TransitionRule {
+  to: OrderStatus;
+  guards?: TransitionGuard[];
+  // Recipients notified when the transition runs with notifications enabled.
+  // The email purpose is derived from the target status via getEmailPurposeFromStatus.
+  notify?: StatusNotifyRecipient[];
+}
+
+export interface AllowedTransition {
+  status: OrderStatus;
+  allowed: boolean;
+  reason?: string;
+  notify: StatusNotifyRecipient[];
+}
+
+const requireCaterer: TransitionGuard = (order) => {
+  const hasCaterer = !!order.caterer_id || !!(order.caterer && order.caterer.trim());
+  return hasCaterer ? null : 'A caterer must be assigned before the order can be confirmed';
+};
+
+const requirePaidCardOrder: TransitionGuard = (order, context) => {
+  if (order.payment_method === 'card' && !order.is_paid && !context.allowUnpaidDelivery) {
+    return 'Card orders must be paid before delivery';
+  }
+  return null;
+};
+
+const requireItems: TransitionGuard = (order) => {
+  return order.items && order.items.length > 0 ? null : 'Order has no items';
+};
+
+// order_changed can be reached from any status - it reopens the order for rework
+const TO_ORDER_CHANGED: TransitionRule = { to: 'order_changed', notify: ['caterer'] };
+const TO_CANCELLED: TransitionRule = { to: 'cancelled', notify: ['client', 'caterer'] };
+
+/**
+ * Declarative order status state machine.
+ * Every status lists the statuses it may move to, with guards and notification hooks.
+ */
+const TRANSITIONS: Record<OrderStatus, TransitionRule[]> = {
+  awaiting_quote: [
+    { to: 'awaiting_client_approval', guards: [requireItems], notify: ['client'] },
+    { to: 'awaiting_caterer', guards: [requireCaterer], notify: ['caterer'] },
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  awaiting_client_approval: [
+    { to: 'awaiting_quote' },
+    { to: 'awaiting_caterer', guards: [requireCaterer], notify: ['caterer'] },
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  awaiting_caterer: [
+    { to: 'caterer_confirmed', guards: [requireCaterer], notify: ['client'] },
+    { to: 'awaiting_quote' },
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  caterer_confirmed: [
+    { to: 'in_preparation' },
+    { to: 'ready_for_delivery' },
+    { to: 'delivered', guards: [requirePaidCardOrder], notify: ['client'] },
+    { to: 'awaiting_caterer', guards: [requireCaterer], notify: ['caterer'] },
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  in_preparation: [
+    { to: 'ready_for_delivery' },
+    { to: 'delivered', guards: [requirePaidCardOrder], notify: ['client'] },
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  ready_for_delivery: [
+    { to: 'delivered', guards: [requirePaidCardOrder], notify: ['client'] },
+    { to: 'in_preparation' },
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  delivered: [
+    TO_CANCELLED,
+    TO_ORDER_CHANGED,
+  ],
+  cancelled: [
+    TO_ORDER_CHANGED,
+  ],
+  order_changed: [
+    { to: 'awaiting_quote' },
+    { to: 'awaiting_client_approval', guards: [requireItems], notify: ['client'] },
+    { to: 'awaiting_caterer', guards: [requireCaterer], notify: ['caterer'] },
+    { to: 'caterer_confirmed', guards: [requireCaterer], notify: ['client'] },
+    TO_CANCELLED,
+  ],
+};
+
+export class OrderStatusService {
+  /**
+   * List every transition defined for the order's current status, with whether
+   * its guards pass for this order and caller
+   */
+  getAllowedTransitions(order: Order, context: StatusTransitionContext = {}): AllowedTransition[] {
+    const rules = TRANSITIONS[order.status] || [];
+    return rules.map(rule => {
+      const reason = this.checkGuards(rule, order, context);
+      return {
+        status: rule.to,
+        allowed: reason === null,
+        reason: reason || undefined,
+        notify: rule.notify || [],
+      };
+    });
+  }
+
+  /**
+   * Validate a status change and return the recipients to notify.
+   * Re-applying the current status is a no-op and always allowed.
+   */
+  assertTransition(order: Order, to: OrderStatus, context: StatusTransitionContext = {}): StatusNotifyRecipient[] {
+    if (order.status === to) {
+      return [];
+    }
+
+    const rule = (TRANSITIONS[order.status] || []).find(r => r.to === to);
+    if (!rule) {
+      throw new Error(`Cannot change status from ${order.status} to ${to}`);
+    }
+
+    const reason = this.checkGuards(rule, order, context);
+    if (reason) {
+      throw new Error(`Cannot change status from ${order.status} to ${to}: ${reason}`);
+    }
+
+    return rule.notify || [];
+  }
+
+  private checkGuards(rule: TransitionRule, order: Order, context: StatusTransitionContext): string | null {
+    for (const guard of rule.guards || []) {
+      const reason = guard(order, context);
+      if (reason) {
+        return reason;
+      }
+    }
+    return null;
+  }
+}
+
+let orderStatusServiceInstance: OrderStatusService | null = null;
+
+export function getOrderStatusService(): OrderStatusService {
+  if (!orderStatusServiceInstance) {
+    orderStatusServiceInstance = new OrderStatusService();
+  }
+  return orderStatusServiceInstance;
+}
@@ -0,0 +1,370 @@
+import { Order } from '../models/order';
+import {
+  OrderTemplate,
+  CreateOrderTemplateDTO,
+  UpdateOrderTemplateDTO,
+  OrderTemplateSearchParams,
+  OrderTemplateListResponse,
+  OrderTemplateData,
+  OrderTemplateOccurrence,
+  OrderTemplateOccurrencePreview,
+  OrderRecurrence,
+} from '../models/order-template';
+import { getOrderTemplateRepository } from '../repositories';
+import { validateOrderTemplate, validateTemplateOrderData } from '../utils/order-template-validation';
+import { Logger } from '../utils/logger';
+import { OrderService } from './order.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PREVIEW_DAYS = 366;
+
+// Dates are handled as YYYY-MM-DD strings in UTC, the same way orders store delivery_date
+function todayString(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+/**
+ * Saved order templates and recurring order schedules. Recurring templates generate real
+ * orders (via OrderService.createOrderFromReferences) generate_days_ahead days before each
+ * occurrence. Single occurrences can be skipped or edited before they are generated.
+ */
+export class OrderTemplateService {
+  private repository = getOrderTemplateRepository();
+  private orderService = new OrderService();
+  private intervalId: NodeJS.Timeout | null = null;
+  private isGenerating = false;
+  private readonly GENERATE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+
+  async listTemplates(params: OrderTemplateSearchParams): Promise<OrderTemplateListResponse> {
+    return this.repository.findAll(params);
+  }
+
+  async getTemplate(id: number): Promise<OrderTemplate | null> {
+    return this.repository.findById(id);
+  }
+
+  async createTemplate(data: CreateOrderTemplateDTO, createdByUserId?: number): Promise<OrderTemplate> {
+    const validation = validateOrderTemplate(data);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    return this.repository.create({
+      ...data,
+      name: data.name.trim(),
+      created_by_user_id: createdByUserId ?? null,
+    });
+  }
+
+  async updateTemplate(id: number, data: UpdateOrderTemplateDTO): Promise<OrderTemplate | null> {
+    const validation = validateOrderTemplate(data, true);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    return this.repository.update(id, {
+      ...data,
+      name: data.name !== undefined ? data.name.trim() : undefined,
+    });
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Create a one-off order from a template for the given delivery date
+   */
+  async createOrderFromTemplate(
+    id: number,
+    deliveryDate: string,
+    overrides: Partial<OrderTemplateData> = {},
+    actorUserId?: number
+  ): Promise<Order | null> {
+    const template = await this.repository.findById(id);
+    if (!template) {
+      return null;
+    }
+    this.assertOverrides(overrides);
+
+    return this.orderService.createOrderFromReferences({
+      ...template.order_data,
+      ...overrides,
+      delivery_date: deliveryDate,
+    }, actorUserId);
+  }
+
+  /**
+   * List a recurring template's occurrences in a date range with their state
+   */
+  async previewOccurrences(id: number, fromDate?: string, toDate?: string): Promise<OrderTemplateOccurrencePreview[] | null> {
+    const template = await this.repository.findById(id);
+    if (!template) {
+      return null;
+    }
+    if (!template.recurrence) {
+      return [];
+    }
+
+    const from = fromDate || todayString();
+    const to = toDate || addDays(from, 30);
+    if (daysBetween(from, to) > MAX_PREVIEW_DAYS) {
+      throw new Error(`Validation failed: preview range cannot exceed ${MAX_PREVIEW_DAYS} days`);
+    }
+
+    const stored = await this.repository.findOccurrences(id, from, to);
+    const byDate = new Map(stored.map(o => [o.occurrence_date, o]));
+
+    // Generated occurrences stay listed even if the recurrence changed since
+    const dates = new Set(this.getOccurrenceDates(template.recurrence, from, to));
+    stored.filter(o => o.status === 'generated').forEach(o => dates.add(o.occurrence_date));
+
+    return Array.from(dates).sort().map(date => {
+      const occurrence = byDate.get(date);
+      return {
+        occurrence_date: date,
+        delivery_time: occurrence?.overrides?.delivery_time || template.order_data.delivery_time,
+        status: this.getPreviewStatus(occurrence),
+        order_id: occurrence?.order_id ?? null,
+        overrides: occurrence?.overrides ?? null,
+      };
+    });
+  }
+
+  async skipOccurrence(id: number, date: string): Promise<OrderTemplateOccurrence> {
+    await this.assertOccurrence(id, date);
+    const occurrence = await this.repository.saveOccurrence(id, date, { status: 'skipped' });
+    if (!occurrence) {
+      throw new Error('Occurrence has already been generated');
+    }
+    return occurrence;
+  }
+
+  /**
+   * Edit a single occurrence. Overrides replace the template's order fields for that date only.
+   */
+  async updateOccurrence(id: number, date: string, overrides: Partial<OrderTemplateData>): Promise<OrderTemplateOccurrence> {
+    await this.assertOccurrence(id, date);
+    this.assertOverrides(overrides);
+    if (Object.keys(overrides).length === 0) {
+      throw new Error('Validation failed: overrides must not be empty');
+    }
+
+    const occurrence = await this.repository.saveOccurrence(id, date, { status: 'scheduled', overrides });
+    if (!occurrence) {
+      throw new Error('Occurrence has already been generated');
+    }
+    return occurrence;
+  }
+
+  /**
+   * Undo a skip or edit so the occurrence follows the template again
+   */
+  async restoreOccurrence(id: number, date: string): Promise<boolean> {
+    await this.assertOccurrence(id, date);
+    return this.repository.deleteOccurrence(id, date);
+  }
+
+  /**
+   * Generate the order for one occurrence now, ahead of the regular schedule
+   */
+  async generateOccurrence(id: number, date: string, actorUserId?: number): Promise<Order> {
+    const template = await this.assertOccurrence(id, date);
+    const order = await this.generate(template, date, actorUserId);
+    if (!order) {
+      throw new Error('Occurrence is skipped or has already been generated');
+    }
+    return order;
+  }
+
+  /**
+   * Generate orders for every active recurring template whose occurrences fall within
+   * their generate_days_ahead window
+   */
+  async generateUpcomingOrders(): Promise<{ generated: number; failed: number }> {
+    if (this.isGenerating) {
+      Logger.warn('Skipping recurring order generation - previous run still in progress');
+      return { generated: 0, failed: 0 };
+    }
+    this.isGenerating = true;
+
+    let generated = 0;
+    let failed = 0;
+
+    try {
+      const today = todayString();
+      const templates = await this.repository.findActiveRecurring();
+
+      for (const template of templates) {
+        const dates = this.getOccurrenceDates(template.recurrence!, today, addDays(today, template.generate_days_ahead));
+        for (const date of dates) {
+          try {
+            const order = await this.generate(template, date);
+            if (order) {
+              generated++;
+            }
+          } catch (error) {
+            failed++;
+            Logger.error('Failed to generate recurring order', error, {
+              templateId: template.id,
+              occurrenceDate: date,
+            });
+          }
+        }
+      }
+
+      if (generated > 0 || failed > 0) {
+        Logger.info('Recurring order generation completed', { templates: templates.length, generated, failed });
+      }
+    } finally {
+      this.isGenerating = false;
+    }
+
+    return { generated, failed };
+  }
+
+  /**
+   * Start generating recurring orders periodically
+   */
+  start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.generateUpcomingOrders().catch((error) => {
+      Logger.error('Error in initial recurring order generation', error);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.generateUpcomingOrders().catch((error) => {
+        Logger.error('Error in periodic recurring order generation', error);
+      });
+    }, this.GENERATE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Occurrence dates of a recurrence within [from, to], both inclusive
+   */
+  getOccurrenceDates(recurrence: OrderRecurrence, from: string, to: string): string[] {
+    const start = recurrence.start_date > from ? recurrence.start_date : from;
+    const end = recurrence.end_date && recurrence.end_date < to ? recurrence.end_date : to;
+    const dates: string[] = [];
+
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+      if (recurrence.frequency === 'weekly') {
+        const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+        if ((recurrence.days_of_week || []).includes(dayOfWeek)) {
+          dates.push(date);
+        }
+      } else if (daysBetween(recurrence.start_date, date) % (recurrence.interval_days || 1) === 0) {
+        dates.push(date);
+      }
+    }
+
+    return dates;
+  }
+
+  /**
+   * Claim the occurrence and create its order. Returns null when the occurrence is skipped
+   * or was already generated.
+   */
+  private async generate(template: OrderTemplate, date: string, actorUserId?: number): Promise<Order | null> {
+    const occurrence = await this.repository.claimOccurrence(template.id!, date);
+    if (!occurrence) {
+      return null;
+    }
+
+    let order: Order;
+    try {
+      order = await this.orderService.createOrderFromReferences({
+        ...template.order_data,
+        ...(occurrence.overrides || {}),
+        delivery_date: date,
+      }, actorUserId);
+    } catch (error) {
+      await this.repository.releaseOccurrence(occurrence.id!);
+      throw error;
+    }
+
+    // The order exists now, so the claim is kept even if linking fails; releasing it
+    // would let the next run create a second order for the same occurrence
+    try {
+      await this.repository.setOccurrenceOrder(occurrence.id!, order.id!);
+    } catch (error: any) {
+      Logger.error('Failed to link generated order to its template occurrence', {
+        templateId: template.id,
+        occurrenceId: occurrence.id,
+        occurrenceDate: date,
+        orderId: order.id,
+        error: error.message,
+      });
+    }
+
+    Logger.info('Order generated from template', {
+      templateId: template.id,
+      templateName: template.name,
+      occurrenceDate: date,
+      orderId: order.id,
+      orderNumber: order.order_number,
+    });
+    return order;
+  }
+
+  private async assertOccurrence(id: number, date: string): Promise<OrderTemplate> {
+    const template = await this.repository.findById(id);
+    if (!template) {
+      throw new Error('Order template not found');
+    }
+    if (!template.recurrence) {
+      throw new Error('Validation failed: template has no recurrence');
+    }
+    if (this.getOccurrenceDates(template.recurrence, date, date).length === 0) {
+      throw new Error(`Validation failed: ${date} is not an occurrence of this template`);
+    }
+    return template;
+  }
+
+  private assertOverrides(overrides: Partial<OrderTemplateData>): void {
+    if (!overrides || typeof overrides !== 'object') {
+      throw new Error('Validation failed: overrides must be an object');
+    }
+    const errors = validateTemplateOrderData(overrides, true);
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+  }
+
+  private getPreviewStatus(occurrence?: OrderTemplateOccurrence): OrderTemplateOccurrencePreview['status'] {
+    if (!occurrence) {
+      return 'upcoming';
+    }
+    if (occurrence.status === 'scheduled') {
+      return occurrence.overrides ? 'modified' : 'upcoming';
+    }
+    return occurrence.status;
+  }
+}
+
+let orderTemplateServiceInstance: OrderTemplateService | null = null;
+
+export function getOrderTemplateService(): OrderTemplateService {
+  if (!orderTemplateServiceInstance) {
+    orderTemplateServiceInstance = new OrderTemplateService();
+  }
+  return orderTemplateServiceInstance;
+}
@@ -1,8 +1,21 @@
-import { Order, CreateOrderDTO, UpdateOrderDTO, OrderSearchParams, OrderListResponse, OrderStatusUpdateDTO, CreateOrderFromRefsDTO } from '../models/order';
-import { getOrderRepository, getClientRepository, getCatererRepository, getAirportRepository, getMenuItemRepository, getFBORepository } from '../repositories';
+import { Order, CreateOrderDTO, UpdateOrderDTO, OrderSearchParams, OrderListResponse, OrderStatusUpdateDTO, CreateOrderFromRefsDTO, DuplicateOrderDTO, SuggestedItemQuantity, OrderAddonInput } from '../models/order';
+import { MenuItem } from '../models/menu-item';
+import { getOrderRepository, getClientRepository, getCatererRepository, getAirportRepository, getMenuItemRepository, getAddonItemRepository, getFBORepository, getAircraftRepository } from '../repositories';
 import { validateOrder, normalizeOrderData } from '../utils/order-validation';
 import { Logger } from '../utils/logger';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { resolveDeliveryTimeZone, getDeliveryInstant, formatDeliveryTime } from '../utils/delivery-time';
+import { getEffectiveDietaryInfo, findDietaryConflicts } from '../utils/dietary';
 import { generateOrderPDFBuffer, generateOrderPDFBBuffer } from '../utils/order-pdf';
+import { getPricingService } from './pricing.service';
+import { getOrderEventService, EmailSentDetails } from './order-event.service';
+import { OrderEvent, OrderEventType } from '../models/order-event';
+import { getOrderStatusService, StatusTransitionContext, StatusNotifyRecipient, AllowedTransition } from './order-status.service';
+import { getEmailService, getEmailPurposeFromStatus, getPDFFormat } from './email.service';
+import { getCatererPortalService } from './caterer-portal.service';
+import { getQuoteApprovalService } from './quote-approval.service';
+import { getExchangeRateService } from './exchange-rate.service';
+import { getInventoryConsumptionService } from './inventory-consumption.service';
 
 export class OrderService {
   private repository = getOrderRepository();
@@ -10,11 +23,13 @@ export class OrderService {
   private catererRepository = getCatererRepository();
   private airportRepository = getAirportRepository();
   private menuItemRepository = getMenuItemRepository();
+  private addonItemRepository = getAddonItemRepository();
   private fboRepository = getFBORepository();
-  
-  // In-memory cache for order snapshots before updates (for change detection)
-  // Key: orderId, Value: order snapshot before the last update
-  private preUpdateSnapshots = new Map<number, Order>();
+  private aircraftRepository = getAircraftRepository();
+  private pricingService = getPricingService();
+  private orderEventService = getOrderEventService();
+  private orderStatusService = getOrderStatusService();
+  private inventoryConsumptionService = getInventoryConsumptionService();
 
   /**
    * Resolve prices for order items based on caterer-specific pricing
@@ -37,6 +52,16 @@ export class OrderService {
             );
             
             if (variant && variant.id) {
+              let resolvedItem = item;
+
+              // Caterer cost defaults to the caterer's own price for this variant
+              if (resolvedItem.caterer_cost === undefined && catererId) {
+                const catererPrice = variant.caterer_prices?.find(cp => cp.caterer_id === catererId);
+                if (catererPrice) {
+                  resolvedItem = { ...resolvedItem, caterer_cost: parseFloat(String(catererPrice.price)) };
+                }
+              }
+
               // Get price using caterer_id (can be null)
               const resolvedPrice = await this.menuItemRepository.getPriceForVariant(
                 variant.id,
@@ -49,11 +74,13 @@ export class OrderService {
                 // For now, we'll use resolved price if price is 0 or not set, otherwise keep provided price
                 if (!item.price || item.price === 0) {
                   return {
-                    ...item,
+                    ...resolvedItem,
                     price: resolvedPrice,
                   };
                 }
               }
+
+              return resolvedItem;
             }
           }
         }
@@ -66,7 +93,154 @@ export class OrderService {
     return resolvedItems;
   }
 
-  async createOrder(data: CreateOrderDTO): Promise<Order> {
+  /**
+   * Snapshot allergens and dietary tags from the menu item (and the variant matching the
+   * portion size) onto order items. Values sent with an item, e.g. for free-text items, are kept.
+   */
+  private async applyItemDietaryInfo(items: CreateOrderDTO['items']): Promise<CreateOrderDTO['items']> {
+    const menuItems = new Map<number, Promise<MenuItem | null>>();
+
+    return Promise.all(
+      items.map(async (item) => {
+        if (!item.menu_item_id || (item.allergens !== undefined && item.dietary_tags !== undefined)) {
+          return item;
+        }
+        if (!menuItems.has(item.menu_item_id)) {
+          menuItems.set(item.menu_item_id, this.menuItemRepository.findById(item.menu_item_id));
+        }
+        const menuItem = await menuItems.get(item.menu_item_id);
+        if (!menuItem) {
+          return item;
+        }
+
+        const variant = menuItem.variants?.find(v => v.portion_size === item.portion_size);
+        const dietary = getEffectiveDietaryInfo(menuItem, variant);
+        return {
+          ...item,
+          allergens: item.allergens !== undefined ? item.allergens : dietary.allergens,
+          dietary_tags: item.dietary_tags !== undefined ? item.dietary_tags : dietary.dietary_tags,
+        };
+      })
+    );
+  }
+
+  /**
+   * Snapshot the add-on item's name and description onto add-on lines. The price defaults to
+   * the add-on item's current price unless one is sent with the line.
+   */
+  private async resolveOrderAddons(addons: OrderAddonInput[]): Promise<OrderAddonInput[]> {
+    return Promise.all(
+      addons.map(async (addon) => {
+        const addonItem = await this.addonItemRepository.findById(addon.addon_item_id);
+        if (!addonItem) {
+          throw new Error(`Add-on item not found: ${addon.addon_item_id}`);
+        }
+        return {
+          addon_item_id: addon.addon_item_id,
+          quantity: addon.quantity,
+          price: addon.price ?? parseFloat(String(addonItem.price)),
+          name: addonItem.name,
+          description: addonItem.description || undefined,
+        };
+      })
+    );
+  }
+
+  // Attach dietary conflicts between the items and the stated requirements
+  private withDietaryConflicts(order: Order): Order {
+    return { ...order, dietary_conflicts: findDietaryConflicts(order) };
+  }
+
+  private logDietaryConflicts(order: Order): void {
+    if (order.dietary_conflicts && order.dietary_conflicts.length > 0) {
+      Logger.warn('Order items conflict with stated dietary requirements', {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        conflicts: order.dietary_conflicts.map(conflict => conflict.message),
+      });
+    }
+  }
+
+  /**
+   * Link the order to the aircraft registry. An aircraft_id sets the tail number from the
+   * registry; a bare tail number is linked when it is registered (and unlinked when not).
+   */
+  private async linkAircraft(order: CreateOrderDTO | UpdateOrderDTO): Promise<void> {
+    if (order.aircraft_id) {
+      const aircraft = await this.aircraftRepository.findById(order.aircraft_id);
+      if (!aircraft) {
+        throw new Error(`Aircraft not found: ${order.aircraft_id}`);
+      }
+      order.aircraft_tail_number = aircraft.tail_number;
+    } else if (order.aircraft_id === undefined && order.aircraft_tail_number !== undefined) {
+      const aircraft = order.aircraft_tail_number
+        ? await this.aircraftRepository.findByTailNumber(order.aircraft_tail_number)
+        : null;
+      order.aircraft_id = aircraft?.id ?? null;
+    }
+  }
+
+  /**
+   * Apply active tax charges and per-item tax rates to an order and persist the breakdown.
+   * Returns the order with tax_breakdown, tax_total and the tax-inclusive total.
+   */
+  private async applyOrderTaxes(order: Order): Promise<Order> {
+    try {
+      const { tax_breakdown, tax_total } = await this.pricingService.calculateOrderTaxes(order);
+      const total = await this.repository.updateTaxes(order.id!, tax_breakdown, tax_total);
+      if (total === null) {
+        return order;
+      }
+      return { ...order, tax_breakdown, tax_total, total };
+    } catch (error) {
+      Logger.error('Failed to apply tax charges to order', error, { orderId: order.id });
+      // Don't fail the order operation if tax calculation fails
+      return order;
+    }
+  }
+
+  /**
+   * Pin the delivery instant: delivery_date/delivery_time are local to the airport's time zone
+   * (else the caterer's), stored alongside the UTC instant the scheduler and reports use.
+   */
+  private async applyDeliveryInstant(order: Order): Promise<Order> {
+    try {
+      const airport = order.airport_details
+        || (order.airport_id ? await this.airportRepository.findById(order.airport_id) : null);
+      const caterer = order.caterer_details
+        || (order.caterer_id ? await this.catererRepository.findById(order.caterer_id) : null);
+      const timeZone = resolveDeliveryTimeZone(airport, caterer);
+      const deliveryAt = getDeliveryInstant({ ...order, delivery_at: null, delivery_time_zone: timeZone });
+      await this.repository.updateDeliveryInstant(order.id!, deliveryAt, timeZone);
+      return { ...order, delivery_at: deliveryAt, delivery_time_zone: timeZone };
+    } catch (error) {
+      Logger.error('Failed to resolve delivery time zone for order', error, { orderId: order.id });
+      return order;
+    }
+  }
+
+  /**
+   * Snapshot the exchange rate in effect when the quote goes to the client. Re-quoting
+   * captures a fresh rate. A missing rate is logged and never fails the transition.
+   */
+  private async captureExchangeRate(order: Order): Promise<Order> {
+    try {
+      const snapshot = await getExchangeRateService().getRateSnapshot(order.currency || DEFAULT_CURRENCY);
+      if (!snapshot) {
+        Logger.warn('No exchange rate recorded for order currency - quote sent without a rate snapshot', {
+          orderId: order.id,
+          currency: order.currency,
+        });
+        return order;
+      }
+      return (await this.repository.updateExchangeRate(order.id!, snapshot)) || order;
+    } catch (error) {
+      Logger.error('Failed to capture exchange rate for order', error, { orderId: order.id });
+      return order;
+    }
+  }
+
+  async createOrder(data: CreateOrderDTO, actorUserId?: number, createdMetadata?: Record<string, any>): Promise<Order> {
     const normalized = normalizeOrderData(data) as CreateOrderDTO;
     
     // Auto-fill FBO details if fbo_id is provided
@@ -77,10 +251,19 @@ export class OrderService {
       }
       // FBO details will be populated in repository
     }
+
+    await this.linkAircraft(normalized);
     
     // Resolve prices for order items based on caterer
     if (normalized.items && normalized.items.length > 0) {
       normalized.items = await this.resolveOrderItemPrices(normalized.items, normalized.caterer_id);
+      normalized.items = await this.applyItemDietaryInfo(normalized.items);
+    }
+
+    // Orders are priced in the caterer's currency unless one is given
+    if (!normalized.currency) {
+      const caterer = normalized.caterer_id ? await this.catererRepository.findById(normalized.caterer_id) : null;
+      normalized.currency = caterer?.default_currency || DEFAULT_CURRENCY;
     }
     
     const validation = validateOrder(normalized);
@@ -89,6 +272,10 @@ export class OrderService {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
     }
 
+    if (normalized.addons) {
+      normalized.addons = await this.resolveOrderAddons(normalized.addons);
+    }
+
     // Use provided order_number or generate one automatically
     let orderNumber: string;
     // Check if order_number was provided (from original data) and is not empty after normalization
@@ -114,13 +301,17 @@ export class OrderService {
       Logger.info('Auto-generated order number', { orderNumber, clientName, provided: data.order_number });
     }
 
-    const order = await this.repository.create(normalized, orderNumber);
+    const createdOrder = await this.repository.create(normalized, orderNumber);
+    const order = this.withDietaryConflicts(await this.applyDeliveryInstant(await this.applyOrderTaxes(createdOrder)));
+    this.logDietaryConflicts(order);
+    await this.orderEventService.recordOrderCreated(order, actorUserId, createdMetadata);
     
     // Auto-generate and save PDF after order creation
     try {
       const pdfBuffer = await generateOrderPDFBuffer(order);
       const filename = `order_${order.order_number}.pdf`;
       await this.repository.savePdf(order.id!, pdfBuffer, filename, 'application/pdf');
+      await this.orderEventService.recordPdfRegenerated(order.id!, { format: 'A', filename, reason: 'order_created' }, actorUserId);
     } catch (error) {
       Logger.error('Failed to generate PDF after order creation', { orderId: order.id, error });
       // Don't fail order creation if PDF generation fails
@@ -129,7 +320,7 @@ export class OrderService {
     return order;
   }
 
-  async createOrderFromReferences(data: CreateOrderFromRefsDTO): Promise<Order> {
+  async createOrderFromReferences(data: CreateOrderFromRefsDTO, actorUserId?: number): Promise<Order> {
     // Fetch referenced entities
     const client = await this.clientRepository.findById(data.client_id);
     if (!client) {
@@ -192,6 +383,10 @@ export class OrderService {
         portion_size: item.portion_size,
         portion_serving: item.portion_serving ?? undefined,
         price: resolvedPrice,
+        caterer_cost: item.caterer_cost,
+        meal_for: item.meal_for,
+        allergens: item.allergens,
+        dietary_tags: item.dietary_tags,
         category: item.category ?? undefined,
         packaging: item.packaging ?? undefined,
       });
@@ -214,6 +409,9 @@ export class OrderService {
       caterer: catererDisplay,
       airport: airportDisplay,
       aircraft_tail_number: data.aircraft_tail_number,
+      aircraft_id: data.aircraft_id,
+      passenger_count: data.passenger_count,
+      crew_count: data.crew_count,
       delivery_date: data.delivery_date,
       delivery_time: data.delivery_time,
       order_priority: data.order_priority,
@@ -224,6 +422,7 @@ export class OrderService {
       reheating_instructions: data.reheating_instructions,
       packaging_instructions: data.packaging_instructions,
       dietary_restrictions: data.dietary_restrictions,
+      dietary_requirements: data.dietary_requirements,
       delivery_fee: data.delivery_fee,
       service_charge: data.service_charge,
       coordination_fee: data.coordination_fee,
@@ -232,21 +431,158 @@ export class OrderService {
       shopping_fee: data.shopping_fee,
       restaurant_pickup_fee: data.restaurant_pickup_fee,
       airport_pickup_fee: data.airport_pickup_fee,
+      currency: data.currency,
       items: mappedItems,
+      addons: data.addons,
+    };
+
+    return this.createOrder(createPayload, actorUserId);
+  }
+
+  /**
+   * Copy an order for a new delivery. The copy gets a fresh order number and starts at
+   * awaiting_quote; payment state, revisions and PDFs are not copied. When the caterer
+   * changes, item prices are re-resolved from the new caterer's variant prices (items
+   * without a resolvable price keep their original price).
+   */
+  async duplicateOrder(id: number, data: DuplicateOrderDTO, actorUserId?: number): Promise<Order | null> {
+    const source = await this.repository.findById(id);
+    if (!source) {
+      return null;
+    }
+
+    if (!data || !data.delivery_date || !data.delivery_time) {
+      throw new Error('Validation failed: delivery_date and delivery_time are required');
+    }
+
+    let catererId = source.caterer_id;
+    let catererDisplay = source.caterer;
+    const catererChanged = data.caterer_id !== undefined && data.caterer_id !== source.caterer_id;
+    if (catererChanged) {
+      const caterer = await this.catererRepository.findById(data.caterer_id!);
+      if (!caterer) {
+        throw new Error(`Caterer not found: ${data.caterer_id}`);
+      }
+      // Prices that cannot be re-resolved (custom items, add-ons) are copied as they are,
+      // so the copy has to stay in the source order's currency
+      const sourceCurrency = source.currency || DEFAULT_CURRENCY;
+      const catererCurrency = caterer.default_currency || DEFAULT_CURRENCY;
+      if (catererCurrency !== sourceCurrency) {
+        throw new Error(`Validation failed: caterer ${caterer.caterer_name} prices in ${catererCurrency}, but the order is in ${sourceCurrency}`);
+      }
+      catererId = caterer.id;
+      catererDisplay = [caterer.caterer_name, caterer.caterer_number].filter(Boolean).join(' - ');
+    }
+
+    const sourceItems = source.items || [];
+    let items: CreateOrderDTO['items'] = sourceItems.map(item => ({
+      menu_item_id: item.menu_item_id,
+      item_name: item.item_name,
+      item_description: item.item_description,
+      portion_size: item.portion_size,
+      portion_serving: item.portion_serving,
+      // A zero price makes resolveOrderItemPrices look up the new caterer's price
+      // Item amounts come back from the database as strings
+      price: catererChanged && item.menu_item_id ? 0 : parseFloat(String(item.price)),
+      // The new caterer's cost is looked up again rather than copied
+      caterer_cost: catererChanged || item.caterer_cost === undefined || item.caterer_cost === null
+        ? undefined
+        : parseFloat(String(item.caterer_cost)),
+      meal_for: item.meal_for,
+      // Unknown (null) snapshots are taken again from the menu item
+      allergens: item.allergens ?? undefined,
+      dietary_tags: item.dietary_tags ?? undefined,
+      category: item.category,
+      packaging: item.packaging,
+    }));
+
+    if (catererChanged) {
+      items = await this.resolveOrderItemPrices(items, catererId);
+      items = items.map((item, index) => (
+        item.price ? item : { ...item, price: parseFloat(String(sourceItems[index].price)) }
+      ));
+    }
+
+    const payload: CreateOrderDTO = {
+      client_id: source.client_id,
+      caterer_id: catererId,
+      airport_id: source.airport_id,
+      fbo_id: source.fbo_id,
+      client_name: source.client_name,
+      caterer: catererDisplay,
+      airport: source.airport,
+      aircraft_tail_number: data.aircraft_tail_number ?? source.aircraft_tail_number,
+      // A different tail number is looked up in the registry again
+      aircraft_id: data.aircraft_tail_number === undefined ? source.aircraft_id ?? undefined : undefined,
+      passenger_count: data.passenger_count ?? source.passenger_count ?? undefined,
+      crew_count: data.crew_count ?? source.crew_count ?? undefined,
+      delivery_date: data.delivery_date,
+      delivery_time: data.delivery_time,
+      order_priority: source.order_priority,
+      payment_method: source.payment_method,
+      order_type: source.order_type,
+      description: source.description,
+      notes: source.notes,
+      reheating_instructions: source.reheating_instructions,
+      packaging_instructions: source.packaging_instructions,
+      dietary_restrictions: source.dietary_restrictions,
+      dietary_requirements: source.dietary_requirements,
+      delivery_fee: source.delivery_fee,
+      service_charge: source.service_charge,
+      coordination_fee: source.coordination_fee,
+      airport_fee: source.airport_fee,
+      fbo_fee: source.fbo_fee,
+      shopping_fee: source.shopping_fee,
+      restaurant_pickup_fee: source.restaurant_pickup_fee,
+      airport_pickup_fee: source.airport_pickup_fee,
+      currency: source.currency,
+      items,
+      // Lines whose add-on item has since been deleted are not copied
+      addons: (source.addons || [])
+        .filter(addon => addon.addon_item_id)
+        .map(addon => ({ addon_item_id: addon.addon_item_id!, quantity: addon.quantity, price: addon.price })),
     };
 
-    return this.createOrder(createPayload);
+    return this.createOrder(payload, actorUserId, {
+      duplicated_from_order_id: source.id,
+      duplicated_from_order_number: source.order_number,
+    });
   }
 
   async getOrderById(id: number): Promise<Order | null> {
-    return this.repository.findById(id);
+    const order = await this.repository.findById(id);
+    return order ? this.withDietaryConflicts(order) : null;
+  }
+
+  /**
+   * Suggest item quantities from the passenger and crew counts: one per passenger for
+   * passenger items and one per crew member for crew meals. Nothing is changed on the order.
+   */
+  async suggestItemQuantities(id: number): Promise<SuggestedItemQuantity[] | null> {
+    const order = await this.repository.findById(id);
+    if (!order) {
+      return null;
+    }
+
+    return (order.items || []).map(item => {
+      const count = item.meal_for === 'passenger' ? order.passenger_count
+        : item.meal_for === 'crew' ? order.crew_count
+        : null;
+      return {
+        item_id: item.id,
+        item_name: item.item_name,
+        meal_for: item.meal_for || null,
+        current_quantity: item.portion_size,
+        suggested_quantity: count ?? null,
+      };
+    });
   }
 
   async listOrders(params: OrderSearchParams): Promise<OrderListResponse> {
     return this.repository.findAll(params);
   }
 
-  async updateOrder(id: number, data: UpdateOrderDTO): Promise<Order | null> {
+  async updateOrder(id: number, data: UpdateOrderDTO, actorUserId?: number, context: StatusTransitionContext = {}): Promise<Order | null> {
     const normalized = normalizeOrderData(data) as UpdateOrderDTO;
     
     // Get existing order to check if caterer_id is being changed
@@ -255,9 +591,6 @@ export class OrderService {
       return null;
     }
     
-    // Store snapshot of order BEFORE update (for change detection in PDFs)
-    this.storePreUpdateSnapshot(existingOrder);
-    
     // Determine the caterer_id to use for price resolution
     const catererIdForPricing = normalized.caterer_id !== undefined 
       ? normalized.caterer_id 
@@ -297,10 +630,13 @@ export class OrderService {
         throw new Error(`FBO not found: ${normalized.fbo_id}`);
       }
     }
+
+    await this.linkAircraft(normalized);
     
     // Resolve prices for order items if items are being updated or caterer_id changed
     if (normalized.items && normalized.items.length > 0) {
       normalized.items = await this.resolveOrderItemPrices(normalized.items, catererIdForPricing);
+      normalized.items = await this.applyItemDietaryInfo(normalized.items);
     } else if (normalized.caterer_id !== undefined && existingOrder.items && existingOrder.items.length > 0) {
       // If caterer is being changed but items aren't explicitly updated,
       // we could optionally re-resolve prices, but that would require fetching items
@@ -323,7 +659,36 @@ export class OrderService {
       }
     }
 
-    const updatedOrder = await this.repository.update(id, normalized);
+    if (normalized.addons) {
+      normalized.addons = await this.resolveOrderAddons(normalized.addons);
+    }
+
+    // Status changes made through a general update follow the same state machine,
+    // with guards evaluated against the order as it will be after this update
+    if (normalized.status !== undefined && normalized.status !== existingOrder.status) {
+      this.orderStatusService.assertTransition(
+        { ...existingOrder, ...normalized } as Order,
+        normalized.status,
+        context
+      );
+    }
+
+    let updatedOrder = await this.repository.update(id, normalized);
+    
+    // Recalculate taxes - items, categories or airport may have changed
+    if (updatedOrder) {
+      updatedOrder = await this.applyOrderTaxes(updatedOrder);
+      updatedOrder = await this.applyDeliveryInstant(updatedOrder);
+      updatedOrder = this.withDietaryConflicts(updatedOrder);
+      if (updatedOrder.status === 'awaiting_client_approval' && existingOrder.status !== updatedOrder.status) {
+        updatedOrder = await this.captureExchangeRate(updatedOrder);
+      }
+      // Audit log - the pre-update snapshot recorded here also drives PDF change highlighting
+      await this.orderEventService.recordOrderUpdated(existingOrder, updatedOrder, actorUserId);
+      // Reserve, consume or release inventory for the new status and items
+      await this.inventoryConsumptionService.syncOrder(existingOrder, updatedOrder, actorUserId);
+      this.logDietaryConflicts(updatedOrder);
+    }
     
     // Auto-regenerate and save PDF after order update
     if (updatedOrder) {
@@ -331,6 +696,7 @@ export class OrderService {
         const pdfBuffer = await generateOrderPDFBuffer(updatedOrder);
         const filename = `order_${updatedOrder.order_number}.pdf`;
         await this.repository.savePdf(updatedOrder.id!, pdfBuffer, filename, 'application/pdf');
+        await this.orderEventService.recordPdfRegenerated(id, { format: 'A', filename, reason: 'order_updated' }, actorUserId);
       } catch (error) {
         Logger.error('Failed to regenerate PDF after order update', { orderId: id, error });
         // Don't fail order update if PDF generation fails
@@ -364,6 +730,14 @@ export class OrderService {
       changes.push('fbo');
     }
 
+    // Check passenger and crew counts
+    if (previousOrder.passenger_count !== currentOrder.passenger_count) {
+      changes.push('passenger_count');
+    }
+    if (previousOrder.crew_count !== currentOrder.crew_count) {
+      changes.push('crew_count');
+    }
+
     // Check delivery date
     if (previousOrder.delivery_date !== currentOrder.delivery_date) {
       changes.push('delivery_date');
@@ -378,6 +752,9 @@ export class OrderService {
     if (previousOrder.dietary_restrictions !== currentOrder.dietary_restrictions) {
       changes.push('dietary_restrictions');
     }
+    if (JSON.stringify(previousOrder.dietary_requirements || []) !== JSON.stringify(currentOrder.dietary_requirements || [])) {
+      changes.push('dietary_requirements');
+    }
 
     // Check items - compare by ID, name, description, quantity, and packaging
     const prevItems = previousOrder.items || [];
@@ -414,6 +791,14 @@ export class OrderService {
       }
     }
 
+    // Check add-ons - compare by add-on item and quantity
+    const addonKey = (order: Order) => JSON.stringify(
+      (order.addons || []).map(addon => [addon.addon_item_id, addon.name, addon.quantity])
+    );
+    if (addonKey(previousOrder) !== addonKey(currentOrder)) {
+      changes.push('addons');
+    }
+
     // Store changed item IDs in current order for PDF generation
     if (changedItemIds.length > 0) {
       (currentOrder as any)._changedItemIds = changedItemIds;
@@ -423,65 +808,52 @@ export class OrderService {
   }
 
   /**
-   * Store a snapshot of the order BEFORE an update is made
-   * This snapshot is used to detect changes for highlighting in PDFs
-   */
-  storePreUpdateSnapshot(order: Order): void {
-    if (order.id) {
-      // Create a deep copy of the order for snapshot
-      const snapshot: Order = {
-        ...order,
-        items: order.items ? order.items.map(item => ({ ...item })) : [],
-      };
-      this.preUpdateSnapshots.set(order.id, snapshot);
-    }
-  }
-
-  /**
-   * Get the pre-update snapshot for an order
-   */
-  getPreUpdateSnapshot(orderId: number): Order | null {
-    return this.preUpdateSnapshots.get(orderId) || null;
-  }
-
-  /**
-   * Clear the pre-update snapshot for an order (e.g., after email is sent)
-   */
-  clearPreUpdateSnapshot(orderId: number): void {
-    this.preUpdateSnapshots.delete(orderId);
-  }
-
-  /**
-   * Store a snapshot when email is sent (same as pre-update snapshot)
-   * Keeping this for backwards compatibility
+   * Record that an order email was sent. The order state at send time becomes the
+   * baseline for change highlighting in PDFs generated afterwards.
    */
-  storeLastSentSnapshot(order: Order): void {
-    // When email is sent, we clear the pre-update snapshot
-    // because the "changes" have now been communicated
-    if (order.id) {
-      this.clearPreUpdateSnapshot(order.id);
-    }
+  async recordEmailSent(order: Order, details: EmailSentDetails, actorUserId?: number): Promise<void> {
+    await this.orderEventService.recordEmailSent(order, details, actorUserId);
   }
 
   /**
-   * Detect changes by comparing current order with pre-update snapshot
+   * Detect changes made since the order was last emailed, using the order_events log
    * Returns change tracking data for PDF highlighting
    */
-  detectChangesFromLastSent(orderId: number, currentOrder: Order): { changedFields: string[]; changedItemIds: number[] } {
-    const preUpdate = this.getPreUpdateSnapshot(orderId);
+  async detectChangesFromLastSent(orderId: number, currentOrder: Order): Promise<{ changedFields: string[]; changedItemIds: number[] }> {
+    const baseline = await this.orderEventService.getChangeBaseline(orderId);
     
-    if (!preUpdate) {
-      // No previous snapshot, no changes to highlight
+    if (!baseline) {
+      // No updates since the last email, no changes to highlight
       return { changedFields: [], changedItemIds: [] };
     }
 
-    const changedFields = this.detectOrderChanges(preUpdate, currentOrder);
+    const changedFields = this.detectOrderChanges(baseline, currentOrder);
     const changedItemIds = (currentOrder as any)._changedItemIds || [];
     
     return { changedFields, changedItemIds };
   }
 
-  async updateOrderStatus(id: number, statusData: OrderStatusUpdateDTO): Promise<Order | null> {
+  async getOrderTimeline(orderId: number, eventTypes?: OrderEventType[]): Promise<OrderEvent[]> {
+    return this.orderEventService.getTimeline(orderId, eventTypes);
+  }
+
+  /**
+   * Get the status transitions defined for the order's current status and whether each is allowed
+   */
+  async getAllowedTransitions(id: number, context: StatusTransitionContext = {}): Promise<AllowedTransition[] | null> {
+    const order = await this.repository.findById(id);
+    if (!order) {
+      return null;
+    }
+    return this.orderStatusService.getAllowedTransitions(order, context);
+  }
+
+  async updateOrderStatus(
+    id: number,
+    statusData: OrderStatusUpdateDTO,
+    actorUserId?: number,
+    context: StatusTransitionContext = {}
+  ): Promise<Order | null> {
     const validation = validateOrder(statusData);
     if (!validation.valid) {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
@@ -493,13 +865,18 @@ export class OrderService {
       return null;
     }
 
-    // Business rule: Can't go from delivered/cancelled back to other statuses (except order_changed which can happen anytime)
-    if ((existingOrder.status === 'delivered' || existingOrder.status === 'cancelled') 
-        && statusData.status !== 'delivered' && statusData.status !== 'cancelled' && statusData.status !== 'order_changed') {
-      throw new Error(`Cannot change status from ${existingOrder.status} to ${statusData.status}`);
-    }
+    // Enforce the status state machine (allowed transitions and their guards)
+    const notifyRecipients = this.orderStatusService.assertTransition(existingOrder, statusData.status, context);
 
-    const updatedOrder = await this.repository.updateStatus(id, statusData.status);
+    let updatedOrder = await this.repository.updateStatus(id, statusData.status);
+    
+    if (updatedOrder && existingOrder.status !== updatedOrder.status) {
+      await this.orderEventService.recordStatusChanged(id, existingOrder.status, updatedOrder.status, actorUserId);
+      await this.inventoryConsumptionService.syncOrder(existingOrder, updatedOrder, actorUserId);
+      if (updatedOrder.status === 'awaiting_client_approval') {
+        updatedOrder = await this.captureExchangeRate(updatedOrder);
+      }
+    }
     
     // Auto-regenerate and save PDF after status update
     if (updatedOrder) {
@@ -507,15 +884,116 @@ export class OrderService {
         const pdfBuffer = await generateOrderPDFBuffer(updatedOrder);
         const filename = `order_${updatedOrder.order_number}.pdf`;
         await this.repository.savePdf(updatedOrder.id!, pdfBuffer, filename, 'application/pdf');
+        await this.orderEventService.recordPdfRegenerated(id, { format: 'A', filename, reason: 'status_changed' }, actorUserId);
       } catch (error) {
         Logger.error('Failed to regenerate PDF after status update', { orderId: id, error });
         // Don't fail status update if PDF generation fails
       }
     }
+
+    // Transition hooks - notify client/caterer when requested by the caller
+    if (updatedOrder && statusData.notify && notifyRecipients.length > 0) {
+      await this.sendStatusNotifications(id, notifyRecipients, actorUserId);
+    }
     
     return updatedOrder;
   }
 
+  /**
+   * Send the status-change emails for a transition. The email purpose comes from the
+   * new status (getEmailPurposeFromStatus). Failures are logged and never fail the transition.
+   */
+  private async sendStatusNotifications(orderId: number, recipients: StatusNotifyRecipient[], actorUserId?: number): Promise<void> {
+    const emailService = getEmailService();
+    if (!emailService.isConfigured()) {
+      Logger.warn('Skipping status notifications - email service is not configured', { orderId, recipients });
+      return;
+    }
+
+    const order = await this.repository.findById(orderId);
+    if (!order) {
+      return;
+    }
+
+    const airportCode = order.airport_details?.airport_code_iata ||
+      order.airport_details?.airport_code_icao ||
+      (order.airport && order.airport.length <= 10 ? order.airport : '') ||
+      '';
+
+    for (const recipient of recipients) {
+      try {
+        const email = recipient === 'client' ? order.client?.email : order.caterer_details?.caterer_email;
+        if (!email) {
+          Logger.warn('Skipping status notification - no email address', { orderId, recipient, status: order.status });
+          continue;
+        }
+
+        const purpose = getEmailPurposeFromStatus(order.status, recipient);
+        const template = emailService.getTemplate(recipient, order.status);
+        const name = recipient === 'client'
+          ? order.client?.full_name?.split(' ')[0] || 'Valued Customer'
+          : 'Team';
+        const subject = emailService.getSubject(
+          order.order_number || '',
+          recipient,
+          purpose,
+          airportCode,
+          order.status,
+          order.delivery_date,
+          formatDeliveryTime(order)
+        );
+        // Caterer emails carry a signed link to accept/decline/propose changes on the caterer portal,
+        // client quote emails a signed link to approve (and pay) the quote
+        let body = template.body(name);
+        const catererPortalService = getCatererPortalService();
+        const quoteApprovalService = getQuoteApprovalService();
+        if (recipient === 'caterer' && catererPortalService.shouldIncludeResponseLink(order, purpose)) {
+          const link = await catererPortalService.createResponseLink(order, email, actorUserId);
+          body = catererPortalService.appendResponseLink(body, link);
+        } else if (recipient === 'client' && quoteApprovalService.shouldIncludeQuoteLink(order, purpose)) {
+          const link = await quoteApprovalService.createQuoteLink(order, email, actorUserId);
+          body = quoteApprovalService.appendQuoteLink(body, link);
+        }
+        const html = emailService.generateEmailHTML(body, order.order_number || '');
+
+        // Same PDF rules as the send-to-* endpoints: caterers and delivered orders get PDF B
+        const pdfFormat = recipient === 'caterer' || order.status === 'delivered' ? 'B' : getPDFFormat('client', purpose);
+        const pdf = pdfFormat === 'B'
+          ? await this.getOrCreateOrderPdfB(orderId, recipient)
+          : await this.getOrCreateOrderPdf(orderId);
+
+        const result = await emailService.sendEmail({
+          to: email,
+          subject,
+          html,
+          attachments: [{
+            filename: pdf.filename,
+            content: pdf.buffer,
+            contentType: 'application/pdf',
+          }],
+        });
+
+        if (!result.success) {
+          Logger.warn('Status notification email failed', { orderId, recipient, error: result.error });
+          continue;
+        }
+
+        await this.recordEmailSent(order, {
+          recipient_type: recipient,
+          recipient: email,
+          subject,
+          purpose,
+          pdf_format: pdfFormat,
+          message_id: result.messageId,
+        }, actorUserId);
+
+        Logger.info('Status notification sent', { orderId, recipient, status: order.status, purpose });
+      } catch (error) {
+        Logger.error('Failed to send status notification', error, { orderId, recipient });
+      }
+    }
+  }
+
   async deleteOrder(id: number): Promise<boolean> {
     return this.repository.delete(id);
   }
@@ -606,6 +1084,9 @@ export class OrderService {
     // Generate and store (changes are already attached to order object)
     const pdfBuffer = await generateOrderPDFBuffer(order);
     await this.repository.savePdf(orderId, pdfBuffer, filename, mimeType);
+    if (regenerate) {
+      await this.orderEventService.recordPdfRegenerated(orderId, { format: 'A', filename, reason: 'manual_regenerate' });
+    }
 
     return {
       buffer: pdfBuffer,
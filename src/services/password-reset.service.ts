@@ -18,8 +18,8 @@ export class PasswordResetService {
       return null;
     }
 
-    // Check for existing OTP
-    const existing = await this.passwordResetRepository.findByUserId(user.id);
+    // Check for existing OTP, including one just used up by wrong guesses
+    const existing = await this.passwordResetRepository.findLatestByUserId(user.id);
     if (existing && existing.request_count >= 5) {
       Logger.warn('Too many OTP requests', { userId: user.id, email });
       throw new Error('Too many password reset attempts. Please try again later.');
@@ -30,23 +30,24 @@ export class PasswordResetService {
     const expiresAt = new Date(Date.now() + env.OTP_EXPIRY_MINUTES * 60 * 1000);
 
     if (existing) {
-      // Update existing OTP
-      await this.passwordResetRepository.incrementRequestCount(existing.id);
       // Delete and recreate for simplicity
       await this.passwordResetRepository.deleteExpired();
     }
 
+    // The request count carries over to the replacement OTP so the cap above applies
     await this.passwordResetRepository.create({
       user_id: user.id,
       otp_hash: otpHash,
       expires_at: expiresAt,
+      request_count: existing ? existing.request_count + 1 : 1,
     });
 
     return { otp, expiresAt };
   }
 
   /**
-   * Verify OTP and reset password
+   * Verify OTP and reset password. Each wrong guess counts against the OTP, which is
+   * invalidated after OTP_MAX_ATTEMPTS so a new one must be requested.
    */
   async verifyOTPAndReset(email: string, otp: string, newPassword: string): Promise<boolean> {
     const user = await this.userRepository.findByEmail(email);
@@ -58,9 +59,18 @@ export class PasswordResetService {
     if (!otpRecord) {
       return false;
     }
+    if (otpRecord.attempt_count >= env.OTP_MAX_ATTEMPTS) {
+      return false;
+    }
 
     // Verify OTP
     if (!compareToken(otp, otpRecord.otp_hash)) {
+      const attempts = await this.passwordResetRepository.incrementAttemptCount(otpRecord.id);
+      if (attempts >= env.OTP_MAX_ATTEMPTS) {
+        await this.passwordResetRepository.markAsUsed(otpRecord.id);
+        Logger.warn('Password reset OTP invalidated after too many attempts', { userId: user.id, attempts });
+        throw new Error('Too many incorrect codes. Please request a new password reset.');
+      }
       return false;
     }
 
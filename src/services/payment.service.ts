@@ -1,14 +1,37 @@
 import { SquareClient, SquareEnvironment } from 'square';
 import { v4 as uuidv4 } from 'uuid';
 import { getPaymentRepository, getOrderRepository, getInvoiceRepository, getClientRepository } from '../repositories';
-import { PaymentTransaction, StoredCard, ProcessPaymentDTO, ProcessPaymentResponse, CreatePaymentTransactionDTO, CreateStoredCardDTO } from '../models/payment';
+import { PaymentTransaction, StoredCard, PaymentRefund, ProcessPaymentDTO, ProcessPaymentResponse, CreatePaymentTransactionDTO, CreateStoredCardDTO, ProcessRefundDTO, ProcessRefundResponse } from '../models/payment';
+import { InvoiceOrderLink } from '../models/invoice';
+import { Order } from '../models/order';
 import { Logger } from '../utils/logger';
+import { DEFAULT_CURRENCY, toMinorUnits, fromMinorUnits } from '../utils/currency';
+import { hashToken } from '../utils/crypto';
+import { getOrderEventService } from './order-event.service';
+
+/**
+ * Amount captured for an order, net of completed and pending refunds. A plain function so
+ * callers can read the balance without a configured Square client.
+ */
+export async function getNetPaidAmount(orderId: number): Promise<number> {
+  const paymentRepository = getPaymentRepository();
+  const transactions = await paymentRepository.findTransactionsByOrderId(orderId);
+  const paidAmount = transactions
+    .filter(t => t.status === 'completed' || t.status === 'refunded')
+    .reduce((sum, t) => sum + t.amount, 0);
+  const refunds = await paymentRepository.findRefundsByOrderId(orderId);
+  const refundedAmount = refunds
+    .filter(r => r.status === 'completed' || r.status === 'pending')
+    .reduce((sum, r) => sum + r.amount, 0);
+  return Math.round((paidAmount - refundedAmount) * 100) / 100;
+}
 
 export class PaymentService {
   private paymentRepository = getPaymentRepository();
   private orderRepository = getOrderRepository();
   private invoiceRepository = getInvoiceRepository();
   private clientRepository = getClientRepository();
+  private orderEventService = getOrderEventService();
   private squareClient: SquareClient;
 
   constructor() {
@@ -64,6 +87,9 @@ export class PaymentService {
       timestamp: new Date().toISOString(),
     });
 
+    // Payments are taken in the order's currency
+    let currency = DEFAULT_CURRENCY;
+
     try {
       const order = await this.orderRepository.findById(paymentData.order_id);
       if (!order) {
@@ -75,6 +101,7 @@ export class PaymentService {
           error: 'Order not found',
         };
       }
+      currency = order.currency || DEFAULT_CURRENCY;
 
       Logger.info('Order retrieved for payment', {
         orderId: order.id,
@@ -86,18 +113,21 @@ export class PaymentService {
         orderTotal: order.total,
       });
 
-      // Check if order is already paid
+      // Check if order is already paid; a balance left by a partial refund can still be charged
       const existingTransactions = await this.paymentRepository.findTransactionsByOrderId(paymentData.order_id);
-      const hasCompletedPayment = existingTransactions.some(t => t.status === 'completed');
+      const netPaid = await getNetPaidAmount(paymentData.order_id);
+      const orderTotal = parseFloat(order.total as any) || 0;
+      const isFullyPaid = netPaid > 0 && netPaid >= orderTotal - 0.005;
       
       Logger.info('Checking existing transactions', {
         orderId: paymentData.order_id,
         existingTransactionCount: existingTransactions.length,
-        hasCompletedPayment,
+        netPaid,
+        orderTotal,
         transactionStatuses: existingTransactions.map(t => t.status),
       });
 
-      if (hasCompletedPayment) {
+      if (isFullyPaid) {
         Logger.warn('Payment processing blocked: Order already paid', {
           orderId: paymentData.order_id,
           existingTransactions: existingTransactions.map(t => ({
@@ -165,14 +195,14 @@ export class PaymentService {
       const paymentsApi = this.squareClient.payments;
       
       const finalCustomerId = correctCustomerId || paymentData.customer_id;
-      const amountInCents = BigInt(Math.round(paymentData.amount * 100));
+      const amountInCents = toMinorUnits(paymentData.amount, currency);
       
       const paymentRequest: any = {
         sourceId: paymentData.source_id,
         idempotencyKey: paymentData.idempotency_key,
         amountMoney: {
           amount: amountInCents,
-          currency: 'USD',
+          currency,
         },
         locationId: locationId,
         note: `Payment for order ${order.order_number}`,
@@ -256,7 +286,7 @@ export class PaymentService {
           order_id: paymentData.order_id,
           square_payment_id: squarePayment.id || '',
           amount: paymentData.amount,
-          currency: 'USD',
+          currency,
           payment_method: paymentData.payment_method,
           card_last_4: cardLast4,
           card_brand: cardBrand,
@@ -288,6 +318,22 @@ export class PaymentService {
           Logger.info('Order payment status updated to paid', {
             orderId: paymentData.order_id,
           });
+
+          await this.orderEventService.record({
+            order_id: paymentData.order_id,
+            event_type: 'payment_received',
+            actor_user_id: adminUserId,
+            after: {
+              transaction_id: transaction.id,
+              square_payment_id: transaction.square_payment_id,
+              amount: transaction.amount,
+              payment_method: transaction.payment_method,
+              status: transaction.status,
+            },
+          });
+          if (!order.is_paid) {
+            await this.orderEventService.recordPaymentStatusChanged(paymentData.order_id, false, true, adminUserId);
+          }
         }
 
         // Handle card storage if requested
@@ -360,7 +406,7 @@ export class PaymentService {
           order_id: paymentData.order_id,
           square_payment_id: `failed_${uuidv4()}`,
           amount: paymentData.amount,
-          currency: 'USD',
+          currency,
           payment_method: paymentData.payment_method,
           status: 'failed',
           error_message: errorMessage,
@@ -401,7 +447,7 @@ export class PaymentService {
           order_id: paymentData.order_id,
           square_payment_id: `error_${uuidv4()}`,
           amount: paymentData.amount,
-          currency: 'USD',
+          currency,
           payment_method: paymentData.payment_method,
           status: 'failed',
           error_message: error.message || 'Payment processing error',
@@ -477,6 +523,353 @@ export class PaymentService {
     return await this.paymentRepository.findTransactionById(transactionId);
   }
 
+  /**
+   * Get refunds recorded for an order
+   */
+  async getOrderRefunds(orderId: number): Promise<PaymentRefund[]> {
+    return await this.paymentRepository.findRefundsByOrderId(orderId);
+  }
+
+  /**
+   * Refund (fully or partially) a completed payment using the Square Refunds API
+   */
+  async refundPayment(
+    orderId: number,
+    transactionId: number,
+    refundData: ProcessRefundDTO,
+    adminUserId: number
+  ): Promise<ProcessRefundResponse> {
+    Logger.info('=== REFUND PROCESSING START ===', {
+      orderId,
+      transactionId,
+      amount: refundData.amount,
+      reason: refundData.reason,
+      adminUserId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const transaction = await this.paymentRepository.findTransactionById(transactionId);
+      if (!transaction || transaction.order_id !== orderId) {
+        return {
+          success: false,
+          error: 'Payment transaction not found',
+        };
+      }
+
+      if (transaction.status !== 'completed') {
+        return {
+          success: false,
+          error: `Cannot refund a payment with status ${transaction.status}`,
+        };
+      }
+
+      // Pending and completed refunds both count against the refundable balance
+      const existingRefunds = await this.paymentRepository.findRefundsByTransactionId(transactionId);
+      const alreadyRefunded = existingRefunds
+        .filter(r => r.status === 'completed' || r.status === 'pending')
+        .reduce((sum, r) => sum + r.amount, 0);
+      const refundable = Math.round((transaction.amount - alreadyRefunded) * 100) / 100;
+
+      if (refundData.amount > refundable) {
+        Logger.warn('Refund amount exceeds refundable balance', {
+          orderId,
+          transactionId,
+          requested: refundData.amount,
+          refundable,
+          alreadyRefunded,
+        });
+        return {
+          success: false,
+          error: `Refund amount exceeds refundable balance of ${refundable.toFixed(2)}`,
+        };
+      }
+
+      const currency = transaction.currency || DEFAULT_CURRENCY;
+      const amountInCents = toMinorUnits(refundData.amount, currency);
+      const refundRequest: any = {
+        idempotencyKey: this.buildRefundIdempotencyKey(transactionId, amountInCents, refundData.idempotency_key),
+        paymentId: transaction.square_payment_id,
+        amountMoney: {
+          amount: amountInCents,
+          currency,
+        },
+        reason: refundData.reason,
+      };
+
+      Logger.info('Creating Square refund request', {
+        orderId,
+        transactionId,
+        squarePaymentId: transaction.square_payment_id,
+        amountInCents: amountInCents.toString(),
+        currency,
+        idempotencyKey: refundRequest.idempotencyKey,
+      });
+
+      const response: any = await this.squareClient.refunds.refundPayment(refundRequest);
+
+      // SDK v40+ returns data directly on response object, not nested in body/result
+      const squareRefund = response.refund || response.body?.refund || response.result?.refund;
+
+      if (!squareRefund) {
+        const errors = response.errors || response.body?.errors || response.result?.errors || [];
+        const errorMessage = errors[0]?.detail || 'Refund processing failed';
+
+        Logger.error('=== REFUND PROCESSING FAILED ===', {
+          orderId,
+          transactionId,
+          errorCode: errors[0]?.code || 'UNKNOWN',
+          errorMessage,
+          errors: this.safeSerialize(errors),
+        });
+
+        return {
+          success: false,
+          error: errorMessage,
+          square_error_code: errors[0]?.code,
+        };
+      }
+
+      // The refund webhook may have recorded this refund already
+      const existingRefund = await this.paymentRepository.findRefundBySquareRefundId(squareRefund.id);
+      const refund = await this.paymentRepository.createRefund({
+        payment_transaction_id: transactionId,
+        order_id: orderId,
+        square_refund_id: squareRefund.id,
+        amount: refundData.amount,
+        currency,
+        reason: refundData.reason,
+        status: this.mapSquareRefundStatus(squareRefund.status),
+        processed_by: adminUserId,
+      });
+      const refundStatus = refund.status;
+
+      if (!existingRefund) {
+        await this.orderEventService.record({
+          order_id: orderId,
+          event_type: 'payment_refunded',
+          actor_user_id: adminUserId,
+          after: {
+            refund_id: refund.id,
+            square_refund_id: refund.square_refund_id,
+            transaction_id: transactionId,
+            amount: refund.amount,
+            status: refund.status,
+          },
+          metadata: { reason: refundData.reason },
+        });
+      }
+
+      Logger.info('Refund record saved to database', {
+        refundId: refund.id,
+        squareRefundId: refund.square_refund_id,
+        status: refund.status,
+        amount: refund.amount,
+      });
+
+      const { transaction: updatedTransaction, isPaid } = await this.syncRefundState(transactionId, orderId, adminUserId);
+
+      Logger.info('=== REFUND PROCESSING SUCCESS ===', {
+        orderId,
+        transactionId,
+        refundId: refund.id,
+        squareRefundId: refund.square_refund_id,
+        refundStatus,
+        orderIsPaid: isPaid,
+      });
+
+      return {
+        success: refundStatus !== 'failed' && refundStatus !== 'rejected',
+        refund,
+        payment_transaction: updatedTransaction || transaction,
+        order_is_paid: isPaid,
+        error: refundStatus === 'failed' || refundStatus === 'rejected' ? `Refund ${refundStatus}` : undefined,
+      };
+    } catch (error: any) {
+      Logger.error('=== REFUND PROCESSING EXCEPTION ===', {
+        orderId,
+        transactionId,
+        amount: refundData.amount,
+        errorMessage: error.message,
+        errorStack: error.stack,
+        errorBody: this.safeSerialize(error.body),
+        errorResult: this.safeSerialize(error.result),
+      });
+      return {
+        success: false,
+        error: error.message || 'Refund processing failed',
+      };
+    }
+  }
+
+  /**
+   * Handle refund.created / refund.updated webhooks.
+   * Updates a known refund, or records one initiated outside the app (e.g. the Square dashboard).
+   */
+  async processRefundWebhook(squareRefund: any): Promise<ProcessRefundResponse> {
+    try {
+      const squareRefundId = squareRefund?.id;
+      const squarePaymentId = squareRefund?.payment_id;
+      if (!squareRefundId || !squarePaymentId) {
+        return {
+          success: false,
+          error: 'Invalid refund webhook data',
+        };
+      }
+
+      const refundStatus = this.mapSquareRefundStatus(squareRefund.status);
+      let refund = await this.paymentRepository.findRefundBySquareRefundId(squareRefundId);
+
+      if (refund) {
+        if (refund.status !== refundStatus) {
+          refund = await this.paymentRepository.updateRefundStatus(
+            refund.id!,
+            refundStatus,
+            refundStatus === 'failed' || refundStatus === 'rejected' ? `Square refund ${squareRefund.status}` : undefined
+          );
+        }
+      } else {
+        const transaction = await this.paymentRepository.findTransactionBySquarePaymentId(squarePaymentId);
+        if (!transaction) {
+          Logger.warn('Refund webhook for unknown payment - ignoring', {
+            squareRefundId,
+            squarePaymentId,
+          });
+          return {
+            success: true,
+          };
+        }
+
+        refund = await this.paymentRepository.createRefund({
+          payment_transaction_id: transaction.id!,
+          order_id: transaction.order_id,
+          square_refund_id: squareRefundId,
+          amount: fromMinorUnits(squareRefund.amount_money?.amount || 0, squareRefund.amount_money?.currency || transaction.currency || DEFAULT_CURRENCY),
+          currency: squareRefund.amount_money?.currency || transaction.currency || DEFAULT_CURRENCY,
+          reason: squareRefund.reason,
+          status: refundStatus,
+          processed_by: null,
+        });
+
+        // Refunds initiated outside the app (e.g. Square Dashboard) only reach us via webhook
+        await this.orderEventService.record({
+          order_id: refund.order_id,
+          event_type: 'payment_refunded',
+          actor_user_id: null,
+          after: {
+            refund_id: refund.id,
+            square_refund_id: refund.square_refund_id,
+            transaction_id: refund.payment_transaction_id,
+            amount: refund.amount,
+            status: refund.status,
+          },
+          metadata: { reason: refund.reason, source: 'webhook' },
+        });
+      }
+
+      if (!refund) {
+        return {
+          success: false,
+          error: 'Failed to update refund',
+        };
+      }
+
+      const { transaction, isPaid } = await this.syncRefundState(refund.payment_transaction_id, refund.order_id);
+
+      Logger.info('Refund webhook processed', {
+        refundId: refund.id,
+        squareRefundId,
+        status: refund.status,
+        orderId: refund.order_id,
+        orderIsPaid: isPaid,
+      });
+
+      return {
+        success: true,
+        refund,
+        payment_transaction: transaction || undefined,
+        order_is_paid: isPaid,
+      };
+    } catch (error: any) {
+      Logger.error('Failed to process refund webhook', error, {
+        squareRefundId: squareRefund?.id,
+      });
+      return {
+        success: false,
+        error: error.message || 'Failed to process refund webhook',
+      };
+    }
+  }
+
+  /**
+   * Recalculate refund effects: mark a fully refunded transaction as refunded
+   * and flip orders.is_paid when the net paid amount drops below the order total.
+   */
+  private async syncRefundState(
+    transactionId: number,
+    orderId: number,
+    actorUserId: number | null = null
+  ): Promise<{ transaction: PaymentTransaction | null; isPaid: boolean }> {
+    let transaction = await this.paymentRepository.findTransactionById(transactionId);
+    if (transaction) {
+      const refunds = await this.paymentRepository.findRefundsByTransactionId(transactionId);
+      const refundedAmount = refunds
+        .filter(r => r.status === 'completed')
+        .reduce((sum, r) => sum + r.amount, 0);
+      if (refundedAmount >= transaction.amount - 0.005 && transaction.status === 'completed') {
+        transaction = await this.paymentRepository.updateTransactionStatus(transactionId, 'refunded');
+      }
+    }
+
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      return { transaction, isPaid: false };
+    }
+
+    const netPaid = await getNetPaidAmount(orderId);
+    const orderTotal = parseFloat(order.total as any) || 0;
+    const isPaid = netPaid > 0 && netPaid >= orderTotal - 0.005;
+
+    if (!!order.is_paid !== isPaid) {
+      Logger.info('Updating order payment status after refund', {
+        orderId,
+        netPaid,
+        orderTotal,
+        previousIsPaid: order.is_paid,
+        isPaid,
+      });
+      await this.orderRepository.update(orderId, { is_paid: isPaid });
+      await this.orderEventService.recordPaymentStatusChanged(orderId, !!order.is_paid, isPaid, actorUserId, {
+        reason: 'refund',
+        net_paid: netPaid,
+      });
+    }
+
+    return { transaction, isPaid };
+  }
+
+  private mapSquareRefundStatus(status: string | undefined): 'pending' | 'completed' | 'rejected' | 'failed' {
+    switch (status) {
+      case 'COMPLETED':
+        return 'completed';
+      case 'REJECTED':
+        return 'rejected';
+      case 'FAILED':
+        return 'failed';
+      default:
+        return 'pending';
+    }
+  }
+
+  /**
+   * Derive the Square idempotency key for a refund from the transaction, the
+   * amount and the client nonce, so a retried request maps to the same refund.
+   * Square caps idempotency keys at 45 characters.
+   */
+  private buildRefundIdempotencyKey(transactionId: number, amountInCents: bigint, clientNonce: string): string {
+    return `refund_${hashToken(`${transactionId}:${amountInCents}:${clientNonce}`).substring(0, 38)}`;
+  }
+
   /**
    * Helper to safely serialize objects with potential BigInt values for logging
    */
@@ -876,109 +1269,208 @@ export class PaymentService {
         createdBy: invoice.created_by,
       });
 
-      // Get order to verify it exists
-      Logger.info('Looking up order for invoice payment', {
-        orderId: invoice.order_id,
-      });
+      // A consolidated invoice covers several orders; each linked order gets its own
+      // transaction for its share of the payment
+      const links: InvoiceOrderLink[] = invoice.is_consolidated
+        ? await this.invoiceRepository.findLinkedOrders(invoice.id!)
+        : [{ invoice_id: invoice.id!, order_id: invoice.order_id, amount }];
+
+      // Load every linked order first so a missing one fails before anything is recorded
+      const orders = new Map<number, Order>();
+      for (const link of links) {
+        const order = await this.orderRepository.findById(link.order_id);
+        if (!order) {
+          Logger.error('=== PROCESS INVOICE PAYMENT FAILED ===', {
+            reason: 'Order not found for invoice payment',
+            invoiceId: invoice.id,
+            orderId: link.order_id,
+            squareInvoiceId,
+            squarePaymentId,
+          });
+          return {
+            success: false,
+            error: 'Order not found',
+          };
+        }
+        orders.set(link.order_id, order);
+      }
 
-      const order = await this.orderRepository.findById(invoice.order_id);
-      if (!order) {
-        Logger.error('=== PROCESS INVOICE PAYMENT FAILED ===', {
-          reason: 'Order not found for invoice payment',
+      if (invoice.is_consolidated) {
+        const allocatedAmount = links.reduce((sum, link) => sum + link.amount, 0);
+        Logger.info('Consolidated invoice - allocating payment across linked orders', {
           invoiceId: invoice.id,
-          orderId: invoice.order_id,
-          squareInvoiceId,
-          squarePaymentId,
+          orderIds: links.map(link => link.order_id),
+          allocatedAmount,
+          paidAmount: amount,
         });
-        return {
-          success: false,
-          error: 'Order not found',
-        };
+        if (Math.abs(allocatedAmount - amount) > 0.01) {
+          Logger.warn('Consolidated invoice payment does not match linked order amounts', {
+            invoiceId: invoice.id,
+            allocatedAmount,
+            paidAmount: amount,
+          });
+        }
       }
 
-      Logger.info('✓ Order found for invoice payment', {
-        orderId: order.id,
-        orderNumber: order.order_number,
-        orderStatus: order.status,
-        orderTotal: order.total,
-        clientId: order.client?.id || 'none',
-        clientName: order.client?.full_name || order.client?.company_name || order.client_name || 'none',
-        clientEmail: order.client?.email || 'none',
-      });
+      // Consolidated payments settle the linked orders in turn, net of earlier payments on
+      // them. A partial payment leaves the orders it doesn't fully cover (and the invoice)
+      // unpaid. Square retries webhooks, so allocations already recorded for this payment
+      // are reused rather than created again.
+      const transactions: PaymentTransaction[] = [];
+      const paidOrderIds: number[] = [];
+      let remaining = amount;
+      let invoiceSettled = true;
+      for (const link of links) {
+        const order = orders.get(link.order_id)!;
+        const orderTransactions = await this.paymentRepository.findTransactionsByOrderId(link.order_id);
+        const existing = orderTransactions.find(t => t.square_payment_id === squarePaymentId);
+        const paidBefore = orderTransactions
+          .filter(t => t.status === 'completed' && t.square_payment_id !== squarePaymentId)
+          .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0);
+
+        const outstanding = invoice.is_consolidated ? Math.max(0, link.amount - paidBefore) : link.amount;
+        const share = existing
+          ? parseFloat(String(existing.amount))
+          : Math.round(Math.min(outstanding, remaining) * 100) / 100;
+        remaining = Math.max(0, remaining - share);
+
+        const covered = !invoice.is_consolidated || paidBefore + share >= link.amount - 0.01;
+        if (!covered) {
+          invoiceSettled = false;
+        }
 
-      // Create payment transaction (same as manual payments)
-      Logger.info('Creating payment transaction record', {
-        orderId: invoice.order_id,
-        squarePaymentId,
-        amount,
-        currency: invoice.currency || 'USD',
-        paymentMethod: 'card',
-        status: 'completed',
-        processedBy: invoice.created_by,
-      });
+        let transaction = existing;
+        if (!transaction && share > 0) {
+          Logger.info('Creating payment transaction record', {
+            orderId: link.order_id,
+            squarePaymentId,
+            amount: share,
+            currency: invoice.currency || 'USD',
+            paymentMethod: 'card',
+            status: 'completed',
+            processedBy: invoice.created_by,
+          });
 
-      const transactionData: CreatePaymentTransactionDTO = {
-        order_id: invoice.order_id,
-        square_payment_id: squarePaymentId,
-        amount: amount,
-        currency: invoice.currency || 'USD',
-        payment_method: 'card', // Invoice payments are typically card payments
-        status: 'completed',
-        processed_by: invoice.created_by, // Use the admin who created the invoice
-      };
+          const transactionData: CreatePaymentTransactionDTO = {
+            order_id: link.order_id,
+            square_payment_id: squarePaymentId,
+            amount: share,
+            currency: invoice.currency || 'USD',
+            payment_method: 'card', // Invoice payments are typically card payments
+            status: 'completed',
+            processed_by: invoice.created_by, // Use the admin who created the invoice
+          };
+
+          transaction = await this.paymentRepository.createTransaction(transactionData);
+
+          Logger.info('✓ Payment transaction created', {
+            transactionId: transaction.id,
+            orderId: link.order_id,
+            squarePaymentId: transaction.square_payment_id,
+            amount: transaction.amount,
+            status: transaction.status,
+            squareCustomerId: transaction.square_customer_id || 'none',
+          });
 
-      const transaction = await this.paymentRepository.createTransaction(transactionData);
+          await this.orderEventService.record({
+            order_id: link.order_id,
+            event_type: 'payment_received',
+            actor_user_id: null,
+            after: {
+              transaction_id: transaction.id,
+              square_payment_id: transaction.square_payment_id,
+              amount: transaction.amount,
+              payment_method: transaction.payment_method,
+              status: transaction.status,
+            },
+            metadata: { invoice_id: invoice.id, square_invoice_id: squareInvoiceId },
+          });
+        } else if (transaction) {
+          Logger.info('Payment transaction already recorded for this payment - reusing it', {
+            transactionId: transaction.id,
+            orderId: link.order_id,
+            squarePaymentId,
+          });
+        }
+        if (transaction) {
+          transactions.push(transaction);
+        }
 
-      Logger.info('✓ Payment transaction created', {
-        transactionId: transaction.id,
-        orderId: invoice.order_id,
-        squarePaymentId: transaction.square_payment_id,
-        amount: transaction.amount,
-        status: transaction.status,
-        squareCustomerId: transaction.square_customer_id || 'none',
-      });
+        if (!covered) {
+          Logger.warn('Invoice payment does not cover linked order - order left unpaid', {
+            invoiceId: invoice.id,
+            orderId: link.order_id,
+            orderAmount: link.amount,
+            paidBefore,
+            allocated: share,
+          });
+          continue;
+        }
 
-      // Update order payment status to paid (same as manual payments)
-      Logger.info('Updating order payment status to paid', {
-        orderId: invoice.order_id,
-        previousStatus: order.status,
-      });
+        if (!order.is_paid) {
+          // Update order payment status to paid (same as manual payments)
+          Logger.info('Updating order payment status to paid', {
+            orderId: link.order_id,
+            previousStatus: order.status,
+          });
+
+          await this.orderRepository.update(link.order_id, { is_paid: true });
+          await this.orderEventService.recordPaymentStatusChanged(link.order_id, false, true, null, {
+            invoice_id: invoice.id,
+          });
 
-      await this.orderRepository.update(invoice.order_id, { is_paid: true });
+          Logger.info('✓ Order payment status updated to paid', {
+            orderId: link.order_id,
+          });
+        }
+        paidOrderIds.push(link.order_id);
+      }
 
-      Logger.info('✓ Order payment status updated to paid', {
-        orderId: invoice.order_id,
-      });
+      if (remaining > 0.01) {
+        Logger.warn('Invoice payment exceeds the amount owed on linked orders', {
+          invoiceId: invoice.id,
+          squarePaymentId,
+          unallocated: remaining,
+        });
+      }
 
-      // Update invoice status to 'paid'
-      Logger.info('Updating invoice status to paid', {
-        invoiceId: invoice.id,
-        previousStatus: invoice.status,
-      });
+      if (invoiceSettled) {
+        // Update invoice status to 'paid'
+        Logger.info('Updating invoice status to paid', {
+          invoiceId: invoice.id,
+          previousStatus: invoice.status,
+        });
 
-      await this.invoiceRepository.updateStatus(invoice.id!, {
-        status: 'paid',
-        paid_at: new Date(),
-      });
+        await this.invoiceRepository.updateStatus(invoice.id!, {
+          status: 'paid',
+          paid_at: new Date(),
+        });
 
-      Logger.info('✓ Invoice status updated to paid', {
-        invoiceId: invoice.id,
-        paidAt: new Date().toISOString(),
-      });
+        Logger.info('✓ Invoice status updated to paid', {
+          invoiceId: invoice.id,
+          paidAt: new Date().toISOString(),
+        });
+      } else {
+        Logger.warn('Invoice partially paid - left pending', {
+          invoiceId: invoice.id,
+          squarePaymentId,
+          amount,
+        });
+      }
 
       Logger.info('=== PROCESS INVOICE PAYMENT SUCCESS ===', {
         invoiceId: invoice.id,
-        orderId: invoice.order_id,
-        transactionId: transaction.id,
+        orderIds: links.map(link => link.order_id),
+        paidOrderIds,
+        transactionIds: transactions.map(transaction => transaction.id),
         squarePaymentId,
         amount,
-        orderStatusUpdated: true,
-        invoiceStatusUpdated: true,
+        invoiceStatusUpdated: invoiceSettled,
       });
 
       return {
         success: true,
-        payment_transaction: transaction,
+        payment_transaction: transactions[0],
       };
     } catch (error: any) {
       Logger.error('=== PROCESS INVOICE PAYMENT EXCEPTION ===', {
@@ -0,0 +1,270 @@
+import { Order, OrderItem, OrderAddon, OrderTaxLine } from '../models/order';
+import { TaxCharge } from '../models/tax-charge';
+import { Airport } from '../models/airport';
+import { getTaxChargeRepository, getMenuItemRepository, getAddonItemRepository, getAirportRepository } from '../repositories';
+
+export interface OrderTaxResult {
+  tax_breakdown: OrderTaxLine[];
+  tax_total: number;
+}
+
+interface PricedLine {
+  index: number;
+  is_addon: boolean;
+  name: string;
+  amount: number;
+  quantity: number;
+  categories: string[];
+  menuItemTaxRate: number;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: any): number {
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(num) ? 0 : num;
+}
+
+/**
+ * Pricing engine - applies active TaxCharge rules and per-item MenuItem.tax_rate to an order.
+ *
+ * Rule semantics:
+ * - applies_to 'all': every item line
+ * - applies_to 'category': item lines whose menu item (or line) category matches the charge category
+ * - applies_to 'location': every item line when the order airport matches the charge location
+ *   (IATA/ICAO code or airport name, case-insensitive)
+ * - applies_to 'item': every item line; flat rates are charged per unit of quantity
+ * - min_amount / max_amount bound the taxable amount a charge applies to
+ * Percentage charges produce one line per item; flat charges produce a single order-level line.
+ * Add-on lines are priced like item lines; tax lines for them carry addon_index instead of item_index.
+ */
+export class PricingService {
+  private taxChargeRepository = getTaxChargeRepository();
+  private menuItemRepository = getMenuItemRepository();
+  private addonItemRepository = getAddonItemRepository();
+  private airportRepository = getAirportRepository();
+
+  async calculateOrderTaxes(order: Order): Promise<OrderTaxResult> {
+    const items = order.items || [];
+    const addons = order.addons || [];
+    if (items.length === 0 && addons.length === 0) {
+      return { tax_breakdown: [], tax_total: 0 };
+    }
+
+    const lines = [...await this.buildPricedLines(items), ...await this.buildAddonLines(addons)];
+    const airport = await this.resolveAirport(order);
+    const charges = await this.getActiveTaxCharges();
+
+    const breakdown: OrderTaxLine[] = [];
+
+    for (const charge of charges) {
+      const matchingLines = this.getMatchingLines(charge, lines, order, airport);
+      if (matchingLines.length === 0) {
+        continue;
+      }
+
+      const taxableAmount = matchingLines.reduce((sum, line) => sum + line.amount, 0);
+      if (!this.isWithinBounds(charge, taxableAmount)) {
+        continue;
+      }
+
+      const rate = toNumber(charge.rate);
+      if (rate <= 0) {
+        continue;
+      }
+
+      if (charge.is_percentage) {
+        for (const line of matchingLines) {
+          const amount = roundCurrency(line.amount * rate / 100);
+          if (amount <= 0) continue;
+          breakdown.push({
+            source: 'tax_charge',
+            tax_charge_id: charge.id,
+            name: charge.name,
+            type: charge.type,
+            rate,
+            is_percentage: true,
+            ...this.lineReference(line),
+            taxable_amount: roundCurrency(line.amount),
+            amount,
+          });
+        }
+      } else {
+        const units = charge.applies_to === 'item'
+          ? matchingLines.reduce((sum, line) => sum + line.quantity, 0)
+          : 1;
+        breakdown.push({
+          source: 'tax_charge',
+          tax_charge_id: charge.id,
+          name: charge.name,
+          type: charge.type,
+          rate,
+          is_percentage: false,
+          taxable_amount: roundCurrency(taxableAmount),
+          amount: roundCurrency(rate * units),
+        });
+      }
+    }
+
+    // Per-item tax rates configured on the menu item itself
+    for (const line of lines) {
+      if (line.menuItemTaxRate <= 0) continue;
+      const amount = roundCurrency(line.amount * line.menuItemTaxRate / 100);
+      if (amount <= 0) continue;
+      breakdown.push({
+        source: 'menu_item',
+        name: 'Item Tax',
+        type: 'tax',
+        rate: line.menuItemTaxRate,
+        is_percentage: true,
+        ...this.lineReference(line),
+        taxable_amount: roundCurrency(line.amount),
+        amount,
+      });
+    }
+
+    const taxTotal = roundCurrency(breakdown.reduce((sum, line) => sum + line.amount, 0));
+
+    return { tax_breakdown: breakdown, tax_total: taxTotal };
+  }
+
+  private async buildPricedLines(items: OrderItem[]): Promise<PricedLine[]> {
+    return Promise.all(
+      items.map(async (item, i) => {
+        const quantity = parseFloat(item.portion_size) || 1;
+        const categories: string[] = [];
+        let menuItemTaxRate = 0;
+
+        if (item.category) {
+          categories.push(item.category.toLowerCase());
+        }
+
+        if (item.menu_item_id) {
+          const menuItem = await this.menuItemRepository.findById(item.menu_item_id);
+          if (menuItem) {
+            if (menuItem.category) {
+              categories.push(menuItem.category.toString().toLowerCase());
+            }
+            menuItemTaxRate = toNumber(menuItem.tax_rate);
+          }
+        }
+
+        return {
+          index: item.sort_order ?? i,
+          is_addon: false,
+          name: item.item_name,
+          amount: toNumber(item.price) * quantity,
+          quantity,
+          categories,
+          menuItemTaxRate,
+        };
+      })
+    );
+  }
+
+  private async buildAddonLines(addons: OrderAddon[]): Promise<PricedLine[]> {
+    return Promise.all(
+      addons.map(async (addon, i) => {
+        const categories: string[] = [];
+        if (addon.addon_item_id) {
+          const addonItem = await this.addonItemRepository.findById(addon.addon_item_id);
+          if (addonItem?.category) {
+            categories.push(addonItem.category.toString().toLowerCase());
+          }
+        }
+
+        return {
+          index: addon.sort_order ?? i,
+          is_addon: true,
+          name: addon.name,
+          amount: toNumber(addon.price) * addon.quantity,
+          quantity: addon.quantity,
+          categories,
+          menuItemTaxRate: 0,
+        };
+      })
+    );
+  }
+
+  private lineReference(line: PricedLine): Pick<OrderTaxLine, 'item_index' | 'addon_index' | 'item_name'> {
+    return line.is_addon
+      ? { addon_index: line.index, item_name: line.name }
+      : { item_index: line.index, item_name: line.name };
+  }
+
+  private async resolveAirport(order: Order): Promise<Airport | null> {
+    if (order.airport_details) {
+      return order.airport_details;
+    }
+    if (order.airport_id) {
+      return this.airportRepository.findById(order.airport_id);
+    }
+    return null;
+  }
+
+  private async getActiveTaxCharges(): Promise<TaxCharge[]> {
+    const result = await this.taxChargeRepository.findAll({
+      is_active: true,
+      sortBy: 'id',
+      sortOrder: 'asc',
+      limit: 1000,
+    });
+    return result.tax_charges;
+  }
+
+  private getMatchingLines(charge: TaxCharge, lines: PricedLine[], order: Order, airport: Airport | null): PricedLine[] {
+    switch (charge.applies_to) {
+      case 'all':
+      case 'item':
+        return lines;
+      case 'category': {
+        if (!charge.category) return [];
+        const category = charge.category.toString().toLowerCase();
+        return lines.filter(line => line.categories.includes(category));
+      }
+      case 'location':
+        return this.matchesLocation(charge.location, order, airport) ? lines : [];
+      default:
+        return [];
+    }
+  }
+
+  private matchesLocation(location: string | undefined, order: Order, airport: Airport | null): boolean {
+    if (!location) return false;
+    const target = location.trim().toLowerCase();
+    if (!target) return false;
+
+    const candidates = [
+      airport?.airport_code_iata,
+      airport?.airport_code_icao,
+      airport?.airport_name,
+    ].filter((value): value is string => !!value).map(value => value.toLowerCase());
+
+    if (candidates.includes(target)) {
+      return true;
+    }
+
+    // Fall back to the airport display string, e.g. "Teterboro Airport (TEB)"
+    const airportDisplay = (order.airport || '').toLowerCase();
+    return !!airportDisplay && (airportDisplay === target || airportDisplay.includes(`(${target})`));
+  }
+
+  private isWithinBounds(charge: TaxCharge, taxableAmount: number): boolean {
+    const min = charge.min_amount !== undefined && charge.min_amount !== null ? toNumber(charge.min_amount) : null;
+    const max = charge.max_amount !== undefined && charge.max_amount !== null ? toNumber(charge.max_amount) : null;
+    if (min !== null && taxableAmount < min) return false;
+    if (max !== null && max > 0 && taxableAmount > max) return false;
+    return true;
+  }
+}
+
+let pricingServiceInstance: PricingService | null = null;
+
+export function getPricingService(): PricingService {
+  if (!pricingServiceInstance) {
+    pricingServiceInstance = new PricingService();
+  }
+  return pricingServiceInstance;
+}
@@ -0,0 +1,280 @@
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderLineInput,
+  CreatePurchaseOrderDTO,
+  UpdatePurchaseOrderDTO,
+  ReceivePurchaseOrderDTO,
+  PurchaseOrderSearchParams,
+  PurchaseOrderListResponse,
+  ReorderSuggestion,
+} from '../models/purchase-order';
+import { Supplier } from '../models/supplier';
+import { getPurchaseOrderRepository, getSupplierRepository, getInventoryRepository } from '../repositories';
+import {
+  validatePurchaseOrder,
+  validateReceivePurchaseOrder,
+  validatePurchaseOrderSearchParams,
+} from '../utils/purchase-order-validation';
+import { InventoryService } from './inventory.service';
+import { getInventoryMovementService } from './inventory-movement.service';
+import { Logger } from '../utils/logger';
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Purchase orders restock inventory from suppliers. A draft is edited freely, then sent;
+ * receiving puts the delivered quantities into new inventory lots, records a receipt movement
+ * per line and moves the order to partially_received or received.
+ */
+export class PurchaseOrderService {
+  private repository = getPurchaseOrderRepository();
+  private supplierRepository = getSupplierRepository();
+  private inventoryRepository = getInventoryRepository();
+  private movementService = getInventoryMovementService();
+  private inventoryService = new InventoryService();
+
+  async createPurchaseOrder(data: CreatePurchaseOrderDTO, createdBy?: number): Promise<PurchaseOrder> {
+    this.assertValid(validatePurchaseOrder(data));
+
+    const supplier = await this.findActiveSupplier(data.supplier_id);
+    const lines = await this.resolveLines(data.lines);
+
+    const purchaseOrder = await this.repository.create({
+      supplier_id: supplier.id!,
+      supplier_name: supplier.supplier_name,
+      expected_date: data.expected_date,
+      notes: data.notes,
+      lines,
+    }, createdBy);
+
+    Logger.info('Purchase order created', {
+      purchaseOrderId: purchaseOrder.id,
+      poNumber: purchaseOrder.po_number,
+      supplierId: supplier.id,
+      lineCount: lines.length,
+      createdBy,
+    });
+
+    return purchaseOrder;
+  }
+
+  async getPurchaseOrderById(id: number): Promise<PurchaseOrder | null> {
+    return this.repository.findById(id);
+  }
+
+  async listPurchaseOrders(params: PurchaseOrderSearchParams): Promise<PurchaseOrderListResponse> {
+    this.assertValid(validatePurchaseOrderSearchParams(params));
+    return this.repository.findAll(params);
+  }
+
+  async updatePurchaseOrder(id: number, data: UpdatePurchaseOrderDTO): Promise<PurchaseOrder | null> {
+    this.assertValid(validatePurchaseOrder(data));
+
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+    this.assertDraft(existing, 'edited');
+
+    const supplier = data.supplier_id !== undefined ? await this.findActiveSupplier(data.supplier_id) : null;
+    const lines = data.lines !== undefined ? await this.resolveLines(data.lines) : undefined;
+
+    return this.repository.update(id, {
+      supplier_id: supplier?.id,
+      supplier_name: supplier?.supplier_name,
+      expected_date: data.expected_date,
+      notes: data.notes,
+      lines,
+    });
+  }
+
+  async sendPurchaseOrder(id: number): Promise<PurchaseOrder | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+    this.assertDraft(existing, 'sent');
+
+    const purchaseOrder = await this.repository.updateStatus(id, 'sent');
+    Logger.info('Purchase order sent', { purchaseOrderId: id, poNumber: existing.po_number, supplierId: existing.supplier_id });
+    return purchaseOrder;
+  }
+
+  /**
+   * Receive delivered quantities against a sent purchase order. Each line may be received
+   * in several deliveries but never beyond the quantity ordered.
+   */
+  async receivePurchaseOrder(id: number, data: ReceivePurchaseOrderDTO, receivedBy?: number): Promise<PurchaseOrder | null> {
+    this.assertValid(validateReceivePurchaseOrder(data));
+
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+    if (existing.status !== 'sent' && existing.status !== 'partially_received') {
+      throw new Error(`Validation failed: ${existing.status} purchase orders cannot be received`);
+    }
+
+    const receipts: Array<{ line: PurchaseOrderLine; received: ReceivePurchaseOrderDTO['lines'][number] }> = [];
+    for (const received of data.lines) {
+      const line = existing.lines.find(l => l.id === received.line_id);
+      if (!line) {
+        throw new Error(`Validation failed: line ${received.line_id} is not on purchase order ${existing.po_number}`);
+      }
+      if (!line.inventory_item_id) {
+        throw new Error(`Validation failed: the inventory item of line ${line.id} (${line.item_name}) no longer exists`);
+      }
+      const outstanding = roundQuantity(line.quantity_ordered - line.quantity_received);
+      if (received.quantity > outstanding) {
+        throw new Error(
+          `Validation failed: line ${line.id} (${line.item_name}) has ${outstanding} ${line.unit} outstanding, cannot receive ${received.quantity}`
+        );
+      }
+      const item = await this.inventoryRepository.findById(line.inventory_item_id);
+      if (item) {
+        this.movementService.assertExpiryGiven(item, received.expiry_date);
+      }
+      receipts.push({ line, received });
+    }
+
+    for (const { line, received } of receipts) {
+      await this.repository.addReceivedQuantity(line.id!, received.quantity);
+      await this.movementService.receiveStock(line.inventory_item_id!, {
+        quantity: received.quantity,
+        lot_number: received.lot_number,
+        expiry_date: received.expiry_date,
+        location: received.location,
+        notes: data.notes || `Received on ${existing.po_number}`,
+        purchase_order_id: id,
+        purchase_order_line_id: line.id,
+      }, receivedBy);
+    }
+
+    const updated = (await this.repository.findById(id))!;
+    const fullyReceived = updated.lines.every(line => line.quantity_received >= line.quantity_ordered);
+    const status = fullyReceived ? 'received' : 'partially_received';
+
+    Logger.info('Purchase order received', {
+      purchaseOrderId: id,
+      poNumber: existing.po_number,
+      lineCount: receipts.length,
+      status,
+      receivedBy,
+    });
+
+    return status === updated.status ? updated : this.repository.updateStatus(id, status);
+  }
+
+  async deletePurchaseOrder(id: number): Promise<boolean> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return false;
+    }
+    this.assertDraft(existing, 'deleted');
+    return this.repository.delete(id);
+  }
+
+  /**
+   * How much of each low or out of stock item to order to bring it back to max_stock_level,
+   * net of what is already on open purchase orders
+   */
+  async getReorderSuggestions(): Promise<ReorderSuggestion[]> {
+    const lowStockItems = await this.inventoryService.getLowStockItems();
+
+    const onOrder = new Map<number, number>();
+    for (const line of await this.repository.findOpenLines()) {
+      if (line.inventory_item_id) {
+        const outstanding = Math.max(line.quantity_ordered - line.quantity_received, 0);
+        onOrder.set(line.inventory_item_id, (onOrder.get(line.inventory_item_id) || 0) + outstanding);
+      }
+    }
+
+    const suppliers = new Map<number, Supplier | null>();
+    const suggestions: ReorderSuggestion[] = [];
+    for (const item of lowStockItems) {
+      const currentStock = parseFloat(String(item.current_stock));
+      const maxStockLevel = parseFloat(String(item.max_stock_level));
+      const itemOnOrder = roundQuantity(onOrder.get(item.id!) || 0);
+
+      if (item.supplier_id && !suppliers.has(item.supplier_id)) {
+        suppliers.set(item.supplier_id, await this.supplierRepository.findById(item.supplier_id));
+      }
+      const supplier = item.supplier_id ? suppliers.get(item.supplier_id) : null;
+
+      suggestions.push({
+        inventory_item_id: item.id!,
+        item_name: item.item_name,
+        unit: item.unit,
+        status: item.status,
+        supplier_id: item.supplier_id ?? null,
+        supplier_name: supplier?.supplier_name || item.supplier,
+        current_stock: currentStock,
+        min_stock_level: parseFloat(String(item.min_stock_level)),
+        max_stock_level: maxStockLevel,
+        on_order: itemOnOrder,
+        suggested_quantity: roundQuantity(Math.max(maxStockLevel - currentStock - itemOnOrder, 0)),
+        unit_price: item.unit_price !== undefined && item.unit_price !== null ? parseFloat(String(item.unit_price)) : null,
+      });
+    }
+
+    return suggestions.sort((a, b) =>
+      (a.supplier_name || '').localeCompare(b.supplier_name || '') || a.item_name.localeCompare(b.item_name)
+    );
+  }
+
+  private async findActiveSupplier(supplierId: number): Promise<Supplier> {
+    const supplier = await this.supplierRepository.findById(supplierId);
+    if (!supplier) {
+      throw new Error(`Supplier not found: ${supplierId}`);
+    }
+    if (!supplier.is_active) {
+      throw new Error(`Validation failed: supplier ${supplier.supplier_name} is inactive`);
+    }
+    return supplier;
+  }
+
+  // Snapshots the item name and unit; the unit price defaults to the item's unit_price
+  private async resolveLines(lines: PurchaseOrderLineInput[]): Promise<PurchaseOrderLine[]> {
+    const resolved: PurchaseOrderLine[] = [];
+    for (const line of lines) {
+      const item = await this.inventoryRepository.findById(line.inventory_item_id);
+      if (!item) {
+        throw new Error(`Validation failed: inventory item ${line.inventory_item_id} not found`);
+      }
+      const itemPrice = item.unit_price !== undefined && item.unit_price !== null ? parseFloat(String(item.unit_price)) : null;
+      resolved.push({
+        inventory_item_id: item.id!,
+        item_name: item.item_name,
+        unit: item.unit,
+        quantity_ordered: roundQuantity(line.quantity),
+        quantity_received: 0,
+        unit_price: line.unit_price !== undefined ? line.unit_price : itemPrice,
+      });
+    }
+    return resolved;
+  }
+
+  private assertDraft(purchaseOrder: PurchaseOrder, action: string): void {
+    if (purchaseOrder.status !== 'draft') {
+      throw new Error(`Validation failed: only draft purchase orders can be ${action} (${purchaseOrder.po_number} is ${purchaseOrder.status})`);
+    }
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
+
+let purchaseOrderServiceInstance: PurchaseOrderService | null = null;
+
+export function getPurchaseOrderService(): PurchaseOrderService {
+  if (!purchaseOrderServiceInstance) {
+    purchaseOrderServiceInstance = new PurchaseOrderService();
+  }
+  return purchaseOrderServiceInstance;
+}
@@ -0,0 +1,389 @@
+import { Order, OrderStatus } from '../models/order';
+import { QuotePaymentDTO, QuotePortalView, QuoteResponseAction, QuoteResponseDTO, OrderResponseToken } from '../models/order-response';
+import { getOrderRepository, getOrderResponseTokenRepository, getUserRepository } from '../repositories';
+import { hashToken, generateToken } from '../utils/crypto';
+import { summarizeTaxLines } from '../utils/order-pdf';
+import { env } from '../config/env';
+import { Logger } from '../utils/logger';
+import { getOrderEventService } from './order-event.service';
+import { getEmailService } from './email.service';
+import { getPaymentService, getNetPaidAmount } from './payment.service';
+import { OrderService } from './order.service';
+
+// Status the order moves to for each client response
+const RESPONSE_STATUS: Record<QuoteResponseAction, OrderStatus> = {
+  approve: 'awaiting_caterer',
+  approve_and_pay: 'awaiting_caterer',
+  request_changes: 'awaiting_quote',
+};
+
+// Orders in these states can no longer be approved, so emails skip the links
+const CLOSED_STATUSES: OrderStatus[] = ['delivered', 'cancelled'];
+
+const FEE_LABELS: Array<[keyof Order, string]> = [
+  ['delivery_fee', 'Delivery Fee'],
+  ['service_charge', 'Service Charge'],
+  ['coordination_fee', 'Coordination Fee'],
+  ['airport_fee', 'Airport Fee'],
+  ['fbo_fee', 'FBO Fee'],
+  ['shopping_fee', 'Shopping Fee'],
+  ['restaurant_pickup_fee', 'Restaurant Pickup Fee'],
+  ['airport_pickup_fee', 'Airport Pickup Fee'],
+];
+
+export interface QuoteResponseLink {
+  url: string;
+  expires_at: Date;
+}
+
+export interface QuoteResponseResult {
+  action: QuoteResponseAction;
+  order_number: string;
+  status: OrderStatus;
+  status_updated: boolean;
+  payment_transaction_id?: number;
+}
+
+/**
+ * Client quote approval. Quote emails carry a signed, expiring link to a public quote page
+ * where the client can approve, request changes, or approve and pay by card through
+ * Square Web Payments. Shares the order_response_tokens table with the caterer portal.
+ */
+export class QuoteApprovalService {
+  private tokenRepository = getOrderResponseTokenRepository();
+  private orderRepository = getOrderRepository();
+  private orderEventService = getOrderEventService();
+
+  /**
+   * Whether a client email for this order should carry the quote approval link
+   */
+  shouldIncludeQuoteLink(order: Order, purpose?: string): boolean {
+    return purpose === 'quote' && !CLOSED_STATUSES.includes(order.status);
+  }
+
+  /**
+   * Issue a new quote link for the order's client, revoking earlier unused ones
+   * so the client always approves the latest pricing
+   */
+  async createQuoteLink(order: Order, clientEmail: string, createdByUserId?: number | null): Promise<QuoteResponseLink> {
+    const token = generateToken(32);
+    const expiresAt = new Date(Date.now() + env.QUOTE_LINK_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    await this.tokenRepository.revokeActiveForOrder(order.id!, 'client');
+    await this.tokenRepository.create({
+      order_id: order.id!,
+      recipient_type: 'client',
+      recipient_email: clientEmail,
+      token_hash: hashToken(token),
+      expires_at: expiresAt,
+      created_by_user_id: createdByUserId ?? null,
+    });
+
+    return {
+      url: `${env.FRONTEND_URL}/quote?token=${token}`,
+      expires_at: expiresAt,
+    };
+  }
+
+  /**
+   * Append the quote link to a plain-text client email body
+   */
+  appendQuoteLink(body: string, link: QuoteResponseLink): string {
+    return `${body}
+
+Review and approve your quote online - you can approve it, request changes or approve and pay by card:
+${link.url}
+
+This link expires on ${link.expires_at.toUTCString()}.`;
+  }
+
+  /**
+   * Load the quote behind a link. Used links still resolve so the page can show the
+   * response already given; expired and superseded links do not.
+   */
+  async getQuoteView(token: string): Promise<QuotePortalView | null> {
+    const resolved = await this.resolve(token, false);
+    if (!resolved) {
+      return null;
+    }
+    const { record, order } = resolved;
+    const balanceDue = await this.getBalanceDue(order);
+
+    return {
+      quote: {
+        order_number: order.order_number,
+        status: order.status,
+        client_name: order.client?.full_name || order.client_name,
+        delivery_date: order.delivery_date,
+        delivery_time: order.delivery_time,
+        airport: order.airport_details?.airport_name || order.airport,
+        fbo_name: order.fbo?.fbo_name,
+        aircraft_tail_number: order.aircraft_tail_number,
+        description: order.description,
+        dietary_restrictions: order.dietary_restrictions,
+        items: (order.items || []).map(item => {
+          const price = parseFloat(String(item.price)) || 0;
+          const qty = parseFloat(item.portion_size) || 1;
+          return {
+            item_name: item.item_name,
+            item_description: item.item_description,
+            portion_size: item.portion_size,
+            portion_serving: item.portion_serving,
+            price,
+            total: price * qty,
+          };
+        }),
+        addons: (order.addons || []).map(addon => ({
+          name: addon.name,
+          description: addon.description,
+          quantity: addon.quantity,
+          price: Number(addon.price),
+          total: Number(addon.price) * addon.quantity,
+        })),
+        fees: FEE_LABELS
+          .map(([field, name]) => ({ name, amount: parseFloat(String(order[field] || 0)) || 0 }))
+          .filter(fee => fee.amount > 0),
+        tax_breakdown: summarizeTaxLines(order).map(line => ({ name: line.label, amount: line.amount })),
+        subtotal: parseFloat(String(order.subtotal)) || 0,
+        tax_total: parseFloat(String(order.tax_total || 0)) || 0,
+        total: parseFloat(String(order.total)) || 0,
+        is_paid: !!order.is_paid,
+        balance_due: balanceDue,
+      },
+      expires_at: record.expires_at,
+      responded: !!record.used_at,
+      response: record.response,
+      can_pay: this.canPay(record, order, balanceDue),
+    };
+  }
+
+  /**
+   * Get PDF A (with pricing) for the quote behind a link
+   */
+  async getQuotePdf(token: string): Promise<{ buffer: Buffer; filename: string; mimeType: string } | null> {
+    const resolved = await this.resolve(token, false);
+    if (!resolved) {
+      return null;
+    }
+    const pdf = await new OrderService().getOrCreateOrderPdf(resolved.order.id!);
+    return { buffer: pdf.buffer, filename: pdf.filename, mimeType: pdf.mimeType };
+  }
+
+  /**
+   * Approve the quote or request changes
+   */
+  async respond(token: string, response: QuoteResponseDTO): Promise<QuoteResponseResult | null> {
+    const validActions = ['approve', 'request_changes'];
+    if (!validActions.includes(response.action)) {
+      throw new Error(`Validation failed: action must be one of: ${validActions.join(', ')}`);
+    }
+    const comments = typeof response.comments === 'string' ? response.comments.trim() : '';
+    if (response.action === 'request_changes' && !comments) {
+      throw new Error('Validation failed: comments are required when requesting changes');
+    }
+
+    const resolved = await this.resolve(token, true);
+    if (!resolved) {
+      return null;
+    }
+
+    const claimed = await this.tokenRepository.markAsUsed(resolved.record.id, response.action, comments || null);
+    if (!claimed) {
+      return null;
+    }
+
+    return this.complete(resolved.record, resolved.order, response.action, comments);
+  }
+
+  /**
+   * Charge the outstanding balance by card and approve the quote. The card is tokenized
+   * client-side with Square Web Payments; the amount is always the order total less
+   * what has already been captured and not refunded.
+   * The link is claimed before charging so concurrent submissions cannot both charge,
+   * and released again if the card is declined so the client can retry.
+   */
+  async approveAndPay(token: string, payment: QuotePaymentDTO): Promise<QuoteResponseResult | null> {
+    if (!payment.source_id) {
+      throw new Error('Validation failed: source_id is required');
+    }
+
+    const resolved = await this.resolve(token, true);
+    if (!resolved) {
+      return null;
+    }
+    const { record, order } = resolved;
+    const balanceDue = await this.getBalanceDue(order);
+
+    if (!this.canPay(record, order, balanceDue)) {
+      throw new Error('Validation failed: online payment is not available for this quote');
+    }
+
+    const comments = typeof payment.comments === 'string' ? payment.comments.trim() : '';
+    const claimed = await this.tokenRepository.markAsUsed(record.id, 'approve_and_pay', comments || null);
+    if (!claimed) {
+      return null;
+    }
+
+    // Public payments are attributed to the CSR who sent the quote. The idempotency key is
+    // tied to the link and the card token, so a resubmitted card token is never charged twice.
+    let result;
+    try {
+      result = await getPaymentService().processPayment({
+        order_id: order.id!,
+        amount: balanceDue,
+        payment_method: 'card',
+        source_id: payment.source_id,
+        idempotency_key: `quote-${record.id}-${hashToken(payment.source_id).slice(0, 24)}`,
+      }, record.created_by_user_id!);
+    } catch (error) {
+      await this.tokenRepository.releaseClaim(record.id, 'approve_and_pay');
+      throw error;
+    }
+
+    if (!result.success) {
+      await this.tokenRepository.releaseClaim(record.id, 'approve_and_pay');
+      throw new Error(`Payment failed: ${result.error || 'Unknown error'}`);
+    }
+
+    return this.complete(record, order, 'approve_and_pay', comments, result.payment_transaction?.id);
+  }
+
+  private canPay(record: OrderResponseToken, order: Order, balanceDue: number): boolean {
+    return !record.used_at &&
+      !order.is_paid &&
+      !!record.created_by_user_id &&
+      balanceDue > 0;
+  }
+
+  private async getBalanceDue(order: Order): Promise<number> {
+    const total = parseFloat(String(order.total)) || 0;
+    const netPaid = await getNetPaidAmount(order.id!);
+    return Math.max(0, Math.round((total - netPaid) * 100) / 100);
+  }
+
+  private async resolve(token: string, activeOnly: boolean): Promise<{ record: OrderResponseToken; order: Order } | null> {
+    const tokenHash = hashToken(token);
+    const record = activeOnly
+      ? await this.tokenRepository.findActiveByTokenHash(tokenHash)
+      : await this.tokenRepository.findByTokenHash(tokenHash);
+    if (!record || record.recipient_type !== 'client' || record.revoked_at) {
+      return null;
+    }
+    if (!record.used_at && new Date(record.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    const order = await this.orderRepository.findById(record.order_id);
+    return order ? { record, order } : null;
+  }
+
+  /**
+   * Move the order status and record the response for a link the caller has already claimed.
+   * A response is always recorded; if the current status doesn't allow the move (e.g. no
+   * caterer assigned yet) the status is left as is for the CSR to follow up.
+   */
+  private async complete(
+    record: OrderResponseToken,
+    order: Order,
+    action: QuoteResponseAction,
+    comments: string,
+    paymentTransactionId?: number
+  ): Promise<QuoteResponseResult> {
+    const fromStatus = order.status;
+    const targetStatus = RESPONSE_STATUS[action];
+    let status = order.status;
+    let statusUpdated = false;
+
+    try {
+      const updatedOrder = await new OrderService().updateOrderStatus(order.id!, { status: targetStatus });
+      if (updatedOrder) {
+        status = updatedOrder.status;
+        statusUpdated = status !== fromStatus;
+      }
+    } catch (error: any) {
+      Logger.warn('Quote response recorded without status change', {
+        orderId: order.id,
+        action,
+        fromStatus,
+        targetStatus,
+        error: error.message,
+      });
+    }
+
+    await this.orderEventService.recordQuoteResponse(order.id!, {
+      action,
+      comments: comments || null,
+      client_email: record.recipient_email,
+      from_status: fromStatus,
+      to_status: statusUpdated ? status : null,
+      payment_transaction_id: paymentTransactionId,
+    });
+
+    Logger.info('Client responded to quote', {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      action,
+      fromStatus,
+      status,
+      statusUpdated,
+      paymentTransactionId,
+    });
+
+    await this.notifySender(record.created_by_user_id, order, action, comments, status);
+
+    return {
+      action,
+      order_number: order.order_number,
+      status,
+      status_updated: statusUpdated,
+      payment_transaction_id: paymentTransactionId,
+    };
+  }
+
+  /**
+   * Let the CSR who sent the quote know the client responded. Never fails the response.
+   */
+  private async notifySender(
+    userId: number | null,
+    order: Order,
+    action: QuoteResponseAction,
+    comments: string,
+    status: OrderStatus
+  ): Promise<void> {
+    const emailService = getEmailService();
+    if (!userId || !emailService.isConfigured()) {
+      return;
+    }
+
+    try {
+      const user = await getUserRepository().findById(userId);
+      if (!user) {
+        return;
+      }
+
+      const actionText = action === 'approve' ? 'approved' : action === 'approve_and_pay' ? 'approved and paid' : 'requested changes to';
+      const body = `
+The client ${order.client?.full_name || order.client_name} has ${actionText} the quote for order ${order.order_number}.
+${comments ? `\nClient comments:\n${comments}\n` : ''}
+Current order status: ${status.replace(/_/g, ' ')}
+      `.trim();
+
+      await emailService.sendEmail({
+        to: user.email,
+        subject: `Kabin247 Order#${order.order_number}: quote ${actionText.replace(' to', '')}`,
+        html: emailService.generateEmailHTML(body, order.order_number),
+      });
+    } catch (error) {
+      Logger.error('Failed to notify sender of quote response', error, { orderId: order.id, userId });
+    }
+  }
+}
+
+let quoteApprovalServiceInstance: QuoteApprovalService | null = null;
+
+export function getQuoteApprovalService(): QuoteApprovalService {
+  if (!quoteApprovalServiceInstance) {
+    quoteApprovalServiceInstance = new QuoteApprovalService();
+  }
+  return quoteApprovalServiceInstance;
+}
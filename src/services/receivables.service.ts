@@ -0,0 +1,453 @@
+import { getReceivablesRepository, getClientRepository } from '../repositories';
+import {
+  ClientLedger,
+  ClientLedgerRecords,
+  LedgerEntry,
+  AgingBuckets,
+  CurrencyAgingBuckets,
+  AgingOrderLine,
+  AgingReport,
+  ClientAging,
+  ClientStatement,
+  SendStatementDTO,
+} from '../models/receivables';
+import { generateClientStatementPDFBuffer } from '../utils/order-pdf';
+import { DEFAULT_CURRENCY, isValidCurrency, formatCurrency } from '../utils/currency';
+import { getEmailService } from './email.service';
+import { Logger } from '../utils/logger';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Ledger lines on the same day: charges first, then payments, then memo lines
+const ENTRY_ORDER: Record<LedgerEntry['type'], number> = {
+  order: 0,
+  refund: 1,
+  payment: 2,
+  paid_adjustment: 3,
+  invoice: 4,
+};
+
+function toDateString(value: Date | string): string {
+  return value instanceof Date ? value.toISOString().split('T')[0] : String(value).split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.floor((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyBuckets(): AgingBuckets {
+  return { current: 0, days_30: 0, days_60: 0, days_90_plus: 0, total: 0 };
+}
+
+function assertDate(value: string | undefined, field: string): void {
+  if (value !== undefined && (!DATE_REGEX.test(value) || isNaN(new Date(value).getTime()))) {
+    throw new Error(`Validation failed: ${field} must be a valid date in format YYYY-MM-DD`);
+  }
+}
+
+/**
+ * Client balances built from orders, payment transactions, refunds and Square invoices.
+ * Orders are charged on their delivery date; cancelled orders are left out. Orders marked
+ * paid without a recorded payment (e.g. ACH reconciled by hand) get a balancing credit so
+ * they don't show as outstanding. Balances are kept per order currency and never added across
+ * currencies; a ledger or statement covers one currency.
+ */
+export class ReceivablesService {
+  private repository = getReceivablesRepository();
+  private clientRepository = getClientRepository();
+
+  async getClientLedger(clientId: number, dateFrom?: string, dateTo?: string, currency?: string): Promise<ClientLedger | null> {
+    assertDate(dateFrom, 'date_from');
+    assertDate(dateTo, 'date_to');
+    if (dateFrom && dateTo && dateFrom > dateTo) {
+      throw new Error('Validation failed: date_from must be on or before date_to');
+    }
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      throw new Error('Validation failed: currency must be a 3-letter ISO 4217 code');
+    }
+
+    const client = await this.clientRepository.findById(clientId);
+    if (!client) {
+      return null;
+    }
+
+    const allRecords = await this.repository.findLedgerRecords(clientId, dateTo);
+    const ledgerCurrency = currency || this.getSingleCurrency(allRecords);
+    const records = this.filterByCurrency(allRecords, ledgerCurrency);
+    const allEntries = this.buildEntries(records, dateTo);
+
+    const opening = allEntries.filter(e => dateFrom && e.date < dateFrom);
+    const entries = allEntries.filter(e => !dateFrom || e.date >= dateFrom);
+    const openingBalance = roundMoney(opening.reduce((sum, e) => sum + e.debit - e.credit, 0));
+
+    let balance = openingBalance;
+    for (const entry of entries) {
+      balance = roundMoney(balance + entry.debit - entry.credit);
+      entry.balance = balance;
+    }
+
+    return {
+      client_id: clientId,
+      client_name: client.full_name,
+      currency: ledgerCurrency,
+      date_from: dateFrom,
+      date_to: dateTo,
+      opening_balance: openingBalance,
+      entries,
+      total_debits: roundMoney(entries.reduce((sum, e) => sum + e.debit, 0)),
+      total_credits: roundMoney(entries.reduce((sum, e) => sum + e.credit, 0)),
+      closing_balance: balance,
+      open_invoice_amount: roundMoney(records.invoices
+        .filter(i => i.status === 'pending')
+        .reduce((sum, i) => sum + i.amount, 0)),
+    };
+  }
+
+  /**
+   * Outstanding order balances bucketed by days since delivery (current / 30 / 60 / 90+)
+   */
+  async getAgingReport(asOf?: string, clientId?: number): Promise<AgingReport> {
+    assertDate(asOf, 'as_of');
+    const asOfDate = asOf || toDateString(new Date());
+
+    const records = await this.repository.findLedgerRecords(clientId, asOfDate);
+    const clients = this.buildAging(records, asOfDate);
+
+    const totalsByCurrency = new Map<string, CurrencyAgingBuckets>();
+    for (const client of clients) {
+      if (!totalsByCurrency.has(client.currency)) {
+        totalsByCurrency.set(client.currency, { currency: client.currency, ...emptyBuckets() });
+      }
+      const totals = totalsByCurrency.get(client.currency)!;
+      totals.current += client.buckets.current;
+      totals.days_30 += client.buckets.days_30;
+      totals.days_60 += client.buckets.days_60;
+      totals.days_90_plus += client.buckets.days_90_plus;
+      totals.total += client.buckets.total;
+    }
+
+    return {
+      as_of: asOfDate,
+      clients,
+      totals: Array.from(totalsByCurrency.values())
+        .sort((a, b) => a.currency.localeCompare(b.currency))
+        .map(totals => ({
+          currency: totals.currency,
+          current: roundMoney(totals.current),
+          days_30: roundMoney(totals.days_30),
+          days_60: roundMoney(totals.days_60),
+          days_90_plus: roundMoney(totals.days_90_plus),
+          total: roundMoney(totals.total),
+        })),
+    };
+  }
+
+  /**
+   * Statement for one calendar month (YYYY-MM) in one currency
+   */
+  async getStatement(clientId: number, month: string, currency?: string): Promise<ClientStatement | null> {
+    if (!month || !MONTH_REGEX.test(month)) {
+      throw new Error('Validation failed: month must be in format YYYY-MM');
+    }
+
+    const client = await this.clientRepository.findById(clientId);
+    if (!client) {
+      return null;
+    }
+
+    const [year, monthNumber] = month.split('-').map(Number);
+    const periodStart = `${month}-01`;
+    const periodEnd = toDateString(new Date(Date.UTC(year, monthNumber, 0)));
+
+    const ledger = (await this.getClientLedger(clientId, periodStart, periodEnd, currency))!;
+    const aging = await this.getAgingReport(periodEnd, clientId);
+
+    return {
+      client: {
+        id: clientId,
+        full_name: client.full_name,
+        company_name: client.company_name,
+        full_address: client.full_address,
+        email: client.email,
+      },
+      month,
+      period_start: periodStart,
+      period_end: periodEnd,
+      statement_date: toDateString(new Date()),
+      ledger,
+      aging: aging.clients.find(c => c.currency === ledger.currency)?.buckets || emptyBuckets(),
+    };
+  }
+
+  async getStatementPdf(
+    clientId: number,
+    month: string,
+    currency?: string
+  ): Promise<{ buffer: Buffer; filename: string; statement: ClientStatement } | null> {
+    const statement = await this.getStatement(clientId, month, currency);
+    if (!statement) {
+      return null;
+    }
+
+    const buffer = await generateClientStatementPDFBuffer(statement);
+    const clientLabel = (statement.client.company_name || statement.client.full_name).replace(/[^a-zA-Z0-9]+/g, '-');
+    return {
+      buffer,
+      filename: `Statement-${clientLabel}-${month}-${statement.ledger.currency}.pdf`,
+      statement,
+    };
+  }
+
+  async sendStatement(clientId: number, data: SendStatementDTO, sentByUserId?: number): Promise<{ sent_to: string[]; messageId?: string } | null> {
+    const client = await this.clientRepository.findById(clientId);
+    if (!client) {
+      return null;
+    }
+
+    const to = (data.to && data.to.length > 0)
+      ? data.to
+      : [client.email, ...(client.additional_emails || [])].filter((e): e is string => !!e);
+    if (to.length === 0) {
+      throw new Error('Validation failed: client has no email address; provide recipients in to');
+    }
+    const invalid = [...to, ...(data.cc || [])].filter(email => !EMAIL_REGEX.test(email));
+    if (invalid.length > 0) {
+      throw new Error(`Validation failed: invalid email address: ${invalid.join(', ')}`);
+    }
+
+    const emailService = getEmailService();
+    if (!emailService.isConfigured()) {
+      throw new Error('Email service is not configured');
+    }
+
+    const pdf = await this.getStatementPdf(clientId, data.month, data.currency);
+    if (!pdf) {
+      return null;
+    }
+
+    const periodLabel = new Date(`${pdf.statement.period_start}T00:00:00Z`)
+      .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+    const result = await emailService.sendClientStatementEmail({
+      to,
+      cc: data.cc,
+      clientName: client.full_name,
+      periodLabel,
+      amountDue: pdf.statement.ledger.closing_balance,
+      currency: pdf.statement.ledger.currency,
+      pdf: pdf.buffer,
+      filename: pdf.filename,
+      message: data.message,
+    });
+    if (!result.success) {
+      throw new Error(`Failed to send statement: ${result.error}`);
+    }
+
+    Logger.info('Client statement sent', {
+      clientId,
+      month: data.month,
+      to,
+      sentByUserId,
+      messageId: result.messageId,
+    });
+
+    return { sent_to: to, messageId: result.messageId };
+  }
+
+  /**
+   * Ledger lines for all records, sorted by date, with running balances from zero
+   */
+  private buildEntries(records: ClientLedgerRecords, upTo?: string): LedgerEntry[] {
+    const entries: LedgerEntry[] = [];
+
+    for (const order of records.orders) {
+      entries.push({
+        date: order.delivery_date,
+        type: 'order',
+        order_id: order.order_id,
+        order_number: order.order_number,
+        description: `Order ${order.order_number}`,
+        debit: order.total,
+        credit: 0,
+        balance: 0,
+      });
+    }
+
+    for (const payment of records.payments) {
+      const card = payment.card_brand && payment.card_last_4 ? ` (${payment.card_brand} ****${payment.card_last_4})` : '';
+      entries.push({
+        date: toDateString(payment.created_at),
+        type: 'payment',
+        order_id: payment.order_id,
+        order_number: payment.order_number,
+        reference: payment.reference,
+        description: `Payment - ${payment.payment_method}${card}`,
+        debit: 0,
+        credit: payment.amount,
+        balance: 0,
+      });
+    }
+
+    for (const refund of records.refunds) {
+      entries.push({
+        date: toDateString(refund.created_at),
+        type: 'refund',
+        order_id: refund.order_id,
+        order_number: refund.order_number,
+        reference: refund.reference,
+        description: refund.reason ? `Refund - ${refund.reason}` : 'Refund',
+        debit: refund.amount,
+        credit: 0,
+        balance: 0,
+      });
+    }
+
+    for (const [orderId, adjustment] of this.getPaidAdjustments(records)) {
+      const order = records.orders.find(o => o.order_id === orderId)!;
+      const date = toDateString(order.updated_at) > order.delivery_date ? toDateString(order.updated_at) : order.delivery_date;
+      if (upTo && date > upTo) continue;
+      entries.push({
+        date,
+        type: 'paid_adjustment',
+        order_id: orderId,
+        order_number: order.order_number,
+        description: 'Marked as paid (no recorded payment)',
+        debit: 0,
+        credit: adjustment,
+        balance: 0,
+      });
+    }
+
+    for (const invoice of records.invoices) {
+      entries.push({
+        date: toDateString(invoice.created_at),
+        type: 'invoice',
+        order_id: invoice.order_id,
+        order_number: invoice.order_number,
+        reference: invoice.reference,
+        description: `Invoice ${formatCurrency(invoice.amount, invoice.currency)} - ${invoice.status}`,
+        debit: 0,
+        credit: 0,
+        balance: 0,
+      });
+    }
+
+    entries.sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]);
+
+    let balance = 0;
+    for (const entry of entries) {
+      balance = roundMoney(balance + entry.debit - entry.credit);
+      entry.balance = balance;
+    }
+
+    return entries;
+  }
+
+  /**
+   * The one currency the client's activity is in. Mixed-currency activity can't be shown as a
+   * single balance, so the caller has to pick a currency.
+   */
+  private getSingleCurrency(records: ClientLedgerRecords): string {
+    const currencies = new Set<string>([
+      ...records.orders.map(o => o.currency),
+      ...records.payments.map(p => p.currency),
+      ...records.refunds.map(r => r.currency),
+      ...records.invoices.map(i => i.currency),
+    ]);
+    if (currencies.size > 1) {
+      throw new Error(
+        `Validation failed: client has activity in more than one currency (${Array.from(currencies).sort().join(', ')}); pass currency to choose one`
+      );
+    }
+    return currencies.values().next().value || DEFAULT_CURRENCY;
+  }
+
+  private filterByCurrency(records: ClientLedgerRecords, currency: string): ClientLedgerRecords {
+    return {
+      orders: records.orders.filter(o => o.currency === currency),
+      payments: records.payments.filter(p => p.currency === currency),
+      refunds: records.refunds.filter(r => r.currency === currency),
+      invoices: records.invoices.filter(i => i.currency === currency),
+    };
+  }
+
+  /**
+   * Net amount paid per order (payments less completed refunds)
+   */
+  private getNetPaid(records: ClientLedgerRecords): Map<number, number> {
+    const netPaid = new Map<number, number>();
+    records.payments.forEach(p => netPaid.set(p.order_id, (netPaid.get(p.order_id) || 0) + p.amount));
+    records.refunds.forEach(r => netPaid.set(r.order_id, (netPaid.get(r.order_id) || 0) - r.amount));
+    return netPaid;
+  }
+
+  /**
+   * Remaining balance of orders flagged is_paid whose recorded payments don't cover the total
+   */
+  private getPaidAdjustments(records: ClientLedgerRecords): Map<number, number> {
+    const netPaid = this.getNetPaid(records);
+    const adjustments = new Map<number, number>();
+    for (const order of records.orders) {
+      const remaining = roundMoney(order.total - (netPaid.get(order.order_id) || 0));
+      if (order.is_paid && remaining > 0) {
+        adjustments.set(order.order_id, remaining);
+      }
+    }
+    return adjustments;
+  }
+
+  private buildAging(records: ClientLedgerRecords, asOf: string): ClientAging[] {
+    const netPaid = this.getNetPaid(records);
+    const byClient = new Map<string, ClientAging>();
+
+    for (const order of records.orders) {
+      // Orders flagged paid are settled regardless of recorded payments
+      const outstanding = order.is_paid ? 0 : roundMoney(order.total - (netPaid.get(order.order_id) || 0));
+      if (outstanding <= 0) continue;
+
+      const days = Math.max(0, daysBetween(order.delivery_date, asOf));
+      const bucket: AgingOrderLine['bucket'] = days >= 90 ? 'days_90_plus' : days >= 60 ? 'days_60' : days >= 30 ? 'days_30' : 'current';
+
+      const key = `${order.client_id}|${order.currency}`;
+      if (!byClient.has(key)) {
+        byClient.set(key, {
+          client_id: order.client_id,
+          client_name: order.client_name,
+          currency: order.currency,
+          buckets: emptyBuckets(),
+          orders: [],
+        });
+      }
+      const client = byClient.get(key)!;
+      client.orders.push({
+        order_id: order.order_id,
+        order_number: order.order_number,
+        delivery_date: order.delivery_date,
+        days_outstanding: days,
+        total: order.total,
+        outstanding,
+        bucket,
+      });
+      client.buckets[bucket] = roundMoney(client.buckets[bucket] + outstanding);
+      client.buckets.total = roundMoney(client.buckets.total + outstanding);
+    }
+
+    return Array.from(byClient.values()).sort((a, b) => b.buckets.total - a.buckets.total);
+  }
+}
+
+let receivablesServiceInstance: ReceivablesService | null = null;
+
+export function getReceivablesService(): ReceivablesService {
+  if (!receivablesServiceInstance) {
+    receivablesServiceInstance = new ReceivablesService();
+  }
+  return receivablesServiceInstance;
+}
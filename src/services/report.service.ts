@@ -0,0 +1,188 @@
+import ExcelJS from 'exceljs';
+import { getReportRepository } from '../repositories';
+import {
+  ReportParams,
+  ReportFormat,
+  ReportResponse,
+  RevenueReportRow,
+  StatusProgressionReportRow,
+} from '../models/report';
+import { validateReportParams } from '../utils/report-validation';
+
+interface ReportColumn<T> {
+  header: string;
+  width: number;
+  value: (row: T) => string | number | null;
+}
+
+export interface ReportExport {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const REVENUE_COLUMNS: ReportColumn<RevenueReportRow>[] = [
+  { header: 'Group', width: 30, value: r => r.label },
+  { header: 'Currency', width: 10, value: r => r.currency },
+  { header: 'Orders', width: 10, value: r => r.order_count },
+  { header: 'Cancelled', width: 10, value: r => r.cancelled_count },
+  { header: 'Cancellation Rate', width: 12, value: r => r.cancellation_rate },
+  { header: 'Revenue', width: 14, value: r => r.revenue },
+  { header: 'Subtotal', width: 14, value: r => r.subtotal },
+  { header: 'Add-ons', width: 12, value: r => r.addon_total },
+  { header: 'Tax', width: 12, value: r => r.tax_total },
+  { header: 'Delivery Fee', width: 12, value: r => r.fees.delivery_fee },
+  { header: 'Service Charge', width: 12, value: r => r.fees.service_charge },
+  { header: 'Coordination Fee', width: 12, value: r => r.fees.coordination_fee },
+  { header: 'Airport Fee', width: 12, value: r => r.fees.airport_fee },
+  { header: 'FBO Fee', width: 12, value: r => r.fees.fbo_fee },
+  { header: 'Shopping Fee', width: 12, value: r => r.fees.shopping_fee },
+  { header: 'Restaurant Pickup Fee', width: 12, value: r => r.fees.restaurant_pickup_fee },
+  { header: 'Airport Pickup Fee', width: 12, value: r => r.fees.airport_pickup_fee },
+  { header: 'Avg Order Value', width: 12, value: r => r.average_order_value },
+  { header: 'Paid Orders', width: 10, value: r => r.paid_count },
+  { header: 'Paid Amount', width: 14, value: r => r.paid_amount },
+  { header: 'Unpaid Orders', width: 10, value: r => r.unpaid_count },
+  { header: 'Unpaid Amount', width: 14, value: r => r.unpaid_amount },
+  { header: 'Collected', width: 14, value: r => r.collected_amount },
+  { header: 'Refunded', width: 14, value: r => r.refunded_amount },
+];
+
+const STATUS_PROGRESSION_COLUMNS: ReportColumn<StatusProgressionReportRow>[] = [
+  { header: 'Group', width: 30, value: r => r.label },
+  { header: 'Orders', width: 10, value: r => r.order_count },
+  { header: 'Confirmed', width: 10, value: r => r.confirmed_count },
+  { header: 'Confirmed On Time', width: 12, value: r => r.confirmed_on_time_count },
+  { header: 'Confirmed On Time Rate', width: 12, value: r => r.confirmed_on_time_rate },
+  { header: 'Avg Hours To Confirmation', width: 14, value: r => r.average_hours_to_confirmation },
+  { header: 'Delivered', width: 10, value: r => r.delivered_count },
+  { header: 'Delivered On Time', width: 12, value: r => r.delivered_on_time_count },
+  { header: 'Delivered On Time Rate', width: 12, value: r => r.delivered_on_time_rate },
+  { header: 'Avg Hours To Delivery', width: 14, value: r => r.average_hours_to_delivery },
+  { header: 'Cancelled', width: 10, value: r => r.cancelled_count },
+];
+
+/**
+ * Order and payment reporting. Aggregation runs in the database; this service validates
+ * parameters, adds totals and renders CSV/XLSX exports.
+ */
+export class ReportService {
+  private repository = getReportRepository();
+
+  async getRevenueReport(params: ReportParams): Promise<ReportResponse<RevenueReportRow>> {
+    this.assertParams(params);
+
+    const [rows, totals] = await Promise.all([
+      this.repository.aggregateRevenue(params, true),
+      this.repository.aggregateRevenue(params, false),
+    ]);
+
+    return this.buildResponse(params, rows, totals);
+  }
+
+  async getStatusProgressionReport(params: ReportParams): Promise<ReportResponse<StatusProgressionReportRow>> {
+    this.assertParams(params);
+
+    const [rows, totals] = await Promise.all([
+      this.repository.aggregateStatusProgression(params, true),
+      this.repository.aggregateStatusProgression(params, false),
+    ]);
+
+    return this.buildResponse(params, rows, totals);
+  }
+
+  async exportRevenueReport(report: ReportResponse<RevenueReportRow>, format: Exclude<ReportFormat, 'json'>): Promise<ReportExport> {
+    return this.export('revenue', 'Revenue', report, REVENUE_COLUMNS, format);
+  }
+
+  async exportStatusProgressionReport(
+    report: ReportResponse<StatusProgressionReportRow>,
+    format: Exclude<ReportFormat, 'json'>
+  ): Promise<ReportExport> {
+    return this.export('status-progression', 'Status Progression', report, STATUS_PROGRESSION_COLUMNS, format);
+  }
+
+  private assertParams(params: ReportParams): void {
+    const validation = validateReportParams(params);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+
+  private buildResponse<T>(params: ReportParams, rows: T[], totals: T[]): ReportResponse<T> {
+    return {
+      group_by: params.group_by,
+      period: params.period,
+      date_from: params.date_from,
+      date_to: params.date_to,
+      rows,
+      totals,
+    };
+  }
+
+  private async export<T>(
+    name: string,
+    title: string,
+    report: ReportResponse<T>,
+    columns: ReportColumn<T>[],
+    format: Exclude<ReportFormat, 'json'>
+  ): Promise<ReportExport> {
+    const filename = `${name}-by-${report.group_by}-${report.date_from}-to-${report.date_to}.${format}`;
+    const rows = [...report.rows, ...report.totals];
+
+    if (format === 'csv') {
+      const lines = [
+        columns.map(c => escapeCsv(c.header)).join(','),
+        ...rows.map(row => columns.map(c => escapeCsv(c.value(row))).join(',')),
+      ];
+      return {
+        buffer: Buffer.from(lines.join('\r\n'), 'utf8'),
+        contentType: 'text/csv; charset=utf-8',
+        filename,
+      };
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(title);
+
+    worksheet.columns = columns.map((c, index) => ({ header: c.header, key: `col${index}`, width: c.width }));
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.alignment = { vertical: 'middle', horizontal: 'left', wrapText: true };
+    headerRow.height = 30;
+
+    rows.forEach(row => {
+      worksheet.addRow(columns.map(c => c.value(row)));
+    });
+
+    // Totals are the last rows
+    for (let i = report.rows.length; i < rows.length; i++) {
+      worksheet.getRow(i + 2).font = { bold: true };
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return {
+      buffer: Buffer.from(buffer),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      filename,
+    };
+  }
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+let reportServiceInstance: ReportService | null = null;
+
+export function getReportService(): ReportService {
+  if (!reportServiceInstance) {
+    reportServiceInstance = new ReportService();
+  }
+  return reportServiceInstance;
+}
@@ -0,0 +1,85 @@
+import { CustomRole, CreateRoleDTO, UpdateRoleDTO, PermissionDefinition, BuiltInRole } from '../models/permission';
+import { getRoleRepository } from '../repositories';
+import { validateRole, normalizeRoleData } from '../utils/role-validation';
+import { PERMISSION_CATALOG, BUILT_IN_ROLES } from '../utils/permissions';
+import { Logger } from '../utils/logger';
+
+export class RoleService {
+  private repository = getRoleRepository();
+
+  getCatalog(): { permissions: PermissionDefinition[]; built_in_roles: BuiltInRole[] } {
+    return { permissions: PERMISSION_CATALOG, built_in_roles: BUILT_IN_ROLES };
+  }
+
+  async listRoles(): Promise<CustomRole[]> {
+    return this.repository.findAll();
+  }
+
+  async getRoleById(id: number): Promise<CustomRole | null> {
+    return this.repository.findById(id);
+  }
+
+  async createRole(data: CreateRoleDTO): Promise<CustomRole> {
+    const normalized = normalizeRoleData(data);
+    this.assertValid(validateRole(normalized));
+    await this.assertNameAvailable(normalized.name);
+
+    const role = await this.repository.create(normalized);
+    Logger.info('Role created', { roleId: role.id, name: role.name, permissions: role.permissions });
+    return role;
+  }
+
+  async updateRole(id: number, data: UpdateRoleDTO): Promise<CustomRole | null> {
+    const normalized = normalizeRoleData(data);
+    this.assertValid(validateRole(normalized, true));
+
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+    if (normalized.name !== undefined && normalized.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await this.assertNameAvailable(normalized.name);
+    }
+
+    const role = await this.repository.update(id, normalized);
+    Logger.info('Role updated', { roleId: id, name: role?.name, permissions: role?.permissions });
+    return role;
+  }
+
+  // Roles still assigned to users cannot be deleted
+  async deleteRole(id: number): Promise<boolean> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return false;
+    }
+    const userCount = await this.repository.countUsers(id);
+    if (userCount > 0) {
+      throw new Error(`Validation failed: role ${existing.name} is assigned to ${userCount} employee(s); reassign them first`);
+    }
+
+    const deleted = await this.repository.delete(id);
+    Logger.info('Role deleted', { roleId: id, name: existing.name });
+    return deleted;
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    if (await this.repository.findByName(name)) {
+      throw new Error(`Validation failed: a role named ${name} already exists`);
+    }
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
+
+let roleServiceInstance: RoleService | null = null;
+
+export function getRoleService(): RoleService {
+  if (!roleServiceInstance) {
+    roleServiceInstance = new RoleService();
+  }
+  return roleServiceInstance;
+}
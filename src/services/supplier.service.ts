@@ -0,0 +1,47 @@
+import { Supplier, CreateSupplierDTO, UpdateSupplierDTO, SupplierSearchParams, SupplierListResponse } from '../models/supplier';
+import { getSupplierRepository, getPurchaseOrderRepository } from '../repositories';
+import { validateSupplier, normalizeSupplierData } from '../utils/supplier-validation';
+
+export class SupplierService {
+  private repository = getSupplierRepository();
+  private purchaseOrderRepository = getPurchaseOrderRepository();
+
+  async createSupplier(data: CreateSupplierDTO): Promise<Supplier> {
+    const normalized = normalizeSupplierData(data);
+    const validation = validateSupplier(normalized);
+
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    return this.repository.create(normalized);
+  }
+
+  async getSupplierById(id: number): Promise<Supplier | null> {
+    return this.repository.findById(id);
+  }
+
+  async listSuppliers(params: SupplierSearchParams): Promise<SupplierListResponse> {
+    return this.repository.findAll(params);
+  }
+
+  async updateSupplier(id: number, data: UpdateSupplierDTO): Promise<Supplier | null> {
+    const normalized = normalizeSupplierData(data);
+    const validation = validateSupplier(normalized);
+
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    return this.repository.update(id, normalized);
+  }
+
+  // Suppliers with purchase orders are kept for the purchasing history; deactivate them instead
+  async deleteSupplier(id: number): Promise<boolean> {
+    const purchaseOrderCount = await this.purchaseOrderRepository.countBySupplier(id);
+    if (purchaseOrderCount > 0) {
+      throw new Error(`Validation failed: supplier is referenced by purchase orders (${purchaseOrderCount}); set is_active to false instead`);
+    }
+    return this.repository.delete(id);
+  }
+}
@@ -0,0 +1,218 @@
+import { User } from '../models/user';
+import { TwoFactorPolicy, TwoFactorSetup, TwoFactorStatus, UpdateTwoFactorPolicyDTO } from '../models/two-factor';
+import { getTwoFactorRepository, getRoleRepository } from '../repositories';
+import { env } from '../config/env';
+import { hashToken, encryptSecret, decryptSecret } from '../utils/crypto';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUrl,
+  generateBackupCodes,
+  normalizeBackupCode,
+  isBackupCodeFormat,
+} from '../utils/totp';
+import { validateTwoFactorPolicy, validateTwoFactorCode } from '../utils/two-factor-validation';
+import { Logger } from '../utils/logger';
+
+/**
+ * TOTP two-factor authentication. Users enrol by scanning the secret from beginSetup and
+ * confirming a first code, which enables 2FA and issues single-use backup codes (stored
+ * hashed with hashToken). The policy makes enrolment mandatory for roles; login then
+ * requires a code after the password (see AuthService.login).
+ */
+export class TwoFactorService {
+  private repository = getTwoFactorRepository();
+  private roleRepository = getRoleRepository();
+
+  async getStatus(user: User): Promise<TwoFactorStatus> {
+    const enrolment = await this.repository.findByUserId(user.id);
+    const enabled = !!enrolment?.enabled_at;
+    return {
+      enabled,
+      enabled_at: enrolment?.enabled_at ?? null,
+      required: await this.isRequired(user),
+      pending_setup: !!enrolment && !enabled,
+      backup_codes_remaining: enabled ? await this.repository.countUnusedBackupCodes(user.id) : 0,
+    };
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    const enrolment = await this.repository.findByUserId(userId);
+    return !!enrolment?.enabled_at;
+  }
+
+  /**
+   * Whether the policy requires the user to use 2FA
+   */
+  async isRequired(user: User): Promise<boolean> {
+    const policy = await this.repository.getPolicy();
+    return policy.required_roles.includes(user.role)
+      || (user.role_id !== null && policy.required_role_ids.includes(user.role_id));
+  }
+
+  /**
+   * Issue a new secret for the user to add to their authenticator app. Replaces any
+   * unconfirmed secret; users who already use 2FA must disable it first.
+   */
+  async beginSetup(user: User): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(user.id)) {
+      throw new Error('Validation failed: two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.repository.saveSecret(user.id, encryptSecret(secret));
+    Logger.info('Two-factor setup started', { userId: user.id });
+
+    return {
+      secret,
+      otpauth_url: buildOtpauthUrl(secret, user.email, env.TWO_FACTOR_ISSUER),
+    };
+  }
+
+  /**
+   * Confirm setup with a code from the authenticator app; returns the backup codes,
+   * which are only ever shown this once
+   */
+  async confirmSetup(user: User, code: string): Promise<string[]> {
+    this.assertValid(validateTwoFactorCode(code));
+
+    const enrolment = await this.repository.findByUserId(user.id);
+    if (!enrolment) {
+      throw new Error('Validation failed: start two-factor setup first');
+    }
+    if (enrolment.enabled_at) {
+      throw new Error('Validation failed: two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(decryptSecret(enrolment.secret_encrypted), code);
+    if (step === null) {
+      throw new Error('Validation failed: invalid two-factor code');
+    }
+
+    await this.repository.enable(user.id, step);
+    const backupCodes = await this.issueBackupCodes(user.id);
+    Logger.info('Two-factor authentication enabled', { userId: user.id });
+    return backupCodes;
+  }
+
+  /**
+   * Check a login code: a TOTP code (not previously used) or an unused backup code
+   */
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    if (!validateTwoFactorCode(code).valid) {
+      return false;
+    }
+
+    const enrolment = await this.repository.findByUserId(userId);
+    if (!enrolment?.enabled_at) {
+      return false;
+    }
+
+    if (isBackupCodeFormat(code)) {
+      const consumed = await this.repository.consumeBackupCode(userId, hashToken(normalizeBackupCode(code)));
+      if (consumed) {
+        const remaining = await this.repository.countUnusedBackupCodes(userId);
+        Logger.info('Two-factor backup code used', { userId, remaining });
+      }
+      return consumed;
+    }
+
+    const step = verifyTotp(decryptSecret(enrolment.secret_encrypted), code, enrolment.last_used_step);
+    if (step === null) {
+      return false;
+    }
+    // Guards against the same code being accepted twice by concurrent requests
+    return this.repository.markStepUsed(userId, step);
+  }
+
+  /**
+   * Replace the backup codes (invalidating the old ones) after checking a current code
+   */
+  async regenerateBackupCodes(user: User, code: string): Promise<string[]> {
+    await this.assertCode(user.id, code);
+    const backupCodes = await this.issueBackupCodes(user.id);
+    Logger.info('Two-factor backup codes regenerated', { userId: user.id });
+    return backupCodes;
+  }
+
+  /**
+   * Turn off 2FA after checking a current code; not allowed when the policy requires it
+   */
+  async disable(user: User, code: string): Promise<void> {
+    if (await this.isRequired(user)) {
+      throw new Error('Validation failed: two-factor authentication is required for your role');
+    }
+    await this.assertCode(user.id, code);
+    await this.repository.delete(user.id);
+    Logger.info('Two-factor authentication disabled', { userId: user.id });
+  }
+
+  /**
+   * Remove a user's enrolment, e.g. after a lost phone; they set it up again at next login
+   * if the policy requires it
+   */
+  async reset(userId: number, resetBy: number): Promise<boolean> {
+    const deleted = await this.repository.delete(userId);
+    if (deleted) {
+      Logger.warn('Two-factor authentication reset', { userId, resetBy });
+    }
+    return deleted;
+  }
+
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    return this.repository.getPolicy();
+  }
+
+  async updatePolicy(data: UpdateTwoFactorPolicyDTO, updatedBy: number): Promise<TwoFactorPolicy> {
+    this.assertValid(validateTwoFactorPolicy(data));
+
+    const policy: UpdateTwoFactorPolicyDTO = {
+      required_roles: data.required_roles ? Array.from(new Set(data.required_roles)) : undefined,
+      required_role_ids: data.required_role_ids ? Array.from(new Set(data.required_role_ids)) : undefined,
+    };
+    for (const roleId of policy.required_role_ids || []) {
+      if (!(await this.roleRepository.findById(roleId))) {
+        throw new Error(`Validation failed: role ${roleId} not found`);
+      }
+    }
+
+    const updated = await this.repository.updatePolicy(policy, updatedBy);
+    Logger.info('Two-factor policy updated', {
+      requiredRoles: updated.required_roles,
+      requiredRoleIds: updated.required_role_ids,
+      updatedBy,
+    });
+    return updated;
+  }
+
+  private async issueBackupCodes(userId: number): Promise<string[]> {
+    const backupCodes = generateBackupCodes(env.TWO_FACTOR_BACKUP_CODE_COUNT);
+    await this.repository.replaceBackupCodes(userId, backupCodes.map(code => hashToken(normalizeBackupCode(code))));
+    return backupCodes;
+  }
+
+  private async assertCode(userId: number, code: string): Promise<void> {
+    this.assertValid(validateTwoFactorCode(code));
+    if (!(await this.isEnabled(userId))) {
+      throw new Error('Validation failed: two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Validation failed: invalid two-factor code');
+    }
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
+
+let twoFactorServiceInstance: TwoFactorService | null = null;
+
+export function getTwoFactorService(): TwoFactorService {
+  if (!twoFactorServiceInstance) {
+    twoFactorServiceInstance = new TwoFactorService();
+  }
+  return twoFactorServiceInstance;
+}
@@ -1,9 +1,13 @@
 import { User, PermissionMap } from '../models/user';
-import { getUserRepository } from '../repositories';
+import { getUserRepository, getRoleRepository } from '../repositories';
+import { getTwoFactorService } from './two-factor.service';
+import { getLoginSecurityService } from './login-security.service';
+import { SecurityEvent } from '../models/login-security';
 import { Logger } from '../utils/logger';
 
 export class UserService {
   private userRepository = getUserRepository();
+  private roleRepository = getRoleRepository();
 
   /**
    * Create admin account (allows up to 2 admin accounts)
@@ -54,6 +58,29 @@ export class UserService {
     return userWithoutPassword as any;
   }
 
+  /**
+   * Assign a custom role to an employee; null restores the CSR defaults
+   */
+  async assignEmployeeRole(id: number, roleId: number | null): Promise<User | null> {
+    const user = await this.userRepository.findById(id);
+    if (!user || user.role !== 'CSR') {
+      return null;
+    }
+
+    if (roleId !== null && !(await this.roleRepository.findById(roleId))) {
+      throw new Error(`Role not found: ${roleId}`);
+    }
+
+    const updated = await this.userRepository.update(id, { role_id: roleId });
+    if (!updated) {
+      return null;
+    }
+
+    Logger.info('Employee role assigned', { userId: id, roleId });
+    const { password_hash, ...userWithoutPassword } = updated;
+    return userWithoutPassword as any;
+  }
+
   /**
    * Deactivate employee
    */
@@ -79,6 +106,50 @@ export class UserService {
     const updated = await this.userRepository.update(id, { is_active: true });
     return updated !== null;
   }
+
+  /**
+   * Remove an employee's two-factor enrolment (lost authenticator).
+   * Returns null if the employee does not exist, false if they were not enrolled.
+   */
+  async resetEmployeeTwoFactor(id: number, resetBy: number): Promise<boolean | null> {
+    const user = await this.userRepository.findById(id);
+    if (!user || user.role !== 'CSR') {
+      return null;
+    }
+
+    return getTwoFactorService().reset(id, resetBy);
+  }
+
+  /**
+   * Lift a sign-in lockout on an employee before it expires.
+   * Returns null if the employee does not exist, false if they were not locked or throttled.
+   */
+  async unlockEmployee(id: number, unlockedBy: number): Promise<boolean | null> {
+    const user = await this.userRepository.findById(id);
+    if (!user || user.role !== 'CSR') {
+      return null;
+    }
+
+    const unlocked = await getLoginSecurityService().unlockAccount(user.email, unlockedBy);
+    Logger.info('Employee unlocked', { userId: id, unlockedBy, hadFailures: unlocked });
+    return unlocked;
+  }
+
+  /**
+   * Lockout state and recent security events (failed sign-ins, lockouts) of an employee
+   */
+  async getEmployeeSecurity(id: number, limit?: number): Promise<{ locked_until: Date | null; events: SecurityEvent[] } | null> {
+    const user = await this.userRepository.findById(id);
+    if (!user || user.role !== 'CSR') {
+      return null;
+    }
+
+    const loginSecurity = getLoginSecurityService();
+    return {
+      locked_until: await loginSecurity.getLockedUntil(user.email),
+      events: await loginSecurity.listEvents(user.email, limit),
+    };
+  }
 }
 
 let userServiceInstance: UserService | null = null;
@@ -0,0 +1,9 @@
+/**
+ * Backend for uploaded images. Keys are relative paths such as menu-items/12/<uuid>.webp;
+ * each backend maps them to the public URL stored on the entity.
+ */
+export interface ImageStorage {
+  save(key: string, data: Buffer, contentType: string): Promise<string>; // Returns the public URL
+  delete(key: string): Promise<void>;
+  keyFromUrl(url: string): string | null; // null for URLs this backend did not issue
+}
@@ -0,0 +1,19 @@
+import { env } from '../config/env';
+import { ImageStorage } from './image-storage';
+import { LocalImageStorage } from './local-image-storage';
+
+let imageStorage: ImageStorage | null = null;
+
+export function getImageStorage(): ImageStorage {
+  if (imageStorage) {
+    return imageStorage;
+  }
+
+  switch (env.IMAGE_STORAGE) {
+    case 'local':
+      imageStorage = new LocalImageStorage(env.UPLOAD_DIR, env.UPLOAD_URL_PATH);
+      return imageStorage;
+    default:
+      throw new Error(`Unsupported image storage: ${env.IMAGE_STORAGE}`);
+  }
+}
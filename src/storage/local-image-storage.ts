@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImageStorage } from './image-storage';
+
+// Stores images on local disk; the directory is served statically under urlPath
+export class LocalImageStorage implements ImageStorage {
+  private rootDir: string;
+
+  constructor(rootDir: string, private urlPath: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async save(key: string, data: Buffer, contentType: string): Promise<string> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    return `${this.urlPath}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.urlPath}/`;
+    if (!url.startsWith(prefix)) {
+      return null;
+    }
+    return url.substring(prefix.length);
+  }
+
+  // Keys never leave the upload directory
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid image key: ${key}`);
+    }
+    return filePath;
+  }
+}
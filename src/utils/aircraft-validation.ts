@@ -0,0 +1,50 @@
+import { CreateAircraftDTO, UpdateAircraftDTO } from '../models/aircraft';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+// Registrations are letters, digits and dashes, e.g. N123AB, G-ABCD, 9H-VFA
+const TAIL_NUMBER_REGEX = /^[A-Z0-9][A-Z0-9-]{1,9}$/;
+
+export function validateAircraft(aircraft: CreateAircraftDTO | UpdateAircraftDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if ('tail_number' in aircraft) {
+    if (!aircraft.tail_number) {
+      errors.push('tail_number is required');
+    } else if (!TAIL_NUMBER_REGEX.test(aircraft.tail_number)) {
+      errors.push('tail_number must be 2-10 letters, digits or dashes');
+    }
+  }
+
+  if (aircraft.client_id !== undefined && aircraft.client_id !== null &&
+      (!Number.isInteger(aircraft.client_id) || aircraft.client_id <= 0)) {
+    errors.push('client_id must be a positive integer');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function normalizeAircraftData<T extends CreateAircraftDTO | UpdateAircraftDTO>(aircraft: T): T {
+  const normalized = { ...aircraft } as T;
+
+  if (normalized.tail_number) {
+    normalized.tail_number = normalized.tail_number.trim().toUpperCase();
+  }
+  if (normalized.aircraft_type) {
+    normalized.aircraft_type = normalized.aircraft_type.trim();
+  }
+  if (normalized.operator_name) {
+    normalized.operator_name = normalized.operator_name.trim();
+  }
+  if (normalized.oven_type) {
+    normalized.oven_type = normalized.oven_type.trim();
+  }
+
+  return normalized;
+}
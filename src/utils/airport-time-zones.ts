@@ -0,0 +1,134 @@
+/**
+ * IANA time zones for airports, used to fill Airport.time_zone from ICAO/IATA codes when
+ * airports are created or imported without one. Airports in countries spanning several zones
+ * (US, Canada, Mexico, Brazil, Australia, ...) are listed individually; everywhere else the
+ * two-letter ICAO country prefix determines the zone.
+ */
+
+const AIRPORT_TIME_ZONES: Record<string, string> = {
+  // United States - Eastern
+  KATL: 'America/New_York', KBOS: 'America/New_York', KBWI: 'America/New_York', KCLT: 'America/New_York',
+  KCLE: 'America/New_York', KCMH: 'America/New_York', KCVG: 'America/New_York', KDCA: 'America/New_York',
+  KDTW: 'America/Detroit', KEWR: 'America/New_York', KFLL: 'America/New_York', KFXE: 'America/New_York',
+  KHPN: 'America/New_York', KIAD: 'America/New_York', KIND: 'America/Indiana/Indianapolis', KJAX: 'America/New_York',
+  KJFK: 'America/New_York', KLGA: 'America/New_York', KMCO: 'America/New_York', KMIA: 'America/New_York',
+  KMMU: 'America/New_York', KOPF: 'America/New_York', KORL: 'America/New_York', KPBI: 'America/New_York',
+  KPDK: 'America/New_York', KPHL: 'America/New_York', KPIT: 'America/New_York', KPVD: 'America/New_York',
+  KRDU: 'America/New_York', KRSW: 'America/New_York', KSAV: 'America/New_York', KSRQ: 'America/New_York',
+  KTEB: 'America/New_York', KTPA: 'America/New_York', KTMB: 'America/New_York', KAPF: 'America/New_York',
+  KBCT: 'America/New_York', KISM: 'America/New_York', KACK: 'America/New_York', KMVY: 'America/New_York',
+  KFRG: 'America/New_York', KISP: 'America/New_York', KBED: 'America/New_York', KPWM: 'America/New_York',
+  KBDL: 'America/New_York', KALB: 'America/New_York', KSYR: 'America/New_York', KBUF: 'America/New_York',
+  KROC: 'America/New_York', KRIC: 'America/New_York', KORF: 'America/New_York', KCHS: 'America/New_York',
+  KMYR: 'America/New_York', KGSP: 'America/New_York', KTYS: 'America/New_York', KSDF: 'America/Kentucky/Louisville',
+  KLEX: 'America/New_York', KVRB: 'America/New_York', KSUA: 'America/New_York', KEYW: 'America/New_York',
+  // United States - Central
+  KAUS: 'America/Chicago', KBNA: 'America/Chicago', KDAL: 'America/Chicago', KDFW: 'America/Chicago',
+  KADS: 'America/Chicago', KHOU: 'America/Chicago', KIAH: 'America/Chicago', KSGR: 'America/Chicago',
+  KMDW: 'America/Chicago', KORD: 'America/Chicago', KPWK: 'America/Chicago', KMKE: 'America/Chicago',
+  KMSP: 'America/Chicago', KMCI: 'America/Chicago', KMKC: 'America/Chicago', KSTL: 'America/Chicago',
+  KSUS: 'America/Chicago', KMSY: 'America/Chicago', KSAT: 'America/Chicago', KOKC: 'America/Chicago',
+  KTUL: 'America/Chicago', KMEM: 'America/Chicago', KBHM: 'America/Chicago', KOMA: 'America/Chicago',
+  KDSM: 'America/Chicago', KICT: 'America/Chicago', KFTW: 'America/Chicago', KAFW: 'America/Chicago',
+  KLIT: 'America/Chicago', KHSV: 'America/Chicago', KPNS: 'America/Chicago', KECP: 'America/Chicago',
+  KMSN: 'America/Chicago', KFSD: 'America/Chicago',
+  // United States - Mountain
+  KABQ: 'America/Denver', KAPA: 'America/Denver', KASE: 'America/Denver', KBJC: 'America/Denver',
+  KBZN: 'America/Denver', KCOS: 'America/Denver', KDEN: 'America/Denver', KEGE: 'America/Denver',
+  KELP: 'America/Denver', KHDN: 'America/Denver', KJAC: 'America/Denver', KMTJ: 'America/Denver',
+  KSLC: 'America/Denver', KSUN: 'America/Boise', KBOI: 'America/Boise', KTEX: 'America/Denver',
+  KGJT: 'America/Denver', KBIL: 'America/Denver', KFCA: 'America/Denver', KRAP: 'America/Denver',
+  // United States - Arizona (no DST)
+  KPHX: 'America/Phoenix', KSDL: 'America/Phoenix', KDVT: 'America/Phoenix', KTUS: 'America/Phoenix',
+  KFLG: 'America/Phoenix', KIWA: 'America/Phoenix',
+  // United States - Pacific
+  KBFI: 'America/Los_Angeles', KBUR: 'America/Los_Angeles', KCRQ: 'America/Los_Angeles', KLAS: 'America/Los_Angeles',
+  KHND: 'America/Los_Angeles', KVGT: 'America/Los_Angeles', KLAX: 'America/Los_Angeles', KLGB: 'America/Los_Angeles',
+  KOAK: 'America/Los_Angeles', KONT: 'America/Los_Angeles', KPDX: 'America/Los_Angeles', KPSP: 'America/Los_Angeles',
+  KTRM: 'America/Los_Angeles', KRNO: 'America/Los_Angeles', KTRK: 'America/Los_Angeles', KSAN: 'America/Los_Angeles',
+  KSBA: 'America/Los_Angeles', KSEA: 'America/Los_Angeles', KSFO: 'America/Los_Angeles', KSJC: 'America/Los_Angeles',
+  KSMF: 'America/Los_Angeles', KSMO: 'America/Los_Angeles', KSNA: 'America/Los_Angeles', KVNY: 'America/Los_Angeles',
+  KMRY: 'America/Los_Angeles', KAPC: 'America/Los_Angeles', KSTS: 'America/Los_Angeles', KGEG: 'America/Los_Angeles',
+  KPAE: 'America/Los_Angeles', KCMA: 'America/Los_Angeles', KTOA: 'America/Los_Angeles', KHWD: 'America/Los_Angeles',
+  // United States - Alaska and Hawaii
+  PANC: 'America/Anchorage', PAFA: 'America/Anchorage', PAJN: 'America/Juneau',
+  PHNL: 'Pacific/Honolulu', PHOG: 'Pacific/Honolulu', PHKO: 'Pacific/Honolulu', PHLI: 'Pacific/Honolulu', PHTO: 'Pacific/Honolulu',
+  // Canada
+  CYYZ: 'America/Toronto', CYTZ: 'America/Toronto', CYOW: 'America/Toronto', CYUL: 'America/Toronto',
+  CYQB: 'America/Toronto', CYHZ: 'America/Halifax', CYYT: 'America/St_Johns', CYWG: 'America/Winnipeg',
+  CYQR: 'America/Regina', CYXE: 'America/Regina', CYYC: 'America/Edmonton', CYEG: 'America/Edmonton',
+  CYVR: 'America/Vancouver', CYYJ: 'America/Vancouver', CYLW: 'America/Vancouver', CYXY: 'America/Whitehorse',
+  // Mexico
+  MMMX: 'America/Mexico_City', MMTO: 'America/Mexico_City', MMGL: 'America/Mexico_City', MMMY: 'America/Monterrey',
+  MMAN: 'America/Monterrey', MMUN: 'America/Cancun', MMCZ: 'America/Cancun', MMSD: 'America/Mazatlan',
+  MMPR: 'America/Mexico_City', MMTJ: 'America/Tijuana', MMZH: 'America/Mexico_City', MMAA: 'America/Mexico_City',
+  // Brazil
+  SBGR: 'America/Sao_Paulo', SBSP: 'America/Sao_Paulo', SBKP: 'America/Sao_Paulo', SBRJ: 'America/Sao_Paulo',
+  SBGL: 'America/Sao_Paulo', SBBR: 'America/Sao_Paulo', SBEG: 'America/Manaus', SBRF: 'America/Recife',
+  // Australia
+  YSSY: 'Australia/Sydney', YSBK: 'Australia/Sydney', YMML: 'Australia/Melbourne', YMEN: 'Australia/Melbourne',
+  YBBN: 'Australia/Brisbane', YBCG: 'Australia/Brisbane', YPPH: 'Australia/Perth', YPAD: 'Australia/Adelaide',
+  YPDN: 'Australia/Darwin', YMHB: 'Australia/Hobart', YSCB: 'Australia/Sydney',
+  // Russia
+  UUEE: 'Europe/Moscow', UUWW: 'Europe/Moscow', UUDD: 'Europe/Moscow', ULLI: 'Europe/Moscow',
+  // Spain (Canary Islands differ from the mainland)
+  GCLP: 'Atlantic/Canary', GCTS: 'Atlantic/Canary', GCXO: 'Atlantic/Canary', GCRR: 'Atlantic/Canary',
+  // Portugal (Azores differ from the mainland)
+  LPPD: 'Atlantic/Azores', LPLA: 'Atlantic/Azores',
+};
+
+// Countries with a single zone, keyed by two-letter ICAO prefix
+const ICAO_PREFIX_TIME_ZONES: Record<string, string> = {
+  EG: 'Europe/London', EI: 'Europe/Dublin', LF: 'Europe/Paris', LN: 'Europe/Monaco', ED: 'Europe/Berlin',
+  ET: 'Europe/Berlin', LS: 'Europe/Zurich', LO: 'Europe/Vienna', LI: 'Europe/Rome', LE: 'Europe/Madrid',
+  LP: 'Europe/Lisbon', EH: 'Europe/Amsterdam', EB: 'Europe/Brussels', EL: 'Europe/Luxembourg',
+  EK: 'Europe/Copenhagen', ES: 'Europe/Stockholm', EN: 'Europe/Oslo', EF: 'Europe/Helsinki',
+  LG: 'Europe/Athens', LT: 'Europe/Istanbul', LK: 'Europe/Prague', LH: 'Europe/Budapest',
+  EP: 'Europe/Warsaw', LD: 'Europe/Zagreb', LM: 'Europe/Malta', LC: 'Asia/Nicosia', LX: 'Europe/Gibraltar',
+  EV: 'Europe/Riga', EY: 'Europe/Vilnius', EE: 'Europe/Tallinn', LR: 'Europe/Bucharest', LB: 'Europe/Sofia',
+  LZ: 'Europe/Bratislava', LJ: 'Europe/Ljubljana', LW: 'Europe/Skopje', LY: 'Europe/Belgrade',
+  LQ: 'Europe/Sarajevo', LA: 'Europe/Tirane', BI: 'Atlantic/Reykjavik', LL: 'Asia/Jerusalem',
+  OM: 'Asia/Dubai', OT: 'Asia/Qatar', OE: 'Asia/Riyadh', OB: 'Asia/Bahrain', OK: 'Asia/Kuwait',
+  OO: 'Asia/Muscat', OJ: 'Asia/Amman', OL: 'Asia/Beirut', OP: 'Asia/Karachi', HE: 'Africa/Cairo',
+  GM: 'Africa/Casablanca', DT: 'Africa/Tunis', FA: 'Africa/Johannesburg', HK: 'Africa/Nairobi',
+  DN: 'Africa/Lagos', VH: 'Asia/Hong_Kong', VM: 'Asia/Macau', RC: 'Asia/Taipei', RJ: 'Asia/Tokyo',
+  RO: 'Asia/Tokyo', RK: 'Asia/Seoul', WS: 'Asia/Singapore', WM: 'Asia/Kuala_Lumpur', VT: 'Asia/Bangkok',
+  VV: 'Asia/Ho_Chi_Minh', RP: 'Asia/Manila', VA: 'Asia/Kolkata', VE: 'Asia/Kolkata', VI: 'Asia/Kolkata',
+  VO: 'Asia/Kolkata', VC: 'Asia/Colombo', VR: 'Indian/Maldives', ZB: 'Asia/Shanghai', ZG: 'Asia/Shanghai',
+  ZS: 'Asia/Shanghai', ZU: 'Asia/Shanghai', ZH: 'Asia/Shanghai', ZL: 'Asia/Shanghai', ZP: 'Asia/Shanghai',
+  ZY: 'Asia/Shanghai', NZ: 'Pacific/Auckland', NF: 'Pacific/Fiji', NT: 'Pacific/Tahiti',
+  TJ: 'America/Puerto_Rico', TI: 'America/St_Thomas', TU: 'America/Tortola', MY: 'America/Nassau',
+  MK: 'America/Jamaica', MB: 'America/Grand_Turk', MW: 'America/Cayman', MD: 'America/Santo_Domingo',
+  TX: 'Atlantic/Bermuda', TB: 'America/Barbados', TN: 'America/Curacao', TF: 'America/Guadeloupe',
+  TQ: 'America/Anguilla', TK: 'America/St_Kitts', TA: 'America/Antigua', TL: 'America/St_Lucia',
+  TG: 'America/Grenada', TV: 'America/St_Vincent', TT: 'America/Port_of_Spain', MP: 'America/Panama',
+  MR: 'America/Costa_Rica', MG: 'America/Guatemala', MZ: 'America/Belize', MS: 'America/El_Salvador',
+  MH: 'America/Tegucigalpa', MN: 'America/Managua', SK: 'America/Bogota', SP: 'America/Lima',
+  SE: 'America/Guayaquil', SA: 'America/Argentina/Buenos_Aires', SC: 'America/Santiago',
+  SU: 'America/Montevideo', SG: 'America/Asuncion', SV: 'America/Caracas', SL: 'America/La_Paz',
+};
+
+/**
+ * Time zone of an airport from its ICAO code (preferred) or IATA code. IATA codes of
+ * contiguous-US airports are matched through their K-prefixed ICAO code.
+ * Returns undefined when the airport is not known.
+ */
+export function lookupAirportTimeZone(icaoCode?: string | null, iataCode?: string | null): string | undefined {
+  const icao = icaoCode?.trim().toUpperCase();
+  if (icao) {
+    if (AIRPORT_TIME_ZONES[icao]) {
+      return AIRPORT_TIME_ZONES[icao];
+    }
+    const byPrefix = ICAO_PREFIX_TIME_ZONES[icao.substring(0, 2)];
+    if (byPrefix) {
+      return byPrefix;
+    }
+  }
+
+  const iata = iataCode?.trim().toUpperCase();
+  if (iata && iata.length === 3) {
+    return AIRPORT_TIME_ZONES[`K${iata}`];
+  }
+
+  return undefined;
+}
@@ -0,0 +1,132 @@
+import {
+  CatererPayableSearchParams,
+  CatererPayableStatus,
+  CatererPayablePeriod,
+  MarginGroupBy,
+  CreateCatererBillDTO,
+  PayCatererBillDTO,
+} from '../models/caterer-payable';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const VALID_PAYABLE_STATUSES: CatererPayableStatus[] = ['unbilled', 'billed', 'paid'];
+const VALID_PERIODS: CatererPayablePeriod[] = ['month', 'quarter', 'year'];
+const VALID_MARGIN_GROUP_BY: MarginGroupBy[] = ['order', 'client', 'caterer'];
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE_REGEX.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function validateDateRange(from: string, to: string, fromField: string, toField: string, errors: string[]): void {
+  if (!isValidDate(from)) {
+    errors.push(`${fromField} must be a valid date in format YYYY-MM-DD`);
+  }
+  if (!isValidDate(to)) {
+    errors.push(`${toField} must be a valid date in format YYYY-MM-DD`);
+  }
+  if (isValidDate(from) && isValidDate(to) && from > to) {
+    errors.push(`${fromField} must be on or before ${toField}`);
+  }
+}
+
+function validateOrderIds(orderIds: unknown, errors: string[]): void {
+  if (orderIds === undefined) {
+    return;
+  }
+  if (!Array.isArray(orderIds) || orderIds.length === 0 ||
+      orderIds.some(id => !Number.isInteger(id) || id <= 0)) {
+    errors.push('order_ids must be a non-empty array of order IDs');
+  }
+}
+
+export function validatePayableSearchParams(params: CatererPayableSearchParams): ValidationResult {
+  const errors: string[] = [];
+
+  validateDateRange(params.date_from, params.date_to, 'date_from', 'date_to', errors);
+
+  for (const field of ['caterer_id', 'client_id'] as const) {
+    if (params[field] !== undefined && (!Number.isInteger(params[field]) || (params[field] as number) <= 0)) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+
+  if (params.payable_status !== undefined && !VALID_PAYABLE_STATUSES.includes(params.payable_status)) {
+    errors.push(`payable_status must be one of: ${VALID_PAYABLE_STATUSES.join(', ')}`);
+  }
+
+  validateOrderIds(params.order_ids, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validatePayablePeriod(period: string): ValidationResult {
+  const errors: string[] = [];
+  if (!VALID_PERIODS.includes(period as CatererPayablePeriod)) {
+    errors.push(`period must be one of: ${VALID_PERIODS.join(', ')}`);
+  }
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateMarginGroupBy(groupBy: string): ValidationResult {
+  const errors: string[] = [];
+  if (!VALID_MARGIN_GROUP_BY.includes(groupBy as MarginGroupBy)) {
+    errors.push(`group_by must be one of: ${VALID_MARGIN_GROUP_BY.join(', ')}`);
+  }
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateCreateCatererBill(data: CreateCatererBillDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!data.caterer_id || !Number.isInteger(data.caterer_id) || data.caterer_id <= 0) {
+    errors.push('caterer_id is required and must be a positive integer');
+  }
+
+  validateDateRange(data.period_start, data.period_end, 'period_start', 'period_end', errors);
+
+  if (data.bill_number !== undefined && (typeof data.bill_number !== 'string' || data.bill_number.length > 255)) {
+    errors.push('bill_number must be a string of at most 255 characters');
+  }
+
+  if (data.notes !== undefined && typeof data.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  validateOrderIds(data.order_ids, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validatePayCatererBill(data: PayCatererBillDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (data.paid_at !== undefined && (typeof data.paid_at !== 'string' || isNaN(new Date(data.paid_at).getTime()))) {
+    errors.push('paid_at must be a valid date');
+  }
+
+  if (data.payment_reference !== undefined &&
+      (typeof data.payment_reference !== 'string' || data.payment_reference.length > 255)) {
+    errors.push('payment_reference must be a string of at most 255 characters');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -1,5 +1,6 @@
 import { CreateCatererDTO } from '../models/caterer';
 import { validateEmail, validateIATACode, validateICAOCode } from './validation';
+import { isValidCurrency } from './currency';
 
 export function validateCaterer(data: CreateCatererDTO): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -38,6 +39,10 @@ export function validateCaterer(data: CreateCatererDTO): { valid: boolean; error
     }
   }
 
+  if (data.default_currency && !isValidCurrency(data.default_currency.trim().toUpperCase())) {
+    errors.push('default_currency must be a valid ISO 4217 currency code');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -74,6 +79,10 @@ export function normalizeCatererData(data: CreateCatererDTO): CreateCatererDTO {
     normalized.time_zone = data.time_zone.trim() || undefined;
   }
 
+  if (data.default_currency) {
+    normalized.default_currency = data.default_currency.trim().toUpperCase() || undefined;
+  }
+
   // Preserve additional_emails array
   if (data.additional_emails && Array.isArray(data.additional_emails)) {
     normalized.additional_emails = data.additional_emails;
@@ -33,3 +33,28 @@ export function compareToken(plain: string, hashed: string): boolean {
   return crypto.timingSafeEqual(Buffer.from(hashedPlain), Buffer.from(hashed));
 }
 
+
+function getSecretKey(): Buffer {
+  return crypto.createHash('sha256').update(env.TWO_FACTOR_ENCRYPTION_KEY).digest();
+}
+
+/**
+ * Encrypt a secret that must be read back (e.g. a TOTP secret) using AES-256-GCM
+ * Format: iv.authTag.ciphertext (base64)
+ */
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getSecretKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, authTag, data] = encrypted.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getSecretKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
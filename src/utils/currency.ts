@@ -0,0 +1,56 @@
+// Currency used for orders without one and for reporting exchange rates against
+export const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+
+/**
+ * ISO 4217 currency code the runtime can format (e.g. USD, EUR, GBP, CHF)
+ */
+export function isValidCurrency(currency: unknown): boolean {
+  if (typeof currency !== 'string' || !CURRENCY_REGEX.test(currency)) {
+    return false;
+  }
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Number of decimal places in the currency's minor unit (2 for USD, 0 for JPY)
+ */
+export function getCurrencyDecimals(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Amount in the currency's smallest unit, as Square Money expects
+ */
+export function toMinorUnits(amount: number, currency: string): bigint {
+  return BigInt(Math.round(amount * Math.pow(10, getCurrencyDecimals(currency))));
+}
+
+/**
+ * Amount from a Square Money value in the currency's smallest unit
+ */
+export function fromMinorUnits(amount: number | string | bigint, currency: string): number {
+  return Number(amount) / Math.pow(10, getCurrencyDecimals(currency));
+}
+
+/**
+ * Format an amount with the currency symbol, e.g. $1,234.50, €1,234.50, CHF 1,234.50
+ */
+export function formatCurrency(value: any, currency: string = DEFAULT_CURRENCY): string {
+  const num = typeof value === 'number' ? value : parseFloat(value) || 0;
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(num);
+  } catch {
+    return `${currency} ${num.toFixed(2)}`;
+  }
+}
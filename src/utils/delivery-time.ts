@@ -0,0 +1,72 @@
+import { Order } from '../models/order';
+import { Airport } from '../models/airport';
+import { Caterer } from '../models/caterer';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, zonedTimeToUtc, getTimeZoneAbbreviation } from './timezone';
+
+type DeliveryFields = Pick<Order, 'delivery_date' | 'delivery_time' | 'delivery_at' | 'delivery_time_zone' | 'airport_details' | 'caterer_details'>;
+
+// delivery_date comes back from PostgreSQL as a Date at local midnight, so read its local parts
+function toDateString(value: string | Date): string {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      return '';
+    }
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return String(value || '');
+}
+
+/**
+ * Zone an order's delivery date/time are local to: the airport's, else the caterer's,
+ * else DEFAULT_TIME_ZONE. Caterer zones that are not IANA names are ignored.
+ */
+export function resolveDeliveryTimeZone(airport?: Pick<Airport, 'time_zone'> | null, caterer?: Pick<Caterer, 'time_zone'> | null): string {
+  if (airport?.time_zone && isValidTimeZone(airport.time_zone)) {
+    return airport.time_zone;
+  }
+  if (caterer?.time_zone && isValidTimeZone(caterer.time_zone)) {
+    return caterer.time_zone;
+  }
+  return DEFAULT_TIME_ZONE;
+}
+
+export function getDeliveryTimeZone(order: DeliveryFields): string {
+  if (order.delivery_time_zone && isValidTimeZone(order.delivery_time_zone)) {
+    return order.delivery_time_zone;
+  }
+  return resolveDeliveryTimeZone(order.airport_details, order.caterer_details);
+}
+
+/**
+ * The delivery instant. Orders saved before delivery_at existed are computed from their
+ * local date/time and zone.
+ */
+export function getDeliveryInstant(order: DeliveryFields): Date | null {
+  if (order.delivery_at) {
+    const stored = new Date(order.delivery_at);
+    if (!isNaN(stored.getTime())) {
+      return stored;
+    }
+  }
+  if (!order.delivery_date || !order.delivery_time) {
+    return null;
+  }
+  return zonedTimeToUtc(toDateString(order.delivery_date), order.delivery_time, getDeliveryTimeZone(order));
+}
+
+/**
+ * Local delivery time with the zone abbreviation in effect on the delivery date, e.g. "14:30 EDT".
+ * Falls back to the aviation local-time suffix ("14:30L") when the instant cannot be determined.
+ */
+export function formatDeliveryTime(order: DeliveryFields): string {
+  if (!order.delivery_time) {
+    return '';
+  }
+  const instant = getDeliveryInstant(order);
+  if (!instant) {
+    return `${order.delivery_time}L`;
+  }
+  return `${order.delivery_time} ${getTimeZoneAbbreviation(instant, getDeliveryTimeZone(order))}`;
+}
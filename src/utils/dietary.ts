@@ -0,0 +1,171 @@
+import {
+  ALLERGENS,
+  DIETARY_TAGS,
+  Allergen,
+  DietaryTag,
+  DietaryRequirement,
+  DietaryConflict,
+} from '../models/dietary';
+import { Order, OrderItem } from '../models/order';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  celery: 'Celery',
+  gluten: 'Gluten',
+  crustaceans: 'Crustaceans',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  lupin: 'Lupin',
+  milk: 'Milk',
+  molluscs: 'Molluscs',
+  mustard: 'Mustard',
+  tree_nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  sesame: 'Sesame',
+  soy: 'Soy',
+  sulphites: 'Sulphites',
+};
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  gluten_free: 'Gluten free',
+  halal: 'Halal',
+  kosher: 'Kosher',
+  vegan: 'Vegan',
+};
+
+function validateList(value: unknown, allowed: readonly string[], field: string, errors: string[]): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return;
+  }
+  const invalid = value.filter(entry => !allowed.includes(entry));
+  if (invalid.length > 0) {
+    errors.push(`${field} contains invalid values (${invalid.join(', ')}); allowed: ${allowed.join(', ')}`);
+  }
+}
+
+export function validateAllergens(value: unknown, field: string, errors: string[]): void {
+  validateList(value, ALLERGENS, field, errors);
+}
+
+export function validateDietaryTags(value: unknown, field: string, errors: string[]): void {
+  validateList(value, DIETARY_TAGS, field, errors);
+}
+
+export function validateDietaryRequirements(value: unknown, errors: string[]): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push('dietary_requirements must be an array');
+    return;
+  }
+  value.forEach((requirement: DietaryRequirement, index) => {
+    const field = `dietary_requirements[${index}]`;
+    if (!requirement || typeof requirement !== 'object') {
+      errors.push(`${field} must be an object`);
+      return;
+    }
+    if (requirement.count !== undefined && requirement.count !== null &&
+        (!Number.isInteger(requirement.count) || requirement.count < 1)) {
+      errors.push(`${field}.count must be a positive integer`);
+    }
+    validateAllergens(requirement.allergens, `${field}.allergens`, errors);
+    validateDietaryTags(requirement.diets, `${field}.diets`, errors);
+    if (!requirement.allergens?.length && !requirement.diets?.length && !requirement.notes) {
+      errors.push(`${field} must list allergens, diets or notes`);
+    }
+  });
+}
+
+// Lower-cases and removes duplicates; known values keep the canonical order of the allowed list
+function normalizeList<T extends string>(values: T[] | undefined | null, allowed: readonly T[]): T[] | undefined {
+  if (!values) {
+    return undefined;
+  }
+  const set = new Set(values.map(value => (typeof value === 'string' ? value.trim().toLowerCase() : value) as T));
+  return [...allowed.filter(value => set.has(value)), ...Array.from(set).filter(value => !allowed.includes(value))];
+}
+
+export function normalizeAllergens(values: Allergen[] | undefined | null): Allergen[] | undefined {
+  return normalizeList(values, ALLERGENS);
+}
+
+export function normalizeDietaryTags(values: DietaryTag[] | undefined | null): DietaryTag[] | undefined {
+  return normalizeList(values, DIETARY_TAGS);
+}
+
+/**
+ * Allergens and dietary tags of a menu item as served in a given variant: the variant's
+ * allergens add to the item's, and the variant's tags replace the item's when set.
+ * Allergens stay undefined when neither the item nor the variant has allergen data.
+ */
+export function getEffectiveDietaryInfo(
+  item: { allergens?: Allergen[] | null; dietary_tags?: DietaryTag[] | null },
+  variant?: { allergens?: Allergen[] | null; dietary_tags?: DietaryTag[] | null } | null
+): { allergens?: Allergen[]; dietary_tags?: DietaryTag[] } {
+  const allergens = item.allergens || variant?.allergens
+    ? normalizeAllergens([...(item.allergens || []), ...(variant?.allergens || [])])
+    : undefined;
+  const dietaryTags = variant?.dietary_tags && variant.dietary_tags.length > 0
+    ? variant.dietary_tags
+    : item.dietary_tags;
+
+  return {
+    allergens,
+    dietary_tags: normalizeDietaryTags(dietaryTags),
+  };
+}
+
+function requirementName(requirement: DietaryRequirement, index: number): string {
+  return requirement.label || `Requirement ${index + 1}`;
+}
+
+/**
+ * Order items that contain an allergen a requirement excludes, and required diets no item on
+ * the order is tagged for. Items without allergen data are not checked, so a clean result is
+ * only as good as the menu's allergen tagging.
+ */
+export function findDietaryConflicts(order: Pick<Order, 'items' | 'dietary_requirements'>): DietaryConflict[] {
+  const requirements = order.dietary_requirements || [];
+  const items: OrderItem[] = order.items || [];
+  const conflicts: DietaryConflict[] = [];
+
+  requirements.forEach((requirement, requirementIndex) => {
+    const name = requirementName(requirement, requirementIndex);
+
+    for (const allergen of requirement.allergens || []) {
+      items.forEach((item, itemIndex) => {
+        if (!item.allergens?.includes(allergen)) {
+          return;
+        }
+        conflicts.push({
+          type: 'allergen',
+          requirement_index: requirementIndex,
+          requirement_label: requirement.label,
+          item_index: item.sort_order ?? itemIndex,
+          item_name: item.item_name,
+          allergen,
+          message: `${item.item_name} contains ${ALLERGEN_LABELS[allergen].toLowerCase()} (${name} must avoid it)`,
+        });
+      });
+    }
+
+    for (const diet of requirement.diets || []) {
+      if (items.some(item => item.dietary_tags?.includes(diet))) {
+        continue;
+      }
+      conflicts.push({
+        type: 'diet',
+        requirement_index: requirementIndex,
+        requirement_label: requirement.label,
+        diet,
+        message: `No ${DIETARY_TAG_LABELS[diet].toLowerCase()} item on the order (${name} requires it)`,
+      });
+    }
+  });
+
+  return conflicts;
+}
@@ -0,0 +1,65 @@
+import { CreateExchangeRateDTO, ExchangeRateSearchParams } from '../models/exchange-rate';
+import { isValidCurrency } from './currency';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE_REGEX.test(value) && !isNaN(new Date(value).getTime());
+}
+
+export function validateExchangeRate(data: CreateExchangeRateDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (data.base_currency !== undefined && !isValidCurrency(data.base_currency)) {
+    errors.push('base_currency must be a valid ISO 4217 currency code');
+  }
+  if (!data.quote_currency) {
+    errors.push('quote_currency is required');
+  } else if (!isValidCurrency(data.quote_currency)) {
+    errors.push('quote_currency must be a valid ISO 4217 currency code');
+  }
+  if (data.quote_currency && data.base_currency && data.quote_currency === data.base_currency) {
+    errors.push('quote_currency must differ from base_currency');
+  }
+  if (typeof data.rate !== 'number' || !isFinite(data.rate) || data.rate <= 0) {
+    errors.push('rate must be a positive number');
+  }
+  if (data.effective_date !== undefined && !isValidDate(data.effective_date)) {
+    errors.push('effective_date must be a valid date in format YYYY-MM-DD');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateExchangeRateSearchParams(params: ExchangeRateSearchParams): ValidationResult {
+  const errors: string[] = [];
+
+  if (params.base_currency && !isValidCurrency(params.base_currency)) {
+    errors.push('base_currency must be a valid ISO 4217 currency code');
+  }
+  if (params.quote_currency && !isValidCurrency(params.quote_currency)) {
+    errors.push('quote_currency must be a valid ISO 4217 currency code');
+  }
+  if (params.date_from && !isValidDate(params.date_from)) {
+    errors.push('date_from must be a valid date in format YYYY-MM-DD');
+  }
+  if (params.date_to && !isValidDate(params.date_to)) {
+    errors.push('date_to must be a valid date in format YYYY-MM-DD');
+  }
+  if (params.limit !== undefined && (!Number.isInteger(params.limit) || params.limit < 1 || params.limit > 1000)) {
+    errors.push('limit must be between 1 and 1000');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
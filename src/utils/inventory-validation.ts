@@ -1,4 +1,16 @@
-import { CreateInventoryItemDTO, UpdateInventoryItemDTO } from '../models/inventory';
+import {
+  InventoryItem,
+  CreateInventoryItemDTO,
+  UpdateInventoryItemDTO,
+  SetRecipeDTO,
+  StockUpdateDTO,
+  StockReceiptDTO,
+  StockWasteDTO,
+  StockTransferDTO,
+  InventoryMovementSearchParams,
+  INVENTORY_MOVEMENT_TYPES,
+  PERISHABLE_INVENTORY_CATEGORIES,
+} from '../models/inventory';
 
 export interface ValidationResult {
   valid: boolean;
@@ -51,6 +63,11 @@ export function validateInventoryItem(inventoryItem: CreateInventoryItemDTO | Up
     }
   }
 
+  if (inventoryItem.supplier_id !== undefined && inventoryItem.supplier_id !== null &&
+      (!Number.isInteger(inventoryItem.supplier_id) || inventoryItem.supplier_id <= 0)) {
+    errors.push('supplier_id must be a positive integer');
+  }
+
   if ('unit_price' in inventoryItem && inventoryItem.unit_price !== undefined) {
     if (typeof inventoryItem.unit_price !== 'number' || inventoryItem.unit_price < 0) {
       errors.push('unit_price must be a non-negative number');
@@ -63,6 +80,179 @@ export function validateInventoryItem(inventoryItem: CreateInventoryItemDTO | Up
   };
 }
 
+export function validateRecipe(recipe: SetRecipeDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!recipe.portion_size || typeof recipe.portion_size !== 'string' || !recipe.portion_size.trim()) {
+    errors.push('portion_size is required');
+  }
+
+  if (!Array.isArray(recipe.lines)) {
+    errors.push('lines must be an array');
+  } else {
+    const seen = new Set<number>();
+    recipe.lines.forEach((line, index) => {
+      if (!line || typeof line !== 'object') {
+        errors.push(`lines[${index}] must be an object`);
+        return;
+      }
+      if (!Number.isInteger(line.inventory_item_id) || line.inventory_item_id < 1) {
+        errors.push(`lines[${index}].inventory_item_id must be a positive integer`);
+      } else if (seen.has(line.inventory_item_id)) {
+        errors.push(`lines[${index}].inventory_item_id ${line.inventory_item_id} is listed more than once`);
+      } else {
+        seen.add(line.inventory_item_id);
+      }
+      if (typeof line.quantity !== 'number' || !(line.quantity > 0)) {
+        errors.push(`lines[${index}].quantity must be a positive number`);
+      }
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateForecastDays(days: number): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(days) || days < 1 || days > 90) {
+    errors.push('days must be an integer between 1 and 90');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE_REGEX.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function isPositiveQuantity(value: unknown): boolean {
+  return typeof value === 'number' && value > 0 && Math.round(value * 100) / 100 === value;
+}
+
+export function isPerishable(item: Pick<InventoryItem, 'category'>): boolean {
+  return PERISHABLE_INVENTORY_CATEGORIES.includes(item.category);
+}
+
+function validateLotDetails(data: { lot_number?: string; expiry_date?: string }, errors: string[]): void {
+  if (data.lot_number !== undefined && data.lot_number !== null &&
+      (typeof data.lot_number !== 'string' || data.lot_number.length > 100)) {
+    errors.push('lot_number must be a string of at most 100 characters');
+  }
+  if (data.expiry_date !== undefined && data.expiry_date !== null && !isValidDate(data.expiry_date)) {
+    errors.push('expiry_date must be a valid date in format YYYY-MM-DD');
+  }
+}
+
+export function validateStockUpdate(stockData: StockUpdateDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof stockData.current_stock !== 'number' || stockData.current_stock < 0) {
+    errors.push('current_stock must be a non-negative number');
+  }
+  validateLotDetails(stockData, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateStockReceipt(receipt: StockReceiptDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isPositiveQuantity(receipt.quantity)) {
+    errors.push('quantity must be a positive number with at most 2 decimals');
+  }
+  validateLotDetails(receipt, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateStockWaste(waste: StockWasteDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isPositiveQuantity(waste.quantity)) {
+    errors.push('quantity must be a positive number with at most 2 decimals');
+  }
+  if (waste.lot_id !== undefined && waste.lot_id !== null && (!Number.isInteger(waste.lot_id) || waste.lot_id < 1)) {
+    errors.push('lot_id must be a positive integer');
+  }
+  if (!waste.notes || typeof waste.notes !== 'string' || !waste.notes.trim()) {
+    errors.push('notes is required (why the stock was written off)');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateStockTransfer(transfer: StockTransferDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isPositiveQuantity(transfer.quantity)) {
+    errors.push('quantity must be a positive number with at most 2 decimals');
+  }
+  if (!transfer.to_location || typeof transfer.to_location !== 'string' || !transfer.to_location.trim()) {
+    errors.push('to_location is required');
+  }
+  if (transfer.from_location !== undefined && transfer.from_location !== null && typeof transfer.from_location !== 'string') {
+    errors.push('from_location must be a string');
+  }
+  if (transfer.lot_id !== undefined && transfer.lot_id !== null && (!Number.isInteger(transfer.lot_id) || transfer.lot_id < 1)) {
+    errors.push('lot_id must be a positive integer');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateMovementSearchParams(params: InventoryMovementSearchParams): ValidationResult {
+  const errors: string[] = [];
+
+  if (params.movement_type && !INVENTORY_MOVEMENT_TYPES.includes(params.movement_type)) {
+    errors.push(`movement_type must be one of: ${INVENTORY_MOVEMENT_TYPES.join(', ')}`);
+  }
+  if (params.date_from && !isValidDate(params.date_from)) {
+    errors.push('date_from must be a valid date in format YYYY-MM-DD');
+  }
+  if (params.date_to && !isValidDate(params.date_to)) {
+    errors.push('date_to must be a valid date in format YYYY-MM-DD');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateExpiringDays(days: number): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(days) || days < 0 || days > 365) {
+    errors.push('days must be an integer between 0 and 365');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
 export function normalizeInventoryItemData<T extends CreateInventoryItemDTO | UpdateInventoryItemDTO>(inventoryItem: T): T {
   const normalized = { ...inventoryItem } as T;
 
@@ -1,4 +1,5 @@
 import { CreateMenuItemDTO, UpdateMenuItemDTO } from '../models/menu-item';
+import { validateAllergens, validateDietaryTags, normalizeAllergens, normalizeDietaryTags } from './dietary';
 
 export interface ValidationResult {
   valid: boolean;
@@ -19,6 +20,9 @@ export function validateMenuItem(menuItem: CreateMenuItemDTO | UpdateMenuItemDTO
     }
   }
 
+  validateAllergens(menuItem.allergens, 'allergens', errors);
+  validateDietaryTags(menuItem.dietary_tags, 'dietary_tags', errors);
+
   if ('variants' in menuItem && menuItem.variants !== undefined) {
     if (!Array.isArray(menuItem.variants)) {
       errors.push('variants must be an array');
@@ -32,6 +36,8 @@ export function validateMenuItem(menuItem: CreateMenuItemDTO | UpdateMenuItemDTO
         } else if (typeof variant.price !== 'number' || variant.price <= 0) {
           errors.push(`variants[${index}].price must be a positive number`);
         }
+        validateAllergens(variant.allergens, `variants[${index}].allergens`, errors);
+        validateDietaryTags(variant.dietary_tags, `variants[${index}].dietary_tags`, errors);
       });
     }
   }
@@ -60,6 +66,12 @@ export function normalizeMenuItemData<T extends CreateMenuItemDTO | UpdateMenuIt
   if ('item_name' in normalized && normalized.item_name) {
     normalized.item_name = normalized.item_name.trim();
   }
+  if (Array.isArray(normalized.allergens)) {
+    normalized.allergens = normalizeAllergens(normalized.allergens);
+  }
+  if (Array.isArray(normalized.dietary_tags)) {
+    normalized.dietary_tags = normalizeDietaryTags(normalized.dietary_tags);
+  }
 
   return normalized;
 }
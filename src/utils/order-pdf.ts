@@ -3,6 +3,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import puppeteer from 'puppeteer';
 import { defaultPDFStyles, statusColors, statusBackgrounds, statusLabels, PDFStyleConfig } from './pdf-styles';
+import { ClientStatement } from '../models/receivables';
+import { DEFAULT_CURRENCY, formatCurrency } from './currency';
+import { formatDeliveryTime } from './delivery-time';
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS, findDietaryConflicts } from './dietary';
+import { Allergen, DietaryTag, DietaryRequirement } from '../models/dietary';
 
 // Try multiple paths for logo (works in both dev and production)
 function getLogoPath(): string | null {
@@ -112,9 +117,25 @@ export function decodeHtmlEntitiesForText(text: string): string {
   return decodeHtmlEntities(text);
 }
 
-function formatPrice(value: any): string {
-  const num = typeof value === 'number' ? value : parseFloat(value) || 0;
-  return num.toFixed(2);
+// Amount with the currency symbol of the order (USD when not set)
+export function formatPrice(value: any, currency: string = DEFAULT_CURRENCY): string {
+  return formatCurrency(value, currency);
+}
+
+/**
+ * Collapse the order's per-line tax breakdown into one total row per charge
+ */
+export function summarizeTaxLines(order: any): Array<{ label: string; amount: number }> {
+  const summary = new Map<string, { label: string; amount: number }>();
+  (order.tax_breakdown || []).forEach((line: any) => {
+    const key = line.source === 'tax_charge' ? `charge:${line.tax_charge_id}` : `${line.source}:${line.rate}`;
+    const rate = parseFloat(line.rate) || 0;
+    const label = line.is_percentage ? `${line.name} (${rate}%)` : line.name;
+    const entry = summary.get(key) || { label, amount: 0 };
+    entry.amount += parseFloat(line.amount) || 0;
+    summary.set(key, entry);
+  });
+  return Array.from(summary.values()).filter(entry => entry.amount > 0);
 }
 
 function formatDate(dateInput: string | Date | null | undefined): string {
@@ -142,8 +163,76 @@ function formatDate(dateInput: string | Date | null | undefined): string {
   return `${String(date.getUTCMonth() + 1).padStart(2, '0')}/${String(date.getUTCDate()).padStart(2, '0')}/${String(date.getUTCFullYear()).slice(-2)}`;
 }
 
-function formatTime(timeStr: string): string {
-  return timeStr ? `${timeStr}L` : '';
+// e.g. "8 pax / 3 crew"; empty when neither count is set
+function formatPassengerCrew(order: any): string {
+  const parts: string[] = [];
+  if (order.passenger_count !== undefined && order.passenger_count !== null) parts.push(`${order.passenger_count} pax`);
+  if (order.crew_count !== undefined && order.crew_count !== null) parts.push(`${order.crew_count} crew`);
+  return parts.join(' / ');
+}
+
+// Galley notes of the linked aircraft, printed on the caterer PDF
+function getGalleyNotes(order: any): Array<{ label: string; text: string }> {
+  const aircraft = order.aircraft;
+  if (!aircraft) return [];
+  return [
+    { label: 'Oven', text: aircraft.oven_type },
+    { label: 'Storage', text: aircraft.storage_limits },
+    { label: 'Notes', text: aircraft.galley_notes },
+  ]
+    .filter(note => note.text)
+    .map(note => ({ label: note.label, text: decodeHtmlEntitiesForText(note.text) }));
+}
+
+// Short codes for the allergen and diet icons on the caterer PDF
+const ALLERGEN_ICON_CODES: Record<Allergen, string> = {
+  celery: 'CE', gluten: 'GL', crustaceans: 'CR', eggs: 'EG', fish: 'FI', lupin: 'LU', milk: 'MI',
+  molluscs: 'MO', mustard: 'MU', tree_nuts: 'TN', peanuts: 'PN', sesame: 'SE', soy: 'SO', sulphites: 'SU',
+};
+const DIETARY_TAG_ICON_CODES: Record<DietaryTag, string> = {
+  gluten_free: 'GF', halal: 'H', kosher: 'K', vegan: 'V',
+};
+
+function iconBadge(code: string, title: string, color: string, background: string): string {
+  return `<span title="${escapeHtml(title)}" style="display:inline-block;min-width:18px;height:18px;line-height:16px;padding:0 3px;margin:2px 3px 0 0;border:1px solid ${color};border-radius:9px;background:${background};color:${color};font-family:Arial,sans-serif;font-size:8px;font-weight:700;text-align:center">${escapeHtml(code)}</span>`;
+}
+
+// Allergen (red) and diet (green) icons for an order item; empty when the item has neither
+function formatDietaryIcons(item: any): string {
+  const allergens: Allergen[] = (item.allergens || []).filter((a: Allergen) => ALLERGEN_ICON_CODES[a]);
+  const tags: DietaryTag[] = (item.dietary_tags || []).filter((t: DietaryTag) => DIETARY_TAG_ICON_CODES[t]);
+  return [
+    ...allergens.map(a => iconBadge(ALLERGEN_ICON_CODES[a], ALLERGEN_LABELS[a], '#b91c1c', '#fef2f2')),
+    ...tags.map(t => iconBadge(DIETARY_TAG_ICON_CODES[t], DIETARY_TAG_LABELS[t], '#15803d', '#f0fdf4')),
+  ].join('');
+}
+
+// e.g. "J. Smith (2): avoid peanuts, sesame; vegan - no dressing"
+function formatDietaryRequirement(requirement: DietaryRequirement, index: number): string {
+  const name = requirement.label || `Requirement ${index + 1}`;
+  const parts: string[] = [];
+  if (requirement.allergens && requirement.allergens.length > 0) {
+    parts.push(`avoid ${requirement.allergens.map(a => (ALLERGEN_LABELS[a] || a).toLowerCase()).join(', ')}`);
+  }
+  if (requirement.diets && requirement.diets.length > 0) {
+    parts.push(requirement.diets.map(d => (DIETARY_TAG_LABELS[d] || d).toLowerCase()).join(', '));
+  }
+  const count = requirement.count && requirement.count > 1 ? ` (${requirement.count})` : '';
+  const notes = requirement.notes ? ` - ${decodeHtmlEntitiesForText(requirement.notes)}` : '';
+  return `${decodeHtmlEntitiesForText(name)}${count}: ${parts.join('; ')}${notes}`;
+}
+
+// Order items followed by the add-on lines in item shape, so the item tables list both
+function getItemRows(order: any): any[] {
+  const addonRows = (order.addons || []).map((addon: any) => ({
+    item_name: addon.name,
+    item_description: addon.description,
+    portion_size: String(addon.quantity),
+    price: addon.price,
+    category: 'Add-ons',
+    is_addon: true,
+  }));
+  return [...(order.items || []), ...addonRows];
 }
 
 function getStatusLabel(status: string): string {
@@ -164,6 +253,7 @@ function getLogoBase64(): string {
 }
 
 export function generateOrderHTML(order: any): string {
+  const currency = order.currency || DEFAULT_CURRENCY;
   const s = defaultPDFStyles;
   const c = s.colors;
   const displayNum = getDisplayOrderNumber(order);
@@ -185,8 +275,8 @@ export function generateOrderHTML(order: any): string {
   const getTextColor = (fieldName: string, defaultColor: string) => 
     isChanged(fieldName) ? changeColor : defaultColor;
   
-  // Calculate correct subtotal from items (price * qty for each item)
-  const calculatedSubtotal = (order.items || []).reduce((sum: number, item: any) => {
+  // Calculate correct subtotal from items and add-ons (price * qty for each line)
+  const calculatedSubtotal = getItemRows(order).reduce((sum: number, item: any) => {
     const qty = parseFloat(item.portion_size) || 1;
     const price = parseFloat(item.price) || 0;
     return sum + (price * qty);
@@ -201,7 +291,9 @@ export function generateOrderHTML(order: any): string {
     (parseFloat(order.fbo_fee) || 0) +
     (parseFloat(order.shopping_fee) || 0) +
     (parseFloat(order.restaurant_pickup_fee) || 0) +
-    (parseFloat(order.airport_pickup_fee) || 0);
+    (parseFloat(order.airport_pickup_fee) || 0) +
+    (parseFloat(order.tax_total) || 0);
+  const taxLines = summarizeTaxLines(order);
   
   const clientName = decodeHtmlEntitiesForText(order.client?.full_name || order.client_name || '');
   const clientCompany = decodeHtmlEntitiesForText(order.client?.company_name || '');
@@ -221,11 +313,12 @@ export function generateOrderHTML(order: any): string {
   
   // Helper to check if item is changed
   const isItemChanged = (item: any) => {
+    if (item.is_addon) return isChanged('addons');
     if (!item.id) return false;
     return changedItemIds.includes(item.id) || isChanged('items');
   };
   
-  const itemsHTML = (order.items || []).map((item: any, i: number) => {
+  const itemsHTML = getItemRows(order).map((item: any, i: number) => {
     // Pale blue shading for alternating rows, or clean black line
     const bg = i % 2 === 0 ? '#fff' : '#f0f9ff';
     const borderColor = i % 2 === 0 ? '#e5e7eb' : '#e5e7eb';
@@ -241,16 +334,18 @@ export function generateOrderHTML(order: any): string {
     const descText = item.item_description ? escapeHtml(item.item_description).replace(/\n/g, '<br/>') : '';
     const desc = descText ? `<div style="font-family:'Times New Roman',Times,serif;font-size:11px;color:${itemDescColor};margin-top:2px;line-height:1.3">${descText}</div>` : '';
     const packagingTag = item.packaging ? `<div style="font-family:'Times New Roman',Times,serif;font-size:11px;font-weight:bold;color:${itemPackagingColor};margin-top:2px">${escapeHtml(item.packaging)}</div>` : '';
+    const addonTag = item.is_addon ? `<div style="font-family:'Times New Roman',Times,serif;font-size:10px;font-weight:bold;color:${itemPackagingColor};margin-top:2px">ADD-ON</div>` : '';
     const qty = parseFloat(item.portion_size) || 1;
     return `<tr style="background:${bg}">
       <td style="padding:6px 12px;border-bottom:1px solid ${borderColor};width:54%">
         <div style="font-family:'Times New Roman',Times,serif;font-size:14px;font-weight:600;color:${itemNameColor}">${escapeHtml(item.item_name)}</div>
         ${desc}
         ${packagingTag}
+        ${addonTag}
       </td>
       <td style="padding:6px 4px;text-align:center;border-bottom:1px solid ${borderColor};width:10%;font-family:'Times New Roman',Times,serif;font-size:11px;color:${itemQtyColor}">${escapeHtml(item.portion_size)}</td>
-      <td style="padding:6px 4px;text-align:right;border-bottom:1px solid ${borderColor};width:18%;font-family:'Times New Roman',Times,serif;font-size:11px;color:${c.textLight}">$${formatPrice(item.price)}</td>
-      <td style="padding:6px 4px;text-align:right;border-bottom:1px solid ${borderColor};width:18%;font-family:'Times New Roman',Times,serif;font-size:11px;font-weight:600">$${formatPrice(item.price * qty)}</td>
+      <td style="padding:6px 4px;text-align:right;border-bottom:1px solid ${borderColor};width:18%;font-family:'Times New Roman',Times,serif;font-size:11px;color:${c.textLight}">${formatPrice(item.price, currency)}</td>
+      <td style="padding:6px 4px;text-align:right;border-bottom:1px solid ${borderColor};width:18%;font-family:'Times New Roman',Times,serif;font-size:11px;font-weight:600">${formatPrice(item.price * qty, currency)}</td>
     </tr>`;
   }).join('');
 
@@ -265,22 +360,23 @@ export function generateOrderHTML(order: any): string {
 <style>*{margin:0;padding:0;box-sizing:border-box}body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Arial,sans-serif;background:#f1f5f9;padding:12px;color:${c.text}}.inv{max-width:800px;margin:0 auto;background:#fff;box-shadow:0 4px 6px -1px rgba(0,0,0,.1);border-radius:8px;overflow:hidden}.hdr{display:flex;justify-content:space-between;align-items:flex-start;padding:16px 28px;border-bottom:1px solid ${c.borderLight}}.co-info{font-size:11px;color:${c.textLight};line-height:1.4}.inv-num{font-size:18px;font-weight:700;color:${c.primary};margin-bottom:2px}.inv-sub{font-size:11px;color:${c.textLight};text-transform:uppercase;letter-spacing:.5px;margin-bottom:8px}.badge{display:inline-block;padding:4px 12px;border-radius:16px;font-size:11px;font-weight:600;background:${statusBg};color:${statusColor}}.det{display:grid;grid-template-columns:1fr 1fr;gap:24px;padding:16px 28px;background:${c.background}}.det h3{font-size:10px;text-transform:uppercase;letter-spacing:1px;color:${c.textMuted};margin-bottom:10px;font-weight:600}.det-row{display:flex;margin-bottom:6px;font-size:12px}.det-lbl{width:90px;color:${c.textLight}}.det-val{font-weight:500}.bt-name{font-size:14px;font-weight:600;margin-bottom:4px}.bt-co{font-size:12px;color:${c.primary};font-weight:500;margin-bottom:4px}.bt-det{font-size:11px;color:${c.textLight};line-height:1.5}.items{padding:16px 28px}table{width:100%;border-collapse:separate;border-spacing:0;border-radius:6px;overflow:hidden;border:1px solid ${c.border}}thead th{background:${c.primaryDark};color:#fff;padding:8px 12px;font-family:'Times New Roman',Times,serif;font-size:11px;font-weight:bold;text-transform:uppercase;letter-spacing:.5px;text-align:left}thead th:nth-child(2),thead th:nth-child(3){text-align:center}thead th:last-child{text-align:right}.tots{padding:0 28px 16px;display:flex;justify-content:flex-end}.tots-box{width:260px;background:${c.background};border-radius:6px;padding:14px;border:1px solid ${c.borderLight}}.tot-row{display:flex;justify-content:space-between;padding:5px 0;font-size:12px;color:${c.textLight}}.tot-row.grand{border-top:2px solid ${c.border};margin-top:6px;padding-top:10px;font-size:14px;font-weight:700;color:${c.primary}}.ftr{padding:14px 28px;background:${c.background};border-top:1px solid ${c.borderLight};text-align:center}.ftr-msg{font-size:11px;color:${c.textLight};line-height:1.6}.ftr-sig{font-size:12px;font-weight:600;color:${c.primary};margin-bottom:4px}.ftr-tag{font-size:11px;color:${c.textMuted};font-style:italic}.inst{padding:0 28px 16px}.inst-box{background:#fffbeb;border:1px solid #fcd34d;border-radius:6px;padding:12px}.inst-box h4{color:#b45309;font-size:11px;font-weight:600;margin-bottom:8px}.inst-item{font-size:11px;color:#78350f;margin-bottom:4px}</style></head>
 <body><div class="inv">
 <div class="hdr"><div>${logoImg}<div class="co-info">${escapeHtml(s.company.address)}<br/><b>Phone | ${escapeHtml(s.company.phone)}</b></div></div><div style="text-align:right"><div class="inv-num">INVOICE #${escapeHtml(displayNum)}</div><div class="inv-sub">Inflight Catering Order</div><span class="badge">${escapeHtml(statusLabel)}</span></div></div>
-<div class="det"><div><h3>Bill To</h3><div class="bt-name">${escapeHtml(clientName)}</div>${clientCompany ? `<div class="bt-co">${escapeHtml(clientCompany)}</div>` : ''}<div class="bt-det" style="word-wrap:break-word;overflow-wrap:break-word;max-width:250px">${clientAddr ? escapeHtml(clientAddr).replace(/\n/g, '<br/>') + '<br/>' : ''}${clientEmail ? `<div style="margin-top:4px">${escapeHtml(clientEmail)}</div>` : ''}${clientPhone ? `<div>${escapeHtml(clientPhone)}</div>` : ''}</div></div><div><h3>Delivery Details</h3><div class="det-row"><span class="det-lbl">Date & Time:</span><span class="det-val" style="color:${getTextColor('delivery_date', c.text)}">${escapeHtml(formatDate(order.delivery_date))} &nbsp; <span style="color:${getTextColor('delivery_time', c.text)}">${escapeHtml(formatTime(order.delivery_time))}</span></span></div><div class="det-row"><span class="det-lbl">Airport Code:</span><span class="det-val" style="color:${getTextColor('airport', c.text)}">${escapeHtml(airportCode)}</span></div><div class="det-row"><span class="det-lbl">FBO:</span><span class="det-val" style="color:${getTextColor('fbo', c.text)}">${escapeHtml(fboName)}</span></div><div class="det-row"><span class="det-lbl">Tail#:</span><span class="det-val" style="color:${getTextColor('aircraft_tail_number', c.text)}">${escapeHtml(order.aircraft_tail_number||'')}</span></div>${dietary?`<div class="det-row"><span class="det-lbl">Dietary:</span><span class="det-val" style="color:${getTextColor('dietary_restrictions', c.text)}">${escapeHtml(dietary)}</span></div>`:''}</div></div>
+<div class="det"><div><h3>Bill To</h3><div class="bt-name">${escapeHtml(clientName)}</div>${clientCompany ? `<div class="bt-co">${escapeHtml(clientCompany)}</div>` : ''}<div class="bt-det" style="word-wrap:break-word;overflow-wrap:break-word;max-width:250px">${clientAddr ? escapeHtml(clientAddr).replace(/\n/g, '<br/>') + '<br/>' : ''}${clientEmail ? `<div style="margin-top:4px">${escapeHtml(clientEmail)}</div>` : ''}${clientPhone ? `<div>${escapeHtml(clientPhone)}</div>` : ''}</div></div><div><h3>Delivery Details</h3><div class="det-row"><span class="det-lbl">Date & Time:</span><span class="det-val" style="color:${getTextColor('delivery_date', c.text)}">${escapeHtml(formatDate(order.delivery_date))} &nbsp; <span style="color:${getTextColor('delivery_time', c.text)}">${escapeHtml(formatDeliveryTime(order))}</span></span></div><div class="det-row"><span class="det-lbl">Airport Code:</span><span class="det-val" style="color:${getTextColor('airport', c.text)}">${escapeHtml(airportCode)}</span></div><div class="det-row"><span class="det-lbl">FBO:</span><span class="det-val" style="color:${getTextColor('fbo', c.text)}">${escapeHtml(fboName)}</span></div><div class="det-row"><span class="det-lbl">Tail#:</span><span class="det-val" style="color:${getTextColor('aircraft_tail_number', c.text)}">${escapeHtml(order.aircraft_tail_number||'')}</span></div>${dietary?`<div class="det-row"><span class="det-lbl">Dietary:</span><span class="det-val" style="color:${getTextColor('dietary_restrictions', c.text)}">${escapeHtml(dietary)}</span></div>`:''}</div></div>
 ${(order.reheating_instructions||order.packaging_instructions)?`<div class="inst"><div class="inst-box"><h4>⚠️ Special Instructions</h4>${order.reheating_instructions?`<div class="inst-item"><b>Reheating:</b> ${escapeHtml(order.reheating_instructions)}</div>`:''}${order.packaging_instructions?`<div class="inst-item"><b>Packaging:</b> ${escapeHtml(order.packaging_instructions)}</div>`:''}</div></div>`:''}
 <div class="items"><table><thead><tr><th style="font-size:12px">Item & Description</th><th style="text-align:center;font-size:10px">Qty</th><th style="text-align:right;font-size:10px">Unit Cost</th><th style="text-align:right;font-size:10px">Total</th></tr></thead><tbody>${itemsHTML}</tbody></table></div>
-<div class="tots"><div class="tots-box"><div class="tot-row"><span>Subtotal:</span><span>$${formatPrice(calculatedSubtotal)}</span></div>${parseFloat(order.delivery_fee || 0)>0?`<div class="tot-row"><span>${escapeHtml(airportCode)} Delivery Fee:</span><span>$${formatPrice(order.delivery_fee)}</span></div>`:''}${parseFloat(order.service_charge || 0)>0?`<div class="tot-row"><span>Service Charge:</span><span>$${formatPrice(order.service_charge)}</span></div>`:''}${parseFloat(order.coordination_fee || 0)>0?`<div class="tot-row"><span>Coordination Fee:</span><span>$${formatPrice(order.coordination_fee)}</span></div>`:''}${parseFloat(order.airport_fee || 0)>0?`<div class="tot-row"><span>Airport Fee:</span><span>$${formatPrice(order.airport_fee)}</span></div>`:''}${parseFloat(order.fbo_fee || 0)>0?`<div class="tot-row"><span>FBO Fee:</span><span>$${formatPrice(order.fbo_fee)}</span></div>`:''}${parseFloat(order.shopping_fee || 0)>0?`<div class="tot-row"><span>Shopping Fee:</span><span>$${formatPrice(order.shopping_fee)}</span></div>`:''}${parseFloat(order.restaurant_pickup_fee || 0)>0?`<div class="tot-row"><span>Restaurant Pickup Fee:</span><span>$${formatPrice(order.restaurant_pickup_fee)}</span></div>`:''}${parseFloat(order.airport_pickup_fee || 0)>0?`<div class="tot-row"><span>Airport Pickup Fee:</span><span>$${formatPrice(order.airport_pickup_fee)}</span></div>`:''}<div class="tot-row grand"><span>Total:</span><span>$${formatPrice(calculatedTotal)}</span></div></div></div>
+<div class="tots"><div class="tots-box"><div class="tot-row"><span>Subtotal:</span><span>${formatPrice(calculatedSubtotal, currency)}</span></div>${parseFloat(order.delivery_fee || 0)>0?`<div class="tot-row"><span>${escapeHtml(airportCode)} Delivery Fee:</span><span>${formatPrice(order.delivery_fee, currency)}</span></div>`:''}${parseFloat(order.service_charge || 0)>0?`<div class="tot-row"><span>Service Charge:</span><span>${formatPrice(order.service_charge, currency)}</span></div>`:''}${parseFloat(order.coordination_fee || 0)>0?`<div class="tot-row"><span>Coordination Fee:</span><span>${formatPrice(order.coordination_fee, currency)}</span></div>`:''}${parseFloat(order.airport_fee || 0)>0?`<div class="tot-row"><span>Airport Fee:</span><span>${formatPrice(order.airport_fee, currency)}</span></div>`:''}${parseFloat(order.fbo_fee || 0)>0?`<div class="tot-row"><span>FBO Fee:</span><span>${formatPrice(order.fbo_fee, currency)}</span></div>`:''}${parseFloat(order.shopping_fee || 0)>0?`<div class="tot-row"><span>Shopping Fee:</span><span>${formatPrice(order.shopping_fee, currency)}</span></div>`:''}${parseFloat(order.restaurant_pickup_fee || 0)>0?`<div class="tot-row"><span>Restaurant Pickup Fee:</span><span>${formatPrice(order.restaurant_pickup_fee, currency)}</span></div>`:''}${parseFloat(order.airport_pickup_fee || 0)>0?`<div class="tot-row"><span>Airport Pickup Fee:</span><span>${formatPrice(order.airport_pickup_fee, currency)}</span></div>`:''}${taxLines.map(t=>`<div class="tot-row"><span>${escapeHtml(t.label)}:</span><span>${formatPrice(t.amount, currency)}</span></div>`).join('')}<div class="tot-row grand"><span>Total:</span><span>${formatPrice(calculatedTotal, currency)}</span></div></div></div>
 <div class="ftr"><div class="ftr-msg">Email: Inflight@Kabin247.com &nbsp;&nbsp;&nbsp; Phone: +1-813-331-5667 &nbsp; Address: 4520 W. Oakellar Ave, Unit 13061, Tampa, FL 33611</div></div>
 ${paidStamp}</div></body></html>`;
 }
 
 export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDFStyles): typeof PDFDocument.prototype {
+  const currency = order.currency || DEFAULT_CURRENCY;
   const c = styles.colors;
   const displayNum = getDisplayOrderNumber(order);
   const statusLabel = getStatusLabel(order.status);
   const statusColor = statusColors[order.status] || c.secondary;
 
-  // Calculate correct subtotal from items (price * qty for each item)
-  const calculatedSubtotal = (order.items || []).reduce((sum: number, item: any) => {
+  // Calculate correct subtotal from items and add-ons (price * qty for each line)
+  const calculatedSubtotal = getItemRows(order).reduce((sum: number, item: any) => {
     const qty = parseFloat(item.portion_size) || 1;
     const price = parseFloat(item.price) || 0;
     return sum + (price * qty);
@@ -295,7 +391,9 @@ export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDF
     (parseFloat(order.fbo_fee) || 0) +
     (parseFloat(order.shopping_fee) || 0) +
     (parseFloat(order.restaurant_pickup_fee) || 0) +
-    (parseFloat(order.airport_pickup_fee) || 0);
+    (parseFloat(order.airport_pickup_fee) || 0) +
+    (parseFloat(order.tax_total) || 0);
+  const taxLines = summarizeTaxLines(order);
 
   const doc = new PDFDocument({ margin: styles.spacing.margin, size: styles.layout.pageSize, info: { Title: `Invoice ${displayNum}`, Author: styles.company.name, Subject: 'Inflight Catering Order' }});
 
@@ -373,7 +471,7 @@ export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDF
     doc.fillColor(c.text).font(styles.fonts.bold).text(v, rx + 80, yy);
     return yy + 20;
   };
-  ry = row('Date & Time:', `${formatDate(order.delivery_date)}   ${formatTime(order.delivery_time)}`, ry);
+  ry = row('Date & Time:', `${formatDate(order.delivery_date)}   ${formatDeliveryTime(order)}`, ry);
   ry = row('Airport Code:', airportCode, ry);
   ry = row('FBO:', fboName, ry);
   ry = row('Tail#:', order.aircraft_tail_number || '', ry);
@@ -416,7 +514,7 @@ export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDF
   doc.text('Total', m + cols.item + cols.qty + cols.unit, hy, { width: cols.total - 12, align: 'right' });
   y += 40;
 
-  (order.items || []).forEach((item: any, i: number) => {
+  getItemRows(order).forEach((item: any, i: number) => {
     const hasDesc = item.item_description?.trim();
     const hasTags = item.category || item.packaging;
     const rh = hasDesc && hasTags ? 65 : hasDesc || hasTags ? 52 : 36; // More compact row heights
@@ -442,8 +540,8 @@ export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDF
     }
     doc.fillColor(c.text).fontSize(15).font(styles.fonts.body).text(item.portion_size || '', m + cols.item, ty, { width: cols.qty, align: 'center' });
     const qty = parseFloat(item.portion_size) || 1;
-    doc.fillColor(c.textLight).text(`$${formatPrice(item.price)}`, m + cols.item + cols.qty, ty, { width: cols.unit, align: 'right' });
-    doc.fillColor(c.text).font(styles.fonts.bold).text(`$${formatPrice(item.price * qty)}`, m + cols.item + cols.qty + cols.unit, ty, { width: cols.total - 12, align: 'right' });
+    doc.fillColor(c.textLight).text(`${formatPrice(item.price, currency)}`, m + cols.item + cols.qty, ty, { width: cols.unit, align: 'right' });
+    doc.fillColor(c.text).font(styles.fonts.bold).text(`${formatPrice(item.price * qty, currency)}`, m + cols.item + cols.qty + cols.unit, ty, { width: cols.total - 12, align: 'right' });
     y += rh;
   });
 
@@ -451,27 +549,28 @@ export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDF
   y += 15;
 
   // TOTALS
-  const totW = 220, totX = pw - m - totW, totH = 90;
+  const totW = 220, totX = pw - m - totW, totH = 90 + taxLines.length * 20;
   doc.roundedRect(totX, y, totW, totH, 6).fillColor(c.background).fill();
   doc.roundedRect(totX, y, totW, totH, 6).strokeColor(c.borderLight).lineWidth(1).stroke();
 
   let ty = y + 18;
   doc.fillColor(c.textLight).fontSize(15).font(styles.fonts.body);
-  doc.text('Subtotal:', totX + 15, ty).text(`$${formatPrice(calculatedSubtotal)}`, totX + 15, ty, { width: totW - 30, align: 'right' });
+  doc.text('Subtotal:', totX + 15, ty).text(`${formatPrice(calculatedSubtotal, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' });
   ty += 20;
-  if (parseFloat(order.delivery_fee || 0) > 0) { doc.text(`${airportCode} Delivery Fee:`, totX + 15, ty).text(`$${formatPrice(order.delivery_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.service_charge || 0) > 0) { doc.text('Service Charge:', totX + 15, ty).text(`$${formatPrice(order.service_charge)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.coordination_fee || 0) > 0) { doc.text('Coordination Fee:', totX + 15, ty).text(`$${formatPrice(order.coordination_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.airport_fee || 0) > 0) { doc.text('Airport Fee:', totX + 15, ty).text(`$${formatPrice(order.airport_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.fbo_fee || 0) > 0) { doc.text('FBO Fee:', totX + 15, ty).text(`$${formatPrice(order.fbo_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.shopping_fee || 0) > 0) { doc.text('Shopping Fee:', totX + 15, ty).text(`$${formatPrice(order.shopping_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.restaurant_pickup_fee || 0) > 0) { doc.text('Restaurant Pickup Fee:', totX + 15, ty).text(`$${formatPrice(order.restaurant_pickup_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
-  if (parseFloat(order.airport_pickup_fee || 0) > 0) { doc.text('Airport Pickup Fee:', totX + 15, ty).text(`$${formatPrice(order.airport_pickup_fee)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.delivery_fee || 0) > 0) { doc.text(`${airportCode} Delivery Fee:`, totX + 15, ty).text(`${formatPrice(order.delivery_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.service_charge || 0) > 0) { doc.text('Service Charge:', totX + 15, ty).text(`${formatPrice(order.service_charge, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.coordination_fee || 0) > 0) { doc.text('Coordination Fee:', totX + 15, ty).text(`${formatPrice(order.coordination_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.airport_fee || 0) > 0) { doc.text('Airport Fee:', totX + 15, ty).text(`${formatPrice(order.airport_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.fbo_fee || 0) > 0) { doc.text('FBO Fee:', totX + 15, ty).text(`${formatPrice(order.fbo_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.shopping_fee || 0) > 0) { doc.text('Shopping Fee:', totX + 15, ty).text(`${formatPrice(order.shopping_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.restaurant_pickup_fee || 0) > 0) { doc.text('Restaurant Pickup Fee:', totX + 15, ty).text(`${formatPrice(order.restaurant_pickup_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  if (parseFloat(order.airport_pickup_fee || 0) > 0) { doc.text('Airport Pickup Fee:', totX + 15, ty).text(`${formatPrice(order.airport_pickup_fee, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; }
+  taxLines.forEach(t => { doc.text(`${t.label}:`, totX + 15, ty).text(`${formatPrice(t.amount, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' }); ty += 20; });
   ty += 6;
   doc.moveTo(totX + 15, ty).lineTo(totX + totW - 15, ty).strokeColor(c.border).lineWidth(1.5).stroke();
   ty += 14;
   doc.fillColor(c.primary).fontSize(21).font(styles.fonts.bold);
-  doc.text('Total:', totX + 15, ty).text(`$${formatPrice(calculatedTotal)}`, totX + 15, ty, { width: totW - 30, align: 'right' });
+  doc.text('Total:', totX + 15, ty).text(`${formatPrice(calculatedTotal, currency)}`, totX + 15, ty, { width: totW - 30, align: 'right' });
 
   y += totH + 20;
 
@@ -510,10 +609,10 @@ export function generateOrderPDF(order: any, styles: PDFStyleConfig = defaultPDF
   return doc;
 }
 
-export async function generateOrderPDFBuffer(order: any): Promise<Buffer> {
-  // Generate HTML
-  let html = generateOrderHTML(order);
-  
+/**
+ * Render an HTML document to an A4 PDF with puppeteer, embedding the logo as a data URI
+ */
+async function renderHTMLToPDFBuffer(html: string): Promise<Buffer> {
   // Replace logo URL with data URI for PDF generation
   const logoDataUri = getLogoDataUri();
   if (logoDataUri) {
@@ -564,6 +663,13 @@ export async function generateOrderPDFBuffer(order: any): Promise<Buffer> {
   }
 }
 
+export async function generateOrderPDFBuffer(order: any): Promise<Buffer> {
+  // Generate HTML
+  const html = generateOrderHTML(order);
+  
+  return renderHTMLToPDFBuffer(html);
+}
+
 /**
  * Get order type title for PDF B
  */
@@ -694,15 +800,23 @@ export function generateOrderHTMLB(order: any, recipientType: 'client' | 'catere
   const fboName = decodeHtmlEntitiesForText(order.fbo?.fbo_name || '');
   const dietary = decodeHtmlEntitiesForText(order.dietary_restrictions || '');
   const packagingInst = decodeHtmlEntitiesForText(order.packaging_instructions || '');
+  const aircraftType = decodeHtmlEntitiesForText(order.aircraft?.aircraft_type || '');
+  const paxCrew = formatPassengerCrew(order);
+  const galleyNotes = getGalleyNotes(order);
+  const requirements: DietaryRequirement[] = order.dietary_requirements || [];
+  const conflicts = order.dietary_conflicts || findDietaryConflicts(order);
+  const hasRestrictions = !!dietary || requirements.length > 0;
+  const hasDietaryIcons = (order.items || []).some((item: any) => formatDietaryIcons(item));
   
   // Helper to check if item is changed
   const isItemChanged = (item: any) => {
+    if (item.is_addon) return isChanged('addons');
     if (!item.id) return false;
     return changedItemIds.includes(item.id) || isChanged('items');
   };
   
-  // Generate items HTML (no category grouping)
-  const itemsHTML = (order.items || []).map((item: any, i: number) => {
+  // Generate items HTML (no category grouping); add-ons follow the items
+  const itemsHTML = getItemRows(order).map((item: any, i: number) => {
     // Pale blue shading for alternating rows, or clean black line
     const bg = i % 2 === 0 ? '#fff' : '#f0f9ff';
     const borderColor = i % 2 === 0 ? '#e5e7eb' : '#e5e7eb';
@@ -721,12 +835,15 @@ export function generateOrderHTMLB(order: any, recipientType: 'client' | 'catere
     // If portion_serving is "No#" or empty, fall back to portion_size
     const portionSize = (item.portion_serving && item.portion_serving !== 'No#') ? item.portion_serving : (item.portion_size || '');
     const quantity = item.portion_size || '1';
+    const dietaryIcons = formatDietaryIcons(item);
     
     // Note: packaging is only shown in the dedicated Packaging Preference column, not in the description
     return `<tr style="background:${bg}">
       <td style="padding:6px 12px;border-bottom:1px solid ${borderColor};width:58%">
         <div style="font-family:'Times New Roman',Times,serif;font-size:14px;font-weight:600;color:${itemNameColor}">${escapeHtml(item.item_name)}</div>
         ${desc}
+        ${item.is_addon ? `<div style="font-family:'Times New Roman',Times,serif;font-size:10px;font-weight:bold;color:${itemDescColor};margin-top:2px">ADD-ON</div>` : ''}
+        ${dietaryIcons ? `<div>${dietaryIcons}</div>` : ''}
       </td>
       <td style="padding:6px 4px;text-align:center;border-bottom:1px solid ${borderColor};width:10%;font-family:'Times New Roman',Times,serif;font-size:11px;color:${itemQtyColor}">${escapeHtml(portionSize)}</td>
       <td style="padding:6px 4px;text-align:center;border-bottom:1px solid ${borderColor};width:10%;font-family:'Times New Roman',Times,serif;font-size:11px;color:${itemQtyColor}">${escapeHtml(quantity)}</td>
@@ -770,17 +887,20 @@ export function generateOrderHTMLB(order: any, recipientType: 'client' | 'catere
   </div>
   <div>
     <h3>Delivery Details</h3>
-    <div class="det-row"><span class="det-lbl">Date & Time:</span><span class="det-val" style="color:${getTextColor('delivery_date', c.text)}">${escapeHtml(formatDate(order.delivery_date))} &nbsp; <span style="color:${getTextColor('delivery_time', c.text)}">${escapeHtml(formatTime(order.delivery_time))}</span></span></div>
+    <div class="det-row"><span class="det-lbl">Date & Time:</span><span class="det-val" style="color:${getTextColor('delivery_date', c.text)}">${escapeHtml(formatDate(order.delivery_date))} &nbsp; <span style="color:${getTextColor('delivery_time', c.text)}">${escapeHtml(formatDeliveryTime(order))}</span></span></div>
     <div class="det-row"><span class="det-lbl">Airport Code:</span><span class="det-val" style="color:${getTextColor('airport', c.text)}">${escapeHtml(airportCode)}</span></div>
     <div class="det-row"><span class="det-lbl">FBO:</span><span class="det-val" style="color:${getTextColor('fbo', c.text)}">${escapeHtml(fboName)}</span></div>
-    <div class="det-row"><span class="det-lbl">Tail#:</span><span class="det-val" style="color:${getTextColor('aircraft_tail_number', c.text)}">${escapeHtml(order.aircraft_tail_number || '')}</span></div>
+    <div class="det-row"><span class="det-lbl">Tail#:</span><span class="det-val" style="color:${getTextColor('aircraft_tail_number', c.text)}">${escapeHtml(order.aircraft_tail_number || '')}${aircraftType ? ` (${escapeHtml(aircraftType)})` : ''}</span></div>
+    ${paxCrew ? `<div class="det-row"><span class="det-lbl">Pax / Crew:</span><span class="det-val" style="color:${isChanged('passenger_count') || isChanged('crew_count') ? changeColor : c.text}">${escapeHtml(paxCrew)}</span></div>` : ''}
   </div>
 </div>
 
-${dietary ? `<div class="warn"><div class="warn-box"><div class="warn-title">!!! RESTRICTIONS & ALLERGIES !!!</div><div class="warn-text" style="color:${getTextColor('dietary_restrictions', '#991b1b')}">** ${escapeHtml(dietary)} **</div></div></div>` : '<div class="warn"><div class="warn-box"><div class="warn-title">!!! RESTRICTIONS & ALLERGIES !!!</div><div class="warn-text">** N/A **</div></div></div>'}
+<div class="warn"><div class="warn-box"><div class="warn-title">!!! RESTRICTIONS & ALLERGIES !!!</div>${hasRestrictions ? '' : '<div class="warn-text">** N/A **</div>'}${dietary ? `<div class="warn-text" style="color:${getTextColor('dietary_restrictions', '#991b1b')}">** ${escapeHtml(dietary)} **</div>` : ''}${requirements.map((r, i) => `<div class="warn-text" style="margin-top:3px;color:${getTextColor('dietary_requirements', '#991b1b')}">&bull; ${escapeHtml(formatDietaryRequirement(r, i))}</div>`).join('')}${conflicts.length > 0 ? `<div class="warn-title" style="margin-top:8px">CONFLICTS - CHECK BEFORE PREPARING</div>${conflicts.map((conflict: any) => `<div class="warn-text" style="font-weight:700">&#9888; ${escapeHtml(conflict.message)}</div>`).join('')}` : ''}</div></div>
 
 ${packagingInst ? `<div class="inst"><div class="inst-box"><div class="inst-text">" ${escapeHtml(packagingInst)} "</div></div></div>` : ''}
 
+${galleyNotes.length > 0 ? `<div class="inst"><div class="inst-box" style="background:#eff6ff;border-color:#93c5fd"><div class="warn-title" style="color:#1d4ed8">GALLEY NOTES</div>${galleyNotes.map(n => `<div class="inst-text" style="color:#1e3a8a;font-style:normal"><b>${escapeHtml(n.label)}:</b> ${escapeHtml(n.text).replace(/\n/g, '<br/>')}</div>`).join('')}</div></div>` : ''}
+
 <div class="items">
   <table>
     <thead>
@@ -793,6 +913,7 @@ ${packagingInst ? `<div class="inst"><div class="inst-box"><div class="inst-text
     </thead>
     <tbody>${itemsHTML}</tbody>
   </table>
+  ${hasDietaryIcons ? `<div style="margin-top:6px;font-size:9px;color:${c.textLight};line-height:1.6">${(Object.keys(ALLERGEN_ICON_CODES) as Allergen[]).map(a => `<b>${ALLERGEN_ICON_CODES[a]}</b> ${escapeHtml(ALLERGEN_LABELS[a])}`).join(' &middot; ')}<br/>${(Object.keys(DIETARY_TAG_ICON_CODES) as DietaryTag[]).map(t => `<b>${DIETARY_TAG_ICON_CODES[t]}</b> ${escapeHtml(DIETARY_TAG_LABELS[t])}`).join(' &middot; ')}</div>` : ''}
 </div>
 
 <div class="ftr">
@@ -873,6 +994,9 @@ export function generateOrderPDFB(order: any, styles: PDFStyleConfig = defaultPD
   const fboName = decodeHtmlEntitiesForText(order.fbo?.fbo_name || '');
   const dietary = decodeHtmlEntitiesForText(order.dietary_restrictions || '');
   const packagingInst = decodeHtmlEntitiesForText(order.packaging_instructions || '');
+  const aircraftType = decodeHtmlEntitiesForText(order.aircraft?.aircraft_type || '');
+  const paxCrew = formatPassengerCrew(order);
+  const galleyNotes = getGalleyNotes(order);
 
   let y = m;
 
@@ -910,7 +1034,7 @@ export function generateOrderPDFB(order: any, styles: PDFStyleConfig = defaultPD
   y += 10;
 
   // DETAILS SECTION (reduced height and spacing)
-  const dh = 75;
+  const dh = paxCrew ? 89 : 75;
   doc.rect(m, y, cw, dh).fillColor(c.background).fill();
 
   const lx = m + 12, rx = pw / 2 + 8;
@@ -943,10 +1067,11 @@ export function generateOrderPDFB(order: any, styles: PDFStyleConfig = defaultPD
     doc.fillColor(c.text).font(styles.fonts.bold).text(v, rx + 70, yy);
     return yy + 14;
   };
-  ry = row('Date & Time:', `${formatDate(order.delivery_date)}   ${formatTime(order.delivery_time)}`, ry);
+  ry = row('Date & Time:', `${formatDate(order.delivery_date)}   ${formatDeliveryTime(order)}`, ry);
   ry = row('Airport Code:', airportCode, ry);
   ry = row('FBO:', fboName, ry);
-  row('Tail#:', order.aircraft_tail_number || '', ry);
+  ry = row('Tail#:', `${order.aircraft_tail_number || ''}${aircraftType ? ` (${aircraftType})` : ''}`, ry);
+  if (paxCrew) row('Pax / Crew:', paxCrew, ry);
 
   y += dh + 8;
 
@@ -967,6 +1092,18 @@ export function generateOrderPDFB(order: any, styles: PDFStyleConfig = defaultPD
     y += instH + 10;
   }
 
+  // GALLEY NOTES of the linked aircraft (if any)
+  if (galleyNotes.length > 0) {
+    const galleyText = galleyNotes.map(n => `${n.label}: ${n.text}`).join('\n');
+    doc.fontSize(10).font(styles.fonts.body);
+    const galleyH = doc.heightOfString(galleyText, { width: cw - 24 }) + 30;
+    doc.roundedRect(m, y, cw, galleyH, 3).fillColor('#eff6ff').fill();
+    doc.roundedRect(m, y, cw, galleyH, 3).strokeColor('#93c5fd').lineWidth(1).stroke();
+    doc.fillColor('#1d4ed8').fontSize(11).font(styles.fonts.bold).text('GALLEY NOTES', m + 12, y + 8);
+    doc.fillColor('#1e3a8a').fontSize(10).font(styles.fonts.body).text(galleyText, m + 12, y + 22, { width: cw - 24, lineBreak: true });
+    y += galleyH + 10;
+  }
+
   // TABLE - Items grouped by category
   const tw = cw;
   const cols = { item: tw * 0.50, portion: tw * 0.12, qty: tw * 0.12, packaging: tw * 0.26 };
@@ -984,8 +1121,8 @@ export function generateOrderPDFB(order: any, styles: PDFStyleConfig = defaultPD
 
   y = drawTableHeader(y);
 
-  // Group items by category
-  const groupedItems = groupItemsByCategory(order.items || []);
+  // Group items by category; add-ons are listed as their own group
+  const groupedItems = groupItemsByCategory(getItemRows(order));
   let rowIdx = 0;
 
   groupedItems.forEach((items, category) => {
@@ -1100,63 +1237,17 @@ export function generateOrderPDFB(order: any, styles: PDFStyleConfig = defaultPD
  */
 export async function generateOrderPDFBBuffer(order: any, recipientType: 'client' | 'caterer' = 'caterer'): Promise<Buffer> {
   // Generate HTML
-  let html = generateOrderHTMLB(order, recipientType);
-  
-  // Replace logo URL with data URI for PDF generation
-  const logoDataUri = getLogoDataUri();
-  if (logoDataUri) {
-    html = html.replace(/src="[^"]*logo\.png[^"]*"/g, `src="${logoDataUri}"`);
-  }
-  
-  // Convert HTML to PDF using puppeteer
-  const chromePath = getChromeExecutablePath();
-  const launchOptions: any = {
-    headless: true,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas',
-      '--disable-gpu'
-    ]
-  };
-  
-  if (chromePath) {
-    launchOptions.executablePath = chromePath;
-  }
+  const html = generateOrderHTMLB(order, recipientType);
   
-  let browser;
-  try {
-    browser = await puppeteer.launch(launchOptions);
-    const page = await browser.newPage();
-    await page.setContent(html, { waitUntil: 'networkidle0' });
-    
-    const pdfBuffer = await page.pdf({
-      format: 'A4',
-      printBackground: true,
-      margin: {
-        top: '20px',
-        right: '20px',
-        bottom: '20px',
-        left: '20px'
-      }
-    });
-    
-    return Buffer.from(pdfBuffer);
-  } catch (error: any) {
-    throw new Error(`Failed to generate PDF: ${error.message}. Chrome path: ${chromePath || 'default'}`);
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
-  }
+  return renderHTMLToPDFBuffer(html);
 }
 
 export function generateOrderEmailHTML(order: any, customMessage?: string): string {
+  const currency = order.currency || DEFAULT_CURRENCY;
   const s = defaultPDFStyles;
   const c = s.colors;
   const displayNum = getDisplayOrderNumber(order);
-  const itemsHTML = (order.items || []).map((item: any) => `<tr><td style="padding:12px;border-bottom:1px solid ${c.borderLight};color:${c.primary};font-weight:500">${escapeHtml(item.item_name)}</td><td style="padding:12px;text-align:center;border-bottom:1px solid ${c.borderLight}">${escapeHtml(item.portion_size)}</td><td style="padding:12px;text-align:right;border-bottom:1px solid ${c.borderLight}">$${formatPrice(item.price)}</td></tr>`).join('');
+  const itemsHTML = getItemRows(order).map((item: any) => `<tr><td style="padding:12px;border-bottom:1px solid ${c.borderLight};color:${c.primary};font-weight:500">${escapeHtml(item.item_name)}</td><td style="padding:12px;text-align:center;border-bottom:1px solid ${c.borderLight}">${escapeHtml(item.portion_size)}</td><td style="padding:12px;text-align:right;border-bottom:1px solid ${c.borderLight}">${formatPrice(item.price, currency)}</td></tr>`).join('');
 
   // Use airport_details codes if available, otherwise fall back to order.airport field (which may contain code or name)
   const airportCode = order.airport_details?.airport_code_iata || 
@@ -1164,5 +1255,56 @@ export function generateOrderEmailHTML(order: any, customMessage?: string): stri
     (order.airport && order.airport.length <= 10 ? order.airport : '') || 
     '';
   const fboName = order.fbo?.fbo_name || '';
-  return `<html><body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Arial,sans-serif;margin:0;padding:20px;background:#f1f5f9"><div style="max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden;box-shadow:0 2px 4px rgba(0,0,0,.1)"><div style="background:${c.primary};color:#fff;padding:24px;text-align:center"><h1 style="margin:0;font-size:24px">Invoice #${escapeHtml(displayNum)}</h1><p style="margin:8px 0 0;opacity:.9">Inflight Catering Order</p></div><div style="padding:24px">${customMessage?`<p style="margin-bottom:20px;padding:16px;background:${c.background};border-radius:6px">${escapeHtml(customMessage)}</p>`:''}<div style="margin-bottom:20px"><p style="margin:8px 0"><b>Client:</b> ${escapeHtml(order.client?.full_name||order.client_name||'')}</p><p style="margin:8px 0"><b>Delivery:</b> ${escapeHtml(formatDate(order.delivery_date))} at ${escapeHtml(formatTime(order.delivery_time))}</p><p style="margin:8px 0"><b>Airport:</b> ${escapeHtml(airportCode)}${fboName?` - ${escapeHtml(fboName)}`:''}</p></div><table style="width:100%;border-collapse:collapse;border-radius:8px;overflow:hidden;border:1px solid ${c.border}"><thead><tr style="background:${c.primaryDark};color:#fff"><th style="padding:12px;text-align:left;font-size:12px">Item</th><th style="padding:12px;text-align:center;font-size:12px">Qty</th><th style="padding:12px;text-align:right;font-size:12px">Price</th></tr></thead><tbody>${itemsHTML}</tbody></table><div style="margin-top:20px;text-align:right;padding:16px;background:${c.background};border-radius:6px"><p style="margin:4px 0;color:${c.textLight}">Subtotal: $${formatPrice(order.subtotal)}</p>${parseFloat(order.delivery_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Delivery Fee: $${formatPrice(order.delivery_fee)}</p>`:''}${parseFloat(order.service_charge || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Service Charge: $${formatPrice(order.service_charge)}</p>`:''}${parseFloat(order.coordination_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Coordination Fee: $${formatPrice(order.coordination_fee)}</p>`:''}${parseFloat(order.airport_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Airport Fee: $${formatPrice(order.airport_fee)}</p>`:''}${parseFloat(order.fbo_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">FBO Fee: $${formatPrice(order.fbo_fee)}</p>`:''}${parseFloat(order.shopping_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Shopping Fee: $${formatPrice(order.shopping_fee)}</p>`:''}${parseFloat(order.restaurant_pickup_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Restaurant Pickup Fee: $${formatPrice(order.restaurant_pickup_fee)}</p>`:''}${parseFloat(order.airport_pickup_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Airport Pickup Fee: $${formatPrice(order.airport_pickup_fee)}</p>`:''}<p style="margin:12px 0 0;font-size:18px;font-weight:bold;color:${c.primary}">Total: $${formatPrice(order.total)}</p></div></div><div style="background:${c.background};padding:20px;text-align:center;border-top:1px solid ${c.borderLight}"><p style="margin:0 0 8px;color:${c.textLight};font-size:13px">Thank you for your business!</p><p style="margin:0;color:${c.primary};font-weight:600">${escapeHtml(s.company.name)}</p></div></div></body></html>`;
+  return `<html><body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Arial,sans-serif;margin:0;padding:20px;background:#f1f5f9"><div style="max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden;box-shadow:0 2px 4px rgba(0,0,0,.1)"><div style="background:${c.primary};color:#fff;padding:24px;text-align:center"><h1 style="margin:0;font-size:24px">Invoice #${escapeHtml(displayNum)}</h1><p style="margin:8px 0 0;opacity:.9">Inflight Catering Order</p></div><div style="padding:24px">${customMessage?`<p style="margin-bottom:20px;padding:16px;background:${c.background};border-radius:6px">${escapeHtml(customMessage)}</p>`:''}<div style="margin-bottom:20px"><p style="margin:8px 0"><b>Client:</b> ${escapeHtml(order.client?.full_name||order.client_name||'')}</p><p style="margin:8px 0"><b>Delivery:</b> ${escapeHtml(formatDate(order.delivery_date))} at ${escapeHtml(formatDeliveryTime(order))}</p><p style="margin:8px 0"><b>Airport:</b> ${escapeHtml(airportCode)}${fboName?` - ${escapeHtml(fboName)}`:''}</p></div><table style="width:100%;border-collapse:collapse;border-radius:8px;overflow:hidden;border:1px solid ${c.border}"><thead><tr style="background:${c.primaryDark};color:#fff"><th style="padding:12px;text-align:left;font-size:12px">Item</th><th style="padding:12px;text-align:center;font-size:12px">Qty</th><th style="padding:12px;text-align:right;font-size:12px">Price</th></tr></thead><tbody>${itemsHTML}</tbody></table><div style="margin-top:20px;text-align:right;padding:16px;background:${c.background};border-radius:6px"><p style="margin:4px 0;color:${c.textLight}">Subtotal: ${formatPrice(order.subtotal, currency)}</p>${parseFloat(order.delivery_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Delivery Fee: ${formatPrice(order.delivery_fee, currency)}</p>`:''}${parseFloat(order.service_charge || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Service Charge: ${formatPrice(order.service_charge, currency)}</p>`:''}${parseFloat(order.coordination_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Coordination Fee: ${formatPrice(order.coordination_fee, currency)}</p>`:''}${parseFloat(order.airport_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Airport Fee: ${formatPrice(order.airport_fee, currency)}</p>`:''}${parseFloat(order.fbo_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">FBO Fee: ${formatPrice(order.fbo_fee, currency)}</p>`:''}${parseFloat(order.shopping_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Shopping Fee: ${formatPrice(order.shopping_fee, currency)}</p>`:''}${parseFloat(order.restaurant_pickup_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Restaurant Pickup Fee: ${formatPrice(order.restaurant_pickup_fee, currency)}</p>`:''}${parseFloat(order.airport_pickup_fee || 0)>0?`<p style="margin:4px 0;color:${c.textLight}">Airport Pickup Fee: ${formatPrice(order.airport_pickup_fee, currency)}</p>`:''}${summarizeTaxLines(order).map(t=>`<p style="margin:4px 0;color:${c.textLight}">${escapeHtml(t.label)}: ${formatPrice(t.amount, currency)}</p>`).join('')}<p style="margin:12px 0 0;font-size:18px;font-weight:bold;color:${c.primary}">Total: ${formatPrice(order.total, currency)}</p></div></div><div style="background:${c.background};padding:20px;text-align:center;border-top:1px solid ${c.borderLight}"><p style="margin:0 0 8px;color:${c.textLight};font-size:13px">Thank you for your business!</p><p style="margin:0;color:${c.primary};font-weight:600">${escapeHtml(s.company.name)}</p></div></div></body></html>`;
+}
+
+/**
+ * Generate HTML for a monthly client statement: opening balance, the month's ledger lines,
+ * closing balance and aging as of the statement period end. A statement is in the single
+ * currency of its ledger.
+ */
+export function generateClientStatementHTML(statement: ClientStatement): string {
+  const s = defaultPDFStyles;
+  const c = s.colors;
+  const { client, ledger, aging } = statement;
+
+  const money = (value: number) => `${value < 0 ? '-' : ''}${formatPrice(Math.abs(value), ledger.currency)}`;
+
+  const rowsHTML = ledger.entries.map((entry, i) => {
+    const bg = i % 2 === 0 ? '#fff' : '#f0f9ff';
+    const isMemo = entry.type === 'invoice';
+    return `<tr style="background:${bg}${isMemo ? `;color:${c.textMuted}` : ''}">
+      <td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;white-space:nowrap">${escapeHtml(formatDate(entry.date))}</td>
+      <td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;white-space:nowrap">${escapeHtml(entry.order_number)}</td>
+      <td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px">${escapeHtml(entry.description)}</td>
+      <td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;text-align:right">${entry.debit ? money(entry.debit) : ''}</td>
+      <td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;text-align:right">${entry.credit ? money(entry.credit) : ''}</td>
+      <td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;text-align:right;font-weight:600">${isMemo ? '' : money(entry.balance)}</td>
+    </tr>`;
+  }).join('');
+
+  const emptyRow = `<tr><td colspan="6" style="padding:12px;text-align:center;font-size:11px;color:${c.textMuted}">No activity in this period</td></tr>`;
+
+  const agingCell = (label: string, value: number) =>
+    `<td style="padding:8px 10px;text-align:center;border:1px solid ${c.border}"><div style="font-size:10px;text-transform:uppercase;color:${c.textMuted}">${label}</div><div style="font-size:13px;font-weight:600;margin-top:2px">${money(value)}</div></td>`;
+
+  const logoImg = `<img src="/assets/logo.png" style="height:80px;margin-bottom:6px" alt="${escapeHtml(s.company.name)}"/>`;
+
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>Statement ${escapeHtml(statement.month)}</title>
+<style>*{margin:0;padding:0;box-sizing:border-box}body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Arial,sans-serif;padding:12px;color:${c.text}}.hdr{display:flex;justify-content:space-between;align-items:flex-start;padding:16px 8px;border-bottom:1px solid ${c.borderLight}}.co-info{font-size:11px;color:${c.textLight};line-height:1.4}h1{font-size:18px;color:${c.primary};margin-bottom:4px}.sub{font-size:11px;color:${c.textLight}}.det{display:flex;justify-content:space-between;padding:16px 8px}.det h3{font-size:10px;text-transform:uppercase;letter-spacing:1px;color:${c.textMuted};margin-bottom:6px}.bt{font-size:12px;line-height:1.5}table{width:100%;border-collapse:collapse}thead th{background:${c.primaryDark};color:#fff;padding:8px 10px;font-size:10px;text-transform:uppercase;letter-spacing:.5px;text-align:left}.sum{display:flex;justify-content:flex-end;padding:12px 0}.sum-box{width:280px;background:${c.background};border:1px solid ${c.borderLight};border-radius:6px;padding:12px}.sum-row{display:flex;justify-content:space-between;font-size:12px;padding:3px 0;color:${c.textLight}}.sum-row.grand{border-top:2px solid ${c.border};margin-top:6px;padding-top:8px;font-size:14px;font-weight:700;color:${c.primary}}.aging{margin-top:8px}.aging h3{font-size:10px;text-transform:uppercase;letter-spacing:1px;color:${c.textMuted};margin-bottom:6px}.ftr{margin-top:16px;text-align:center;font-size:11px;color:${c.textLight}}</style></head>
+<body>
+<div class="hdr"><div>${logoImg}<div class="co-info">${escapeHtml(s.company.address)}<br/><b>Phone | ${escapeHtml(s.company.phone)}</b></div></div><div style="text-align:right"><h1>STATEMENT</h1><div class="sub">Period: ${escapeHtml(formatDate(statement.period_start))} - ${escapeHtml(formatDate(statement.period_end))}</div><div class="sub">Statement date: ${escapeHtml(formatDate(statement.statement_date))}</div><div class="sub">Currency: ${escapeHtml(ledger.currency)}</div></div></div>
+<div class="det"><div><h3>Statement For</h3><div class="bt"><b>${escapeHtml(client.full_name)}</b>${client.company_name ? `<br/>${escapeHtml(client.company_name)}` : ''}${client.full_address ? `<br/>${escapeHtml(client.full_address).replace(/\n/g, '<br/>')}` : ''}${client.email ? `<br/>${escapeHtml(client.email)}` : ''}</div></div><div style="text-align:right"><h3>Amount Due</h3><div style="font-size:20px;font-weight:700;color:${c.primary}">${money(ledger.closing_balance)}</div></div></div>
+<table><thead><tr><th>Date</th><th>Order #</th><th>Description</th><th style="text-align:right">Charges</th><th style="text-align:right">Payments</th><th style="text-align:right">Balance</th></tr></thead><tbody>
+<tr><td colspan="5" style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;font-weight:600">Opening balance</td><td style="padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:11px;text-align:right;font-weight:600">${money(ledger.opening_balance)}</td></tr>
+${rowsHTML || emptyRow}
+</tbody></table>
+<div class="sum"><div class="sum-box"><div class="sum-row"><span>Opening balance:</span><span>${money(ledger.opening_balance)}</span></div><div class="sum-row"><span>Charges:</span><span>${money(ledger.total_debits)}</span></div><div class="sum-row"><span>Payments:</span><span>${money(-ledger.total_credits)}</span></div><div class="sum-row grand"><span>Closing balance:</span><span>${money(ledger.closing_balance)}</span></div></div></div>
+<div class="aging"><h3>Aging by delivery date</h3><table><tr>${agingCell('Current', aging.current)}${agingCell('30-59 days', aging.days_30)}${agingCell('60-89 days', aging.days_60)}${agingCell('90+ days', aging.days_90_plus)}${agingCell('Total due', aging.total)}</tr></table></div>
+<div class="ftr">Questions about this statement? Email: Inflight@Kabin247.com &nbsp; Phone: +1-813-331-5667</div>
+</body></html>`;
+}
+
+export async function generateClientStatementPDFBuffer(statement: ClientStatement): Promise<Buffer> {
+  return renderHTMLToPDFBuffer(generateClientStatementHTML(statement));
 }
@@ -0,0 +1,147 @@
+import { CreateOrderTemplateDTO, UpdateOrderTemplateDTO, OrderRecurrence, OrderTemplateData } from '../models/order-template';
+import { OrderType, getOrderTypeFromAlias } from '../models/order';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function isValidDate(value: string): boolean {
+  return DATE_REGEX.test(value) && !isNaN(new Date(value).getTime());
+}
+
+export function validateOrderTemplate(template: CreateOrderTemplateDTO | UpdateOrderTemplateDTO, isUpdate: boolean = false): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isUpdate || template.name !== undefined) {
+    if (!template.name || !template.name.trim()) {
+      errors.push('name is required');
+    }
+  }
+
+  if (!isUpdate || template.order_data !== undefined) {
+    if (!template.order_data || typeof template.order_data !== 'object') {
+      errors.push('order_data is required');
+    } else {
+      errors.push(...validateTemplateOrderData(template.order_data).map(e => `order_data.${e}`));
+    }
+  }
+
+  if (template.recurrence) {
+    errors.push(...validateRecurrence(template.recurrence).map(e => `recurrence.${e}`));
+  }
+
+  if (template.generate_days_ahead !== undefined) {
+    if (!Number.isInteger(template.generate_days_ahead) || template.generate_days_ahead < 0 || template.generate_days_ahead > 90) {
+      errors.push('generate_days_ahead must be an integer between 0 and 90');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validate template order fields, or a partial set of them when validating the
+ * overrides of a single occurrence
+ */
+export function validateTemplateOrderData(data: Partial<OrderTemplateData>, partial: boolean = false): string[] {
+  const errors: string[] = [];
+
+  const requiredIds: Array<'client_id' | 'caterer_id' | 'airport_id'> = ['client_id', 'caterer_id', 'airport_id'];
+  for (const field of requiredIds) {
+    if (partial && data[field] === undefined) continue;
+    if (!Number.isInteger(data[field]) || (data[field] as number) <= 0) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+
+  if (!partial || data.delivery_time !== undefined) {
+    if (!data.delivery_time || !TIME_REGEX.test(data.delivery_time)) {
+      errors.push('delivery_time must be in format HH:mm (24-hour format)');
+    }
+  }
+
+  if (!partial || data.order_priority !== undefined) {
+    const validPriorities = ['low', 'normal', 'high', 'urgent'];
+    if (!data.order_priority || !validPriorities.includes(data.order_priority)) {
+      errors.push(`order_priority must be one of: ${validPriorities.join(', ')}`);
+    }
+  }
+
+  if (!partial || data.payment_method !== undefined) {
+    const validMethods = ['card', 'ACH'];
+    if (!data.payment_method || !validMethods.includes(data.payment_method)) {
+      errors.push(`payment_method must be one of: ${validMethods.join(', ')}`);
+    }
+  }
+
+  if (!partial || data.order_type !== undefined) {
+    const validOrderTypes: OrderType[] = ['Inflight order', 'QE Serv Hub Order', 'Restaurant Pickup Order'];
+    const finalType = data.order_type ? (getOrderTypeFromAlias(data.order_type) || data.order_type) : undefined;
+    if (!finalType || !validOrderTypes.includes(finalType as OrderType)) {
+      errors.push(`order_type must be one of: ${validOrderTypes.join(', ')}`);
+    }
+  }
+
+  if (!partial || data.items !== undefined) {
+    if (!Array.isArray(data.items) || data.items.length === 0) {
+      errors.push('items must be a non-empty array');
+    } else {
+      data.items.forEach((item, index) => {
+        if (!Number.isInteger(item.item_id) || item.item_id <= 0) {
+          errors.push(`items[${index}].item_id must be a positive integer`);
+        }
+        if (!item.portion_size) {
+          errors.push(`items[${index}].portion_size is required`);
+        }
+        if (typeof item.price !== 'number' || item.price < 0) {
+          errors.push(`items[${index}].price must be a non-negative number`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function validateRecurrence(recurrence: OrderRecurrence): string[] {
+  const errors: string[] = [];
+
+  if (!['weekly', 'interval'].includes(recurrence.frequency)) {
+    errors.push('frequency must be one of: weekly, interval');
+  }
+
+  if (recurrence.frequency === 'weekly') {
+    if (!Array.isArray(recurrence.days_of_week) || recurrence.days_of_week.length === 0) {
+      errors.push('days_of_week is required for weekly recurrence');
+    } else if (recurrence.days_of_week.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      errors.push('days_of_week must contain integers from 0 (Sunday) to 6 (Saturday)');
+    }
+  }
+
+  if (recurrence.frequency === 'interval') {
+    if (!Number.isInteger(recurrence.interval_days) || (recurrence.interval_days as number) < 1) {
+      errors.push('interval_days must be a positive integer for interval recurrence');
+    }
+  }
+
+  if (!recurrence.start_date || !isValidDate(recurrence.start_date)) {
+    errors.push('start_date must be a valid date in format YYYY-MM-DD');
+  }
+
+  if (recurrence.end_date) {
+    if (!isValidDate(recurrence.end_date)) {
+      errors.push('end_date must be a valid date in format YYYY-MM-DD');
+    } else if (recurrence.start_date && recurrence.end_date < recurrence.start_date) {
+      errors.push('end_date must be on or after start_date');
+    }
+  }
+
+  return errors;
+}
@@ -1,10 +1,14 @@
-import { CreateOrderDTO, UpdateOrderDTO, getOrderTypeFromAlias, OrderType } from '../models/order';
+import { CreateOrderDTO, UpdateOrderDTO, getOrderTypeFromAlias, OrderType, OrderItemMealFor } from '../models/order';
+import { isValidCurrency } from './currency';
+import { validateAllergens, validateDietaryTags, validateDietaryRequirements } from './dietary';
 
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
 }
 
+export const ORDER_ITEM_MEAL_FOR: OrderItemMealFor[] = ['passenger', 'crew'];
+
 export function validateOrder(order: CreateOrderDTO | UpdateOrderDTO): ValidationResult {
   const errors: string[] = [];
 
@@ -112,6 +116,16 @@ export function validateOrder(order: CreateOrderDTO | UpdateOrderDTO): Validatio
     }
   }
 
+  // Validate passenger and crew counts
+  for (const field of ['passenger_count', 'crew_count'] as const) {
+    const count = order[field];
+    if (count !== undefined && count !== null && (!Number.isInteger(count) || count < 0)) {
+      errors.push(`${field} must be a non-negative integer`);
+    }
+  }
+
+  validateDietaryRequirements(order.dietary_requirements, errors);
+
   // Validate items (required for CreateOrderDTO, optional for UpdateOrderDTO)
   if ('items' in order && order.items !== undefined) {
     if (!Array.isArray(order.items)) {
@@ -132,10 +146,42 @@ export function validateOrder(order: CreateOrderDTO | UpdateOrderDTO): Validatio
         } else if (typeof item.price !== 'number' || item.price < 0) {
           errors.push(`items[${index}].price must be a non-negative number`);
         }
+        if (item.caterer_cost !== undefined && item.caterer_cost !== null &&
+            (typeof item.caterer_cost !== 'number' || item.caterer_cost < 0)) {
+          errors.push(`items[${index}].caterer_cost must be a non-negative number`);
+        }
+        if (item.meal_for && !ORDER_ITEM_MEAL_FOR.includes(item.meal_for)) {
+          errors.push(`items[${index}].meal_for must be one of: ${ORDER_ITEM_MEAL_FOR.join(', ')}`);
+        }
+        validateAllergens(item.allergens, `items[${index}].allergens`, errors);
+        validateDietaryTags(item.dietary_tags, `items[${index}].dietary_tags`, errors);
       });
     }
   }
 
+  if (order.addons !== undefined) {
+    if (!Array.isArray(order.addons)) {
+      errors.push('addons must be an array');
+    } else {
+      order.addons.forEach((addon, index) => {
+        if (!Number.isInteger(addon.addon_item_id) || addon.addon_item_id < 1) {
+          errors.push(`addons[${index}].addon_item_id must be a positive integer`);
+        }
+        if (!Number.isInteger(addon.quantity) || addon.quantity < 1) {
+          errors.push(`addons[${index}].quantity must be a positive integer`);
+        }
+        if (addon.price !== undefined && addon.price !== null &&
+            (typeof addon.price !== 'number' || addon.price < 0)) {
+          errors.push(`addons[${index}].price must be a non-negative number`);
+        }
+      });
+    }
+  }
+
+  if (order.currency !== undefined && !isValidCurrency(order.currency)) {
+    errors.push('currency must be a valid ISO 4217 currency code');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -162,6 +208,10 @@ export function normalizeOrderData(order: CreateOrderDTO | UpdateOrderDTO): Crea
     normalized.aircraft_tail_number = normalized.aircraft_tail_number.trim().toUpperCase();
   }
 
+  if ('currency' in normalized && normalized.currency) {
+    normalized.currency = normalized.currency.trim().toUpperCase();
+  }
+
   // Normalize order_type: convert alias to full type if needed
   if ('order_type' in normalized && normalized.order_type) {
     const convertedType = getOrderTypeFromAlias(normalized.order_type as string);
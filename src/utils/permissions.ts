@@ -0,0 +1,100 @@
+import { PERMISSIONS, Permission, PermissionDefinition, BuiltInRole } from '../models/permission';
+import { User, PermissionMap } from '../models/user';
+
+// Areas that were restricted to ADMIN before the catalog existed stay admin_only
+const PERMISSION_DETAILS: Record<Permission, Omit<PermissionDefinition, 'key'>> = {
+  'orders.read': { group: 'Orders', description: 'View, create and duplicate orders and templates, preview PDFs and send orders to clients and caterers', admin_only: false },
+  'orders.update_status': { group: 'Orders', description: 'Edit orders and change their status', admin_only: false },
+  'orders.set_paid': { group: 'Orders', description: 'Change the payment status of orders', admin_only: true },
+  'orders.deliver_unpaid': { group: 'Orders', description: 'Mark orders delivered before they are paid', admin_only: false },
+  'orders.delete': { group: 'Orders', description: 'Delete orders and order templates', admin_only: true },
+  'invoices.manage': { group: 'Billing', description: 'Create, view and cancel invoices', admin_only: true },
+  'invoices.send_final': { group: 'Billing', description: 'Send final invoices to clients', admin_only: true },
+  'payments.manage': { group: 'Billing', description: 'Take card payments, issue refunds and manage stored cards', admin_only: true },
+  'receivables.manage': { group: 'Billing', description: 'View receivables aging, client ledgers and send statements', admin_only: true },
+  'caterer_payables.manage': { group: 'Billing', description: 'Record and pay caterer bills and view margins', admin_only: true },
+  'exchange_rates.manage': { group: 'Billing', description: 'View and maintain exchange rates', admin_only: true },
+  'reports.read': { group: 'Reports', description: 'View revenue and status progression reports', admin_only: true },
+  'scheduler.manage': { group: 'Operations', description: 'Configure and run the order scheduler', admin_only: true },
+  'clients.read': { group: 'Directory', description: 'View and export clients', admin_only: false },
+  'clients.manage': { group: 'Directory', description: 'Create, edit, import and delete clients', admin_only: false },
+  'caterers.read': { group: 'Directory', description: 'View and export caterers', admin_only: false },
+  'caterers.manage': { group: 'Directory', description: 'Create, edit, import and delete caterers', admin_only: false },
+  'airports.read': { group: 'Directory', description: 'View and export airports', admin_only: false },
+  'airports.manage': { group: 'Directory', description: 'Create, edit, import and delete airports', admin_only: false },
+  'fbos.read': { group: 'Directory', description: 'View FBOs', admin_only: false },
+  'fbos.manage': { group: 'Directory', description: 'Create, edit and delete FBOs', admin_only: false },
+  'aircraft.read': { group: 'Directory', description: 'View aircraft', admin_only: false },
+  'aircraft.manage': { group: 'Directory', description: 'Create, edit and delete aircraft', admin_only: false },
+  'menu.read': { group: 'Menu', description: 'View menu items, categories, add-on items and recipes', admin_only: false },
+  'menu.manage': { group: 'Menu', description: 'Edit menu items, categories, add-on items, images and recipes', admin_only: false },
+  'tax_charges.read': { group: 'Menu', description: 'View tax and charge rules', admin_only: false },
+  'tax_charges.manage': { group: 'Menu', description: 'Edit tax and charge rules', admin_only: false },
+  'inventory.read': { group: 'Inventory', description: 'View inventory items, lots, movements, reservations and forecasts', admin_only: false },
+  'inventory.manage': { group: 'Inventory', description: 'Create, edit and delete inventory items', admin_only: false },
+  'inventory.stock': { group: 'Inventory', description: 'Receive, count, write off and transfer stock', admin_only: false },
+  'purchasing.read': { group: 'Inventory', description: 'View suppliers, purchase orders and reorder suggestions', admin_only: false },
+  'purchasing.manage': { group: 'Inventory', description: 'Maintain suppliers and create, send and delete purchase orders', admin_only: false },
+  'purchasing.receive': { group: 'Inventory', description: 'Receive deliveries against purchase orders', admin_only: false },
+  'employees.manage': { group: 'Administration', description: 'List employees, change their permissions and roles, deactivate them', admin_only: true },
+  'invites.create': { group: 'Administration', description: 'Invite employees', admin_only: true },
+  'roles.manage': { group: 'Administration', description: 'Create, edit and delete custom roles', admin_only: true },
+  'security.manage': { group: 'Administration', description: 'Set the two-factor authentication policy and reset employees\' 2FA', admin_only: true },
+};
+
+export const PERMISSION_CATALOG: PermissionDefinition[] = PERMISSIONS.map(key => ({ key, ...PERMISSION_DETAILS[key] }));
+
+// CSRs without a custom role keep the access they had before permissions were enforced on
+// these areas; order permissions are granted to each CSR individually
+export const CSR_DEFAULT_PERMISSIONS: Permission[] = PERMISSIONS.filter(key =>
+  /^(clients|caterers|airports|fbos|aircraft|menu|tax_charges|inventory|purchasing)\./.test(key)
+);
+
+export const BUILT_IN_ROLES: BuiltInRole[] = [
+  { name: 'ADMIN', description: 'Every permission', permissions: [...PERMISSIONS] },
+  {
+    name: 'CSR',
+    description: 'Default permissions of employees without a custom role, plus those granted individually',
+    permissions: CSR_DEFAULT_PERMISSIONS,
+  },
+];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isAdminOnly(permission: Permission): boolean {
+  return PERMISSION_DETAILS[permission].admin_only;
+}
+
+/**
+ * Permissions a user holds: everything for ADMIN; for CSRs the custom role's permissions
+ * (or the CSR defaults when none is assigned) plus those granted to the user individually
+ */
+export function getEffectivePermissions(user: User): Permission[] {
+  if (user.role === 'ADMIN') {
+    return [...PERMISSIONS];
+  }
+
+  const granted = new Set<Permission>(user.role_id ? user.role_permissions || [] : CSR_DEFAULT_PERMISSIONS);
+  for (const [key, value] of Object.entries(user.permissions || {})) {
+    if (value === true && isPermission(key)) {
+      granted.add(key);
+    }
+  }
+  return PERMISSIONS.filter(key => granted.has(key) && !isAdminOnly(key));
+}
+
+/**
+ * Individual CSR grants as stored on the user: catalog permissions set to true,
+ * without admin-only ones
+ */
+export function cleanEmployeePermissions(permissions: Record<string, unknown>): PermissionMap {
+  const cleaned: PermissionMap = {};
+  for (const [key, value] of Object.entries(permissions)) {
+    if (value === true && isPermission(key) && !isAdminOnly(key)) {
+      cleaned[key] = true;
+    }
+  }
+  return cleaned;
+}
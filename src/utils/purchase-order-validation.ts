@@ -0,0 +1,124 @@
+import {
+  CreatePurchaseOrderDTO,
+  UpdatePurchaseOrderDTO,
+  ReceivePurchaseOrderDTO,
+  PurchaseOrderSearchParams,
+  PURCHASE_ORDER_STATUSES,
+} from '../models/purchase-order';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE_REGEX.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function validateLines(lines: unknown, errors: string[]): void {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    errors.push('lines must be a non-empty array');
+    return;
+  }
+
+  const seen = new Set<number>();
+  lines.forEach((line, index) => {
+    if (!line || typeof line !== 'object') {
+      errors.push(`lines[${index}] must be an object`);
+      return;
+    }
+    if (!isPositiveInteger(line.inventory_item_id)) {
+      errors.push(`lines[${index}].inventory_item_id must be a positive integer`);
+    } else if (seen.has(line.inventory_item_id)) {
+      errors.push(`lines[${index}].inventory_item_id ${line.inventory_item_id} is listed more than once`);
+    } else {
+      seen.add(line.inventory_item_id);
+    }
+    if (typeof line.quantity !== 'number' || !(line.quantity > 0)) {
+      errors.push(`lines[${index}].quantity must be a positive number`);
+    }
+    if (line.unit_price !== undefined && line.unit_price !== null &&
+        (typeof line.unit_price !== 'number' || line.unit_price < 0)) {
+      errors.push(`lines[${index}].unit_price must be a non-negative number`);
+    }
+  });
+}
+
+export function validatePurchaseOrder(purchaseOrder: CreatePurchaseOrderDTO | UpdatePurchaseOrderDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if ('supplier_id' in purchaseOrder && !isPositiveInteger(purchaseOrder.supplier_id)) {
+    errors.push('supplier_id must be a positive integer');
+  }
+
+  if (purchaseOrder.expected_date !== undefined && purchaseOrder.expected_date !== null &&
+      !isValidDate(purchaseOrder.expected_date)) {
+    errors.push('expected_date must be a valid date in format YYYY-MM-DD');
+  }
+
+  if ('lines' in purchaseOrder) {
+    validateLines(purchaseOrder.lines, errors);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateReceivePurchaseOrder(data: ReceivePurchaseOrderDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data.lines) || data.lines.length === 0) {
+    errors.push('lines must be a non-empty array');
+  } else {
+    const seen = new Set<number>();
+    data.lines.forEach((line, index) => {
+      if (!line || typeof line !== 'object') {
+        errors.push(`lines[${index}] must be an object`);
+        return;
+      }
+      if (!isPositiveInteger(line.line_id)) {
+        errors.push(`lines[${index}].line_id must be a positive integer`);
+      } else if (seen.has(line.line_id)) {
+        errors.push(`lines[${index}].line_id ${line.line_id} is listed more than once`);
+      } else {
+        seen.add(line.line_id);
+      }
+      if (typeof line.quantity !== 'number' || !(line.quantity > 0) || Math.round(line.quantity * 100) / 100 !== line.quantity) {
+        errors.push(`lines[${index}].quantity must be a positive number with at most 2 decimals`);
+      }
+      if (line.lot_number !== undefined && line.lot_number !== null &&
+          (typeof line.lot_number !== 'string' || line.lot_number.length > 100)) {
+        errors.push(`lines[${index}].lot_number must be a string of at most 100 characters`);
+      }
+      if (line.expiry_date !== undefined && line.expiry_date !== null && !isValidDate(line.expiry_date)) {
+        errors.push(`lines[${index}].expiry_date must be a valid date in format YYYY-MM-DD`);
+      }
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validatePurchaseOrderSearchParams(params: PurchaseOrderSearchParams): ValidationResult {
+  const errors: string[] = [];
+
+  if (params.status !== undefined && !PURCHASE_ORDER_STATUSES.includes(params.status)) {
+    errors.push(`status must be one of: ${PURCHASE_ORDER_STATUSES.join(', ')}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,48 @@
+import { ReportParams, ReportGroupBy, ReportPeriod } from '../models/report';
+import { OrderType } from '../models/order';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const VALID_GROUP_BY: ReportGroupBy[] = ['period', 'client', 'caterer', 'airport', 'fbo', 'order_type'];
+const VALID_PERIODS: ReportPeriod[] = ['day', 'week', 'month', 'quarter', 'year'];
+const VALID_ORDER_TYPES: OrderType[] = ['Inflight order', 'QE Serv Hub Order', 'Restaurant Pickup Order'];
+
+export function validateReportParams(params: ReportParams): ValidationResult {
+  const errors: string[] = [];
+
+  for (const field of ['date_from', 'date_to'] as const) {
+    if (!params[field] || !DATE_REGEX.test(params[field]) || isNaN(new Date(params[field]).getTime())) {
+      errors.push(`${field} must be a valid date in format YYYY-MM-DD`);
+    }
+  }
+  if (errors.length === 0 && params.date_from > params.date_to) {
+    errors.push('date_from must be on or before date_to');
+  }
+
+  if (!VALID_GROUP_BY.includes(params.group_by)) {
+    errors.push(`group_by must be one of: ${VALID_GROUP_BY.join(', ')}`);
+  }
+
+  if (!VALID_PERIODS.includes(params.period)) {
+    errors.push(`period must be one of: ${VALID_PERIODS.join(', ')}`);
+  }
+
+  for (const field of ['client_id', 'caterer_id', 'airport_id', 'fbo_id'] as const) {
+    if (params[field] !== undefined && (!Number.isInteger(params[field]) || (params[field] as number) <= 0)) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+
+  if (params.order_type !== undefined && !VALID_ORDER_TYPES.includes(params.order_type)) {
+    errors.push(`order_type must be one of: ${VALID_ORDER_TYPES.join(', ')}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
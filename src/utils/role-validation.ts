@@ -0,0 +1,61 @@
+import { CreateRoleDTO, UpdateRoleDTO } from '../models/permission';
+import { isPermission, isAdminOnly } from './permissions';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export function validateRole(role: CreateRoleDTO | UpdateRoleDTO, isUpdate: boolean = false): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isUpdate || role.name !== undefined) {
+    if (!role.name || typeof role.name !== 'string' || !role.name.trim()) {
+      errors.push('name is required');
+    } else if (role.name.trim().length > 100) {
+      errors.push('name must be at most 100 characters');
+    } else if (['ADMIN', 'CSR'].includes(role.name.trim().toUpperCase())) {
+      errors.push(`name ${role.name.trim()} is reserved for a built-in role`);
+    }
+  }
+
+  if (role.description !== undefined && role.description !== null && typeof role.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (!isUpdate || role.permissions !== undefined) {
+    if (!Array.isArray(role.permissions)) {
+      errors.push('permissions must be an array');
+    } else {
+      const unknown = role.permissions.filter(permission => !isPermission(permission));
+      if (unknown.length > 0) {
+        errors.push(`permissions contains unknown values (${unknown.join(', ')}); see GET /permissions`);
+      }
+      const adminOnly = role.permissions.filter(permission => isPermission(permission) && isAdminOnly(permission));
+      if (adminOnly.length > 0) {
+        errors.push(`permissions ${adminOnly.join(', ')} are reserved for administrators`);
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function normalizeRoleData<T extends CreateRoleDTO | UpdateRoleDTO>(role: T): T {
+  const normalized = { ...role };
+
+  if (normalized.name) {
+    normalized.name = normalized.name.trim();
+  }
+  if (typeof normalized.description === 'string') {
+    normalized.description = normalized.description.trim();
+  }
+  if (Array.isArray(normalized.permissions)) {
+    normalized.permissions = Array.from(new Set(normalized.permissions));
+  }
+
+  return normalized;
+}
@@ -0,0 +1,55 @@
+import { Application } from 'express';
+import { getRouteAccess, RouteAccess } from '../middleware/auth';
+
+// Express keeps no public API for its routing table; these mirror the internal Layer shape
+interface RouterLayer {
+  handle: ((...args: any[]) => void) & { stack?: RouterLayer[] };
+  regexp: RegExp & { fast_slash?: boolean };
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: RouterLayer[];
+  };
+}
+
+function getMountPath(layer: RouterLayer): string {
+  if (layer.regexp.fast_slash) {
+    return '';
+  }
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+}
+
+function collectUndeclared(stack: RouterLayer[], prefix: string, inherited: RouteAccess | undefined, undeclared: string[]): void {
+  let access = inherited;
+
+  for (const layer of stack) {
+    if (layer.route) {
+      const declared = access || layer.route.stack.map(routeLayer => getRouteAccess(routeLayer.handle)).find(Boolean);
+      if (!declared) {
+        const methods = Object.keys(layer.route.methods).map(method => method.toUpperCase()).join(',');
+        undeclared.push(`${methods} ${prefix}${layer.route.path}`);
+      }
+    } else if (layer.handle.stack) {
+      collectUndeclared(layer.handle.stack, prefix + getMountPath(layer), access, undeclared);
+    } else if (layer.regexp.fast_slash) {
+      // Router-level middleware such as router.use(requirePermission(...)) covers every route after it
+      access = getRouteAccess(layer.handle) || access;
+    }
+  }
+}
+
+/**
+ * Routes mounted on the app that declare neither a permission (requirePermission) nor
+ * allowPublic / allowAuthenticated, as "METHOD /path"
+ */
+export function findUndeclaredRoutes(app: Application): string[] {
+  const undeclared: string[] = [];
+  const router = (app as any)._router;
+  if (router) {
+    collectUndeclared(router.stack, '', undefined, undeclared);
+  }
+  return undeclared;
+}
@@ -0,0 +1,81 @@
+import { SchedulerRuleDTO } from '../models/scheduler';
+import { OrderType, getOrderTypeFromAlias } from '../models/order';
+import { validateEmail } from './validation';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const VALID_STATUSES = ['awaiting_quote', 'awaiting_client_approval', 'awaiting_caterer', 'caterer_confirmed', 'in_preparation', 'ready_for_delivery', 'delivered', 'cancelled', 'order_changed'];
+
+export function validateSchedulerRule(rule: SchedulerRuleDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (!rule.name || !rule.name.trim()) {
+    errors.push('name is required');
+  }
+
+  const validActions = ['set_status', 'escalate'];
+  if (!validActions.includes(rule.action)) {
+    errors.push(`action must be one of: ${validActions.join(', ')}`);
+  }
+
+  if (!Array.isArray(rule.from_statuses) || rule.from_statuses.length === 0) {
+    errors.push('from_statuses must be a non-empty array');
+  } else {
+    const invalid = rule.from_statuses.filter(s => !VALID_STATUSES.includes(s));
+    if (invalid.length > 0) {
+      errors.push(`from_statuses contains invalid statuses: ${invalid.join(', ')}`);
+    }
+  }
+
+  if (rule.action === 'set_status') {
+    if (!rule.target_status) {
+      errors.push('target_status is required when action is "set_status"');
+    } else if (!VALID_STATUSES.includes(rule.target_status)) {
+      errors.push(`target_status must be one of: ${VALID_STATUSES.join(', ')}`);
+    }
+  }
+
+  if (typeof rule.hours_before_delivery !== 'number' || rule.hours_before_delivery <= 0) {
+    errors.push('hours_before_delivery must be a positive number');
+  }
+
+  if (rule.caterer_id !== undefined && rule.caterer_id !== null) {
+    if (!Number.isInteger(rule.caterer_id) || rule.caterer_id <= 0) {
+      errors.push('caterer_id must be a positive integer');
+    }
+  }
+
+  if (rule.order_type) {
+    const validOrderTypes: OrderType[] = ['Inflight order', 'QE Serv Hub Order', 'Restaurant Pickup Order'];
+    const finalType = getOrderTypeFromAlias(rule.order_type) || rule.order_type;
+    if (!validOrderTypes.includes(finalType as OrderType)) {
+      errors.push(`order_type must be one of: ${validOrderTypes.join(', ')}`);
+    }
+  }
+
+  if (rule.order_priority) {
+    const validPriorities = ['low', 'normal', 'high', 'urgent'];
+    if (!validPriorities.includes(rule.order_priority)) {
+      errors.push(`order_priority must be one of: ${validPriorities.join(', ')}`);
+    }
+  }
+
+  if (rule.escalation_emails !== undefined) {
+    if (!Array.isArray(rule.escalation_emails)) {
+      errors.push('escalation_emails must be an array');
+    } else {
+      const invalid = rule.escalation_emails.filter(e => typeof e !== 'string' || !validateEmail(e));
+      if (invalid.length > 0) {
+        errors.push(`escalation_emails contains invalid addresses: ${invalid.join(', ')}`);
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,52 @@
+import { CreateSupplierDTO, UpdateSupplierDTO } from '../models/supplier';
+import { validateEmail } from './validation';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export function validateSupplier(supplier: CreateSupplierDTO | UpdateSupplierDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if ('supplier_name' in supplier && !supplier.supplier_name) {
+    errors.push('supplier_name is required');
+  }
+
+  if (supplier.email && !validateEmail(supplier.email)) {
+    errors.push('email must be a valid email address');
+  }
+
+  if (supplier.lead_time_days !== undefined && supplier.lead_time_days !== null &&
+      (!Number.isInteger(supplier.lead_time_days) || supplier.lead_time_days < 0)) {
+    errors.push('lead_time_days must be a non-negative integer');
+  }
+
+  if (supplier.is_active !== undefined && typeof supplier.is_active !== 'boolean') {
+    errors.push('is_active must be a boolean');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function normalizeSupplierData<T extends CreateSupplierDTO | UpdateSupplierDTO>(supplier: T): T {
+  const normalized = { ...supplier } as T;
+
+  if (normalized.supplier_name) {
+    normalized.supplier_name = normalized.supplier_name.trim();
+  }
+  if (normalized.contact_name) {
+    normalized.contact_name = normalized.contact_name.trim();
+  }
+  if (normalized.email) {
+    normalized.email = normalized.email.trim().toLowerCase();
+  }
+  if (normalized.phone) {
+    normalized.phone = normalized.phone.trim();
+  }
+
+  return normalized;
+}
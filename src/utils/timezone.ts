@@ -0,0 +1,96 @@
+// Zone for delivery times when neither the airport nor the caterer has one
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || 'UTC';
+
+/**
+ * IANA time zone name the runtime knows (e.g. America/New_York, Europe/London, UTC)
+ */
+export function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string' || !timeZone.trim()) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (e.g. -240 for EDT)
+ */
+export function getTimeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const value = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * UTC instant of a wall-clock date (YYYY-MM-DD) and time (HH:mm) in the zone. Wall times are read
+ * with the offset in effect before a DST change unless only the later offset fits, so times skipped
+ * by the change land after it and repeated times resolve to the first occurrence:
+ *   America/New_York 2024-03-10 02:30 -> 07:30Z (03:30 EDT)
+ *   Europe/Berlin    2024-03-31 02:30 -> 01:30Z (03:30 CEST)
+ *   Europe/London    2024-10-27 01:30 -> 00:30Z (01:30 BST, not GMT)
+ * Returns null when the date or time cannot be parsed.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date | null {
+  const dateMatch = String(date).match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const timeMatch = String(time).replace(/L$/, '').match(/^(\d{1,2}):(\d{2})/);
+  if (!dateMatch || !timeMatch) {
+    return null;
+  }
+
+  const wallClock = Date.UTC(
+    parseInt(dateMatch[1]),
+    parseInt(dateMatch[2]) - 1,
+    parseInt(dateMatch[3]),
+    parseInt(timeMatch[1]),
+    parseInt(timeMatch[2])
+  );
+  if (isNaN(wallClock)) {
+    return null;
+  }
+
+  // Offsets either side of any DST change near the wall time. An offset fits when the instant it
+  // gives maps back to the same offset; in a gap neither fits, in an overlap both do.
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const earlierOffset = getTimeZoneOffsetMinutes(new Date(wallClock - DAY_MS), timeZone);
+  const laterOffset = getTimeZoneOffsetMinutes(new Date(wallClock + DAY_MS), timeZone);
+  const fits = (offset: number) => getTimeZoneOffsetMinutes(new Date(wallClock - offset * 60000), timeZone) === offset;
+
+  const offset = fits(earlierOffset) || !fits(laterOffset) ? earlierOffset : laterOffset;
+  return new Date(wallClock - offset * 60000);
+}
+
+/**
+ * Short zone name at the instant, e.g. EST/EDT, GMT/BST; zones without an abbreviation
+ * in the runtime come back as an offset such as GMT+1
+ */
+export function getTimeZoneAbbreviation(instant: Date, timeZone: string): string {
+  try {
+    const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(instant)
+      .find(p => p.type === 'timeZoneName');
+    return part?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+}
+
+/**
+ * YYYY-MM-DD of the instant in the zone
+ */
+export function formatDateInTimeZone(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
@@ -0,0 +1,58 @@
+import { UpdateTwoFactorPolicyDTO } from '../models/two-factor';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const BUILT_IN_ROLES = ['ADMIN', 'CSR'];
+
+export function validateTwoFactorPolicy(policy: UpdateTwoFactorPolicyDTO): ValidationResult {
+  const errors: string[] = [];
+
+  if (policy.required_roles === undefined && policy.required_role_ids === undefined) {
+    errors.push('required_roles or required_role_ids is required');
+  }
+
+  if (policy.required_roles !== undefined) {
+    if (!Array.isArray(policy.required_roles)) {
+      errors.push('required_roles must be an array');
+    } else {
+      const invalid = policy.required_roles.filter(role => !BUILT_IN_ROLES.includes(role));
+      if (invalid.length > 0) {
+        errors.push(`required_roles must only contain ${BUILT_IN_ROLES.join(', ')} (got ${invalid.join(', ')})`);
+      }
+    }
+  }
+
+  if (policy.required_role_ids !== undefined) {
+    if (!Array.isArray(policy.required_role_ids)) {
+      errors.push('required_role_ids must be an array');
+    } else if (policy.required_role_ids.some(id => !Number.isInteger(id) || id <= 0)) {
+      errors.push('required_role_ids must contain positive integers');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * A TOTP code (6 digits) or a backup code (xxxx-xxxx)
+ */
+export function validateTwoFactorCode(code: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof code !== 'string' || !code.trim()) {
+    errors.push('code is required');
+  } else if (code.trim().length > 20) {
+    errors.push('code is too long');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
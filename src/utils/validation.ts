@@ -1,4 +1,5 @@
 import { CreateAirportDTO } from '../models/airport';
+import { isValidTimeZone } from './timezone';
 
 export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -43,6 +44,10 @@ export function validateAirport(data: CreateAirportDTO): { valid: boolean; error
     // Codes with wrong length (not 4) will be normalized to undefined (acceptable for optional field)
   }
 
+  if (data.time_zone && !isValidTimeZone(data.time_zone)) {
+    errors.push('time_zone must be a valid IANA time zone (e.g. America/New_York)');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -68,6 +73,10 @@ export function normalizeAirportData(data: CreateAirportDTO): CreateAirportDTO {
     normalized.airport_code_icao = cleaned && cleaned.length === 4 ? cleaned : undefined;
   }
 
+  if (data.time_zone) {
+    normalized.time_zone = data.time_zone.trim() || undefined;
+  }
+
   return normalized;
 }
 